@@ -2,6 +2,9 @@
 const nextConfig = {
   experimental: {
     typedRoutes: true,
+    // Strategy uploads are compiled with the TypeScript compiler at runtime;
+    // SQLite loads its WebAssembly from its own package directory.
+    serverComponentsExternalPackages: ['typescript', 'sql.js', 'pg'],
   },
   eslint: {
     dirs: ['src'],
@@ -0,0 +1,78 @@
+/**
+ * Runs a backtest headlessly and prints its summary.
+ *
+ *   pnpm backtest --strategy sma-cross --symbols AAPL,MSFT \
+ *     --params '{"fast":10,"slow":30}' --slippage '{"type":"bps","bps":5}'
+ *
+ * Pass --save to store the result where the dashboard can see it, and
+ * --json to print the full result instead of the summary. Uploaded
+ * strategies are looked up among those of the user id given with --user.
+ */
+import { parseArgs } from 'node:util';
+import { executeBacktest, parseBacktestRequest } from '../src/lib/backtest';
+import { DEFAULT_ACCOUNT_ID } from '../src/lib/oms/manager';
+
+function parseJsonOption(name: string, value: string | undefined): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`--${name} must be valid JSON`);
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      strategy: { type: 'string' },
+      user: { type: 'string' },
+      symbols: { type: 'string' },
+      params: { type: 'string' },
+      mode: { type: 'string' },
+      timeframe: { type: 'string' },
+      start: { type: 'string' },
+      end: { type: 'string' },
+      capital: { type: 'string' },
+      seed: { type: 'string' },
+      slippage: { type: 'string' },
+      commission: { type: 'string' },
+      'allow-short': { type: 'boolean' },
+      save: { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+  });
+
+  const parsed = parseBacktestRequest({
+    strategy: values.strategy,
+    symbols: values.symbols?.split(','),
+    params: parseJsonOption('params', values.params),
+    mode: values.mode,
+    timeframe: values.timeframe,
+    start: values.start,
+    end: values.end,
+    initialCapital: values.capital ? Number(values.capital) : undefined,
+    seed: values.seed ? Number(values.seed) : undefined,
+    slippage: parseJsonOption('slippage', values.slippage),
+    commission: parseJsonOption('commission', values.commission),
+    allowShort: values['allow-short'],
+  });
+  if (!('request' in parsed)) {
+    console.error(`Invalid backtest:\n  ${parsed.problems.join('\n  ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const userId = values.user ?? DEFAULT_ACCOUNT_ID;
+  const record = await executeBacktest(userId, parsed.request, {
+    store: values.save ? undefined : null,
+  });
+  const output = values.json
+    ? record.result
+    : { id: values.save ? record.id : undefined, ...record.result.summary };
+  console.log(JSON.stringify(output, null, 2));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
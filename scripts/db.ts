@@ -0,0 +1,43 @@
+/**
+ * Manages the schema of the database `DATABASE_DRIVER` points at.
+ *
+ *   pnpm db:migrate    apply pending migrations
+ *   pnpm db:rollback   revert the last batch of migrations
+ *   pnpm db:seed       load the seed data
+ *   pnpm db status     list migrations and whether they are applied
+ *
+ * An in-memory SQLite database is gone when the script exits; set
+ * DATABASE_FILE (or use postgres) for changes to last.
+ */
+import { getDatabase } from '../src/lib/database';
+
+async function run(command: string | undefined): Promise<unknown> {
+  const database = getDatabase();
+  switch (command) {
+    case 'migrate':
+      return database.migrate.latest();
+    case 'rollback':
+      return database.migrate.rollback();
+    case 'seed':
+      return { seeds: await database.seed.run() };
+    case 'status':
+      return database.migrate.status();
+    default:
+      throw new Error(
+        `Unknown command "${command ?? ''}"; use migrate, rollback, seed or status`
+      );
+  }
+}
+
+async function main(): Promise<void> {
+  try {
+    console.log(JSON.stringify(await run(process.argv[2]), null, 2));
+  } finally {
+    await getDatabase().destroy();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,69 @@
+/**
+ * Trains a forecasting model on local bars and prints its signal and
+ * out-of-sample accuracy.
+ *
+ *   pnpm forecast --symbol AAPL --model '{"type":"boosted-trees","depth":2}' \
+ *     --horizon 5
+ *
+ * Pass --json to print the full result instead of the summary.
+ */
+import { parseArgs } from 'node:util';
+import { executeForecast, parseForecastRequest } from '../src/lib/forecasting';
+
+function parseJsonOption(name: string, value: string | undefined): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`--${name} must be valid JSON`);
+  }
+}
+
+const numberOption = (value: string | undefined) =>
+  value === undefined ? undefined : Number(value);
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      symbol: { type: 'string' },
+      model: { type: 'string' },
+      timeframe: { type: 'string' },
+      lookback: { type: 'string' },
+      horizon: { type: 'string' },
+      'test-fraction': { type: 'string' },
+      threshold: { type: 'string' },
+      json: { type: 'boolean' },
+    },
+  });
+
+  const parsed = parseForecastRequest({
+    symbol: values.symbol,
+    model: parseJsonOption('model', values.model),
+    timeframe: values.timeframe,
+    lookback: numberOption(values.lookback),
+    horizon: numberOption(values.horizon),
+    testFraction: numberOption(values['test-fraction']),
+    threshold: numberOption(values.threshold),
+  });
+  if (!('request' in parsed)) {
+    console.error(`Invalid forecast:\n  ${parsed.problems.join('\n  ')}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const result = await executeForecast(parsed.request);
+  const output = values.json
+    ? result
+    : {
+        symbol: result.symbol,
+        model: result.model,
+        signal: result.signal,
+        evaluation: result.evaluation,
+      };
+  console.log(JSON.stringify(output, null, 2));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
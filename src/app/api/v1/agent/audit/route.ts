@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getAuditLog } from '@/lib/agent';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+
+/** GET /api/v1/agent/audit[?tool&outcome&limit] — the caller's tool calls, newest first. */
+export const GET = apiHandler(async request => {
+  const { user } = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const tool = query.string('tool');
+  const outcome = query.oneOf('outcome', [
+    'ok',
+    'denied',
+    'invalid',
+    'failed',
+  ] as const);
+  const limit = query.integer('limit', { min: 1, max: 500 }) ?? 100;
+  query.assertValid();
+
+  const entries = await getAuditLog().list({
+    userId: user.id,
+    tool,
+    outcome,
+    limit,
+  });
+  return NextResponse.json({ entries });
+});
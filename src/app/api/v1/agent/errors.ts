@@ -0,0 +1,21 @@
+import { ApiError, notFound, validationError } from '@/lib/api/http';
+import { AgentError } from '@/lib/agent';
+
+/**
+ * Maps agent errors onto HTTP: unknown tools and ids 404, missing scopes
+ * 403, bad input 400 and tools that ran but could not finish 422.
+ */
+export function agentApiError(error: unknown): unknown {
+  if (!(error instanceof AgentError)) return error;
+  switch (error.code) {
+    case 'UNKNOWN_TOOL':
+    case 'NOT_FOUND':
+      return notFound(error.message);
+    case 'FORBIDDEN':
+      return new ApiError(403, 'Forbidden', error.message);
+    case 'INVALID_INPUT':
+      return validationError(error.details);
+    case 'TOOL_FAILED':
+      return new ApiError(422, 'Tool Failed', error.message, error.details);
+  }
+}
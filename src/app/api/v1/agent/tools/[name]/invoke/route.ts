@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getToolRegistry } from '@/lib/agent';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson } from '@/lib/api/http';
+import { agentApiError } from '../../../errors';
+
+/**
+ * POST /api/v1/agent/tools/:name/invoke — calls the tool with the body as
+ * its input and returns `{ id, tool, output, durationMs }`. The tool's
+ * scope is checked against the caller's, and the call is audited either
+ * way.
+ */
+export const POST = apiHandler<{ name: string }>(
+  async (request, { params }) => {
+    const principal = await requireAuth(request);
+    const input = await readJson(request);
+    try {
+      return NextResponse.json(
+        await getToolRegistry().invoke(params.name, input, { principal })
+      );
+    } catch (error) {
+      throw agentApiError(error);
+    }
+  }
+);
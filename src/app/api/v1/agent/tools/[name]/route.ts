@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getToolRegistry } from '@/lib/agent';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, notFound } from '@/lib/api/http';
+
+/** GET /api/v1/agent/tools/:name */
+export const GET = apiHandler<{ name: string }>(async (request, { params }) => {
+  const { scopes } = await requireAuth(request);
+  const tool = getToolRegistry()
+    .describe(scopes)
+    .find(candidate => candidate.name === params.name);
+  if (!tool) throw notFound(`Unknown tool ${params.name}`);
+  return NextResponse.json(tool);
+});
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getToolRegistry } from '@/lib/agent';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+
+/**
+ * GET /api/v1/agent/tools — every tool with its JSON-schema input and
+ * output, and whether the caller's scopes allow calling it.
+ */
+export const GET = apiHandler(async request => {
+  const { scopes } = await requireAuth(request);
+  return NextResponse.json({ tools: getToolRegistry().describe(scopes) });
+});
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import { getAlertEngine } from '@/lib/alerts';
+import { alertApiError } from '../../errors';
+
+/**
+ * GET /api/v1/alerts/:id/history[?limit] — when the alert triggered, what
+ * it observed and how each delivery went, most recent first.
+ */
+export const GET = apiHandler<{ id: string }>(async (request, { params }) => {
+  const { user } = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const limit = query.integer('limit', { min: 1, max: 100 });
+  query.assertValid();
+  try {
+    const triggers = await getAlertEngine().triggers(user.id, params.id, limit);
+    return NextResponse.json({ triggers });
+  } catch (error) {
+    throw alertApiError(error);
+  }
+});
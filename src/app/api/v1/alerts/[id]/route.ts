@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getAlertEngine, parseAlertChanges, toPublicAlert } from '@/lib/alerts';
+import { alertApiError } from '../errors';
+
+type Params = { id: string };
+
+/** GET /api/v1/alerts/:id */
+export const GET = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request);
+  try {
+    const alert = await getAlertEngine().get(user.id, params.id);
+    return NextResponse.json(toPublicAlert(alert));
+  } catch (error) {
+    throw alertApiError(error);
+  }
+});
+
+/**
+ * PATCH /api/v1/alerts/:id — renames, disables or re-arms (`status:
+ * active`) the alert, or changes its cooldown or channels.
+ */
+export const PATCH = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request, 'trade');
+  const parsed = parseAlertChanges(await readJson(request));
+  if (!('changes' in parsed)) throw validationError(parsed.problems);
+  try {
+    const alert = await getAlertEngine().update(
+      user.id,
+      params.id,
+      parsed.changes
+    );
+    return NextResponse.json(toPublicAlert(alert));
+  } catch (error) {
+    throw alertApiError(error);
+  }
+});
+
+/** DELETE /api/v1/alerts/:id — deletes the alert and its history. */
+export const DELETE = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request, 'trade');
+  try {
+    await getAlertEngine().remove(user.id, params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    throw alertApiError(error);
+  }
+});
@@ -0,0 +1,14 @@
+import { notFound, validationError } from '@/lib/api/http';
+import { AlertError } from '@/lib/alerts';
+
+/** Maps alert errors onto HTTP: unknown ids 404, the rest 400. */
+export function alertApiError(error: unknown): unknown {
+  if (!(error instanceof AlertError)) return error;
+  switch (error.code) {
+    case 'NOT_FOUND':
+      return notFound(error.message);
+    case 'INVALID_ALERT':
+    case 'DELIVERY_FAILED':
+      return validationError([error.message]);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getAlertEngine, parseAlertInput, toPublicAlert } from '@/lib/alerts';
+import { getMarketDataProvider } from '@/lib/marketdata';
+
+/** GET /api/v1/alerts — the user's alerts, most recent first. */
+export const GET = apiHandler(async request => {
+  const { user } = await requireAuth(request);
+  const alerts = await getAlertEngine().list(user.id);
+  return NextResponse.json({ alerts: alerts.map(toPublicAlert) });
+});
+
+/**
+ * POST /api/v1/alerts — creates an alert on a price, an indicator, the
+ * price against an indicator, a position's loss or a volume spike. It is
+ * evaluated on every quote or on bar close, once or with a cooldown, and
+ * delivered in-app and to webhooks.
+ */
+export const POST = apiHandler(async request => {
+  const { user } = await requireAuth(request, 'trade');
+  const parsed = parseAlertInput(await readJson(request));
+  if (!('alert' in parsed)) throw validationError(parsed.problems);
+
+  const { symbol } = parsed.alert;
+  if (!(await getMarketDataProvider().getSymbol(symbol))) {
+    throw validationError([`Unknown symbol ${symbol}`]);
+  }
+
+  const alert = await getAlertEngine().create(user.id, parsed.alert);
+  return NextResponse.json(toPublicAlert(alert), {
+    status: 201,
+    headers: { Location: `/api/v1/alerts/${alert.id}` },
+  });
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { authApiError } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getAuthService, SESSION_COOKIE } from '@/lib/auth';
+import { Validator } from '@/lib/validation';
+
+/**
+ * POST /api/v1/auth/login — `{ email, password }`. Returns a session token
+ * to send as `Authorization: Bearer` and also sets it as an HTTP-only
+ * cookie, which is what the UI relies on.
+ */
+export const POST = apiHandler(async request => {
+  const fields = new Validator(await readJson(request));
+  const email = fields.string('email', true);
+  const password = fields.string('password', true);
+  if (!fields.valid) throw validationError(fields.problems);
+
+  try {
+    const { token, expiresAt, user } = await getAuthService().login({
+      email,
+      password,
+    });
+    const expires = new Date(expiresAt!);
+    const response = NextResponse.json({
+      token,
+      tokenType: 'Bearer',
+      expiresAt: expires.toISOString(),
+      user,
+    });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires,
+    });
+    return response;
+  } catch (error) {
+    throw authApiError(error);
+  }
+});
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { tokenOf } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+import { getAuthService, SESSION_COOKIE } from '@/lib/auth';
+
+/**
+ * POST /api/v1/auth/logout — ends the caller's session and clears the
+ * cookie. Always succeeds, so a stale cookie can still log out.
+ */
+export const POST = apiHandler(async request => {
+  const token = tokenOf(request);
+  if (token) await getAuthService().logout(token);
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+});
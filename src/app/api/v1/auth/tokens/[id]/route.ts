@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { authApiError } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+import { getAuthService } from '@/lib/auth';
+import { requireSession } from '../session';
+
+/** DELETE /api/v1/auth/tokens/:id — revokes one of the caller's tokens. */
+export const DELETE = apiHandler<{ id: string }>(
+  async (request, { params }) => {
+    const { user } = await requireSession(request);
+    try {
+      const token = await getAuthService().revokeApiToken(user.id, params.id);
+      return NextResponse.json(token);
+    } catch (error) {
+      throw authApiError(error);
+    }
+  }
+);
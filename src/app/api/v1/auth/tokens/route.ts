@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { authApiError } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getAuthService, isScope } from '@/lib/auth';
+import { Validator } from '@/lib/validation';
+import { requireSession } from './session';
+
+/** GET /api/v1/auth/tokens — the caller's API tokens, without secrets. */
+export const GET = apiHandler(async request => {
+  const { user } = await requireSession(request);
+  const tokens = await getAuthService().listApiTokens(user.id);
+  return NextResponse.json({ tokens });
+});
+
+/**
+ * POST /api/v1/auth/tokens — `{ name, scopes, expiresInDays? }`. Creates a
+ * personal API token for scripts; the token itself is only ever shown in
+ * this response. Scopes beyond the caller's own are refused with a 403.
+ */
+export const POST = apiHandler(async request => {
+  const { user } = await requireSession(request);
+  const fields = new Validator(await readJson(request));
+  const name = fields.string('name', true);
+  const requested = fields.stringArray('scopes', true) ?? [];
+  const expiresInDays = fields.integer('expiresInDays', false, {
+    min: 1,
+    max: 3650,
+  });
+  const unknown = requested.filter(scope => !isScope(scope));
+  if (unknown.length > 0) {
+    fields.fail('scopes', `has unknown scopes: ${unknown.join(', ')}`);
+  }
+  if (!fields.valid) throw validationError(fields.problems);
+
+  try {
+    const { token, record } = await getAuthService().createApiToken(user.id, {
+      name,
+      scopes: requested.filter(isScope),
+      expiresInDays,
+    });
+    return NextResponse.json(
+      { ...record, token },
+      {
+        status: 201,
+        headers: { Location: `/api/v1/auth/tokens/${record.id}` },
+      }
+    );
+  } catch (error) {
+    throw authApiError(error);
+  }
+});
@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { ApiError } from '@/lib/api/http';
+import type { Principal } from '@/lib/auth';
+
+/**
+ * API tokens are managed from a logged-in session only, so a leaked token
+ * cannot mint others with more scopes than its own.
+ */
+export async function requireSession(request: NextRequest): Promise<Principal> {
+  const principal = await requireAuth(request);
+  if (principal.via !== 'session') {
+    throw new ApiError(
+      403,
+      'Forbidden',
+      'API tokens can only be managed from a logged-in session'
+    );
+  }
+  return principal;
+}
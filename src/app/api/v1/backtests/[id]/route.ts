@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, notFound } from '@/lib/api/http';
+import { getBacktest } from '@/lib/backtest';
+
+/**
+ * GET /api/v1/backtests/:id — one of your runs in full: equity curve,
+ * trades, fills.
+ */
+export const GET = apiHandler<{ id: string }>(async (request, { params }) => {
+  const { user } = await requireAuth(request);
+  const record = await getBacktest(user.id, params.id);
+  if (!record) throw notFound(`Backtest ${params.id} not found`);
+  return NextResponse.json(record);
+});
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import {
+  ApiError,
+  apiHandler,
+  readJson,
+  validationError,
+} from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import {
+  BacktestError,
+  executeBacktest,
+  getBacktestStore,
+  parseBacktestRequest,
+  toListItem,
+} from '@/lib/backtest';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import { StrategyError } from '@/lib/strategy';
+
+/** GET /api/v1/backtests[?limit] — your stored runs, most recent first. */
+export const GET = apiHandler(async request => {
+  const { user } = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const limit = query.integer('limit', { min: 1, max: 500 });
+  query.assertValid();
+
+  const backtests = await getBacktestStore().list(user.id, limit);
+  return NextResponse.json({ backtests });
+});
+
+/**
+ * POST /api/v1/backtests — runs a built-in or uploaded strategy and stores
+ * the result. A strategy that crashes or breaks its sandbox limits is a 422.
+ */
+export const POST = apiHandler(async request => {
+  const { user } = await requireAuth(request, 'trade');
+  const parsed = parseBacktestRequest(await readJson(request));
+  if (!('request' in parsed)) throw validationError(parsed.problems);
+
+  const provider = getMarketDataProvider();
+  const unknown: string[] = [];
+  for (const symbol of parsed.request.config.symbols) {
+    if (!(await provider.getSymbol(symbol))) unknown.push(symbol);
+  }
+  if (unknown.length > 0) {
+    throw validationError(unknown.map(symbol => `Unknown symbol ${symbol}`));
+  }
+
+  try {
+    const record = await executeBacktest(user.id, parsed.request, {
+      provider,
+    });
+    return NextResponse.json(toListItem(record), {
+      status: 201,
+      headers: { Location: `/api/v1/backtests/${record.id}` },
+    });
+  } catch (error) {
+    if (error instanceof BacktestError) throw validationError([error.message]);
+    if (error instanceof StrategyError) {
+      if (['INVALID_PARAMS', 'NOT_FOUND'].includes(error.code)) {
+        throw validationError([error.message]);
+      }
+      throw new ApiError(422, 'Strategy Failed', error.message, [error.code]);
+    }
+    throw error;
+  }
+});
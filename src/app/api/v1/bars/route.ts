@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { apiHandler, notFound, validationError } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import {
+  TIMEFRAMES,
+  compareTimeframes,
+  getMarketDataProvider,
+  loadBars,
+} from '@/lib/marketdata';
+
+/**
+ * GET /api/v1/bars?symbol=AAPL&timeframe=1h[&source=1m][&start][&end]
+ * [&limit][&gapFill=skip|fill]
+ *
+ * Returns stored bars, or bars resampled from a finer stored timeframe.
+ */
+export const GET = apiHandler(async request => {
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const symbol = query.requiredString('symbol').toUpperCase();
+  const timeframe = query.oneOf('timeframe', TIMEFRAMES) ?? '1d';
+  const source = query.oneOf('source', TIMEFRAMES);
+  const gapFill = query.oneOf('gapFill', ['skip', 'fill'] as const);
+  const start = query.time('start');
+  const end = query.time('end');
+  const limit = query.integer('limit', { min: 1, max: 10_000 });
+  query.assertValid();
+
+  if (source && compareTimeframes(source, timeframe) > 0) {
+    throw validationError([
+      `source ${source} is coarser than timeframe ${timeframe}`,
+    ]);
+  }
+
+  const provider = getMarketDataProvider();
+  if (!(await provider.getSymbol(symbol))) {
+    throw notFound(`Unknown symbol ${symbol}`);
+  }
+
+  const result = await loadBars(
+    provider,
+    symbol,
+    { timeframe, start, end, limit },
+    { source, gapFill }
+  );
+  return NextResponse.json({
+    symbol,
+    timeframe,
+    source: result.source,
+    bars: result.bars,
+  });
+});
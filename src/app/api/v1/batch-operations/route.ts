@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import {
+  ApiError,
+  apiHandler,
+  readJson,
+  validationError,
+} from '@/lib/api/http';
+import { accountIdOf } from '@/lib/auth';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import { getOrderManager, parseOrderBatch, type BatchLeg } from '@/lib/oms';
+import { getPortfolio, lotProblems } from '@/lib/portfolio';
+
+/**
+ * POST /api/v1/batch-operations — places a basket of `orders` at once in
+ * the caller's account, reporting what became of each leg. In `atomic` mode (the default) any
+ * leg failing validation (a 400) or the pre-trade checks (a 422) means
+ * none is placed, and the error's details are the per-leg results.
+ * `best-effort` places what it can and always answers with the results.
+ */
+export const POST = apiHandler(async request => {
+  const principal = await requireAuth(request, 'trade');
+  const accountId = accountIdOf(principal);
+  const parsed = parseOrderBatch(await readJson(request));
+  if (!('batch' in parsed)) throw validationError(parsed.problems);
+
+  const provider = getMarketDataProvider();
+  const legs = await Promise.all(
+    parsed.batch.legs.map(async (leg): Promise<BatchLeg> => {
+      if (!('order' in leg)) return leg;
+      const { symbol, lotIds } = leg.order;
+      if (!(await provider.getSymbol(symbol))) {
+        return { problems: [`Unknown symbol ${symbol}`] };
+      }
+      const problems = lotProblems(getPortfolio(accountId), symbol, lotIds);
+      return problems.length > 0
+        ? { problems }
+        : { order: { ...leg.order, accountId } };
+    })
+  );
+
+  const result = await getOrderManager().createBatch(legs, parsed.batch.mode);
+  if (!result.committed) {
+    const legsWith = (...statuses: string[]) =>
+      result.legs
+        .filter(leg => statuses.includes(leg.status))
+        .map(leg => `orders[${leg.index}]`)
+        .join(', ');
+    const filled = legsWith('placed');
+    throw new ApiError(
+      result.legs.some(leg => leg.status === 'invalid') ? 400 : 422,
+      'Transaction Failed',
+      filled
+        ? `Rolled back after ${legsWith('invalid', 'rejected')} failed, but ${filled} had already filled`
+        : `No orders were placed: ${legsWith('invalid', 'rejected')} failed`,
+      result.legs
+    );
+  }
+  return NextResponse.json(result);
+});
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import {
+  ApiError,
+  apiHandler,
+  notFound,
+  readJson,
+  validationError,
+} from '@/lib/api/http';
+import {
+  ForecastError,
+  executeForecast,
+  parseForecastRequest,
+} from '@/lib/forecasting';
+import { getMarketDataProvider } from '@/lib/marketdata';
+
+/**
+ * POST /api/v1/forecasts — trains a model on the symbol's recent bars and
+ * returns its signal with out-of-sample accuracy. Nothing is stored, so a
+ * read token is enough. Too little history for the request is a 422.
+ */
+export const POST = apiHandler(async request => {
+  await requireAuth(request);
+  const parsed = parseForecastRequest(await readJson(request));
+  if (!('request' in parsed)) throw validationError(parsed.problems);
+
+  const provider = getMarketDataProvider();
+  if (!(await provider.getSymbol(parsed.request.symbol))) {
+    throw notFound(`Unknown symbol ${parsed.request.symbol}`);
+  }
+
+  try {
+    return NextResponse.json(
+      await executeForecast(parsed.request, { provider })
+    );
+  } catch (error) {
+    if (error instanceof ForecastError) {
+      if (error.code === 'INVALID_MODEL') {
+        throw validationError([error.message]);
+      }
+      throw new ApiError(422, 'Insufficient Data', error.message);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getMemoryBank, parseMemoryChanges } from '@/lib/memory';
+import { memoryApiError } from '../errors';
+
+type Params = { id: string };
+
+/** GET /api/v1/memories/:id */
+export const GET = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request);
+  try {
+    return NextResponse.json(await getMemoryBank().get(user.id, params.id));
+  } catch (error) {
+    throw memoryApiError(error);
+  }
+});
+
+/** PATCH /api/v1/memories/:id — edits it; empty lists clear links and tags. */
+export const PATCH = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request, 'trade');
+  const parsed = parseMemoryChanges(await readJson(request));
+  if (!('changes' in parsed)) throw validationError(parsed.problems);
+  try {
+    return NextResponse.json(
+      await getMemoryBank().update(user.id, params.id, parsed.changes)
+    );
+  } catch (error) {
+    throw memoryApiError(error);
+  }
+});
+
+/** DELETE /api/v1/memories/:id */
+export const DELETE = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request, 'trade');
+  try {
+    await getMemoryBank().remove(user.id, params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    throw memoryApiError(error);
+  }
+});
@@ -0,0 +1,11 @@
+import { notFound } from '@/lib/api/http';
+import { MemoryError } from '@/lib/memory';
+
+/** Maps memory errors onto HTTP: unknown memories 404. */
+export function memoryApiError(error: unknown): unknown {
+  if (!(error instanceof MemoryError)) return error;
+  switch (error.code) {
+    case 'NOT_FOUND':
+      return notFound(error.message);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import {
+  MEMORY_KINDS,
+  getMemoryBank,
+  parseMemory,
+  type MemoryKind,
+} from '@/lib/memory';
+
+/**
+ * GET /api/v1/memories[?q&kind&tag&symbol&orderId&backtestId&start&end&limit&offset]
+ * — the user's memories, best match for `q` first, otherwise newest first.
+ * `kind`, `tag` and `symbol` take comma-separated lists.
+ */
+export const GET = apiHandler(async request => {
+  const { user } = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const text = query.string('q');
+  const kinds = query.list('kind');
+  const tags = query.list('tag')?.map(tag => tag.toLowerCase());
+  const symbols = query.list('symbol')?.map(symbol => symbol.toUpperCase());
+  const orderId = query.string('orderId');
+  const backtestId = query.string('backtestId');
+  const start = query.time('start');
+  const end = query.time('end');
+  const limit = query.integer('limit', { min: 1, max: 100 });
+  const offset = query.integer('offset', { min: 0, max: 10_000 });
+  query.assertValid();
+
+  const unknownKinds = (kinds ?? []).filter(
+    kind => !(MEMORY_KINDS as readonly string[]).includes(kind)
+  );
+  if (unknownKinds.length > 0) {
+    throw validationError([`kind must be one of ${MEMORY_KINDS.join(', ')}`]);
+  }
+
+  const result = await getMemoryBank().search(user.id, {
+    text,
+    kinds: kinds as MemoryKind[] | undefined,
+    tags,
+    symbols,
+    orderId,
+    backtestId,
+    start,
+    end,
+    limit,
+    offset,
+  });
+  return NextResponse.json(result);
+});
+
+/**
+ * POST /api/v1/memories — records a note, thesis or trade rationale,
+ * linked to the symbols, orders and backtests it is about.
+ */
+export const POST = apiHandler(async request => {
+  const { user } = await requireAuth(request, 'trade');
+  const parsed = parseMemory(await readJson(request));
+  if (!('memory' in parsed)) throw validationError(parsed.problems);
+
+  const memory = await getMemoryBank().add(user.id, parsed.memory, 'user');
+  return NextResponse.json(memory, {
+    status: 201,
+    headers: { Location: `/api/v1/memories/${memory.id}` },
+  });
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getAlertEngine } from '@/lib/alerts';
+import { Validator } from '@/lib/validation';
+import { alertApiError } from '../../alerts/errors';
+
+/** PATCH /api/v1/notifications/:id — marks it read or unread. */
+export const PATCH = apiHandler<{ id: string }>(async (request, { params }) => {
+  const { user } = await requireAuth(request, 'trade');
+  const fields = new Validator(await readJson(request));
+  const read = fields.boolean('read');
+  if (!fields.has('read')) fields.fail('read', 'is required');
+  if (!fields.valid || read === undefined) {
+    throw validationError(fields.problems);
+  }
+  try {
+    const notification = await getAlertEngine().markNotification(
+      user.id,
+      params.id,
+      read
+    );
+    return NextResponse.json(notification);
+  } catch (error) {
+    throw alertApiError(error);
+  }
+});
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import { getAlertEngine } from '@/lib/alerts';
+
+/** GET /api/v1/notifications[?unread&limit] — in-app alerts, newest first. */
+export const GET = apiHandler(async request => {
+  const { user } = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const unread = query.oneOf('unread', ['true', 'false'] as const);
+  const limit = query.integer('limit', { min: 1, max: 500 });
+  query.assertValid();
+
+  const notifications = await getAlertEngine().notifications(user.id, {
+    unreadOnly: unread === 'true',
+    limit,
+  });
+  return NextResponse.json({ notifications });
+});
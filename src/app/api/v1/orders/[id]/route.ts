@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { accountIdOf, type Principal } from '@/lib/auth';
+import {
+  apiHandler,
+  notFound,
+  readJson,
+  validationError,
+} from '@/lib/api/http';
+import { getOrderManager, parseAmendOrder, type ManagedOrder } from '@/lib/oms';
+import { omsApiError } from '../errors';
+
+type Params = { id: string };
+
+/** Order `id` of the caller's account; anyone else's is reported missing. */
+function ownOrder(principal: Principal, id: string): ManagedOrder {
+  const order = getOrderManager().get(id);
+  if (!order || order.accountId !== accountIdOf(principal)) {
+    throw notFound(`Order ${id} not found`);
+  }
+  return order;
+}
+
+/** GET /api/v1/orders/:id — the order with its fills and status history. */
+export const GET = apiHandler<Params>(async (request, { params }) => {
+  const principal = await requireAuth(request);
+  return NextResponse.json(ownOrder(principal, params.id));
+});
+
+/**
+ * PATCH /api/v1/orders/:id — cancel/replace. The order becomes `replaced`
+ * and the response is its replacement, which has a new id.
+ */
+export const PATCH = apiHandler<Params>(async (request, { params }) => {
+  const principal = await requireAuth(request, 'trade');
+  const parsed = parseAmendOrder(await readJson(request));
+  if (!('changes' in parsed)) throw validationError(parsed.problems);
+  ownOrder(principal, params.id);
+  try {
+    const order = await getOrderManager().amend(params.id, parsed.changes);
+    return NextResponse.json(order, {
+      headers: { Location: `/api/v1/orders/${order.id}` },
+    });
+  } catch (error) {
+    throw omsApiError(error);
+  }
+});
+
+/** DELETE /api/v1/orders/:id — cancels an open order. */
+export const DELETE = apiHandler<Params>(async (request, { params }) => {
+  const principal = await requireAuth(request, 'trade');
+  ownOrder(principal, params.id);
+  try {
+    return NextResponse.json(await getOrderManager().cancel(params.id));
+  } catch (error) {
+    throw omsApiError(error);
+  }
+});
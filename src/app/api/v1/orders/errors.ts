@@ -0,0 +1,21 @@
+import { ApiError, notFound, validationError } from '@/lib/api/http';
+import { OmsError } from '@/lib/oms';
+
+/**
+ * Maps OMS errors onto HTTP: unknown ids 404, lifecycle clashes 409 and
+ * amendments failing pre-trade checks 422, with the reasons as details.
+ */
+export function omsApiError(error: unknown): unknown {
+  if (!(error instanceof OmsError)) return error;
+  switch (error.code) {
+    case 'NOT_FOUND':
+      return notFound(error.message);
+    case 'INVALID_ORDER':
+      return validationError([error.message]);
+    case 'INVALID_TRANSITION':
+    case 'DUPLICATE_CLIENT_ORDER_ID':
+      return new ApiError(409, 'Conflict', error.message, [error.code]);
+    case 'REJECTED':
+      return new ApiError(422, 'Order Rejected', error.message, error.reasons);
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { accountIdOf } from '@/lib/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import { ORDER_STATUSES, getOrderManager, parseCreateOrder } from '@/lib/oms';
+import { getPortfolio, lotProblems } from '@/lib/portfolio';
+import { omsApiError } from './errors';
+
+/**
+ * GET /api/v1/orders[?symbol&status&limit] — the caller's orders, most
+ * recent first.
+ */
+export const GET = apiHandler(async request => {
+  const principal = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const symbol = query.string('symbol')?.toUpperCase();
+  const status = query.oneOf('status', [...ORDER_STATUSES, 'open'] as const);
+  const limit = query.integer('limit', { min: 1, max: 500 });
+  query.assertValid();
+
+  const orders = getOrderManager().list({
+    accountId: accountIdOf(principal),
+    symbol,
+    status,
+    limit,
+  });
+  return NextResponse.json({ orders });
+});
+
+/**
+ * POST /api/v1/orders — places an order (a bracket, with `takeProfit` and
+ * `stopLoss`) in the caller's account. Orders the broker turns down are still created, as
+ * `rejected`. Repeating a `clientOrderId` (or `Idempotency-Key` header)
+ * returns the original order with a 200 instead of placing another.
+ */
+export const POST = apiHandler(async request => {
+  const principal = await requireAuth(request, 'trade');
+  const accountId = accountIdOf(principal);
+  const body = await readJson(request);
+  const key = request.headers.get('Idempotency-Key');
+  const parsed = parseCreateOrder(
+    key && body && typeof body === 'object' && !('clientOrderId' in body)
+      ? { ...body, clientOrderId: key }
+      : body
+  );
+  if (!('order' in parsed)) throw validationError(parsed.problems);
+
+  const { symbol } = parsed.order;
+  if (!(await getMarketDataProvider().getSymbol(symbol))) {
+    throw validationError([`Unknown symbol ${symbol}`]);
+  }
+  const portfolio = getPortfolio(accountId);
+  const lots = lotProblems(portfolio, symbol, parsed.order.lotIds);
+  if (lots.length > 0) throw validationError(lots);
+
+  try {
+    const { order, created } = await getOrderManager().create({
+      ...parsed.order,
+      accountId,
+    });
+    return NextResponse.json(order, {
+      status: created ? 201 : 200,
+      headers: { Location: `/api/v1/orders/${order.id}` },
+    });
+  } catch (error) {
+    throw omsApiError(error);
+  }
+});
@@ -0,0 +1,18 @@
+import { ApiError } from '@/lib/api/http';
+import { OptimizationError } from '@/lib/optimization';
+
+/**
+ * Maps optimization errors onto HTTP: too little history, caps that leave
+ * equity uninvested and symbols without a price are all 422s.
+ */
+export function optimizationApiError(error: unknown): unknown {
+  if (!(error instanceof OptimizationError)) return error;
+  switch (error.code) {
+    case 'INSUFFICIENT_DATA':
+      return new ApiError(422, 'Insufficient Data', error.message);
+    case 'INFEASIBLE':
+      return new ApiError(422, 'Infeasible', error.message);
+    case 'NO_PRICE':
+      return new ApiError(422, 'No Price', error.message);
+  }
+}
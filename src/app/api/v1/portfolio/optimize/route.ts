@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import {
+  apiHandler,
+  notFound,
+  readJson,
+  validationError,
+} from '@/lib/api/http';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import { executeOptimization, parseOptimizeRequest } from '@/lib/optimization';
+import { optimizationApiError } from '../errors';
+
+/**
+ * POST /api/v1/portfolio/optimize — target weights for `symbols` from
+ * their recent returns: min-variance, max-Sharpe, mean-variance or risk
+ * parity, under per-asset and sector caps, optionally with the efficient
+ * frontier. Nothing is stored, so a read token is enough.
+ */
+export const POST = apiHandler(async request => {
+  await requireAuth(request);
+  const parsed = parseOptimizeRequest(await readJson(request));
+  if (!('request' in parsed)) throw validationError(parsed.problems);
+
+  const provider = getMarketDataProvider();
+  const known = await Promise.all(
+    parsed.request.symbols.map(symbol => provider.getSymbol(symbol))
+  );
+  const unknown = parsed.request.symbols.filter((_, i) => !known[i]);
+  if (unknown.length > 0) {
+    throw notFound(`Unknown symbol ${unknown.join(', ')}`);
+  }
+
+  try {
+    return NextResponse.json(
+      await executeOptimization(parsed.request, { provider })
+    );
+  } catch (error) {
+    throw optimizationApiError(error);
+  }
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { accountIdOf } from '@/lib/auth';
+import { apiHandler, notFound, validationError } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import {
+  computePerformance,
+  loadBenchmark,
+  rollingPerformance,
+  type EquitySample,
+  type PerformanceOptions,
+  type TradeOutcome,
+} from '@/lib/analytics';
+import { getBacktest } from '@/lib/backtest';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import { getPortfolio, markToMarket } from '@/lib/portfolio';
+
+/**
+ * GET /api/v1/portfolio/performance[?backtest&benchmark&window&riskFreeRate&periodsPerYear]
+ * — performance and risk metrics of the portfolio's recorded equity, or of
+ * one of your stored backtests' equity curve, so both are measured the
+ * same way.
+ * With `window`, also the metrics over each trailing window of that many
+ * periods.
+ */
+export const GET = apiHandler(async request => {
+  const principal = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const backtestId = query.string('backtest');
+  const benchmark = query.string('benchmark')?.toUpperCase();
+  const window = query.integer('window', { min: 2, max: 10_000 });
+  const riskFreeRate = query.number('riskFreeRate', { min: -1, max: 1 });
+  const periodsPerYear = query.integer('periodsPerYear', {
+    min: 1,
+    max: 1_000_000,
+  });
+  query.assertValid();
+
+  const provider = getMarketDataProvider();
+  let curve: EquitySample[];
+  let trades: TradeOutcome[] | undefined;
+  if (backtestId) {
+    const record = await getBacktest(accountIdOf(principal), backtestId);
+    if (!record) throw notFound(`Backtest ${backtestId} not found`);
+    curve = record.result.equityCurve;
+    trades = record.result.trades;
+  } else {
+    const portfolio = getPortfolio(accountIdOf(principal));
+    await markToMarket(portfolio, provider);
+    curve = portfolio.history();
+  }
+
+  const options: PerformanceOptions = { riskFreeRate, periodsPerYear, trades };
+  if (benchmark) {
+    if (!(await provider.getSymbol(benchmark))) {
+      throw validationError([`Unknown symbol ${benchmark}`]);
+    }
+    options.benchmark = await loadBenchmark(provider, benchmark, curve);
+  }
+
+  return NextResponse.json({
+    source: backtestId ? { backtest: backtestId } : { portfolio: true },
+    benchmark: benchmark ?? null,
+    metrics: computePerformance(curve, options),
+    rolling:
+      window === undefined
+        ? undefined
+        : rollingPerformance(curve, window, options),
+  });
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { accountIdOf } from '@/lib/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import { parseRebalanceRequest, previewRebalance } from '@/lib/optimization';
+import { getPortfolio } from '@/lib/portfolio';
+import { optimizationApiError } from '../errors';
+
+/**
+ * POST /api/v1/portfolio/rebalance — previews the orders that would move
+ * the portfolio to `targets` weights, in whole lots and skipping symbols
+ * within the drift threshold. Nothing is submitted: the orders go to
+ * `POST /api/v1/batch-operations` once reviewed, so a read token is
+ * enough here.
+ */
+export const POST = apiHandler(async request => {
+  const principal = await requireAuth(request);
+  const parsed = parseRebalanceRequest(await readJson(request));
+  if (!('request' in parsed)) throw validationError(parsed.problems);
+
+  try {
+    return NextResponse.json(
+      await previewRebalance(parsed.request, {
+        provider: getMarketDataProvider(),
+        portfolio: getPortfolio(accountIdOf(principal)),
+      })
+    );
+  } catch (error) {
+    throw optimizationApiError(error);
+  }
+});
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { accountIdOf } from '@/lib/auth';
+import { apiHandler } from '@/lib/api/http';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import { getPortfolio, markToMarket } from '@/lib/portfolio';
+
+/**
+ * GET /api/v1/portfolio — cash, equity, P&L and open positions, marked to
+ * the latest quotes.
+ */
+export const GET = apiHandler(async request => {
+  const principal = await requireAuth(request);
+  const portfolio = getPortfolio(accountIdOf(principal));
+  await markToMarket(portfolio, getMarketDataProvider());
+  return NextResponse.json(portfolio.snapshot());
+});
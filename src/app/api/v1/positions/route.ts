@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { accountIdOf } from '@/lib/auth';
+import { apiHandler } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import { getPortfolio, markToMarket } from '@/lib/portfolio';
+
+/** GET /api/v1/positions[?symbol] — open positions with their lots. */
+export const GET = apiHandler(async request => {
+  const principal = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const symbol = query.string('symbol')?.toUpperCase();
+  query.assertValid();
+
+  const portfolio = getPortfolio(accountIdOf(principal));
+  await markToMarket(portfolio, getMarketDataProvider());
+  const positions = portfolio
+    .positions()
+    .filter(position => !symbol || position.symbol === symbol);
+  return NextResponse.json({ positions });
+});
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+
+/**
+ * GET /api/v1/protected — answers only authenticated callers; a quick way
+ * for scripts to check that a token works.
+ */
+export const GET = apiHandler(async request => {
+  const { user, scopes, via } = await requireAuth(request);
+  return NextResponse.json({
+    authenticated: true,
+    userId: user.id,
+    scopes,
+    via,
+  });
+});
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { apiHandler } from '@/lib/api/http';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/v1/rate-limited — does nothing on a deliberately small budget
+ * (`RATE_LIMIT_PROBE`), so clients can check how they handle a 429 and
+ * the `RateLimit-*` headers.
+ */
+export const GET = apiHandler(async () => NextResponse.json({ ok: true }));
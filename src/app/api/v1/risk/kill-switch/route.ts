@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getOrderManager } from '@/lib/oms';
+import { getRiskEngine } from '@/lib/risk';
+import { Validator } from '@/lib/validation';
+
+/**
+ * POST /api/v1/risk/kill-switch — `admin` scope. Halts trading: new orders
+ * are rejected and every open order, in every account, is cancelled.
+ */
+export const POST = apiHandler(async request => {
+  await requireAuth(request, 'admin');
+  const fields = new Validator(await readJson(request));
+  const reason = fields.string('reason', true);
+  if (!fields.valid) throw validationError(fields.problems);
+
+  // Engage first so nothing new gets in while open orders are cancelled.
+  const killSwitch = getRiskEngine().engageKillSwitch(reason);
+  const cancelled = await getOrderManager().cancelAll();
+  return NextResponse.json({
+    killSwitch,
+    cancelledOrders: cancelled.map(order => order.id),
+  });
+});
+
+/** DELETE /api/v1/risk/kill-switch — `admin` scope. Resumes trading. */
+export const DELETE = apiHandler(async request => {
+  await requireAuth(request, 'admin');
+  return NextResponse.json({
+    killSwitch: getRiskEngine().releaseKillSwitch(),
+  });
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+import { getRiskEngine } from '@/lib/risk';
+
+/** GET /api/v1/risk — the limits in force and the kill switch state. */
+export const GET = apiHandler(async request => {
+  await requireAuth(request);
+  const engine = getRiskEngine();
+  return NextResponse.json({
+    limits: engine.limits,
+    killSwitch: engine.killSwitch(),
+  });
+});
@@ -0,0 +1,14 @@
+import { notFound, validationError } from '@/lib/api/http';
+import { ScreenerError } from '@/lib/screener';
+
+/** Maps screener errors onto HTTP: unknown screens 404, bad queries 400. */
+export function screenerApiError(error: unknown): unknown {
+  if (!(error instanceof ScreenerError)) return error;
+  switch (error.code) {
+    case 'NOT_FOUND':
+      return notFound(error.message);
+    case 'INVALID_QUERY':
+    case 'UNKNOWN_FIELD':
+      return validationError([error.message]);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import { MAX_LIMIT, getScreener, parseSort } from '@/lib/screener';
+import { screenerApiError } from './errors';
+
+/**
+ * GET /api/v1/screener?q=rsi14 < 30 and sector = "Technology"
+ * [&sort=-marketcap,symbol][&fields=pe,avgvol20][&limit][&offset]
+ *
+ * Symbols passing the query, with the fields it and the sort use.
+ */
+export const GET = apiHandler(async request => {
+  await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const q = query.requiredString('q');
+  const sort = query.string('sort');
+  const fields = query.list('fields');
+  const limit = query.integer('limit', { min: 1, max: MAX_LIMIT });
+  const offset = query.integer('offset', { min: 0 });
+  query.assertValid();
+
+  try {
+    const result = await getScreener().run({
+      query: q,
+      sort: sort === undefined ? undefined : parseSort(sort),
+      fields,
+      limit,
+      offset,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    throw screenerApiError(error);
+  }
+});
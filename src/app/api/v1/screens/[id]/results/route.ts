@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import { MAX_LIMIT, getScreener } from '@/lib/screener';
+import { screenerApiError } from '../../../screener/errors';
+import { ownedScreen } from '../../owned';
+
+/** GET /api/v1/screens/:id/results[?limit&offset] — runs the saved screen. */
+export const GET = apiHandler<{ id: string }>(async (request, { params }) => {
+  const { user } = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const limit = query.integer('limit', { min: 1, max: MAX_LIMIT });
+  const offset = query.integer('offset', { min: 0 });
+  query.assertValid();
+
+  try {
+    const screen = await ownedScreen(user.id, params.id);
+    const result = await getScreener().run({
+      query: screen.query,
+      sort: screen.sort,
+      limit,
+      offset,
+    });
+    return NextResponse.json({ screen, ...result });
+  } catch (error) {
+    throw screenerApiError(error);
+  }
+});
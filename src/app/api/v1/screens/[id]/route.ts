@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getScreenStore, parseScreenChanges } from '@/lib/screener';
+import { screenerApiError } from '../../screener/errors';
+import { ownedScreen } from '../owned';
+
+type Params = { id: string };
+
+/** GET /api/v1/screens/:id */
+export const GET = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request);
+  try {
+    return NextResponse.json(await ownedScreen(user.id, params.id));
+  } catch (error) {
+    throw screenerApiError(error);
+  }
+});
+
+/** PATCH /api/v1/screens/:id — renames it or changes its query or sort. */
+export const PATCH = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request, 'trade');
+  const parsed = parseScreenChanges(await readJson(request));
+  if (!('changes' in parsed)) throw validationError(parsed.problems);
+  try {
+    const screen = {
+      ...(await ownedScreen(user.id, params.id)),
+      ...parsed.changes,
+      updatedAt: Date.now(),
+    };
+    await getScreenStore().save(screen);
+    return NextResponse.json(screen);
+  } catch (error) {
+    throw screenerApiError(error);
+  }
+});
+
+/** DELETE /api/v1/screens/:id */
+export const DELETE = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request, 'trade');
+  try {
+    await ownedScreen(user.id, params.id);
+    await getScreenStore().delete(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    throw screenerApiError(error);
+  }
+});
@@ -0,0 +1,17 @@
+import {
+  ScreenerError,
+  getScreenStore,
+  type SavedScreen,
+} from '@/lib/screener';
+
+/** The user's saved screen; others' screens are as good as missing. */
+export async function ownedScreen(
+  userId: string,
+  id: string
+): Promise<SavedScreen> {
+  const screen = await getScreenStore().get(id);
+  if (!screen || screen.userId !== userId) {
+    throw new ScreenerError('NOT_FOUND', `Screen ${id} not found`);
+  }
+  return screen;
+}
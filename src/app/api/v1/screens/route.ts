@@ -0,0 +1,35 @@
+import { randomUUID } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getScreenStore, parseSavedScreen } from '@/lib/screener';
+
+/** GET /api/v1/screens — the user's saved screens, most recent first. */
+export const GET = apiHandler(async request => {
+  const { user } = await requireAuth(request);
+  return NextResponse.json({ screens: await getScreenStore().list(user.id) });
+});
+
+/**
+ * POST /api/v1/screens — saves a screener query under a name, with an
+ * optional sort; run it with `GET /api/v1/screens/:id/results`.
+ */
+export const POST = apiHandler(async request => {
+  const { user } = await requireAuth(request, 'trade');
+  const parsed = parseSavedScreen(await readJson(request));
+  if (!('screen' in parsed)) throw validationError(parsed.problems);
+
+  const now = Date.now();
+  const screen = {
+    ...parsed.screen,
+    id: randomUUID(),
+    userId: user.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getScreenStore().save(screen);
+  return NextResponse.json(screen, {
+    status: 201,
+    headers: { Location: `/api/v1/screens/${screen.id}` },
+  });
+});
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { apiHandler } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import { getMarketDataProvider } from '@/lib/marketdata';
+
+/**
+ * GET /api/v1/search?q=apple[&limit] — symbols by ticker or name, exact
+ * tickers first. The text is only ever matched, never interpreted.
+ */
+export const GET = apiHandler(async request => {
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const q = query.string('q') ?? '';
+  const limit = query.integer('limit', { min: 1, max: 100 });
+  query.assertValid();
+
+  const results = await getMarketDataProvider().searchSymbols(q, limit);
+  return NextResponse.json({ query: q, results });
+});
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, notFound } from '@/lib/api/http';
+import { getStrategyStore, toStrategySummary } from '@/lib/strategy';
+
+type Params = { id: string };
+
+/** GET /api/v1/strategies/:id — one of your uploads and its source. */
+export const GET = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request);
+  const definition = await getStrategyStore().get(user.id, params.id);
+  if (!definition) throw notFound(`Strategy ${params.id} not found`);
+  return NextResponse.json({
+    ...toStrategySummary(definition),
+    source: definition.source,
+  });
+});
+
+/** DELETE /api/v1/strategies/:id — deletes one of your uploads. */
+export const DELETE = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request, 'trade');
+  if (!(await getStrategyStore().remove(user.id, params.id))) {
+    throw notFound(`Strategy ${params.id} not found`);
+  }
+  return new NextResponse(null, { status: 204 });
+});
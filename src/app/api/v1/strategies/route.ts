@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import {
+  BUILTIN_STRATEGIES,
+  StrategyError,
+  createStrategy,
+  getStrategyStore,
+  toStrategySummary,
+  type StrategySummary,
+} from '@/lib/strategy';
+import { Validator } from '@/lib/validation';
+
+const MAX_SOURCE_LENGTH = 100_000;
+
+/** GET /api/v1/strategies — built-in strategies, then your uploads. */
+export const GET = apiHandler(async request => {
+  const { user } = await requireAuth(request);
+  const builtins: StrategySummary[] = Object.keys(BUILTIN_STRATEGIES).map(
+    name => ({ id: name, name, createdAt: null, builtin: true })
+  );
+  const uploaded = await getStrategyStore().list(user.id);
+  return NextResponse.json({ strategies: [...builtins, ...uploaded] });
+});
+
+/**
+ * POST /api/v1/strategies — uploads a TypeScript strategy module. It is
+ * compiled and loaded once in the sandbox before it is stored; its id can
+ * then be used as `strategy` in your own `POST /api/v1/backtests`.
+ */
+export const POST = apiHandler(async request => {
+  const { user } = await requireAuth(request, 'trade');
+  const fields = new Validator(await readJson(request));
+  const name = fields.string('name', true);
+  const description = fields.string('description');
+  const source = fields.string('source', true);
+  if (source && source.length > MAX_SOURCE_LENGTH) {
+    fields.fail('source', `must be at most ${MAX_SOURCE_LENGTH} characters`);
+  }
+  if (!fields.valid) throw validationError(fields.problems);
+
+  try {
+    const definition = await createStrategy(user.id, {
+      name,
+      description,
+      source,
+    });
+    return NextResponse.json(toStrategySummary(definition), {
+      status: 201,
+      headers: { Location: `/api/v1/strategies/${definition.id}` },
+    });
+  } catch (error) {
+    if (error instanceof StrategyError) throw validationError([error.message]);
+    throw error;
+  }
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+import { getStrategyRunner } from '@/lib/runner';
+import { runnerApiError } from '../errors';
+
+type Params = { id: string };
+
+/** GET /api/v1/strategy-runs/:id — the run, its open orders and logs. */
+export const GET = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request);
+  try {
+    return NextResponse.json(getStrategyRunner().get(user.id, params.id));
+  } catch (error) {
+    throw runnerApiError(error);
+  }
+});
+
+/**
+ * DELETE /api/v1/strategy-runs/:id — stops the run and cancels its open
+ * orders. The stopped run is returned and stays listed.
+ */
+export const DELETE = apiHandler<Params>(async (request, { params }) => {
+  const { user } = await requireAuth(request, 'trade');
+  try {
+    return NextResponse.json(
+      await getStrategyRunner().stop(user.id, params.id)
+    );
+  } catch (error) {
+    throw runnerApiError(error);
+  }
+});
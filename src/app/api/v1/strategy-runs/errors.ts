@@ -0,0 +1,26 @@
+import { ApiError, notFound, validationError } from '@/lib/api/http';
+import { RunnerError } from '@/lib/runner';
+import { StrategyError } from '@/lib/strategy';
+
+/**
+ * Maps runner and strategy errors onto HTTP: unknown runs 404, too many
+ * runs 409, unknown strategies and bad params 400 and strategies failing
+ * to start 422.
+ */
+export function runnerApiError(error: unknown): unknown {
+  if (error instanceof RunnerError) {
+    switch (error.code) {
+      case 'NOT_FOUND':
+        return notFound(error.message);
+      case 'TOO_MANY_RUNS':
+        return new ApiError(409, 'Conflict', error.message, [error.code]);
+    }
+  }
+  if (error instanceof StrategyError) {
+    if (['INVALID_PARAMS', 'NOT_FOUND'].includes(error.code)) {
+      return validationError([error.message]);
+    }
+    return new ApiError(422, 'Strategy Failed', error.message, [error.code]);
+  }
+  return error;
+}
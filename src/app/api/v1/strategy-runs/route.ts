@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler, readJson, validationError } from '@/lib/api/http';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import { getStrategyRunner, parseRunRequest } from '@/lib/runner';
+import { runnerApiError } from './errors';
+
+/** GET /api/v1/strategy-runs — your runs, most recently started first. */
+export const GET = apiHandler(async request => {
+  const { user } = await requireAuth(request);
+  return NextResponse.json({ runs: getStrategyRunner().list(user.id) });
+});
+
+/**
+ * POST /api/v1/strategy-runs — starts a built-in or uploaded strategy
+ * trading `symbols` in your paper account until it is stopped. A strategy
+ * that fails to start is a 422.
+ */
+export const POST = apiHandler(async request => {
+  const { user } = await requireAuth(request, 'trade');
+  const parsed = parseRunRequest(await readJson(request));
+  if (!('request' in parsed)) throw validationError(parsed.problems);
+
+  const provider = getMarketDataProvider();
+  const unknown: string[] = [];
+  for (const symbol of parsed.request.symbols) {
+    if (!(await provider.getSymbol(symbol))) unknown.push(symbol);
+  }
+  if (unknown.length > 0) {
+    throw validationError(unknown.map(symbol => `Unknown symbol ${symbol}`));
+  }
+
+  try {
+    const run = await getStrategyRunner().start(user.id, parsed.request);
+    return NextResponse.json(run, {
+      status: 201,
+      headers: { Location: `/api/v1/strategy-runs/${run.id}` },
+    });
+  } catch (error) {
+    throw runnerApiError(error);
+  }
+});
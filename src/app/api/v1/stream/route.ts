@@ -0,0 +1,77 @@
+import { requireAuth } from '@/lib/api/auth';
+import { accountIdOf } from '@/lib/auth';
+import { apiHandler, validationError } from '@/lib/api/http';
+import { QueryParams } from '@/lib/api/params';
+import { getMarketDataProvider } from '@/lib/marketdata';
+import {
+  eventStream,
+  getMarketFeed,
+  getStreamHub,
+  isStreamChannel,
+  STREAM_CHANNELS,
+  type StreamChannel,
+} from '@/lib/streaming';
+
+export const dynamic = 'force-dynamic';
+
+const MARKET_CHANNELS: StreamChannel[] = ['quotes', 'bars'];
+
+/**
+ * GET /api/v1/stream[?channels&symbols&after] — Server-Sent Events for
+ * quotes, bars, and the caller's order status changes and fills. Each
+ * event's `id` is its sequence number; reconnecting with `Last-Event-ID`
+ * (or `after`) replays what was missed, or sends `reset` if it is too old.
+ */
+export const GET = apiHandler(async request => {
+  const principal = await requireAuth(request);
+  const query = new QueryParams(request.nextUrl.searchParams);
+  const symbols = query.list('symbols')?.map(s => s.toUpperCase());
+  const requested = query.list('channels');
+  // EventSource resends the last id it saw when it reconnects.
+  const lastEventId = request.headers.get('Last-Event-ID');
+  const after =
+    lastEventId !== null && /^\d+$/.test(lastEventId)
+      ? Number(lastEventId)
+      : query.integer('after', { min: 0 });
+  query.assertValid();
+
+  const problems: string[] = [];
+  const unknown = (requested ?? []).filter(c => !isStreamChannel(c));
+  if (unknown.length > 0) {
+    problems.push(`channels must be among ${STREAM_CHANNELS.join(', ')}`);
+  }
+  const channels = requested
+    ? (requested.filter(isStreamChannel) as StreamChannel[])
+    : STREAM_CHANNELS.filter(c => symbols || !MARKET_CHANNELS.includes(c));
+  const market = channels.some(c => MARKET_CHANNELS.includes(c));
+  if (market && !symbols) {
+    problems.push('symbols is required for quotes and bars');
+  }
+  const provider = getMarketDataProvider();
+  for (const symbol of symbols ?? []) {
+    if (!(await provider.getSymbol(symbol))) {
+      problems.push(`Unknown symbol ${symbol}`);
+    }
+  }
+  if (problems.length > 0) throw validationError(problems);
+
+  const subscription = getStreamHub().subscribe(
+    { channels, symbols, accountId: accountIdOf(principal) },
+    { after }
+  );
+  const unwatch = market ? getMarketFeed().watch(symbols!) : undefined;
+  const stream = eventStream(subscription, { onClose: unwatch });
+  request.signal.addEventListener('abort', () => {
+    subscription.close();
+    unwatch?.();
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+});
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api/auth';
+import { apiHandler } from '@/lib/api/http';
+
+/**
+ * GET /api/v1/user/profile — the caller, with the scopes the credential
+ * used actually grants.
+ */
+export const GET = apiHandler(async request => {
+  const { user, scopes, via } = await requireAuth(request);
+  return NextResponse.json({
+    id: user.id,
+    email: user.email,
+    name: user.name ?? null,
+    provider: user.provider,
+    scopes,
+    authenticatedVia: via,
+  });
+});
@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+import { Dashboard } from '@/components/dashboard';
+
+export const metadata: Metadata = {
+  title: 'Dashboard - STOCAI',
+};
+
+export default function DashboardPage() {
+  return <Dashboard />;
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { apiHandler } from '@/lib/api/http';
+import { health } from '@/lib/health';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /health — liveness, for the container health check. Answers as long
+ * as the process serves requests, whatever its dependencies' state.
+ */
+export const GET = apiHandler(async () => NextResponse.json(health()));
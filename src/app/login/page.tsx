@@ -0,0 +1,24 @@
+import type { Metadata } from 'next';
+import { LoginForm, safeNext } from '@/components/auth';
+
+export const metadata: Metadata = {
+  title: 'Log in - STOCAI',
+};
+
+export default function LoginPage({
+  searchParams,
+}: {
+  searchParams: { next?: string | string[] };
+}) {
+  const next = Array.isArray(searchParams.next)
+    ? searchParams.next[0]
+    : searchParams.next;
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gray-50 p-4 text-gray-900 dark:bg-black dark:text-gray-100">
+      <div className="w-full max-w-sm rounded-lg border border-gray-200 bg-white p-6 dark:border-neutral-800 dark:bg-neutral-950">
+        <h1 className="mb-6 text-2xl font-bold">Log in to STOCAI</h1>
+        <LoginForm next={safeNext(next)} />
+      </div>
+    </main>
+  );
+}
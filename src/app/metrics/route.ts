@@ -0,0 +1,15 @@
+import { apiHandler } from '@/lib/api/http';
+import { getMetricsRegistry, PROMETHEUS_CONTENT_TYPE } from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+/** GET /metrics — every metric in the Prometheus text format. */
+export const GET = apiHandler(
+  async () =>
+    new Response(await getMetricsRegistry().render(), {
+      headers: {
+        'Content-Type': PROMETHEUS_CONTENT_TYPE,
+        'Cache-Control': 'no-store',
+      },
+    })
+);
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { apiHandler } from '@/lib/api/http';
+import { getReadinessProbe, SERVICE_NAME } from '@/lib/health';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /ready — readiness: 200 when every dependency is up, 503 otherwise,
+ * with each dependency's status, latency and error in `dependencies`.
+ */
+export const GET = apiHandler(async () => {
+  const readiness = await getReadinessProbe().run();
+  return NextResponse.json(
+    {
+      ...readiness,
+      service: SERVICE_NAME,
+      timestamp: new Date().toISOString(),
+    },
+    {
+      status: readiness.status === 'ready' ? 200 : 503,
+      headers: { 'Cache-Control': 'no-store' },
+    }
+  );
+});
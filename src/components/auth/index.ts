@@ -0,0 +1,2 @@
+export { LoginForm } from './login-form';
+export { loginUrl, navigate, safeNext } from './session';
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { navigate } from './session';
+
+interface FieldErrors {
+  email?: string;
+  password?: string;
+}
+
+function validate(email: string, password: string): FieldErrors {
+  const errors: FieldErrors = {};
+  if (!email.trim()) errors.email = 'Enter your email';
+  else if (!/^[^\s@]+@[^\s@]+$/.test(email.trim())) {
+    errors.email = 'Enter a valid email';
+  }
+  if (!password) errors.password = 'Enter your password';
+  return errors;
+}
+
+/**
+ * Email and password login. On success the session cookie is set by the
+ * API and the browser goes on to `next`.
+ */
+export function LoginForm({ next }: { next: string }) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    const errors = validate(email, password);
+    setFieldErrors(errors);
+    setError(null);
+    if (errors.email || errors.password) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/v1/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), password }),
+      });
+      if (response.ok) {
+        navigate(next);
+        return;
+      }
+      setError(
+        response.status === 401
+          ? 'Invalid email or password'
+          : 'Could not log in, please try again'
+      );
+    } catch {
+      setError('Could not reach the server, please try again');
+    }
+    setSubmitting(false);
+  };
+
+  const inputClass =
+    'w-full rounded border border-gray-300 px-3 py-2 text-sm dark:border-neutral-700 dark:bg-neutral-900';
+
+  return (
+    <form
+      data-testid="login-form"
+      noValidate
+      onSubmit={event => void submit(event)}
+      className="flex flex-col gap-4"
+    >
+      <div className="flex flex-col gap-1">
+        <label htmlFor="login-email" className="text-sm font-medium">
+          Email
+        </label>
+        <input
+          id="login-email"
+          data-testid="email-input"
+          type="email"
+          autoComplete="username"
+          value={email}
+          onChange={event => setEmail(event.target.value)}
+          aria-invalid={Boolean(fieldErrors.email)}
+          aria-describedby={fieldErrors.email ? 'login-email-error' : undefined}
+          className={inputClass}
+        />
+        {fieldErrors.email && (
+          <p
+            id="login-email-error"
+            data-testid="email-error"
+            className="text-xs text-red-700"
+          >
+            {fieldErrors.email}
+          </p>
+        )}
+      </div>
+      <div className="flex flex-col gap-1">
+        <label htmlFor="login-password" className="text-sm font-medium">
+          Password
+        </label>
+        <input
+          id="login-password"
+          data-testid="password-input"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={event => setPassword(event.target.value)}
+          aria-invalid={Boolean(fieldErrors.password)}
+          aria-describedby={
+            fieldErrors.password ? 'login-password-error' : undefined
+          }
+          className={inputClass}
+        />
+        {fieldErrors.password && (
+          <p
+            id="login-password-error"
+            data-testid="password-error"
+            className="text-xs text-red-700"
+          >
+            {fieldErrors.password}
+          </p>
+        )}
+      </div>
+      {error && (
+        <p
+          data-testid="login-error"
+          role="alert"
+          className="text-sm text-red-700"
+        >
+          {error}
+        </p>
+      )}
+      <button
+        type="submit"
+        data-testid="login-button"
+        disabled={submitting}
+        className="rounded bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+      >
+        {submitting ? 'Logging in…' : 'Log in'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,30 @@
+const HOME = '/dashboard';
+/** Stands in for this site when resolving `next`, on the server too. */
+const ORIGIN = 'http://stocai.invalid';
+
+/**
+ * Where to go after logging in: only paths on this site, so a crafted
+ * `next` cannot send users elsewhere. Browsers read a backslash as a
+ * slash and drop tabs and newlines, so those are refused outright.
+ */
+export function safeNext(next: string | null | undefined): string {
+  if (!next || !next.startsWith('/') || /[\\\x00-\x1f\x7f]/.test(next)) {
+    return HOME;
+  }
+  let url: URL;
+  try {
+    url = new URL(next, ORIGIN);
+  } catch {
+    return HOME;
+  }
+  return url.origin === ORIGIN ? url.pathname + url.search + url.hash : HOME;
+}
+
+export function loginUrl(next?: string): string {
+  return next ? `/login?next=${encodeURIComponent(next)}` : '/login';
+}
+
+/** Full page navigation, so the server sees the new session cookie. */
+export function navigate(url: string): void {
+  window.location.assign(url);
+}
@@ -0,0 +1,569 @@
+'use client';
+
+import { clsx } from 'clsx';
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type PointerEvent,
+} from 'react';
+import type { Bar, Timeframe } from '@/lib/marketdata/types';
+import {
+  barIndexAt,
+  clampViewport,
+  extent,
+  linearScale,
+  linePath,
+  niceTicks,
+  panViewport,
+  zoomViewport,
+} from './scale';
+import { isPaneSpec, overlaySeries, paneSeries, type Pane } from './series';
+import type {
+  ChartIndicator,
+  ChartMarker,
+  OverlaySpec,
+  Viewport,
+} from './types';
+
+export interface CandlestickChartProps {
+  /** Oldest first. */
+  bars: Bar[];
+  indicators?: ChartIndicator[];
+  markers?: ChartMarker[];
+  timeframe?: Timeframe;
+  /** Timeframes offered in the toolbar; needs `onTimeframeChange`. */
+  timeframes?: readonly Timeframe[];
+  onTimeframeChange?: (timeframe: Timeframe) => void;
+  /** Drawing width; the chart scales to its container. */
+  width?: number;
+  /** Height of the candle and volume pane. */
+  height?: number;
+  /** Height of each indicator pane. */
+  paneHeight?: number;
+  initialVisibleBars?: number;
+  title?: string;
+}
+
+const NO_INDICATORS: ChartIndicator[] = [];
+const AXIS_WIDTH = 56;
+const VOLUME_SHARE = 0.2;
+const ZOOM_STEP = 1.25;
+const UP = '#16a34a';
+const DOWN = '#dc2626';
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function formatValue(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : value.toFixed(2);
+}
+
+/**
+ * An SVG candlestick chart with volume, indicator overlays and panes, and
+ * order and fill markers. Drag or use the arrow keys to pan, the wheel,
+ * `+` and `-` or the toolbar to zoom; hovering shows a crosshair with the
+ * bar's values.
+ */
+export function CandlestickChart({
+  bars,
+  indicators = NO_INDICATORS,
+  markers = [],
+  timeframe,
+  timeframes,
+  onTimeframeChange,
+  width = 800,
+  height = 360,
+  paneHeight = 100,
+  initialVisibleBars = 120,
+  title = 'Price chart',
+}: CandlestickChartProps) {
+  const initial = () =>
+    clampViewport({ end: bars.length, count: initialVisibleBars }, bars.length);
+  const [viewport, setViewport] = useState<Viewport>(initial);
+  const [hover, setHover] = useState<{ index: number; y: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; end: number } | null>(null);
+  const total = useRef(bars.length);
+
+  // Follow new bars while showing the latest; start over on a timeframe.
+  useEffect(() => {
+    setViewport(current =>
+      clampViewport(
+        current.end >= total.current
+          ? { ...current, end: bars.length }
+          : current,
+        bars.length
+      )
+    );
+    total.current = bars.length;
+  }, [bars]);
+  useEffect(() => {
+    setViewport(
+      clampViewport({ end: Infinity, count: initialVisibleBars }, total.current)
+    );
+  }, [timeframe, initialVisibleBars]);
+
+  // Pass a stable `indicators` array to avoid recomputing on each render.
+  const overlays = useMemo(
+    () =>
+      overlaySeries(
+        bars,
+        indicators.filter((spec): spec is OverlaySpec => !isPaneSpec(spec))
+      ),
+    [bars, indicators]
+  );
+  const panes = useMemo(
+    () => paneSeries(bars, indicators.filter(isPaneSpec)),
+    [bars, indicators]
+  );
+
+  const { end, count } = viewport;
+  const start = Math.max(0, end - count);
+  const visible = bars.slice(start, end);
+  const plotWidth = width - AXIS_WIDTH;
+  const slot = plotWidth / Math.max(1, count);
+  const x = (index: number) => (index - start + 0.5) * slot;
+  const candleHeight = height * (1 - VOLUME_SHARE) - 8;
+  const totalHeight = height + panes.length * paneHeight;
+
+  const priceDomain = extent(
+    visible
+      .flatMap<number | null>(bar => [bar.high, bar.low])
+      .concat(
+        overlays.flatMap(overlay =>
+          overlay.lines.flatMap(line => line.values.slice(start, end))
+        )
+      ),
+    0.05
+  );
+  const price = linearScale(priceDomain, [candleHeight, 8]);
+  const volume = linearScale(
+    [0, Math.max(1, ...visible.map(bar => bar.volume))],
+    [height, height * (1 - VOLUME_SHARE)]
+  );
+  const bodyWidth = Math.max(1, slot * 0.7);
+
+  const update = (next: Viewport) =>
+    setViewport(clampViewport(next, bars.length));
+
+  const toLocal = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const sx = rect.width > 0 ? width / rect.width : 1;
+    const sy = rect.height > 0 ? totalHeight / rect.height : 1;
+    return { x: (clientX - rect.left) * sx, y: (clientY - rect.top) * sy };
+  };
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    // Registered natively: React's wheel listeners cannot preventDefault.
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const anchor =
+        rect.width > 0
+          ? ((event.clientX - rect.left) * (width / rect.width)) / plotWidth
+          : 1;
+      setViewport(current =>
+        zoomViewport(
+          current,
+          event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+          total.current,
+          Math.min(1, Math.max(0, anchor))
+        )
+      );
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, [width, plotWidth]);
+
+  const onPointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    drag.current = { x: toLocal(event.clientX, event.clientY).x, end };
+    svgRef.current?.setPointerCapture?.(event.pointerId);
+  };
+  const onPointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const point = toLocal(event.clientX, event.clientY);
+    if (!Number.isFinite(point.x)) return;
+    if (drag.current) {
+      const moved = Math.round((drag.current.x - point.x) / slot);
+      update({ count, end: drag.current.end + moved });
+    }
+    const index = start + Math.floor(Math.min(point.x, plotWidth - 1) / slot);
+    setHover(index >= start && index < end ? { index, y: point.y } : null);
+  };
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+  const onKeyDown = (event: KeyboardEvent<SVGSVGElement>) => {
+    const step = Math.max(1, Math.round(count / 10));
+    const actions: Record<string, () => Viewport> = {
+      ArrowLeft: () => panViewport(viewport, -step, bars.length),
+      ArrowRight: () => panViewport(viewport, step, bars.length),
+      '+': () => zoomViewport(viewport, ZOOM_STEP, bars.length),
+      '=': () => zoomViewport(viewport, ZOOM_STEP, bars.length),
+      '-': () => zoomViewport(viewport, 1 / ZOOM_STEP, bars.length),
+      Home: initial,
+    };
+    const action = actions[event.key];
+    if (!action) return;
+    event.preventDefault();
+    update(action());
+  };
+
+  const hovered = hover ? bars[hover.index] : null;
+  // The last bar is taken to span as long as the one before it.
+  const last = bars[bars.length - 1];
+  const lastEnd =
+    bars.length > 1
+      ? 2 * last.timestamp - bars[bars.length - 2].timestamp
+      : Infinity;
+  const visibleMarkers = markers
+    .filter(marker => marker.timestamp < lastEnd)
+    .map(marker => ({ marker, index: barIndexAt(bars, marker.timestamp) }))
+    .filter(({ index }) => index >= start && index < end);
+
+  const button =
+    'rounded border border-gray-300 px-2 py-0.5 text-xs hover:bg-gray-100 dark:border-neutral-700 dark:hover:bg-neutral-800';
+
+  return (
+    <figure data-testid="candlestick-chart" className="relative w-full">
+      <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+        {timeframes && onTimeframeChange ? (
+          <div role="group" aria-label="Timeframe" className="flex gap-1">
+            {timeframes.map(option => (
+              <button
+                key={option}
+                type="button"
+                aria-pressed={option === timeframe}
+                className={clsx(
+                  button,
+                  option === timeframe && 'bg-gray-900 text-white'
+                )}
+                onClick={() => onTimeframeChange(option)}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <span />
+        )}
+        <div role="group" aria-label="Zoom" className="flex gap-1">
+          <button
+            type="button"
+            className={button}
+            aria-label="Zoom in"
+            onClick={() =>
+              update(zoomViewport(viewport, ZOOM_STEP, bars.length))
+            }
+          >
+            +
+          </button>
+          <button
+            type="button"
+            className={button}
+            aria-label="Zoom out"
+            onClick={() =>
+              update(zoomViewport(viewport, 1 / ZOOM_STEP, bars.length))
+            }
+          >
+            −
+          </button>
+          <button
+            type="button"
+            className={button}
+            aria-label="Reset zoom"
+            onClick={() => update(initial())}
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${totalHeight}`}
+        width="100%"
+        role="img"
+        aria-label={`${title}: ${visible.length} bars${
+          visible.length > 0
+            ? ` from ${formatTime(visible[0].timestamp)} to ${formatTime(
+                visible[visible.length - 1].timestamp
+              )}`
+            : ''
+        }`}
+        tabIndex={0}
+        className="touch-none select-none outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerLeave={() => {
+          drag.current = null;
+          setHover(null);
+        }}
+        onKeyDown={onKeyDown}
+      >
+        {niceTicks(priceDomain[0], priceDomain[1]).map(tick => (
+          <g key={tick}>
+            <line
+              x1={0}
+              x2={plotWidth}
+              y1={price(tick)}
+              y2={price(tick)}
+              stroke="#e5e7eb"
+            />
+            <text
+              x={plotWidth + 4}
+              y={price(tick) + 4}
+              fontSize={11}
+              fill="#4b5563"
+            >
+              {tick}
+            </text>
+          </g>
+        ))}
+
+        {visible.map((bar, i) => {
+          const index = start + i;
+          const color = bar.close >= bar.open ? UP : DOWN;
+          return (
+            <g key={bar.timestamp}>
+              <rect
+                data-testid="volume-bar"
+                x={x(index) - bodyWidth / 2}
+                y={volume(bar.volume)}
+                width={bodyWidth}
+                height={height - volume(bar.volume)}
+                fill={color}
+                opacity={0.3}
+              />
+              <g data-testid="candle">
+                <line
+                  x1={x(index)}
+                  x2={x(index)}
+                  y1={price(bar.high)}
+                  y2={price(bar.low)}
+                  stroke={color}
+                />
+                <rect
+                  x={x(index) - bodyWidth / 2}
+                  y={price(Math.max(bar.open, bar.close))}
+                  width={bodyWidth}
+                  height={Math.max(
+                    1,
+                    Math.abs(price(bar.open) - price(bar.close))
+                  )}
+                  fill={color}
+                />
+              </g>
+            </g>
+          );
+        })}
+
+        {overlays.map(overlay =>
+          overlay.lines.map(line => (
+            <path
+              key={`${overlay.key}-${line.label}`}
+              data-testid="overlay-line"
+              d={linePath(
+                line.values.slice(start, end),
+                i => x(start + i),
+                price
+              )}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={1.5}
+              strokeDasharray={line.dashed ? '4 3' : undefined}
+            >
+              <title>{line.label}</title>
+            </path>
+          ))
+        )}
+
+        {visibleMarkers.map(({ marker, index }) => {
+          const buy = marker.side === 'buy';
+          const bar = bars[index];
+          const tip = buy ? price(bar.low) + 6 : price(bar.high) - 6;
+          const dir = buy ? 1 : -1;
+          const color = buy ? UP : DOWN;
+          return (
+            <polygon
+              key={marker.id}
+              data-testid={`marker-${marker.kind}`}
+              points={`${x(index)},${tip} ${x(index) - 5},${tip + 9 * dir} ${
+                x(index) + 5
+              },${tip + 9 * dir}`}
+              fill={marker.kind === 'fill' ? color : 'white'}
+              stroke={color}
+            >
+              <title>
+                {marker.label ??
+                  `${marker.kind === 'fill' ? 'Filled' : 'Order'} ${
+                    marker.side
+                  } @ ${formatValue(marker.price)}`}
+              </title>
+            </polygon>
+          );
+        })}
+
+        {panes.map((pane, i) => (
+          <IndicatorPane
+            key={pane.key}
+            pane={pane}
+            top={height + i * paneHeight}
+            height={paneHeight}
+            width={plotWidth}
+            start={start}
+            end={end}
+            x={x}
+          />
+        ))}
+
+        {hover && hovered && (
+          <g data-testid="crosshair" pointerEvents="none">
+            <line
+              x1={x(hover.index)}
+              x2={x(hover.index)}
+              y1={0}
+              y2={totalHeight}
+              stroke="#9ca3af"
+              strokeDasharray="3 3"
+            />
+            {hover.y < candleHeight && (
+              <line
+                x1={0}
+                x2={plotWidth}
+                y1={hover.y}
+                y2={hover.y}
+                stroke="#9ca3af"
+                strokeDasharray="3 3"
+              />
+            )}
+          </g>
+        )}
+      </svg>
+
+      {hover && hovered && (
+        <div
+          data-testid="chart-tooltip"
+          role="status"
+          className="pointer-events-none absolute left-2 top-10 rounded border border-gray-200 bg-white/90 p-2 text-xs shadow dark:border-neutral-700 dark:bg-neutral-900/90"
+        >
+          <div className="font-medium">{formatTime(hovered.timestamp)}</div>
+          <div>
+            O {formatValue(hovered.open)} H {formatValue(hovered.high)} L{' '}
+            {formatValue(hovered.low)} C {formatValue(hovered.close)}
+          </div>
+          <div>V {hovered.volume.toLocaleString('en-US')}</div>
+          {overlays.flatMap(overlay =>
+            overlay.lines.map(line => (
+              <div key={line.label}>
+                {line.label} {formatValue(line.values[hover.index])}
+              </div>
+            ))
+          )}
+          {panes.map(pane => (
+            <div key={pane.key}>
+              {pane.type === 'rsi'
+                ? `${pane.label} ${formatValue(pane.line.values[hover.index])}`
+                : `${pane.label} ${formatValue(
+                    pane.macd.values[hover.index]
+                  )} / ${formatValue(pane.signal.values[hover.index])}`}
+            </div>
+          ))}
+        </div>
+      )}
+    </figure>
+  );
+}
+
+function IndicatorPane({
+  pane,
+  top,
+  height,
+  width,
+  start,
+  end,
+  x,
+}: {
+  pane: Pane;
+  top: number;
+  height: number;
+  width: number;
+  start: number;
+  end: number;
+  x: (index: number) => number;
+}) {
+  const range: [number, number] = [top + height - 4, top + 14];
+  const at = (i: number) => x(start + i);
+
+  if (pane.type === 'rsi') {
+    const y = linearScale([0, 100], range);
+    return (
+      <g data-testid="pane-rsi">
+        <line x1={0} x2={width} y1={top} y2={top} stroke="#d1d5db" />
+        <text x={4} y={top + 11} fontSize={11} fill="#4b5563">
+          {pane.label}
+        </text>
+        {[30, 70].map(level => (
+          <line
+            key={level}
+            x1={0}
+            x2={width}
+            y1={y(level)}
+            y2={y(level)}
+            stroke="#e5e7eb"
+            strokeDasharray="4 3"
+          />
+        ))}
+        <path
+          d={linePath(pane.line.values.slice(start, end), at, y)}
+          fill="none"
+          stroke={pane.line.color}
+          strokeWidth={1.5}
+        />
+      </g>
+    );
+  }
+
+  const histogram = pane.histogram.slice(start, end);
+  const macd = pane.macd.values.slice(start, end);
+  const signal = pane.signal.values.slice(start, end);
+  const [low, high] = extent([...histogram, ...macd, ...signal, 0], 0.1);
+  const y = linearScale([low, high], range);
+  const barWidth = Math.max(1, (x(start + 1) - x(start)) * 0.6);
+  return (
+    <g data-testid="pane-macd">
+      <line x1={0} x2={width} y1={top} y2={top} stroke="#d1d5db" />
+      <text x={4} y={top + 11} fontSize={11} fill="#4b5563">
+        {pane.label}
+      </text>
+      {histogram.map((value, i) =>
+        value === null ? null : (
+          <rect
+            key={i}
+            x={at(i) - barWidth / 2}
+            y={Math.min(y(value), y(0))}
+            width={barWidth}
+            height={Math.abs(y(value) - y(0))}
+            fill={value >= 0 ? UP : DOWN}
+            opacity={0.5}
+          />
+        )
+      )}
+      {[pane.macd, pane.signal].map((line, i) => (
+        <path
+          key={line.label}
+          d={linePath(i === 0 ? macd : signal, at, y)}
+          fill="none"
+          stroke={line.color}
+          strokeWidth={1.5}
+        />
+      ))}
+    </g>
+  );
+}
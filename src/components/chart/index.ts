@@ -0,0 +1,5 @@
+export {
+  CandlestickChart,
+  type CandlestickChartProps,
+} from './candlestick-chart';
+export * from './types';
@@ -0,0 +1,125 @@
+import type { Viewport } from './types';
+
+export const MIN_VISIBLE_BARS = 10;
+
+/** Keeps a viewport inside `[0, total)` with at least a few bars shown. */
+export function clampViewport(viewport: Viewport, total: number): Viewport {
+  const count = Math.max(
+    Math.min(MIN_VISIBLE_BARS, total),
+    Math.min(Math.round(viewport.count), total)
+  );
+  const end = Math.min(total, Math.max(count, Math.round(viewport.end)));
+  return { end, count };
+}
+
+/**
+ * Zooms by `factor` (above 1 zooms in) keeping the bar at `anchor`, a
+ * fraction of the width from the left, where it is on screen.
+ */
+export function zoomViewport(
+  viewport: Viewport,
+  factor: number,
+  total: number,
+  anchor = 1
+): Viewport {
+  const count = viewport.count / factor;
+  const pivot = viewport.end - viewport.count * (1 - anchor);
+  return clampViewport({ end: pivot + count * (1 - anchor), count }, total);
+}
+
+/** Moves the viewport by `bars`; positive values go forward in time. */
+export function panViewport(
+  viewport: Viewport,
+  bars: number,
+  total: number
+): Viewport {
+  return clampViewport({ ...viewport, end: viewport.end + bars }, total);
+}
+
+export interface LinearScale {
+  (value: number): number;
+  invert(position: number): number;
+}
+
+/** Maps `[d0, d1]` onto `[r0, r1]`; a flat domain maps to the middle. */
+export function linearScale(
+  [d0, d1]: [number, number],
+  [r0, r1]: [number, number]
+): LinearScale {
+  const span = d1 - d0;
+  const scale = ((value: number) =>
+    span === 0
+      ? (r0 + r1) / 2
+      : r0 + ((value - d0) / span) * (r1 - r0)) as LinearScale;
+  scale.invert = position =>
+    r1 === r0 ? d0 : d0 + ((position - r0) / (r1 - r0)) * span;
+  return scale;
+}
+
+/** The range of the finite values given, padded by `padding` of it. */
+export function extent(
+  values: (number | null | undefined)[],
+  padding = 0
+): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(value => {
+    if (value === null || value === undefined || !Number.isFinite(value)) {
+      return;
+    }
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+  if (min > max) return [0, 1];
+  const pad = (max - min || Math.abs(max) || 1) * padding;
+  return [min - pad, max + pad];
+}
+
+/** About `count` round-numbered ticks spanning `[min, max]`. */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (!(max > min)) return [min];
+  const raw = (max - min) / Math.max(1, count);
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step =
+    [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= raw) ??
+    10 * magnitude;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max; tick += step) {
+    ticks.push(Number(tick.toFixed(10)));
+  }
+  return ticks;
+}
+
+/** SVG path through the points, broken wherever a value is missing. */
+export function linePath(
+  values: (number | null)[],
+  x: (index: number) => number,
+  y: (value: number) => number
+): string {
+  let path = '';
+  let drawing = false;
+  values.forEach((value, i) => {
+    if (value === null || !Number.isFinite(value)) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? 'L' : 'M'}${x(i).toFixed(2)},${y(value).toFixed(2)}`;
+    drawing = true;
+  });
+  return path;
+}
+
+/** Index of the last bar starting at or before `timestamp`, or -1. */
+export function barIndexAt(
+  bars: { timestamp: number }[],
+  timestamp: number
+): number {
+  let lo = 0;
+  let hi = bars.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (bars[mid].timestamp <= timestamp) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo - 1;
+}
@@ -0,0 +1,125 @@
+import { calculate, type BandsValue, type MacdValue } from '@/lib/indicators';
+import type { Bar } from '@/lib/marketdata/types';
+import type { ChartIndicator, OverlaySpec, PaneSpec } from './types';
+
+const PALETTE = ['#2563eb', '#d97706', '#7c3aed', '#0891b2', '#db2777'];
+
+export interface LineSeries {
+  label: string;
+  color: string;
+  values: (number | null)[];
+  dashed?: boolean;
+}
+
+export interface Overlay {
+  key: string;
+  lines: LineSeries[];
+}
+
+export type Pane =
+  | { key: string; type: 'rsi'; label: string; line: LineSeries }
+  | {
+      key: string;
+      type: 'macd';
+      label: string;
+      macd: LineSeries;
+      signal: LineSeries;
+      histogram: (number | null)[];
+    };
+
+export function isPaneSpec(spec: ChartIndicator): spec is PaneSpec {
+  return spec.type === 'rsi' || spec.type === 'macd';
+}
+
+/**
+ * Indicator values for every bar, not just the visible ones, so values at
+ * the left edge are past their warm-up.
+ */
+export function overlaySeries(bars: Bar[], specs: OverlaySpec[]): Overlay[] {
+  return specs.map((spec, i) => {
+    const color = spec.color ?? PALETTE[i % PALETTE.length];
+    if (spec.type === 'bbands') {
+      const period = spec.period ?? 20;
+      const multiplier = spec.multiplier ?? 2;
+      const bands = calculate(
+        { type: 'bbands', period, multiplier },
+        bars
+      ) as (BandsValue | null)[];
+      const pick = (field: keyof BandsValue) =>
+        bands.map(value => value?.[field] ?? null);
+      const label = `BB(${period}, ${multiplier})`;
+      return {
+        key: `bbands-${i}`,
+        lines: [
+          {
+            label: `${label} upper`,
+            color,
+            values: pick('upper'),
+            dashed: true,
+          },
+          { label: `${label} middle`, color, values: pick('middle') },
+          {
+            label: `${label} lower`,
+            color,
+            values: pick('lower'),
+            dashed: true,
+          },
+        ],
+      };
+    }
+    return {
+      key: `${spec.type}-${i}`,
+      lines: [
+        {
+          label: `${spec.type.toUpperCase()}(${spec.period})`,
+          color,
+          values: calculate({ type: spec.type, period: spec.period }, bars) as (
+            number | null
+          )[],
+        },
+      ],
+    };
+  });
+}
+
+export function paneSeries(bars: Bar[], specs: PaneSpec[]): Pane[] {
+  return specs.map((spec, i) => {
+    if (spec.type === 'rsi') {
+      const period = spec.period ?? 14;
+      const label = `RSI(${period})`;
+      return {
+        key: `rsi-${i}`,
+        type: 'rsi',
+        label,
+        line: {
+          label,
+          color: spec.color ?? '#7c3aed',
+          values: calculate({ type: 'rsi', period }, bars) as (number | null)[],
+        },
+      };
+    }
+    const fast = spec.fast ?? 12;
+    const slow = spec.slow ?? 26;
+    const signal = spec.signal ?? 9;
+    const values = calculate(
+      { type: 'macd', fast, slow, signal },
+      bars
+    ) as (MacdValue | null)[];
+    return {
+      key: `macd-${i}`,
+      type: 'macd',
+      label: `MACD(${fast}, ${slow}, ${signal})`,
+      macd: {
+        label: 'MACD',
+        color: '#2563eb',
+        values: values.map(v => v?.macd ?? null),
+      },
+      signal: {
+        label: 'Signal',
+        color: '#d97706',
+        values: values.map(v => v?.signal ?? null),
+      },
+      histogram: values.map(v => v?.histogram ?? null),
+    };
+  });
+}
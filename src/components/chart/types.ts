@@ -0,0 +1,32 @@
+import type { OrderSide } from '@/lib/strategy/types';
+
+/** Indicators drawn over the candles. */
+export type OverlaySpec =
+  | { type: 'sma' | 'ema' | 'wma'; period: number; color?: string }
+  | { type: 'bbands'; period?: number; multiplier?: number; color?: string };
+
+/** Indicators drawn in a pane of their own below the candles. */
+export type PaneSpec =
+  | { type: 'rsi'; period?: number; color?: string }
+  | { type: 'macd'; fast?: number; slow?: number; signal?: number };
+
+export type ChartIndicator = OverlaySpec | PaneSpec;
+
+/**
+ * Where an order was placed or filled. Markers sit on the bar whose
+ * interval contains their timestamp.
+ */
+export interface ChartMarker {
+  id: string;
+  kind: 'order' | 'fill';
+  side: OrderSide;
+  timestamp: number;
+  price: number;
+  label?: string;
+}
+
+/** The bars on screen: `count` of them, ending before index `end`. */
+export interface Viewport {
+  end: number;
+  count: number;
+}
@@ -0,0 +1,45 @@
+import { clsx } from 'clsx';
+import type { PortfolioSnapshot } from '@/lib/portfolio/types';
+import { formatMoney, pnlClass } from './format';
+
+export function AccountSummary({
+  portfolio,
+}: {
+  portfolio: PortfolioSnapshot | null;
+}) {
+  const figures: { label: string; value: number | undefined; pnl?: boolean }[] =
+    [
+      { label: 'Equity', value: portfolio?.equity },
+      { label: 'Cash', value: portfolio?.cash },
+      { label: 'Market value', value: portfolio?.marketValue },
+      { label: 'Unrealized P&L', value: portfolio?.unrealizedPnl, pnl: true },
+      { label: 'Realized P&L', value: portfolio?.realizedPnl, pnl: true },
+      { label: 'Net P&L', value: portfolio?.netPnl, pnl: true },
+    ];
+
+  return (
+    <dl
+      data-testid="account-summary"
+      className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6"
+    >
+      {figures.map(figure => (
+        <div
+          key={figure.label}
+          className="rounded-lg border border-gray-200 bg-white p-3 dark:border-neutral-800 dark:bg-neutral-900"
+        >
+          <dt className="text-xs text-gray-600 dark:text-gray-400">
+            {figure.label}
+          </dt>
+          <dd
+            className={clsx(
+              'mt-1 text-lg font-semibold',
+              figure.pnl && figure.value !== undefined && pnlClass(figure.value)
+            )}
+          >
+            {formatMoney(figure.value)}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
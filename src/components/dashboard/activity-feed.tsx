@@ -0,0 +1,26 @@
+import type { ActivityItem } from './use-live-dashboard';
+
+export function ActivityFeed({ items }: { items: ActivityItem[] }) {
+  return (
+    <ol
+      data-testid="updates-list"
+      aria-live="polite"
+      className="flex max-h-80 flex-col gap-1 overflow-y-auto text-sm"
+    >
+      {items.length === 0 && (
+        <li className="text-gray-600">No activity yet.</li>
+      )}
+      {items.map(item => (
+        <li key={item.id} className="flex gap-3">
+          <time
+            dateTime={new Date(item.timestamp).toISOString()}
+            className="shrink-0 tabular-nums text-gray-600 dark:text-gray-400"
+          >
+            {new Date(item.timestamp).toLocaleTimeString()}
+          </time>
+          <span>{item.message}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,142 @@
+import { loginUrl, navigate } from '@/components/auth/session';
+import type { Bar, Timeframe } from '@/lib/marketdata/types';
+import type {
+  BatchResult,
+  CreateOrderInput,
+  ManagedOrder,
+} from '@/lib/oms/types';
+import type { OptimizationReport } from '@/lib/optimization';
+import type { Objective, RebalanceProposal } from '@/lib/optimization/types';
+import type { PortfolioSnapshot } from '@/lib/portfolio/types';
+
+/** An API error response, with the details the API gave. */
+export class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  // The session expired or was ended elsewhere: log in and come back.
+  if (response.status === 401) {
+    navigate(loginUrl(window.location.pathname + window.location.search));
+  }
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const details = Array.isArray(body?.details)
+      ? body.details.map((d: unknown) =>
+          typeof d === 'string'
+            ? d
+            : String((d as { message?: string }).message)
+        )
+      : [];
+    throw new RequestError(
+      response.status,
+      body?.message ?? `Request failed with status ${response.status}`,
+      details
+    );
+  }
+  return body as T;
+}
+
+export interface Profile {
+  id: string;
+  email: string;
+  name: string | null;
+  scopes: string[];
+}
+
+export function fetchProfile(): Promise<Profile> {
+  return request('/api/v1/user/profile');
+}
+
+/** Ends the session; the cookie is cleared even if that fails. */
+export async function logout(): Promise<void> {
+  await fetch('/api/v1/auth/logout', { method: 'POST' });
+}
+
+export function fetchPortfolio(): Promise<PortfolioSnapshot> {
+  return request('/api/v1/portfolio');
+}
+
+export async function fetchOpenOrders(): Promise<ManagedOrder[]> {
+  return (
+    await request<{ orders: ManagedOrder[] }>('/api/v1/orders?status=open')
+  ).orders;
+}
+
+export async function fetchOrders(symbol: string): Promise<ManagedOrder[]> {
+  return (
+    await request<{ orders: ManagedOrder[] }>(
+      `/api/v1/orders?symbol=${encodeURIComponent(symbol)}&limit=200`
+    )
+  ).orders;
+}
+
+export async function fetchBars(
+  symbol: string,
+  timeframe: Timeframe,
+  limit = 500
+): Promise<Bar[]> {
+  const params = new URLSearchParams({
+    symbol,
+    timeframe,
+    limit: String(limit),
+  });
+  return (await request<{ bars: Bar[] }>(`/api/v1/bars?${params}`)).bars;
+}
+
+export function placeOrder(order: CreateOrderInput): Promise<ManagedOrder> {
+  return request('/api/v1/orders', {
+    method: 'POST',
+    body: JSON.stringify(order),
+  });
+}
+
+/** Places `orders` all together or, if any fails, not at all. */
+export function submitBatch(orders: CreateOrderInput[]): Promise<BatchResult> {
+  return request('/api/v1/batch-operations', {
+    method: 'POST',
+    body: JSON.stringify({ mode: 'atomic', orders }),
+  });
+}
+
+export function cancelOrder(id: string): Promise<ManagedOrder> {
+  return request(`/api/v1/orders/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+}
+
+export interface OptimizeInput {
+  symbols: string[];
+  objective: Objective;
+  constraints?: { maxWeight?: number };
+}
+
+export function optimizePortfolio(
+  input: OptimizeInput
+): Promise<OptimizationReport> {
+  return request('/api/v1/portfolio/optimize', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export function previewRebalance(input: {
+  targets: Record<string, number>;
+  driftThreshold?: number;
+}): Promise<RebalanceProposal> {
+  return request('/api/v1/portfolio/rebalance', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
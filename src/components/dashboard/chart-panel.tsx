@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CandlestickChart,
+  type ChartIndicator,
+  type ChartMarker,
+} from '../chart';
+import type { Bar, Timeframe } from '@/lib/marketdata/types';
+import type { ManagedOrder } from '@/lib/oms/types';
+import { fetchBars, fetchOrders } from './api';
+
+const TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '1d'];
+const INDICATORS: ChartIndicator[] = [
+  { type: 'sma', period: 20 },
+  { type: 'bbands', period: 20 },
+  { type: 'rsi' },
+  { type: 'macd' },
+];
+
+/** Where each order was placed and filled, for the chart. */
+export function orderMarkers(orders: ManagedOrder[]): ChartMarker[] {
+  return orders.flatMap(order => {
+    const placedAt = order.limitPrice ?? order.stopPrice;
+    const placed: ChartMarker[] =
+      placedAt === undefined
+        ? []
+        : [
+            {
+              id: order.id,
+              kind: 'order',
+              side: order.side,
+              timestamp: order.createdAt,
+              price: placedAt,
+            },
+          ];
+    return placed.concat(
+      order.fills.map(fill => ({
+        id: fill.id,
+        kind: 'fill' as const,
+        side: fill.side,
+        timestamp: fill.timestamp,
+        price: fill.price,
+        label: `Filled ${fill.side} ${fill.quantity} @ ${fill.price}`,
+      }))
+    );
+  });
+}
+
+/**
+ * The chart of one symbol with this account's orders and fills on it.
+ * A new `version` reloads the orders, e.g. after order activity.
+ */
+export function ChartPanel({
+  symbol,
+  version,
+}: {
+  symbol: string;
+  version: string;
+}) {
+  const [timeframe, setTimeframe] = useState<Timeframe>('1d');
+  const [bars, setBars] = useState<Bar[]>([]);
+  const [orders, setOrders] = useState<ManagedOrder[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let current = true;
+    fetchBars(symbol, timeframe)
+      .then(result => {
+        if (!current) return;
+        setBars(result);
+        setError(null);
+      })
+      .catch(cause => current && setError(String(cause.message ?? cause)));
+    return () => {
+      current = false;
+    };
+  }, [symbol, timeframe]);
+
+  useEffect(() => {
+    let current = true;
+    fetchOrders(symbol)
+      .then(result => current && setOrders(result))
+      .catch(() => current && setOrders([]));
+    return () => {
+      current = false;
+    };
+  }, [symbol, version]);
+
+  const markers = useMemo(() => orderMarkers(orders), [orders]);
+
+  if (error) {
+    return <p className="text-sm text-red-700">Could not load bars: {error}</p>;
+  }
+  return (
+    <CandlestickChart
+      bars={bars}
+      indicators={INDICATORS}
+      markers={markers}
+      timeframe={timeframe}
+      timeframes={TIMEFRAMES}
+      onTimeframeChange={setTimeframe}
+      title={`${symbol} ${timeframe} chart`}
+    />
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { Menu, X } from 'lucide-react';
+import { navigate } from '@/components/auth/session';
+import { fetchProfile, logout, type Profile } from './api';
+
+const SECTIONS = [
+  { href: '#account', label: 'Account' },
+  { href: '#watchlist', label: 'Watchlist' },
+  { href: '#chart', label: 'Chart' },
+  { href: '#positions', label: 'Positions' },
+  { href: '#orders', label: 'Orders' },
+  { href: '#activity', label: 'Activity' },
+];
+
+export function DashboardHeader({ live }: { live: boolean }) {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [profile, setProfile] = useState<Profile | null>(null);
+
+  useEffect(() => {
+    fetchProfile().then(setProfile, () => setProfile(null));
+  }, []);
+
+  const logOut = async () => {
+    await logout().catch(() => undefined);
+    navigate('/login');
+  };
+
+  return (
+    <header className="border-b border-gray-200 bg-white dark:border-neutral-800 dark:bg-neutral-950">
+      <div className="mx-auto flex max-w-7xl items-center justify-between gap-4 px-4 py-3">
+        <div className="flex items-center gap-3">
+          <Link href="/dashboard" className="text-xl font-bold">
+            STOCAI
+          </Link>
+          <span
+            className={clsx(
+              'rounded-full px-2 py-0.5 text-xs font-medium',
+              live ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+            )}
+          >
+            {live ? 'Live' : 'Offline'}
+          </span>
+        </div>
+
+        <button
+          type="button"
+          data-testid="mobile-menu"
+          aria-label={menuOpen ? 'Close menu' : 'Open menu'}
+          aria-expanded={menuOpen}
+          aria-controls="dashboard-navigation"
+          className="rounded p-2 md:hidden"
+          onClick={() => setMenuOpen(open => !open)}
+        >
+          {menuOpen ? <X size={20} /> : <Menu size={20} />}
+        </button>
+
+        <nav
+          id="dashboard-navigation"
+          data-testid="navigation"
+          aria-label="Dashboard sections"
+          className={clsx(
+            'absolute left-0 right-0 top-14 z-10 bg-white p-4 shadow md:static md:block md:p-0 md:shadow-none dark:bg-neutral-950',
+            menuOpen ? 'block' : 'hidden'
+          )}
+        >
+          <ul className="flex flex-col gap-3 md:flex-row md:gap-6">
+            {SECTIONS.map(section => (
+              <li key={section.href}>
+                <a
+                  href={section.href}
+                  className="text-sm font-medium hover:text-primary-600"
+                  onClick={() => setMenuOpen(false)}
+                >
+                  {section.label}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </nav>
+
+        <div className="flex items-center gap-3">
+          <span
+            data-testid="user-profile"
+            className="text-sm"
+            title="Paper account"
+          >
+            {profile ? (profile.name ?? profile.email) : 'Paper account'}
+          </span>
+          <button
+            type="button"
+            data-testid="logout-button"
+            className="rounded border border-gray-300 px-3 py-1 text-sm hover:bg-gray-100 dark:border-neutral-700 dark:hover:bg-neutral-800"
+            onClick={() => void logOut()}
+          >
+            Log out
+          </button>
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import type { ManagedOrder } from '@/lib/oms/types';
+import { AccountSummary } from './account-summary';
+import { ActivityFeed } from './activity-feed';
+import { cancelOrder } from './api';
+import { ChartPanel } from './chart-panel';
+import { DashboardHeader } from './dashboard-header';
+import { OrderTicket } from './order-ticket';
+import { OrdersTable } from './orders-table';
+import { PositionsTable } from './positions-table';
+import { RebalancePanel } from './rebalance-panel';
+import { useLiveDashboard } from './use-live-dashboard';
+import { useWatchlist } from './use-watchlist';
+import { Watchlist } from './watchlist';
+
+function Panel({
+  id,
+  title,
+  actions,
+  children,
+  className,
+}: {
+  id: string;
+  title: string;
+  actions?: ReactNode;
+  children: ReactNode;
+  className?: string;
+}) {
+  return (
+    <section
+      id={id}
+      aria-labelledby={`${id}-title`}
+      className={`rounded-lg border border-gray-200 bg-white p-4 dark:border-neutral-800 dark:bg-neutral-950 ${className ?? ''}`}
+    >
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h2 id={`${id}-title`} className="text-base font-semibold">
+          {title}
+        </h2>
+        {actions}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+/**
+ * The trading dashboard: account, watchlist, positions, orders, activity
+ * and rebalancing.
+ */
+export function Dashboard() {
+  const watchlist = useWatchlist();
+  const { portfolio, orders, quotes, activity, loading, error, live, refresh } =
+    useLiveDashboard(watchlist.symbols);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const charted = selected ?? watchlist.symbols[0];
+
+  const cancel = async (order: ManagedOrder) => {
+    setActionError(null);
+    try {
+      await cancelOrder(order.id);
+    } catch (cause) {
+      setActionError(
+        cause instanceof Error ? cause.message : 'Could not cancel the order'
+      );
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 dark:bg-black dark:text-gray-100">
+      <DashboardHeader live={live} />
+      <main className="mx-auto flex max-w-7xl flex-col gap-4 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-bold">Dashboard</h1>
+          <button
+            type="button"
+            data-testid="network-dependent-action"
+            className="rounded border border-gray-300 px-3 py-1 text-sm hover:bg-gray-100 dark:border-neutral-700 dark:hover:bg-neutral-800"
+            onClick={() => void refresh()}
+          >
+            Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div
+            data-testid="error-message"
+            role="alert"
+            className="flex flex-wrap items-center justify-between gap-2 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-800"
+          >
+            <span>Could not load account data: {error}</span>
+            <button
+              type="button"
+              data-testid="retry-button"
+              className="rounded bg-red-700 px-3 py-1 text-white"
+              onClick={() => void refresh()}
+            >
+              Retry
+            </button>
+          </div>
+        )}
+        {actionError && (
+          <p role="alert" className="text-sm text-red-700">
+            {actionError}
+          </p>
+        )}
+
+        <section id="account" aria-label="Account summary">
+          {loading && !portfolio ? (
+            <p className="text-sm text-gray-600">Loading account…</p>
+          ) : (
+            <AccountSummary portfolio={portfolio} />
+          )}
+        </section>
+
+        <div className="grid gap-4 lg:grid-cols-3">
+          <Panel id="watchlist" title="Watchlist">
+            <Watchlist
+              symbols={watchlist.symbols}
+              quotes={quotes}
+              onAdd={watchlist.add}
+              onRemove={watchlist.remove}
+              selected={charted}
+              onSelect={setSelected}
+            />
+          </Panel>
+          {charted && (
+            <Panel id="chart" title={charted} className="lg:col-span-2">
+              <ChartPanel symbol={charted} version={activity[0]?.id ?? ''} />
+            </Panel>
+          )}
+          <Panel id="positions" title="Positions" className="lg:col-span-3">
+            <PositionsTable positions={portfolio?.positions ?? []} />
+          </Panel>
+          <Panel id="orders" title="Open orders" className="lg:col-span-2">
+            <div className="flex flex-col gap-4">
+              <OrderTicket onPlaced={() => void refresh()} />
+              <OrdersTable
+                orders={orders}
+                onCancel={order => void cancel(order)}
+              />
+            </div>
+          </Panel>
+          <Panel id="activity" title="Activity">
+            <ActivityFeed items={activity} />
+          </Panel>
+          <Panel id="rebalance" title="Rebalance" className="lg:col-span-3">
+            <RebalancePanel
+              watchlist={watchlist.symbols}
+              onSubmitted={() => void refresh()}
+            />
+          </Panel>
+        </div>
+      </main>
+    </div>
+  );
+}
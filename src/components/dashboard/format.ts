@@ -0,0 +1,28 @@
+const currency = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+});
+
+export function formatMoney(value: number | null | undefined): string {
+  return value === null || value === undefined || Number.isNaN(value)
+    ? '—'
+    : currency.format(value);
+}
+
+export function formatPrice(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : value.toFixed(2);
+}
+
+/** A fraction as a percentage, e.g. 0.125 as `12.5%`. */
+export function formatPercent(value: number | null | undefined): string {
+  return value === null || value === undefined || Number.isNaN(value)
+    ? '—'
+    : `${(value * 100).toFixed(1)}%`;
+}
+
+/** Tailwind text colour for a gain, loss or nothing. */
+export function pnlClass(value: number): string {
+  if (value > 0) return 'text-green-700 dark:text-green-400';
+  if (value < 0) return 'text-red-700 dark:text-red-400';
+  return 'text-gray-700 dark:text-gray-300';
+}
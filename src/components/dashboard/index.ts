@@ -0,0 +1 @@
+export { Dashboard } from './dashboard';
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import type { ManagedOrder } from '@/lib/oms/types';
+import { placeOrder, RequestError } from './api';
+
+type Side = 'buy' | 'sell';
+type TicketType = 'market' | 'limit';
+
+/** A collapsible form for placing market and limit orders. */
+export function OrderTicket({
+  onPlaced,
+}: {
+  onPlaced: (order: ManagedOrder) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [symbol, setSymbol] = useState('');
+  const [side, setSide] = useState<Side>('buy');
+  const [quantity, setQuantity] = useState('1');
+  const [type, setType] = useState<TicketType>('market');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<
+    { ok: true; order: ManagedOrder } | { ok: false; messages: string[] } | null
+  >(null);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setResult(null);
+    try {
+      const order = await placeOrder({
+        symbol: symbol.trim().toUpperCase(),
+        side,
+        quantity: Number(quantity),
+        type,
+        ...(type === 'limit' ? { limitPrice: Number(limitPrice) } : {}),
+      });
+      if (order.status === 'rejected') {
+        setResult({
+          ok: false,
+          messages: order.rejectReasons?.map(r => r.message) ?? [
+            order.rejectReason ?? 'Order rejected',
+          ],
+        });
+      } else {
+        setResult({ ok: true, order });
+        setSymbol('');
+      }
+      onPlaced(order);
+    } catch (cause) {
+      setResult({
+        ok: false,
+        messages:
+          cause instanceof RequestError && cause.details.length > 0
+            ? cause.details
+            : [cause instanceof Error ? cause.message : 'Order failed'],
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const field =
+    'rounded border border-gray-300 px-2 py-1 text-sm dark:border-neutral-700 dark:bg-neutral-900';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <button
+        type="button"
+        data-testid="new-operation-button"
+        aria-expanded={open}
+        className="self-start rounded bg-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-700"
+        onClick={() => setOpen(current => !current)}
+      >
+        New order
+      </button>
+
+      {open && (
+        <form
+          onSubmit={submit}
+          aria-label="New order"
+          className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-6"
+        >
+          <input
+            data-testid="operation-input"
+            aria-label="Symbol"
+            placeholder="Symbol"
+            required
+            value={symbol}
+            onChange={event => setSymbol(event.target.value)}
+            className={`${field} uppercase`}
+          />
+          <select
+            aria-label="Side"
+            value={side}
+            onChange={event => setSide(event.target.value as Side)}
+            className={field}
+          >
+            <option value="buy">Buy</option>
+            <option value="sell">Sell</option>
+          </select>
+          <input
+            aria-label="Quantity"
+            type="number"
+            min="1"
+            step="1"
+            required
+            value={quantity}
+            onChange={event => setQuantity(event.target.value)}
+            className={field}
+          />
+          <select
+            aria-label="Order type"
+            value={type}
+            onChange={event => setType(event.target.value as TicketType)}
+            className={field}
+          >
+            <option value="market">Market</option>
+            <option value="limit">Limit</option>
+          </select>
+          {type === 'limit' && (
+            <input
+              aria-label="Limit price"
+              type="number"
+              min="0"
+              step="0.01"
+              required
+              value={limitPrice}
+              onChange={event => setLimitPrice(event.target.value)}
+              className={field}
+            />
+          )}
+          <button
+            type="submit"
+            data-testid="submit-operation"
+            disabled={submitting}
+            className="rounded bg-gray-900 px-3 py-1 text-sm font-medium text-white disabled:opacity-50 dark:bg-gray-100 dark:text-gray-900"
+          >
+            {submitting ? 'Placing…' : 'Place order'}
+          </button>
+        </form>
+      )}
+
+      {result?.ok && (
+        <p
+          data-testid="operation-success"
+          role="status"
+          className="text-sm text-green-700"
+        >
+          {result.order.side} {result.order.quantity} {result.order.symbol}{' '}
+          {result.order.status.replace('_', ' ')}
+        </p>
+      )}
+      {result && !result.ok && (
+        <ul
+          data-testid="operation-error"
+          role="alert"
+          className="text-sm text-red-700"
+        >
+          {result.messages.map(message => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
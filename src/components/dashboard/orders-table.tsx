@@ -0,0 +1,46 @@
+import type { ManagedOrder } from '@/lib/oms/types';
+import { formatPrice } from './format';
+
+export function OrdersTable({
+  orders,
+  onCancel,
+}: {
+  orders: ManagedOrder[];
+  onCancel: (order: ManagedOrder) => void;
+}) {
+  return (
+    <ul data-testid="operations-list" className="flex flex-col gap-2 text-sm">
+      {orders.length === 0 && (
+        <li className="text-gray-600">No open orders.</li>
+      )}
+      {orders.map(order => (
+        <li
+          key={order.id}
+          className="flex flex-wrap items-center justify-between gap-2 rounded border border-gray-200 p-2 dark:border-neutral-800"
+        >
+          <span>
+            <span className="font-medium">{order.symbol}</span> {order.side}{' '}
+            {order.quantity - order.filledQuantity} {order.type}
+            {order.limitPrice !== undefined &&
+              ` @ ${formatPrice(order.limitPrice)}`}
+            {order.stopPrice !== undefined &&
+              ` stop ${formatPrice(order.stopPrice)}`}
+          </span>
+          <span className="flex items-center gap-2">
+            <span className="text-xs text-gray-600 dark:text-gray-400">
+              {order.status.replace('_', ' ')}
+            </span>
+            <button
+              type="button"
+              className="rounded border border-gray-300 px-2 py-0.5 text-xs hover:bg-gray-100 dark:border-neutral-700 dark:hover:bg-neutral-800"
+              aria-label={`Cancel ${order.side} ${order.symbol} order`}
+              onClick={() => onCancel(order)}
+            >
+              Cancel
+            </button>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
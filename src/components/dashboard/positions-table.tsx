@@ -0,0 +1,53 @@
+import { clsx } from 'clsx';
+import type { Position } from '@/lib/portfolio/types';
+import { formatMoney, formatPrice, pnlClass } from './format';
+
+export function PositionsTable({ positions }: { positions: Position[] }) {
+  if (positions.length === 0) {
+    return <p className="text-sm text-gray-600">No open positions.</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table data-testid="positions-table" className="w-full text-sm">
+        <thead className="text-left text-xs text-gray-600 dark:text-gray-400">
+          <tr>
+            <th className="py-2 pr-4">Symbol</th>
+            <th className="py-2 pr-4 text-right">Quantity</th>
+            <th className="py-2 pr-4 text-right">Avg cost</th>
+            <th className="py-2 pr-4 text-right">Price</th>
+            <th className="py-2 pr-4 text-right">Value</th>
+            <th className="py-2 text-right">Unrealized P&L</th>
+          </tr>
+        </thead>
+        <tbody>
+          {positions.map(position => (
+            <tr
+              key={position.symbol}
+              className="border-t border-gray-100 dark:border-neutral-800"
+            >
+              <td className="py-2 pr-4 font-medium">{position.symbol}</td>
+              <td className="py-2 pr-4 text-right">{position.quantity}</td>
+              <td className="py-2 pr-4 text-right">
+                {formatPrice(position.averageCost)}
+              </td>
+              <td className="py-2 pr-4 text-right">
+                {formatPrice(position.marketPrice)}
+              </td>
+              <td className="py-2 pr-4 text-right">
+                {formatMoney(position.marketValue)}
+              </td>
+              <td
+                className={clsx(
+                  'py-2 text-right',
+                  pnlClass(position.unrealizedPnl)
+                )}
+              >
+                {formatMoney(position.unrealizedPnl)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { clsx } from 'clsx';
+import { useState, type FormEvent } from 'react';
+import type { OptimizationReport } from '@/lib/optimization';
+import type {
+  Objective,
+  RebalanceProposal,
+  RebalanceSkip,
+} from '@/lib/optimization/types';
+import {
+  optimizePortfolio,
+  previewRebalance,
+  RequestError,
+  submitBatch,
+} from './api';
+import { formatMoney, formatPercent, pnlClass } from './format';
+
+const OBJECTIVE_LABELS: Record<Objective, string> = {
+  'max-sharpe': 'Max Sharpe',
+  'min-variance': 'Min variance',
+  'risk-parity': 'Risk parity',
+  'mean-variance': 'Mean-variance',
+};
+
+const SKIP_LABELS: Record<RebalanceSkip, string> = {
+  'within-threshold': 'within drift',
+  'below-lot-size': 'under a lot',
+  cash: 'no cash',
+};
+
+function messages(cause: unknown, fallback: string): string[] {
+  if (cause instanceof RequestError && cause.details.length > 0) {
+    return cause.details;
+  }
+  return [cause instanceof Error ? cause.message : fallback];
+}
+
+/**
+ * Optimizes target weights for a set of symbols, previews the orders that
+ * would move the portfolio there, and submits them once reviewed.
+ */
+export function RebalancePanel({
+  watchlist,
+  onSubmitted,
+}: {
+  watchlist: string[];
+  onSubmitted: () => void;
+}) {
+  const [symbols, setSymbols] = useState('');
+  const [objective, setObjective] = useState<Objective>('max-sharpe');
+  const [maxWeight, setMaxWeight] = useState('100');
+  const [drift, setDrift] = useState('2');
+  const [busy, setBusy] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [plan, setPlan] = useState<{
+    report: OptimizationReport;
+    proposal: RebalanceProposal;
+  } | null>(null);
+
+  const propose = async (event: FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setErrors([]);
+    setStatus(null);
+    setPlan(null);
+    try {
+      const listed = symbols
+        .split(/[\s,]+/)
+        .map(symbol => symbol.trim().toUpperCase())
+        .filter(Boolean);
+      const report = await optimizePortfolio({
+        symbols: listed.length > 0 ? listed : watchlist,
+        objective,
+        constraints: { maxWeight: Number(maxWeight) / 100 },
+      });
+      const proposal = await previewRebalance({
+        targets: report.allocation.weights,
+        driftThreshold: Number(drift) / 100,
+      });
+      setPlan({ report, proposal });
+    } catch (cause) {
+      setErrors(messages(cause, 'Could not optimize the portfolio'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** Sends the orders as one atomic batch: all are placed or none. */
+  const submit = async () => {
+    if (!plan) return;
+    setBusy(true);
+    setErrors([]);
+    try {
+      const result = await submitBatch(
+        plan.proposal.orders.map(order => ({ ...order, type: 'market' }))
+      );
+      setPlan(null);
+      setStatus(`Placed ${result.placed} orders`);
+      onSubmitted();
+    } catch (cause) {
+      setErrors([cause instanceof Error ? cause.message : 'Rebalance failed']);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const field =
+    'rounded border border-gray-300 px-2 py-1 text-sm dark:border-neutral-700 dark:bg-neutral-900';
+  const allocation = plan?.report.allocation;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <form
+        onSubmit={propose}
+        aria-label="Rebalance"
+        className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-5"
+      >
+        <input
+          data-testid="rebalance-symbols"
+          aria-label="Symbols"
+          placeholder={watchlist.join(', ') || 'Symbols'}
+          value={symbols}
+          onChange={event => setSymbols(event.target.value)}
+          className={`${field} uppercase sm:col-span-2`}
+        />
+        <select
+          aria-label="Objective"
+          value={objective}
+          onChange={event => setObjective(event.target.value as Objective)}
+          className={field}
+        >
+          {(Object.keys(OBJECTIVE_LABELS) as Objective[]).map(value => (
+            <option key={value} value={value}>
+              {OBJECTIVE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label="Max weight %"
+          title="Max weight %"
+          type="number"
+          min="1"
+          max="100"
+          step="1"
+          required
+          value={maxWeight}
+          onChange={event => setMaxWeight(event.target.value)}
+          className={field}
+        />
+        <input
+          aria-label="Drift threshold %"
+          title="Drift threshold %"
+          type="number"
+          min="0"
+          max="100"
+          step="0.5"
+          required
+          value={drift}
+          onChange={event => setDrift(event.target.value)}
+          className={field}
+        />
+        <button
+          type="submit"
+          data-testid="rebalance-propose"
+          disabled={busy}
+          className="rounded bg-gray-900 px-3 py-1 text-sm font-medium text-white disabled:opacity-50 dark:bg-gray-100 dark:text-gray-900"
+        >
+          {busy && !plan ? 'Optimizing…' : 'Preview rebalance'}
+        </button>
+      </form>
+
+      {plan && allocation && (
+        <>
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Expected return {formatPercent(allocation.expectedReturn)},
+            volatility {formatPercent(allocation.volatility)}, Sharpe{' '}
+            {allocation.sharpe?.toFixed(2) ?? '—'}; turnover{' '}
+            {formatPercent(plan.proposal.turnover)}, cash after{' '}
+            {formatMoney(plan.proposal.projectedCash)}.
+          </p>
+          <div className="overflow-x-auto">
+            <table data-testid="rebalance-table" className="w-full text-sm">
+              <thead className="text-left text-xs text-gray-600 dark:text-gray-400">
+                <tr>
+                  <th className="py-2 pr-4">Symbol</th>
+                  <th className="py-2 pr-4 text-right">Current</th>
+                  <th className="py-2 pr-4 text-right">Target</th>
+                  <th className="py-2 pr-4 text-right">Drift</th>
+                  <th className="py-2 text-right">Order</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.proposal.lines.map(line => (
+                  <tr
+                    key={line.symbol}
+                    className="border-t border-gray-100 dark:border-neutral-800"
+                  >
+                    <td className="py-2 pr-4 font-medium">{line.symbol}</td>
+                    <td className="py-2 pr-4 text-right">
+                      {formatPercent(line.currentWeight)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      {formatPercent(line.targetWeight)}
+                    </td>
+                    <td
+                      className={clsx(
+                        'py-2 pr-4 text-right',
+                        pnlClass(line.drift)
+                      )}
+                    >
+                      {formatPercent(line.drift)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {line.order
+                        ? `${line.order.side} ${line.order.quantity}`
+                        : line.skipped
+                          ? SKIP_LABELS[line.skipped]
+                          : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <button
+            type="button"
+            data-testid="rebalance-submit"
+            disabled={busy || plan.proposal.orders.length === 0}
+            className="self-start rounded bg-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            onClick={() => void submit()}
+          >
+            {plan.proposal.orders.length === 0
+              ? 'Nothing to trade'
+              : `Submit ${plan.proposal.orders.length} orders`}
+          </button>
+        </>
+      )}
+
+      {status && (
+        <p
+          data-testid="rebalance-status"
+          role="status"
+          className="text-sm text-green-700"
+        >
+          {status}
+        </p>
+      )}
+      {errors.length > 0 && (
+        <ul
+          data-testid="rebalance-error"
+          role="alert"
+          className="text-sm text-red-700"
+        >
+          {errors.map(message => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Quote } from '@/lib/marketdata/types';
+import type { ManagedOrder } from '@/lib/oms/types';
+import type { PortfolioSnapshot } from '@/lib/portfolio/types';
+import { fetchOpenOrders, fetchPortfolio } from './api';
+
+export interface ActivityItem {
+  id: string;
+  timestamp: number;
+  message: string;
+}
+
+export interface LiveDashboard {
+  portfolio: PortfolioSnapshot | null;
+  orders: ManagedOrder[];
+  quotes: Record<string, Quote>;
+  activity: ActivityItem[];
+  loading: boolean;
+  error: string | null;
+  /** Whether the event stream is connected. */
+  live: boolean;
+  refresh: () => Promise<void>;
+}
+
+const ACTIVITY_LIMIT = 50;
+/** Order events often come in bursts; reload once per burst. */
+const RELOAD_DELAY_MS = 250;
+
+/**
+ * Portfolio, open orders and watchlist quotes, loaded once and then kept
+ * current from `/api/v1/stream`: quotes update in place, and order or
+ * fill events reload the portfolio and orders.
+ */
+export function useLiveDashboard(symbols: string[]): LiveDashboard {
+  const [portfolio, setPortfolio] = useState<PortfolioSnapshot | null>(null);
+  const [orders, setOrders] = useState<ManagedOrder[]>([]);
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const [activity, setActivity] = useState<ActivityItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [live, setLive] = useState(false);
+  const reloadTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const refresh = useCallback(async () => {
+    try {
+      const [snapshot, open] = await Promise.all([
+        fetchPortfolio(),
+        fetchOpenOrders(),
+      ]);
+      setPortfolio(snapshot);
+      setOrders(open);
+      setError(null);
+    } catch (cause) {
+      setError(
+        cause instanceof Error ? cause.message : 'Could not load account data'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const watched = symbols.join(',');
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+    const params = new URLSearchParams({
+      channels: watched ? 'quotes,orders,fills' : 'orders,fills',
+    });
+    if (watched) params.set('symbols', watched);
+    const source = new EventSource(`/api/v1/stream?${params}`);
+
+    const scheduleReload = () => {
+      clearTimeout(reloadTimer.current);
+      reloadTimer.current = setTimeout(() => void refresh(), RELOAD_DELAY_MS);
+    };
+    const note = (id: string, timestamp: number, message: string) =>
+      setActivity(items =>
+        [{ id, timestamp, message }, ...items].slice(0, ACTIVITY_LIMIT)
+      );
+
+    source.onopen = () => setLive(true);
+    source.onerror = () => setLive(false);
+    source.addEventListener('quotes', event => {
+      const quote = JSON.parse((event as MessageEvent).data).data as Quote;
+      setQuotes(current => ({ ...current, [quote.symbol]: quote }));
+    });
+    source.addEventListener('orders', event => {
+      const { seq, timestamp, data } = JSON.parse((event as MessageEvent).data);
+      const order = data.order as ManagedOrder;
+      note(
+        `order-${seq}`,
+        timestamp,
+        `${order.side} ${order.quantity} ${order.symbol} ${order.type} ${order.status.replace('_', ' ')}`
+      );
+      scheduleReload();
+    });
+    source.addEventListener('fills', event => {
+      const { seq, timestamp, data } = JSON.parse((event as MessageEvent).data);
+      const { fill } = data;
+      note(
+        `fill-${seq}`,
+        timestamp,
+        `Filled ${fill.side} ${fill.quantity} ${fill.symbol} @ ${fill.price}`
+      );
+      scheduleReload();
+    });
+    // Missed events are gone; start over from a fresh load.
+    source.addEventListener('reset', scheduleReload);
+
+    return () => {
+      clearTimeout(reloadTimer.current);
+      source.close();
+      setLive(false);
+    };
+  }, [watched, refresh]);
+
+  return { portfolio, orders, quotes, activity, loading, error, live, refresh };
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'stocai.watchlist';
+export const DEFAULT_WATCHLIST = ['AAPL', 'MSFT', 'SPY'];
+
+function load(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return Array.isArray(stored) &&
+      stored.every(item => typeof item === 'string')
+      ? stored
+      : DEFAULT_WATCHLIST;
+  } catch {
+    return DEFAULT_WATCHLIST;
+  }
+}
+
+/** Symbols the user watches, kept in local storage across visits. */
+export function useWatchlist() {
+  const [symbols, setSymbols] = useState<string[]>(DEFAULT_WATCHLIST);
+
+  // Read after mount so server and client render the same markup first.
+  useEffect(() => setSymbols(load()), []);
+
+  const save = useCallback((next: string[]) => {
+    setSymbols(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  }, []);
+
+  const add = useCallback(
+    (symbol: string) => {
+      const normalized = symbol.trim().toUpperCase();
+      if (normalized && !symbols.includes(normalized)) {
+        save([...symbols, normalized]);
+      }
+    },
+    [symbols, save]
+  );
+
+  const remove = useCallback(
+    (symbol: string) => save(symbols.filter(s => s !== symbol)),
+    [symbols, save]
+  );
+
+  return { symbols, add, remove };
+}
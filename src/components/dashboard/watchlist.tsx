@@ -0,0 +1,111 @@
+'use client';
+
+import { clsx } from 'clsx';
+import { useState, type FormEvent } from 'react';
+import type { Quote } from '@/lib/marketdata/types';
+import { formatPrice } from './format';
+
+export function Watchlist({
+  symbols,
+  quotes,
+  onAdd,
+  onRemove,
+  selected,
+  onSelect,
+}: {
+  symbols: string[];
+  quotes: Record<string, Quote>;
+  onAdd: (symbol: string) => void;
+  onRemove: (symbol: string) => void;
+  selected?: string;
+  onSelect?: (symbol: string) => void;
+}) {
+  const [adding, setAdding] = useState(false);
+  const [symbol, setSymbol] = useState('');
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!symbol.trim()) return;
+    onAdd(symbol);
+    setSymbol('');
+    setAdding(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <ul data-testid="data-list" className="flex flex-col gap-1 text-sm">
+        {symbols.map(s => {
+          const quote = quotes[s];
+          return (
+            <li
+              key={s}
+              className="flex items-center justify-between gap-2 border-b border-gray-100 py-1 dark:border-neutral-800"
+            >
+              <button
+                type="button"
+                aria-pressed={s === selected}
+                aria-label={`Chart ${s}`}
+                className={clsx(
+                  'font-medium hover:underline',
+                  s === selected && 'text-primary-700'
+                )}
+                onClick={() => onSelect?.(s)}
+              >
+                {s}
+              </button>
+              <span className="ml-auto tabular-nums">
+                {quote ? formatPrice(quote.last) : '—'}
+              </span>
+              <span className="w-28 text-right text-xs tabular-nums text-gray-600 dark:text-gray-400">
+                {quote
+                  ? `${formatPrice(quote.bid)} / ${formatPrice(quote.ask)}`
+                  : ''}
+              </span>
+              <button
+                type="button"
+                aria-label={`Remove ${s} from watchlist`}
+                className="px-1 text-gray-500 hover:text-red-600"
+                onClick={() => onRemove(s)}
+              >
+                ×
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {adding ? (
+        <form onSubmit={submit} className="flex gap-2">
+          <label className="sr-only" htmlFor="watchlist-symbol">
+            Symbol
+          </label>
+          <input
+            id="watchlist-symbol"
+            data-testid="data-name"
+            value={symbol}
+            onChange={event => setSymbol(event.target.value)}
+            placeholder="Symbol"
+            autoFocus
+            className="min-w-0 flex-1 rounded border border-gray-300 px-2 py-1 text-sm uppercase dark:border-neutral-700 dark:bg-neutral-900"
+          />
+          <button
+            type="submit"
+            data-testid="save-data"
+            className="rounded bg-primary-600 px-3 py-1 text-sm text-white hover:bg-primary-700"
+          >
+            Add
+          </button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          data-testid="create-data-button"
+          className="self-start text-sm font-medium text-primary-700 hover:underline"
+          onClick={() => setAdding(true)}
+        >
+          Add symbol
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import type { AuditEntry, InvocationOutcome } from './types';
+
+export interface AuditQuery {
+  userId?: string;
+  tool?: string;
+  outcome?: InvocationOutcome;
+  limit?: number;
+}
+
+/** Where tool calls are recorded. Lists come back most recent first. */
+export interface AuditLog {
+  record(entry: AuditEntry): Promise<void>;
+  list(query?: AuditQuery): Promise<AuditEntry[]>;
+}
+
+export interface InMemoryAuditLogOptions {
+  /** Entries kept per user, the oldest dropped first. Defaults to 200. */
+  perUser?: number;
+  /**
+   * Longest input kept, as JSON; longer ones are cut to this length and
+   * kept as a string, with `inputTruncated` set. Defaults to 2,000.
+   */
+  maxInputLength?: number;
+}
+
+interface Recorded {
+  seq: number;
+  entry: AuditEntry;
+}
+
+/**
+ * Keeps each user's latest entries in memory, so no one user's calls push
+ * out everyone else's, and bounds the input kept with each.
+ */
+export class InMemoryAuditLog implements AuditLog {
+  private readonly byUser = new Map<string, Recorded[]>();
+  private readonly perUser: number;
+  private readonly maxInputLength: number;
+  private seq = 0;
+
+  constructor(options: InMemoryAuditLogOptions = {}) {
+    this.perUser = options.perUser ?? 200;
+    this.maxInputLength = options.maxInputLength ?? 2_000;
+  }
+
+  async record(entry: AuditEntry): Promise<void> {
+    let entries = this.byUser.get(entry.userId);
+    if (!entries) {
+      entries = [];
+      this.byUser.set(entry.userId, entries);
+    }
+    entries.push({ seq: ++this.seq, entry: this.bounded(entry) });
+    if (entries.length > this.perUser) entries.shift();
+  }
+
+  async list(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const recorded =
+      query.userId === undefined
+        ? Array.from(this.byUser.values()).reduce<Recorded[]>(
+            (all, entries) => all.concat(entries),
+            []
+          )
+        : (this.byUser.get(query.userId) ?? []);
+    const matches = recorded
+      .filter(
+        ({ entry }) =>
+          (query.tool === undefined || entry.tool === query.tool) &&
+          (query.outcome === undefined || entry.outcome === query.outcome)
+      )
+      .sort((a, b) => b.seq - a.seq)
+      .map(({ entry }) => entry);
+    return query.limit === undefined ? matches : matches.slice(0, query.limit);
+  }
+
+  private bounded(entry: AuditEntry): AuditEntry {
+    const json = JSON.stringify(entry.input) ?? '';
+    if (json.length <= this.maxInputLength) return entry;
+    return {
+      ...entry,
+      input: json.slice(0, this.maxInputLength),
+      inputTruncated: true,
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { getMarketDataProvider } from '../marketdata';
+import { getMemoryBank } from '../memory';
+import { getOrderManager } from '../oms';
+import { getPortfolio } from '../portfolio';
+import { getScreener } from '../screener';
+import { setSingleton, singleton } from '../singleton';
+import { InMemoryAuditLog, type AuditLog } from './audit';
+import { ToolRegistry } from './registry';
+import { builtinTools } from './tools';
+
+export * from './types';
+export * from './schema';
+export * from './audit';
+export * from './registry';
+export * from './tools';
+
+const REGISTRY_KEY = 'agent.tools';
+const AUDIT_KEY = 'agent.audit';
+
+export function getAuditLog(): AuditLog {
+  return singleton(AUDIT_KEY, () => new InMemoryAuditLog());
+}
+
+export function setAuditLog(log: AuditLog | undefined): void {
+  setSingleton(AUDIT_KEY, log);
+}
+
+/**
+ * The shared registry of built-in tools, auditing into the shared log.
+ * Tools reach the market data provider, screener, portfolio, order
+ * manager and memory bank through their shared instances on each call.
+ */
+export function getToolRegistry(): ToolRegistry {
+  return singleton(REGISTRY_KEY, () => {
+    const registry = new ToolRegistry({ audit: getAuditLog() });
+    builtinTools({
+      marketData: getMarketDataProvider,
+      screener: getScreener,
+      portfolio: getPortfolio,
+      orders: getOrderManager,
+      memory: getMemoryBank,
+    }).forEach(tool => registry.register(tool));
+    return registry;
+  });
+}
+
+/** Overrides the shared registry, e.g. in tests. */
+export function setToolRegistry(registry: ToolRegistry | undefined): void {
+  setSingleton(REGISTRY_KEY, registry);
+}
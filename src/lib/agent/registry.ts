@@ -0,0 +1,120 @@
+import { randomUUID } from 'node:crypto';
+import type { Scope } from '../auth/types';
+import type { AuditLog } from './audit';
+import { validateSchema } from './schema';
+import {
+  AgentError,
+  type InvocationOutcome,
+  type Invocation,
+  type Tool,
+  type ToolContext,
+  type ToolDescriptor,
+} from './types';
+
+export interface ToolRegistryOptions {
+  audit: AuditLog;
+  clock?: () => number;
+}
+
+function outcomeOf(error: unknown): InvocationOutcome {
+  if (!(error instanceof AgentError)) return 'failed';
+  switch (error.code) {
+    case 'FORBIDDEN':
+      return 'denied';
+    case 'UNKNOWN_TOOL':
+    case 'INVALID_INPUT':
+    case 'NOT_FOUND':
+      return 'invalid';
+    case 'TOOL_FAILED':
+      return 'failed';
+  }
+}
+
+/**
+ * The tools agents can discover and call. Every call is authorized
+ * against the tool's scope, checked against its input schema and written
+ * to the audit log, whether it succeeds or not.
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, Tool>();
+  private readonly audit: AuditLog;
+  private readonly clock: () => number;
+
+  constructor(options: ToolRegistryOptions) {
+    this.audit = options.audit;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  register(tool: Tool): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`A tool named ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  /** Every tool, in registration order, marked with whether `scopes` allow it. */
+  describe(scopes: readonly Scope[]): ToolDescriptor[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      scope: tool.scope,
+      allowed: scopes.includes(tool.scope),
+      inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema,
+    }));
+  }
+
+  async invoke(
+    name: string,
+    input: unknown,
+    context: ToolContext
+  ): Promise<Invocation> {
+    const id = randomUUID();
+    const started = this.clock();
+    const { principal } = context;
+    const audit = (outcome: InvocationOutcome, error?: string) =>
+      this.audit.record({
+        id,
+        timestamp: started,
+        userId: principal.user.id,
+        credentialId: principal.credentialId,
+        tool: name,
+        input,
+        outcome,
+        ...(error === undefined ? {} : { error }),
+        durationMs: this.clock() - started,
+      });
+
+    let output: unknown;
+    try {
+      const tool = this.tools.get(name);
+      if (!tool) throw new AgentError('UNKNOWN_TOOL', `Unknown tool ${name}`);
+      if (!principal.scopes.includes(tool.scope)) {
+        throw new AgentError(
+          'FORBIDDEN',
+          `The ${name} tool needs the ${tool.scope} scope`
+        );
+      }
+      const problems = validateSchema(tool.inputSchema, input);
+      if (problems.length > 0) {
+        throw new AgentError('INVALID_INPUT', 'Invalid tool input', problems);
+      }
+      output = await tool.run(input as Record<string, unknown>, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const details =
+        error instanceof AgentError && error.details.length > 0
+          ? `: ${error.details.join('; ')}`
+          : '';
+      await audit(outcomeOf(error), `${message}${details}`);
+      throw error;
+    }
+    await audit('ok');
+    return { id, tool: name, output, durationMs: this.clock() - started };
+  }
+}
@@ -0,0 +1,154 @@
+import type { JsonSchema, JsonType } from './types';
+
+function typeOf(value: unknown): JsonType | null {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  switch (typeof value) {
+    case 'string':
+      return 'string';
+    case 'boolean':
+      return 'boolean';
+    case 'number':
+      if (!Number.isFinite(value)) return null;
+      return Number.isInteger(value) ? 'integer' : 'number';
+    case 'object':
+      return 'object';
+    default:
+      return null;
+  }
+}
+
+function matchesType(value: unknown, allowed: JsonType[]): boolean {
+  const actual = typeOf(value);
+  if (actual === null) return false;
+  // Integers are numbers too.
+  return (
+    allowed.includes(actual) ||
+    (actual === 'integer' && allowed.includes('number'))
+  );
+}
+
+function describeTypes(types: JsonType[]): string {
+  const names = types.map(type =>
+    type === 'object' || type === 'array' || type === 'integer'
+      ? `an ${type}`
+      : type === 'null'
+        ? 'null'
+        : `a ${type}`
+  );
+  return names.join(' or ');
+}
+
+/**
+ * Checks `value` against `schema`, returning every problem in the wording
+ * request validation uses elsewhere (`symbol is required`, `limit must
+ * be an integer between 1 and 500`). An empty list means it conforms.
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = 'input'
+): string[] {
+  const problems: string[] = [];
+  check(schema, value, path, problems);
+  return problems;
+}
+
+function check(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  problems: string[]
+): void {
+  const types =
+    schema.type === undefined
+      ? undefined
+      : Array.isArray(schema.type)
+        ? schema.type
+        : [schema.type];
+  if (types && !matchesType(value, types)) {
+    const numeric = types.find(
+      (type): type is 'integer' | 'number' =>
+        type === 'integer' || type === 'number'
+    );
+    problems.push(
+      numeric && typeof value === 'number'
+        ? `${path} ${rangeMessage(numeric, schema)}`
+        : `${path} must be ${describeTypes(types)}`
+    );
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    problems.push(`${path} must be one of ${schema.enum.join(', ')}`);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (
+      (schema.minimum !== undefined && value < schema.minimum) ||
+      (schema.maximum !== undefined && value > schema.maximum)
+    ) {
+      const kind = types?.includes('integer') ? 'integer' : 'number';
+      problems.push(`${path} ${rangeMessage(kind, schema)}`);
+    }
+  } else if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      problems.push(
+        schema.minLength === 1
+          ? `${path} must be a non-empty string`
+          : `${path} must be at least ${schema.minLength} characters`
+      );
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      problems.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      problems.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      problems.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    const items = schema.items;
+    if (items) {
+      value.forEach((item, i) => check(items, item, `${path}[${i}]`, problems));
+    }
+  } else if (value !== null && typeof value === 'object') {
+    checkObject(schema, value as Record<string, unknown>, path, problems);
+  }
+}
+
+function checkObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+  problems: string[]
+): void {
+  const properties = schema.properties ?? {};
+  const at = (key: string) => (path === 'input' ? key : `${path}.${key}`);
+  (schema.required ?? []).forEach(key => {
+    if (value[key] === undefined) problems.push(`${at(key)} is required`);
+  });
+  Object.keys(value).forEach(key => {
+    const property = Object.prototype.hasOwnProperty.call(properties, key)
+      ? properties[key]
+      : undefined;
+    if (property) {
+      if (value[key] !== undefined) {
+        check(property, value[key], at(key), problems);
+      }
+    } else if (schema.additionalProperties === false) {
+      problems.push(`${at(key)} is not allowed`);
+    }
+  });
+}
+
+function rangeMessage(kind: 'integer' | 'number', schema: JsonSchema): string {
+  const noun = kind === 'integer' ? 'an integer' : 'a number';
+  const { minimum, maximum } = schema;
+  if (minimum === undefined && maximum === undefined) return `must be ${noun}`;
+  if (maximum === undefined) return `must be ${noun} >= ${minimum}`;
+  if (minimum === undefined) return `must be ${noun} <= ${maximum}`;
+  return `must be ${noun} between ${minimum} and ${maximum}`;
+}
@@ -0,0 +1,724 @@
+import { accountIdOf } from '../auth';
+import {
+  BacktestError,
+  executeBacktest,
+  parseBacktestRequest,
+  toListItem,
+} from '../backtest';
+import { BROKER_ORDER_TYPES, TIME_IN_FORCE } from '../broker/types';
+import {
+  ForecastError,
+  MODEL_TYPES,
+  executeForecast,
+  parseForecastRequest,
+} from '../forecasting';
+import {
+  INDICATOR_TYPES,
+  IndicatorError,
+  calculate,
+  type IndicatorSpec,
+} from '../indicators';
+import { loadBars } from '../marketdata/bars';
+import type { MarketDataProvider } from '../marketdata/provider';
+import { TIMEFRAMES } from '../marketdata/timeframes';
+import type { Timeframe } from '../marketdata/types';
+import {
+  MEMORY_KINDS,
+  parseMemory,
+  type MemoryBank,
+  type MemoryKind,
+} from '../memory';
+import { OmsError, type OrderManager, parseCreateOrder } from '../oms';
+import { markToMarket, type PortfolioLedger } from '../portfolio';
+import { ScreenerError, parseSort, type Screener } from '../screener';
+import { StrategyError } from '../strategy';
+import { AgentError, type JsonSchema, type Tool } from './types';
+
+/** Where the tools find the platform, looked up on every call. */
+export interface AgentServices {
+  marketData(): MarketDataProvider;
+  screener(): Screener;
+  portfolio(accountId: string): PortfolioLedger;
+  orders(): OrderManager;
+  memory(): MemoryBank;
+}
+
+const symbolSchema: JsonSchema = {
+  type: 'string',
+  description: 'Ticker, e.g. AAPL',
+  minLength: 1,
+  maxLength: 20,
+};
+
+const timeframeSchema: JsonSchema = {
+  type: 'string',
+  enum: TIMEFRAMES,
+  default: '1d',
+};
+
+const timeSchema: JsonSchema = {
+  type: ['string', 'integer'],
+  description: 'ISO-8601 time or epoch milliseconds',
+};
+
+const quoteSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    symbol: { type: 'string' },
+    timestamp: { type: 'integer' },
+    bid: { type: 'number' },
+    ask: { type: 'number' },
+    bidSize: { type: 'number' },
+    askSize: { type: 'number' },
+    last: { type: 'number' },
+  },
+  required: ['symbol', 'timestamp', 'bid', 'ask', 'last'],
+};
+
+const barSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    timestamp: { type: 'integer', description: 'Start of the bar' },
+    open: { type: 'number' },
+    high: { type: 'number' },
+    low: { type: 'number' },
+    close: { type: 'number' },
+    volume: { type: 'number' },
+  },
+  required: ['timestamp', 'open', 'high', 'low', 'close', 'volume'],
+};
+
+const orderSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    symbol: { type: 'string' },
+    side: { type: 'string', enum: ['buy', 'sell'] },
+    type: { type: 'string', enum: BROKER_ORDER_TYPES },
+    quantity: { type: 'number' },
+    status: { type: 'string' },
+    filledQuantity: { type: 'number' },
+    averageFillPrice: { type: ['number', 'null'] },
+    rejectReasons: {
+      type: 'array',
+      description: 'Why risk checks or the broker turned the order down',
+      items: {
+        type: 'object',
+        properties: { code: { type: 'string' }, message: { type: 'string' } },
+      },
+    },
+  },
+  required: ['id', 'symbol', 'side', 'quantity', 'status'],
+};
+
+const memorySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    kind: { type: 'string', enum: MEMORY_KINDS },
+    title: { type: 'string' },
+    text: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    symbols: { type: 'array', items: { type: 'string' } },
+    orderIds: { type: 'array', items: { type: 'string' } },
+    backtestIds: { type: 'array', items: { type: 'string' } },
+    source: { type: 'string', enum: ['user', 'agent'] },
+    createdAt: { type: 'integer' },
+    updatedAt: { type: 'integer' },
+  },
+  required: ['id', 'kind', 'text', 'tags', 'symbols', 'createdAt'],
+};
+
+const stringListSchema: JsonSchema = {
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+  maxItems: 50,
+};
+
+async function requireSymbol(
+  provider: MarketDataProvider,
+  symbol: string
+): Promise<string> {
+  const normalized = symbol.trim().toUpperCase();
+  if (!(await provider.getSymbol(normalized))) {
+    throw new AgentError('NOT_FOUND', `Unknown symbol ${normalized}`);
+  }
+  return normalized;
+}
+
+function invalid(problems: string[]): AgentError {
+  return new AgentError('INVALID_INPUT', 'Invalid tool input', problems);
+}
+
+function timeOf(
+  value: string | number | undefined,
+  key: string
+): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = typeof value === 'number' ? value : Date.parse(value);
+  if (!Number.isFinite(parsed)) {
+    throw invalid([`${key} must be an ISO-8601 time or epoch ms`]);
+  }
+  return parsed;
+}
+
+/** Extra bars read before the window so indicators are warm inside it. */
+const INDICATOR_WARMUP = 250;
+
+/**
+ * The platform's capabilities as agent tools. Order placement goes
+ * through the shared order manager, so agents meet the same risk checks
+ * as people do, and needs the `trade` scope, as do backtests and
+ * recording memories.
+ */
+export function builtinTools(services: AgentServices): Tool[] {
+  const getQuote: Tool<{ symbol: string }> = {
+    name: 'get_quote',
+    description: 'Latest bid, ask and last trade for a symbol.',
+    scope: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: { symbol: symbolSchema },
+      required: ['symbol'],
+      additionalProperties: false,
+    },
+    outputSchema: quoteSchema,
+    async run({ symbol }) {
+      const provider = services.marketData();
+      const quote = await provider.getQuote(
+        await requireSymbol(provider, symbol)
+      );
+      if (!quote) throw new AgentError('NOT_FOUND', `No quote for ${symbol}`);
+      return quote;
+    },
+  };
+
+  const getBars: Tool<{
+    symbol: string;
+    timeframe?: Timeframe;
+    start?: string | number;
+    end?: string | number;
+    limit?: number;
+  }> = {
+    name: 'get_bars',
+    description:
+      'Historical OHLCV bars, resampled from finer bars when needed. The latest `limit` bars in the range come back, oldest first.',
+    scope: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        symbol: symbolSchema,
+        timeframe: timeframeSchema,
+        start: timeSchema,
+        end: timeSchema,
+        limit: { type: 'integer', minimum: 1, maximum: 1_000, default: 100 },
+      },
+      required: ['symbol'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        symbol: { type: 'string' },
+        timeframe: { type: 'string' },
+        bars: { type: 'array', items: barSchema },
+      },
+      required: ['symbol', 'timeframe', 'bars'],
+    },
+    async run(input) {
+      const provider = services.marketData();
+      const symbol = await requireSymbol(provider, input.symbol);
+      const timeframe = input.timeframe ?? '1d';
+      const { bars } = await loadBars(provider, symbol, {
+        timeframe,
+        start: timeOf(input.start, 'start'),
+        end: timeOf(input.end, 'end'),
+        limit: input.limit ?? 100,
+      });
+      return { symbol, timeframe, bars };
+    },
+  };
+
+  const getIndicator: Tool<{
+    symbol: string;
+    timeframe?: Timeframe;
+    indicator: Record<string, unknown>;
+    limit?: number;
+  }> = {
+    name: 'get_indicator',
+    description:
+      'A technical indicator over recent bars, e.g. { "type": "rsi", "period": 14 }. Values are numbers, or objects for macd, bbands and stoch; null while warming up.',
+    scope: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        symbol: symbolSchema,
+        timeframe: timeframeSchema,
+        indicator: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: INDICATOR_TYPES },
+            period: { type: 'integer', minimum: 1, maximum: 250 },
+            fast: { type: 'integer', minimum: 1, maximum: 250 },
+            slow: { type: 'integer', minimum: 1, maximum: 250 },
+            signal: { type: 'integer', minimum: 1, maximum: 250 },
+            multiplier: { type: 'number', minimum: 0 },
+            kSmoothing: { type: 'integer', minimum: 1, maximum: 250 },
+            dPeriod: { type: 'integer', minimum: 1, maximum: 250 },
+            source: {
+              type: 'string',
+              enum: ['open', 'high', 'low', 'close', 'hl2', 'hlc3', 'ohlc4'],
+            },
+            anchor: { type: 'string', enum: ['session', 'none'] },
+          },
+          required: ['type'],
+          additionalProperties: false,
+        },
+        limit: { type: 'integer', minimum: 1, maximum: 1_000, default: 50 },
+      },
+      required: ['symbol', 'indicator'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        symbol: { type: 'string' },
+        timeframe: { type: 'string' },
+        values: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              timestamp: { type: 'integer' },
+              value: { type: ['number', 'object', 'null'] },
+            },
+          },
+        },
+      },
+      required: ['symbol', 'timeframe', 'values'],
+    },
+    async run(input) {
+      const provider = services.marketData();
+      const symbol = await requireSymbol(provider, input.symbol);
+      const timeframe = input.timeframe ?? '1d';
+      const limit = input.limit ?? 50;
+      const spec = input.indicator as unknown as IndicatorSpec;
+      if (
+        ['sma', 'ema', 'wma'].includes(spec.type) &&
+        input.indicator.period === undefined
+      ) {
+        throw invalid([`indicator.period is required for ${spec.type}`]);
+      }
+      const { bars } = await loadBars(provider, symbol, {
+        timeframe,
+        limit: limit + INDICATOR_WARMUP,
+      });
+      let values;
+      try {
+        values = calculate(spec, bars);
+      } catch (error) {
+        if (error instanceof IndicatorError) throw invalid([error.message]);
+        throw error;
+      }
+      return {
+        symbol,
+        timeframe,
+        values: bars
+          .map((bar, i) => ({ timestamp: bar.timestamp, value: values[i] }))
+          .slice(-limit),
+      };
+    },
+  };
+
+  const screenStocks: Tool<{
+    query: string;
+    sort?: string;
+    fields?: string[];
+    limit?: number;
+    offset?: number;
+  }> = {
+    name: 'screen_stocks',
+    description:
+      'Filters symbols with a screener query such as `rsi14 < 30 and sector = "Technology" and avgvol20 > 1m`. Fields include price, marketcap, sector, pe, pb, dividendyield and smaN, emaN, rsiN, atrN, avgvolN over N daily bars.',
+    scope: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, maxLength: 1_000 },
+        sort: {
+          type: 'string',
+          description: 'Fields in priority order, `-` for descending',
+          default: '-marketcap',
+        },
+        fields: { type: 'array', items: { type: 'string' }, maxItems: 20 },
+        limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+        offset: { type: 'integer', minimum: 0, default: 0 },
+      },
+      required: ['query'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        total: { type: 'integer' },
+        offset: { type: 'integer' },
+        limit: { type: 'integer' },
+        fields: { type: 'array', items: { type: 'string' } },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              symbol: { type: 'string' },
+              values: { type: 'object' },
+            },
+          },
+        },
+      },
+      required: ['query', 'total', 'results'],
+    },
+    async run(input) {
+      try {
+        return await services.screener().run({
+          query: input.query,
+          sort: input.sort ? parseSort(input.sort) : undefined,
+          fields: input.fields,
+          limit: input.limit,
+          offset: input.offset,
+        });
+      } catch (error) {
+        if (error instanceof ScreenerError) throw invalid([error.message]);
+        throw error;
+      }
+    },
+  };
+
+  const getPortfolio: Tool = {
+    name: 'get_portfolio',
+    description:
+      'Cash, equity, P&L and open positions, marked to the latest quotes.',
+    scope: 'read',
+    inputSchema: { type: 'object', additionalProperties: false },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        cash: { type: 'number' },
+        marketValue: { type: 'number' },
+        equity: { type: 'number' },
+        realizedPnl: { type: 'number' },
+        unrealizedPnl: { type: 'number' },
+        netPnl: { type: 'number' },
+        positions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              symbol: { type: 'string' },
+              quantity: { type: 'number' },
+              averageCost: { type: 'number' },
+              marketPrice: { type: 'number' },
+              marketValue: { type: 'number' },
+              unrealizedPnl: { type: 'number' },
+            },
+          },
+        },
+      },
+      required: ['cash', 'equity', 'positions'],
+    },
+    async run(_input, { principal }) {
+      const portfolio = services.portfolio(accountIdOf(principal));
+      await markToMarket(portfolio, services.marketData());
+      return portfolio.snapshot();
+    },
+  };
+
+  const forecast: Tool = {
+    name: 'forecast',
+    description:
+      'Trains a model on local bars and returns a directional signal with confidence and out-of-sample accuracy.',
+    scope: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        symbol: symbolSchema,
+        timeframe: timeframeSchema,
+        horizon: { type: 'integer', minimum: 1, maximum: 20, default: 1 },
+        lookback: { type: 'integer', minimum: 100, maximum: 2_000 },
+        model: {
+          type: 'object',
+          properties: { type: { type: 'string', enum: MODEL_TYPES } },
+          required: ['type'],
+        },
+      },
+      required: ['symbol'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        symbol: { type: 'string' },
+        model: { type: 'object' },
+        signal: {
+          type: 'object',
+          properties: {
+            direction: { type: 'string', enum: ['up', 'down', 'flat'] },
+            confidence: { type: 'number' },
+            expectedReturn: { type: 'number' },
+          },
+        },
+        evaluation: {
+          type: 'object',
+          properties: {
+            directionalAccuracy: { type: 'number' },
+            baselineAccuracy: { type: 'number' },
+          },
+        },
+      },
+      required: ['symbol', 'signal', 'evaluation'],
+    },
+    async run(input) {
+      const parsed = parseForecastRequest(input);
+      if (!('request' in parsed)) throw invalid(parsed.problems);
+      const provider = services.marketData();
+      await requireSymbol(provider, parsed.request.symbol);
+      try {
+        return await executeForecast(parsed.request, { provider });
+      } catch (error) {
+        if (error instanceof ForecastError) {
+          throw new AgentError('TOOL_FAILED', error.message, [error.code]);
+        }
+        throw error;
+      }
+    },
+  };
+
+  const runBacktest: Tool = {
+    name: 'run_backtest',
+    description:
+      'Runs a built-in or uploaded strategy over historical data and stores the result. Built-ins include sma-cross and buy-and-hold.',
+    scope: 'trade',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        strategy: { type: 'string', minLength: 1 },
+        symbols: {
+          type: 'array',
+          items: symbolSchema,
+          minItems: 1,
+          maxItems: 20,
+        },
+        params: { type: 'object' },
+        timeframe: timeframeSchema,
+        start: timeSchema,
+        end: timeSchema,
+        initialCapital: { type: 'number', minimum: 1 },
+      },
+      required: ['strategy', 'symbols'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        strategy: { type: 'string' },
+        symbols: { type: 'array', items: { type: 'string' } },
+        summary: {
+          type: 'object',
+          properties: {
+            finalEquity: { type: 'number' },
+            totalReturn: { type: 'number' },
+            maxDrawdown: { type: 'number' },
+            tradeCount: { type: 'integer' },
+          },
+        },
+      },
+      required: ['id', 'strategy', 'summary'],
+    },
+    async run(input, { principal }) {
+      const parsed = parseBacktestRequest(input);
+      if (!('request' in parsed)) throw invalid(parsed.problems);
+      const provider = services.marketData();
+      for (const symbol of parsed.request.config.symbols) {
+        await requireSymbol(provider, symbol);
+      }
+      try {
+        return toListItem(
+          await executeBacktest(accountIdOf(principal), parsed.request, {
+            provider,
+          })
+        );
+      } catch (error) {
+        if (error instanceof BacktestError) throw invalid([error.message]);
+        if (error instanceof StrategyError) {
+          if (['INVALID_PARAMS', 'NOT_FOUND'].includes(error.code)) {
+            throw invalid([error.message]);
+          }
+          throw new AgentError('TOOL_FAILED', error.message, [error.code]);
+        }
+        throw error;
+      }
+    },
+  };
+
+  const placeOrder: Tool = {
+    name: 'place_order',
+    description:
+      'Places an order on the paper broker after the same risk checks as any other order. Orders that fail them come back with status rejected and rejectReasons.',
+    scope: 'trade',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        symbol: symbolSchema,
+        side: { type: 'string', enum: ['buy', 'sell'] },
+        quantity: { type: 'number', minimum: 0 },
+        type: { type: 'string', enum: BROKER_ORDER_TYPES, default: 'market' },
+        limitPrice: { type: 'number' },
+        stopPrice: { type: 'number' },
+        trailAmount: { type: 'number' },
+        trailPercent: { type: 'number' },
+        timeInForce: { type: 'string', enum: TIME_IN_FORCE, default: 'day' },
+        clientOrderId: {
+          type: 'string',
+          description: 'Makes retries safe: the same id places one order',
+        },
+        takeProfit: {
+          type: 'object',
+          properties: { limitPrice: { type: 'number' } },
+          required: ['limitPrice'],
+        },
+        stopLoss: {
+          type: 'object',
+          properties: {
+            stopPrice: { type: 'number' },
+            limitPrice: { type: 'number' },
+          },
+          required: ['stopPrice'],
+        },
+      },
+      required: ['symbol', 'side', 'quantity'],
+      additionalProperties: false,
+    },
+    outputSchema: orderSchema,
+    async run(input, { principal }) {
+      const parsed = parseCreateOrder(input);
+      if (!('order' in parsed)) throw invalid(parsed.problems);
+      await requireSymbol(services.marketData(), parsed.order.symbol);
+      const order = { ...parsed.order, accountId: accountIdOf(principal) };
+      try {
+        return (await services.orders().create(order)).order;
+      } catch (error) {
+        if (error instanceof OmsError) {
+          throw new AgentError('TOOL_FAILED', error.message, [error.code]);
+        }
+        throw error;
+      }
+    },
+  };
+
+  const remember: Tool = {
+    name: 'remember',
+    description:
+      'Records a note, thesis or trade rationale, linked to the symbols, orders and backtests it is about, for recall later. Record why you place an order.',
+    scope: 'trade',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', enum: MEMORY_KINDS, default: 'note' },
+        title: { type: 'string', maxLength: 200 },
+        text: { type: 'string', minLength: 1, maxLength: 20_000 },
+        tags: stringListSchema,
+        symbols: stringListSchema,
+        orderIds: stringListSchema,
+        backtestIds: stringListSchema,
+      },
+      required: ['text'],
+      additionalProperties: false,
+    },
+    outputSchema: memorySchema,
+    async run(input, { principal }) {
+      const parsed = parseMemory(input);
+      if (!('memory' in parsed)) throw invalid(parsed.problems);
+      return services.memory().add(principal.user.id, parsed.memory, 'agent');
+    },
+  };
+
+  const recall: Tool<{
+    query?: string;
+    kinds?: MemoryKind[];
+    tags?: string[];
+    symbols?: string[];
+    orderId?: string;
+    backtestId?: string;
+    start?: string | number;
+    end?: string | number;
+    limit?: number;
+  }> = {
+    name: 'recall',
+    description:
+      'Searches the notes, theses and trade rationales you and your user recorded, by relevance to `query`, or lists them newest first. Check why a position was opened before proposing to change it.',
+    scope: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, maxLength: 1_000 },
+        kinds: {
+          type: 'array',
+          items: { type: 'string', enum: MEMORY_KINDS },
+        },
+        tags: { ...stringListSchema, description: 'Matches carry all of them' },
+        symbols: {
+          ...stringListSchema,
+          description: 'Matches are about at least one of them',
+        },
+        orderId: { type: 'string', minLength: 1 },
+        backtestId: { type: 'string', minLength: 1 },
+        start: timeSchema,
+        end: timeSchema,
+        limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+      },
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        total: { type: 'integer' },
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              memory: memorySchema,
+              score: { type: ['number', 'null'] },
+            },
+          },
+        },
+      },
+      required: ['total', 'results'],
+    },
+    async run(input, { principal }) {
+      return services.memory().search(principal.user.id, {
+        text: input.query,
+        kinds: input.kinds,
+        tags: input.tags?.map(tag => tag.trim().toLowerCase()),
+        symbols: input.symbols?.map(symbol => symbol.trim().toUpperCase()),
+        orderId: input.orderId,
+        backtestId: input.backtestId,
+        start: timeOf(input.start, 'start'),
+        end: timeOf(input.end, 'end'),
+        limit: input.limit,
+      });
+    },
+  };
+
+  return [
+    getQuote,
+    getBars,
+    getIndicator,
+    screenStocks,
+    getPortfolio,
+    forecast,
+    runBacktest,
+    placeOrder,
+    remember,
+    recall,
+  ];
+}
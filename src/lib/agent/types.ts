@@ -0,0 +1,95 @@
+import type { Principal, Scope } from '../auth/types';
+
+export type JsonType =
+  'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * The subset of JSON Schema the tools are described, and their inputs
+ * checked, with.
+ */
+export interface JsonSchema {
+  /** One type, or any of several, e.g. `['number', 'null']`. */
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  /** Documents the value a tool uses when the property is left out. */
+  default?: unknown;
+}
+
+/** Who is calling a tool. */
+export interface ToolContext {
+  principal: Principal;
+}
+
+/**
+ * A platform capability an agent can call. Input is checked against
+ * `inputSchema` before `run` sees it; callers need `scope`.
+ */
+export interface Tool<Input = Record<string, unknown>, Output = unknown> {
+  name: string;
+  description: string;
+  scope: Scope;
+  inputSchema: JsonSchema;
+  outputSchema: JsonSchema;
+  run(input: Input, context: ToolContext): Promise<Output>;
+}
+
+/** A tool as discovery lists it. */
+export interface ToolDescriptor {
+  name: string;
+  description: string;
+  scope: Scope;
+  /** Whether the caller holds `scope`. */
+  allowed: boolean;
+  inputSchema: JsonSchema;
+  outputSchema: JsonSchema;
+}
+
+export type InvocationOutcome = 'ok' | 'denied' | 'invalid' | 'failed';
+
+/** One tool call, kept whether or not it went through. */
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  userId: string;
+  /** The session or API token the call was made with. */
+  credentialId: string;
+  tool: string;
+  input: unknown;
+  /** Set when `input` was too long to keep whole: it is then cut JSON. */
+  inputTruncated?: boolean;
+  outcome: InvocationOutcome;
+  error?: string;
+  durationMs: number;
+}
+
+export interface Invocation<Output = unknown> {
+  id: string;
+  tool: string;
+  output: Output;
+  durationMs: number;
+}
+
+export type AgentErrorCode =
+  'UNKNOWN_TOOL' | 'FORBIDDEN' | 'INVALID_INPUT' | 'NOT_FOUND' | 'TOOL_FAILED';
+
+export class AgentError extends Error {
+  constructor(
+    readonly code: AgentErrorCode,
+    message: string,
+    readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = 'AgentError';
+  }
+}
@@ -0,0 +1,298 @@
+import {
+  INDICATOR_TYPES,
+  createIndicator,
+  type IndicatorSpec,
+  type IndicatorValue,
+} from '../indicators/registry';
+import { IndicatorError } from '../indicators/types';
+import { TIMEFRAMES } from '../marketdata/timeframes';
+import { Validator } from '../validation';
+import {
+  ALERT_CONDITION_TYPES,
+  ALERT_OPERATORS,
+  type Alert,
+  type AlertChannel,
+  type AlertChanges,
+  type AlertCondition,
+  type AlertInput,
+  type AlertOperator,
+} from './types';
+
+const DEFAULT_COOLDOWN_MS = 5 * 60_000;
+const MAX_CHANNELS = 5;
+
+/** The line compared when a multi-line indicator names no `field`. */
+const MAIN_FIELD: Record<string, string> = {
+  macd: 'macd',
+  bbands: 'middle',
+  stoch: 'k',
+};
+
+/** The number an indicator value stands for, or `undefined` if none. */
+export function indicatorField(
+  value: IndicatorValue,
+  field?: string
+): number | undefined {
+  if (typeof value === 'number') return field ? undefined : value;
+  const lines = value as unknown as Record<string, number>;
+  if (field) return lines[field];
+  const main = Object.keys(MAIN_FIELD)
+    .map(type => MAIN_FIELD[type])
+    .find(name => name in lines);
+  return main === undefined ? undefined : lines[main];
+}
+
+/**
+ * Whether `operator` holds for `current`. Crossings need the previous
+ * evaluation and only count when the left side was not yet past the right.
+ */
+export function matches(
+  operator: AlertOperator,
+  current: { left: number; right: number },
+  previous: { left: number; right: number } | null
+): boolean {
+  switch (operator) {
+    case 'above':
+      return current.left > current.right;
+    case 'below':
+      return current.left < current.right;
+    case 'crosses_above':
+      return (
+        previous !== null &&
+        previous.left <= previous.right &&
+        current.left > current.right
+      );
+    case 'crosses_below':
+      return (
+        previous !== null &&
+        previous.left >= previous.right &&
+        current.left < current.right
+      );
+  }
+}
+
+function describeIndicator(spec: IndicatorSpec, field?: string): string {
+  const params = Object.entries(spec)
+    .filter(([key]) => key !== 'type')
+    .map(([, value]) => value)
+    .join(', ');
+  const name = `${spec.type.toUpperCase()}${params ? `(${params})` : ''}`;
+  return field ? `${name}.${field}` : name;
+}
+
+const OPERATOR_WORDS: Record<AlertOperator, string> = {
+  above: 'is above',
+  below: 'is below',
+  crosses_above: 'crossed above',
+  crosses_below: 'crossed below',
+};
+
+/** A sentence describing the condition, e.g. `AAPL crossed above SMA(200)`. */
+export function describeCondition(
+  symbol: string,
+  condition: AlertCondition
+): string {
+  switch (condition.type) {
+    case 'price':
+      return `${symbol} ${OPERATOR_WORDS[condition.operator]} ${condition.value}`;
+    case 'indicator':
+      return (
+        `${symbol} ${describeIndicator(condition.indicator, condition.field)} ` +
+        `${OPERATOR_WORDS[condition.operator]} ${condition.value}`
+      );
+    case 'price_indicator':
+      return (
+        `${symbol} ${OPERATOR_WORDS[condition.operator]} ` +
+        describeIndicator(condition.indicator, condition.field)
+      );
+    case 'position_loss':
+      return `${symbol} position is down more than ${condition.percent}%`;
+    case 'volume_spike':
+      return (
+        `${symbol} volume is over ${condition.multiplier}x its ` +
+        `${condition.period}-bar average`
+      );
+  }
+}
+
+/** Whether the condition can change between bars. */
+export function evaluatesOnTicks(condition: AlertCondition): boolean {
+  return (
+    condition.type === 'price' ||
+    condition.type === 'price_indicator' ||
+    condition.type === 'position_loss'
+  );
+}
+
+function parseIndicator(
+  fields: Validator,
+  key: string
+): IndicatorSpec | undefined {
+  const nested = fields.object(key, true);
+  if (!nested) return undefined;
+  const type = nested.oneOf('type', INDICATOR_TYPES, true);
+  if (!type) return undefined;
+  const spec = { ...nested.values, type } as IndicatorSpec;
+  try {
+    createIndicator(spec);
+  } catch (error) {
+    if (!(error instanceof IndicatorError)) throw error;
+    fields.fail(key, `is invalid: ${error.message}`);
+    return undefined;
+  }
+  return spec;
+}
+
+function parseCondition(fields: Validator): AlertCondition | undefined {
+  const nested = fields.object('condition', true);
+  if (!nested) return undefined;
+  const type = nested.oneOf('type', ALERT_CONDITION_TYPES, true);
+  const operator = () => nested.oneOf('operator', ALERT_OPERATORS, true);
+  let condition: AlertCondition | undefined;
+  switch (type) {
+    case 'price': {
+      const op = operator();
+      const value = nested.number('value', true, { min: Number.MIN_VALUE });
+      if (op && value !== undefined) condition = { type, operator: op, value };
+      break;
+    }
+    case 'indicator': {
+      const indicator = parseIndicator(nested, 'indicator');
+      const field = nested.string('field');
+      const op = operator();
+      const value = nested.number('value', true);
+      if (indicator && op && value !== undefined) {
+        condition = { type, indicator, field, operator: op, value };
+      }
+      break;
+    }
+    case 'price_indicator': {
+      const indicator = parseIndicator(nested, 'indicator');
+      const field = nested.string('field');
+      const op = operator();
+      if (indicator && op) {
+        condition = { type, indicator, field, operator: op };
+      }
+      break;
+    }
+    case 'position_loss': {
+      const percent = nested.number('percent', true, {
+        min: Number.MIN_VALUE,
+        max: 100,
+      });
+      if (percent !== undefined) condition = { type, percent };
+      break;
+    }
+    case 'volume_spike': {
+      const multiplier = nested.number('multiplier', true, { min: 1 });
+      const period = nested.integer('period', false, { min: 1, max: 500 });
+      if (multiplier !== undefined) {
+        condition = { type, multiplier, period: period ?? 20 };
+      }
+      break;
+    }
+  }
+  if (condition && 'field' in condition && condition.field === undefined) {
+    delete condition.field;
+  }
+  return condition;
+}
+
+function parseChannels(fields: Validator): AlertChannel[] | undefined {
+  const raw = fields.raw('channels');
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_CHANNELS) {
+    fields.fail(
+      'channels',
+      `must be an array of 1 to ${MAX_CHANNELS} channels`
+    );
+    return undefined;
+  }
+  const channels: AlertChannel[] = [];
+  raw.forEach((item, index) => {
+    const channel = new Validator(item, `channels[${index}]`, fields.problems);
+    const type = channel.oneOf('type', ['in_app', 'webhook'] as const, true);
+    if (type === 'in_app') channels.push({ type });
+    if (type !== 'webhook') return;
+    const url = channel.string('url', true);
+    const secret = channel.string('secret');
+    if (url && !/^https?:\/\/[^\s]+$/i.test(url)) {
+      channel.fail('url', 'must be an http(s) URL');
+      return;
+    }
+    if (url) channels.push(secret ? { type, url, secret } : { type, url });
+  });
+  return channels;
+}
+
+/**
+ * Validates an alert as sent to `POST /api/v1/alerts`, filling in
+ * defaults: daily bars, evaluation on ticks where the condition allows it,
+ * recurring with a five-minute cooldown, in-app notifications.
+ */
+export function parseAlertInput(
+  input: unknown
+): { alert: AlertInput; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const name = fields.string('name');
+  const symbol = fields.string('symbol', true);
+  const timeframe = fields.oneOf('timeframe', TIMEFRAMES) ?? '1d';
+  const condition = parseCondition(fields);
+  const evaluateOn = fields.oneOf('evaluateOn', ['tick', 'bar_close'] as const);
+  const mode = fields.oneOf('mode', ['once', 'recurring'] as const);
+  const cooldownMs = fields.integer('cooldownMs', false, { min: 0 });
+  const channels = parseChannels(fields);
+
+  if (condition && evaluateOn === 'tick' && !evaluatesOnTicks(condition)) {
+    fields.fail('evaluateOn', `cannot be tick for ${condition.type} alerts`);
+  }
+  if (!fields.valid || !symbol || !condition) {
+    return { problems: fields.problems };
+  }
+  const alert: AlertInput = {
+    name,
+    symbol: symbol.trim().toUpperCase(),
+    timeframe,
+    condition,
+    evaluateOn:
+      evaluateOn ?? (evaluatesOnTicks(condition) ? 'tick' : 'bar_close'),
+    mode: mode ?? 'recurring',
+    cooldownMs: cooldownMs ?? DEFAULT_COOLDOWN_MS,
+    channels: channels ?? [{ type: 'in_app' }],
+  };
+  if (alert.name === undefined) delete alert.name;
+  return { problems: [], alert };
+}
+
+/** Validates the changes sent to `PATCH /api/v1/alerts/:id`. */
+export function parseAlertChanges(
+  input: unknown
+): { changes: AlertChanges; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const changes: AlertChanges = {};
+  const name = fields.string('name');
+  const status = fields.oneOf('status', ['active', 'disabled'] as const);
+  const cooldownMs = fields.integer('cooldownMs', false, { min: 0 });
+  const channels = parseChannels(fields);
+  if (name !== undefined) changes.name = name;
+  if (status !== undefined) changes.status = status;
+  if (cooldownMs !== undefined) changes.cooldownMs = cooldownMs;
+  if (channels !== undefined) changes.channels = channels;
+  if (fields.valid && Object.keys(changes).length === 0) {
+    fields.fail('body', 'must change name, status, cooldownMs or channels');
+  }
+  if (!fields.valid) return { problems: fields.problems };
+  return { problems: [], changes };
+}
+
+/** The alert as clients see it: webhook secrets are never echoed. */
+export function toPublicAlert(alert: Alert): Alert {
+  return {
+    ...alert,
+    channels: alert.channels.map(channel =>
+      channel.type === 'webhook'
+        ? { type: channel.type, url: channel.url }
+        : channel
+    ),
+  };
+}
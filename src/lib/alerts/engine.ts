@@ -0,0 +1,528 @@
+import { randomUUID } from 'node:crypto';
+import { createIndicator, type IndicatorValue } from '../indicators/registry';
+import type { Indicator } from '../indicators/types';
+import { BarBuilder } from '../marketdata/bar-builder';
+import {
+  bucketFor,
+  compareTimeframes,
+  timeframeMs,
+} from '../marketdata/timeframes';
+import type { Bar, BarQuery, Quote, Timeframe } from '../marketdata/types';
+import { describeCondition, indicatorField, matches } from './conditions';
+import type { Notifier } from './notifiers';
+import type { AlertStore, NotificationQuery } from './store';
+import {
+  AlertError,
+  type Alert,
+  type AlertChanges,
+  type AlertEngineEvent,
+  type AlertInput,
+  type AlertOperator,
+  type AlertTrigger,
+  type Delivery,
+  type Notification,
+} from './types';
+
+export type AlertListener = (event: AlertEngineEvent) => void;
+
+/** What `position_loss` alerts need to know about an open position. */
+export interface PositionCost {
+  /** Negative when short. */
+  quantity: number;
+  averageCost: number;
+}
+
+export interface AlertEngineOptions {
+  store: AlertStore;
+  notifiers?: Notifier[];
+  /** Closed bars, oldest first, to warm indicators and volume averages. */
+  history?: (symbol: string, query: BarQuery) => Promise<Bar[]>;
+  /** The user's open position in `symbol`, if any. */
+  position?: (userId: string, symbol: string) => Promise<PositionCost | null>;
+  /** Bars of history loaded per alert. Defaults to 250. */
+  warmupBars?: number;
+  clock?: () => number;
+}
+
+interface Sides {
+  left: number;
+  right: number;
+}
+
+/** What an alert remembers between evaluations. */
+interface AlertState {
+  indicator: Indicator<IndicatorValue> | null;
+  /** The indicator as of the last closed bar; `null` while warming up. */
+  indicatorValue: number | null;
+  /** Volumes of the latest closed bars, oldest first. */
+  volumes: number[];
+  lastBarAt: number | null;
+  /** The sides last compared, so crossings can be detected. */
+  previous: Sides | null;
+}
+
+/**
+ * Evaluates users' alerts against quotes and closed bars. Alerts are
+ * evaluated either on every quote or when a bar of their timeframe
+ * closes; finer bars are rolled up into their timeframe. Indicators are
+ * warmed up from history the first time an alert is evaluated.
+ *
+ * A triggered alert records a trigger in its history and is delivered
+ * on each of its channels; one-shot alerts then become `triggered`, and
+ * recurring ones stay quiet for their cooldown.
+ */
+export class AlertEngine {
+  private readonly store: AlertStore;
+  private readonly notifiers = new Map<string, Notifier>();
+  private readonly history: NonNullable<AlertEngineOptions['history']>;
+  private readonly position: NonNullable<AlertEngineOptions['position']>;
+  private readonly warmupBars: number;
+  private readonly clock: () => number;
+  private readonly listeners = new Set<AlertListener>();
+  private readonly alerts = new Map<string, Alert>();
+  private readonly states = new Map<string, Promise<AlertState>>();
+  /** Bars being rolled up, by symbol and timeframe. */
+  private readonly builders = new Map<string, BarBuilder>();
+  private readonly deliveries = new Set<Promise<void>>();
+  private loaded: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: AlertEngineOptions) {
+    this.store = options.store;
+    (options.notifiers ?? []).forEach(notifier =>
+      this.notifiers.set(notifier.channel, notifier)
+    );
+    this.history = options.history ?? (async () => []);
+    this.position = options.position ?? (async () => null);
+    this.warmupBars = options.warmupBars ?? 250;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  async create(userId: string, input: AlertInput): Promise<Alert> {
+    return this.serially(async () => {
+      const now = this.clock();
+      const alert: Alert = {
+        ...input,
+        id: randomUUID(),
+        userId,
+        status: 'active',
+        createdAt: now,
+        updatedAt: now,
+        lastTriggeredAt: null,
+        triggerCount: 0,
+      };
+      await this.store.saveAlert(alert);
+      this.alerts.set(alert.id, alert);
+      this.emit({ type: 'changed' });
+      return { ...alert };
+    });
+  }
+
+  async get(userId: string, id: string): Promise<Alert> {
+    return { ...(await this.owned(userId, id)) };
+  }
+
+  /** The user's alerts, most recent first. */
+  async list(userId: string): Promise<Alert[]> {
+    await this.load();
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(alert => ({ ...alert }));
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    changes: AlertChanges
+  ): Promise<Alert> {
+    return this.serially(async () => {
+      const alert = { ...(await this.owned(userId, id)), ...changes };
+      alert.updatedAt = this.clock();
+      if (changes.status === 'active') {
+        // A re-armed alert starts afresh, so a crossing has to happen anew.
+        const state = this.states.get(id);
+        if (state) (await state).previous = null;
+      }
+      await this.store.saveAlert(alert);
+      this.alerts.set(id, alert);
+      this.emit({ type: 'changed' });
+      return { ...alert };
+    });
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    return this.serially(async () => {
+      await this.owned(userId, id);
+      await this.store.deleteAlert(id);
+      this.alerts.delete(id);
+      this.states.delete(id);
+      this.emit({ type: 'changed' });
+    });
+  }
+
+  /** The alert's triggers, most recent first. */
+  async triggers(
+    userId: string,
+    id: string,
+    limit?: number
+  ): Promise<AlertTrigger[]> {
+    await this.owned(userId, id);
+    return this.store.listTriggers(id, limit);
+  }
+
+  async notifications(
+    userId: string,
+    query?: NotificationQuery
+  ): Promise<Notification[]> {
+    return this.store.listNotifications(userId, query);
+  }
+
+  async markNotification(
+    userId: string,
+    id: string,
+    read: boolean
+  ): Promise<Notification> {
+    const notification = await this.store.getNotification(id);
+    if (!notification || notification.userId !== userId) {
+      throw new AlertError('NOT_FOUND', `Notification ${id} not found`);
+    }
+    const marked = {
+      ...notification,
+      readAt: read ? (notification.readAt ?? this.clock()) : null,
+    };
+    await this.store.saveNotification(marked);
+    return marked;
+  }
+
+  /** Symbols with active alerts, which the market feed should watch. */
+  async symbols(): Promise<string[]> {
+    await this.load();
+    const symbols = new Set<string>();
+    this.alerts.forEach(alert => {
+      if (alert.status === 'active') symbols.add(alert.symbol);
+    });
+    return Array.from(symbols).sort();
+  }
+
+  subscribe(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Evaluates the symbol's `tick` alerts against the quote's last price. */
+  onQuote(quote: Quote): Promise<void> {
+    return this.serially(async () => {
+      if (!(quote.last > 0)) return;
+      const alerts = await this.activeAlerts(quote.symbol);
+      for (const alert of alerts) {
+        if (alert.evaluateOn !== 'tick') continue;
+        await this.evaluate(alert, await this.state(alert), quote.last, null);
+      }
+    });
+  }
+
+  /**
+   * Takes a bar of `timeframe` that has closed. It updates alerts of the
+   * same timeframe right away, and the rolled-up bars of coarser
+   * timeframes once they are complete.
+   */
+  onBar(timeframe: Timeframe, bar: Bar): Promise<void> {
+    return this.serially(async () => {
+      const alerts = await this.activeAlerts(bar.symbol);
+      const closed = this.rollUp(
+        timeframe,
+        bar,
+        alerts.map(alert => alert.timeframe)
+      );
+      for (const alert of alerts) {
+        const closedBar = closed.get(alert.timeframe);
+        if (!closedBar) continue;
+        const state = await this.state(alert);
+        if (
+          state.lastBarAt !== null &&
+          closedBar.timestamp <= state.lastBarAt
+        ) {
+          continue;
+        }
+        const averageVolume = this.closeBar(alert, state, closedBar);
+        if (alert.evaluateOn === 'bar_close') {
+          await this.evaluate(alert, state, closedBar.close, {
+            volume: closedBar.volume,
+            averageVolume,
+          });
+        }
+      }
+    });
+  }
+
+  /** Resolves once queued evaluations and deliveries have finished. */
+  async idle(): Promise<void> {
+    await this.queue;
+    await Promise.all(Array.from(this.deliveries));
+  }
+
+  /**
+   * Closed bars of each wanted timeframe that `bar` completes. Bars of a
+   * coarser timeframe than the one wanted are of no use and ignored.
+   */
+  private rollUp(
+    timeframe: Timeframe,
+    bar: Bar,
+    wanted: Timeframe[]
+  ): Map<Timeframe, Bar> {
+    const closed = new Map<Timeframe, Bar>();
+    wanted.forEach(target => {
+      if (closed.has(target) || compareTimeframes(timeframe, target) > 0) {
+        return;
+      }
+      if (target === timeframe) {
+        closed.set(target, bar);
+        return;
+      }
+      const key = `${bar.symbol}:${target}`;
+      const bucket = bucketFor(bar.timestamp, target, { session: null })!;
+      let builder = this.builders.get(key);
+      if (builder && builder.start !== bucket.start) {
+        if (builder.start < bucket.start) closed.set(target, builder.build());
+        builder = undefined;
+      }
+      builder ??= new BarBuilder(bar.symbol, bucket.start, bucket.end);
+      builder.addBar(bar);
+      if (bar.timestamp + timeframeMs(timeframe) >= bucket.end) {
+        closed.set(target, builder.build());
+        this.builders.delete(key);
+      } else {
+        this.builders.set(key, builder);
+      }
+    });
+    return closed;
+  }
+
+  /**
+   * Feeds a closed bar to the alert's indicator and volume window.
+   * Returns the average volume of the bars before it, once there are
+   * enough of them.
+   */
+  private closeBar(alert: Alert, state: AlertState, bar: Bar): number | null {
+    state.lastBarAt = bar.timestamp;
+    const { condition } = alert;
+    if (state.indicator && 'indicator' in condition) {
+      const value = state.indicator.update(bar);
+      state.indicatorValue =
+        value === null
+          ? null
+          : (indicatorField(value, condition.field) ?? null);
+    }
+    if (condition.type !== 'volume_spike') return null;
+    const { volumes } = state;
+    const average =
+      volumes.length >= condition.period
+        ? volumes.reduce((sum, v) => sum + v, 0) / volumes.length
+        : null;
+    volumes.push(bar.volume);
+    volumes.splice(0, Math.max(0, volumes.length - condition.period));
+    return average;
+  }
+
+  private async evaluate(
+    alert: Alert,
+    state: AlertState,
+    price: number,
+    bar: { volume: number; averageVolume: number | null } | null
+  ): Promise<void> {
+    const { condition } = alert;
+    let operator: AlertOperator = 'above';
+    let current: Sides | null = null;
+    switch (condition.type) {
+      case 'price':
+        operator = condition.operator;
+        current = { left: price, right: condition.value };
+        break;
+      case 'indicator':
+        operator = condition.operator;
+        if (state.indicatorValue !== null) {
+          current = { left: state.indicatorValue, right: condition.value };
+        }
+        break;
+      case 'price_indicator':
+        operator = condition.operator;
+        if (state.indicatorValue !== null) {
+          current = { left: price, right: state.indicatorValue };
+        }
+        break;
+      case 'position_loss': {
+        const position = await this.position(alert.userId, alert.symbol);
+        if (position && position.quantity !== 0 && position.averageCost > 0) {
+          const change = (price - position.averageCost) / position.averageCost;
+          const loss = -Math.sign(position.quantity) * change * 100;
+          current = { left: loss, right: condition.percent };
+        }
+        break;
+      }
+      case 'volume_spike':
+        if (bar && bar.averageVolume !== null && bar.averageVolume > 0) {
+          current = {
+            left: bar.volume,
+            right: bar.averageVolume * condition.multiplier,
+          };
+        }
+        break;
+    }
+    if (!current) return;
+    const previous = state.previous;
+    state.previous = current;
+    if (!matches(operator, current, previous)) return;
+
+    const now = this.clock();
+    if (
+      alert.lastTriggeredAt !== null &&
+      now - alert.lastTriggeredAt < alert.cooldownMs
+    ) {
+      return;
+    }
+    await this.trigger(alert, current, now);
+  }
+
+  private async trigger(alert: Alert, observed: Sides, now: number) {
+    alert.lastTriggeredAt = now;
+    alert.triggerCount += 1;
+    alert.updatedAt = now;
+    if (alert.mode === 'once') alert.status = 'triggered';
+    await this.store.saveAlert(alert);
+
+    const trigger: AlertTrigger = {
+      id: randomUUID(),
+      alertId: alert.id,
+      userId: alert.userId,
+      symbol: alert.symbol,
+      timestamp: now,
+      message: describeCondition(alert.symbol, alert.condition),
+      observed,
+      deliveries: alert.channels.map(channel => ({
+        channel: channel.type,
+        status: 'pending',
+      })),
+    };
+    await this.store.saveTrigger(trigger);
+    this.emit({ type: 'triggered', alert: { ...alert }, trigger });
+    if (alert.status === 'triggered') this.emit({ type: 'changed' });
+
+    // Deliveries run outside the queue so a slow webhook holds up nothing.
+    const delivery = this.deliver({ ...alert }, trigger).finally(() =>
+      this.deliveries.delete(delivery)
+    );
+    this.deliveries.add(delivery);
+  }
+
+  private async deliver(alert: Alert, trigger: AlertTrigger): Promise<void> {
+    const results = await Promise.all(
+      alert.channels.map(async (channel): Promise<Delivery> => {
+        const notifier = this.notifiers.get(channel.type);
+        if (!notifier) {
+          return {
+            channel: channel.type,
+            status: 'failed',
+            error: `No notifier for ${channel.type}`,
+          };
+        }
+        try {
+          await notifier.deliver(alert, trigger, channel);
+          return { channel: channel.type, status: 'delivered' };
+        } catch (error) {
+          return {
+            channel: channel.type,
+            status: 'failed',
+            error: (error as Error).message,
+          };
+        }
+      })
+    );
+    await this.store
+      .saveTrigger({ ...trigger, deliveries: results })
+      .catch(error => console.error('Saving an alert delivery failed', error));
+  }
+
+  private state(alert: Alert): Promise<AlertState> {
+    let state = this.states.get(alert.id);
+    if (!state) {
+      state = this.warmUp(alert);
+      this.states.set(alert.id, state);
+    }
+    return state;
+  }
+
+  /** A fresh state, primed with the closed bars before now. */
+  private async warmUp(alert: Alert): Promise<AlertState> {
+    const { condition } = alert;
+    const state: AlertState = {
+      indicator:
+        'indicator' in condition ? createIndicator(condition.indicator) : null,
+      indicatorValue: null,
+      volumes: [],
+      lastBarAt: null,
+      previous: null,
+    };
+    if (!state.indicator && condition.type !== 'volume_spike') return state;
+    const limit =
+      condition.type === 'volume_spike' ? condition.period : this.warmupBars;
+    const current = bucketFor(this.clock(), alert.timeframe, {
+      session: null,
+    })!;
+    try {
+      const bars = await this.history(alert.symbol, {
+        timeframe: alert.timeframe,
+        end: current.start,
+        limit,
+      });
+      bars.forEach(bar => this.closeBar(alert, state, bar));
+    } catch (error) {
+      console.error(`Warming up alert ${alert.id} failed`, error);
+    }
+    return state;
+  }
+
+  private async activeAlerts(symbol: string): Promise<Alert[]> {
+    await this.load();
+    return Array.from(this.alerts.values()).filter(
+      alert => alert.symbol === symbol && alert.status === 'active'
+    );
+  }
+
+  private async owned(userId: string, id: string): Promise<Alert> {
+    await this.load();
+    const alert = this.alerts.get(id);
+    if (!alert || alert.userId !== userId) {
+      throw new AlertError('NOT_FOUND', `Alert ${id} not found`);
+    }
+    return alert;
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.store
+      .listAlerts()
+      .then(alerts =>
+        alerts.forEach(alert => this.alerts.set(alert.id, alert))
+      );
+    return this.loaded;
+  }
+
+  /** Runs `work` after everything queued before it. */
+  private serially<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(work);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private emit(event: AlertEngineEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Alert listener failed', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { getMarketDataProvider } from '../marketdata';
+import { getPortfolio } from '../portfolio';
+import { setSingleton, singleton } from '../singleton';
+import { getMarketFeed, getStreamHub } from '../streaming';
+import { AlertEngine } from './engine';
+import { followMarket } from './market';
+import { InAppNotifier, WebhookNotifier } from './notifiers';
+import { InMemoryAlertStore, type AlertStore } from './store';
+
+export * from './types';
+export * from './conditions';
+export * from './store';
+export * from './notifiers';
+export * from './engine';
+export * from './market';
+
+const STORE_KEY = 'alerts.store';
+const ENGINE_KEY = 'alerts.engine';
+
+export function getAlertStore(): AlertStore {
+  return singleton(STORE_KEY, () => new InMemoryAlertStore());
+}
+
+/** Overrides the shared alert store, e.g. in tests. */
+export function setAlertStore(store: AlertStore | undefined): void {
+  setSingleton(STORE_KEY, store);
+}
+
+/**
+ * The shared alert engine, following the shared market feed. Indicators
+ * warm up from the market data provider; position alerts read the
+ * portfolio. Webhooks time out after `ALERT_WEBHOOK_TIMEOUT_MS` and reach
+ * private networks only with `ALERT_WEBHOOK_ALLOW_PRIVATE=true`.
+ */
+export function getAlertEngine(): AlertEngine {
+  return singleton(ENGINE_KEY, () => {
+    const store = getAlertStore();
+    const timeoutMs = Number(process.env.ALERT_WEBHOOK_TIMEOUT_MS);
+    const engine = new AlertEngine({
+      store,
+      notifiers: [
+        new InAppNotifier(store),
+        new WebhookNotifier({
+          timeoutMs: timeoutMs > 0 ? timeoutMs : undefined,
+          allowPrivateNetworks:
+            process.env.ALERT_WEBHOOK_ALLOW_PRIVATE === 'true',
+        }),
+      ],
+      history: (symbol, query) =>
+        getMarketDataProvider().getBars(symbol, query),
+      // Each user trades in an account under their own id.
+      position: async (userId, symbol) => getPortfolio(userId).position(symbol),
+    });
+    followMarket(engine, getStreamHub(), getMarketFeed());
+    return engine;
+  });
+}
+
+/** Overrides the shared alert engine, e.g. in tests. */
+export function setAlertEngine(engine: AlertEngine | undefined): void {
+  setSingleton(ENGINE_KEY, engine);
+}
@@ -0,0 +1,68 @@
+import type { Bar, Quote, Timeframe } from '../marketdata/types';
+import type { StreamHub } from '../streaming/hub';
+import type { MarketFeed } from '../streaming/sources';
+import type { AlertEngine } from './engine';
+
+interface BarUpdate {
+  timeframe: Timeframe;
+  bar: Bar;
+}
+
+/**
+ * Feeds the engine the quotes and bars published to the hub, and keeps
+ * the market feed watching every symbol with an active alert. The feed
+ * republishes a bar as it forms, so a bar counts as closed once the next
+ * one starts. Returns a function that stops.
+ */
+export function followMarket(
+  engine: AlertEngine,
+  hub: StreamHub,
+  feed: MarketFeed
+): () => void {
+  const subscription = hub.subscribe({ channels: ['quotes', 'bars'] });
+  const forming = new Map<string, BarUpdate>();
+  void (async () => {
+    for (;;) {
+      const event = await subscription.next();
+      if (!event) return;
+      try {
+        if (event.channel === 'quotes') {
+          await engine.onQuote(event.data as Quote);
+          continue;
+        }
+        const update = event.data as BarUpdate;
+        const key = `${update.bar.symbol}:${update.timeframe}`;
+        const previous = forming.get(key);
+        forming.set(key, update);
+        if (previous && update.bar.timestamp > previous.bar.timestamp) {
+          await engine.onBar(previous.timeframe, previous.bar);
+        }
+      } catch (error) {
+        console.error('Evaluating alerts failed', error);
+      }
+    }
+  })();
+
+  let unwatch = () => {};
+  let syncing = Promise.resolve();
+  const sync = () => {
+    syncing = syncing
+      .then(() => engine.symbols())
+      .then(symbols => {
+        const stop = symbols.length > 0 ? feed.watch(symbols) : () => {};
+        unwatch();
+        unwatch = stop;
+      })
+      .catch(error => console.error('Watching alert symbols failed', error));
+  };
+  const unsubscribe = engine.subscribe(event => {
+    if (event.type === 'changed') sync();
+  });
+  sync();
+
+  return () => {
+    subscription.close();
+    unsubscribe();
+    void syncing.then(() => unwatch());
+  };
+}
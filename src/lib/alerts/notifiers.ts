@@ -0,0 +1,245 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { Agent, fetch as undiciFetch } from 'undici';
+import type { AlertStore } from './store';
+import {
+  AlertError,
+  type Alert,
+  type AlertChannel,
+  type AlertChannelType,
+  type AlertTrigger,
+} from './types';
+
+/** Delivers triggers over one kind of channel; throws when it cannot. */
+export interface Notifier {
+  readonly channel: AlertChannelType;
+  deliver(
+    alert: Alert,
+    trigger: AlertTrigger,
+    channel: AlertChannel
+  ): Promise<void>;
+}
+
+/** Adds a notification to the alert owner's in-app inbox. */
+export class InAppNotifier implements Notifier {
+  readonly channel = 'in_app';
+
+  constructor(
+    private readonly store: AlertStore,
+    private readonly clock: () => number = Date.now
+  ) {}
+
+  async deliver(alert: Alert, trigger: AlertTrigger): Promise<void> {
+    await this.store.saveNotification({
+      id: randomUUID(),
+      userId: alert.userId,
+      alertId: alert.id,
+      triggerId: trigger.id,
+      title: alert.name ?? `${alert.symbol} alert`,
+      message: trigger.message,
+      createdAt: this.clock(),
+      readAt: null,
+    });
+  }
+}
+
+export interface WebhookNotifierOptions {
+  /** Defaults to 5 seconds. */
+  timeoutMs?: number;
+  /**
+   * Lets webhooks reach loopback, private and link-local addresses, such
+   * as a local stand-in in tests. Off by default.
+   */
+  allowPrivateNetworks?: boolean;
+  /** Replaces the undici fetch that connects to the checked addresses. */
+  fetch?: typeof fetch;
+  /** Resolves a host name to its addresses. */
+  resolve?: (hostname: string) => Promise<string[]>;
+}
+
+/** Addresses that are not on the public internet. */
+const PRIVATE_NETWORKS = new BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3],
+  ] as const
+).forEach(([network, prefix]) =>
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4')
+);
+(
+  [
+    ['::', 127],
+    ['64:ff9b::', 96],
+    ['2002::', 16],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6')
+);
+
+/**
+ * Whether an address is loopback, private, link-local, multicast or
+ * otherwise off the public internet, including IPv4 ones mapped to IPv6
+ * or embedded in NAT64 and 6to4 addresses.
+ * Anything that is not an address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return addresses.map(({ address }) => address);
+}
+
+/**
+ * A socket lookup that refuses hosts resolving to a private address and
+ * otherwise hands back the addresses it checked, so the connection goes
+ * to them rather than to whatever a second lookup returns.
+ */
+function publicLookup(
+  resolve: (hostname: string) => Promise<string[]>
+): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname)
+      .then(addresses => {
+        if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+          throw new AlertError(
+            'DELIVERY_FAILED',
+            `Webhook host ${hostname} is on a private network`
+          );
+        }
+        const found = addresses.map(address => ({
+          address,
+          family: isIP(address),
+        }));
+        if (options.all) callback(null, found);
+        else callback(null, found[0].address, found[0].family);
+      })
+      .catch((error: Error) => callback(error, '', 0));
+  };
+}
+
+/** The header carrying the HMAC-SHA256 of the body, when a secret is set. */
+export const SIGNATURE_HEADER = 'X-Stocai-Signature';
+
+export function signPayload(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * POSTs `{ event: 'alert.triggered', alert, trigger }` as JSON to the
+ * channel's URL. Anything but a 2xx response counts as a failure,
+ * redirects included. Unless `allowPrivateNetworks` is set, hosts that
+ * resolve to a private address are refused, so users cannot point
+ * webhooks at the app's own network. The host is checked up front and
+ * again as the connection is made, which then uses the checked addresses.
+ */
+export class WebhookNotifier implements Notifier {
+  readonly channel = 'webhook';
+  private readonly timeoutMs: number;
+  private readonly allowPrivateNetworks: boolean;
+  private readonly fetch: typeof fetch;
+  private readonly resolve: (hostname: string) => Promise<string[]>;
+
+  constructor(options: WebhookNotifierOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 5_000;
+    this.allowPrivateNetworks = options.allowPrivateNetworks ?? false;
+    this.resolve = options.resolve ?? resolveHost;
+    this.fetch = options.fetch ?? this.pinnedFetch();
+  }
+
+  async deliver(
+    alert: Alert,
+    trigger: AlertTrigger,
+    channel: AlertChannel
+  ): Promise<void> {
+    if (channel.type !== 'webhook') return;
+    const { secret, ...target } = channel;
+    const body = JSON.stringify({
+      event: 'alert.triggered',
+      alert: { ...alert, channels: undefined },
+      trigger: { ...trigger, deliveries: undefined },
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (secret) headers[SIGNATURE_HEADER] = signPayload(secret, body);
+    if (!this.allowPrivateNetworks) await this.assertPublic(target.url);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    let response: Response;
+    try {
+      response = await this.fetch(target.url, {
+        method: 'POST',
+        headers,
+        body,
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+    } catch (error) {
+      const { cause } = error as { cause?: unknown };
+      if (cause instanceof AlertError) throw cause;
+      throw new AlertError(
+        'DELIVERY_FAILED',
+        controller.signal.aborted
+          ? `Webhook timed out after ${this.timeoutMs} ms`
+          : `Webhook is unreachable: ${(error as Error).message}`
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+    const { ok, status } = response;
+    // The body is never read; cancelling it releases the connection.
+    await response.body?.cancel().catch(() => undefined);
+    if (!ok) {
+      throw new AlertError('DELIVERY_FAILED', `Webhook responded ${status}`);
+    }
+  }
+
+  /** Fetches through sockets that only connect to checked addresses. */
+  private pinnedFetch(): typeof fetch {
+    const dispatcher = this.allowPrivateNetworks
+      ? undefined
+      : new Agent({ connect: { lookup: publicLookup(this.resolve) } });
+    return (input, init) =>
+      undiciFetch(input as string, {
+        ...(init as Parameters<typeof undiciFetch>[1]),
+        dispatcher,
+      }) as unknown as Promise<Response>;
+  }
+
+  private async assertPublic(url: string): Promise<void> {
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    try {
+      addresses = await this.resolve(hostname);
+    } catch (error) {
+      throw new AlertError(
+        'DELIVERY_FAILED',
+        `Webhook host ${hostname} does not resolve: ${(error as Error).message}`
+      );
+    }
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      throw new AlertError(
+        'DELIVERY_FAILED',
+        `Webhook host ${hostname} is on a private network`
+      );
+    }
+  }
+}
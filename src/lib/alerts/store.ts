@@ -0,0 +1,115 @@
+import type { Alert, AlertTrigger, Notification } from './types';
+
+export interface NotificationQuery {
+  unreadOnly?: boolean;
+  limit?: number;
+}
+
+/**
+ * Where alerts, the history of their triggers and the in-app
+ * notifications they produce are kept. Lists are most recent first.
+ */
+export interface AlertStore {
+  saveAlert(alert: Alert): Promise<void>;
+  getAlert(id: string): Promise<Alert | null>;
+  /** Every user's alerts without `userId`. */
+  listAlerts(userId?: string): Promise<Alert[]>;
+  deleteAlert(id: string): Promise<boolean>;
+
+  /** Adds or, with the same id, updates a trigger. */
+  saveTrigger(trigger: AlertTrigger): Promise<void>;
+  listTriggers(alertId: string, limit?: number): Promise<AlertTrigger[]>;
+
+  saveNotification(notification: Notification): Promise<void>;
+  getNotification(id: string): Promise<Notification | null>;
+  listNotifications(
+    userId: string,
+    query?: NotificationQuery
+  ): Promise<Notification[]>;
+}
+
+export interface InMemoryAlertStoreOptions {
+  /** Triggers kept per alert; older ones are dropped. Defaults to 100. */
+  historyLimit?: number;
+  /** Notifications kept per user. Defaults to 500. */
+  notificationLimit?: number;
+}
+
+export class InMemoryAlertStore implements AlertStore {
+  private readonly alerts = new Map<string, Alert>();
+  private readonly triggers = new Map<string, AlertTrigger[]>();
+  private readonly notifications = new Map<string, Notification[]>();
+  private readonly historyLimit: number;
+  private readonly notificationLimit: number;
+
+  constructor(options: InMemoryAlertStoreOptions = {}) {
+    this.historyLimit = options.historyLimit ?? 100;
+    this.notificationLimit = options.notificationLimit ?? 500;
+  }
+
+  async saveAlert(alert: Alert): Promise<void> {
+    this.alerts.set(alert.id, { ...alert });
+  }
+
+  async getAlert(id: string): Promise<Alert | null> {
+    const alert = this.alerts.get(id);
+    return alert ? { ...alert } : null;
+  }
+
+  async listAlerts(userId?: string): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => userId === undefined || alert.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(alert => ({ ...alert }));
+  }
+
+  async deleteAlert(id: string): Promise<boolean> {
+    this.triggers.delete(id);
+    return this.alerts.delete(id);
+  }
+
+  async saveTrigger(trigger: AlertTrigger): Promise<void> {
+    const history = this.triggers.get(trigger.alertId) ?? [];
+    const index = history.findIndex(t => t.id === trigger.id);
+    if (index >= 0) {
+      history[index] = trigger;
+    } else {
+      history.unshift(trigger);
+      history.splice(this.historyLimit);
+    }
+    this.triggers.set(trigger.alertId, history);
+  }
+
+  async listTriggers(alertId: string, limit?: number): Promise<AlertTrigger[]> {
+    return (this.triggers.get(alertId) ?? []).slice(0, limit);
+  }
+
+  async saveNotification(notification: Notification): Promise<void> {
+    const inbox = this.notifications.get(notification.userId) ?? [];
+    const index = inbox.findIndex(n => n.id === notification.id);
+    if (index >= 0) {
+      inbox[index] = notification;
+    } else {
+      inbox.unshift(notification);
+      inbox.splice(this.notificationLimit);
+    }
+    this.notifications.set(notification.userId, inbox);
+  }
+
+  async getNotification(id: string): Promise<Notification | null> {
+    let found: Notification | null = null;
+    this.notifications.forEach(inbox => {
+      found = found ?? inbox.find(n => n.id === id) ?? null;
+    });
+    return found;
+  }
+
+  async listNotifications(
+    userId: string,
+    query: NotificationQuery = {}
+  ): Promise<Notification[]> {
+    return (this.notifications.get(userId) ?? [])
+      .filter(n => !query.unreadOnly || n.readAt === null)
+      .slice(0, query.limit);
+  }
+}
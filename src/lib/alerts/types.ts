@@ -0,0 +1,150 @@
+import type { IndicatorSpec } from '../indicators/registry';
+import type { Timeframe } from '../marketdata/types';
+
+/**
+ * `above` and `below` hold while the left side is past the right; the
+ * `crosses_*` operators only when it got there since the last evaluation.
+ */
+export type AlertOperator =
+  'above' | 'below' | 'crosses_above' | 'crosses_below';
+
+export const ALERT_OPERATORS: readonly AlertOperator[] = [
+  'above',
+  'below',
+  'crosses_above',
+  'crosses_below',
+];
+
+/**
+ * What an alert watches. Multi-line indicators (MACD, Bollinger Bands,
+ * stochastics) compare one `field`, by default their main line.
+ */
+export type AlertCondition =
+  /** The last price against a level. */
+  | { type: 'price'; operator: AlertOperator; value: number }
+  /** An indicator against a level, e.g. RSI(14) below 30. */
+  | {
+      type: 'indicator';
+      indicator: IndicatorSpec;
+      field?: string;
+      operator: AlertOperator;
+      value: number;
+    }
+  /** The last price against an indicator, e.g. crossing the 200-day SMA. */
+  | {
+      type: 'price_indicator';
+      indicator: IndicatorSpec;
+      field?: string;
+      operator: AlertOperator;
+    }
+  /** The open position's unrealized loss, in percent of its cost. */
+  | { type: 'position_loss'; percent: number }
+  /** A bar's volume at `multiplier` times the average of the `period` before. */
+  | { type: 'volume_spike'; multiplier: number; period: number };
+
+export type AlertConditionType = AlertCondition['type'];
+
+export const ALERT_CONDITION_TYPES: readonly AlertConditionType[] = [
+  'price',
+  'indicator',
+  'price_indicator',
+  'position_loss',
+  'volume_spike',
+];
+
+/**
+ * `tick` evaluates on every quote, `bar_close` when a bar of the alert's
+ * timeframe closes. Indicator levels and volume spikes only change on bar
+ * close, so they are always evaluated then.
+ */
+export type AlertEvaluation = 'tick' | 'bar_close';
+
+/** `once` alerts stop after triggering; `recurring` ones re-arm. */
+export type AlertMode = 'once' | 'recurring';
+
+export type AlertChannel =
+  | { type: 'in_app' }
+  /** With a secret, deliveries are signed in `X-Stocai-Signature`. */
+  | { type: 'webhook'; url: string; secret?: string };
+
+export type AlertChannelType = AlertChannel['type'];
+
+/** `triggered`: a one-shot alert that has fired. */
+export type AlertStatus = 'active' | 'disabled' | 'triggered';
+
+export interface AlertInput {
+  name?: string;
+  symbol: string;
+  /** Bars indicators and volumes are computed from. Defaults to `1d`. */
+  timeframe: Timeframe;
+  condition: AlertCondition;
+  evaluateOn: AlertEvaluation;
+  mode: AlertMode;
+  /** Minimum time between triggers of a recurring alert. */
+  cooldownMs: number;
+  channels: AlertChannel[];
+}
+
+export interface Alert extends AlertInput {
+  id: string;
+  userId: string;
+  status: AlertStatus;
+  createdAt: number;
+  updatedAt: number;
+  lastTriggeredAt: number | null;
+  triggerCount: number;
+}
+
+export interface AlertChanges {
+  name?: string;
+  /** Re-arms a triggered alert when set to `active`. */
+  status?: Exclude<AlertStatus, 'triggered'>;
+  cooldownMs?: number;
+  channels?: AlertChannel[];
+}
+
+export interface Delivery {
+  channel: AlertChannelType;
+  status: 'pending' | 'delivered' | 'failed';
+  error?: string;
+}
+
+/** One time an alert fired. */
+export interface AlertTrigger {
+  id: string;
+  alertId: string;
+  userId: string;
+  symbol: string;
+  timestamp: number;
+  message: string;
+  /** The two sides compared, e.g. the price and the SMA. */
+  observed: { left: number; right: number };
+  deliveries: Delivery[];
+}
+
+export interface Notification {
+  id: string;
+  userId: string;
+  alertId: string;
+  triggerId: string;
+  title: string;
+  message: string;
+  createdAt: number;
+  readAt: number | null;
+}
+
+export type AlertEngineEvent =
+  | { type: 'changed' }
+  | { type: 'triggered'; alert: Alert; trigger: AlertTrigger };
+
+export type AlertErrorCode = 'NOT_FOUND' | 'INVALID_ALERT' | 'DELIVERY_FAILED';
+
+export class AlertError extends Error {
+  constructor(
+    readonly code: AlertErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AlertError';
+  }
+}
@@ -0,0 +1,35 @@
+import { loadBars } from '../marketdata/bars';
+import type { MarketDataProvider } from '../marketdata/provider';
+import { TIMEFRAMES, timeframeMs } from '../marketdata/timeframes';
+import type { Timeframe } from '../marketdata/types';
+import type { SeriesPoint } from './types';
+
+/** Reach back this far so the curve's first point has a price to compare. */
+const LOOKBACK_MS = 7 * 86_400_000;
+
+/** The coarsest timeframe no longer than the curve's median spacing. */
+function timeframeFor(curve: { timestamp: number }[]): Timeframe {
+  const gaps = curve
+    .slice(1)
+    .map((point, i) => point.timestamp - curve[i].timestamp)
+    .sort((a, b) => a - b);
+  if (gaps.length === 0) return '1d';
+  const gap = gaps[Math.floor(gaps.length / 2)];
+  const fitting = TIMEFRAMES.filter(tf => timeframeMs(tf) <= gap);
+  return fitting.length > 0 ? fitting[fitting.length - 1] : TIMEFRAMES[0];
+}
+
+/** Closing prices of `symbol` over the span of `curve`, at its spacing. */
+export async function loadBenchmark(
+  provider: MarketDataProvider,
+  symbol: string,
+  curve: { timestamp: number }[]
+): Promise<SeriesPoint[]> {
+  if (curve.length === 0) return [];
+  const { bars } = await loadBars(provider, symbol, {
+    timeframe: timeframeFor(curve),
+    start: curve[0].timestamp - LOOKBACK_MS,
+    end: curve[curve.length - 1].timestamp,
+  });
+  return bars.map(bar => ({ timestamp: bar.timestamp, value: bar.close }));
+}
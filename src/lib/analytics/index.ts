@@ -0,0 +1,3 @@
+export * from './types';
+export * from './performance';
+export * from './benchmark';
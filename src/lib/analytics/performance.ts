@@ -0,0 +1,288 @@
+import type {
+  EquitySample,
+  PerformanceMetrics,
+  PerformanceOptions,
+  SeriesPoint,
+} from './types';
+
+const DAY_MS = 86_400_000;
+const YEAR_MS = 365.25 * DAY_MS;
+const TRADING_DAYS = 252;
+/** Regular US session, for annualizing intraday curves. */
+const SESSION_MS = 6.5 * 60 * 60_000;
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Sample standard deviation; `null` for fewer than two values. */
+function stdev(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const m = mean(values);
+  const variance =
+    values.reduce((sum, value) => sum + (value - m) ** 2, 0) /
+    (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+const ratio = (numerator: number, denominator: number | null) =>
+  denominator ? numerator / denominator : null;
+
+/**
+ * Return periods per year implied by the median spacing of the curve:
+ * 252 for daily points, 52 weekly, 12 monthly, and trading-session
+ * fractions for intraday curves.
+ */
+export function inferPeriodsPerYear(curve: { timestamp: number }[]): number {
+  if (curve.length < 2) return TRADING_DAYS;
+  const gaps = curve
+    .slice(1)
+    .map((point, i) => point.timestamp - curve[i].timestamp)
+    .sort((a, b) => a - b);
+  const gap = gaps[Math.floor(gaps.length / 2)];
+  if (gap >= 25 * DAY_MS) return 12;
+  if (gap >= 5 * DAY_MS) return 52;
+  if (gap >= 0.5 * DAY_MS) return TRADING_DAYS;
+  return (TRADING_DAYS * SESSION_MS) / Math.max(gap, 1);
+}
+
+export function periodReturns(curve: EquitySample[]): number[] {
+  return curve
+    .slice(1)
+    .map((point, i) =>
+      curve[i].equity !== 0 ? point.equity / curve[i].equity - 1 : 0
+    );
+}
+
+export function drawdown(curve: EquitySample[]): {
+  maxDrawdown: number;
+  maxDrawdownDuration: number;
+} {
+  let peak = curve.length > 0 ? curve[0] : null;
+  let maxDrawdown = 0;
+  let maxDrawdownDuration = 0;
+  for (const point of curve) {
+    if (point.equity >= peak!.equity) {
+      peak = point;
+      continue;
+    }
+    maxDrawdown = Math.max(maxDrawdown, 1 - point.equity / peak!.equity);
+    maxDrawdownDuration = Math.max(
+      maxDrawdownDuration,
+      point.timestamp - peak!.timestamp
+    );
+  }
+  return { maxDrawdown, maxDrawdownDuration };
+}
+
+/** The last benchmark value at or before each timestamp. */
+function alignSeries(
+  timestamps: number[],
+  series: SeriesPoint[]
+): (number | null)[] {
+  const sorted = series.slice().sort((a, b) => a.timestamp - b.timestamp);
+  let index = -1;
+  return timestamps.map(timestamp => {
+    while (
+      index + 1 < sorted.length &&
+      sorted[index + 1].timestamp <= timestamp
+    ) {
+      index++;
+    }
+    return index >= 0 ? sorted[index].value : null;
+  });
+}
+
+/** `prices` is the benchmark aligned to each point of `curve`. */
+function benchmarkStats(
+  curve: EquitySample[],
+  prices: (number | null)[],
+  riskFree: number,
+  periodsPerYear: number
+): Pick<PerformanceMetrics, 'beta' | 'alpha' | 'benchmarkReturn'> {
+  const ours: number[] = [];
+  const theirs: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    const before = prices[i - 1];
+    const after = prices[i];
+    if (!before || after === null || curve[i - 1].equity === 0) continue;
+    ours.push(curve[i].equity / curve[i - 1].equity - 1);
+    theirs.push(after / before - 1);
+  }
+  const first = prices.find(price => price !== null);
+  const last = prices[prices.length - 1];
+  const benchmarkReturn = first && last !== null ? last / first - 1 : null;
+
+  const spread = stdev(theirs);
+  if (ours.length < 2 || !spread) {
+    return { beta: null, alpha: null, benchmarkReturn };
+  }
+  const ourMean = mean(ours);
+  const theirMean = mean(theirs);
+  const covariance =
+    ours.reduce(
+      (sum, value, i) => sum + (value - ourMean) * (theirs[i] - theirMean),
+      0
+    ) /
+    (ours.length - 1);
+  const beta = covariance / spread ** 2;
+  const alpha =
+    (ourMean - riskFree - beta * (theirMean - riskFree)) * periodsPerYear;
+  return { beta, alpha, benchmarkReturn };
+}
+
+/**
+ * Performance and risk metrics of any equity curve: a backtest's, or a
+ * live portfolio's recorded history. Points must be in time order.
+ */
+export function computePerformance(
+  curve: EquitySample[],
+  options: PerformanceOptions = {}
+): PerformanceMetrics {
+  const prices = options.benchmark?.length
+    ? alignSeries(
+        curve.map(point => point.timestamp),
+        options.benchmark
+      )
+    : null;
+  return measure(curve, options, prices);
+}
+
+/** {@link computePerformance} with the benchmark already aligned. */
+function measure(
+  curve: EquitySample[],
+  options: PerformanceOptions,
+  prices: (number | null)[] | null
+): PerformanceMetrics {
+  const periodsPerYear = options.periodsPerYear ?? inferPeriodsPerYear(curve);
+  const riskFree = (options.riskFreeRate ?? 0) / periodsPerYear;
+  const returns = periodReturns(curve);
+  const first = curve[0];
+  const last = curve[curve.length - 1];
+
+  const totalReturn =
+    first && first.equity > 0 ? last.equity / first.equity - 1 : null;
+  const years = first ? (last.timestamp - first.timestamp) / YEAR_MS : 0;
+  const cagr =
+    totalReturn !== null && years > 0 && totalReturn > -1
+      ? (1 + totalReturn) ** (1 / years) - 1
+      : null;
+
+  const excess = returns.map(value => value - riskFree);
+  const spread = stdev(returns);
+  const volatility =
+    spread === null ? null : spread * Math.sqrt(periodsPerYear);
+  const sharpe =
+    excess.length > 0 && spread
+      ? (mean(excess) / spread) * Math.sqrt(periodsPerYear)
+      : null;
+  const downside =
+    excess.length > 0
+      ? Math.sqrt(mean(excess.map(value => Math.min(0, value) ** 2)))
+      : 0;
+  const sortino =
+    excess.length > 0 && downside > 0
+      ? (mean(excess) / downside) * Math.sqrt(periodsPerYear)
+      : null;
+  const { maxDrawdown, maxDrawdownDuration } = drawdown(curve);
+  const calmar = cagr !== null ? ratio(cagr, maxDrawdown) : null;
+
+  const outcomes = options.trades
+    ? options.trades.map(trade => trade.pnl)
+    : curve.slice(1).map((point, i) => point.equity - curve[i].equity);
+  const decided = outcomes.filter(value => value !== 0);
+  const gains = decided.filter(value => value > 0);
+  const grossLoss = -decided
+    .filter(value => value < 0)
+    .reduce((sum, value) => sum + value, 0);
+  const grossProfit = gains.reduce((sum, value) => sum + value, 0);
+  const winRate = decided.length > 0 ? gains.length / decided.length : null;
+  const profitFactor =
+    decided.length > 0 ? ratio(grossProfit, grossLoss) : null;
+
+  const invested = curve
+    .filter(point => point.cash !== undefined && point.equity > 0)
+    .map(point => Math.abs(point.equity - point.cash!) / point.equity);
+  const exposure = invested.length > 0 ? mean(invested) : null;
+
+  const versus = prices
+    ? benchmarkStats(curve, prices, riskFree, periodsPerYear)
+    : { beta: null, alpha: null, benchmarkReturn: null };
+
+  return {
+    start: first?.timestamp ?? null,
+    end: last?.timestamp ?? null,
+    periods: returns.length,
+    periodsPerYear,
+    totalReturn,
+    cagr,
+    volatility,
+    sharpe,
+    sortino,
+    calmar,
+    maxDrawdown,
+    maxDrawdownDuration,
+    winRate,
+    profitFactor,
+    exposure,
+    ...versus,
+  };
+}
+
+/**
+ * Every metric over a trailing window of `window` returns, one result per
+ * point from the first full window on. Trades count toward the window
+ * they closed in. The benchmark is aligned and the trades sorted once, so
+ * each window costs only its own length.
+ */
+export function rollingPerformance(
+  curve: EquitySample[],
+  window: number,
+  options: PerformanceOptions = {}
+): PerformanceMetrics[] {
+  const periodsPerYear = options.periodsPerYear ?? inferPeriodsPerYear(curve);
+  const prices = options.benchmark?.length
+    ? alignSeries(
+        curve.map(point => point.timestamp),
+        options.benchmark
+      )
+    : null;
+  const trades = options.trades
+    ?.filter(trade => trade.exitTime !== undefined)
+    .sort((a, b) => a.exitTime! - b.exitTime!);
+
+  const results: PerformanceMetrics[] = [];
+  // Trades in the window are trades[first, next): closed after its first
+  // point and by its last. Both bounds only move forward.
+  let first = 0;
+  let next = 0;
+  for (let end = window; end < curve.length; end++) {
+    const start = end - window;
+    if (trades) {
+      while (
+        first < trades.length &&
+        trades[first].exitTime! <= curve[start].timestamp
+      ) {
+        first++;
+      }
+      while (
+        next < trades.length &&
+        trades[next].exitTime! <= curve[end].timestamp
+      ) {
+        next++;
+      }
+    }
+    results.push(
+      measure(
+        curve.slice(start, end + 1),
+        {
+          ...options,
+          periodsPerYear,
+          trades: trades?.slice(first, Math.max(first, next)),
+        },
+        prices && prices.slice(start, end + 1)
+      )
+    );
+  }
+  return results;
+}
@@ -0,0 +1,60 @@
+/** A point of an equity curve; `cash` lets exposure be measured. */
+export interface EquitySample {
+  timestamp: number;
+  equity: number;
+  cash?: number;
+}
+
+/** A benchmark price, or any other series, over time. */
+export interface SeriesPoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface TradeOutcome {
+  pnl: number;
+  exitTime?: number;
+}
+
+export interface PerformanceOptions {
+  /** Annual risk-free rate, e.g. 0.04. Defaults to 0. */
+  riskFreeRate?: number;
+  /** Return periods per year; inferred from the curve's spacing if unset. */
+  periodsPerYear?: number;
+  /** Benchmark prices, for beta and alpha. */
+  benchmark?: SeriesPoint[];
+  /**
+   * Closed trades, for win rate and profit factor. Without them both are
+   * measured on the curve's period-to-period changes instead.
+   */
+  trades?: TradeOutcome[];
+}
+
+/**
+ * Ratios are fractions (0.12 is 12%); volatility, Sharpe, Sortino and
+ * alpha are annualized. A metric the data cannot support is `null`.
+ */
+export interface PerformanceMetrics {
+  start: number | null;
+  end: number | null;
+  /** Number of returns, one fewer than the points. */
+  periods: number;
+  periodsPerYear: number;
+  totalReturn: number | null;
+  cagr: number | null;
+  volatility: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  calmar: number | null;
+  /** Largest peak-to-trough fall, as a positive fraction of the peak. */
+  maxDrawdown: number;
+  /** Longest time, in ms, spent below a previous peak. */
+  maxDrawdownDuration: number;
+  winRate: number | null;
+  profitFactor: number | null;
+  /** Average share of equity invested, gross; needs `cash`. */
+  exposure: number | null;
+  beta: number | null;
+  alpha: number | null;
+  benchmarkReturn: number | null;
+}
@@ -0,0 +1,68 @@
+import type { NextRequest } from 'next/server';
+import {
+  AuthError,
+  getAuthService,
+  requestToken,
+  SESSION_COOKIE,
+  type Principal,
+  type Scope,
+} from '../auth';
+import { ApiError, notFound, validationError } from './http';
+
+/**
+ * Maps auth errors onto HTTP: bad credentials or tokens 401, missing
+ * scopes 403 and an unreachable identity provider 502.
+ */
+export function authApiError(error: unknown): unknown {
+  if (!(error instanceof AuthError)) return error;
+  switch (error.code) {
+    case 'INVALID_CREDENTIALS':
+    case 'INVALID_TOKEN':
+      return new ApiError(401, 'Unauthorized', error.message);
+    case 'FORBIDDEN':
+      return new ApiError(403, 'Forbidden', error.message);
+    case 'NOT_FOUND':
+      return notFound(error.message);
+    case 'INVALID_REQUEST':
+      return validationError([error.message]);
+    case 'PROVIDER_ERROR':
+      return new ApiError(502, 'Bad Gateway', error.message);
+  }
+}
+
+/** The bearer token or session cookie a request carries, if any. */
+export function tokenOf(request: NextRequest): string | null {
+  return requestToken(
+    request.headers,
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+}
+
+/**
+ * Guards trading routes: resolves the caller from a bearer token or the
+ * session cookie, with 401 for no or bad credentials and 403 when the
+ * caller lacks `scope`.
+ */
+export async function requireAuth(
+  request: NextRequest,
+  scope: Scope = 'read'
+): Promise<Principal> {
+  const token = tokenOf(request);
+  if (!token) {
+    throw new ApiError(401, 'Unauthorized', 'Authentication is required');
+  }
+  let principal: Principal;
+  try {
+    principal = await getAuthService().authenticate(token);
+  } catch (error) {
+    throw authApiError(error);
+  }
+  if (!principal.scopes.includes(scope)) {
+    throw new ApiError(
+      403,
+      'Forbidden',
+      `This action needs the ${scope} scope`
+    );
+  }
+  return principal;
+}
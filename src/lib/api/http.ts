@@ -0,0 +1,151 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getMetrics } from '../metrics';
+import {
+  getRateLimiter,
+  rateLimitHeaders,
+  type RateLimitDecision,
+} from '../ratelimit';
+
+/**
+ * An error with a client-facing HTTP status. Route handlers throw these and
+ * {@link apiHandler} renders them as `{ error, message, details? }`.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: string,
+    message: string,
+    readonly details?: unknown[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export function validationError(details: string[]): ApiError {
+  return new ApiError(400, 'Validation Error', 'Invalid request', details);
+}
+
+export function notFound(message: string): ApiError {
+  return new ApiError(404, 'Not Found', message);
+}
+
+export function jsonError(
+  status: number,
+  error: string,
+  message: string,
+  details?: unknown[]
+): NextResponse {
+  return NextResponse.json(
+    details ? { error, message, details } : { error, message },
+    { status }
+  );
+}
+
+export interface RouteContext<P = Record<string, string>> {
+  params: P;
+}
+
+export type RouteHandler<P = Record<string, string>> = (
+  request: NextRequest,
+  context: RouteContext<P>
+) => Promise<Response>;
+
+/**
+ * Wraps an App Router handler so thrown {@link ApiError}s become JSON error
+ * responses and anything unexpected becomes a logged 500. API requests
+ * over their rate limit get a 429 instead, and every request is counted
+ * and timed in the HTTP metrics.
+ */
+export function apiHandler<P = Record<string, string>>(
+  handler: RouteHandler<P>
+): RouteHandler<P> {
+  return async (request, context) => {
+    const metrics = getMetrics();
+    const done = metrics.httpRequestDuration.startTimer({
+      method: request.method,
+      route: routeOf(request.nextUrl.pathname, context?.params),
+    });
+    const decision = await rateLimit(request);
+    const response =
+      decision && !decision.allowed
+        ? tooManyRequests(decision)
+        : await handle(handler, request, context);
+    if (decision) {
+      Object.entries(rateLimitHeaders(decision)).forEach(([name, value]) =>
+        response.headers.set(name, value)
+      );
+    }
+    const labels = done({ status: response.status });
+    metrics.httpRequests.inc(labels);
+    return response;
+  };
+}
+
+/** Draws on the caller's budget; a failing store lets requests through. */
+async function rateLimit(
+  request: NextRequest
+): Promise<RateLimitDecision | null> {
+  try {
+    return (await getRateLimiter()?.check(request)) ?? null;
+  } catch (error) {
+    console.error('Rate limiting failed', error);
+    return null;
+  }
+}
+
+function tooManyRequests(decision: RateLimitDecision): NextResponse {
+  const { limit, windowMs } = decision.policy;
+  return jsonError(
+    429,
+    'Too Many Requests',
+    `Rate limit of ${limit} requests per ${windowMs / 1000} s exceeded; retry in ${Math.ceil(decision.retryAfterMs / 1000)} s`
+  );
+}
+
+async function handle<P>(
+  handler: RouteHandler<P>,
+  request: NextRequest,
+  context: RouteContext<P>
+): Promise<Response> {
+  try {
+    return await handler(request, context);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return jsonError(error.status, error.error, error.message, error.details);
+    }
+    console.error(`${request.method} ${request.nextUrl.pathname}`, error);
+    return jsonError(
+      500,
+      'Internal Server Error',
+      'An unexpected error occurred'
+    );
+  }
+}
+
+/**
+ * The route a path was served by, with dynamic segments as `[name]`, so
+ * metrics are not labelled with every order id.
+ */
+function routeOf(pathname: string, params: unknown): string {
+  const names = new Map<string, string>();
+  Object.entries((params ?? {}) as Record<string, unknown>).forEach(
+    ([name, value]) => names.set(String(value), name)
+  );
+  return pathname
+    .split('/')
+    .map(segment => {
+      const name = names.get(decodeURIComponent(segment));
+      return name ? `[${name}]` : segment;
+    })
+    .join('/');
+}
+
+/** Parses a JSON request body, turning malformed JSON into a 400. */
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError(400, 'Bad Request', 'Request body must be valid JSON');
+  }
+}
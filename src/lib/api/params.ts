@@ -0,0 +1,90 @@
+import { validationError } from './http';
+
+/**
+ * Collects validation problems for query parameters so a request reports
+ * every invalid field at once instead of failing on the first.
+ */
+export class QueryParams {
+  private readonly problems: string[] = [];
+
+  constructor(private readonly params: URLSearchParams) {}
+
+  string(name: string): string | undefined {
+    const value = this.params.get(name);
+    return value === null || value === '' ? undefined : value;
+  }
+
+  /** A comma-separated list; empty items are dropped. */
+  list(name: string): string[] | undefined {
+    const value = this.string(name);
+    if (value === undefined) return undefined;
+    const items = value
+      .split(',')
+      .map(item => item.trim())
+      .filter(item => item !== '');
+    return items.length > 0 ? items : undefined;
+  }
+
+  requiredString(name: string): string {
+    const value = this.string(name);
+    if (value === undefined) this.problems.push(`${name} is required`);
+    return value ?? '';
+  }
+
+  /** Accepts ISO-8601 strings or epoch milliseconds. */
+  time(name: string): number | undefined {
+    const raw = this.string(name);
+    if (raw === undefined) return undefined;
+    const value = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+    if (Number.isNaN(value)) {
+      this.problems.push(`${name} must be an ISO-8601 time or epoch ms`);
+      return undefined;
+    }
+    return value;
+  }
+
+  integer(
+    name: string,
+    { min = -Infinity, max = Infinity }: { min?: number; max?: number } = {}
+  ): number | undefined {
+    const raw = this.string(name);
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      this.problems.push(
+        `${name} must be an integer between ${min} and ${max}`
+      );
+      return undefined;
+    }
+    return value;
+  }
+
+  number(
+    name: string,
+    { min = -Infinity, max = Infinity }: { min?: number; max?: number } = {}
+  ): number | undefined {
+    const raw = this.string(name);
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      this.problems.push(`${name} must be a number between ${min} and ${max}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(name: string, allowed: readonly T[]): T | undefined {
+    const raw = this.string(name);
+    if (raw === undefined) return undefined;
+    if (!(allowed as readonly string[]).includes(raw)) {
+      this.problems.push(`${name} must be one of ${allowed.join(', ')}`);
+      return undefined;
+    }
+    return raw as T;
+  }
+
+  /** Throws a 400 listing every problem found so far. */
+  assertValid(): void {
+    if (this.problems.length > 0) throw validationError(this.problems);
+  }
+}
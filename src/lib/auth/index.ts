@@ -0,0 +1,132 @@
+import { DatabaseAuthStore, getDatabase } from '../database';
+import { setSingleton, singleton } from '../singleton';
+import {
+  CodaiIdentityProvider,
+  LocalIdentityProvider,
+  type LocalUserInput,
+} from './providers';
+import { authSecret } from './secret';
+import { AuthService } from './service';
+import { InMemoryAuthStore, type AuthStore } from './store';
+import { AuthError, isScope, type IdentityProvider, type Scope } from './types';
+
+export * from './types';
+export * from './jwt';
+export * from './password';
+export * from './providers';
+export * from './secret';
+export * from './service';
+export * from './store';
+
+export type IdentityProviderFactory = (
+  env: NodeJS.ProcessEnv
+) => IdentityProvider;
+
+const factories = new Map<string, IdentityProviderFactory>();
+
+export function registerIdentityProvider(
+  name: string,
+  factory: IdentityProviderFactory
+): void {
+  factories.set(name, factory);
+}
+
+export function createIdentityProvider(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env
+): IdentityProvider {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new AuthError(
+      'INVALID_REQUEST',
+      `No identity provider registered as "${name}"`
+    );
+  }
+  return factory(env);
+}
+
+/**
+ * `AUTH_LOCAL_USERS` as `email:password[:name]` entries separated by
+ * commas. Outside production it defaults to a test user.
+ */
+export function localUsersFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): LocalUserInput[] {
+  const raw =
+    env.AUTH_LOCAL_USERS ??
+    (env.NODE_ENV === 'production' ? '' : 'test@example.com:testpassword');
+  return raw
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .map(entry => {
+      const [email, password, ...name] = entry.split(':');
+      return {
+        email,
+        password: password ?? '',
+        name: name.join(':') || undefined,
+      };
+    });
+}
+
+registerIdentityProvider(
+  'local',
+  env => new LocalIdentityProvider(localUsersFromEnv(env))
+);
+registerIdentityProvider('codai', env => {
+  if (!env.CODAI_ID_URL) {
+    throw new AuthError(
+      'INVALID_REQUEST',
+      'CODAI_ID_URL must be set to use the codai identity provider'
+    );
+  }
+  return new CodaiIdentityProvider({
+    baseUrl: env.CODAI_ID_URL,
+    clientId: env.CODAI_ID_CLIENT_ID,
+    clientSecret: env.CODAI_ID_CLIENT_SECRET,
+  });
+});
+
+function list(raw: string | undefined): string[] {
+  return (raw ?? '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item !== '');
+}
+
+export function authOptionsFromEnv(env: NodeJS.ProcessEnv = process.env) {
+  const hours = Number(env.AUTH_SESSION_TTL_HOURS);
+  const scopes = list(env.AUTH_DEFAULT_SCOPES).filter(isScope) as Scope[];
+  return {
+    secret: authSecret(env),
+    sessionTtlMs: hours > 0 ? hours * 3_600_000 : undefined,
+    defaultScopes: scopes.length > 0 ? scopes : undefined,
+    adminEmails: list(env.AUTH_ADMIN_EMAILS),
+  };
+}
+
+const AUTH_KEY = 'auth';
+
+/**
+ * The shared auth service, using the `AUTH_PROVIDER` identity provider.
+ * With `AUTH_STORE=database`, users, sessions and API tokens are kept in
+ * the shared database rather than in memory.
+ */
+export function getAuthService(): AuthService {
+  return singleton(AUTH_KEY, () => {
+    const store: AuthStore =
+      process.env.AUTH_STORE === 'database'
+        ? new DatabaseAuthStore(getDatabase())
+        : new InMemoryAuthStore();
+    return new AuthService(
+      createIdentityProvider(process.env.AUTH_PROVIDER || 'local'),
+      store,
+      authOptionsFromEnv()
+    );
+  });
+}
+
+/** Overrides the shared auth service, e.g. in tests. */
+export function setAuthService(service: AuthService | undefined): void {
+  setSingleton(AUTH_KEY, service);
+}
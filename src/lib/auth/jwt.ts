@@ -0,0 +1,95 @@
+import type { TokenClaims } from './types';
+
+/*
+ * HS256 JSON Web Tokens on Web Crypto rather than `node:crypto`, so the
+ * edge middleware can check them as well as route handlers.
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const HEADER = base64url(encoder.encode('{"alg":"HS256","typ":"JWT"}'));
+
+function base64url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/** Bytes as a typed array: Web Crypto rejects an `ArrayBuffer` from another realm, as under jsdom. */
+function fromBase64url(text: string) {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export async function signJwt(
+  claims: TokenClaims,
+  secret: string
+): Promise<string> {
+  const body = `${HEADER}.${base64url(encoder.encode(JSON.stringify(claims)))}`;
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await hmacKey(secret),
+    encoder.encode(body)
+  );
+  return `${body}.${base64url(new Uint8Array(signature))}`;
+}
+
+/**
+ * The claims of a well-formed, correctly signed and unexpired token, or
+ * `null`. Whether the session or API token is still valid is for the
+ * caller to check.
+ */
+export async function verifyJwt(
+  token: string,
+  secret: string,
+  now = Date.now()
+): Promise<TokenClaims | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== HEADER) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      fromBase64url(parts[2]),
+      encoder.encode(`${parts[0]}.${parts[1]}`)
+    );
+    if (!valid) return null;
+    const claims = JSON.parse(decoder.decode(fromBase64url(parts[1])));
+    if (typeof claims?.sub !== 'string' || typeof claims.jti !== 'string') {
+      return null;
+    }
+    if (claims.exp !== undefined && claims.exp * 1000 <= now) return null;
+    return claims as TokenClaims;
+  } catch {
+    return null;
+  }
+}
+
+/** The bearer token of a request, or else its session cookie. */
+export function requestToken(
+  headers: Headers,
+  cookie: string | undefined
+): string | null {
+  const header = headers.get('Authorization');
+  const bearer = header?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return bearer ?? cookie ?? null;
+}
+
+export const SESSION_COOKIE = 'stocai_session';
@@ -0,0 +1,66 @@
+import {
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  type ScryptOptions,
+} from 'node:crypto';
+import { AuthError } from './types';
+
+const KEY_LENGTH = 64;
+const COST = { N: 16_384, r: 8, p: 1 };
+export const MIN_PASSWORD_LENGTH = 8;
+
+function derive(
+  password: string,
+  salt: Buffer,
+  options: ScryptOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  );
+}
+
+/** Throws unless `password` is long enough to hash. */
+export function checkPassword(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(
+      'INVALID_REQUEST',
+      `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`
+    );
+  }
+}
+
+/**
+ * Hashes with scrypt and a random salt. The result records the cost
+ * parameters, so they can be raised without invalidating old hashes.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  checkPassword(password);
+  const salt = randomBytes(16);
+  const key = await derive(password, salt, COST);
+  return [
+    'scrypt',
+    COST.N,
+    COST.r,
+    COST.p,
+    salt.toString('base64'),
+    key.toString('base64'),
+  ].join('$');
+}
+
+export async function verifyPassword(
+  password: string,
+  hash: string
+): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = hash.split('$');
+  if (scheme !== 'scrypt' || !key) return false;
+  const expected = Buffer.from(key, 'base64');
+  const actual = await derive(password, Buffer.from(salt, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
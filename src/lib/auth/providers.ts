@@ -0,0 +1,179 @@
+import { checkPassword, hashPassword, verifyPassword } from './password';
+import {
+  AuthError,
+  type Credentials,
+  type Identity,
+  type IdentityProvider,
+} from './types';
+
+export interface LocalUserInput {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+interface LocalUser {
+  email: string;
+  name?: string;
+  passwordHash: string;
+}
+
+/** Compared against for unknown emails, so they take as long to refuse. */
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * The local stub: users kept in this process with scrypt-hashed
+ * passwords, for development, tests and single-user installs.
+ */
+export class LocalIdentityProvider implements IdentityProvider {
+  readonly name = 'local';
+  private readonly users = new Map<string, Promise<LocalUser>>();
+
+  /** Throws if any user's password is too short, naming the user. */
+  constructor(users: LocalUserInput[] = []) {
+    users.forEach(user => {
+      try {
+        checkPassword(user.password);
+      } catch (error) {
+        throw new AuthError(
+          'INVALID_REQUEST',
+          `Local user ${user.email}: ${(error as Error).message}`
+        );
+      }
+    });
+    users.forEach(user => this.store(user));
+  }
+
+  /** Adds or replaces a user; resolves once the password is hashed. */
+  async addUser(input: LocalUserInput): Promise<void> {
+    await this.store(input);
+  }
+
+  /** Starts hashing the password, after checking it synchronously. */
+  private store(input: LocalUserInput): Promise<LocalUser> {
+    checkPassword(input.password);
+    const email = normalizeEmail(input.email);
+    const user = hashPassword(input.password).then(passwordHash => ({
+      email,
+      name: input.name,
+      passwordHash,
+    }));
+    this.users.set(email, user);
+    return user;
+  }
+
+  async authenticate({
+    email,
+    password,
+  }: Credentials): Promise<Identity | null> {
+    const user = await this.users.get(normalizeEmail(email))?.catch(() => null);
+    const matches = await verifyPassword(
+      password,
+      user?.passwordHash ??
+        (await (dummyHash ??= hashPassword('not-a-real-password')))
+    );
+    if (!user || !matches) return null;
+    return { subject: user.email, email: user.email, name: user.name };
+  }
+}
+
+export interface CodaiIdentityOptions {
+  /** Base URL of the Codai ID service. */
+  baseUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Delegates to the Codai shared ID service with the OAuth 2 password grant
+ * at `/oauth/token`, then reads the user from `/oauth/userinfo`.
+ */
+export class CodaiIdentityProvider implements IdentityProvider {
+  readonly name = 'codai';
+  private readonly fetch: typeof fetch;
+
+  constructor(private readonly options: CodaiIdentityOptions) {
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  async authenticate({
+    email,
+    password,
+  }: Credentials): Promise<Identity | null> {
+    const form = new URLSearchParams({
+      grant_type: 'password',
+      username: email,
+      password,
+      scope: 'openid email profile',
+    });
+    if (this.options.clientId) form.set('client_id', this.options.clientId);
+    if (this.options.clientSecret) {
+      form.set('client_secret', this.options.clientSecret);
+    }
+    const token = await this.call('/oauth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: form.toString(),
+    });
+    if (!token) return null;
+
+    const accessToken = (token as { access_token?: unknown }).access_token;
+    if (typeof accessToken !== 'string') {
+      throw new AuthError(
+        'PROVIDER_ERROR',
+        'Codai ID returned no access token'
+      );
+    }
+    const info = (await this.call('/oauth/userinfo', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })) as { sub?: unknown; email?: unknown; name?: unknown } | null;
+    if (
+      !info ||
+      typeof info.sub !== 'string' ||
+      typeof info.email !== 'string'
+    ) {
+      throw new AuthError('PROVIDER_ERROR', 'Codai ID returned no user');
+    }
+    return {
+      subject: info.sub,
+      email: normalizeEmail(info.email),
+      name: typeof info.name === 'string' ? info.name : undefined,
+    };
+  }
+
+  /** The JSON response, or `null` when the credentials were refused. */
+  private async call(path: string, init: RequestInit): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await this.fetch(
+        new URL(path, this.options.baseUrl).toString(),
+        init
+      );
+    } catch (error) {
+      throw new AuthError(
+        'PROVIDER_ERROR',
+        `Codai ID is unreachable: ${(error as Error).message}`
+      );
+    }
+    if (response.status === 400 || response.status === 401) return null;
+    if (!response.ok) {
+      throw new AuthError(
+        'PROVIDER_ERROR',
+        `Codai ID responded with status ${response.status}`
+      );
+    }
+    try {
+      return await response.json();
+    } catch {
+      throw new AuthError(
+        'PROVIDER_ERROR',
+        'Codai ID responded with something other than JSON'
+      );
+    }
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,19 @@
+import { AuthError } from './types';
+
+/** Outside production only, so development needs no setup. */
+const DEVELOPMENT_SECRET = 'stocai-development-secret-do-not-use-in-production';
+
+/**
+ * The token signing secret, `AUTH_SECRET`. Kept apart from the rest of
+ * the module because the edge middleware reads it too.
+ */
+export function authSecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.AUTH_SECRET) return env.AUTH_SECRET;
+  if (env.NODE_ENV === 'production') {
+    throw new AuthError(
+      'INVALID_REQUEST',
+      'AUTH_SECRET must be set in production'
+    );
+  }
+  return DEVELOPMENT_SECRET;
+}
@@ -0,0 +1,256 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { signJwt, verifyJwt } from './jwt';
+import { normalizeEmail } from './providers';
+import type { AuthStore } from './store';
+import {
+  AuthError,
+  type ApiToken,
+  type Credentials,
+  type Identity,
+  type IdentityProvider,
+  type Principal,
+  type Scope,
+  type Session,
+  type TokenClaims,
+  type User,
+} from './types';
+
+export interface AuthServiceOptions {
+  /** Signs session and API tokens; the middleware must use the same. */
+  secret: string;
+  /** Defaults to 7 days. */
+  sessionTtlMs?: number;
+  /** Scopes of new users. Defaults to `read` and `trade`. */
+  defaultScopes?: Scope[];
+  /** Emails of users who also get `admin`. */
+  adminEmails?: string[];
+  clock?: () => number;
+}
+
+export interface IssuedToken {
+  token: string;
+  expiresAt: number | null;
+}
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: Scope[];
+  /** Days until the token expires; `null` for never. */
+  expiresInDays?: number | null;
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * The trading account a caller's orders and portfolio belong to. Each
+ * user has one of their own, under their user id.
+ */
+export function accountIdOf(principal: Principal): string {
+  return principal.user.id;
+}
+
+/**
+ * The id of the user `provider` knows as `subject`, shaped like a UUID.
+ * It is the same on every login and after a restart, so whatever is kept
+ * under it, such as memories, screens or orders, stays the user's.
+ */
+export function userIdFor(provider: string, subject: string): string {
+  const hex = createHash('sha256')
+    .update(`${provider}:${subject}`)
+    .digest('hex');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+/**
+ * Logs users in through an identity provider and issues signed tokens:
+ * session tokens, kept in a cookie by the UI, and personal API tokens for
+ * scripts, limited to some of the user's scopes. Both name a stored record
+ * so logging out or revoking takes effect at once.
+ */
+export class AuthService {
+  private readonly clock: () => number;
+  private readonly sessionTtlMs: number;
+
+  constructor(
+    readonly provider: IdentityProvider,
+    private readonly store: AuthStore,
+    private readonly options: AuthServiceOptions
+  ) {
+    this.clock = options.clock ?? Date.now;
+    this.sessionTtlMs = options.sessionTtlMs ?? 7 * DAY_MS;
+  }
+
+  async login(
+    credentials: Credentials
+  ): Promise<IssuedToken & { user: User; session: Session }> {
+    const identity = await this.provider.authenticate(credentials);
+    if (!identity) {
+      throw new AuthError('INVALID_CREDENTIALS', 'Invalid email or password');
+    }
+    const user = await this.upsertUser(identity);
+    const now = this.clock();
+    const session: Session = {
+      id: randomUUID(),
+      userId: user.id,
+      createdAt: now,
+      expiresAt: now + this.sessionTtlMs,
+    };
+    await this.store.saveSession(session);
+    const token = await this.sign({
+      sub: user.id,
+      typ: 'session',
+      jti: session.id,
+      scopes: user.scopes,
+      iat: seconds(now),
+      exp: seconds(session.expiresAt),
+    });
+    return { token, expiresAt: session.expiresAt, user, session };
+  }
+
+  /** Ends the session a token belongs to; other tokens are left alone. */
+  async logout(token: string): Promise<void> {
+    const claims = await verifyJwt(token, this.options.secret, this.clock());
+    if (claims?.typ === 'session') await this.store.deleteSession(claims.jti);
+  }
+
+  /** The caller a token stands for; throws `INVALID_TOKEN` otherwise. */
+  async authenticate(token: string): Promise<Principal> {
+    const now = this.clock();
+    const claims = await verifyJwt(token, this.options.secret, now);
+    const invalid = () =>
+      new AuthError(
+        'INVALID_TOKEN',
+        'The token is invalid, expired or revoked'
+      );
+    if (!claims) throw invalid();
+
+    let scopes: Scope[];
+    if (claims.typ === 'session') {
+      const session = await this.store.getSession(claims.jti);
+      if (
+        !session ||
+        session.userId !== claims.sub ||
+        session.expiresAt <= now
+      ) {
+        throw invalid();
+      }
+      scopes = claims.scopes;
+    } else {
+      const record = await this.store.getToken(claims.jti);
+      if (
+        !record ||
+        record.userId !== claims.sub ||
+        (record.expiresAt !== null && record.expiresAt <= now)
+      ) {
+        throw invalid();
+      }
+      await this.store.saveToken({ ...record, lastUsedAt: now });
+      scopes = record.scopes;
+    }
+
+    const user = await this.store.getUser(claims.sub);
+    if (!user) throw invalid();
+    // A token never grants more than the user has now.
+    return {
+      user,
+      scopes: scopes.filter(scope => user.scopes.includes(scope)),
+      via: claims.typ,
+      credentialId: claims.jti,
+    };
+  }
+
+  async createApiToken(
+    userId: string,
+    input: CreateApiTokenInput
+  ): Promise<IssuedToken & { record: ApiToken }> {
+    const user = await this.store.getUser(userId);
+    if (!user) throw new AuthError('NOT_FOUND', `No user ${userId}`);
+    const beyond = input.scopes.filter(scope => !user.scopes.includes(scope));
+    if (beyond.length > 0) {
+      throw new AuthError(
+        'FORBIDDEN',
+        `You do not have the ${beyond.join(', ')} scope`
+      );
+    }
+    const now = this.clock();
+    const days = input.expiresInDays ?? null;
+    const record: ApiToken = {
+      id: randomUUID(),
+      userId,
+      name: input.name,
+      scopes: Array.from(new Set(input.scopes)),
+      createdAt: now,
+      expiresAt: days === null ? null : now + days * DAY_MS,
+      lastUsedAt: null,
+    };
+    await this.store.saveToken(record);
+    const claims: TokenClaims = {
+      sub: userId,
+      typ: 'api',
+      jti: record.id,
+      scopes: record.scopes,
+      iat: seconds(now),
+    };
+    if (record.expiresAt !== null) claims.exp = seconds(record.expiresAt);
+    return {
+      token: await this.sign(claims),
+      expiresAt: record.expiresAt,
+      record,
+    };
+  }
+
+  /** A user who has logged in before, by id. */
+  getUser(id: string): Promise<User | null> {
+    return this.store.getUser(id);
+  }
+
+  listApiTokens(userId: string): Promise<ApiToken[]> {
+    return this.store.listTokens(userId);
+  }
+
+  async revokeApiToken(userId: string, id: string): Promise<ApiToken> {
+    const record = await this.store.getToken(id);
+    if (!record || record.userId !== userId) {
+      throw new AuthError('NOT_FOUND', `No API token ${id}`);
+    }
+    await this.store.deleteToken(id);
+    return record;
+  }
+
+  private async upsertUser({ subject, email, name }: Identity): Promise<User> {
+    const normalized = normalizeEmail(email);
+    const admin = (this.options.adminEmails ?? [])
+      .map(normalizeEmail)
+      .includes(normalized);
+    const id = userIdFor(this.provider.name, subject);
+    const existing = await this.store.getUser(id);
+    const user: User = existing ?? {
+      id,
+      email: normalized,
+      provider: this.provider.name,
+      scopes: this.options.defaultScopes ?? ['read', 'trade'],
+      createdAt: this.clock(),
+    };
+    user.email = normalized;
+    user.name = name ?? user.name;
+    if (admin && !user.scopes.includes('admin')) {
+      user.scopes = [...user.scopes, 'admin'];
+    }
+    await this.store.saveUser(user);
+    return user;
+  }
+
+  private sign(claims: TokenClaims): Promise<string> {
+    return signJwt(claims, this.options.secret);
+  }
+}
+
+function seconds(ms: number): number {
+  return Math.floor(ms / 1000);
+}
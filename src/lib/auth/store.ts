@@ -0,0 +1,63 @@
+import type { ApiToken, Session, User } from './types';
+
+/** Users, sessions and API token records. */
+export interface AuthStore {
+  getUser(id: string): Promise<User | null>;
+  saveUser(user: User): Promise<void>;
+  getSession(id: string): Promise<Session | null>;
+  saveSession(session: Session): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+  getToken(id: string): Promise<ApiToken | null>;
+  /** Most recent first. */
+  listTokens(userId: string): Promise<ApiToken[]>;
+  saveToken(token: ApiToken): Promise<void>;
+  deleteToken(id: string): Promise<void>;
+}
+
+const copy = <T>(value: T | undefined): T | null =>
+  value === undefined ? null : { ...value };
+
+export class InMemoryAuthStore implements AuthStore {
+  private readonly users = new Map<string, User>();
+  private readonly sessions = new Map<string, Session>();
+  private readonly tokens = new Map<string, ApiToken>();
+
+  async getUser(id: string): Promise<User | null> {
+    return copy(this.users.get(id));
+  }
+
+  async saveUser(user: User): Promise<void> {
+    this.users.set(user.id, { ...user });
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    return copy(this.sessions.get(id));
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async getToken(id: string): Promise<ApiToken | null> {
+    return copy(this.tokens.get(id));
+  }
+
+  async listTokens(userId: string): Promise<ApiToken[]> {
+    return Array.from(this.tokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(token => ({ ...token }));
+  }
+
+  async saveToken(token: ApiToken): Promise<void> {
+    this.tokens.set(token.id, { ...token });
+  }
+
+  async deleteToken(id: string): Promise<void> {
+    this.tokens.delete(id);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * `read` covers every GET; `trade` placing, changing and cancelling orders,
+ * running backtests and uploading strategies; `admin` is held by the
+ * operators listed in `AUTH_ADMIN_EMAILS`.
+ */
+export type Scope = 'read' | 'trade' | 'admin';
+
+export const SCOPES: readonly Scope[] = ['read', 'trade', 'admin'];
+
+export function isScope(value: unknown): value is Scope {
+  return (SCOPES as readonly unknown[]).includes(value);
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  /** The identity provider that vouched for the user. */
+  provider: string;
+  scopes: Scope[];
+  createdAt: number;
+}
+
+/** Who an identity provider says someone is. */
+export interface Identity {
+  /** The provider's own id for the user. */
+  subject: string;
+  email: string;
+  name?: string;
+}
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+/**
+ * Checks credentials: the local stub against hashed passwords in this
+ * service, or the Codai ID service over HTTP.
+ */
+export interface IdentityProvider {
+  readonly name: string;
+  /** Resolves to `null` for wrong credentials. */
+  authenticate(credentials: Credentials): Promise<Identity | null>;
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/** A personal API token's record; the token itself is never stored. */
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  scopes: Scope[];
+  createdAt: number;
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+}
+
+/** Claims of the signed tokens this service issues. */
+export interface TokenClaims {
+  sub: string;
+  /** `session` tokens come from logging in, `api` ones are personal tokens. */
+  typ: 'session' | 'api';
+  /** The session or API token id, so either can be revoked. */
+  jti: string;
+  scopes: Scope[];
+  iat: number;
+  /** Seconds since the epoch; personal tokens may never expire. */
+  exp?: number;
+}
+
+/** The authenticated caller of a request. */
+export interface Principal {
+  user: User;
+  scopes: Scope[];
+  via: TokenClaims['typ'];
+  /** The session or API token id. */
+  credentialId: string;
+}
+
+export type AuthErrorCode =
+  | 'INVALID_CREDENTIALS'
+  | 'INVALID_TOKEN'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'INVALID_REQUEST'
+  | 'PROVIDER_ERROR';
+
+export class AuthError extends Error {
+  constructor(
+    readonly code: AuthErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
@@ -0,0 +1,112 @@
+import { TIMEFRAMES } from '../marketdata/timeframes';
+import { Validator } from '../validation';
+import {
+  COMMISSION_TYPES,
+  SLIPPAGE_TYPES,
+  type CommissionSpec,
+  type SlippageSpec,
+} from './costs';
+import type { BacktestConfig } from './types';
+
+export interface BacktestRequest {
+  strategy: string;
+  params: Record<string, unknown>;
+  config: BacktestConfig;
+}
+
+export const DEFAULT_INITIAL_CAPITAL = 100_000;
+
+/**
+ * Validates a backtest request as sent to `/api/v1/backtests` or built by
+ * the CLI, filling in defaults. Returns every problem found.
+ */
+export function parseBacktestRequest(
+  input: unknown
+): { request: BacktestRequest; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  // A built-in name or an uploaded strategy id, resolved when the run starts.
+  const strategy = fields.string('strategy', true);
+  const params = fields.object('params');
+  const symbols = fields.stringArray('symbols', true);
+  const mode = fields.oneOf('mode', ['bars', 'ticks'] as const) ?? 'bars';
+  const timeframe = fields.oneOf('timeframe', TIMEFRAMES) ?? '1d';
+  const start = fields.time('start');
+  const end = fields.time('end');
+  const initialCapital =
+    fields.number('initialCapital', false, { min: 1 }) ??
+    DEFAULT_INITIAL_CAPITAL;
+  const seed = fields.integer('seed', false, { min: 0 }) ?? 1;
+  const allowShort = fields.boolean('allowShort') ?? false;
+  const slippage = parseSlippage(fields);
+  const commission = parseCommission(fields);
+
+  if (start !== undefined && end !== undefined && start >= end) {
+    fields.fail('start', 'must be before end');
+  }
+  if (!fields.valid || !strategy || !symbols) {
+    return { problems: fields.problems };
+  }
+
+  return {
+    problems: [],
+    request: {
+      strategy,
+      params: params?.values ?? {},
+      config: {
+        symbols: Array.from(new Set(symbols.map(s => s.trim().toUpperCase()))),
+        mode,
+        timeframe,
+        start,
+        end,
+        initialCapital,
+        seed,
+        slippage,
+        commission,
+        allowShort,
+      },
+    },
+  };
+}
+
+function parseSlippage(fields: Validator): SlippageSpec {
+  const spec = fields.object('slippage');
+  if (!spec) return { type: 'none' };
+  switch (spec.oneOf('type', SLIPPAGE_TYPES, true)) {
+    case 'bps':
+      return { type: 'bps', bps: spec.number('bps', true, { min: 0 }) };
+    case 'per-share':
+      return {
+        type: 'per-share',
+        amount: spec.number('amount', true, { min: 0 }),
+      };
+    case 'random-bps':
+      return {
+        type: 'random-bps',
+        maxBps: spec.number('maxBps', true, { min: 0 }),
+      };
+    default:
+      return { type: 'none' };
+  }
+}
+
+function parseCommission(fields: Validator): CommissionSpec {
+  const spec = fields.object('commission');
+  if (!spec) return { type: 'none' };
+  switch (spec.oneOf('type', COMMISSION_TYPES, true)) {
+    case 'per-share':
+      return {
+        type: 'per-share',
+        rate: spec.number('rate', true, { min: 0 }),
+        minimum: spec.number('minimum', false, { min: 0 }),
+      };
+    case 'bps':
+      return { type: 'bps', bps: spec.number('bps', true, { min: 0 }) };
+    case 'flat':
+      return {
+        type: 'flat',
+        amount: spec.number('amount', true, { min: 0 }),
+      };
+    default:
+      return { type: 'none' };
+  }
+}
@@ -0,0 +1,68 @@
+import type { OrderSide } from '../strategy/types';
+
+export type SlippageSpec =
+  | { type: 'none' }
+  /** Moves the price against the order by a fixed number of basis points. */
+  | { type: 'bps'; bps: number }
+  /** Moves the price against the order by a fixed amount per share. */
+  | { type: 'per-share'; amount: number }
+  /** Uniformly random adverse move between 0 and `maxBps`. */
+  | { type: 'random-bps'; maxBps: number };
+
+export type CommissionSpec =
+  | { type: 'none' }
+  | { type: 'per-share'; rate: number; minimum?: number }
+  | { type: 'bps'; bps: number }
+  | { type: 'flat'; amount: number };
+
+export type SlippageModel = (
+  price: number,
+  side: OrderSide,
+  random: () => number
+) => number;
+
+export type CommissionModel = (quantity: number, price: number) => number;
+
+export const SLIPPAGE_TYPES: readonly SlippageSpec['type'][] = [
+  'none',
+  'bps',
+  'per-share',
+  'random-bps',
+];
+
+export const COMMISSION_TYPES: readonly CommissionSpec['type'][] = [
+  'none',
+  'per-share',
+  'bps',
+  'flat',
+];
+
+export function slippageModel(spec: SlippageSpec): SlippageModel {
+  const adverse = (price: number, side: OrderSide, offset: number) =>
+    side === 'buy' ? price + offset : price - offset;
+
+  switch (spec.type) {
+    case 'none':
+      return price => price;
+    case 'bps':
+      return (price, side) => adverse(price, side, (price * spec.bps) / 10_000);
+    case 'per-share':
+      return (price, side) => adverse(price, side, spec.amount);
+    case 'random-bps':
+      return (price, side, random) =>
+        adverse(price, side, (price * spec.maxBps * random()) / 10_000);
+  }
+}
+
+export function commissionModel(spec: CommissionSpec): CommissionModel {
+  switch (spec.type) {
+    case 'none':
+      return () => 0;
+    case 'per-share':
+      return quantity => Math.max(quantity * spec.rate, spec.minimum ?? 0);
+    case 'bps':
+      return (quantity, price) => (quantity * price * spec.bps) / 10_000;
+    case 'flat':
+      return () => spec.amount;
+  }
+}
@@ -0,0 +1,36 @@
+import { loadBars } from '../marketdata/bars';
+import type { MarketDataProvider } from '../marketdata/provider';
+import type { BacktestConfig, BacktestEvent } from './types';
+
+/**
+ * Loads the replay stream for `config`: bars (resampled if needed) or trade
+ * prints for every symbol, merged in time order. Simultaneous events keep
+ * the order of `config.symbols` so replays are repeatable.
+ */
+export async function loadBacktestEvents(
+  provider: MarketDataProvider,
+  config: BacktestConfig
+): Promise<BacktestEvent[]> {
+  const range = { start: config.start, end: config.end };
+  const events: BacktestEvent[] = [];
+
+  for (const symbol of config.symbols) {
+    if (config.mode === 'ticks') {
+      const trades = await provider.getTrades(symbol, range);
+      events.push(...trades.map(trade => ({ kind: 'tick' as const, trade })));
+    } else {
+      const { bars } = await loadBars(provider, symbol, {
+        ...range,
+        timeframe: config.timeframe,
+      });
+      events.push(...bars.map(bar => ({ kind: 'bar' as const, bar })));
+    }
+  }
+
+  // Array#sort is stable, so ties stay in symbol order.
+  return events.sort((a, b) => eventTime(a) - eventTime(b));
+}
+
+function eventTime(event: BacktestEvent): number {
+  return event.kind === 'bar' ? event.bar.timestamp : event.trade.timestamp;
+}
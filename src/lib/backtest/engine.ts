@@ -0,0 +1,483 @@
+import type { Bar, Trade } from '../marketdata/types';
+import { IndicatorSet } from '../strategy/indicators';
+import type {
+  Fill,
+  OrderRequest,
+  Position,
+  Strategy,
+  StrategyContext,
+} from '../strategy/types';
+import {
+  commissionModel,
+  slippageModel,
+  type CommissionModel,
+  type SlippageModel,
+} from './costs';
+import { seededRandom } from './random';
+import {
+  BacktestError,
+  type BacktestConfig,
+  type BacktestEvent,
+  type BacktestOrder,
+  type BacktestResult,
+  type BacktestSummary,
+  type EquityPoint,
+  type TradeRecord,
+} from './types';
+
+interface OpenTrade {
+  side: 'long' | 'short';
+  entryTime: number;
+  quantity: number;
+  entryNotional: number;
+  entryQuantity: number;
+  exitNotional: number;
+  exitQuantity: number;
+  commission: number;
+  realized: number;
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Replays `events` through `strategy` and returns the full run record.
+ *
+ * Orders submitted while handling an event are matched from the first event
+ * for their symbol with a later timestamp, so a strategy can never trade on
+ * the bar it is looking at, nor on another symbol's bar from the same
+ * moment. Market orders fill at the next bar's open (or the next print),
+ * limit and stop orders when the bar's range reaches them. The run is fully
+ * determined by its inputs and `config.seed`.
+ */
+export function runBacktest(
+  strategy: Strategy,
+  events: BacktestEvent[],
+  config: BacktestConfig
+): Promise<BacktestResult> {
+  return new BacktestRun(strategy, config).run(events);
+}
+
+class BacktestRun {
+  private cash: number;
+  private readonly positions = new Map<string, Position>();
+  private readonly prices = new Map<string, number>();
+  private readonly bars = new Map<string, Bar[]>();
+  private readonly orders = new Map<string, BacktestOrder>();
+  private readonly openTrades = new Map<string, OpenTrade>();
+  private readonly fills: Fill[] = [];
+  private readonly trades: TradeRecord[] = [];
+  private readonly equityCurve: EquityPoint[] = [];
+  private readonly logs: BacktestResult['logs'] = [];
+  private readonly indicators = new IndicatorSet();
+  private readonly random: () => number;
+  private readonly slip: SlippageModel;
+  private readonly commission: CommissionModel;
+  private readonly context: StrategyContext;
+  private time = 0;
+  /** Symbol of the event being processed, the default for indicators. */
+  private currentSymbol = '';
+  private orderSeq = 0;
+
+  constructor(
+    private readonly strategy: Strategy,
+    private readonly config: BacktestConfig
+  ) {
+    this.cash = config.initialCapital;
+    this.random = seededRandom(config.seed);
+    this.slip = slippageModel(config.slippage);
+    this.commission = commissionModel(config.commission);
+    this.context = this.createContext();
+  }
+
+  async run(events: BacktestEvent[]): Promise<BacktestResult> {
+    if (events.length > 0) this.time = eventTime(events[0]);
+    await this.strategy.onStart?.(this.context);
+    this.indicators.seal();
+
+    for (let index = 0; index < events.length; index++) {
+      const event = events[index];
+      this.time = eventTime(event);
+      await this.process(event);
+      const next = events[index + 1];
+      if (!next || eventTime(next) !== this.time) this.recordEquity();
+    }
+
+    await this.strategy.onStop?.(this.context);
+    return this.result();
+  }
+
+  private async process(event: BacktestEvent): Promise<void> {
+    const symbol = event.kind === 'bar' ? event.bar.symbol : event.trade.symbol;
+    this.currentSymbol = symbol;
+    await this.matchOrders(symbol, event);
+
+    if (event.kind === 'bar') {
+      this.prices.set(symbol, event.bar.close);
+      this.historyFor(symbol).push(event.bar);
+      this.indicators.update(event.bar);
+      await this.strategy.onBar?.(event.bar, this.context);
+    } else {
+      this.prices.set(symbol, event.trade.price);
+      await this.strategy.onTick?.(event.trade, this.context);
+    }
+  }
+
+  private async matchOrders(
+    symbol: string,
+    event: BacktestEvent
+  ): Promise<void> {
+    const time = eventTime(event);
+    // An order placed at this timestamp waits for the next one: the event's
+    // prices were already known, or not yet knowable, when it was placed.
+    const pending = Array.from(this.orders.values()).filter(
+      order =>
+        order.status === 'open' &&
+        order.symbol === symbol &&
+        order.submittedAt < time
+    );
+    for (const order of pending) {
+      const price =
+        event.kind === 'bar'
+          ? barFillPrice(order, event.bar)
+          : tickFillPrice(order, event.trade);
+      if (price !== null) await this.fill(order, price);
+    }
+  }
+
+  private async fill(order: BacktestOrder, basePrice: number): Promise<void> {
+    let price = this.slip(basePrice, order.side, this.random);
+    // Slippage never pushes a limit order through its limit.
+    if (order.type === 'limit' && order.limitPrice !== undefined) {
+      price =
+        order.side === 'buy'
+          ? Math.min(price, order.limitPrice)
+          : Math.max(price, order.limitPrice);
+    }
+    const commission = this.commission(order.quantity, price);
+    const signed = order.side === 'buy' ? order.quantity : -order.quantity;
+    const cashAfter = this.cash - signed * price - commission;
+    const position = this.position(order.symbol);
+
+    if (order.side === 'buy' && cashAfter < -EPSILON) {
+      this.reject(order, 'insufficient cash');
+      return;
+    }
+    if (!this.config.allowShort && position.quantity + signed < -EPSILON) {
+      this.reject(order, 'short selling is disabled');
+      return;
+    }
+
+    order.status = 'filled';
+    this.cash = cashAfter;
+    const fill: Fill = {
+      id: `fill-${this.fills.length + 1}`,
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      price,
+      commission,
+      slippage: Math.abs(price - basePrice),
+      timestamp: this.time,
+    };
+    this.fills.push(fill);
+    this.applyFill(fill, signed);
+    await this.strategy.onFill?.(fill, this.context);
+  }
+
+  /** Updates the position and the round trip it belongs to. */
+  private applyFill(fill: Fill, signed: number): void {
+    const position = this.position(fill.symbol);
+    const commissionPerShare = fill.commission / Math.abs(signed);
+    let remaining = signed;
+
+    while (Math.abs(remaining) > EPSILON) {
+      let trade = this.openTrades.get(fill.symbol);
+      if (!trade) {
+        trade = {
+          side: remaining > 0 ? 'long' : 'short',
+          entryTime: fill.timestamp,
+          quantity: 0,
+          entryNotional: 0,
+          entryQuantity: 0,
+          exitNotional: 0,
+          exitQuantity: 0,
+          commission: 0,
+          realized: 0,
+        };
+        this.openTrades.set(fill.symbol, trade);
+      }
+
+      const direction = trade.side === 'long' ? 1 : -1;
+      const opening = Math.sign(remaining) === direction;
+      const step = opening
+        ? remaining
+        : -direction *
+          Math.min(Math.abs(remaining), Math.abs(position.quantity));
+      trade.commission += commissionPerShare * Math.abs(step);
+
+      if (opening) {
+        const quantity = position.quantity + step;
+        position.averagePrice =
+          (position.averagePrice * position.quantity + fill.price * step) /
+          quantity;
+        position.quantity = quantity;
+        trade.entryNotional += Math.abs(step) * fill.price;
+        trade.entryQuantity += Math.abs(step);
+        trade.quantity = Math.max(trade.quantity, Math.abs(quantity));
+      } else {
+        trade.realized += (fill.price - position.averagePrice) * -step;
+        trade.exitNotional += Math.abs(step) * fill.price;
+        trade.exitQuantity += Math.abs(step);
+        position.quantity += step;
+        if (Math.abs(position.quantity) <= EPSILON) {
+          position.quantity = 0;
+          position.averagePrice = 0;
+          this.closeTrade(fill.symbol, trade, fill.timestamp);
+        }
+      }
+      remaining -= step;
+    }
+  }
+
+  private closeTrade(symbol: string, trade: OpenTrade, exitTime: number) {
+    this.openTrades.delete(symbol);
+    const entryPrice = trade.entryNotional / trade.entryQuantity;
+    const pnl = trade.realized - trade.commission;
+    this.trades.push({
+      symbol,
+      side: trade.side,
+      entryTime: trade.entryTime,
+      exitTime,
+      quantity: trade.quantity,
+      entryPrice,
+      exitPrice: trade.exitNotional / trade.exitQuantity,
+      commission: trade.commission,
+      pnl,
+      returnPct: pnl / trade.entryNotional,
+    });
+  }
+
+  private reject(order: BacktestOrder, reason: string): void {
+    order.status = 'rejected';
+    order.reason = reason;
+    this.log(`Order ${order.id} rejected: ${reason}`);
+  }
+
+  private submit(request: OrderRequest): string {
+    const type = request.type ?? 'market';
+    if (!this.config.symbols.includes(request.symbol)) {
+      throw new BacktestError(`${request.symbol} is not part of this backtest`);
+    }
+    if (!(request.quantity > 0)) {
+      throw new BacktestError('Order quantity must be positive');
+    }
+    if (type === 'limit' && !(request.limitPrice! > 0)) {
+      throw new BacktestError('Limit orders need a positive limitPrice');
+    }
+    if (type === 'stop' && !(request.stopPrice! > 0)) {
+      throw new BacktestError('Stop orders need a positive stopPrice');
+    }
+
+    const order: BacktestOrder = {
+      id: `order-${++this.orderSeq}`,
+      symbol: request.symbol,
+      side: request.side,
+      quantity: request.quantity,
+      type,
+      limitPrice: type === 'limit' ? request.limitPrice : undefined,
+      stopPrice: type === 'stop' ? request.stopPrice : undefined,
+      status: 'open',
+      submittedAt: this.time,
+    };
+    this.orders.set(order.id, order);
+    return order.id;
+  }
+
+  private cancel(orderId: string): boolean {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== 'open') return false;
+    order.status = 'cancelled';
+    return true;
+  }
+
+  private position(symbol: string): Position {
+    let position = this.positions.get(symbol);
+    if (!position) {
+      position = { symbol, quantity: 0, averagePrice: 0 };
+      this.positions.set(symbol, position);
+    }
+    return position;
+  }
+
+  private historyFor(symbol: string): Bar[] {
+    let history = this.bars.get(symbol);
+    if (!history) {
+      history = [];
+      this.bars.set(symbol, history);
+    }
+    return history;
+  }
+
+  private equity(): number {
+    let equity = this.cash;
+    this.positions.forEach(position => {
+      const price = this.prices.get(position.symbol) ?? position.averagePrice;
+      equity += position.quantity * price;
+    });
+    return equity;
+  }
+
+  private recordEquity(): void {
+    this.equityCurve.push({
+      timestamp: this.time,
+      equity: this.equity(),
+      cash: this.cash,
+    });
+  }
+
+  private log(message: string): void {
+    this.logs.push({ timestamp: this.time, message });
+  }
+
+  private createContext(): StrategyContext {
+    const run = this;
+    const portfolio: StrategyContext['portfolio'] = {
+      get cash() {
+        return run.cash;
+      },
+      get equity() {
+        return run.equity();
+      },
+      position: symbol => ({ ...run.position(symbol) }),
+      positions: () =>
+        Array.from(run.positions.values())
+          .filter(position => position.quantity !== 0)
+          .map(position => ({ ...position })),
+    };
+
+    return {
+      mode: 'backtest',
+      get time() {
+        return run.time;
+      },
+      symbols: [...this.config.symbols],
+      portfolio,
+      indicators: {
+        register: (name, spec) => run.indicators.register(name, spec),
+        value: (name, symbol) =>
+          run.indicators.value(name, symbol ?? run.currentSymbol),
+      },
+      price: symbol => run.prices.get(symbol),
+      history: (symbol, length) => run.historyFor(symbol).slice(-length),
+      openOrders: symbol =>
+        Array.from(run.orders.values())
+          .filter(
+            order =>
+              order.status === 'open' && (!symbol || order.symbol === symbol)
+          )
+          .map(order => ({ ...order })),
+      submitOrder: request => run.submit(request),
+      cancelOrder: orderId => run.cancel(orderId),
+      log: message => run.log(message),
+    };
+  }
+
+  private result(): BacktestResult {
+    return {
+      strategy: this.strategy.name,
+      config: this.config,
+      summary: this.summary(),
+      equityCurve: this.equityCurve,
+      trades: this.trades,
+      fills: this.fills,
+      orders: Array.from(this.orders.values()),
+      openPositions: Array.from(this.positions.values()).filter(
+        position => position.quantity !== 0
+      ),
+      logs: this.logs,
+    };
+  }
+
+  private summary(): BacktestSummary {
+    const { initialCapital } = this.config;
+    const finalEquity =
+      this.equityCurve.length > 0
+        ? this.equityCurve[this.equityCurve.length - 1].equity
+        : initialCapital;
+
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    for (const point of this.equityCurve) {
+      peak = Math.max(peak, point.equity);
+      maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+    }
+
+    const wins = this.trades.filter(trade => trade.pnl > 0).length;
+    return {
+      initialCapital,
+      finalEquity,
+      totalReturn: finalEquity / initialCapital - 1,
+      maxDrawdown,
+      tradeCount: this.trades.length,
+      winRate: this.trades.length > 0 ? wins / this.trades.length : null,
+      totalCommission: this.fills.reduce(
+        (sum, fill) => sum + fill.commission,
+        0
+      ),
+    };
+  }
+}
+
+function eventTime(event: BacktestEvent): number {
+  return event.kind === 'bar' ? event.bar.timestamp : event.trade.timestamp;
+}
+
+/** Price at which `order` executes within `bar`, or `null` if it does not. */
+function barFillPrice(order: BacktestOrder, bar: Bar): number | null {
+  const buy = order.side === 'buy';
+  switch (order.type) {
+    case 'market':
+      return bar.open;
+    case 'limit': {
+      const limit = order.limitPrice!;
+      if (buy) {
+        if (bar.open <= limit) return bar.open;
+        return bar.low <= limit ? limit : null;
+      }
+      if (bar.open >= limit) return bar.open;
+      return bar.high >= limit ? limit : null;
+    }
+    case 'stop': {
+      const stop = order.stopPrice!;
+      if (buy) {
+        if (bar.open >= stop) return bar.open;
+        return bar.high >= stop ? stop : null;
+      }
+      if (bar.open <= stop) return bar.open;
+      return bar.low <= stop ? stop : null;
+    }
+  }
+}
+
+function tickFillPrice(order: BacktestOrder, trade: Trade): number | null {
+  const buy = order.side === 'buy';
+  switch (order.type) {
+    case 'market':
+      return trade.price;
+    case 'limit':
+      return (
+        buy
+          ? trade.price <= order.limitPrice!
+          : trade.price >= order.limitPrice!
+      )
+        ? trade.price
+        : null;
+    case 'stop':
+      return (
+        buy ? trade.price >= order.stopPrice! : trade.price <= order.stopPrice!
+      )
+        ? trade.price
+        : null;
+  }
+}
@@ -0,0 +1,108 @@
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import { getDatabase } from '../database';
+import { getMarketDataProvider } from '../marketdata';
+import type { MarketDataProvider } from '../marketdata/provider';
+import { getMetrics } from '../metrics';
+import { setSingleton, singleton } from '../singleton';
+import { StrategyError, loadStrategy } from '../strategy';
+import type { StrategyStore } from '../strategy/store';
+import type { BacktestRequest } from './config';
+import { loadBacktestEvents } from './data';
+import { runBacktest } from './engine';
+import {
+  FileBacktestStore,
+  type BacktestRecord,
+  type BacktestStore,
+} from './store';
+
+export * from './types';
+export * from './costs';
+export * from './config';
+export * from './store';
+export { runBacktest } from './engine';
+export { loadBacktestEvents } from './data';
+export { seededRandom } from './random';
+
+const STORE_KEY = 'backtest.store';
+
+/**
+ * The shared backtest store: files under `BACKTEST_RESULTS_DIR`, or the
+ * shared database's `backtest_results` with `BACKTEST_STORE=database`.
+ */
+export function getBacktestStore(): BacktestStore {
+  return singleton(STORE_KEY, () =>
+    process.env.BACKTEST_STORE === 'database'
+      ? getDatabase().backtestResults
+      : new FileBacktestStore(
+          path.resolve(process.env.BACKTEST_RESULTS_DIR || './.data/backtests')
+        )
+  );
+}
+
+export function setBacktestStore(store: BacktestStore | undefined): void {
+  setSingleton(STORE_KEY, store);
+}
+
+/** `userId`'s run `id`, or null if there is none or it is another's. */
+export async function getBacktest(
+  userId: string,
+  id: string,
+  store: BacktestStore = getBacktestStore()
+): Promise<BacktestRecord | null> {
+  const record = await store.get(id);
+  return record?.userId === userId ? record : null;
+}
+
+export interface ExecuteBacktestOptions {
+  provider?: MarketDataProvider;
+  /** Where to keep the result; pass `null` to skip saving. */
+  store?: BacktestStore | null;
+  /** Where uploaded strategies are looked up. */
+  strategies?: StrategyStore;
+}
+
+/**
+ * Loads data, runs a built-in strategy or one of `userId`'s uploads
+ * (sandboxed) and stores the result as theirs. Strategies failing mid-run
+ * are counted in the metrics.
+ */
+export async function executeBacktest(
+  userId: string,
+  request: BacktestRequest,
+  options: ExecuteBacktestOptions = {}
+): Promise<BacktestRecord> {
+  const provider = options.provider ?? getMarketDataProvider();
+  const loaded = await loadStrategy(
+    userId,
+    request.strategy,
+    request.params,
+    options.strategies
+  );
+  let record: BacktestRecord;
+  try {
+    const events = await loadBacktestEvents(provider, request.config);
+    record = {
+      id: randomUUID(),
+      userId,
+      createdAt: new Date().toISOString(),
+      params: request.params,
+      result: await runBacktest(loaded.strategy, events, request.config),
+    };
+  } catch (error) {
+    if (error instanceof StrategyError) {
+      getMetrics().strategyErrors.inc({
+        strategy: request.strategy,
+        code: error.code,
+      });
+    }
+    throw error;
+  } finally {
+    await loaded.dispose();
+  }
+
+  const store =
+    options.store === undefined ? getBacktestStore() : options.store;
+  await store?.save(record);
+  return record;
+}
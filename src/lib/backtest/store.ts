@@ -0,0 +1,168 @@
+import { mkdir, readFile, readdir, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { BacktestResult, BacktestSummary } from './types';
+
+export interface BacktestRecord {
+  id: string;
+  /** The user who ran it, the only one who may see it. */
+  userId: string;
+  createdAt: string;
+  params: Record<string, unknown>;
+  result: BacktestResult;
+}
+
+/** What listings show: everything but the bulky per-event series. */
+export interface BacktestListItem {
+  id: string;
+  createdAt: string;
+  strategy: string;
+  params: Record<string, unknown>;
+  symbols: string[];
+  summary: BacktestSummary;
+}
+
+export interface BacktestStore {
+  save(record: BacktestRecord): Promise<void>;
+  /** Any user's run: check its `userId` before showing it. */
+  get(id: string): Promise<BacktestRecord | null>;
+  /** The user's runs, most recent first. */
+  list(userId: string, limit?: number): Promise<BacktestListItem[]>;
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function toListItem(record: BacktestRecord): BacktestListItem {
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    strategy: record.result.strategy,
+    params: record.params,
+    symbols: record.result.config.symbols,
+    summary: record.result.summary,
+  };
+}
+
+function newestFirst(a: BacktestListItem, b: BacktestListItem): number {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+export class InMemoryBacktestStore implements BacktestStore {
+  private readonly records = new Map<string, BacktestRecord>();
+
+  async save(record: BacktestRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async get(id: string): Promise<BacktestRecord | null> {
+    return this.records.get(id) ?? null;
+  }
+
+  async list(userId: string, limit = 50): Promise<BacktestListItem[]> {
+    return Array.from(this.records.values())
+      .filter(record => record.userId === userId)
+      .map(toListItem)
+      .sort(newestFirst)
+      .slice(0, limit);
+  }
+}
+
+type IndexEntry = BacktestListItem & { userId: string };
+
+// Not a valid run id, so never mistaken for a run.
+const INDEX_FILE = '.index.json';
+
+/**
+ * Keeps one JSON document per run in `dir`, and an index of their list
+ * items so listings need not read every run. An index missing, e.g. in a
+ * directory written before there was one, is rebuilt from the runs.
+ */
+export class FileBacktestStore implements BacktestStore {
+  private index: Promise<IndexEntry[]> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly dir: string) {}
+
+  save(record: BacktestRecord): Promise<void> {
+    // One save at a time, so none is lost from the index.
+    const saved = this.writing.then(async () => {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(this.file(record.id), JSON.stringify(record), 'utf8');
+      const entries = (await this.entries()).filter(
+        entry => entry.id !== record.id
+      );
+      entries.push({ ...toListItem(record), userId: record.userId });
+      this.index = Promise.resolve(entries);
+      await this.writeIndex(entries);
+    });
+    this.writing = saved.catch(() => {});
+    return saved;
+  }
+
+  async get(id: string): Promise<BacktestRecord | null> {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await readFile(this.file(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(userId: string, limit = 50): Promise<BacktestListItem[]> {
+    return (await this.entries())
+      .filter(entry => entry.userId === userId)
+      .map(({ userId: _owner, ...item }) => item)
+      .sort(newestFirst)
+      .slice(0, limit);
+  }
+
+  private entries(): Promise<IndexEntry[]> {
+    this.index ??= this.readIndex().catch(error => {
+      this.index = null;
+      throw error;
+    });
+    return this.index;
+  }
+
+  private async readIndex(): Promise<IndexEntry[]> {
+    try {
+      return JSON.parse(
+        await readFile(path.join(this.dir, INDEX_FILE), 'utf8')
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    const entries = await this.rebuildIndex();
+    if (entries.length > 0) await this.writeIndex(entries);
+    return entries;
+  }
+
+  private async rebuildIndex(): Promise<IndexEntry[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const records = await Promise.all(
+      names
+        .filter(name => name.endsWith('.json'))
+        .map(name => this.get(name.slice(0, -'.json'.length)))
+    );
+    return records
+      .filter((record): record is BacktestRecord => record !== null)
+      .map(record => ({ ...toListItem(record), userId: record.userId }));
+  }
+
+  /** Writes a temporary file first, so the index is never half written. */
+  private async writeIndex(entries: IndexEntry[]): Promise<void> {
+    const file = path.join(this.dir, INDEX_FILE);
+    await writeFile(`${file}.tmp`, JSON.stringify(entries), 'utf8');
+    await rename(`${file}.tmp`, file);
+  }
+
+  private file(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
@@ -0,0 +1,77 @@
+import type { Bar, Timeframe, Trade } from '../marketdata/types';
+import type { Fill, Position, StrategyOrder } from '../strategy/types';
+import type { CommissionSpec, SlippageSpec } from './costs';
+
+export type BacktestOrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+export interface BacktestOrder extends StrategyOrder {
+  status: BacktestOrderStatus;
+  reason?: string;
+}
+
+/** A completed round trip, from flat to flat. */
+export interface TradeRecord {
+  symbol: string;
+  side: 'long' | 'short';
+  entryTime: number;
+  exitTime: number;
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number;
+  commission: number;
+  pnl: number;
+  returnPct: number;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+  cash: number;
+}
+
+export type BacktestEvent =
+  { kind: 'bar'; bar: Bar } | { kind: 'tick'; trade: Trade };
+
+export interface BacktestConfig {
+  symbols: string[];
+  /** Replay bars at `timeframe`, or individual trade prints. */
+  mode: 'bars' | 'ticks';
+  timeframe: Timeframe;
+  start?: number;
+  end?: number;
+  initialCapital: number;
+  /** Seeds every random choice (e.g. random slippage) for repeatable runs. */
+  seed: number;
+  slippage: SlippageSpec;
+  commission: CommissionSpec;
+  allowShort: boolean;
+}
+
+export interface BacktestSummary {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturn: number;
+  maxDrawdown: number;
+  tradeCount: number;
+  winRate: number | null;
+  totalCommission: number;
+}
+
+export interface BacktestResult {
+  strategy: string;
+  config: BacktestConfig;
+  summary: BacktestSummary;
+  equityCurve: EquityPoint[];
+  trades: TradeRecord[];
+  fills: Fill[];
+  orders: BacktestOrder[];
+  openPositions: Position[];
+  logs: { timestamp: number; message: string }[];
+}
+
+export class BacktestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestError';
+  }
+}
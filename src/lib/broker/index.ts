@@ -0,0 +1,46 @@
+import { getMarketDataProvider } from '../marketdata';
+import { setSingleton, singleton } from '../singleton';
+import { getMarketFeed, getStreamHub } from '../streaming';
+import { followMarket } from './market';
+import { PaperBroker } from './paper-broker';
+
+export * from './types';
+export * from './market';
+export {
+  PaperBroker,
+  validateRequest,
+  type PaperBrokerOptions,
+} from './paper-broker';
+
+const BROKER_KEY = 'broker.paper';
+
+export function paperBrokerOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+) {
+  const rate = Number(env.PAPER_PARTICIPATION_RATE);
+  return {
+    participationRate: rate > 0 && rate <= 1 ? rate : undefined,
+  };
+}
+
+/**
+ * The shared paper broker, created on first use. It trades on the shared
+ * market feed, in real time; symbols it has not seen market data for yet
+ * are primed with the provider's latest quote.
+ */
+export function getPaperBroker(): PaperBroker {
+  return singleton(BROKER_KEY, () => {
+    const broker = new PaperBroker({
+      ...paperBrokerOptionsFromEnv(),
+      live: true,
+      quoteSource: symbol => getMarketDataProvider().getQuote(symbol),
+    });
+    followMarket(broker, getStreamHub(), getMarketFeed());
+    return broker;
+  });
+}
+
+/** Overrides the shared paper broker, e.g. in tests. */
+export function setPaperBroker(broker: PaperBroker | undefined): void {
+  setSingleton(BROKER_KEY, broker);
+}
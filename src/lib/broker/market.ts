@@ -0,0 +1,93 @@
+import type { Bar, Quote, Timeframe } from '../marketdata/types';
+import type { StreamHub } from '../streaming/hub';
+import type { MarketFeed } from '../streaming/sources';
+import type { PaperBroker } from './paper-broker';
+
+interface BarUpdate {
+  timeframe: Timeframe;
+  bar: Bar;
+}
+
+export interface FollowMarketOptions {
+  /** How often the clock is moved on while the market is quiet. */
+  intervalMs?: number;
+  clock?: () => number;
+}
+
+/**
+ * Matches the broker's orders against the quotes and bars published to
+ * the hub, and keeps the market feed watching every symbol with an open
+ * order. The feed republishes a bar as it forms, so a bar is matched once
+ * the next one starts. In between, the broker's clock is moved on so
+ * `day` orders expire even without market data. Returns a function that
+ * stops.
+ */
+export function followMarket(
+  broker: PaperBroker,
+  hub: StreamHub,
+  feed: MarketFeed,
+  options: FollowMarketOptions = {}
+): () => void {
+  const clock = options.clock ?? Date.now;
+  const subscription = hub.subscribe({ channels: ['quotes', 'bars'] });
+  const forming = new Map<string, BarUpdate>();
+  void (async () => {
+    for (;;) {
+      const event = await subscription.next();
+      if (!event) return;
+      try {
+        if (event.channel === 'quotes') {
+          broker.process({ kind: 'quote', quote: event.data as Quote });
+          continue;
+        }
+        const update = event.data as BarUpdate;
+        const key = `${update.bar.symbol}:${update.timeframe}`;
+        const previous = forming.get(key);
+        forming.set(key, update);
+        if (previous && update.bar.timestamp > previous.bar.timestamp) {
+          broker.process({ kind: 'bar', bar: previous.bar });
+        }
+      } catch (error) {
+        console.error('Matching orders failed', error);
+      }
+    }
+  })();
+
+  const timer = setInterval(
+    () => broker.advanceTo(clock()),
+    options.intervalMs ?? 1_000
+  );
+  // Never keep the process alive just to keep time.
+  (timer as { unref?: () => void }).unref?.();
+
+  let watching = '';
+  let unwatch = () => {};
+  let syncing = Promise.resolve();
+  const sync = () => {
+    syncing = syncing
+      .then(() => broker.listOrders({ status: 'open' }))
+      .then(orders => {
+        const symbols = orders
+          .map(order => order.symbol)
+          .filter((symbol, i, all) => all.indexOf(symbol) === i)
+          .sort();
+        if (symbols.join() === watching) return;
+        const stop = symbols.length > 0 ? feed.watch(symbols) : () => {};
+        unwatch();
+        unwatch = stop;
+        watching = symbols.join();
+      })
+      .catch(error => console.error('Watching order symbols failed', error));
+  };
+  const unsubscribe = broker.subscribe(event => {
+    if (event.type !== 'triggered') sync();
+  });
+  sync();
+
+  return () => {
+    subscription.close();
+    clearInterval(timer);
+    unsubscribe();
+    void syncing.then(() => unwatch());
+  };
+}
@@ -0,0 +1,120 @@
+import type { OrderSide } from '../strategy/types';
+import type { BrokerOrder, MarketEvent } from './types';
+
+export function eventSymbol(event: MarketEvent): string {
+  switch (event.kind) {
+    case 'trade':
+      return event.trade.symbol;
+    case 'quote':
+      return event.quote.symbol;
+    case 'bar':
+      return event.bar.symbol;
+  }
+}
+
+export function eventTime(event: MarketEvent): number {
+  switch (event.kind) {
+    case 'trade':
+      return event.trade.timestamp;
+    case 'quote':
+      return event.quote.timestamp;
+    case 'bar':
+      return event.bar.timestamp;
+  }
+}
+
+/** Shares available to each side in `event`, before participation limits. */
+export function availableSize(event: MarketEvent, side: OrderSide): number {
+  switch (event.kind) {
+    case 'trade':
+      return event.trade.size;
+    case 'quote':
+      return side === 'buy' ? event.quote.askSize : event.quote.bidSize;
+    case 'bar':
+      return event.bar.volume;
+  }
+}
+
+/** The best price `event` shows to an order on `side` (the touch). */
+function touch(event: MarketEvent, side: OrderSide): number {
+  switch (event.kind) {
+    case 'trade':
+      return event.trade.price;
+    case 'quote':
+      return side === 'buy' ? event.quote.ask : event.quote.bid;
+    case 'bar':
+      return event.bar.open;
+  }
+}
+
+/** Most adverse price in `event` for a stop on `side`. */
+function adverse(event: MarketEvent, side: OrderSide): number {
+  if (event.kind === 'bar') {
+    return side === 'buy' ? event.bar.high : event.bar.low;
+  }
+  return touch(event, side);
+}
+
+/** Most favourable price in `event` for a trailing stop on `side`. */
+export function favourable(event: MarketEvent, side: OrderSide): number {
+  if (event.kind === 'bar') {
+    return side === 'buy' ? event.bar.low : event.bar.high;
+  }
+  // A sell trails the bid up and a buy trails the ask down.
+  return touch(event, side);
+}
+
+export function trailingStopFrom(order: BrokerOrder, price: number): number {
+  const offset = order.trailAmount ?? (price * (order.trailPercent ?? 0)) / 100;
+  return order.side === 'buy' ? price + offset : price - offset;
+}
+
+/** The stop level in force: fixed, or the trailing stop once known. */
+export function stopLevel(order: BrokerOrder): number | undefined {
+  return order.type === 'trailing-stop' ? order.trailingStop : order.stopPrice;
+}
+
+export function isStopTriggered(
+  order: BrokerOrder,
+  event: MarketEvent
+): boolean {
+  const stop = stopLevel(order);
+  if (stop === undefined) return false;
+  const price = adverse(event, order.side);
+  return order.side === 'buy' ? price >= stop : price <= stop;
+}
+
+/**
+ * Price at which `order` executes in `event`, or `null` if it does not.
+ * Stop-type orders must already be triggered; `triggeredNow` says the stop
+ * went off inside this very event, in which case a bar fills at the stop
+ * (or the open, if it gapped through) rather than at the open.
+ */
+export function executionPrice(
+  order: BrokerOrder,
+  event: MarketEvent,
+  triggeredNow: boolean
+): number | null {
+  const buy = order.side === 'buy';
+  let base = touch(event, order.side);
+  if (triggeredNow && event.kind === 'bar') {
+    const stop = stopLevel(order)!;
+    base = buy
+      ? Math.max(event.bar.open, stop)
+      : Math.min(event.bar.open, stop);
+  }
+
+  const limit =
+    order.type === 'limit' || order.type === 'stop-limit'
+      ? order.limitPrice!
+      : undefined;
+  if (limit === undefined) return base;
+  if (buy ? base <= limit : base >= limit) return base;
+  // A resting limit inside the bar's range fills at the limit.
+  if (event.kind === 'bar' && !triggeredNow) {
+    return (buy ? event.bar.low <= limit : event.bar.high >= limit)
+      ? limit
+      : null;
+  }
+  return null;
+}
@@ -0,0 +1,737 @@
+import { commissionModel, type CommissionSpec } from '../backtest/costs';
+import {
+  US_EQUITY_SESSION,
+  sessionBounds,
+  type TradingSession,
+} from '../marketdata/session';
+import type { Quote } from '../marketdata/types';
+import {
+  availableSize,
+  eventSymbol,
+  eventTime,
+  executionPrice,
+  favourable,
+  isStopTriggered,
+  trailingStopFrom,
+} from './matching';
+import {
+  BROKER_ORDER_TYPES,
+  BrokerError,
+  OPEN_BROKER_STATUSES,
+  TIME_IN_FORCE,
+  type BracketOrderRequest,
+  type Broker,
+  type BrokerEvent,
+  type BrokerEventType,
+  type BrokerListener,
+  type BrokerOrder,
+  type BrokerOrderRequest,
+  type Execution,
+  type MarketEvent,
+  type OrderChanges,
+  type OrderFilter,
+} from './types';
+
+export interface PaperBrokerOptions {
+  /**
+   * Share of each print's size, the quoted size or a bar's volume that
+   * orders may take, between 0 and 1. Defaults to 1.
+   */
+  participationRate?: number;
+  commission?: CommissionSpec;
+  /** When `day` orders expire. Defaults to US equity hours. */
+  session?: TradingSession;
+  /** Used for timestamps until the first market event arrives. */
+  clock?: () => number;
+  /**
+   * Keeps time by `clock` even once market events arrive, which can only
+   * move it further ahead: for trading on a live feed, whose data may lag.
+   * By default the events' own times are the time, as when replaying.
+   */
+  live?: boolean;
+  /**
+   * Looks up the current quote for a symbol the broker has no market data
+   * for yet, so a first order has something to match against.
+   */
+  quoteSource?: (symbol: string) => Promise<Quote | null>;
+}
+
+type Liquidity = Record<'buy' | 'sell', number>;
+
+interface OcoGroup {
+  /**
+   * `cancel`: the first fill cancels the other legs (plain OCO).
+   * `reduce`: fills shrink the other legs by as much (bracket exits).
+   */
+  mode: 'cancel' | 'reduce';
+  orderIds: string[];
+}
+
+const STOP_TYPES: readonly string[] = ['stop', 'stop-limit', 'trailing-stop'];
+const DAY_MS = 86_400_000;
+const EPSILON = 1e-9;
+
+/**
+ * A simulated broker that matches orders against the market data fed to
+ * {@link process}: trade prints, top-of-book quotes or bars.
+ *
+ * Orders can take at most `participationRate` of each event's size, so
+ * large orders fill partially over several events. Market and limit
+ * orders also match immediately against the last quote, if one has been
+ * seen, each with the full size it showed. A bar only fills orders placed
+ * before it opened.
+ */
+export class PaperBroker implements Broker {
+  readonly name = 'paper';
+  private readonly orders = new Map<string, BrokerOrder>();
+  private readonly clientOrderIds = new Map<string, string>();
+  private readonly executions: Execution[] = [];
+  private readonly groups = new Map<string, OcoGroup>();
+  private readonly listeners = new Set<BrokerListener>();
+  private readonly quotes = new Map<string, Quote>();
+  private readonly lastPrices = new Map<string, number>();
+  /** IOC and FOK orders still waiting for their one look at the market. */
+  private readonly awaitingMarket = new Set<string>();
+  private readonly participationRate: number;
+  private readonly commission: (quantity: number, price: number) => number;
+  private readonly session: TradingSession;
+  private readonly clock: () => number;
+  private readonly live: boolean;
+  private readonly quoteSource?: (symbol: string) => Promise<Quote | null>;
+  private marketTime: number | null = null;
+  private orderSeq = 0;
+  private fillSeq = 0;
+  private groupSeq = 0;
+
+  constructor(options: PaperBrokerOptions = {}) {
+    this.participationRate = options.participationRate ?? 1;
+    this.commission = commissionModel(options.commission ?? { type: 'none' });
+    this.session = options.session ?? US_EQUITY_SESSION;
+    this.clock = options.clock ?? Date.now;
+    this.live = options.live ?? false;
+    this.quoteSource = options.quoteSource;
+  }
+
+  async submit(request: BrokerOrderRequest): Promise<BrokerOrder> {
+    await this.primeQuote(request.symbol);
+    return { ...this.place(request) };
+  }
+
+  async submitBracket(request: BracketOrderRequest): Promise<BrokerOrder[]> {
+    await this.primeQuote(request.symbol);
+    const exitSide = request.side === 'buy' ? 'sell' : 'buy';
+    const takeProfit: BrokerOrderRequest = {
+      symbol: request.symbol,
+      side: exitSide,
+      quantity: request.quantity,
+      type: 'limit',
+      limitPrice: request.takeProfit?.limitPrice,
+      timeInForce: request.timeInForce,
+    };
+    const stopLoss: BrokerOrderRequest = {
+      symbol: request.symbol,
+      side: exitSide,
+      quantity: request.quantity,
+      type: request.stopLoss?.limitPrice === undefined ? 'stop' : 'stop-limit',
+      stopPrice: request.stopLoss?.stopPrice,
+      limitPrice: request.stopLoss?.limitPrice,
+      timeInForce: request.timeInForce,
+    };
+
+    let problem =
+      validateRequest(request) ??
+      prefixed('takeProfit', validateRequest(takeProfit)) ??
+      prefixed('stopLoss', validateRequest(stopLoss));
+    if (!problem && isImmediate(request)) {
+      problem = 'Bracket orders cannot be IOC or FOK';
+    }
+    if (!problem) {
+      const target = takeProfit.limitPrice!;
+      const stop = stopLoss.stopPrice!;
+      if (request.side === 'buy' ? target <= stop : target >= stop) {
+        problem = `takeProfit.limitPrice must be ${
+          request.side === 'buy' ? 'above' : 'below'
+        } stopLoss.stopPrice`;
+      }
+    }
+    if (problem) {
+      return [request, takeProfit, stopLoss].map(leg => ({
+        ...this.reject(leg, problem!),
+      }));
+    }
+
+    const entry = this.place(request, { match: false });
+    const group = this.group('reduce');
+    const exits = [takeProfit, stopLoss].map(leg =>
+      this.place(leg, {
+        held: true,
+        parentId: entry.id,
+        ocoGroup: group,
+        match: false,
+      })
+    );
+    this.matchOnSubmit(entry);
+    return [entry, ...exits].map(order => ({ ...order }));
+  }
+
+  async submitOco(legs: BrokerOrderRequest[]): Promise<BrokerOrder[]> {
+    let problem: string | null = null;
+    if (legs.length < 2) problem = 'OCO orders need at least two legs';
+    legs.forEach((leg, index) => {
+      problem ??= prefixed(`legs[${index}]`, validateRequest(leg));
+      if (!problem && isImmediate(leg)) {
+        problem = `legs[${index}] cannot be IOC or FOK`;
+      }
+    });
+    if (problem) return legs.map(leg => ({ ...this.reject(leg, problem!) }));
+
+    for (const leg of legs) await this.primeQuote(leg.symbol);
+
+    const group = this.group('cancel');
+    const orders = legs.map(leg =>
+      this.place(leg, { ocoGroup: group, match: false })
+    );
+    orders.forEach(order => this.matchOnSubmit(order));
+    return orders.map(order => ({ ...order }));
+  }
+
+  /**
+   * Cancels an open order. Cancelling one leg of an OCO group or bracket
+   * exit cancels the others; cancelling a bracket entry cancels its exits
+   * unless it was partially filled, in which case they protect the fill.
+   */
+  async cancel(orderId: string): Promise<BrokerOrder> {
+    const order = this.openOrder(orderId);
+    this.close(order, 'cancelled');
+    this.siblings(order).forEach(sibling => this.close(sibling, 'cancelled'));
+    return { ...order };
+  }
+
+  /**
+   * Cancel/replace: the order is closed as `replaced` and a new order with
+   * the changes takes over its fills, group and bracket exits.
+   */
+  async replace(orderId: string, changes: OrderChanges): Promise<BrokerOrder> {
+    const order = this.openOrder(orderId);
+    const now = this.now();
+    const replacement: BrokerOrder = {
+      ...order,
+      ...definedOnly(changes),
+      id: this.nextOrderId(),
+      createdAt: now,
+      updatedAt: now,
+      replaces: order.id,
+    };
+    if (changes.trailAmount !== undefined) delete replacement.trailPercent;
+    if (changes.trailPercent !== undefined) delete replacement.trailAmount;
+
+    const problem = validateRequest(replacement);
+    if (problem) throw new BrokerError('INVALID_CHANGE', problem);
+    if (changes.timeInForce && isImmediate(replacement)) {
+      throw new BrokerError(
+        'INVALID_CHANGE',
+        'Orders cannot be replaced into IOC or FOK'
+      );
+    }
+    if (replacement.quantity <= order.filledQuantity + EPSILON) {
+      throw new BrokerError(
+        'INVALID_CHANGE',
+        `quantity must exceed the ${order.filledQuantity} already filled`
+      );
+    }
+
+    if (replacement.timeInForce !== 'day') delete replacement.expiresAt;
+    else if (replacement.expiresAt === undefined && order.status !== 'held') {
+      replacement.expiresAt = this.sessionClose(now);
+    }
+    if (
+      replacement.type === 'trailing-stop' &&
+      (changes.trailAmount !== undefined || changes.trailPercent !== undefined)
+    ) {
+      delete replacement.trailingStop;
+      this.initTrailingStop(replacement);
+    }
+
+    order.status = 'replaced';
+    order.replacedBy = replacement.id;
+    order.updatedAt = now;
+    this.orders.set(replacement.id, replacement);
+    if (order.clientOrderId) {
+      this.clientOrderIds.set(order.clientOrderId, replacement.id);
+    }
+    if (order.ocoGroup) {
+      const group = this.groups.get(order.ocoGroup)!;
+      group.orderIds = group.orderIds.map(id =>
+        id === order.id ? replacement.id : id
+      );
+    }
+    this.children(order).forEach(child => {
+      child.parentId = replacement.id;
+    });
+
+    this.emit('replaced', order);
+    this.emit('accepted', replacement);
+    if (replacement.status !== 'held') this.matchOnSubmit(replacement);
+    return { ...replacement };
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrder | null> {
+    const order = this.orders.get(orderId);
+    return order ? { ...order } : null;
+  }
+
+  /** Looks an order up by the client's id; follows cancel/replace chains. */
+  async getOrderByClientId(clientOrderId: string): Promise<BrokerOrder | null> {
+    const id = this.clientOrderIds.get(clientOrderId);
+    return id ? this.getOrder(id) : null;
+  }
+
+  async listOrders(filter: OrderFilter = {}): Promise<BrokerOrder[]> {
+    return Array.from(this.orders.values())
+      .filter(order => !filter.symbol || order.symbol === filter.symbol)
+      .filter(order =>
+        filter.status === 'open'
+          ? isOpen(order)
+          : !filter.status || order.status === filter.status
+      )
+      .map(order => ({ ...order }));
+  }
+
+  async listExecutions(orderId?: string): Promise<Execution[]> {
+    return this.executions
+      .filter(execution => !orderId || execution.orderId === orderId)
+      .map(execution => ({ ...execution }));
+  }
+
+  subscribe(listener: BrokerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Matches open orders for the event's symbol against it. */
+  process(event: MarketEvent): void {
+    const time = eventTime(event);
+    this.advanceTo(time);
+    const symbol = eventSymbol(event);
+    const liquidity = this.liquidity(event);
+    if (event.kind === 'quote') this.quotes.set(symbol, event.quote);
+
+    const candidates = Array.from(this.orders.values()).filter(
+      order =>
+        order.symbol === symbol &&
+        order.status !== 'held' &&
+        // Orders placed after a bar opened never saw all of its range.
+        (event.kind !== 'bar' || order.createdAt <= time)
+    );
+    for (const order of candidates) {
+      if (!isOpen(order)) continue;
+      this.match(order, event, liquidity);
+      if (this.awaitingMarket.delete(order.id)) this.finishImmediate(order);
+    }
+    this.lastPrices.set(symbol, lastPrice(event));
+  }
+
+  /** Moves the clock forward, expiring `day` orders past the close. */
+  advanceTo(time: number): void {
+    this.marketTime = Math.max(this.marketTime ?? time, time);
+    const now = this.now();
+    this.orders.forEach(order => {
+      if (
+        isOpen(order) &&
+        order.expiresAt !== undefined &&
+        now >= order.expiresAt
+      ) {
+        this.close(order, 'expired');
+      }
+    });
+  }
+
+  private async primeQuote(symbol: unknown): Promise<void> {
+    if (!this.quoteSource || typeof symbol !== 'string') return;
+    if (this.quotes.has(symbol)) return;
+    const quote = await this.quoteSource(symbol);
+    if (quote && !this.quotes.has(symbol)) {
+      this.process({ kind: 'quote', quote });
+    }
+  }
+
+  private place(
+    request: BrokerOrderRequest,
+    options: {
+      held?: boolean;
+      parentId?: string;
+      ocoGroup?: string;
+      match?: boolean;
+    } = {}
+  ): BrokerOrder {
+    const problem =
+      validateRequest(request) ??
+      (request.clientOrderId && this.clientOrderIds.has(request.clientOrderId)
+        ? `Duplicate clientOrderId ${request.clientOrderId}`
+        : null);
+    if (problem) return this.reject(request, problem);
+
+    const order = this.newOrder(request, options.held ? 'held' : 'accepted');
+    order.parentId = options.parentId;
+    order.ocoGroup = options.ocoGroup;
+    if (order.ocoGroup) {
+      this.groups.get(order.ocoGroup)!.orderIds.push(order.id);
+    }
+    if (order.timeInForce === 'day' && !options.held) {
+      order.expiresAt = this.sessionClose(order.createdAt);
+    }
+    if (!options.held) this.initTrailingStop(order);
+
+    this.orders.set(order.id, order);
+    if (order.clientOrderId) {
+      this.clientOrderIds.set(order.clientOrderId, order.id);
+    }
+    this.emit('accepted', order);
+    if (options.match !== false) this.matchOnSubmit(order);
+    return order;
+  }
+
+  private reject(request: BrokerOrderRequest, reason: string): BrokerOrder {
+    const order = this.newOrder(request, 'rejected');
+    order.rejectReason = reason;
+    this.orders.set(order.id, order);
+    this.emit('rejected', order);
+    return order;
+  }
+
+  private newOrder(
+    request: BrokerOrderRequest,
+    status: BrokerOrder['status']
+  ): BrokerOrder {
+    const now = this.now();
+    const type = request.type ?? 'market';
+    const usesLimit = type === 'limit' || type === 'stop-limit';
+    const usesStop = type === 'stop' || type === 'stop-limit';
+    const trailing = type === 'trailing-stop';
+    return {
+      id: this.nextOrderId(),
+      clientOrderId: request.clientOrderId,
+      symbol: request.symbol,
+      side: request.side,
+      type,
+      quantity: request.quantity,
+      limitPrice: usesLimit ? request.limitPrice : undefined,
+      stopPrice: usesStop ? request.stopPrice : undefined,
+      trailAmount: trailing ? request.trailAmount : undefined,
+      trailPercent: trailing ? request.trailPercent : undefined,
+      timeInForce: request.timeInForce ?? 'day',
+      status,
+      filledQuantity: 0,
+      averageFillPrice: null,
+      triggered: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private nextOrderId(): string {
+    return `paper-${++this.orderSeq}`;
+  }
+
+  private group(mode: OcoGroup['mode']): string {
+    const id = `oco-${++this.groupSeq}`;
+    this.groups.set(id, { mode, orderIds: [] });
+    return id;
+  }
+
+  /** Gives a new order its first look at the market: the last quote. */
+  private matchOnSubmit(order: BrokerOrder): void {
+    const last = this.quotes.get(order.symbol);
+    if (last && isOpen(order)) {
+      const event: MarketEvent = { kind: 'quote', quote: last };
+      this.match(order, event, this.liquidity(event));
+    }
+    if (isImmediate(order)) {
+      if (last) this.finishImmediate(order);
+      else this.awaitingMarket.add(order.id);
+    }
+  }
+
+  /** IOC and FOK orders get one look at the market; then they are done. */
+  private finishImmediate(order: BrokerOrder): void {
+    if (isOpen(order)) this.close(order, 'cancelled');
+  }
+
+  private match(
+    order: BrokerOrder,
+    event: MarketEvent,
+    liquidity: Liquidity
+  ): void {
+    let triggeredNow = false;
+    if (STOP_TYPES.includes(order.type) && !order.triggered) {
+      if (order.type === 'trailing-stop' && order.trailingStop === undefined) {
+        this.trail(order, event);
+        return;
+      }
+      if (!isStopTriggered(order, event)) {
+        if (order.type === 'trailing-stop') this.trail(order, event);
+        return;
+      }
+      order.triggered = true;
+      order.updatedAt = this.now();
+      triggeredNow = true;
+      this.emit('triggered', order);
+    }
+
+    const price = executionPrice(order, event, triggeredNow);
+    if (price === null) return;
+    const remaining = order.quantity - order.filledQuantity;
+    const quantity = Math.min(remaining, liquidity[order.side]);
+    if (quantity <= EPSILON) return;
+    if (order.timeInForce === 'fok' && quantity < remaining - EPSILON) return;
+
+    liquidity[order.side] -= quantity;
+    this.execute(order, quantity, price);
+  }
+
+  /** What orders on each side may take from `event`, between them. */
+  private liquidity(event: MarketEvent): Liquidity {
+    return {
+      buy: Math.floor(availableSize(event, 'buy') * this.participationRate),
+      sell: Math.floor(availableSize(event, 'sell') * this.participationRate),
+    };
+  }
+
+  private trail(order: BrokerOrder, event: MarketEvent): void {
+    const candidate = trailingStopFrom(order, favourable(event, order.side));
+    const current = order.trailingStop;
+    if (
+      current === undefined ||
+      (order.side === 'sell' ? candidate > current : candidate < current)
+    ) {
+      order.trailingStop = candidate;
+    }
+  }
+
+  private initTrailingStop(order: BrokerOrder): void {
+    if (order.type !== 'trailing-stop') return;
+    const price = this.lastPrices.get(order.symbol);
+    if (price !== undefined)
+      order.trailingStop = trailingStopFrom(order, price);
+  }
+
+  private execute(order: BrokerOrder, quantity: number, price: number): void {
+    const timestamp = this.now();
+    const execution: Execution = {
+      id: `paper-fill-${++this.fillSeq}`,
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity,
+      price,
+      commission: this.commission(quantity, price),
+      timestamp,
+    };
+    this.executions.push(execution);
+
+    const filled = order.filledQuantity + quantity;
+    order.averageFillPrice =
+      ((order.averageFillPrice ?? 0) * order.filledQuantity +
+        price * quantity) /
+      filled;
+    order.filledQuantity = filled;
+    order.status =
+      filled >= order.quantity - EPSILON ? 'filled' : 'partially_filled';
+    order.updatedAt = timestamp;
+    this.emit('fill', order, execution);
+
+    const group = order.ocoGroup ? this.groups.get(order.ocoGroup) : undefined;
+    this.siblings(order).forEach(sibling => {
+      if (group?.mode === 'reduce') {
+        sibling.quantity -= quantity;
+        sibling.updatedAt = timestamp;
+        if (sibling.quantity - sibling.filledQuantity <= EPSILON) {
+          this.close(sibling, 'cancelled');
+        }
+      } else {
+        this.close(sibling, 'cancelled');
+      }
+    });
+    if (order.status === 'filled') this.releaseChildren(order);
+  }
+
+  private close(order: BrokerOrder, status: 'cancelled' | 'expired'): void {
+    if (!isOpen(order)) return;
+    order.status = status;
+    order.updatedAt = this.now();
+    this.awaitingMarket.delete(order.id);
+    this.emit(status, order);
+    this.releaseChildren(order);
+  }
+
+  /**
+   * Once an entry is done, its exits go live for what was filled, or are
+   * cancelled if nothing was.
+   */
+  private releaseChildren(entry: BrokerOrder): void {
+    this.children(entry)
+      .filter(child => child.status === 'held')
+      .forEach(child => {
+        if (entry.filledQuantity <= EPSILON) {
+          this.close(child, 'cancelled');
+          return;
+        }
+        const now = this.now();
+        child.quantity = entry.filledQuantity;
+        child.status = 'accepted';
+        child.updatedAt = now;
+        if (child.timeInForce === 'day') {
+          child.expiresAt = this.sessionClose(now);
+        }
+        this.initTrailingStop(child);
+        this.emit('accepted', child);
+      });
+  }
+
+  private siblings(order: BrokerOrder): BrokerOrder[] {
+    const group = order.ocoGroup ? this.groups.get(order.ocoGroup) : undefined;
+    if (!group) return [];
+    return group.orderIds
+      .filter(id => id !== order.id)
+      .map(id => this.orders.get(id)!)
+      .filter(isOpen);
+  }
+
+  private children(order: BrokerOrder): BrokerOrder[] {
+    return Array.from(this.orders.values()).filter(
+      child => child.parentId === order.id
+    );
+  }
+
+  private openOrder(orderId: string): BrokerOrder {
+    const order = this.orders.get(orderId);
+    if (!order) throw new BrokerError('NOT_FOUND', `Unknown order ${orderId}`);
+    if (!isOpen(order)) {
+      throw new BrokerError('NOT_OPEN', `Order ${orderId} is ${order.status}`);
+    }
+    return order;
+  }
+
+  private sessionClose(time: number): number {
+    const { close } = sessionBounds(time, this.session);
+    return time < close
+      ? close
+      : sessionBounds(time + DAY_MS, this.session).close;
+  }
+
+  private now(): number {
+    if (this.live) return Math.max(this.clock(), this.marketTime ?? 0);
+    return this.marketTime ?? this.clock();
+  }
+
+  private emit(
+    type: BrokerEventType,
+    order: BrokerOrder,
+    fill?: Execution
+  ): void {
+    const event: BrokerEvent = {
+      type,
+      timestamp: this.now(),
+      order: { ...order },
+    };
+    if (fill) event.fill = { ...fill };
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        // One bad subscriber must not stall matching for everyone else.
+        console.error('Broker listener failed', error);
+      }
+    });
+  }
+}
+
+function isOpen(order: BrokerOrder): boolean {
+  return OPEN_BROKER_STATUSES.includes(order.status);
+}
+
+function isImmediate(order: { timeInForce?: string }): boolean {
+  return order.timeInForce === 'ioc' || order.timeInForce === 'fok';
+}
+
+function lastPrice(event: MarketEvent): number {
+  switch (event.kind) {
+    case 'trade':
+      return event.trade.price;
+    case 'quote':
+      return event.quote.last;
+    case 'bar':
+      return event.bar.close;
+  }
+}
+
+function prefixed(prefix: string, problem: string | null): string | null {
+  return problem && `${prefix}: ${problem}`;
+}
+
+function definedOnly<T extends object>(changes: T): Partial<T> {
+  const result: Partial<T> = {};
+  (Object.keys(changes) as (keyof T)[]).forEach(key => {
+    if (changes[key] !== undefined) result[key] = changes[key];
+  });
+  return result;
+}
+
+const positive = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/** Why `request` cannot be accepted, or `null` if it can. */
+export function validateRequest(request: BrokerOrderRequest): string | null {
+  const type = request.type ?? 'market';
+  const timeInForce = request.timeInForce ?? 'day';
+  if (typeof request.symbol !== 'string' || request.symbol === '') {
+    return 'symbol is required';
+  }
+  if (request.side !== 'buy' && request.side !== 'sell') {
+    return 'side must be buy or sell';
+  }
+  if (!positive(request.quantity)) return 'quantity must be positive';
+  if (!BROKER_ORDER_TYPES.includes(type)) {
+    return `type must be one of ${BROKER_ORDER_TYPES.join(', ')}`;
+  }
+  if (!TIME_IN_FORCE.includes(timeInForce)) {
+    return `timeInForce must be one of ${TIME_IN_FORCE.join(', ')}`;
+  }
+  if (
+    (type === 'limit' || type === 'stop-limit') &&
+    !positive(request.limitPrice)
+  ) {
+    return `${type} orders need a positive limitPrice`;
+  }
+  if (
+    (type === 'stop' || type === 'stop-limit') &&
+    !positive(request.stopPrice)
+  ) {
+    return `${type} orders need a positive stopPrice`;
+  }
+  if (type === 'trailing-stop') {
+    const byAmount = request.trailAmount !== undefined;
+    const byPercent = request.trailPercent !== undefined;
+    if (byAmount === byPercent) {
+      return 'trailing-stop orders need exactly one of trailAmount and trailPercent';
+    }
+    if (byAmount && !positive(request.trailAmount)) {
+      return 'trailAmount must be positive';
+    }
+    if (
+      byPercent &&
+      !(positive(request.trailPercent) && request.trailPercent! < 100)
+    ) {
+      return 'trailPercent must be between 0 and 100';
+    }
+  }
+  if (
+    (timeInForce === 'ioc' || timeInForce === 'fok') &&
+    STOP_TYPES.includes(type)
+  ) {
+    return 'IOC and FOK are only supported for market and limit orders';
+  }
+  return null;
+}
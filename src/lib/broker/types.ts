@@ -0,0 +1,185 @@
+import type { Bar, Quote, Trade } from '../marketdata/types';
+import type { OrderSide } from '../strategy/types';
+
+export type BrokerOrderType =
+  'market' | 'limit' | 'stop' | 'stop-limit' | 'trailing-stop';
+
+export const BROKER_ORDER_TYPES: readonly BrokerOrderType[] = [
+  'market',
+  'limit',
+  'stop',
+  'stop-limit',
+  'trailing-stop',
+];
+
+/**
+ * `day` orders expire at the session close, `gtc` ones never do. `ioc` fills
+ * what it can on its first chance and cancels the rest; `fok` fills
+ * completely on its first chance or not at all.
+ */
+export type TimeInForce = 'day' | 'gtc' | 'ioc' | 'fok';
+
+export const TIME_IN_FORCE: readonly TimeInForce[] = [
+  'day',
+  'gtc',
+  'ioc',
+  'fok',
+];
+
+export interface BrokerOrderRequest {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  /** Defaults to `market`. */
+  type?: BrokerOrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  /** Trailing stops trail by a fixed amount or a percentage, not both. */
+  trailAmount?: number;
+  trailPercent?: number;
+  /** Defaults to `day`. */
+  timeInForce?: TimeInForce;
+  clientOrderId?: string;
+}
+
+/** An entry order with a take-profit limit and a protective stop. */
+export interface BracketOrderRequest extends BrokerOrderRequest {
+  takeProfit: { limitPrice: number };
+  stopLoss: { stopPrice: number; limitPrice?: number };
+}
+
+/** Fields that can change in a cancel/replace. */
+export interface OrderChanges {
+  quantity?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  timeInForce?: TimeInForce;
+}
+
+/**
+ * `held` orders are bracket exits waiting for their entry to fill; `replaced`
+ * orders were superseded by a cancel/replace.
+ */
+export type BrokerOrderStatus =
+  | 'held'
+  | 'accepted'
+  | 'partially_filled'
+  | 'filled'
+  | 'cancelled'
+  | 'expired'
+  | 'rejected'
+  | 'replaced';
+
+export const OPEN_BROKER_STATUSES: readonly BrokerOrderStatus[] = [
+  'held',
+  'accepted',
+  'partially_filled',
+];
+
+export interface BrokerOrder {
+  id: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: OrderSide;
+  type: BrokerOrderType;
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  timeInForce: TimeInForce;
+  status: BrokerOrderStatus;
+  filledQuantity: number;
+  averageFillPrice: number | null;
+  /** Whether a stop, stop-limit or trailing stop has been set off. */
+  triggered: boolean;
+  /** Current stop level of a trailing stop, once a price has been seen. */
+  trailingStop?: number;
+  createdAt: number;
+  updatedAt: number;
+  /** When a `day` order expires. */
+  expiresAt?: number;
+  /** The entry order of a bracket exit. */
+  parentId?: string;
+  /** Orders sharing a group cancel (or reduce) each other on fills. */
+  ocoGroup?: string;
+  replaces?: string;
+  replacedBy?: string;
+  rejectReason?: string;
+}
+
+export interface Execution {
+  id: string;
+  orderId: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  commission: number;
+  timestamp: number;
+}
+
+export type BrokerEventType =
+  | 'accepted'
+  | 'rejected'
+  | 'triggered'
+  | 'fill'
+  | 'cancelled'
+  | 'expired'
+  | 'replaced';
+
+export interface BrokerEvent {
+  type: BrokerEventType;
+  timestamp: number;
+  /** The order as it stands after the event. */
+  order: BrokerOrder;
+  fill?: Execution;
+}
+
+export type BrokerListener = (event: BrokerEvent) => void;
+
+export type MarketEvent =
+  | { kind: 'trade'; trade: Trade }
+  | { kind: 'quote'; quote: Quote }
+  | { kind: 'bar'; bar: Bar };
+
+export interface OrderFilter {
+  symbol?: string;
+  /** `open` matches every status in {@link OPEN_BROKER_STATUSES}. */
+  status?: BrokerOrderStatus | 'open';
+}
+
+/**
+ * What the OMS needs from an execution venue. The paper broker implements
+ * it against market data; a live broker adapter would implement it against
+ * a brokerage API. Submissions never throw for business reasons: they
+ * resolve to an order in the `rejected` state instead.
+ */
+export interface Broker {
+  readonly name: string;
+  submit(request: BrokerOrderRequest): Promise<BrokerOrder>;
+  /** Resolves to `[entry, takeProfit, stopLoss]`. */
+  submitBracket(request: BracketOrderRequest): Promise<BrokerOrder[]>;
+  submitOco(legs: BrokerOrderRequest[]): Promise<BrokerOrder[]>;
+  cancel(orderId: string): Promise<BrokerOrder>;
+  /** Resolves to the replacement order. */
+  replace(orderId: string, changes: OrderChanges): Promise<BrokerOrder>;
+  getOrder(orderId: string): Promise<BrokerOrder | null>;
+  listOrders(filter?: OrderFilter): Promise<BrokerOrder[]>;
+  listExecutions(orderId?: string): Promise<Execution[]>;
+  subscribe(listener: BrokerListener): () => void;
+}
+
+export type BrokerErrorCode = 'NOT_FOUND' | 'NOT_OPEN' | 'INVALID_CHANGE';
+
+export class BrokerError extends Error {
+  constructor(
+    readonly code: BrokerErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BrokerError';
+  }
+}
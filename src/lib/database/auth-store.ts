@@ -0,0 +1,52 @@
+import type { AuthStore } from '../auth/store';
+import type { ApiToken, Session, User } from '../auth/types';
+import type { Repositories } from './repositories';
+
+/**
+ * Users, sessions and API token records in the database, so logins and
+ * tokens outlast a restart and are shared by every server process.
+ */
+export class DatabaseAuthStore implements AuthStore {
+  constructor(
+    private readonly tables: Pick<
+      Repositories,
+      'users' | 'sessions' | 'apiTokens'
+    >
+  ) {}
+
+  getUser(id: string): Promise<User | null> {
+    return this.tables.users.get(id);
+  }
+
+  saveUser(user: User): Promise<void> {
+    return this.tables.users.save(user);
+  }
+
+  getSession(id: string): Promise<Session | null> {
+    return this.tables.sessions.get(id);
+  }
+
+  saveSession(session: Session): Promise<void> {
+    return this.tables.sessions.save(session);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.tables.sessions.delete(id);
+  }
+
+  getToken(id: string): Promise<ApiToken | null> {
+    return this.tables.apiTokens.get(id);
+  }
+
+  listTokens(userId: string): Promise<ApiToken[]> {
+    return this.tables.apiTokens.listByUser(userId);
+  }
+
+  saveToken(token: ApiToken): Promise<void> {
+    return this.tables.apiTokens.save(token);
+  }
+
+  async deleteToken(id: string): Promise<void> {
+    await this.tables.apiTokens.delete(id);
+  }
+}
@@ -0,0 +1,144 @@
+import { MIGRATIONS } from './migrations';
+import { Migrator } from './migrator';
+import {
+  repositories,
+  type ApiTokenRepository,
+  type BacktestResultRepository,
+  type BarRepository,
+  type AccountRepository,
+  type FillRepository,
+  type OrderRepository,
+  type PositionRepository,
+  type Repositories,
+  type SessionRepository,
+  type UserRepository,
+} from './repositories';
+import { SEEDS, Seeder, type Seed } from './seeds';
+import type {
+  DatabaseDriver,
+  Dialect,
+  Migration,
+  Queryable,
+  QueryResult,
+  Row,
+  SqlValue,
+} from './types';
+
+export interface DatabaseOptions {
+  /** Defaults to {@link MIGRATIONS}. */
+  migrations?: Migration[];
+  /** Defaults to {@link SEEDS}. */
+  seeds?: Seed[];
+  clock?: () => number;
+  /**
+   * Applies pending migrations before the first query, for a database
+   * nothing else can migrate, such as SQLite in memory.
+   */
+  migrateFirst?: boolean;
+}
+
+/**
+ * The typed data-access layer: repositories for each table, migrations and
+ * seeds, over whichever driver it is given.
+ */
+export class Database implements Queryable, Repositories {
+  readonly migrate: Migrator;
+  readonly seed: Seeder;
+  readonly users: UserRepository;
+  readonly sessions: SessionRepository;
+  readonly apiTokens: ApiTokenRepository;
+  readonly accounts: AccountRepository;
+  readonly orders: OrderRepository;
+  readonly fills: FillRepository;
+  readonly positions: PositionRepository;
+  readonly bars: BarRepository;
+  readonly backtestResults: BacktestResultRepository;
+  private readonly connection: Queryable;
+
+  constructor(
+    private readonly driver: DatabaseDriver,
+    options: DatabaseOptions = {}
+  ) {
+    this.migrate = new Migrator(
+      driver,
+      options.migrations ?? MIGRATIONS,
+      options.clock
+    );
+    this.connection = options.migrateFirst
+      ? migratedFirst(driver, () => this.migrate.latest())
+      : driver;
+    this.seed = new Seeder(
+      this.connection,
+      options.seeds ?? SEEDS,
+      repositories
+    );
+    const tables = repositories(this.connection);
+    this.users = tables.users;
+    this.sessions = tables.sessions;
+    this.apiTokens = tables.apiTokens;
+    this.accounts = tables.accounts;
+    this.orders = tables.orders;
+    this.fills = tables.fills;
+    this.positions = tables.positions;
+    this.bars = tables.bars;
+    this.backtestResults = tables.backtestResults;
+  }
+
+  get dialect(): Dialect {
+    return this.driver.dialect;
+  }
+
+  query<R extends Row = Row>(
+    sql: string,
+    params?: SqlValue[]
+  ): Promise<QueryResult<R>> {
+    return this.connection.query<R>(sql, params);
+  }
+
+  /** {@link query}, under the name other query builders use. */
+  raw<R extends Row = Row>(
+    sql: string,
+    params?: SqlValue[]
+  ): Promise<QueryResult<R>> {
+    return this.query<R>(sql, params);
+  }
+
+  /** Runs `work` in a transaction, with repositories bound to it. */
+  transaction<T>(
+    work: (tx: Queryable & Repositories) => Promise<T>
+  ): Promise<T> {
+    return this.connection.transaction(tx =>
+      work({ ...tx, ...repositories(tx) })
+    );
+  }
+
+  /** Closes the connection; the database is unusable afterwards. */
+  destroy(): Promise<void> {
+    return this.driver.close();
+  }
+}
+
+/** `db`, with pending migrations applied once before its first query. */
+function migratedFirst(
+  db: Queryable,
+  migrate: () => Promise<unknown>
+): Queryable {
+  let migrated: Promise<unknown> | null = null;
+  const ready = () =>
+    (migrated ??= migrate().catch(error => {
+      // Try again with the next query rather than failing for good.
+      migrated = null;
+      throw error;
+    }));
+  return {
+    dialect: db.dialect,
+    async query<R extends Row = Row>(sql: string, params?: SqlValue[]) {
+      await ready();
+      return db.query<R>(sql, params);
+    },
+    async transaction<T>(work: (tx: Queryable) => Promise<T>) {
+      await ready();
+      return db.transaction(work);
+    },
+  };
+}
@@ -0,0 +1,263 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import pg from 'pg';
+import initSqlJs, { type Database as SqlJsDatabase } from 'sql.js';
+import {
+  DatabaseError,
+  type DatabaseDriver,
+  type Queryable,
+  type QueryResult,
+  type Row,
+  type SqlValue,
+} from './types';
+
+function queryFailed(error: unknown): DatabaseError {
+  return new DatabaseError(
+    'QUERY_FAILED',
+    error instanceof Error ? error.message : String(error)
+  );
+}
+
+export interface SqliteDriverOptions {
+  /** Keeps the database in this file; in memory when unset. */
+  file?: string;
+}
+
+const WRITE = /^\s*(insert|update|delete|create|drop|alter|replace)\b/i;
+
+/**
+ * SQLite compiled to WebAssembly, so it runs wherever Node does. There is
+ * one connection, so statements and transactions take turns. With a file,
+ * the whole database is written back after every change: fine for
+ * development, not for production.
+ */
+export class SqliteDriver implements DatabaseDriver {
+  readonly dialect = 'sqlite';
+  private database: Promise<SqlJsDatabase> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private closed = false;
+
+  constructor(private readonly options: SqliteDriverOptions = {}) {}
+
+  query<R extends Row = Row>(
+    sql: string,
+    params: SqlValue[] = []
+  ): Promise<QueryResult<R>> {
+    return this.exclusive(async database => {
+      const result = this.run<R>(database, sql, params);
+      if (WRITE.test(sql)) this.persist(database);
+      return result;
+    });
+  }
+
+  transaction<T>(work: (tx: Queryable) => Promise<T>): Promise<T> {
+    return this.exclusive(async database => {
+      const tx: Queryable = {
+        dialect: this.dialect,
+        query: async <R extends Row = Row>(sql: string, params?: SqlValue[]) =>
+          this.run<R>(database, sql, params ?? []),
+        transaction: inner => inner(tx),
+      };
+      database.run('BEGIN');
+      try {
+        const result = await work(tx);
+        database.run('COMMIT');
+        this.persist(database);
+        return result;
+      } catch (error) {
+        database.run('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    const pending = this.database;
+    await this.queue.catch(() => undefined);
+    if (!pending) return;
+    const database = await pending;
+    this.persist(database);
+    database.close();
+  }
+
+  private exclusive<T>(task: (database: SqlJsDatabase) => Promise<T>) {
+    if (this.closed) {
+      return Promise.reject(
+        new DatabaseError('CLOSED', 'The database connection is closed')
+      );
+    }
+    const run = this.queue.then(async () => task(await this.open()));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private open(): Promise<SqlJsDatabase> {
+    if (!this.database) {
+      this.database = initSqlJs()
+        .then(SQL => {
+          const { file } = this.options;
+          const database =
+            file && existsSync(file)
+              ? new SQL.Database(readFileSync(file))
+              : new SQL.Database();
+          database.run('PRAGMA foreign_keys = ON');
+          return database;
+        })
+        .catch(error => {
+          this.database = null;
+          throw new DatabaseError(
+            'CONNECTION_FAILED',
+            `Could not open SQLite: ${(error as Error).message}`
+          );
+        });
+    }
+    return this.database;
+  }
+
+  private run<R extends Row>(
+    database: SqlJsDatabase,
+    sql: string,
+    params: SqlValue[]
+  ): QueryResult<R> {
+    try {
+      const statement = database.prepare(sql);
+      try {
+        statement.bind(
+          params.map(value => (typeof value === 'boolean' ? +value : value))
+        );
+        const rows: R[] = [];
+        while (statement.step()) rows.push(statement.getAsObject() as R);
+        const changed = statement.getColumnNames().length === 0;
+        return {
+          rows,
+          rowCount: changed ? database.getRowsModified() : rows.length,
+        };
+      } finally {
+        statement.free();
+      }
+    } catch (error) {
+      throw queryFailed(error);
+    }
+  }
+
+  private persist(database: SqlJsDatabase): void {
+    if (!this.options.file) return;
+    writeFileSync(this.options.file, database.export());
+    // Exporting resets connection settings.
+    database.run('PRAGMA foreign_keys = ON');
+  }
+}
+
+/** Rewrites `?` placeholders, outside quoted text, as `$1`, `$2`, ... */
+export function numberedPlaceholders(sql: string): string {
+  let index = 0;
+  let quote: string | null = null;
+  let out = '';
+  for (const char of sql) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '?') {
+      out += `$${++index}`;
+      continue;
+    }
+    out += char;
+  }
+  return out;
+}
+
+const INT8_OID = 20;
+
+// `bigint` columns hold epoch milliseconds, well inside a double's range.
+const types = {
+  getTypeParser: ((oid: number, format?: 'text' | 'binary') =>
+    oid === INT8_OID
+      ? (value: string) => Number(value)
+      : pg.types.getTypeParser(oid, format)) as typeof pg.types.getTypeParser,
+};
+
+export interface PostgresDriverOptions {
+  connectionString: string;
+  /** Pool size; defaults to 10. */
+  maxConnections?: number;
+}
+
+/** PostgreSQL through a `pg` connection pool. */
+export class PostgresDriver implements DatabaseDriver {
+  readonly dialect = 'postgres';
+  private readonly pool: pg.Pool;
+  private closed = false;
+
+  constructor(options: PostgresDriverOptions) {
+    this.pool = new pg.Pool({
+      connectionString: options.connectionString,
+      max: options.maxConnections ?? 10,
+      types,
+    });
+  }
+
+  async query<R extends Row = Row>(
+    sql: string,
+    params: SqlValue[] = []
+  ): Promise<QueryResult<R>> {
+    this.assertOpen();
+    return run<R>(this.pool, sql, params);
+  }
+
+  async transaction<T>(work: (tx: Queryable) => Promise<T>): Promise<T> {
+    this.assertOpen();
+    let client: pg.PoolClient;
+    try {
+      client = await this.pool.connect();
+    } catch (error) {
+      throw new DatabaseError(
+        'CONNECTION_FAILED',
+        `Could not connect to PostgreSQL: ${(error as Error).message}`
+      );
+    }
+    const tx: Queryable = {
+      dialect: this.dialect,
+      query: <R extends Row = Row>(sql: string, params?: SqlValue[]) =>
+        run<R>(client, sql, params ?? []),
+      transaction: inner => inner(tx),
+    };
+    try {
+      await client.query('BEGIN');
+      const result = await work(tx);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await this.pool.end();
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new DatabaseError('CLOSED', 'The database connection is closed');
+    }
+  }
+}
+
+async function run<R extends Row>(
+  client: pg.Pool | pg.PoolClient,
+  sql: string,
+  params: SqlValue[]
+): Promise<QueryResult<R>> {
+  try {
+    const result = await client.query(numberedPlaceholders(sql), params);
+    return { rows: result.rows as R[], rowCount: result.rowCount ?? 0 };
+  } catch (error) {
+    throw queryFailed(error);
+  }
+}
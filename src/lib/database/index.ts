@@ -0,0 +1,116 @@
+import path from 'node:path';
+import { setSingleton, singleton } from '../singleton';
+import { Database } from './database';
+import { PostgresDriver, SqliteDriver } from './drivers';
+import type { Repositories } from './repositories';
+import {
+  DatabaseError,
+  type DatabaseDriver,
+  type Queryable,
+  type Row,
+  type SqlValue,
+} from './types';
+
+export * from './types';
+export * from './drivers';
+export * from './migrations';
+export * from './migrator';
+export * from './repositories';
+export * from './seeds';
+export * from './database';
+export * from './journal';
+export * from './auth-store';
+
+export type DatabaseDriverFactory = (env: NodeJS.ProcessEnv) => DatabaseDriver;
+
+const drivers = new Map<string, DatabaseDriverFactory>();
+
+export function registerDatabaseDriver(
+  name: string,
+  factory: DatabaseDriverFactory
+): void {
+  drivers.set(name, factory);
+}
+
+export function createDatabaseDriver(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env
+): DatabaseDriver {
+  const factory = drivers.get(name);
+  if (!factory) {
+    throw new DatabaseError(
+      'UNKNOWN_DRIVER',
+      `No database driver registered as "${name}"`
+    );
+  }
+  return factory(env);
+}
+
+registerDatabaseDriver(
+  'sqlite',
+  env =>
+    new SqliteDriver({
+      file: env.DATABASE_FILE ? path.resolve(env.DATABASE_FILE) : undefined,
+    })
+);
+
+registerDatabaseDriver('postgres', env => {
+  if (!env.DATABASE_URL) {
+    throw new DatabaseError(
+      'CONNECTION_FAILED',
+      'DATABASE_URL must be set for the postgres driver'
+    );
+  }
+  const pool = Number(env.DATABASE_POOL_SIZE);
+  return new PostgresDriver({
+    connectionString: env.DATABASE_URL,
+    maxConnections: pool > 0 ? pool : undefined,
+  });
+});
+
+const DATABASE_KEY = 'database';
+
+/**
+ * The shared database, on the `DATABASE_DRIVER` driver: `sqlite` by
+ * default, in memory unless `DATABASE_FILE` is set. In memory, no other
+ * process can reach it, so it is migrated before it is first used.
+ */
+export function getDatabase(): Database {
+  return singleton(DATABASE_KEY, () => {
+    const driver = process.env.DATABASE_DRIVER || 'sqlite';
+    return new Database(createDatabaseDriver(driver), {
+      migrateFirst: driver === 'sqlite' && !process.env.DATABASE_FILE,
+    });
+  });
+}
+
+/** Overrides the shared database, e.g. in tests. */
+export function setDatabase(database: Database | undefined): void {
+  setSingleton(DATABASE_KEY, database);
+}
+
+/**
+ * The shared database behind a stable reference. Destroying it closes the
+ * connection; the next call opens a fresh one.
+ */
+export const db = {
+  migrate: {
+    latest: () => getDatabase().migrate.latest(),
+    rollback: () => getDatabase().migrate.rollback(),
+    status: () => getDatabase().migrate.status(),
+  },
+  seed: {
+    run: () => getDatabase().seed.run(),
+  },
+  raw<R extends Row = Row>(sql: string, params?: SqlValue[]) {
+    return getDatabase().raw<R>(sql, params);
+  },
+  transaction<T>(work: (tx: Queryable & Repositories) => Promise<T>) {
+    return getDatabase().transaction(work);
+  },
+  async destroy(): Promise<void> {
+    const database = getDatabase();
+    setDatabase(undefined);
+    await database.destroy();
+  },
+};
@@ -0,0 +1,149 @@
+import type { User } from '../auth/types';
+import type { OrderManager } from '../oms/manager';
+import type { ManagedOrder } from '../oms/types';
+import type { PortfolioLedger } from '../portfolio/ledger';
+import type { Database } from './database';
+import type { Repositories } from './repositories';
+import { DatabaseError, type PositionRecord, type Queryable } from './types';
+
+export interface OrderJournalOptions {
+  /** Whose an account is; it is opened for them with its first order. */
+  owner: (accountId: string) => Promise<User | null>;
+  /** The account's portfolio, whose fills are booked before they are saved. */
+  portfolio: (accountId: string) => PortfolioLedger;
+  clock?: () => number;
+}
+
+/** What a fill left in the account, read when it happened. */
+interface Holding {
+  /** A closed position is kept, with no quantity, for its realized P&L. */
+  position: PositionRecord | null;
+  cash: number;
+}
+
+type Transaction = Queryable & Repositories;
+
+/**
+ * Keeps the database in step with the order manager: every order, with
+ * its fills and status history, is saved as it changes, and after each
+ * fill the account's position in the symbol and its cash. Writes run one
+ * at a time in the order things happened, each in its own transaction; a
+ * failed write is logged and the next one goes ahead. New orders can also
+ * be saved ahead of sending with {@link record}.
+ *
+ * The order manager works from memory, so the database is a record that
+ * outlives the process rather than a source it reads back.
+ */
+export class OrderJournal {
+  private readonly clock: () => number;
+  /** Accounts known to have a row, so owners are looked up once. */
+  private readonly opened = new Set<string>();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly database: Database,
+    private readonly options: OrderJournalOptions
+  ) {
+    this.clock = options.clock ?? Date.now;
+  }
+
+  /** Saves `oms`'s orders from now on. Returns a function that stops. */
+  follow(oms: OrderManager): () => void {
+    return oms.subscribe(event => {
+      const { order } = event;
+      // Read now: by the time the write runs, the portfolio may have moved.
+      const holding = event.type === 'fill' ? this.holding(order) : undefined;
+      this.write([order.accountId], async tx => {
+        await tx.orders.save(order);
+        if (holding) await this.saveHolding(tx, order.accountId, holding);
+      }).catch(error =>
+        console.error(`Saving orders of ${order.accountId} failed`, error)
+      );
+    });
+  }
+
+  /**
+   * Saves new orders in one transaction, after the writes before them:
+   * all of them or, rejecting, none. Suits the order manager's `record`.
+   */
+  record(orders: ManagedOrder[]): Promise<void> {
+    const accountIds = Array.from(
+      new Set(orders.map(order => order.accountId))
+    );
+    return this.write(accountIds, async tx => {
+      for (const order of orders) await tx.orders.save(order);
+    });
+  }
+
+  /** Resolves once every write so far has finished. */
+  idle(): Promise<void> {
+    return this.queue;
+  }
+
+  /** Queues `work` in a transaction that first opens the accounts. */
+  private write(
+    accountIds: string[],
+    work: (tx: Transaction) => Promise<void>
+  ): Promise<void> {
+    const written = this.queue.then(() =>
+      this.database.transaction(async tx => {
+        for (const accountId of accountIds) await this.open(tx, accountId);
+        await work(tx);
+      })
+    );
+    this.queue = written.then(
+      () => accountIds.forEach(accountId => this.opened.add(accountId)),
+      () => undefined
+    );
+    return written;
+  }
+
+  /** Adds the account, and its owner, if the database has neither yet. */
+  private async open(tx: Transaction, accountId: string): Promise<void> {
+    if (this.opened.has(accountId) || (await tx.accounts.get(accountId))) {
+      return;
+    }
+    const user = await this.options.owner(accountId);
+    if (!user) {
+      throw new DatabaseError(
+        'QUERY_FAILED',
+        `Account ${accountId} has no known owner`
+      );
+    }
+    if (!(await tx.users.get(user.id))) await tx.users.save(user);
+    await tx.accounts.save({
+      id: accountId,
+      userId: user.id,
+      name: 'Paper trading',
+      currency: 'USD',
+      cash: this.options.portfolio(accountId).snapshot().cash,
+      createdAt: this.clock(),
+    });
+  }
+
+  private holding(order: ManagedOrder): Holding {
+    const ledger = this.options.portfolio(order.accountId);
+    const position = ledger.position(order.symbol);
+    return {
+      position: position && {
+        accountId: order.accountId,
+        symbol: position.symbol,
+        quantity: position.quantity,
+        averageCost: position.averageCost,
+        realizedPnl: position.realizedPnl,
+        updatedAt: order.updatedAt,
+      },
+      cash: ledger.snapshot().cash,
+    };
+  }
+
+  private async saveHolding(
+    tx: Transaction,
+    accountId: string,
+    { position, cash }: Holding
+  ): Promise<void> {
+    if (position) await tx.positions.save(position);
+    const account = await tx.accounts.get(accountId);
+    if (account) await tx.accounts.save({ ...account, cash });
+  }
+}
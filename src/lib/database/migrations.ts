@@ -0,0 +1,181 @@
+import type { Migration, Queryable } from './types';
+
+/**
+ * A migration made of plain statements, written in the SQL both SQLite and
+ * PostgreSQL accept: `bigint` epoch milliseconds for times, `double
+ * precision` for prices and quantities, JSON in `text` columns.
+ */
+export function sqlMigration(
+  version: number,
+  name: string,
+  up: string[],
+  down: string[]
+): Migration {
+  const runAll = (statements: string[]) => async (db: Queryable) => {
+    for (const statement of statements) await db.query(statement);
+  };
+  return { version, name, up: runAll(up), down: runAll(down) };
+}
+
+export const MIGRATIONS: Migration[] = [
+  sqlMigration(
+    1,
+    'users_and_accounts',
+    [
+      `CREATE TABLE users (
+        id text PRIMARY KEY,
+        email text NOT NULL UNIQUE,
+        name text,
+        provider text NOT NULL,
+        scopes text NOT NULL,
+        created_at bigint NOT NULL
+      )`,
+      `CREATE TABLE accounts (
+        id text PRIMARY KEY,
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        name text NOT NULL,
+        currency text NOT NULL DEFAULT 'USD',
+        cash double precision NOT NULL DEFAULT 0,
+        created_at bigint NOT NULL
+      )`,
+      'CREATE INDEX accounts_user_id ON accounts (user_id)',
+    ],
+    ['DROP TABLE accounts', 'DROP TABLE users']
+  ),
+  sqlMigration(
+    2,
+    'orders_and_fills',
+    [
+      `CREATE TABLE orders (
+        id text PRIMARY KEY,
+        account_id text NOT NULL REFERENCES accounts (id) ON DELETE CASCADE,
+        client_order_id text,
+        symbol text NOT NULL,
+        side text NOT NULL,
+        type text NOT NULL,
+        quantity double precision NOT NULL,
+        limit_price double precision,
+        stop_price double precision,
+        trail_amount double precision,
+        trail_percent double precision,
+        time_in_force text NOT NULL,
+        status text NOT NULL,
+        filled_quantity double precision NOT NULL DEFAULT 0,
+        average_fill_price double precision,
+        broker_order_id text,
+        parent_id text,
+        leg text,
+        replaces text,
+        replaced_by text,
+        reject_reason text,
+        reject_reasons text,
+        history text NOT NULL,
+        created_at bigint NOT NULL,
+        updated_at bigint NOT NULL,
+        UNIQUE (account_id, client_order_id)
+      )`,
+      'CREATE INDEX orders_account_status ON orders (account_id, status)',
+      `CREATE TABLE fills (
+        id text PRIMARY KEY,
+        order_id text NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+        symbol text NOT NULL,
+        side text NOT NULL,
+        quantity double precision NOT NULL,
+        price double precision NOT NULL,
+        commission double precision NOT NULL DEFAULT 0,
+        timestamp bigint NOT NULL
+      )`,
+      'CREATE INDEX fills_order_id ON fills (order_id)',
+    ],
+    ['DROP TABLE fills', 'DROP TABLE orders']
+  ),
+  sqlMigration(
+    3,
+    'positions',
+    [
+      `CREATE TABLE positions (
+        account_id text NOT NULL REFERENCES accounts (id) ON DELETE CASCADE,
+        symbol text NOT NULL,
+        quantity double precision NOT NULL,
+        average_cost double precision NOT NULL,
+        realized_pnl double precision NOT NULL DEFAULT 0,
+        updated_at bigint NOT NULL,
+        PRIMARY KEY (account_id, symbol)
+      )`,
+    ],
+    ['DROP TABLE positions']
+  ),
+  sqlMigration(
+    4,
+    'bars',
+    [
+      `CREATE TABLE bars (
+        symbol text NOT NULL,
+        timeframe text NOT NULL,
+        timestamp bigint NOT NULL,
+        open double precision NOT NULL,
+        high double precision NOT NULL,
+        low double precision NOT NULL,
+        close double precision NOT NULL,
+        volume double precision NOT NULL,
+        vwap double precision,
+        trades integer,
+        PRIMARY KEY (symbol, timeframe, timestamp)
+      )`,
+    ],
+    ['DROP TABLE bars']
+  ),
+  sqlMigration(
+    5,
+    'backtest_results',
+    [
+      `CREATE TABLE backtest_results (
+        id text PRIMARY KEY,
+        strategy text NOT NULL,
+        params text NOT NULL,
+        symbols text NOT NULL,
+        summary text NOT NULL,
+        result text NOT NULL,
+        created_at text NOT NULL
+      )`,
+      'CREATE INDEX backtest_results_created_at ON backtest_results (created_at)',
+    ],
+    ['DROP TABLE backtest_results']
+  ),
+  sqlMigration(
+    6,
+    'backtest_owners',
+    [
+      'ALTER TABLE backtest_results ADD COLUMN user_id text',
+      'CREATE INDEX backtest_results_user_id ON backtest_results (user_id, created_at)',
+    ],
+    [
+      'DROP INDEX backtest_results_user_id',
+      'ALTER TABLE backtest_results DROP COLUMN user_id',
+    ]
+  ),
+  sqlMigration(
+    7,
+    'sessions_and_api_tokens',
+    [
+      `CREATE TABLE sessions (
+        id text PRIMARY KEY,
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        created_at bigint NOT NULL,
+        expires_at bigint NOT NULL
+      )`,
+      'CREATE INDEX sessions_user_id ON sessions (user_id)',
+      `CREATE TABLE api_tokens (
+        id text PRIMARY KEY,
+        user_id text NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        name text NOT NULL,
+        scopes text NOT NULL,
+        created_at bigint NOT NULL,
+        expires_at bigint,
+        last_used_at bigint
+      )`,
+      'CREATE INDEX api_tokens_user_id ON api_tokens (user_id, created_at)',
+    ],
+    ['DROP TABLE api_tokens', 'DROP TABLE sessions']
+  ),
+];
@@ -0,0 +1,139 @@
+import {
+  DatabaseError,
+  type Migration,
+  type MigrationRun,
+  type MigrationStatus,
+  type Queryable,
+} from './types';
+
+type AppliedRow = {
+  version: number;
+  name: string;
+  batch: number;
+  applied_at: number;
+};
+
+const TABLE = 'schema_migrations';
+
+/**
+ * Applies and reverts migrations in batches, recording them in
+ * `schema_migrations`. Each batch runs in one transaction, so a failing
+ * migration leaves the schema as it was.
+ */
+export class Migrator {
+  private readonly migrations: Migration[];
+
+  constructor(
+    private readonly db: Queryable,
+    migrations: Migration[],
+    private readonly clock: () => number = Date.now
+  ) {
+    this.migrations = migrations.slice().sort((a, b) => a.version - b.version);
+    this.migrations.forEach((migration, index) => {
+      if (migration.version === this.migrations[index + 1]?.version) {
+        throw new DatabaseError(
+          'MIGRATION_FAILED',
+          `Two migrations share version ${migration.version}`
+        );
+      }
+    });
+  }
+
+  /** Applies every pending migration as a new batch. */
+  async latest(): Promise<MigrationRun> {
+    await this.ensureTable();
+    return this.db.transaction(async tx => {
+      const applied = await this.applied(tx);
+      const done = new Set(applied.map(row => row.version));
+      const pending = this.migrations.filter(m => !done.has(m.version));
+      if (pending.length === 0) return { batch: 0, migrations: [] };
+      const batch = Math.max(0, ...applied.map(row => row.batch)) + 1;
+      for (const migration of pending) {
+        await this.step(migration, 'up', tx);
+        await tx.query(
+          `INSERT INTO ${TABLE} (version, name, batch, applied_at) VALUES (?, ?, ?, ?)`,
+          [migration.version, migration.name, batch, this.clock()]
+        );
+      }
+      return { batch, migrations: pending.map(m => m.name) };
+    });
+  }
+
+  /** Reverts the most recent batch. */
+  async rollback(): Promise<MigrationRun> {
+    await this.ensureTable();
+    return this.db.transaction(async tx => {
+      const applied = await this.applied(tx);
+      const batch = Math.max(0, ...applied.map(row => row.batch));
+      if (batch === 0) return { batch: 0, migrations: [] };
+      const reverted: string[] = [];
+      const last = applied
+        .filter(row => row.batch === batch)
+        .sort((a, b) => b.version - a.version);
+      for (const row of last) {
+        const migration = this.migrations.find(m => m.version === row.version);
+        if (!migration) {
+          throw new DatabaseError(
+            'MIGRATION_FAILED',
+            `Migration ${row.version} (${row.name}) is applied but unknown`
+          );
+        }
+        await this.step(migration, 'down', tx);
+        await tx.query(`DELETE FROM ${TABLE} WHERE version = ?`, [row.version]);
+        reverted.push(migration.name);
+      }
+      return { batch, migrations: reverted };
+    });
+  }
+
+  /** Every known migration, oldest first, and whether it is applied. */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureTable();
+    const applied = new Map(
+      (await this.applied(this.db)).map(row => [row.version, row] as const)
+    );
+    return this.migrations.map(({ version, name }) => {
+      const row = applied.get(version);
+      return {
+        version,
+        name,
+        batch: row?.batch ?? null,
+        appliedAt: row?.applied_at ?? null,
+      };
+    });
+  }
+
+  private async step(
+    migration: Migration,
+    direction: 'up' | 'down',
+    tx: Queryable
+  ): Promise<void> {
+    try {
+      await migration[direction](tx);
+    } catch (error) {
+      throw new DatabaseError(
+        'MIGRATION_FAILED',
+        `Migration ${migration.version} (${migration.name}) failed going ` +
+          `${direction}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private ensureTable(): Promise<unknown> {
+    return this.db.query(
+      `CREATE TABLE IF NOT EXISTS ${TABLE} (
+        version integer PRIMARY KEY,
+        name text NOT NULL,
+        batch integer NOT NULL,
+        applied_at bigint NOT NULL
+      )`
+    );
+  }
+
+  private async applied(db: Queryable): Promise<AppliedRow[]> {
+    const { rows } = await db.query<AppliedRow>(
+      `SELECT version, name, batch, applied_at FROM ${TABLE} ORDER BY version`
+    );
+    return rows;
+  }
+}
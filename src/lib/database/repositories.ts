@@ -0,0 +1,822 @@
+import type { ApiToken, Session, User } from '../auth/types';
+import {
+  toListItem,
+  type BacktestListItem,
+  type BacktestRecord,
+  type BacktestStore,
+} from '../backtest/store';
+import type { Execution } from '../broker/types';
+import type { Bar, TimeRange, Timeframe } from '../marketdata/types';
+import { OPEN_ORDER_STATUSES } from '../oms/state-machine';
+import type { ManagedOrder, OrderQuery } from '../oms/types';
+import type { Account, PositionRecord, Queryable, SqlValue } from './types';
+
+/** Drops the keys of absent optional fields, as the in-memory stores do. */
+function compact<T extends object>(value: T): T {
+  Object.keys(value).forEach(key => {
+    if ((value as Record<string, unknown>)[key] === undefined) {
+      delete (value as Record<string, unknown>)[key];
+    }
+  });
+  return value;
+}
+
+const optional = <T>(value: T | null): T | undefined => value ?? undefined;
+
+const placeholders = (count: number) => Array(count).fill('?').join(', ');
+
+/** `INSERT`, or `UPDATE` of every non-key column on a key clash. */
+function upsert(table: string, columns: string[], keys: string[]): string {
+  const updates = columns
+    .filter(column => !keys.includes(column))
+    .map(column => `${column} = excluded.${column}`);
+  return (
+    `INSERT INTO ${table} (${columns.join(', ')}) ` +
+    `VALUES (${placeholders(columns.length)}) ` +
+    `ON CONFLICT (${keys.join(', ')}) DO UPDATE SET ${updates.join(', ')}`
+  );
+}
+
+type UserRow = {
+  id: string;
+  email: string;
+  name: string | null;
+  provider: string;
+  scopes: string;
+  created_at: number;
+};
+
+const USER_COLUMNS = [
+  'id',
+  'email',
+  'name',
+  'provider',
+  'scopes',
+  'created_at',
+];
+
+function toUser(row: UserRow): User {
+  return compact({
+    id: row.id,
+    email: row.email,
+    name: optional(row.name),
+    provider: row.provider,
+    scopes: JSON.parse(row.scopes),
+    createdAt: row.created_at,
+  });
+}
+
+export class UserRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async get(id: string): Promise<User | null> {
+    const { rows } = await this.db.query<UserRow>(
+      'SELECT * FROM users WHERE id = ?',
+      [id]
+    );
+    return rows[0] ? toUser(rows[0]) : null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const { rows } = await this.db.query<UserRow>(
+      'SELECT * FROM users WHERE email = ?',
+      [email]
+    );
+    return rows[0] ? toUser(rows[0]) : null;
+  }
+
+  async save(user: User): Promise<void> {
+    await this.db.query(upsert('users', USER_COLUMNS, ['id']), [
+      user.id,
+      user.email,
+      user.name ?? null,
+      user.provider,
+      JSON.stringify(user.scopes),
+      user.createdAt,
+    ]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { rowCount } = await this.db.query('DELETE FROM users WHERE id = ?', [
+      id,
+    ]);
+    return rowCount > 0;
+  }
+}
+
+type SessionRow = {
+  id: string;
+  user_id: string;
+  created_at: number;
+  expires_at: number;
+};
+
+const SESSION_COLUMNS = ['id', 'user_id', 'created_at', 'expires_at'];
+
+function toSession(row: SessionRow): Session {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+export class SessionRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async get(id: string): Promise<Session | null> {
+    const { rows } = await this.db.query<SessionRow>(
+      'SELECT * FROM sessions WHERE id = ?',
+      [id]
+    );
+    return rows[0] ? toSession(rows[0]) : null;
+  }
+
+  async save(session: Session): Promise<void> {
+    await this.db.query(upsert('sessions', SESSION_COLUMNS, ['id']), [
+      session.id,
+      session.userId,
+      session.createdAt,
+      session.expiresAt,
+    ]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      'DELETE FROM sessions WHERE id = ?',
+      [id]
+    );
+    return rowCount > 0;
+  }
+}
+
+type ApiTokenRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  scopes: string;
+  created_at: number;
+  expires_at: number | null;
+  last_used_at: number | null;
+};
+
+const API_TOKEN_COLUMNS = [
+  'id',
+  'user_id',
+  'name',
+  'scopes',
+  'created_at',
+  'expires_at',
+  'last_used_at',
+];
+
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    scopes: JSON.parse(row.scopes),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+/** Personal API token records; the tokens themselves are never stored. */
+export class ApiTokenRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async get(id: string): Promise<ApiToken | null> {
+    const { rows } = await this.db.query<ApiTokenRow>(
+      'SELECT * FROM api_tokens WHERE id = ?',
+      [id]
+    );
+    return rows[0] ? toApiToken(rows[0]) : null;
+  }
+
+  /** Most recent first. */
+  async listByUser(userId: string): Promise<ApiToken[]> {
+    const { rows } = await this.db.query<ApiTokenRow>(
+      'SELECT * FROM api_tokens WHERE user_id = ? ' +
+        'ORDER BY created_at DESC, id DESC',
+      [userId]
+    );
+    return rows.map(toApiToken);
+  }
+
+  async save(token: ApiToken): Promise<void> {
+    await this.db.query(upsert('api_tokens', API_TOKEN_COLUMNS, ['id']), [
+      token.id,
+      token.userId,
+      token.name,
+      JSON.stringify(token.scopes),
+      token.createdAt,
+      token.expiresAt,
+      token.lastUsedAt,
+    ]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      'DELETE FROM api_tokens WHERE id = ?',
+      [id]
+    );
+    return rowCount > 0;
+  }
+}
+
+type AccountRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  currency: string;
+  cash: number;
+  created_at: number;
+};
+
+const ACCOUNT_COLUMNS = [
+  'id',
+  'user_id',
+  'name',
+  'currency',
+  'cash',
+  'created_at',
+];
+
+function toAccount(row: AccountRow): Account {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    currency: row.currency,
+    cash: row.cash,
+    createdAt: row.created_at,
+  };
+}
+
+export class AccountRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async get(id: string): Promise<Account | null> {
+    const { rows } = await this.db.query<AccountRow>(
+      'SELECT * FROM accounts WHERE id = ?',
+      [id]
+    );
+    return rows[0] ? toAccount(rows[0]) : null;
+  }
+
+  /** Oldest first. */
+  async listByUser(userId: string): Promise<Account[]> {
+    const { rows } = await this.db.query<AccountRow>(
+      'SELECT * FROM accounts WHERE user_id = ? ORDER BY created_at, id',
+      [userId]
+    );
+    return rows.map(toAccount);
+  }
+
+  async save(account: Account): Promise<void> {
+    await this.db.query(upsert('accounts', ACCOUNT_COLUMNS, ['id']), [
+      account.id,
+      account.userId,
+      account.name,
+      account.currency,
+      account.cash,
+      account.createdAt,
+    ]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      'DELETE FROM accounts WHERE id = ?',
+      [id]
+    );
+    return rowCount > 0;
+  }
+}
+
+type FillRow = {
+  id: string;
+  order_id: string;
+  symbol: string;
+  side: Execution['side'];
+  quantity: number;
+  price: number;
+  commission: number;
+  timestamp: number;
+};
+
+const FILL_COLUMNS = [
+  'id',
+  'order_id',
+  'symbol',
+  'side',
+  'quantity',
+  'price',
+  'commission',
+  'timestamp',
+];
+
+function toFill(row: FillRow): Execution {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    symbol: row.symbol,
+    side: row.side,
+    quantity: row.quantity,
+    price: row.price,
+    commission: row.commission,
+    timestamp: row.timestamp,
+  };
+}
+
+export class FillRepository {
+  constructor(private readonly db: Queryable) {}
+
+  /** Oldest first. */
+  async listByOrder(orderId: string): Promise<Execution[]> {
+    const { rows } = await this.db.query<FillRow>(
+      'SELECT * FROM fills WHERE order_id = ? ORDER BY timestamp, id',
+      [orderId]
+    );
+    return rows.map(toFill);
+  }
+
+  /** Saving a fill twice keeps the first copy. */
+  async save(fill: Execution): Promise<void> {
+    await this.db.query(
+      `INSERT INTO fills (${FILL_COLUMNS.join(', ')}) ` +
+        `VALUES (${placeholders(FILL_COLUMNS.length)}) ` +
+        'ON CONFLICT (id) DO NOTHING',
+      [
+        fill.id,
+        fill.orderId,
+        fill.symbol,
+        fill.side,
+        fill.quantity,
+        fill.price,
+        fill.commission,
+        fill.timestamp,
+      ]
+    );
+  }
+}
+
+type OrderRow = {
+  id: string;
+  account_id: string;
+  client_order_id: string | null;
+  symbol: string;
+  side: ManagedOrder['side'];
+  type: ManagedOrder['type'];
+  quantity: number;
+  limit_price: number | null;
+  stop_price: number | null;
+  trail_amount: number | null;
+  trail_percent: number | null;
+  time_in_force: ManagedOrder['timeInForce'];
+  status: ManagedOrder['status'];
+  filled_quantity: number;
+  average_fill_price: number | null;
+  broker_order_id: string | null;
+  parent_id: string | null;
+  leg: ManagedOrder['leg'] | null;
+  replaces: string | null;
+  replaced_by: string | null;
+  reject_reason: string | null;
+  reject_reasons: string | null;
+  history: string;
+  created_at: number;
+  updated_at: number;
+};
+
+const ORDER_COLUMNS = [
+  'id',
+  'account_id',
+  'client_order_id',
+  'symbol',
+  'side',
+  'type',
+  'quantity',
+  'limit_price',
+  'stop_price',
+  'trail_amount',
+  'trail_percent',
+  'time_in_force',
+  'status',
+  'filled_quantity',
+  'average_fill_price',
+  'broker_order_id',
+  'parent_id',
+  'leg',
+  'replaces',
+  'replaced_by',
+  'reject_reason',
+  'reject_reasons',
+  'history',
+  'created_at',
+  'updated_at',
+];
+
+function toOrder(row: OrderRow, fills: Execution[]): ManagedOrder {
+  return compact({
+    id: row.id,
+    accountId: row.account_id,
+    clientOrderId: optional(row.client_order_id),
+    symbol: row.symbol,
+    side: row.side,
+    type: row.type,
+    quantity: row.quantity,
+    limitPrice: optional(row.limit_price),
+    stopPrice: optional(row.stop_price),
+    trailAmount: optional(row.trail_amount),
+    trailPercent: optional(row.trail_percent),
+    timeInForce: row.time_in_force,
+    status: row.status,
+    filledQuantity: row.filled_quantity,
+    averageFillPrice: row.average_fill_price,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    brokerOrderId: optional(row.broker_order_id),
+    parentId: optional(row.parent_id),
+    leg: optional(row.leg),
+    replaces: optional(row.replaces),
+    replacedBy: optional(row.replaced_by),
+    rejectReason: optional(row.reject_reason),
+    rejectReasons: row.reject_reasons
+      ? JSON.parse(row.reject_reasons)
+      : undefined,
+    fills,
+    history: JSON.parse(row.history),
+  });
+}
+
+/** Orders with their fills and status history. */
+export class OrderRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async get(id: string): Promise<ManagedOrder | null> {
+    const { rows } = await this.db.query<OrderRow>(
+      'SELECT * FROM orders WHERE id = ?',
+      [id]
+    );
+    return rows[0] ? this.withFills(rows[0]) : null;
+  }
+
+  async findByClientOrderId(
+    accountId: string,
+    clientOrderId: string
+  ): Promise<ManagedOrder | null> {
+    const { rows } = await this.db.query<OrderRow>(
+      'SELECT * FROM orders WHERE account_id = ? AND client_order_id = ?',
+      [accountId, clientOrderId]
+    );
+    return rows[0] ? this.withFills(rows[0]) : null;
+  }
+
+  /** Matching orders, most recent first. */
+  async list(query: OrderQuery = {}): Promise<ManagedOrder[]> {
+    const where: string[] = [];
+    const params: SqlValue[] = [];
+    if (query.accountId) {
+      where.push('account_id = ?');
+      params.push(query.accountId);
+    }
+    if (query.symbol) {
+      where.push('symbol = ?');
+      params.push(query.symbol);
+    }
+    if (query.status) {
+      const statuses =
+        query.status === 'open' ? OPEN_ORDER_STATUSES : [query.status];
+      where.push(`status IN (${placeholders(statuses.length)})`);
+      params.push(...statuses);
+    }
+    params.push(query.limit ?? 100);
+    const { rows } = await this.db.query<OrderRow>(
+      'SELECT * FROM orders' +
+        (where.length ? ` WHERE ${where.join(' AND ')}` : '') +
+        ' ORDER BY created_at DESC, id DESC LIMIT ?',
+      params
+    );
+    return Promise.all(rows.map(row => this.withFills(row)));
+  }
+
+  /**
+   * Saves the order and any fills not saved yet, together. Fills are kept
+   * under the order's id, whatever id the broker reported them under.
+   */
+  async save(order: ManagedOrder): Promise<void> {
+    await this.db.transaction(async tx => {
+      await tx.query(upsert('orders', ORDER_COLUMNS, ['id']), [
+        order.id,
+        order.accountId,
+        order.clientOrderId ?? null,
+        order.symbol,
+        order.side,
+        order.type,
+        order.quantity,
+        order.limitPrice ?? null,
+        order.stopPrice ?? null,
+        order.trailAmount ?? null,
+        order.trailPercent ?? null,
+        order.timeInForce,
+        order.status,
+        order.filledQuantity,
+        order.averageFillPrice,
+        order.brokerOrderId ?? null,
+        order.parentId ?? null,
+        order.leg ?? null,
+        order.replaces ?? null,
+        order.replacedBy ?? null,
+        order.rejectReason ?? null,
+        order.rejectReasons ? JSON.stringify(order.rejectReasons) : null,
+        JSON.stringify(order.history),
+        order.createdAt,
+        order.updatedAt,
+      ]);
+      const fills = new FillRepository(tx);
+      for (const fill of order.fills) {
+        await fills.save({ ...fill, orderId: order.id });
+      }
+    });
+  }
+
+  private async withFills(row: OrderRow): Promise<ManagedOrder> {
+    return toOrder(row, await new FillRepository(this.db).listByOrder(row.id));
+  }
+}
+
+type PositionRow = {
+  account_id: string;
+  symbol: string;
+  quantity: number;
+  average_cost: number;
+  realized_pnl: number;
+  updated_at: number;
+};
+
+const POSITION_COLUMNS = [
+  'account_id',
+  'symbol',
+  'quantity',
+  'average_cost',
+  'realized_pnl',
+  'updated_at',
+];
+
+function toPosition(row: PositionRow): PositionRecord {
+  return {
+    accountId: row.account_id,
+    symbol: row.symbol,
+    quantity: row.quantity,
+    averageCost: row.average_cost,
+    realizedPnl: row.realized_pnl,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class PositionRepository {
+  constructor(private readonly db: Queryable) {}
+
+  async get(accountId: string, symbol: string): Promise<PositionRecord | null> {
+    const { rows } = await this.db.query<PositionRow>(
+      'SELECT * FROM positions WHERE account_id = ? AND symbol = ?',
+      [accountId, symbol]
+    );
+    return rows[0] ? toPosition(rows[0]) : null;
+  }
+
+  /** By symbol. */
+  async list(accountId: string): Promise<PositionRecord[]> {
+    const { rows } = await this.db.query<PositionRow>(
+      'SELECT * FROM positions WHERE account_id = ? ORDER BY symbol',
+      [accountId]
+    );
+    return rows.map(toPosition);
+  }
+
+  async save(position: PositionRecord): Promise<void> {
+    await this.db.query(
+      upsert('positions', POSITION_COLUMNS, ['account_id', 'symbol']),
+      [
+        position.accountId,
+        position.symbol,
+        position.quantity,
+        position.averageCost,
+        position.realizedPnl,
+        position.updatedAt,
+      ]
+    );
+  }
+
+  async delete(accountId: string, symbol: string): Promise<boolean> {
+    const { rowCount } = await this.db.query(
+      'DELETE FROM positions WHERE account_id = ? AND symbol = ?',
+      [accountId, symbol]
+    );
+    return rowCount > 0;
+  }
+}
+
+type BarRow = {
+  symbol: string;
+  timeframe: Timeframe;
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap: number | null;
+  trades: number | null;
+};
+
+const BAR_COLUMNS = [
+  'symbol',
+  'timeframe',
+  'timestamp',
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+  'vwap',
+  'trades',
+];
+
+function toBar(row: BarRow): Bar {
+  return compact({
+    symbol: row.symbol,
+    timestamp: row.timestamp,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume,
+    vwap: optional(row.vwap),
+    trades: optional(row.trades),
+  });
+}
+
+/** Bars by symbol and timeframe; a bar saved again replaces the old one. */
+export class BarRepository {
+  constructor(private readonly db: Queryable) {}
+
+  /** Returns how many bars were written. */
+  async save(timeframe: Timeframe, bars: Bar[]): Promise<number> {
+    if (bars.length === 0) return 0;
+    const sql = upsert('bars', BAR_COLUMNS, [
+      'symbol',
+      'timeframe',
+      'timestamp',
+    ]);
+    await this.db.transaction(async tx => {
+      for (const bar of bars) {
+        await tx.query(sql, [
+          bar.symbol,
+          timeframe,
+          bar.timestamp,
+          bar.open,
+          bar.high,
+          bar.low,
+          bar.close,
+          bar.volume,
+          bar.vwap ?? null,
+          bar.trades ?? null,
+        ]);
+      }
+    });
+    return bars.length;
+  }
+
+  /** Oldest first; with a limit, the latest bars in the range. */
+  async range(
+    symbol: string,
+    timeframe: Timeframe,
+    range: TimeRange = {}
+  ): Promise<Bar[]> {
+    const where = ['symbol = ?', 'timeframe = ?'];
+    const params: SqlValue[] = [symbol, timeframe];
+    if (range.start !== undefined) {
+      where.push('timestamp >= ?');
+      params.push(range.start);
+    }
+    if (range.end !== undefined) {
+      where.push('timestamp < ?');
+      params.push(range.end);
+    }
+    let sql = `SELECT * FROM bars WHERE ${where.join(' AND ')} ORDER BY timestamp DESC`;
+    if (range.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(range.limit);
+    }
+    const { rows } = await this.db.query<BarRow>(sql, params);
+    return rows.reverse().map(toBar);
+  }
+}
+
+type BacktestRow = {
+  id: string;
+  /** Null for runs saved before owners were recorded. */
+  user_id: string | null;
+  strategy: string;
+  params: string;
+  symbols: string;
+  summary: string;
+  result: string;
+  created_at: string;
+};
+
+const BACKTEST_COLUMNS = [
+  'id',
+  'user_id',
+  'strategy',
+  'params',
+  'symbols',
+  'summary',
+  'result',
+  'created_at',
+];
+
+/** Backtest runs, stored the way {@link BacktestStore} expects. */
+export class BacktestResultRepository implements BacktestStore {
+  constructor(private readonly db: Queryable) {}
+
+  async save(record: BacktestRecord): Promise<void> {
+    const item = toListItem(record);
+    await this.db.query(upsert('backtest_results', BACKTEST_COLUMNS, ['id']), [
+      record.id,
+      record.userId,
+      item.strategy,
+      JSON.stringify(record.params),
+      JSON.stringify(item.symbols),
+      JSON.stringify(item.summary),
+      JSON.stringify(record.result),
+      record.createdAt,
+    ]);
+  }
+
+  async get(id: string): Promise<BacktestRecord | null> {
+    const { rows } = await this.db.query<BacktestRow>(
+      'SELECT * FROM backtest_results WHERE id = ?',
+      [id]
+    );
+    const row = rows[0];
+    if (!row) return null;
+    return {
+      id: row.id,
+      userId: row.user_id ?? '',
+      createdAt: row.created_at,
+      params: JSON.parse(row.params),
+      result: JSON.parse(row.result),
+    };
+  }
+
+  /** Skips the stored results, which listings do not need. */
+  async list(userId: string, limit = 50): Promise<BacktestListItem[]> {
+    const { rows } = await this.db.query<
+      Omit<BacktestRow, 'result' | 'user_id'>
+    >(
+      'SELECT id, strategy, params, symbols, summary, created_at ' +
+        'FROM backtest_results WHERE user_id = ? ' +
+        'ORDER BY created_at DESC, id DESC LIMIT ?',
+      [userId, limit]
+    );
+    return rows.map(row => ({
+      id: row.id,
+      createdAt: row.created_at,
+      strategy: row.strategy,
+      params: JSON.parse(row.params),
+      symbols: JSON.parse(row.symbols),
+      summary: JSON.parse(row.summary),
+    }));
+  }
+}
+
+/** Every repository, over the database or a transaction. */
+export interface Repositories {
+  users: UserRepository;
+  sessions: SessionRepository;
+  apiTokens: ApiTokenRepository;
+  accounts: AccountRepository;
+  orders: OrderRepository;
+  fills: FillRepository;
+  positions: PositionRepository;
+  bars: BarRepository;
+  backtestResults: BacktestResultRepository;
+}
+
+export function repositories(db: Queryable): Repositories {
+  return {
+    users: new UserRepository(db),
+    sessions: new SessionRepository(db),
+    apiTokens: new ApiTokenRepository(db),
+    accounts: new AccountRepository(db),
+    orders: new OrderRepository(db),
+    fills: new FillRepository(db),
+    positions: new PositionRepository(db),
+    bars: new BarRepository(db),
+    backtestResults: new BacktestResultRepository(db),
+  };
+}
@@ -0,0 +1,125 @@
+import { userIdFor } from '../auth/service';
+import { DEFAULT_ACCOUNT_ID } from '../oms/manager';
+import type { Repositories } from './repositories';
+import type { Queryable } from './types';
+
+/** Test and development data; seeds run in order and may be re-run. */
+export interface Seed {
+  name: string;
+  run(repositories: Repositories): Promise<void>;
+}
+
+const DAY_MS = 86_400_000;
+/** 2024-01-02, a Tuesday. */
+const SEED_START = Date.UTC(2024, 0, 2);
+
+/** The local provider's test user, found again when they log in. */
+export const SEED_USER_ID = userIdFor('local', 'test@example.com');
+
+export const SEEDS: Seed[] = [
+  {
+    name: 'users_and_accounts',
+    async run({ users, accounts }) {
+      await users.save({
+        id: SEED_USER_ID,
+        email: 'test@example.com',
+        name: 'Test User',
+        provider: 'local',
+        scopes: ['read', 'trade'],
+        createdAt: SEED_START,
+      });
+      await accounts.save({
+        id: DEFAULT_ACCOUNT_ID,
+        userId: SEED_USER_ID,
+        name: 'Paper trading',
+        currency: 'USD',
+        cash: 100_000,
+        createdAt: SEED_START,
+      });
+    },
+  },
+  {
+    name: 'bars',
+    async run({ bars }) {
+      const opens = [187.15, 184.22, 182.15, 181.99, 182.09];
+      const closes = [185.64, 184.25, 181.91, 181.18, 185.56];
+      await bars.save(
+        '1d',
+        closes.map((close, index) => ({
+          symbol: 'AAPL',
+          timestamp: SEED_START + index * DAY_MS,
+          open: opens[index],
+          high: Math.max(opens[index], close) + 1,
+          low: Math.min(opens[index], close) - 1,
+          close,
+          volume: 50_000_000 + index * 1_000_000,
+        }))
+      );
+    },
+  },
+  {
+    name: 'orders_and_positions',
+    async run({ orders, positions }) {
+      const filledAt = SEED_START + 15 * 3_600_000;
+      await orders.save({
+        id: 'seed-order-1',
+        accountId: DEFAULT_ACCOUNT_ID,
+        clientOrderId: 'seed-1',
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'market',
+        quantity: 10,
+        timeInForce: 'day',
+        status: 'filled',
+        filledQuantity: 10,
+        averageFillPrice: 185.5,
+        createdAt: filledAt,
+        updatedAt: filledAt,
+        fills: [
+          {
+            id: 'seed-fill-1',
+            orderId: 'seed-order-1',
+            symbol: 'AAPL',
+            side: 'buy',
+            quantity: 10,
+            price: 185.5,
+            commission: 1,
+            timestamp: filledAt,
+          },
+        ],
+        history: [
+          { from: null, to: 'new', at: filledAt },
+          { from: 'new', to: 'pending', at: filledAt },
+          { from: 'pending', to: 'accepted', at: filledAt },
+          { from: 'accepted', to: 'filled', at: filledAt },
+        ],
+      });
+      await positions.save({
+        accountId: DEFAULT_ACCOUNT_ID,
+        symbol: 'AAPL',
+        quantity: 10,
+        averageCost: 185.5,
+        realizedPnl: 0,
+        updatedAt: filledAt,
+      });
+    },
+  },
+];
+
+/** Runs every seed in one transaction. */
+export class Seeder {
+  constructor(
+    private readonly db: Queryable,
+    private readonly seeds: Seed[],
+    private readonly repositories: (db: Queryable) => Repositories
+  ) {}
+
+  /** Resolves to the names of the seeds run. */
+  run(): Promise<string[]> {
+    return this.db.transaction(async tx => {
+      const repositories = this.repositories(tx);
+      for (const seed of this.seeds) await seed.run(repositories);
+      return this.seeds.map(seed => seed.name);
+    });
+  }
+}
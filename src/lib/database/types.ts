@@ -0,0 +1,90 @@
+export type Dialect = 'sqlite' | 'postgres';
+
+export type SqlValue = string | number | boolean | null;
+
+export type Row = Record<string, unknown>;
+
+export interface QueryResult<R extends Row = Row> {
+  rows: R[];
+  /** Rows returned by a query, or changed by a statement. */
+  rowCount: number;
+}
+
+/**
+ * Something SQL can run against: the database itself or an open
+ * transaction. Statements take `?` placeholders whatever the dialect.
+ */
+export interface Queryable {
+  readonly dialect: Dialect;
+  query<R extends Row = Row>(
+    sql: string,
+    params?: SqlValue[]
+  ): Promise<QueryResult<R>>;
+  /**
+   * Runs `work` in a transaction, committed when it resolves and rolled
+   * back when it throws. Inside a transaction it just runs `work`.
+   */
+  transaction<T>(work: (tx: Queryable) => Promise<T>): Promise<T>;
+}
+
+export interface DatabaseDriver extends Queryable {
+  close(): Promise<void>;
+}
+
+/** A schema change; versions are applied in ascending order. */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Queryable): Promise<void>;
+  down(db: Queryable): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** The batch that applied it; `null` while pending. */
+  batch: number | null;
+  appliedAt: number | null;
+}
+
+export interface MigrationRun {
+  /** `0` when there was nothing to do. */
+  batch: number;
+  /** Names of the migrations applied or rolled back, in order. */
+  migrations: string[];
+}
+
+export interface Account {
+  id: string;
+  userId: string;
+  name: string;
+  currency: string;
+  cash: number;
+  createdAt: number;
+}
+
+export interface PositionRecord {
+  accountId: string;
+  symbol: string;
+  quantity: number;
+  averageCost: number;
+  realizedPnl: number;
+  updatedAt: number;
+}
+
+export type DatabaseErrorCode =
+  | 'UNKNOWN_DRIVER'
+  | 'CONNECTION_FAILED'
+  | 'QUERY_FAILED'
+  | 'MIGRATION_FAILED'
+  | 'CLOSED';
+
+export class DatabaseError extends Error {
+  constructor(
+    readonly code: DatabaseErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'DatabaseError';
+  }
+}
@@ -0,0 +1,69 @@
+import { leastSquares } from './linalg';
+import { ForecastError } from './types';
+
+/** `series` and its first `times` differences, `levels[0]` being `series`. */
+function differences(series: readonly number[], times: number): number[][] {
+  const levels = [Array.from(series)];
+  for (let d = 0; d < times; d++) {
+    const last = levels[levels.length - 1];
+    levels.push(last.slice(1).map((value, i) => value - last[i]));
+  }
+  return levels;
+}
+
+/**
+ * ARIMA(p, d, 0) on log prices: the series is differenced `d` times
+ * (once gives log returns) and each value regressed by least squares on
+ * the `p` before it. Forecasts run the recursion forward and integrate
+ * the differences back into a price.
+ */
+export class AutoRegressive {
+  private coefficients: number[] = [];
+  private intercept = 0;
+
+  constructor(
+    readonly order = 5,
+    readonly differencing = 1
+  ) {}
+
+  fit(logPrices: readonly number[]): void {
+    const series = differences(logPrices, this.differencing)[this.differencing];
+    if (series.length <= 2 * this.order) {
+      throw new ForecastError(
+        'INSUFFICIENT_DATA',
+        `An AR(${this.order}) model needs more than ${2 * this.order + this.differencing} prices`
+      );
+    }
+    const rows: number[][] = [];
+    const targets: number[] = [];
+    for (let t = this.order; t < series.length; t++) {
+      rows.push([...this.lags(series, t), 1]);
+      targets.push(series[t]);
+    }
+    const solution = leastSquares(rows, targets, 1e-8);
+    this.intercept = solution.pop() as number;
+    this.coefficients = solution;
+  }
+
+  /** Predicted change in log price from the last of `logPrices`. */
+  forecast(logPrices: readonly number[], steps: number): number {
+    const levels = differences(logPrices, this.differencing);
+    const series = levels[this.differencing];
+    const lasts = levels.map(level => level[level.length - 1]);
+    for (let s = 0; s < steps; s++) {
+      const next = this.coefficients.reduce(
+        (sum, coefficient, k) =>
+          sum + coefficient * series[series.length - 1 - k],
+        this.intercept
+      );
+      series.push(next);
+      lasts[this.differencing] = next;
+      for (let k = this.differencing - 1; k >= 0; k--) lasts[k] += lasts[k + 1];
+    }
+    return lasts[0] - logPrices[logPrices.length - 1];
+  }
+
+  private lags(series: readonly number[], t: number): number[] {
+    return Array.from({ length: this.order }, (_, k) => series[t - 1 - k]);
+  }
+}
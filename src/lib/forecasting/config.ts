@@ -0,0 +1,90 @@
+import { TIMEFRAMES } from '../marketdata/timeframes';
+import type { Timeframe } from '../marketdata/types';
+import { Validator } from '../validation';
+import {
+  DEFAULT_HORIZON,
+  DEFAULT_TEST_FRACTION,
+  DEFAULT_THRESHOLD,
+  withDefaults,
+} from './forecaster';
+import { MODEL_TYPES, type ForecastOptions, type ModelSpec } from './types';
+
+export interface ForecastRequest {
+  symbol: string;
+  timeframe: Timeframe;
+  /** Most recent bars to train and test on. */
+  lookback: number;
+  options: ForecastOptions;
+}
+
+export const DEFAULT_LOOKBACK = 500;
+/** Bounds training cost, which grows with bars × trees × depth. */
+export const MAX_LOOKBACK = 2_000;
+
+/**
+ * Validates a forecast request as sent to `/api/v1/forecasts` or built by
+ * the CLI, filling in defaults. Returns every problem found.
+ */
+export function parseForecastRequest(
+  input: unknown
+): { request: ForecastRequest; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const symbol = fields.string('symbol', true);
+  const timeframe = fields.oneOf('timeframe', TIMEFRAMES) ?? '1d';
+  const lookback =
+    fields.integer('lookback', false, { min: 100, max: MAX_LOOKBACK }) ??
+    DEFAULT_LOOKBACK;
+  const horizon =
+    fields.integer('horizon', false, { min: 1, max: 20 }) ?? DEFAULT_HORIZON;
+  const testFraction =
+    fields.number('testFraction', false, { min: 0.1, max: 0.5 }) ??
+    DEFAULT_TEST_FRACTION;
+  const threshold =
+    fields.number('threshold', false, { min: 0.5, max: 0.99 }) ??
+    DEFAULT_THRESHOLD;
+  const model = parseModel(fields);
+
+  if (!fields.valid || !symbol) return { problems: fields.problems };
+  return {
+    problems: [],
+    request: {
+      symbol: symbol.trim().toUpperCase(),
+      timeframe,
+      lookback,
+      options: { model, horizon, testFraction, threshold },
+    },
+  };
+}
+
+function parseModel(fields: Validator): ModelSpec {
+  const spec = fields.object('model');
+  if (!spec) return withDefaults({ type: 'ridge' });
+  switch (spec.oneOf('type', MODEL_TYPES, true)) {
+    case 'linear':
+      return withDefaults({ type: 'linear' });
+    case 'ridge':
+      return withDefaults({
+        type: 'ridge',
+        lambda: spec.number('lambda', false, { min: 0, max: 1e6 }),
+      });
+    case 'autoregressive':
+      return withDefaults({
+        type: 'autoregressive',
+        order: spec.integer('order', false, { min: 1, max: 20 }),
+        differencing: spec.integer('differencing', false, { min: 0, max: 2 }),
+      });
+    case 'boosted-trees':
+      return withDefaults({
+        type: 'boosted-trees',
+        trees: spec.integer('trees', false, { min: 1, max: 300 }),
+        depth: spec.integer('depth', false, { min: 1, max: 5 }),
+        learningRate: spec.number('learningRate', false, {
+          min: 0.001,
+          max: 1,
+        }),
+        minLeaf: spec.integer('minLeaf', false, { min: 1, max: 100 }),
+      });
+    default:
+      return withDefaults({ type: 'ridge' });
+  }
+}
@@ -0,0 +1,94 @@
+import { ATR, BollingerBands, MACD, RSI, SMA } from '../indicators';
+import type { Bar } from '../marketdata/types';
+import { stdev } from './linalg';
+import type { Sample } from './types';
+
+/** Every feature is scale-free, so one model can serve any price level. */
+export const FEATURE_NAMES = [
+  'return1',
+  'return5',
+  'return10',
+  'return20',
+  'sma10Gap',
+  'sma50Gap',
+  'rsi14',
+  'macdHistogram',
+  'bollingerPosition',
+  'atr14',
+  'volatility20',
+  'volumeRatio20',
+];
+
+/** Bars needed before the slowest feature (SMA 50) has a value. */
+export const WARMUP_BARS = 50;
+
+/**
+ * One sample per bar once every feature has warmed up. The target is the
+ * log return from the bar's close to the close `horizon` bars later, and
+ * `null` for the last bars, whose future is still unknown.
+ */
+export function buildSamples(bars: readonly Bar[], horizon: number): Sample[] {
+  const sma10 = new SMA(10);
+  const sma50 = new SMA(50);
+  const rsi = new RSI(14);
+  const macd = new MACD();
+  const bands = new BollingerBands(20);
+  const atr = new ATR(14);
+  const volume = new SMA(20);
+  const logCloses = bars.map(bar => Math.log(bar.close));
+  const changes = logCloses.map((value, i) =>
+    i === 0 ? 0 : value - logCloses[i - 1]
+  );
+  const samples: Sample[] = [];
+
+  bars.forEach((bar, i) => {
+    const fast = sma10.update(bar);
+    const slow = sma50.update(bar);
+    const strength = rsi.update(bar);
+    const trend = macd.update(bar);
+    const band = bands.update(bar);
+    const range = atr.update(bar);
+    // Plain numbers are read as closes, so this averages volume.
+    const averageVolume = volume.update(bar.volume);
+    if (
+      i < 20 ||
+      fast === null ||
+      slow === null ||
+      strength === null ||
+      trend === null ||
+      band === null ||
+      range === null ||
+      averageVolume === null
+    ) {
+      return;
+    }
+
+    const back = (n: number) => logCloses[i] - logCloses[i - n];
+    const width = band.upper - band.lower;
+    samples.push({
+      index: i,
+      timestamp: bar.timestamp,
+      features: [
+        back(1),
+        back(5),
+        back(10),
+        back(20),
+        bar.close / fast - 1,
+        bar.close / slow - 1,
+        strength / 100 - 0.5,
+        trend.histogram / bar.close,
+        width > 0 ? (bar.close - band.lower) / width - 0.5 : 0,
+        range / bar.close,
+        stdev(changes.slice(i - 19, i + 1)),
+        averageVolume > 0 && bar.volume > 0
+          ? Math.log(bar.volume / averageVolume)
+          : 0,
+      ],
+      target:
+        i + horizon < bars.length
+          ? logCloses[i + horizon] - logCloses[i]
+          : null,
+    });
+  });
+  return samples;
+}
@@ -0,0 +1,235 @@
+import type { Bar } from '../marketdata/types';
+import { AutoRegressive } from './autoregressive';
+import { FEATURE_NAMES, buildSamples } from './features';
+import { normalCdf } from './linalg';
+import { RidgeRegression } from './ridge';
+import { GradientBoostedTrees } from './trees';
+import {
+  ForecastError,
+  type Evaluation,
+  type ForecastOptions,
+  type ForecastRun,
+  type ModelSpec,
+  type Sample,
+  type Signal,
+  type SignalDirection,
+} from './types';
+
+export const DEFAULT_HORIZON = 1;
+export const DEFAULT_TEST_FRACTION = 0.25;
+export const DEFAULT_THRESHOLD = 0.55;
+
+const MIN_TRAINING_SAMPLES = 30;
+const MIN_TEST_SAMPLES = 10;
+
+/** `spec` with every hyperparameter spelled out. */
+export function withDefaults(spec: ModelSpec): ModelSpec {
+  switch (spec.type) {
+    case 'linear':
+      return { type: 'linear' };
+    case 'ridge':
+      return { type: 'ridge', lambda: spec.lambda ?? 1 };
+    case 'autoregressive':
+      return {
+        type: 'autoregressive',
+        order: spec.order ?? 5,
+        differencing: spec.differencing ?? 1,
+      };
+    case 'boosted-trees':
+      return {
+        type: 'boosted-trees',
+        trees: spec.trees ?? 100,
+        depth: spec.depth ?? 3,
+        learningRate: spec.learningRate ?? 0.05,
+        minLeaf: spec.minLeaf ?? 10,
+      };
+    default:
+      throw new ForecastError(
+        'INVALID_MODEL',
+        `Unknown model type ${JSON.stringify((spec as { type: unknown }).type)}`
+      );
+  }
+}
+
+/** A model behind one interface, whatever it reads from a sample. */
+interface Predictor {
+  features: string[];
+  fit(samples: Sample[]): void;
+  predict(sample: Sample): number;
+}
+
+function createPredictor(
+  spec: ModelSpec,
+  bars: readonly Bar[],
+  horizon: number
+): Predictor {
+  if (spec.type === 'autoregressive') {
+    const model = new AutoRegressive(spec.order, spec.differencing);
+    const logPrices = bars.map(bar => Math.log(bar.close));
+    return {
+      features: Array.from({ length: model.order }, (_, k) => `lag${k + 1}`),
+      // Prices up to the last training target, and no further.
+      fit: samples =>
+        model.fit(
+          logPrices.slice(0, samples[samples.length - 1].index + horizon + 1)
+        ),
+      predict: sample =>
+        model.forecast(logPrices.slice(0, sample.index + 1), horizon),
+    };
+  }
+  const regressor =
+    spec.type === 'boosted-trees'
+      ? new GradientBoostedTrees(spec)
+      : new RidgeRegression(spec.type === 'ridge' ? spec.lambda : 0);
+  return {
+    features: FEATURE_NAMES,
+    fit: samples =>
+      regressor.fit(
+        samples.map(sample => sample.features),
+        samples.map(sample => sample.target as number)
+      ),
+    predict: sample => regressor.predict(sample.features),
+  };
+}
+
+const directionOf = (value: number): SignalDirection =>
+  value > 0 ? 'up' : 'down';
+
+/** Chance the move is up, treating the model's error as normal. */
+function probabilityUp(prediction: number, scale: number): number {
+  if (scale <= 0) return prediction > 0 ? 1 : prediction < 0 ? 0 : 0.5;
+  return normalCdf(prediction / scale);
+}
+
+function signalDirection(up: number, threshold: number): SignalDirection {
+  if (up >= threshold) return 'up';
+  if (1 - up >= threshold) return 'down';
+  return 'flat';
+}
+
+function rootMeanSquare(values: number[]): number {
+  return Math.sqrt(
+    values.reduce((sum, value) => sum + value * value, 0) / values.length
+  );
+}
+
+/**
+ * Trains `options.model` on the older samples of `bars`, scores it on the
+ * newest `testFraction` of them, then refits on everything labelled and
+ * forecasts the next `horizon` bars from the last one.
+ *
+ * Training samples whose targets reach into the test period are dropped,
+ * so no test price leaks into training. Confidence during the test comes
+ * from the training error; the final signal's from the test error.
+ */
+export function runForecast(
+  bars: readonly Bar[],
+  options: ForecastOptions
+): ForecastRun {
+  const horizon = options.horizon ?? DEFAULT_HORIZON;
+  const testFraction = options.testFraction ?? DEFAULT_TEST_FRACTION;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const model = withDefaults(options.model);
+
+  const samples = buildSamples(bars, horizon);
+  const labelled = samples.filter(sample => sample.target !== null);
+  const testStart =
+    labelled.length - Math.floor(labelled.length * testFraction);
+  const training = labelled.slice(0, Math.max(testStart - horizon + 1, 0));
+  const test = labelled.slice(testStart);
+  if (
+    training.length < MIN_TRAINING_SAMPLES ||
+    test.length < MIN_TEST_SAMPLES
+  ) {
+    throw new ForecastError(
+      'INSUFFICIENT_DATA',
+      `${bars.length} bars give ${training.length} training and ` +
+        `${test.length} test samples; at least ${MIN_TRAINING_SAMPLES} ` +
+        `and ${MIN_TEST_SAMPLES} are needed`
+    );
+  }
+
+  const predictor = createPredictor(model, bars, horizon);
+  predictor.fit(training);
+  const trainingError = rootMeanSquare(
+    training.map(
+      sample => predictor.predict(sample) - (sample.target as number)
+    )
+  );
+  const evaluation = evaluate(
+    predictor,
+    training,
+    test,
+    trainingError,
+    threshold
+  );
+
+  predictor.fit(labelled);
+  const latest = samples[samples.length - 1];
+  const price = bars[latest.index].close;
+  const expectedReturn = predictor.predict(latest);
+  const up = probabilityUp(expectedReturn, evaluation.rmse);
+  const signal: Signal = {
+    timestamp: latest.timestamp,
+    price,
+    direction: signalDirection(up, threshold),
+    confidence: Math.max(up, 1 - up),
+    probabilityUp: up,
+    expectedReturn,
+    targetPrice: price * Math.exp(expectedReturn),
+  };
+
+  return {
+    model,
+    horizon,
+    features: predictor.features,
+    training: {
+      samples: training.length,
+      start: training[0].timestamp,
+      end: training[training.length - 1].timestamp,
+    },
+    evaluation,
+    signal,
+  };
+}
+
+function evaluate(
+  predictor: Predictor,
+  training: Sample[],
+  test: Sample[],
+  scale: number,
+  threshold: number
+): Evaluation {
+  const ups = training.filter(sample => (sample.target as number) > 0).length;
+  const usual: SignalDirection = ups * 2 >= training.length ? 'up' : 'down';
+
+  let right = 0;
+  let baseline = 0;
+  let signals = 0;
+  let signalsRight = 0;
+  const errors = test.map(sample => {
+    const target = sample.target as number;
+    const prediction = predictor.predict(sample);
+    const actual = directionOf(target);
+    if (directionOf(prediction) === actual) right++;
+    if (usual === actual) baseline++;
+    const called = signalDirection(probabilityUp(prediction, scale), threshold);
+    if (called !== 'flat') {
+      signals++;
+      if (called === actual) signalsRight++;
+    }
+    return prediction - target;
+  });
+
+  return {
+    samples: test.length,
+    start: test[0].timestamp,
+    end: test[test.length - 1].timestamp,
+    directionalAccuracy: right / test.length,
+    baselineAccuracy: baseline / test.length,
+    mae: errors.reduce((sum, error) => sum + Math.abs(error), 0) / test.length,
+    rmse: rootMeanSquare(errors),
+    signals,
+    signalAccuracy: signals > 0 ? signalsRight / signals : null,
+  };
+}
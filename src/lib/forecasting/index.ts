@@ -0,0 +1,45 @@
+import { getMarketDataProvider } from '../marketdata';
+import { loadBars } from '../marketdata/bars';
+import type { MarketDataProvider } from '../marketdata/provider';
+import type { ForecastRequest } from './config';
+import { runForecast } from './forecaster';
+import type { ForecastResult } from './types';
+
+export * from './types';
+export * from './config';
+export {
+  DEFAULT_HORIZON,
+  DEFAULT_TEST_FRACTION,
+  DEFAULT_THRESHOLD,
+  runForecast,
+  withDefaults,
+} from './forecaster';
+export { FEATURE_NAMES, WARMUP_BARS, buildSamples } from './features';
+export { AutoRegressive } from './autoregressive';
+export { RidgeRegression } from './ridge';
+export { GradientBoostedTrees, type BoostingOptions } from './trees';
+export { leastSquares, normalCdf, solve } from './linalg';
+
+export interface ExecuteForecastOptions {
+  provider?: MarketDataProvider;
+}
+
+/**
+ * Loads the latest `request.lookback` bars (resampled if needed) and runs
+ * the forecast on them. Everything happens in process, on the CPU.
+ */
+export async function executeForecast(
+  request: ForecastRequest,
+  options: ExecuteForecastOptions = {}
+): Promise<ForecastResult> {
+  const provider = options.provider ?? getMarketDataProvider();
+  const { bars } = await loadBars(provider, request.symbol, {
+    timeframe: request.timeframe,
+    limit: request.lookback,
+  });
+  return {
+    symbol: request.symbol,
+    timeframe: request.timeframe,
+    ...runForecast(bars, request.options),
+  };
+}
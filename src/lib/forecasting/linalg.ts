@@ -0,0 +1,83 @@
+export function mean(values: readonly number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Population standard deviation; 0 for fewer than two values. */
+export function stdev(values: readonly number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(
+    values.reduce((sum, value) => sum + (value - m) ** 2, 0) / values.length
+  );
+}
+
+/**
+ * Solves `a x = b` by Gaussian elimination with partial pivoting. Columns
+ * with no usable pivot (a singular system) get a zero coefficient rather
+ * than an error, which is what least squares with a redundant feature wants.
+ */
+export function solve(a: readonly number[][], b: readonly number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) continue;
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    if (Math.abs(m[row][row]) < 1e-12) continue;
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Least-squares coefficients for `rows · w ≈ targets` with an L2 penalty
+ * of `lambda` on every coefficient: `(XᵀX + λI) w = Xᵀy`.
+ */
+export function leastSquares(
+  rows: readonly number[][],
+  targets: readonly number[],
+  lambda = 0
+): number[] {
+  const width = rows[0]?.length ?? 0;
+  const gram = Array.from({ length: width }, () =>
+    new Array<number>(width).fill(0)
+  );
+  const moment = new Array<number>(width).fill(0);
+  rows.forEach((row, r) => {
+    for (let i = 0; i < width; i++) {
+      moment[i] += row[i] * targets[r];
+      for (let j = i; j < width; j++) gram[i][j] += row[i] * row[j];
+    }
+  });
+  for (let i = 0; i < width; i++) {
+    gram[i][i] += lambda;
+    for (let j = 0; j < i; j++) gram[i][j] = gram[j][i];
+  }
+  return solve(gram, moment);
+}
+
+/** Standard normal cumulative distribution (Abramowitz & Stegun 26.2.17). */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density *
+    t *
+    (0.31938153 +
+      t *
+        (-0.356563782 +
+          t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
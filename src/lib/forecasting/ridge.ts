@@ -0,0 +1,51 @@
+import { leastSquares, mean, stdev } from './linalg';
+import type { Regressor } from './types';
+
+/**
+ * Linear regression with an L2 penalty. Features are standardized on the
+ * training rows first so one `lambda` shrinks them all alike; the
+ * intercept is never penalized. `lambda = 0` is ordinary least squares.
+ */
+export class RidgeRegression implements Regressor {
+  private means: number[] = [];
+  private scales: number[] = [];
+  private weights: number[] = [];
+  private intercept = 0;
+
+  constructor(readonly lambda = 1) {}
+
+  /** Coefficients on the standardized features, in feature order. */
+  get coefficients(): number[] {
+    return [...this.weights];
+  }
+
+  fit(rows: number[][], targets: number[]): void {
+    const width = rows[0]?.length ?? 0;
+    this.means = [];
+    this.scales = [];
+    for (let j = 0; j < width; j++) {
+      const column = rows.map(row => row[j]);
+      this.means.push(mean(column));
+      // Constant columns carry no information; a scale of 1 keeps them 0.
+      this.scales.push(stdev(column) || 1);
+    }
+    this.intercept = mean(targets);
+    this.weights = leastSquares(
+      rows.map(row => this.standardize(row)),
+      targets.map(target => target - this.intercept),
+      // A whisker of ridge keeps plain least squares solvable.
+      Math.max(this.lambda, 1e-8)
+    );
+  }
+
+  predict(row: number[]): number {
+    return this.standardize(row).reduce(
+      (sum, value, j) => sum + value * this.weights[j],
+      this.intercept
+    );
+  }
+
+  private standardize(row: number[]): number[] {
+    return row.map((value, j) => (value - this.means[j]) / this.scales[j]);
+  }
+}
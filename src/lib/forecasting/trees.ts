@@ -0,0 +1,147 @@
+import { mean } from './linalg';
+import type { Regressor } from './types';
+
+type TreeNode =
+  | { value: number }
+  | { feature: number; threshold: number; left: TreeNode; right: TreeNode };
+
+export interface BoostingOptions {
+  trees?: number;
+  depth?: number;
+  learningRate?: number;
+  minLeaf?: number;
+}
+
+interface Split {
+  feature: number;
+  threshold: number;
+  gain: number;
+}
+
+/**
+ * The split that most reduces the squared error. `sorted` holds the node's
+ * rows once per feature, ordered by that feature.
+ */
+function bestSplit(
+  rows: number[][],
+  residuals: number[],
+  sorted: number[][],
+  minLeaf: number
+): Split | null {
+  const n = sorted[0].length;
+  const total = sorted[0].reduce((sum, i) => sum + residuals[i], 0);
+  let best: Split | null = null;
+
+  for (let feature = 0; feature < sorted.length; feature++) {
+    const order = sorted[feature];
+    let leftSum = 0;
+    for (let k = 0; k < n - 1; k++) {
+      leftSum += residuals[order[k]];
+      const here = rows[order[k]][feature];
+      const next = rows[order[k + 1]][feature];
+      const leftCount = k + 1;
+      if (here === next || leftCount < minLeaf || n - leftCount < minLeaf) {
+        continue;
+      }
+      const rightSum = total - leftSum;
+      // The reduction in squared error, less the constant parent term.
+      const gain =
+        (leftSum * leftSum) / leftCount +
+        (rightSum * rightSum) / (n - leftCount) -
+        (total * total) / n;
+      if (!best || gain > best.gain) {
+        best = { feature, threshold: (here + next) / 2, gain };
+      }
+    }
+  }
+  return best && best.gain > 1e-15 ? best : null;
+}
+
+function grow(
+  rows: number[][],
+  residuals: number[],
+  sorted: number[][],
+  depth: number,
+  minLeaf: number
+): TreeNode {
+  const indices = sorted[0];
+  const value = mean(indices.map(i => residuals[i]));
+  if (depth === 0 || indices.length < 2 * minLeaf) return { value };
+  const split = bestSplit(rows, residuals, sorted, minLeaf);
+  if (!split) return { value };
+  // Partitioning each ordering keeps both children sorted without a re-sort.
+  const goesLeft = (i: number) => rows[i][split.feature] <= split.threshold;
+  return {
+    feature: split.feature,
+    threshold: split.threshold,
+    left: grow(
+      rows,
+      residuals,
+      sorted.map(order => order.filter(goesLeft)),
+      depth - 1,
+      minLeaf
+    ),
+    right: grow(
+      rows,
+      residuals,
+      sorted.map(order => order.filter(i => !goesLeft(i))),
+      depth - 1,
+      minLeaf
+    ),
+  };
+}
+
+function evaluate(node: TreeNode, row: number[]): number {
+  let current = node;
+  while (!('value' in current)) {
+    current =
+      row[current.feature] <= current.threshold ? current.left : current.right;
+  }
+  return current.value;
+}
+
+/**
+ * Gradient boosting on squared error: each shallow regression tree fits
+ * what the trees before it still get wrong, and adds a `learningRate`
+ * share of its prediction. Deterministic, with no sampling.
+ */
+export class GradientBoostedTrees implements Regressor {
+  readonly trees: number;
+  readonly depth: number;
+  readonly learningRate: number;
+  readonly minLeaf: number;
+  private base = 0;
+  private ensemble: TreeNode[] = [];
+
+  constructor(options: BoostingOptions = {}) {
+    this.trees = options.trees ?? 100;
+    this.depth = options.depth ?? 3;
+    this.learningRate = options.learningRate ?? 0.05;
+    this.minLeaf = options.minLeaf ?? 10;
+  }
+
+  fit(rows: number[][], targets: number[]): void {
+    this.base = mean(targets);
+    this.ensemble = [];
+    const predictions = targets.map(() => this.base);
+    const indices = rows.map((_, i) => i);
+    const sorted = (rows[0] ?? []).map((_, feature) =>
+      [...indices].sort((a, b) => rows[a][feature] - rows[b][feature])
+    );
+    for (let t = 0; t < this.trees; t++) {
+      const residuals = targets.map((target, i) => target - predictions[i]);
+      const tree = grow(rows, residuals, sorted, this.depth, this.minLeaf);
+      this.ensemble.push(tree);
+      rows.forEach((row, i) => {
+        predictions[i] += this.learningRate * evaluate(tree, row);
+      });
+    }
+  }
+
+  predict(row: number[]): number {
+    return this.ensemble.reduce(
+      (sum, tree) => sum + this.learningRate * evaluate(tree, row),
+      this.base
+    );
+  }
+}
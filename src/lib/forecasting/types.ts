@@ -0,0 +1,117 @@
+import type { Timeframe } from '../marketdata/types';
+
+export type ModelType = 'linear' | 'ridge' | 'autoregressive' | 'boosted-trees';
+
+export const MODEL_TYPES: readonly ModelType[] = [
+  'linear',
+  'ridge',
+  'autoregressive',
+  'boosted-trees',
+];
+
+/** A model and its hyperparameters; omitted ones take their defaults. */
+export type ModelSpec =
+  | { type: 'linear' }
+  | { type: 'ridge'; lambda?: number }
+  | {
+      type: 'autoregressive';
+      /** Lagged values regressed on, the `p` of ARIMA(p, d, 0). */
+      order?: number;
+      /** Times the log prices are differenced, the `d`. */
+      differencing?: number;
+    }
+  | {
+      type: 'boosted-trees';
+      trees?: number;
+      depth?: number;
+      learningRate?: number;
+      /** Fewest training rows a leaf may hold. */
+      minLeaf?: number;
+    };
+
+/** Learns a number from a row of features. */
+export interface Regressor {
+  fit(rows: number[][], targets: number[]): void;
+  predict(row: number[]): number;
+}
+
+/** One bar's engineered features and what happened `horizon` bars later. */
+export interface Sample {
+  /** Index of the bar in the series the dataset was built from. */
+  index: number;
+  timestamp: number;
+  features: number[];
+  /** Log return over the next `horizon` bars; `null` when not yet known. */
+  target: number | null;
+}
+
+export interface ForecastOptions {
+  model: ModelSpec;
+  /** Bars ahead to forecast. Defaults to 1. */
+  horizon?: number;
+  /** Share of samples, the latest ones, held out for testing. */
+  testFraction?: number;
+  /** Probability of a move needed before a signal leaves `flat`. */
+  threshold?: number;
+}
+
+export type SignalDirection = 'up' | 'down' | 'flat';
+
+export interface Signal {
+  /** Close of the bar the forecast was made from. */
+  timestamp: number;
+  price: number;
+  direction: SignalDirection;
+  /** Probability of the predicted direction, from 0.5 to 1. */
+  confidence: number;
+  probabilityUp: number;
+  /** Predicted log return over the horizon. */
+  expectedReturn: number;
+  targetPrice: number;
+}
+
+/** How the model did on samples it was not trained on. */
+export interface Evaluation {
+  samples: number;
+  start: number;
+  end: number;
+  /** Share of samples whose direction the model called right. */
+  directionalAccuracy: number;
+  /** The same for always calling the training set's usual direction. */
+  baselineAccuracy: number;
+  mae: number;
+  rmse: number;
+  /** Samples where the model was confident enough to signal. */
+  signals: number;
+  /** Share of those signals that were right; `null` when there were none. */
+  signalAccuracy: number | null;
+}
+
+export interface ForecastRun {
+  /** The model as run, defaults filled in. */
+  model: ModelSpec;
+  horizon: number;
+  /** What the model reads: engineered features, or lags for AR models. */
+  features: string[];
+  training: { samples: number; start: number; end: number };
+  evaluation: Evaluation;
+  /** Made by the model refitted on every labelled sample. */
+  signal: Signal;
+}
+
+export interface ForecastResult extends ForecastRun {
+  symbol: string;
+  timeframe: Timeframe;
+}
+
+export type ForecastErrorCode = 'INSUFFICIENT_DATA' | 'INVALID_MODEL';
+
+export class ForecastError extends Error {
+  constructor(
+    readonly code: ForecastErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ForecastError';
+  }
+}
@@ -0,0 +1,75 @@
+import type { Broker } from '../broker/types';
+import type { Database } from '../database/database';
+import type { MarketDataProvider } from '../marketdata/provider';
+import type { CacheClient } from '../redis/types';
+import type { MarketFeed } from '../streaming/sources';
+import { HealthError, type ReadinessCheck } from './types';
+
+/** The provider answers and has symbols. */
+export function marketDataCheck(provider: MarketDataProvider): ReadinessCheck {
+  return async () => {
+    const symbols = await provider.listSymbols();
+    if (symbols.length === 0) {
+      throw new HealthError(`${provider.name} has no symbols`);
+    }
+    return { provider: provider.name, symbols: symbols.length };
+  };
+}
+
+/**
+ * While symbols are watched, the feed polled without error within
+ * `maxAgeMs` (by default three poll intervals). An idle feed is up.
+ */
+export function marketFeedCheck(
+  feed: MarketFeed,
+  maxAgeMs?: number,
+  clock: () => number = Date.now
+): ReadinessCheck {
+  return async () => {
+    const status = feed.status();
+    if (status.symbols.length === 0) return { watching: 0 };
+    const limit = maxAgeMs ?? status.intervalMs * 3;
+    if (status.lastError) throw new HealthError(status.lastError);
+    const age =
+      status.lastPollAt === null ? Infinity : clock() - status.lastPollAt;
+    if (age > limit) {
+      throw new HealthError(
+        status.lastPollAt === null
+          ? 'The feed has not polled yet'
+          : `Last polled ${Math.round(age)} ms ago`
+      );
+    }
+    return { watching: status.symbols.length, lastPollAgeMs: age };
+  };
+}
+
+/** The broker answers order queries. */
+export function brokerCheck(broker: Broker): ReadinessCheck {
+  return async () => {
+    const open = await broker.listOrders({ status: 'open' });
+    return { broker: broker.name, openOrders: open.length };
+  };
+}
+
+/**
+ * The database answers a query. Pending migrations are reported, not
+ * held against it: they are applied by a deploy step.
+ */
+export function databaseCheck(database: Database): ReadinessCheck {
+  return async () => {
+    await database.query('SELECT 1');
+    const status = await database.migrate.status();
+    return {
+      dialect: database.dialect,
+      pendingMigrations: status.filter(m => m.batch === null).length,
+    };
+  };
+}
+
+/** The cache answers a ping. */
+export function cacheCheck(cache: CacheClient): ReadinessCheck {
+  return async () => {
+    await cache.ping();
+    return { store: cache.name };
+  };
+}
@@ -0,0 +1,62 @@
+import packageJson from '../../../package.json';
+import { getDatabase } from '../database';
+import { getMarketDataProvider } from '../marketdata';
+import { getOrderManager } from '../oms';
+import { getCache } from '../redis';
+import { setSingleton, singleton } from '../singleton';
+import { getMarketFeed } from '../streaming';
+import {
+  brokerCheck,
+  cacheCheck,
+  databaseCheck,
+  marketDataCheck,
+  marketFeedCheck,
+} from './checks';
+import { ReadinessProbe } from './probe';
+import type { Health } from './types';
+
+export * from './types';
+export * from './probe';
+export * from './checks';
+
+export const SERVICE_NAME = 'stocai';
+
+/** Liveness: the process is up and serving. Never touches dependencies. */
+export function health(): Health {
+  return {
+    status: 'healthy',
+    service: SERVICE_NAME,
+    version: packageJson.version,
+    timestamp: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime()),
+  };
+}
+
+const PROBE_KEY = 'health.probe';
+
+/**
+ * The shared readiness probe, checking market data, the market feed, the
+ * broker, the database and the cache. Other dependencies register their
+ * own checks.
+ */
+export function getReadinessProbe(): ReadinessProbe {
+  return singleton(PROBE_KEY, () => {
+    const timeout = Number(process.env.READINESS_TIMEOUT_MS);
+    const probe = new ReadinessProbe({
+      timeoutMs: timeout > 0 ? timeout : undefined,
+    });
+    probe.register('marketData', () =>
+      marketDataCheck(getMarketDataProvider())()
+    );
+    probe.register('marketFeed', () => marketFeedCheck(getMarketFeed())());
+    probe.register('broker', () => brokerCheck(getOrderManager().broker)());
+    probe.register('database', () => databaseCheck(getDatabase())());
+    probe.register('cache', () => cacheCheck(getCache())());
+    return probe;
+  });
+}
+
+/** Overrides the shared readiness probe, e.g. in tests. */
+export function setReadinessProbe(probe: ReadinessProbe | undefined): void {
+  setSingleton(PROBE_KEY, probe);
+}
@@ -0,0 +1,78 @@
+import type { Readiness, ReadinessCheck } from './types';
+
+export interface ReadinessProbeOptions {
+  /** How long a check may take before it counts as down. Defaults to 2 s. */
+  timeoutMs?: number;
+  clock?: () => number;
+}
+
+/**
+ * Runs every registered dependency check at once; the service is ready
+ * only when all of them are up.
+ */
+export class ReadinessProbe {
+  private readonly checks = new Map<string, ReadinessCheck>();
+  private readonly timeoutMs: number;
+  private readonly clock: () => number;
+
+  constructor(options: ReadinessProbeOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 2_000;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  /** Adds or replaces the check for `name`. */
+  register(name: string, check: ReadinessCheck): void {
+    this.checks.set(name, check);
+  }
+
+  get names(): string[] {
+    return Array.from(this.checks.keys());
+  }
+
+  async run(): Promise<Readiness> {
+    const results = await Promise.all(
+      Array.from(this.checks.entries()).map(async ([name, check]) => {
+        const start = this.clock();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out after ${this.timeoutMs} ms`)),
+            this.timeoutMs
+          );
+        });
+        try {
+          const details = await Promise.race([check(), timeout]);
+          return [
+            name,
+            {
+              status: 'up' as const,
+              latencyMs: this.clock() - start,
+              ...(details ? { details } : {}),
+            },
+          ] as const;
+        } catch (error) {
+          return [
+            name,
+            {
+              status: 'down' as const,
+              latencyMs: this.clock() - start,
+              message: (error as Error).message,
+            },
+          ] as const;
+        } finally {
+          clearTimeout(timer);
+        }
+      })
+    );
+    const dependencies: Readiness['dependencies'] = {};
+    results.forEach(([name, status]) => {
+      dependencies[name] = status;
+    });
+    return {
+      status: results.every(([, status]) => status.status === 'up')
+        ? 'ready'
+        : 'not_ready',
+      dependencies,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+export type DependencyState = 'up' | 'down';
+
+export interface DependencyStatus {
+  status: DependencyState;
+  latencyMs: number;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Checks one dependency. Resolving means it is up, optionally with
+ * details; throwing (or timing out) means it is down.
+ */
+export type ReadinessCheck = () => Promise<Record<string, unknown> | void>;
+
+export interface Readiness {
+  status: 'ready' | 'not_ready';
+  dependencies: Record<string, DependencyStatus>;
+}
+
+export interface Health {
+  status: 'healthy';
+  service: string;
+  version: string;
+  timestamp: string;
+  uptimeSeconds: number;
+}
+
+export class HealthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HealthError';
+  }
+}
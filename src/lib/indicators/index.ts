@@ -0,0 +1,6 @@
+export * from './types';
+export * from './moving-averages';
+export * from './oscillators';
+export * from './volatility';
+export * from './volume';
+export * from './registry';
@@ -0,0 +1,143 @@
+import {
+  assertPeriod,
+  priceOf,
+  type Indicator,
+  type IndicatorInput,
+  type PriceSource,
+} from './types';
+import { RingBuffer } from './window';
+
+/** Simple moving average. */
+export class SMA implements Indicator {
+  readonly name: string;
+  private readonly window: RingBuffer;
+  private sum = 0;
+  private current: number | null = null;
+
+  constructor(
+    readonly period: number,
+    private readonly source: PriceSource = 'close'
+  ) {
+    assertPeriod('SMA', period);
+    this.name = `sma(${period})`;
+    this.window = new RingBuffer(period);
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): number | null {
+    const price = priceOf(input, this.source);
+    this.sum += price - (this.window.push(price) ?? 0);
+    if (this.window.isFull) this.current = this.sum / this.period;
+    return this.current;
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.sum = 0;
+    this.current = null;
+  }
+}
+
+/**
+ * Exponential moving average with smoothing 2 / (period + 1), seeded with
+ * the SMA of the first `period` values (the TA-Lib convention).
+ */
+export class EMA implements Indicator {
+  readonly name: string;
+  private readonly alpha: number;
+  private seedSum = 0;
+  private seen = 0;
+  private current: number | null = null;
+
+  constructor(
+    readonly period: number,
+    private readonly source: PriceSource = 'close'
+  ) {
+    assertPeriod('EMA', period);
+    this.name = `ema(${period})`;
+    this.alpha = 2 / (period + 1);
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): number | null {
+    const price = priceOf(input, this.source);
+    if (this.current !== null) {
+      this.current += this.alpha * (price - this.current);
+      return this.current;
+    }
+    this.seedSum += price;
+    this.seen++;
+    if (this.seen === this.period) this.current = this.seedSum / this.period;
+    return this.current;
+  }
+
+  reset(): void {
+    this.seedSum = 0;
+    this.seen = 0;
+    this.current = null;
+  }
+}
+
+/** Linearly weighted moving average; the newest value weighs `period`. */
+export class WMA implements Indicator {
+  readonly name: string;
+  private readonly window: RingBuffer;
+  private readonly divisor: number;
+  private sum = 0;
+  private weightedSum = 0;
+  private current: number | null = null;
+
+  constructor(
+    readonly period: number,
+    private readonly source: PriceSource = 'close'
+  ) {
+    assertPeriod('WMA', period);
+    this.name = `wma(${period})`;
+    this.window = new RingBuffer(period);
+    this.divisor = (period * (period + 1)) / 2;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): number | null {
+    const price = priceOf(input, this.source);
+    if (this.window.isFull) {
+      // Every weight drops by one (the oldest to zero), the new value gets n.
+      this.weightedSum += this.period * price - this.sum;
+      this.sum += price - this.window.push(price)!;
+    } else {
+      this.window.push(price);
+      this.weightedSum += this.window.size * price;
+      this.sum += price;
+    }
+    if (this.window.isFull) this.current = this.weightedSum / this.divisor;
+    return this.current;
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.sum = 0;
+    this.weightedSum = 0;
+    this.current = null;
+  }
+}
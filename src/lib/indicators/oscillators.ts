@@ -0,0 +1,192 @@
+import { SMA, EMA } from './moving-averages';
+import {
+  assertPeriod,
+  priceOf,
+  toCandle,
+  type Indicator,
+  type IndicatorInput,
+  type MacdValue,
+  type PriceSource,
+  type StochasticValue,
+} from './types';
+import { RollingExtreme } from './window';
+
+/** Relative Strength Index with Wilder's smoothing. */
+export class RSI implements Indicator {
+  readonly name: string;
+  private previous: number | null = null;
+  private gainSum = 0;
+  private lossSum = 0;
+  private changes = 0;
+  private avgGain = 0;
+  private avgLoss = 0;
+  private current: number | null = null;
+
+  constructor(
+    readonly period = 14,
+    private readonly source: PriceSource = 'close'
+  ) {
+    assertPeriod('RSI', period);
+    this.name = `rsi(${period})`;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): number | null {
+    const price = priceOf(input, this.source);
+    const previous = this.previous;
+    this.previous = price;
+    if (previous === null) return null;
+
+    const change = price - previous;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (this.changes < this.period) {
+      this.gainSum += gain;
+      this.lossSum += loss;
+      this.changes++;
+      if (this.changes < this.period) return null;
+      this.avgGain = this.gainSum / this.period;
+      this.avgLoss = this.lossSum / this.period;
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period;
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period;
+    }
+
+    this.current =
+      this.avgLoss === 0
+        ? this.avgGain === 0
+          ? 50
+          : 100
+        : 100 - 100 / (1 + this.avgGain / this.avgLoss);
+    return this.current;
+  }
+
+  reset(): void {
+    this.previous = null;
+    this.gainSum = 0;
+    this.lossSum = 0;
+    this.changes = 0;
+    this.avgGain = 0;
+    this.avgLoss = 0;
+    this.current = null;
+  }
+}
+
+/** Moving Average Convergence/Divergence. */
+export class MACD implements Indicator<MacdValue> {
+  readonly name: string;
+  private readonly fast: EMA;
+  private readonly slow: EMA;
+  private readonly signal: EMA;
+  private current: MacdValue | null = null;
+
+  constructor(
+    readonly fastPeriod = 12,
+    readonly slowPeriod = 26,
+    readonly signalPeriod = 9,
+    private readonly source: PriceSource = 'close'
+  ) {
+    this.name = `macd(${fastPeriod},${slowPeriod},${signalPeriod})`;
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signal = new EMA(signalPeriod);
+  }
+
+  get value(): MacdValue | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): MacdValue | null {
+    const price = priceOf(input, this.source);
+    const fast = this.fast.update(price);
+    const slow = this.slow.update(price);
+    if (fast === null || slow === null) return null;
+
+    const macd = fast - slow;
+    const signal = this.signal.update(macd);
+    if (signal === null) return null;
+    this.current = { macd, signal, histogram: macd - signal };
+    return this.current;
+  }
+
+  reset(): void {
+    this.fast.reset();
+    this.slow.reset();
+    this.signal.reset();
+    this.current = null;
+  }
+}
+
+/**
+ * Stochastic oscillator. `%K` is the close's position in the `period`-bar
+ * range, smoothed over `kSmoothing` bars (1 gives the fast stochastic);
+ * `%D` is the SMA of `%K` over `dPeriod` bars.
+ */
+export class Stochastic implements Indicator<StochasticValue> {
+  readonly name: string;
+  private readonly highest: RollingExtreme;
+  private readonly lowest: RollingExtreme;
+  private readonly kSmoother: SMA;
+  private readonly dSmoother: SMA;
+  private seen = 0;
+  private current: StochasticValue | null = null;
+
+  constructor(
+    readonly period = 14,
+    readonly kSmoothing = 3,
+    readonly dPeriod = 3
+  ) {
+    assertPeriod('Stochastic', period);
+    this.name = `stoch(${period},${kSmoothing},${dPeriod})`;
+    this.highest = new RollingExtreme(period, 'max');
+    this.lowest = new RollingExtreme(period, 'min');
+    this.kSmoother = new SMA(kSmoothing);
+    this.dSmoother = new SMA(dPeriod);
+  }
+
+  get value(): StochasticValue | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): StochasticValue | null {
+    const candle = toCandle(input);
+    const high = this.highest.push(candle.high);
+    const low = this.lowest.push(candle.low);
+    this.seen = Math.min(this.seen + 1, this.period);
+    if (this.seen < this.period) return null;
+
+    const range = high - low;
+    const rawK = range === 0 ? 50 : ((candle.close - low) / range) * 100;
+    const k = this.kSmoother.update(rawK);
+    if (k === null) return null;
+    const d = this.dSmoother.update(k);
+    if (d === null) return null;
+    this.current = { k, d };
+    return this.current;
+  }
+
+  reset(): void {
+    this.highest.clear();
+    this.lowest.clear();
+    this.kSmoother.reset();
+    this.dSmoother.reset();
+    this.seen = 0;
+    this.current = null;
+  }
+}
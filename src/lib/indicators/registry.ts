@@ -0,0 +1,102 @@
+import { EMA, SMA, WMA } from './moving-averages';
+import { MACD, RSI, Stochastic } from './oscillators';
+import {
+  IndicatorError,
+  type BandsValue,
+  type Indicator,
+  type IndicatorInput,
+  type MacdValue,
+  type PriceSource,
+  type StochasticValue,
+} from './types';
+import { ATR, BollingerBands } from './volatility';
+import { OBV, VWAP } from './volume';
+
+export type IndicatorSpec =
+  | { type: 'sma' | 'ema' | 'wma'; period: number; source?: PriceSource }
+  | { type: 'rsi'; period?: number; source?: PriceSource }
+  | {
+      type: 'macd';
+      fast?: number;
+      slow?: number;
+      signal?: number;
+      source?: PriceSource;
+    }
+  | {
+      type: 'bbands';
+      period?: number;
+      multiplier?: number;
+      source?: PriceSource;
+    }
+  | { type: 'atr'; period?: number }
+  | { type: 'stoch'; period?: number; kSmoothing?: number; dPeriod?: number }
+  | { type: 'obv' }
+  | { type: 'vwap'; anchor?: 'session' | 'none' };
+
+export type IndicatorType = IndicatorSpec['type'];
+
+export type IndicatorValue = number | MacdValue | BandsValue | StochasticValue;
+
+export const INDICATOR_TYPES: readonly IndicatorType[] = [
+  'sma',
+  'ema',
+  'wma',
+  'rsi',
+  'macd',
+  'bbands',
+  'atr',
+  'stoch',
+  'obv',
+  'vwap',
+];
+
+/** Builds a streaming indicator from a serializable description. */
+export function createIndicator(
+  spec: IndicatorSpec
+): Indicator<IndicatorValue> {
+  switch (spec.type) {
+    case 'sma':
+      return new SMA(spec.period, spec.source);
+    case 'ema':
+      return new EMA(spec.period, spec.source);
+    case 'wma':
+      return new WMA(spec.period, spec.source);
+    case 'rsi':
+      return new RSI(spec.period, spec.source);
+    case 'macd':
+      return new MACD(spec.fast, spec.slow, spec.signal, spec.source);
+    case 'bbands':
+      return new BollingerBands(spec.period, spec.multiplier, spec.source);
+    case 'atr':
+      return new ATR(spec.period);
+    case 'stoch':
+      return new Stochastic(spec.period, spec.kSmoothing, spec.dPeriod);
+    case 'obv':
+      return new OBV();
+    case 'vwap':
+      return spec.anchor === 'none' ? new VWAP(null) : new VWAP();
+    default:
+      throw new IndicatorError(
+        `Unknown indicator type ${JSON.stringify((spec as { type: unknown }).type)}`
+      );
+  }
+}
+
+/**
+ * Runs `indicator` over a whole series. Batch results come from the same
+ * streaming code path, so they match live updates value for value.
+ */
+export function runBatch<T>(
+  indicator: Indicator<T>,
+  inputs: readonly IndicatorInput[]
+): (T | null)[] {
+  indicator.reset();
+  return inputs.map(input => indicator.update(input));
+}
+
+export function calculate(
+  spec: IndicatorSpec,
+  inputs: readonly IndicatorInput[]
+): (IndicatorValue | null)[] {
+  return runBatch(createIndicator(spec), inputs);
+}
@@ -0,0 +1,83 @@
+/** The subset of a bar indicators read. Plain numbers are treated as closes. */
+export interface Candle {
+  timestamp?: number;
+  open?: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type IndicatorInput = Candle | number;
+
+export type PriceSource =
+  'open' | 'high' | 'low' | 'close' | 'hl2' | 'hlc3' | 'ohlc4';
+
+/**
+ * A streaming calculator: each `update` costs O(1) and returns the new
+ * value, or `null` while the indicator is still warming up.
+ */
+export interface Indicator<T = number> {
+  readonly name: string;
+  readonly value: T | null;
+  readonly isReady: boolean;
+  update(input: IndicatorInput): T | null;
+  reset(): void;
+}
+
+export interface MacdValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BandsValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number;
+}
+
+export function toCandle(input: IndicatorInput): Candle {
+  return typeof input === 'number'
+    ? { high: input, low: input, close: input, volume: 0 }
+    : input;
+}
+
+export function priceOf(input: IndicatorInput, source: PriceSource): number {
+  if (typeof input === 'number') return input;
+  const open = input.open ?? input.close;
+  switch (source) {
+    case 'open':
+      return open;
+    case 'high':
+      return input.high;
+    case 'low':
+      return input.low;
+    case 'close':
+      return input.close;
+    case 'hl2':
+      return (input.high + input.low) / 2;
+    case 'hlc3':
+      return (input.high + input.low + input.close) / 3;
+    case 'ohlc4':
+      return (open + input.high + input.low + input.close) / 4;
+  }
+}
+
+export class IndicatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IndicatorError';
+  }
+}
+
+export function assertPeriod(name: string, period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new IndicatorError(`${name} period must be a positive integer`);
+  }
+}
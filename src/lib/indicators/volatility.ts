@@ -0,0 +1,114 @@
+import {
+  assertPeriod,
+  priceOf,
+  toCandle,
+  type BandsValue,
+  type Indicator,
+  type IndicatorInput,
+  type PriceSource,
+} from './types';
+import { RingBuffer } from './window';
+
+/** Bollinger Bands: SMA ± `multiplier` population standard deviations. */
+export class BollingerBands implements Indicator<BandsValue> {
+  readonly name: string;
+  private readonly window: RingBuffer;
+  private sum = 0;
+  private sumOfSquares = 0;
+  private current: BandsValue | null = null;
+
+  constructor(
+    readonly period = 20,
+    readonly multiplier = 2,
+    private readonly source: PriceSource = 'close'
+  ) {
+    assertPeriod('Bollinger Bands', period);
+    this.name = `bbands(${period},${multiplier})`;
+    this.window = new RingBuffer(period);
+  }
+
+  get value(): BandsValue | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): BandsValue | null {
+    const price = priceOf(input, this.source);
+    const evicted = this.window.push(price) ?? 0;
+    this.sum += price - evicted;
+    this.sumOfSquares += price * price - evicted * evicted;
+    if (!this.window.isFull) return null;
+
+    const middle = this.sum / this.period;
+    // Clamp tiny negative variances left over from floating point error.
+    const variance = Math.max(
+      this.sumOfSquares / this.period - middle * middle,
+      0
+    );
+    const width = this.multiplier * Math.sqrt(variance);
+    this.current = { upper: middle + width, middle, lower: middle - width };
+    return this.current;
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.sum = 0;
+    this.sumOfSquares = 0;
+    this.current = null;
+  }
+}
+
+/** Average True Range with Wilder's smoothing. */
+export class ATR implements Indicator {
+  readonly name: string;
+  private previousClose: number | null = null;
+  private seedSum = 0;
+  private seen = 0;
+  private current: number | null = null;
+
+  constructor(readonly period = 14) {
+    assertPeriod('ATR', period);
+    this.name = `atr(${period})`;
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): number | null {
+    const { high, low, close } = toCandle(input);
+    const trueRange =
+      this.previousClose === null
+        ? high - low
+        : Math.max(
+            high - low,
+            Math.abs(high - this.previousClose),
+            Math.abs(low - this.previousClose)
+          );
+    this.previousClose = close;
+
+    if (this.current !== null) {
+      this.current =
+        (this.current * (this.period - 1) + trueRange) / this.period;
+      return this.current;
+    }
+    this.seedSum += trueRange;
+    this.seen++;
+    if (this.seen === this.period) this.current = this.seedSum / this.period;
+    return this.current;
+  }
+
+  reset(): void {
+    this.previousClose = null;
+    this.seedSum = 0;
+    this.seen = 0;
+    this.current = null;
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  US_EQUITY_SESSION,
+  sessionBounds,
+  type TradingSession,
+} from '../marketdata/session';
+import { toCandle, type Indicator, type IndicatorInput } from './types';
+
+/** On-Balance Volume, starting from zero at the first bar. */
+export class OBV implements Indicator {
+  readonly name = 'obv';
+  private previousClose: number | null = null;
+  private current: number | null = null;
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): number | null {
+    const { close, volume } = toCandle(input);
+    if (this.previousClose === null) {
+      this.current = 0;
+    } else if (close > this.previousClose) {
+      this.current! += volume;
+    } else if (close < this.previousClose) {
+      this.current! -= volume;
+    }
+    this.previousClose = close;
+    return this.current;
+  }
+
+  reset(): void {
+    this.previousClose = null;
+    this.current = null;
+  }
+}
+
+/**
+ * Volume-weighted average of the typical price (HLC/3). For timestamped
+ * candles the average restarts at every session open; pass `null` as the
+ * session for a running VWAP that never resets.
+ */
+export class VWAP implements Indicator {
+  readonly name = 'vwap';
+  private notional = 0;
+  private volume = 0;
+  private sessionOpen: number | null = null;
+  private current: number | null = null;
+
+  constructor(
+    private readonly session: TradingSession | null = US_EQUITY_SESSION
+  ) {}
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current !== null;
+  }
+
+  update(input: IndicatorInput): number | null {
+    const candle = toCandle(input);
+    if (this.session && candle.timestamp !== undefined) {
+      const { open } = sessionBounds(candle.timestamp, this.session);
+      if (open !== this.sessionOpen) {
+        this.sessionOpen = open;
+        this.notional = 0;
+        this.volume = 0;
+        this.current = null;
+      }
+    }
+
+    const typical = (candle.high + candle.low + candle.close) / 3;
+    this.notional += typical * candle.volume;
+    this.volume += candle.volume;
+    if (this.volume > 0) this.current = this.notional / this.volume;
+    return this.current;
+  }
+
+  reset(): void {
+    this.notional = 0;
+    this.volume = 0;
+    this.sessionOpen = null;
+    this.current = null;
+  }
+}
@@ -0,0 +1,87 @@
+/** Fixed-capacity FIFO used for rolling windows. */
+export class RingBuffer {
+  private readonly items: number[];
+  private head = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array<number>(capacity).fill(0);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  get isFull(): boolean {
+    return this.count === this.capacity;
+  }
+
+  /** Appends `value`, returning the evicted value once the buffer is full. */
+  push(value: number): number | undefined {
+    const index = (this.head + this.count) % this.capacity;
+    if (this.isFull) {
+      const evicted = this.items[this.head];
+      this.items[this.head] = value;
+      this.head = (this.head + 1) % this.capacity;
+      return evicted;
+    }
+    this.items[index] = value;
+    this.count++;
+    return undefined;
+  }
+
+  clear(): void {
+    this.head = 0;
+    this.count = 0;
+  }
+}
+
+/**
+ * Rolling minimum or maximum over the last `period` values using a monotonic
+ * deque, so each update is amortized O(1).
+ */
+export class RollingExtreme {
+  private values: number[] = [];
+  private indices: number[] = [];
+  /** Index of the deque's front within the backing arrays. */
+  private front = 0;
+  private index = 0;
+
+  constructor(
+    private readonly period: number,
+    private readonly kind: 'min' | 'max'
+  ) {}
+
+  push(value: number): number {
+    while (
+      this.values.length > this.front &&
+      this.dominated(this.values[this.values.length - 1], value)
+    ) {
+      this.values.pop();
+      this.indices.pop();
+    }
+    this.values.push(value);
+    this.indices.push(this.index);
+    if (this.indices[this.front] <= this.index - this.period) {
+      this.front++;
+    }
+    if (this.front > this.period) {
+      this.values = this.values.slice(this.front);
+      this.indices = this.indices.slice(this.front);
+      this.front = 0;
+    }
+    this.index++;
+    return this.values[this.front];
+  }
+
+  clear(): void {
+    this.values = [];
+    this.indices = [];
+    this.front = 0;
+    this.index = 0;
+  }
+
+  private dominated(kept: number, incoming: number): boolean {
+    return this.kind === 'max' ? kept <= incoming : kept >= incoming;
+  }
+}
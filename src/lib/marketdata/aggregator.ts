@@ -0,0 +1,176 @@
+import { BarBuilder, fillGap } from './bar-builder';
+import { US_EQUITY_SESSION, type TradingSession } from './session';
+import { bucketFor, type BucketOptions } from './timeframes';
+import type { Bar, Timeframe, Trade } from './types';
+
+export type GapFillMode = 'skip' | 'fill';
+
+export interface AggregatorOptions {
+  timeframe: Timeframe;
+  /** Defaults to US equity hours; `null` aggregates around the clock. */
+  session?: TradingSession | null;
+  /** Keep prints outside regular hours instead of discarding them. */
+  extendedHours?: boolean;
+  /** `fill` emits flat zero-volume bars for intervals without prints. */
+  gapFill?: GapFillMode;
+  /**
+   * How long a bar stays open after its interval ends, measured against the
+   * newest print seen for the symbol. Out-of-order prints arriving within
+   * this window still land in the right bar; older ones are dropped.
+   */
+  allowedLatenessMs?: number;
+}
+
+export interface AggregatorStats {
+  accepted: number;
+  lateDropped: number;
+  outOfSession: number;
+}
+
+interface SymbolState {
+  open: Map<number, BarBuilder>;
+  /** Newest print timestamp seen for the symbol. */
+  latest: number;
+  /** Buckets ending at or before this point are closed for good. */
+  closedUntil: number;
+  lastEmitted?: { bar: Bar; end: number };
+}
+
+/**
+ * Streaming tick-to-bar roll-up shared by the live feed and backtests.
+ * `push` returns the bars completed by each print, in time order; a bar is
+ * complete once the symbol's watermark (newest print minus the allowed
+ * lateness) has passed its end.
+ */
+export class BarAggregator {
+  readonly timeframe: Timeframe;
+  private readonly bucketOptions: BucketOptions;
+  private readonly gapFill: GapFillMode;
+  private readonly lateness: number;
+  private readonly symbols = new Map<string, SymbolState>();
+  private readonly counters: AggregatorStats = {
+    accepted: 0,
+    lateDropped: 0,
+    outOfSession: 0,
+  };
+
+  constructor(options: AggregatorOptions) {
+    this.timeframe = options.timeframe;
+    this.bucketOptions = {
+      session:
+        options.session === undefined ? US_EQUITY_SESSION : options.session,
+      extendedHours: options.extendedHours ?? false,
+    };
+    this.gapFill = options.gapFill ?? 'skip';
+    this.lateness = options.allowedLatenessMs ?? 0;
+  }
+
+  get stats(): AggregatorStats {
+    return { ...this.counters };
+  }
+
+  push(trade: Trade): Bar[] {
+    const bucket = bucketFor(
+      trade.timestamp,
+      this.timeframe,
+      this.bucketOptions
+    );
+    if (!bucket) {
+      this.counters.outOfSession++;
+      return [];
+    }
+
+    const state = this.stateFor(trade.symbol);
+    if (bucket.end <= state.closedUntil) {
+      this.counters.lateDropped++;
+      return [];
+    }
+
+    let builder = state.open.get(bucket.start);
+    if (!builder) {
+      builder = new BarBuilder(trade.symbol, bucket.start, bucket.end);
+      state.open.set(bucket.start, builder);
+    }
+    builder.addTrade(trade.timestamp, trade.price, trade.size);
+    this.counters.accepted++;
+
+    state.latest = Math.max(state.latest, trade.timestamp);
+    return this.close(state, state.latest - this.lateness);
+  }
+
+  /**
+   * Advances every symbol's clock to `timestamp` without a print, closing
+   * bars whose interval has ended (e.g. on a timer or at the session close).
+   */
+  advanceTo(timestamp: number): Bar[] {
+    const completed: Bar[] = [];
+    this.symbols.forEach(state => {
+      completed.push(...this.close(state, timestamp - this.lateness));
+    });
+    return completed;
+  }
+
+  /** Emits all open bars, e.g. at the end of a replay. */
+  flush(): Bar[] {
+    return this.advanceTo(Infinity);
+  }
+
+  /** The newest, still-forming bar for `symbol`, if any. */
+  current(symbol: string): Bar | null {
+    const state = this.symbols.get(symbol);
+    if (!state || state.open.size === 0) return null;
+    const newest = Math.max(...Array.from(state.open.keys()));
+    return state.open.get(newest)!.build();
+  }
+
+  private stateFor(symbol: string): SymbolState {
+    let state = this.symbols.get(symbol);
+    if (!state) {
+      state = { open: new Map(), latest: -Infinity, closedUntil: -Infinity };
+      this.symbols.set(symbol, state);
+    }
+    return state;
+  }
+
+  private close(state: SymbolState, watermark: number): Bar[] {
+    const ready = Array.from(state.open.values())
+      .filter(builder => builder.end <= watermark)
+      .sort((a, b) => a.start - b.start);
+
+    const completed: Bar[] = [];
+    for (const builder of ready) {
+      state.open.delete(builder.start);
+      completed.push(...this.fill(state, builder.start, Infinity));
+      const bar = builder.build();
+      completed.push(bar);
+      state.lastEmitted = { bar, end: builder.end };
+      state.closedUntil = Math.max(state.closedUntil, builder.end);
+    }
+
+    // A flush closes everything without pushing the clock past real data.
+    if (Number.isFinite(watermark)) {
+      const nextOpen = Math.min(...Array.from(state.open.keys()));
+      completed.push(...this.fill(state, nextOpen, watermark));
+      state.closedUntil = Math.max(state.closedUntil, watermark);
+    }
+    return completed;
+  }
+
+  /** Emits flat bars for empty intervals that closed by `closedBy`. */
+  private fill(state: SymbolState, nextStart: number, closedBy: number): Bar[] {
+    if (this.gapFill !== 'fill' || !state.lastEmitted) return [];
+    const { bar, end } = state.lastEmitted;
+    const gap = fillGap(
+      bar,
+      end,
+      nextStart,
+      this.timeframe,
+      this.bucketOptions,
+      closedBy
+    );
+    if (gap.bars.length > 0) {
+      state.lastEmitted = { bar: gap.bars[gap.bars.length - 1], end: gap.end };
+    }
+    return gap.bars;
+  }
+}
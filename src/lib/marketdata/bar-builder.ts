@@ -0,0 +1,128 @@
+import { sessionBounds } from './session';
+import { bucketFor, type BucketOptions } from './timeframes';
+import type { Bar, Timeframe } from './types';
+
+/** Accumulates prints or finer bars into one OHLCV bar. */
+export class BarBuilder {
+  private open = 0;
+  private high = -Infinity;
+  private low = Infinity;
+  private close = 0;
+  private volume = 0;
+  private notional = 0;
+  private trades = 0;
+  /** Time of the print that set `open`/`close`, so late ticks land right. */
+  private firstAt = Infinity;
+  private lastAt = -Infinity;
+
+  constructor(
+    readonly symbol: string,
+    readonly start: number,
+    readonly end: number
+  ) {}
+
+  addTrade(timestamp: number, price: number, size: number): void {
+    this.add(timestamp, price, price, price, price, size, price * size, 1);
+  }
+
+  addBar(bar: Bar): void {
+    const typical = bar.vwap ?? (bar.high + bar.low + bar.close) / 3;
+    this.add(
+      bar.timestamp,
+      bar.open,
+      bar.high,
+      bar.low,
+      bar.close,
+      bar.volume,
+      typical * bar.volume,
+      bar.trades ?? 0
+    );
+  }
+
+  build(): Bar {
+    return {
+      symbol: this.symbol,
+      timestamp: this.start,
+      open: this.open,
+      high: this.high,
+      low: this.low,
+      close: this.close,
+      volume: this.volume,
+      vwap: this.volume > 0 ? this.notional / this.volume : this.close,
+      trades: this.trades,
+    };
+  }
+
+  private add(
+    timestamp: number,
+    open: number,
+    high: number,
+    low: number,
+    close: number,
+    volume: number,
+    notional: number,
+    trades: number
+  ): void {
+    if (timestamp < this.firstAt) {
+      this.firstAt = timestamp;
+      this.open = open;
+    }
+    if (timestamp >= this.lastAt) {
+      this.lastAt = timestamp;
+      this.close = close;
+    }
+    this.high = Math.max(this.high, high);
+    this.low = Math.min(this.low, low);
+    this.volume += volume;
+    this.notional += notional;
+    this.trades += trades;
+  }
+}
+
+/** A zero-volume bar carrying `previous.close` forward into a gap. */
+export function flatBar(previous: Bar, timestamp: number): Bar {
+  return {
+    symbol: previous.symbol,
+    timestamp,
+    open: previous.close,
+    high: previous.close,
+    low: previous.close,
+    close: previous.close,
+    volume: 0,
+    vwap: previous.close,
+    trades: 0,
+  };
+}
+
+/**
+ * Flat bars for every bucket after `previous` (which ended at `previousEnd`)
+ * that starts before `nextStart` and has ended by `closedBy`. Gaps are only
+ * filled inside a single session; the overnight break is never padded.
+ * Returns the bars and the end of the last filled bucket.
+ */
+export function fillGap(
+  previous: Bar,
+  previousEnd: number,
+  nextStart: number,
+  timeframe: Timeframe,
+  options: BucketOptions,
+  closedBy = Infinity
+): { bars: Bar[]; end: number } {
+  const { session } = options;
+  const sessionOpen = session
+    ? sessionBounds(previous.timestamp, session).open
+    : undefined;
+
+  const bars: Bar[] = [];
+  let cursor = previousEnd;
+  while (cursor < nextStart) {
+    const bucket = bucketFor(cursor, timeframe, options);
+    if (!bucket || bucket.start >= nextStart || bucket.end > closedBy) break;
+    if (session && sessionBounds(bucket.start, session).open !== sessionOpen) {
+      break;
+    }
+    bars.push(flatBar(previous, bucket.start));
+    cursor = bucket.end;
+  }
+  return { bars, end: cursor };
+}
@@ -0,0 +1,71 @@
+import type { GapFillMode } from './aggregator';
+import { MarketDataError, type MarketDataProvider } from './provider';
+import { resampleBars } from './resample';
+import type { TradingSession } from './session';
+import { TIMEFRAMES, compareTimeframes } from './timeframes';
+import type { Bar, BarQuery, Timeframe } from './types';
+
+export interface LoadBarsOptions {
+  /** Resample from this timeframe instead of picking one automatically. */
+  source?: Timeframe;
+  session?: TradingSession | null;
+  gapFill?: GapFillMode;
+}
+
+export interface LoadedBars {
+  bars: Bar[];
+  /** Timeframe the bars were read at before any resampling. */
+  source: Timeframe;
+}
+
+/**
+ * Reads bars at `query.timeframe`, resampling from the coarsest finer
+ * timeframe the provider has when nothing is stored at the requested one.
+ */
+export async function loadBars(
+  provider: MarketDataProvider,
+  symbol: string,
+  query: BarQuery,
+  options: LoadBarsOptions = {}
+): Promise<LoadedBars> {
+  const { timeframe } = query;
+  if (options.source && compareTimeframes(options.source, timeframe) > 0) {
+    throw new MarketDataError(
+      'INVALID_DATA',
+      `Cannot resample ${options.source} bars into finer ${timeframe} bars`
+    );
+  }
+
+  const candidates = options.source
+    ? [options.source]
+    : TIMEFRAMES.filter(tf => compareTimeframes(tf, timeframe) <= 0).reverse();
+
+  for (const source of candidates) {
+    if (source === timeframe && options.gapFill !== 'fill') {
+      const bars = await provider.getBars(symbol, query);
+      if (bars.length > 0 || options.source) return { bars, source };
+      continue;
+    }
+
+    // Read the whole range first: the limit applies to the resampled output.
+    const raw = await provider.getBars(symbol, {
+      timeframe: source,
+      start: query.start,
+      end: query.end,
+    });
+    if (raw.length === 0 && !options.source) continue;
+    const bars = resampleBars(raw, timeframe, {
+      session: options.session,
+      gapFill: options.gapFill,
+    });
+    return {
+      bars:
+        query.limit !== undefined
+          ? bars.slice(Math.max(0, bars.length - query.limit))
+          : bars,
+      source,
+    };
+  }
+
+  return { bars: [], source: timeframe };
+}
@@ -0,0 +1,247 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  MarketDataError,
+  sliceByRange,
+  type MarketDataProvider,
+} from './provider';
+import {
+  FUNDAMENTAL_FIELDS,
+  type Bar,
+  type BarQuery,
+  type Fundamentals,
+  type Quote,
+  type SymbolInfo,
+  type TimeRange,
+  type Trade,
+} from './types';
+
+const SYMBOL_PATTERN = /^[A-Z0-9.-]{1,10}$/;
+
+type JsonRecord = Record<string, unknown>;
+
+/**
+ * Offline provider backed by JSONL fixtures:
+ *
+ * ```
+ * <dataDir>/symbols.jsonl
+ * <dataDir>/quotes.jsonl
+ * <dataDir>/bars/<timeframe>/<SYMBOL>.jsonl
+ * <dataDir>/trades/<SYMBOL>.jsonl
+ * ```
+ *
+ * Each line is one JSON object with an ISO-8601 `time` field. Files are read
+ * lazily and cached for the lifetime of the provider; a missing file simply
+ * means there is no data.
+ */
+export class FileMarketDataProvider implements MarketDataProvider {
+  readonly name = 'file';
+  private readonly cache = new Map<string, Promise<JsonRecord[]>>();
+
+  constructor(private readonly dataDir: string) {}
+
+  async listSymbols(): Promise<SymbolInfo[]> {
+    const records = await this.load('symbols.jsonl');
+    return records.map(toSymbolInfo);
+  }
+
+  async getSymbol(symbol: string): Promise<SymbolInfo | null> {
+    const normalized = normalizeSymbol(symbol);
+    if (!normalized) return null;
+    const symbols = await this.listSymbols();
+    return symbols.find(info => info.symbol === normalized) ?? null;
+  }
+
+  async searchSymbols(query: string, limit = 20): Promise<SymbolInfo[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    const ranked = (await this.listSymbols())
+      .map(info => ({ info, rank: searchRank(info, needle) }))
+      .filter(entry => entry.rank >= 0)
+      .sort(
+        (a, b) => a.rank - b.rank || a.info.symbol.localeCompare(b.info.symbol)
+      );
+    return ranked.slice(0, limit).map(entry => entry.info);
+  }
+
+  async getQuote(symbol: string): Promise<Quote | null> {
+    const normalized = normalizeSymbol(symbol);
+    if (!normalized) return null;
+
+    const quotes = await this.load('quotes.jsonl');
+    const record = quotes.find(quote => quote.symbol === normalized);
+    if (record) return toQuote(record);
+
+    // No recorded quote: fall back to the most recent print we know about.
+    const trades = await this.getTrades(normalized, { limit: 1 });
+    if (trades.length > 0) {
+      const { price, timestamp } = trades[0];
+      return flatQuote(normalized, timestamp, price);
+    }
+    for (const timeframe of ['1m', '1d'] as const) {
+      const bars = await this.getBars(normalized, { timeframe, limit: 1 });
+      if (bars.length > 0) {
+        const { close, timestamp } = bars[0];
+        return flatQuote(normalized, timestamp, close);
+      }
+    }
+    return null;
+  }
+
+  async getTrades(symbol: string, range?: TimeRange): Promise<Trade[]> {
+    const normalized = normalizeSymbol(symbol);
+    if (!normalized) return [];
+    const records = await this.load(path.join('trades', `${normalized}.jsonl`));
+    return sliceByRange(
+      records.map(record => toTrade(normalized, record)),
+      range
+    );
+  }
+
+  async getBars(symbol: string, query: BarQuery): Promise<Bar[]> {
+    const normalized = normalizeSymbol(symbol);
+    if (!normalized) return [];
+    const records = await this.load(
+      path.join('bars', query.timeframe, `${normalized}.jsonl`)
+    );
+    return sliceByRange(
+      records.map(record => toBar(normalized, record)),
+      query
+    );
+  }
+
+  private load(relativePath: string): Promise<JsonRecord[]> {
+    let pending = this.cache.get(relativePath);
+    if (!pending) {
+      pending = readJsonLines(path.join(this.dataDir, relativePath));
+      this.cache.set(relativePath, pending);
+      // Do not cache failures, so a fixed file is picked up on the next call.
+      pending.catch(() => this.cache.delete(relativePath));
+    }
+    return pending;
+  }
+}
+
+async function readJsonLines(file: string): Promise<JsonRecord[]> {
+  let contents: string;
+  try {
+    contents = await readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw new MarketDataError(
+      'SOURCE_UNAVAILABLE',
+      `Unable to read ${file}: ${(error as Error).message}`
+    );
+  }
+
+  const records: JsonRecord[] = [];
+  contents.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line) as JsonRecord);
+    } catch {
+      throw new MarketDataError(
+        'INVALID_DATA',
+        `${file}:${index + 1} is not valid JSON`
+      );
+    }
+  });
+  return records;
+}
+
+function normalizeSymbol(symbol: string): string | null {
+  const normalized = symbol.trim().toUpperCase();
+  return SYMBOL_PATTERN.test(normalized) ? normalized : null;
+}
+
+function searchRank(info: SymbolInfo, needle: string): number {
+  const symbol = info.symbol.toLowerCase();
+  if (symbol === needle) return 0;
+  if (symbol.startsWith(needle)) return 1;
+  if (info.name.toLowerCase().includes(needle)) return 2;
+  return -1;
+}
+
+function flatQuote(symbol: string, timestamp: number, price: number): Quote {
+  return {
+    symbol,
+    timestamp,
+    bid: price,
+    ask: price,
+    bidSize: 0,
+    askSize: 0,
+    last: price,
+  };
+}
+
+function parseTime(record: JsonRecord): number {
+  const timestamp = Date.parse(String(record.time));
+  if (Number.isNaN(timestamp)) {
+    throw new MarketDataError(
+      'INVALID_DATA',
+      `Invalid time value: ${JSON.stringify(record.time)}`
+    );
+  }
+  return timestamp;
+}
+
+function toSymbolInfo(record: JsonRecord): SymbolInfo {
+  return {
+    symbol: String(record.symbol),
+    name: String(record.name),
+    exchange: String(record.exchange),
+    assetClass: record.assetClass === 'etf' ? 'etf' : 'equity',
+    sector: String(record.sector),
+    currency: String(record.currency ?? 'USD'),
+    marketCap:
+      typeof record.marketCap === 'number' ? record.marketCap : undefined,
+    fundamentals: toFundamentals(record.fundamentals),
+  };
+}
+
+function toFundamentals(raw: unknown): Fundamentals | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const fundamentals: Fundamentals = {};
+  FUNDAMENTAL_FIELDS.forEach(field => {
+    const value = (raw as JsonRecord)[field];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      fundamentals[field] = value;
+    }
+  });
+  return fundamentals;
+}
+
+function toQuote(record: JsonRecord): Quote {
+  return {
+    symbol: String(record.symbol),
+    timestamp: parseTime(record),
+    bid: Number(record.bid),
+    ask: Number(record.ask),
+    bidSize: Number(record.bidSize ?? 0),
+    askSize: Number(record.askSize ?? 0),
+    last: Number(record.last),
+  };
+}
+
+function toTrade(symbol: string, record: JsonRecord): Trade {
+  return {
+    symbol,
+    timestamp: parseTime(record),
+    price: Number(record.price),
+    size: Number(record.size),
+  };
+}
+
+function toBar(symbol: string, record: JsonRecord): Bar {
+  return {
+    symbol,
+    timestamp: parseTime(record),
+    open: Number(record.open),
+    high: Number(record.high),
+    low: Number(record.low),
+    close: Number(record.close),
+    volume: Number(record.volume),
+    vwap: typeof record.vwap === 'number' ? record.vwap : undefined,
+    trades: typeof record.trades === 'number' ? record.trades : undefined,
+  };
+}
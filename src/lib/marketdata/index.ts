@@ -0,0 +1,48 @@
+import path from 'node:path';
+import { setSingleton, singleton } from '../singleton';
+import { FileMarketDataProvider } from './file-provider';
+import {
+  createMarketDataProvider,
+  registerMarketDataProvider,
+  type MarketDataConfig,
+  type MarketDataProvider,
+} from './provider';
+
+export * from './types';
+export * from './provider';
+export * from './session';
+export * from './timeframes';
+export * from './aggregator';
+export * from './resample';
+export * from './bars';
+export { FileMarketDataProvider } from './file-provider';
+
+registerMarketDataProvider(
+  'file',
+  config => new FileMarketDataProvider(config.dataDir)
+);
+
+const PROVIDER_KEY = 'marketdata.provider';
+
+export function marketDataConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): MarketDataConfig {
+  return {
+    provider: env.MARKET_DATA_PROVIDER || 'file',
+    dataDir: path.resolve(env.MARKET_DATA_DIR || './data/marketdata'),
+  };
+}
+
+/** The provider selected by `MARKET_DATA_PROVIDER`, created on first use. */
+export function getMarketDataProvider(): MarketDataProvider {
+  return singleton(PROVIDER_KEY, () =>
+    createMarketDataProvider(marketDataConfigFromEnv())
+  );
+}
+
+/** Overrides the shared provider, e.g. in tests. Pass `undefined` to reset. */
+export function setMarketDataProvider(
+  provider: MarketDataProvider | undefined
+): void {
+  setSingleton(PROVIDER_KEY, provider);
+}
@@ -0,0 +1,103 @@
+import type {
+  Bar,
+  BarQuery,
+  Quote,
+  SymbolInfo,
+  TimeRange,
+  Trade,
+} from './types';
+
+/**
+ * Source of prices for the rest of the platform. Callers only ever talk to
+ * this interface so providers can be swapped through configuration.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  listSymbols(): Promise<SymbolInfo[]>;
+  getSymbol(symbol: string): Promise<SymbolInfo | null>;
+  searchSymbols(query: string, limit?: number): Promise<SymbolInfo[]>;
+  getQuote(symbol: string): Promise<Quote | null>;
+  getTrades(symbol: string, range?: TimeRange): Promise<Trade[]>;
+  /** Bars as stored by the provider; an unknown timeframe yields `[]`. */
+  getBars(symbol: string, query: BarQuery): Promise<Bar[]>;
+}
+
+export type MarketDataErrorCode =
+  'UNKNOWN_PROVIDER' | 'INVALID_DATA' | 'SOURCE_UNAVAILABLE';
+
+export class MarketDataError extends Error {
+  constructor(
+    readonly code: MarketDataErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+export interface MarketDataConfig {
+  provider: string;
+  /** Root directory for file-backed providers. */
+  dataDir: string;
+}
+
+export type MarketDataProviderFactory = (
+  config: MarketDataConfig
+) => MarketDataProvider;
+
+const factories = new Map<string, MarketDataProviderFactory>();
+
+export function registerMarketDataProvider(
+  name: string,
+  factory: MarketDataProviderFactory
+): void {
+  factories.set(name, factory);
+}
+
+export function createMarketDataProvider(
+  config: MarketDataConfig
+): MarketDataProvider {
+  const factory = factories.get(config.provider);
+  if (!factory) {
+    throw new MarketDataError(
+      'UNKNOWN_PROVIDER',
+      `No market data provider registered as "${config.provider}"`
+    );
+  }
+  return factory(config);
+}
+
+/**
+ * Filters records sorted by timestamp down to `range`. Uses binary search so
+ * large fixture files stay cheap to query.
+ */
+export function sliceByRange<T extends { timestamp: number }>(
+  records: T[],
+  range: TimeRange = {}
+): T[] {
+  const from = range.start === undefined ? 0 : lowerBound(records, range.start);
+  const to =
+    range.end === undefined ? records.length : lowerBound(records, range.end);
+  const slice = records.slice(from, Math.max(from, to));
+  if (range.limit !== undefined && slice.length > range.limit) {
+    return slice.slice(slice.length - range.limit);
+  }
+  return slice;
+}
+
+function lowerBound<T extends { timestamp: number }>(
+  records: T[],
+  timestamp: number
+): number {
+  let lo = 0;
+  let hi = records.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (records[mid].timestamp < timestamp) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
@@ -0,0 +1,67 @@
+import { BarBuilder, fillGap } from './bar-builder';
+import type { GapFillMode } from './aggregator';
+import { US_EQUITY_SESSION, type TradingSession } from './session';
+import { bucketFor, type BucketOptions } from './timeframes';
+import type { Bar, Timeframe } from './types';
+
+export interface ResampleOptions {
+  session?: TradingSession | null;
+  extendedHours?: boolean;
+  gapFill?: GapFillMode;
+}
+
+/**
+ * Rolls finer bars up into `timeframe` (e.g. 1m -> 1h) using the same
+ * bucketing rules as {@link BarAggregator}. Input may mix symbols; output is
+ * grouped by symbol and sorted by time within each symbol.
+ */
+export function resampleBars(
+  bars: Bar[],
+  timeframe: Timeframe,
+  options: ResampleOptions = {}
+): Bar[] {
+  const bucketOptions: BucketOptions = {
+    session:
+      options.session === undefined ? US_EQUITY_SESSION : options.session,
+    extendedHours: options.extendedHours ?? false,
+  };
+
+  const bySymbol = new Map<string, Map<number, BarBuilder>>();
+  for (const bar of bars) {
+    const bucket = bucketFor(bar.timestamp, timeframe, bucketOptions);
+    if (!bucket) continue;
+    let builders = bySymbol.get(bar.symbol);
+    if (!builders) {
+      builders = new Map();
+      bySymbol.set(bar.symbol, builders);
+    }
+    let builder = builders.get(bucket.start);
+    if (!builder) {
+      builder = new BarBuilder(bar.symbol, bucket.start, bucket.end);
+      builders.set(bucket.start, builder);
+    }
+    builder.addBar(bar);
+  }
+
+  const result: Bar[] = [];
+  bySymbol.forEach(builders => {
+    const ordered = Array.from(builders.values()).sort(
+      (a, b) => a.start - b.start
+    );
+    ordered.forEach((builder, index) => {
+      const previous = ordered[index - 1];
+      if (options.gapFill === 'fill' && previous) {
+        const gap = fillGap(
+          result[result.length - 1],
+          previous.end,
+          builder.start,
+          timeframe,
+          bucketOptions
+        );
+        result.push(...gap.bars);
+      }
+      result.push(builder.build());
+    });
+  });
+  return result;
+}
@@ -0,0 +1,115 @@
+/**
+ * Regular trading hours for a venue, expressed in the venue's local time.
+ * Intraday bars are aligned to `open` and daily bars cover one session.
+ */
+export interface TradingSession {
+  timeZone: string;
+  /** Local wall-clock time, `HH:MM`. */
+  open: string;
+  /** Local wall-clock time, `HH:MM`. */
+  close: string;
+}
+
+export const US_EQUITY_SESSION: TradingSession = {
+  timeZone: 'America/New_York',
+  open: '09:30',
+  close: '16:00',
+};
+
+export interface SessionBounds {
+  open: number;
+  close: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function localTime(timestamp: number, timeZone: string): LocalTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(timestamp)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** Offset of `timeZone` from UTC at `timestamp`, in milliseconds. */
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const local = localTime(timestamp, timeZone);
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  );
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+function zonedInstant(
+  year: number,
+  month: number,
+  day: number,
+  clock: string,
+  timeZone: string
+): number {
+  const [hour, minute] = clock.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Two passes settle on the right offset even next to a DST transition.
+  let instant = wallClock - zoneOffset(wallClock, timeZone);
+  instant = wallClock - zoneOffset(instant, timeZone);
+  return instant;
+}
+
+/** Open and close of the session on the local calendar day of `timestamp`. */
+export function sessionBounds(
+  timestamp: number,
+  session: TradingSession
+): SessionBounds {
+  const { year, month, day } = localTime(timestamp, session.timeZone);
+  return {
+    open: zonedInstant(year, month, day, session.open, session.timeZone),
+    close: zonedInstant(year, month, day, session.close, session.timeZone),
+  };
+}
+
+export function isInSession(
+  timestamp: number,
+  session: TradingSession
+): boolean {
+  const { open, close } = sessionBounds(timestamp, session);
+  return timestamp >= open && timestamp < close;
+}
@@ -0,0 +1,82 @@
+import { sessionBounds, type TradingSession } from './session';
+import type { Timeframe } from './types';
+
+const MINUTE = 60_000;
+
+const DURATIONS: Record<Timeframe, number> = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '1h': 60 * MINUTE,
+  '1d': 24 * 60 * MINUTE,
+};
+
+/** All supported timeframes, finest first. */
+export const TIMEFRAMES = Object.keys(DURATIONS) as Timeframe[];
+
+export function isTimeframe(value: unknown): value is Timeframe {
+  return typeof value === 'string' && value in DURATIONS;
+}
+
+export function timeframeMs(timeframe: Timeframe): number {
+  return DURATIONS[timeframe];
+}
+
+export interface Bucket {
+  start: number;
+  end: number;
+}
+
+export interface BucketOptions {
+  /** Align buckets to this session; `null` means a continuous 24h market. */
+  session: TradingSession | null;
+  /** Bucket timestamps outside regular hours instead of discarding them. */
+  extendedHours?: boolean;
+}
+
+/**
+ * Returns the interval of `timeframe` containing `timestamp`, or `null` when
+ * the timestamp falls outside the session and extended hours are excluded.
+ *
+ * With a session, intraday buckets start at the session open and the last
+ * bucket is cut short at the close (e.g. the 15:30 hourly bar ends at 16:00),
+ * and a daily bucket spans exactly one session. Extended-hours timestamps
+ * fall back to clock-aligned buckets.
+ */
+export function bucketFor(
+  timestamp: number,
+  timeframe: Timeframe,
+  options: BucketOptions
+): Bucket | null {
+  const duration = timeframeMs(timeframe);
+  const { session } = options;
+
+  if (session) {
+    const bounds = sessionBounds(timestamp, session);
+    const inSession = timestamp >= bounds.open && timestamp < bounds.close;
+    if (inSession) {
+      if (timeframe === '1d') return { start: bounds.open, end: bounds.close };
+      const start =
+        bounds.open +
+        Math.floor((timestamp - bounds.open) / duration) * duration;
+      return { start, end: Math.min(start + duration, bounds.close) };
+    }
+    if (!options.extendedHours) return null;
+    if (timeframe === '1d') {
+      // Pre- and post-market prints belong to that day's session bar.
+      return { start: bounds.open, end: bounds.close };
+    }
+    // Clip clock-aligned buckets so they never overlap the session's own.
+    const start = Math.floor(timestamp / duration) * duration;
+    return timestamp < bounds.open
+      ? { start, end: Math.min(start + duration, bounds.open) }
+      : { start: Math.max(start, bounds.close), end: start + duration };
+  }
+
+  const start = Math.floor(timestamp / duration) * duration;
+  return { start, end: start + duration };
+}
+
+export function compareTimeframes(a: Timeframe, b: Timeframe): number {
+  return timeframeMs(a) - timeframeMs(b);
+}
@@ -0,0 +1,85 @@
+export type Timeframe = '1m' | '5m' | '15m' | '1h' | '1d';
+
+export type AssetClass = 'equity' | 'etf';
+
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  exchange: string;
+  assetClass: AssetClass;
+  sector: string;
+  currency: string;
+  marketCap?: number;
+  fundamentals?: Fundamentals;
+}
+
+/** Valuation and balance sheet ratios; percentages are in percent. */
+export interface Fundamentals {
+  /** Price to trailing earnings. */
+  pe?: number;
+  pb?: number;
+  ps?: number;
+  /** Trailing earnings per share. */
+  eps?: number;
+  dividendYield?: number;
+  /** Return on equity. */
+  roe?: number;
+  debtToEquity?: number;
+  beta?: number;
+}
+
+export const FUNDAMENTAL_FIELDS: readonly (keyof Fundamentals)[] = [
+  'pe',
+  'pb',
+  'ps',
+  'eps',
+  'dividendYield',
+  'roe',
+  'debtToEquity',
+  'beta',
+];
+
+/** A single executed trade print. Timestamps are epoch milliseconds. */
+export interface Trade {
+  symbol: string;
+  timestamp: number;
+  price: number;
+  size: number;
+}
+
+/** Top-of-book snapshot. */
+export interface Quote {
+  symbol: string;
+  timestamp: number;
+  bid: number;
+  ask: number;
+  bidSize: number;
+  askSize: number;
+  last: number;
+}
+
+/** OHLCV candle; `timestamp` is the start of the interval it covers. */
+export interface Bar {
+  symbol: string;
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap?: number;
+  trades?: number;
+}
+
+export interface TimeRange {
+  /** Inclusive lower bound, epoch milliseconds. */
+  start?: number;
+  /** Exclusive upper bound, epoch milliseconds. */
+  end?: number;
+  /** Keep at most this many records, taken from the end of the range. */
+  limit?: number;
+}
+
+export interface BarQuery extends TimeRange {
+  timeframe: Timeframe;
+}
@@ -0,0 +1,95 @@
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by for from had has have he her his i if in ' +
+    'into is it its me my no not of on or our she so than that the their ' +
+    'them then there these they this to too us was we were what when which ' +
+    'who will with would you your'
+  ).split(' ')
+);
+
+/**
+ * Strips the commonest English inflections so "earnings", "earning" and
+ * "earned" meet at "earn". Deliberately crude: it only has to map a word
+ * and its variants to the same token, not to a real stem.
+ */
+function stem(word: string): string {
+  let stemmed = word;
+  if (stemmed.length > 4 && stemmed.endsWith('ies')) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (
+    stemmed.length > 3 &&
+    stemmed.endsWith('s') &&
+    !/(ss|us|is)$/.test(stemmed)
+  ) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  const suffix =
+    stemmed.length > 5 && stemmed.endsWith('ing')
+      ? 3
+      : stemmed.length > 4 && stemmed.endsWith('ed')
+        ? 2
+        : 0;
+  if (suffix > 0) {
+    stemmed = stemmed.slice(0, -suffix);
+    // "trimmed" and "stopping" double the consonant "trim" and "stop" end in.
+    if (/([^aeiouslz])\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed;
+}
+
+/** Lower-cased, stemmed words and numbers, without stopwords. */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word !== '' && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export interface Bm25Options {
+  /** Term-frequency saturation; defaults to 1.2. */
+  k1?: number;
+  /** Length normalization, 0 to 1; defaults to 0.75. */
+  b?: number;
+}
+
+/**
+ * Okapi BM25 relevance of each document to `query`, in document order.
+ * Documents sharing no term with the query score 0.
+ */
+export function bm25Scores(
+  query: string,
+  documents: string[],
+  { k1 = 1.2, b = 0.75 }: Bm25Options = {}
+): number[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  const tokenized = documents.map(tokenize);
+  if (terms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const averageLength =
+    tokenized.reduce((sum, tokens) => sum + tokens.length, 0) /
+      documents.length || 1;
+  const frequencies = tokenized.map(tokens => {
+    const counts = new Map<string, number>();
+    tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+    return counts;
+  });
+  const idf = terms.map(term => {
+    const containing = frequencies.filter(counts => counts.has(term)).length;
+    return Math.log(
+      1 + (documents.length - containing + 0.5) / (containing + 0.5)
+    );
+  });
+
+  return frequencies.map((counts, i) => {
+    const norm = k1 * (1 - b + (b * tokenized[i].length) / averageLength);
+    return terms.reduce((score, term, j) => {
+      const frequency = counts.get(term) ?? 0;
+      return frequency === 0
+        ? score
+        : score + (idf[j] * frequency * (k1 + 1)) / (frequency + norm);
+    }, 0);
+  });
+}
@@ -0,0 +1,38 @@
+import path from 'node:path';
+import { setSingleton, singleton } from '../singleton';
+import { MemoryBank } from './memory';
+import { FileMemoryStore, type MemoryStore } from './store';
+
+export * from './types';
+export * from './bm25';
+export * from './store';
+export * from './memory';
+export * from './requests';
+
+const STORE_KEY = 'memory.store';
+const BANK_KEY = 'memory.bank';
+
+/** Memories on disk, under `MEMORY_DIR` (`./.data/memory` by default). */
+export function getMemoryStore(): MemoryStore {
+  return singleton(
+    STORE_KEY,
+    () =>
+      new FileMemoryStore(
+        path.resolve(process.env.MEMORY_DIR || './.data/memory')
+      )
+  );
+}
+
+export function setMemoryStore(store: MemoryStore | undefined): void {
+  setSingleton(STORE_KEY, store);
+}
+
+/** The shared memory bank over the shared store. */
+export function getMemoryBank(): MemoryBank {
+  return singleton(BANK_KEY, () => new MemoryBank(getMemoryStore()));
+}
+
+/** Overrides the shared memory bank, e.g. in tests. */
+export function setMemoryBank(bank: MemoryBank | undefined): void {
+  setSingleton(BANK_KEY, bank);
+}
@@ -0,0 +1,135 @@
+import { randomUUID } from 'node:crypto';
+import { bm25Scores } from './bm25';
+import type { MemoryStore } from './store';
+import {
+  MemoryError,
+  type Memory,
+  type MemoryInput,
+  type MemoryMatch,
+  type MemoryQuery,
+  type MemorySearchResult,
+  type MemorySource,
+} from './types';
+
+export const DEFAULT_MEMORY_LIMIT = 20;
+
+export interface MemoryBankOptions {
+  clock?: () => number;
+}
+
+/** What relevance is judged on: the title, text, tags and symbols. */
+function searchableText(memory: Memory): string {
+  return [memory.title ?? '', memory.text, ...memory.tags, ...memory.symbols]
+    .filter(part => part !== '')
+    .join(' ');
+}
+
+function matches(memory: Memory, query: MemoryQuery): boolean {
+  return (
+    (!query.kinds || query.kinds.includes(memory.kind)) &&
+    (!query.tags || query.tags.every(tag => memory.tags.includes(tag))) &&
+    (!query.symbols ||
+      query.symbols.some(symbol => memory.symbols.includes(symbol))) &&
+    (query.orderId === undefined || memory.orderIds.includes(query.orderId)) &&
+    (query.backtestId === undefined ||
+      memory.backtestIds.includes(query.backtestId)) &&
+    (query.start === undefined || memory.createdAt >= query.start) &&
+    (query.end === undefined || memory.createdAt < query.end)
+  );
+}
+
+/**
+ * Users' and agents' notes, theses and trade rationales, linked to the
+ * symbols, orders and backtests they are about. Each user sees only their
+ * own; anyone else's are reported as missing.
+ */
+export class MemoryBank {
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly store: MemoryStore,
+    options: MemoryBankOptions = {}
+  ) {
+    this.clock = options.clock ?? Date.now;
+  }
+
+  async add(
+    userId: string,
+    input: MemoryInput,
+    source: MemorySource
+  ): Promise<Memory> {
+    const now = this.clock();
+    const memory: Memory = {
+      ...input,
+      id: randomUUID(),
+      userId,
+      source,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.save(memory);
+    return memory;
+  }
+
+  async get(userId: string, id: string): Promise<Memory> {
+    const memory = await this.store.get(userId, id);
+    if (!memory) {
+      throw new MemoryError('NOT_FOUND', `Memory ${id} not found`);
+    }
+    return memory;
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    changes: Partial<MemoryInput>
+  ): Promise<Memory> {
+    const memory: Memory = {
+      ...(await this.get(userId, id)),
+      ...changes,
+      updatedAt: this.clock(),
+    };
+    await this.store.save(memory);
+    return memory;
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    await this.get(userId, id);
+    await this.store.delete(userId, id);
+  }
+
+  /**
+   * The user's memories passing every filter in `query`. With `text`, only
+   * those sharing a word with it are kept, best match first, scored
+   * against all the user's memories so filters do not shift the scores.
+   * Otherwise, newest first.
+   */
+  async search(
+    userId: string,
+    query: MemoryQuery = {}
+  ): Promise<MemorySearchResult> {
+    const memories = await this.store.list(userId);
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? DEFAULT_MEMORY_LIMIT;
+
+    let ranked: MemoryMatch[];
+    if (query.text !== undefined) {
+      const scores = bm25Scores(query.text, memories.map(searchableText));
+      ranked = memories
+        .map((memory, i) => ({ memory, score: scores[i] }))
+        .filter(match => match.score > 0 && matches(match.memory, query))
+        .sort((a, b) => b.score - a.score);
+    } else {
+      ranked = memories
+        .filter(memory => matches(memory, query))
+        .map(memory => ({ memory, score: null }));
+    }
+
+    return {
+      total: ranked.length,
+      offset,
+      limit,
+      results: ranked.slice(offset, offset + limit),
+    };
+  }
+}
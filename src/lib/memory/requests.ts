@@ -0,0 +1,117 @@
+import { Validator } from '../validation';
+import { MEMORY_KINDS, type MemoryInput } from './types';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_TEXT_LENGTH = 20_000;
+const MAX_LINKS = 50;
+const MAX_TAG_LENGTH = 50;
+
+/**
+ * A list of strings, trimmed, normalized and without duplicates. Unlike
+ * {@link Validator.stringArray} an empty list is fine: it clears the field.
+ */
+function readList(
+  fields: Validator,
+  key: string,
+  normalize: (item: string) => string = item => item
+): string[] | undefined {
+  const value = fields.raw(key);
+  if (value === undefined || value === null) return undefined;
+  if (
+    !Array.isArray(value) ||
+    !value.every(item => typeof item === 'string' && item.trim() !== '')
+  ) {
+    fields.fail(key, 'must be an array of non-empty strings');
+    return undefined;
+  }
+  const items = Array.from(
+    new Set(value.map(item => normalize((item as string).trim())))
+  );
+  if (items.length > MAX_LINKS) {
+    fields.fail(key, `must have at most ${MAX_LINKS} items`);
+    return undefined;
+  }
+  return items;
+}
+
+function readTags(fields: Validator): string[] | undefined {
+  const tags = readList(fields, 'tags', tag => tag.toLowerCase());
+  if (tags?.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    fields.fail('tags', `must each be at most ${MAX_TAG_LENGTH} characters`);
+    return undefined;
+  }
+  return tags;
+}
+
+function readText(
+  fields: Validator,
+  key: string,
+  max: number,
+  required: boolean
+): string | undefined {
+  const text = fields.string(key, required)?.trim();
+  if (text !== undefined && text.length > max) {
+    fields.fail(key, `must be at most ${max} characters`);
+    return undefined;
+  }
+  return text;
+}
+
+function readChanges(fields: Validator, creating: boolean) {
+  return {
+    kind: fields.oneOf('kind', MEMORY_KINDS),
+    title: readText(fields, 'title', MAX_TITLE_LENGTH, false),
+    text: readText(fields, 'text', MAX_TEXT_LENGTH, creating),
+    tags: readTags(fields),
+    symbols: readList(fields, 'symbols', symbol => symbol.toUpperCase()),
+    orderIds: readList(fields, 'orderIds'),
+    backtestIds: readList(fields, 'backtestIds'),
+  };
+}
+
+/**
+ * Validates a memory as sent to `POST /api/v1/memories`: its `text`, and
+ * optionally a `kind` (`note` by default), `title`, `tags` and the
+ * `symbols`, `orderIds` and `backtestIds` it is about.
+ */
+export function parseMemory(
+  input: unknown
+): { memory: MemoryInput; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const read = readChanges(fields, true);
+  if (!fields.valid || read.text === undefined) {
+    return { problems: fields.problems };
+  }
+  const memory: MemoryInput = {
+    kind: read.kind ?? 'note',
+    text: read.text,
+    tags: read.tags ?? [],
+    symbols: read.symbols ?? [],
+    orderIds: read.orderIds ?? [],
+    backtestIds: read.backtestIds ?? [],
+  };
+  if (read.title !== undefined) memory.title = read.title;
+  return { problems: [], memory };
+}
+
+/** Validates the changes sent to `PATCH /api/v1/memories/:id`. */
+export function parseMemoryChanges(
+  input: unknown
+): { changes: Partial<MemoryInput>; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const read = readChanges(fields, false);
+  const changes: Partial<MemoryInput> = {};
+  (Object.keys(read) as (keyof typeof read)[]).forEach(key => {
+    if (read[key] !== undefined) {
+      (changes as Record<string, unknown>)[key] = read[key];
+    }
+  });
+  if (fields.valid && Object.keys(changes).length === 0) {
+    fields.fail(
+      'body',
+      'must change kind, title, text, tags, symbols, orderIds or backtestIds'
+    );
+  }
+  if (!fields.valid) return { problems: fields.problems };
+  return { problems: [], changes };
+}
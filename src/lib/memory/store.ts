@@ -0,0 +1,119 @@
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Memory } from './types';
+
+/**
+ * Where memories are kept, by user: a memory is only found under the
+ * user it belongs to. Lists are most recent first.
+ */
+export interface MemoryStore {
+  save(memory: Memory): Promise<void>;
+  get(userId: string, id: string): Promise<Memory | null>;
+  list(userId: string): Promise<Memory[]>;
+  delete(userId: string, id: string): Promise<boolean>;
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function copy(memory: Memory): Memory {
+  return {
+    ...memory,
+    tags: memory.tags.slice(),
+    symbols: memory.symbols.slice(),
+    orderIds: memory.orderIds.slice(),
+    backtestIds: memory.backtestIds.slice(),
+  };
+}
+
+function newestFirst(a: Memory, b: Memory): number {
+  return b.createdAt - a.createdAt || b.id.localeCompare(a.id);
+}
+
+export class InMemoryMemoryStore implements MemoryStore {
+  private readonly memories = new Map<string, Memory>();
+
+  async save(memory: Memory): Promise<void> {
+    this.memories.set(memory.id, copy(memory));
+  }
+
+  async get(userId: string, id: string): Promise<Memory | null> {
+    const memory = this.memories.get(id);
+    return memory && memory.userId === userId ? copy(memory) : null;
+  }
+
+  async list(userId: string): Promise<Memory[]> {
+    return Array.from(this.memories.values())
+      .filter(memory => memory.userId === userId)
+      .sort(newestFirst)
+      .map(copy);
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    return (await this.get(userId, id)) !== null && this.memories.delete(id);
+  }
+}
+
+/**
+ * Keeps one JSON document per memory in a directory of its user's under
+ * `dir`, so listing a user's memories reads only theirs.
+ */
+export class FileMemoryStore implements MemoryStore {
+  constructor(private readonly dir: string) {}
+
+  async save(memory: Memory): Promise<void> {
+    await mkdir(this.userDir(memory.userId), { recursive: true });
+    await writeFile(
+      this.file(memory.userId, memory.id),
+      JSON.stringify(memory),
+      'utf8'
+    );
+  }
+
+  async get(userId: string, id: string): Promise<Memory | null> {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await readFile(this.file(userId, id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(userId: string): Promise<Memory[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.userDir(userId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const memories = await Promise.all(
+      names
+        .filter(name => name.endsWith('.json'))
+        .map(name => this.get(userId, name.slice(0, -'.json'.length)))
+    );
+    return memories
+      .filter((memory): memory is Memory => memory !== null)
+      .sort(newestFirst);
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    if (!ID_PATTERN.test(id)) return false;
+    try {
+      await rm(this.file(userId, id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  /** User ids are encoded, so any id makes a safe directory name. */
+  private userDir(userId: string): string {
+    return path.join(this.dir, Buffer.from(userId).toString('base64url'));
+  }
+
+  private file(userId: string, id: string): string {
+    return path.join(this.userDir(userId), `${id}.json`);
+  }
+}
@@ -0,0 +1,73 @@
+export type MemoryKind = 'note' | 'thesis' | 'rationale';
+
+export const MEMORY_KINDS: readonly MemoryKind[] = [
+  'note',
+  'thesis',
+  'rationale',
+];
+
+/** Who wrote a memory: the user through the API, or an agent's tool call. */
+export type MemorySource = 'user' | 'agent';
+
+export interface MemoryInput {
+  kind: MemoryKind;
+  title?: string;
+  text: string;
+  /** Lower case, without duplicates. */
+  tags: string[];
+  /** Upper case, without duplicates. */
+  symbols: string[];
+  orderIds: string[];
+  backtestIds: string[];
+}
+
+export interface Memory extends MemoryInput {
+  id: string;
+  userId: string;
+  source: MemorySource;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MemoryQuery {
+  /** Ranks matches by relevance to these words; otherwise newest first. */
+  text?: string;
+  kinds?: MemoryKind[];
+  /** Matches carry every one of these tags. */
+  tags?: string[];
+  /** Matches are linked to at least one of these symbols. */
+  symbols?: string[];
+  orderId?: string;
+  backtestId?: string;
+  /** Inclusive lower bound on `createdAt`, epoch milliseconds. */
+  start?: number;
+  /** Exclusive upper bound on `createdAt`, epoch milliseconds. */
+  end?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MemoryMatch {
+  memory: Memory;
+  /** BM25 relevance to the query text; `null` without one. */
+  score: number | null;
+}
+
+export interface MemorySearchResult {
+  total: number;
+  offset: number;
+  limit: number;
+  results: MemoryMatch[];
+}
+
+export type MemoryErrorCode = 'NOT_FOUND';
+
+export class MemoryError extends Error {
+  constructor(
+    readonly code: MemoryErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MemoryError';
+  }
+}
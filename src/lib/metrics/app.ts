@@ -0,0 +1,58 @@
+import {
+  type Counter,
+  type Gauge,
+  type Histogram,
+  type MetricsRegistry,
+} from './registry';
+
+/** The instruments the application records into. */
+export interface AppMetrics {
+  httpRequests: Counter;
+  httpRequestDuration: Histogram;
+  orders: Gauge;
+  fillLatency: Histogram;
+  feedLag: Gauge;
+  feedLastPoll: Gauge;
+  strategyErrors: Counter;
+}
+
+/** Defines (or looks up) the application's instruments in `registry`. */
+export function appMetrics(registry: MetricsRegistry): AppMetrics {
+  const http = ['method', 'route', 'status'];
+  return {
+    httpRequests: registry.counter({
+      name: 'http_requests_total',
+      help: 'HTTP requests handled, by method, route and status.',
+      labelNames: http,
+    }),
+    httpRequestDuration: registry.histogram({
+      name: 'http_request_duration_seconds',
+      help: 'Time to handle HTTP requests in seconds.',
+      labelNames: http,
+    }),
+    orders: registry.gauge({
+      name: 'oms_orders',
+      help: 'Orders in the order management system, by status.',
+      labelNames: ['status'],
+    }),
+    fillLatency: registry.histogram({
+      name: 'oms_fill_latency_seconds',
+      help: 'Time from order creation to each fill in seconds.',
+      buckets: [0.01, 0.05, 0.1, 0.5, 1, 5, 30, 60, 300, 3600],
+    }),
+    feedLag: registry.gauge({
+      name: 'market_data_feed_lag_seconds',
+      help: 'Age of the latest quote polled for each watched symbol.',
+      labelNames: ['symbol'],
+    }),
+    feedLastPoll: registry.gauge({
+      name: 'market_data_feed_last_poll_timestamp_seconds',
+      help: 'When the market feed last polled successfully.',
+    }),
+    strategyErrors: registry.counter({
+      name: 'strategy_errors_total',
+      help: 'Strategy failures, by strategy and error code.',
+      labelNames: ['strategy', 'code'],
+    }),
+  };
+}
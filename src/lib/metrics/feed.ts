@@ -0,0 +1,29 @@
+import type { MarketFeed } from '../streaming/sources';
+import type { AppMetrics } from './app';
+import type { MetricsRegistry } from './registry';
+
+/**
+ * Sets the market feed gauges on each scrape: how old each watched
+ * symbol's latest quote is, and when the feed last polled. Returns a
+ * function that stops.
+ */
+export function recordFeedMetrics(
+  registry: MetricsRegistry,
+  metrics: AppMetrics,
+  feed: MarketFeed,
+  clock: () => number = Date.now
+): () => void {
+  let reported: string[] = [];
+  return registry.collect(() => {
+    const { quotes, lastPollAt } = feed.status();
+    const now = clock();
+    reported
+      .filter(symbol => !(symbol in quotes))
+      .forEach(symbol => metrics.feedLag.remove({ symbol }));
+    reported = Object.keys(quotes);
+    reported.forEach(symbol =>
+      metrics.feedLag.set({ symbol }, (now - quotes[symbol]) / 1000)
+    );
+    if (lastPollAt !== null) metrics.feedLastPoll.set({}, lastPollAt / 1000);
+  });
+}
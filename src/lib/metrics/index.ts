@@ -0,0 +1,35 @@
+import { setSingleton, singleton } from '../singleton';
+import { appMetrics, type AppMetrics } from './app';
+import { collectProcessMetrics } from './process';
+import { MetricsRegistry } from './registry';
+
+export * from './types';
+export * from './registry';
+export * from './app';
+export * from './process';
+export * from './orders';
+export * from './feed';
+
+const METRICS_KEY = 'metrics';
+
+/** The shared registry served at `/metrics`, with process metrics. */
+export function getMetricsRegistry(): MetricsRegistry {
+  return singleton(METRICS_KEY, () => {
+    const registry = new MetricsRegistry();
+    collectProcessMetrics(registry);
+    appMetrics(registry);
+    return registry;
+  });
+}
+
+/** Overrides the shared registry, e.g. in tests. */
+export function setMetricsRegistry(
+  registry: MetricsRegistry | undefined
+): void {
+  setSingleton(METRICS_KEY, registry);
+}
+
+/** The application's instruments in the shared registry. */
+export function getMetrics(): AppMetrics {
+  return appMetrics(getMetricsRegistry());
+}
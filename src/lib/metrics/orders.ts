@@ -0,0 +1,23 @@
+import type { OrderManager } from '../oms/manager';
+import type { AppMetrics } from './app';
+
+/**
+ * Keeps `oms_orders` (orders by status) current from the OMS's events and
+ * observes how long each fill took from order creation. Returns a
+ * function that stops.
+ */
+export function recordOrderMetrics(
+  metrics: AppMetrics,
+  oms: OrderManager
+): () => void {
+  return oms.subscribe(event => {
+    if (event.type === 'status') {
+      const { from, to } = event.transition;
+      if (from) metrics.orders.dec({ status: from });
+      metrics.orders.inc({ status: to });
+    } else {
+      const seconds = (event.fill.timestamp - event.order.createdAt) / 1000;
+      metrics.fillLatency.observe({}, Math.max(0, seconds));
+    }
+  });
+}
@@ -0,0 +1,34 @@
+import type { MetricsRegistry } from './registry';
+
+/**
+ * The standard `process_*` metrics plus V8 heap sizes, read on each
+ * scrape. Returns a function that stops collecting them.
+ */
+export function collectProcessMetrics(registry: MetricsRegistry): () => void {
+  const cpu = registry.gauge({
+    name: 'process_cpu_seconds_total',
+    help: 'Total user and system CPU time spent in seconds.',
+  });
+  const resident = registry.gauge({
+    name: 'process_resident_memory_bytes',
+    help: 'Resident memory size in bytes.',
+  });
+  const start = registry.gauge({
+    name: 'process_start_time_seconds',
+    help: 'Start time of the process since unix epoch in seconds.',
+  });
+  const heap = registry.gauge({
+    name: 'nodejs_heap_size_used_bytes',
+    help: 'V8 heap in use in bytes.',
+  });
+  const startedAt = Date.now() / 1000 - process.uptime();
+
+  return registry.collect(() => {
+    const usage = process.cpuUsage();
+    const memory = process.memoryUsage();
+    cpu.set({}, (usage.user + usage.system) / 1e6);
+    resident.set({}, memory.rss);
+    start.set({}, Math.round(startedAt));
+    heap.set({}, memory.heapUsed);
+  });
+}
@@ -0,0 +1,322 @@
+import {
+  MetricsError,
+  type HistogramOptions,
+  type Labels,
+  type MetricOptions,
+  type MetricType,
+} from './types';
+
+/** Latency buckets in seconds, from 5 ms to 10 s. */
+export const DEFAULT_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: readonly string[];
+  abstract readonly type: MetricType;
+
+  constructor(options: MetricOptions) {
+    if (!NAME.test(options.name)) {
+      throw new MetricsError(
+        'INVALID_METRIC',
+        `Invalid metric name "${options.name}"`
+      );
+    }
+    const bad = (options.labelNames ?? []).find(name => !LABEL.test(name));
+    if (bad !== undefined) {
+      throw new MetricsError('INVALID_METRIC', `Invalid label name "${bad}"`);
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  /** Sample lines in the text exposition format. */
+  abstract lines(): string[];
+
+  abstract reset(): void;
+
+  /** A stable key for a label set, checking it has exactly the labels. */
+  protected key(labels: Labels): string {
+    const given = Object.keys(labels);
+    if (
+      given.length !== this.labelNames.length ||
+      given.some(name => !this.labelNames.includes(name))
+    ) {
+      throw new MetricsError(
+        'INVALID_LABELS',
+        `${this.name} takes labels [${this.labelNames.join(', ')}], got [${given.join(', ')}]`
+      );
+    }
+    return JSON.stringify(this.labelNames.map(name => String(labels[name])));
+  }
+
+  protected labelsOf(key: string): Labels {
+    const values = JSON.parse(key) as string[];
+    const labels: Labels = {};
+    this.labelNames.forEach((name, i) => {
+      labels[name] = values[i];
+    });
+    return labels;
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private readonly values = new Map<string, number>();
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (!(amount >= 0)) {
+      throw new MetricsError('INVALID_METRIC', 'Counters only go up');
+    }
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.key(labels)) ?? 0;
+  }
+
+  lines(): string[] {
+    return Array.from(this.values.entries()).map(([key, value]) =>
+      sample(this.name, this.labelsOf(key), value)
+    );
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private readonly values = new Map<string, number>();
+
+  set(labels: Labels, value: number): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.inc(labels, -amount);
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(this.key(labels));
+  }
+
+  /** Drops a label set, e.g. a symbol no longer watched. */
+  remove(labels: Labels): void {
+    this.values.delete(this.key(labels));
+  }
+
+  lines(): string[] {
+    return Array.from(this.values.entries()).map(([key, value]) =>
+      sample(this.name, this.labelsOf(key), value)
+    );
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+interface Series {
+  /** Per bucket, not cumulative. */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+  private readonly series = new Map<string, Series>();
+
+  constructor(options: HistogramOptions) {
+    super(options);
+    if (options.labelNames?.includes('le')) {
+      throw new MetricsError('INVALID_METRIC', '"le" is reserved');
+    }
+    this.buckets = (options.buckets ?? DEFAULT_BUCKETS)
+      .slice()
+      .sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket >= 0) series.counts[bucket] += 1;
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /**
+   * Observes the seconds from now until the returned function is called
+   * with any labels only known by then; it returns the full label set.
+   */
+  startTimer(
+    labels: Labels,
+    clock: () => number = Date.now
+  ): (more?: Labels) => Labels {
+    const start = clock();
+    return (more = {}) => {
+      const all = { ...labels, ...more };
+      this.observe(all, (clock() - start) / 1000);
+      return all;
+    };
+  }
+
+  count(labels: Labels = {}): number {
+    return this.series.get(this.key(labels))?.count ?? 0;
+  }
+
+  lines(): string[] {
+    const lines: string[] = [];
+    this.series.forEach((series, key) => {
+      const labels = this.labelsOf(key);
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.counts[i];
+        lines.push(
+          sample(`${this.name}_bucket`, { ...labels, le: bound }, cumulative)
+        );
+      });
+      lines.push(
+        sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, series.count),
+        sample(`${this.name}_sum`, labels, series.sum),
+        sample(`${this.name}_count`, labels, series.count)
+      );
+    });
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export type Collector = () => void | Promise<void>;
+
+/**
+ * Metrics rendered in the Prometheus text exposition format. Instruments
+ * are created once by name; collectors run before each render to set
+ * gauges that are cheaper to read on scrape than to keep current.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+  private readonly collectors: Collector[] = [];
+
+  counter(options: MetricOptions): Counter {
+    return this.register(options, 'counter', () => new Counter(options));
+  }
+
+  gauge(options: MetricOptions): Gauge {
+    return this.register(options, 'gauge', () => new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(options, 'histogram', () => new Histogram(options));
+  }
+
+  /** Runs `collector` before every render. Returns a function that stops. */
+  collect(collector: Collector): () => void {
+    this.collectors.push(collector);
+    return () => {
+      const index = this.collectors.indexOf(collector);
+      if (index >= 0) this.collectors.splice(index, 1);
+    };
+  }
+
+  async render(): Promise<string> {
+    await Promise.all(
+      this.collectors.map(async collector => {
+        try {
+          await collector();
+        } catch (error) {
+          console.error('Metrics collector failed', error);
+        }
+      })
+    );
+    const blocks = Array.from(this.metrics.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(metric =>
+        [
+          `# HELP ${metric.name} ${escapeHelp(metric.help)}`,
+          `# TYPE ${metric.name} ${metric.type}`,
+          ...metric.lines(),
+        ].join('\n')
+      );
+    return `${blocks.join('\n')}\n`;
+  }
+
+  /** Clears every value, keeping the instruments. */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register<T extends Metric>(
+    options: MetricOptions,
+    type: MetricType,
+    create: () => T
+  ): T {
+    const existing = this.metrics.get(options.name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new MetricsError(
+          'INVALID_METRIC',
+          `${options.name} is already a ${existing.type}`
+        );
+      }
+      return existing as T;
+    }
+    const metric = create();
+    this.metrics.set(options.name, metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE =
+  'text/plain; version=0.0.4; charset=utf-8';
+
+function sample(name: string, labels: Labels, value: number): string {
+  const pairs = Object.keys(labels).map(
+    label => `${label}="${escapeLabel(String(labels[label]))}"`
+  );
+  const rendered =
+    value === Infinity
+      ? '+Inf'
+      : value === -Infinity
+        ? '-Inf'
+        : Number.isNaN(value)
+          ? 'NaN'
+          : String(value);
+  return pairs.length > 0
+    ? `${name}{${pairs.join(',')}} ${rendered}`
+    : `${name} ${rendered}`;
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/"/g, '\\"');
+}
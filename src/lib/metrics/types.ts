@@ -0,0 +1,28 @@
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Label values by label name. */
+export type Labels = Record<string, string | number>;
+
+export interface MetricOptions {
+  name: string;
+  help: string;
+  /** Names of the labels every sample must carry. */
+  labelNames?: readonly string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds, ascending; `+Inf` is added. */
+  buckets?: readonly number[];
+}
+
+export type MetricsErrorCode = 'INVALID_METRIC' | 'INVALID_LABELS';
+
+export class MetricsError extends Error {
+  constructor(
+    readonly code: MetricsErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MetricsError';
+  }
+}
@@ -0,0 +1,72 @@
+import { getAuthService } from '../auth';
+import { getPaperBroker } from '../broker';
+import { OrderJournal, getDatabase } from '../database';
+import { getMetrics, recordOrderMetrics } from '../metrics';
+import { followOrders, getPortfolio, type PortfolioLedger } from '../portfolio';
+import { getRiskEngine } from '../risk';
+import { setSingleton, singleton } from '../singleton';
+import { getStreamHub, streamOrders } from '../streaming';
+import { OrderManager } from './manager';
+
+export * from './types';
+export * from './state-machine';
+export * from './requests';
+export {
+  DEFAULT_ACCOUNT_ID,
+  OrderManager,
+  type CreateOrderResult,
+  type OrderManagerOptions,
+} from './manager';
+
+const OMS_KEY = 'oms';
+
+/**
+ * Books each account's fills into its portfolio. An account is followed
+ * from its first order event, and again whenever its portfolio is
+ * replaced, catching up on the fills made before.
+ */
+function followAccounts(manager: OrderManager): void {
+  const followed = new Set<PortfolioLedger>();
+  manager.subscribe(event => {
+    const { accountId } = event.order;
+    const ledger = getPortfolio(accountId);
+    if (followed.has(ledger)) return;
+    followed.add(ledger);
+    followOrders(ledger, manager, accountId);
+  });
+}
+
+/**
+ * The shared order manager: trades on the shared paper broker behind the
+ * shared risk engine's checks, books fills into each account's portfolio
+ * and the shared metrics, and publishes its events to the shared stream
+ * hub. With `ORDER_STORE=database`, orders, fills, positions and cash are
+ * saved to the shared database as well, and orders are saved before they
+ * are sent.
+ */
+export function getOrderManager(): OrderManager {
+  return singleton(OMS_KEY, () => {
+    const journal =
+      process.env.ORDER_STORE === 'database'
+        ? new OrderJournal(getDatabase(), {
+            owner: accountId => getAuthService().getUser(accountId),
+            portfolio: getPortfolio,
+          })
+        : null;
+    const manager = new OrderManager(getPaperBroker(), {
+      preTrade: [getRiskEngine().check],
+      record: journal ? orders => journal.record(orders) : undefined,
+    });
+    followAccounts(manager);
+    recordOrderMetrics(getMetrics(), manager);
+    streamOrders(getStreamHub(), manager);
+    // After the portfolios, so fills are booked by the time it saves.
+    journal?.follow(manager);
+    return manager;
+  });
+}
+
+/** Overrides the shared order manager, e.g. in tests. */
+export function setOrderManager(manager: OrderManager | undefined): void {
+  setSingleton(OMS_KEY, manager);
+}
@@ -0,0 +1,786 @@
+import { randomUUID } from 'node:crypto';
+import {
+  BrokerError,
+  type Broker,
+  type BrokerEvent,
+  type BrokerOrder,
+  type BrokerOrderRequest,
+  type BrokerOrderStatus,
+} from '../broker/types';
+import { canTransition, isOpenStatus, transition } from './state-machine';
+import {
+  OmsError,
+  type AmendOrderInput,
+  type BatchLeg,
+  type BatchLegResult,
+  type BatchMode,
+  type BatchResult,
+  type CreateOrderInput,
+  type ManagedOrder,
+  type OrderEvent,
+  type OrderListener,
+  type OrderQuery,
+  type OrderStatus,
+  type PreTradeCheck,
+  type RejectReason,
+} from './types';
+
+export interface OrderManagerOptions {
+  /** Checks every new order and amendment must pass, e.g. risk limits. */
+  preTrade?: PreTradeCheck[];
+  /**
+   * Saves orders that passed their checks, before they are sent: a
+   * batch's legs all at once. Should it throw, none of them is sent.
+   */
+  record?: (orders: ManagedOrder[]) => Promise<void>;
+  clock?: () => number;
+}
+
+export interface CreateOrderResult {
+  order: ManagedOrder;
+  /** `false` when the client order id matched an order created earlier. */
+  created: boolean;
+}
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+/** An order recorded but not yet sent: its entry, then any bracket exits. */
+interface StagedOrder {
+  input: CreateOrderInput;
+  request: BrokerOrderRequest;
+  entry: ManagedOrder;
+  orders: ManagedOrder[];
+  /** Its client order id, keyed by account. */
+  key?: string;
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+
+const BATCH_ABORTED: RejectReason = {
+  code: 'BATCH_ABORTED',
+  message: 'Not sent: another leg of the batch was rejected',
+};
+
+const STATUS_FROM_BROKER: Record<BrokerOrderStatus, OrderStatus> = {
+  held: 'pending',
+  accepted: 'accepted',
+  partially_filled: 'partially_filled',
+  filled: 'filled',
+  cancelled: 'cancelled',
+  expired: 'expired',
+  rejected: 'rejected',
+  replaced: 'replaced',
+};
+
+/**
+ * The order management system: owns each order's lifecycle and drives a
+ * {@link Broker}. Every status change goes through the transition table in
+ * `state-machine.ts`, so an order can never, say, fill after it was
+ * cancelled, whatever the venue reports.
+ *
+ * Brokers may report on an order before the call that placed it returns
+ * (the paper broker does so synchronously), so events arriving while a
+ * broker call is in flight are held back until its ids are mapped.
+ */
+export class OrderManager {
+  private readonly orders = new Map<string, ManagedOrder>();
+  private readonly byBrokerId = new Map<string, string>();
+  private readonly byClientId = new Map<string, string>();
+  /** The request each client order id was first used with. */
+  private readonly requests = new Map<string, string>();
+  private readonly listeners = new Set<OrderListener>();
+  private readonly preTrade: PreTradeCheck[];
+  private readonly record?: (orders: ManagedOrder[]) => Promise<void>;
+  private readonly clock: () => number;
+  private readonly detach: () => void;
+  private inFlight = 0;
+  private deferred: BrokerEvent[] = [];
+
+  constructor(
+    readonly broker: Broker,
+    options: OrderManagerOptions = {}
+  ) {
+    this.preTrade = options.preTrade ?? [];
+    this.record = options.record;
+    this.clock = options.clock ?? Date.now;
+    this.detach = broker.subscribe(event => {
+      if (this.inFlight > 0) this.deferred.push(event);
+      else this.handle(event);
+    });
+  }
+
+  /**
+   * Creates an order and, once it passes the pre-trade checks, sends it to
+   * the broker. Orders either turns down come back `rejected` rather than
+   * throwing. Reusing a client order
+   * id returns the original order, unless the request differs.
+   */
+  async create(input: CreateOrderInput): Promise<CreateOrderResult> {
+    const existing = this.findExisting(input);
+    if (existing) return { order: existing, created: false };
+
+    const staged = this.stage(input);
+    const reasons = await this.runChecks(staged.entry);
+    if (reasons.length > 0) {
+      this.reject(staged, reasons);
+    } else {
+      await this.persist([staged]);
+      await this.send(staged);
+    }
+    return { order: this.snapshot(staged.entry.id), created: true };
+  }
+
+  /**
+   * Places a basket of orders. Every leg is checked before any is sent,
+   * each seeing the legs before it as open orders, so limits apply to the
+   * basket as a whole.
+   *
+   * An `atomic` batch with an invalid or rejected leg is withdrawn before
+   * anything reaches the broker, leaving no trace in the OMS; every leg is
+   * still checked, so the results say what else would have failed.
+   * Otherwise the legs are recorded together (see `record`) before the
+   * first is sent. Should the broker itself reject a leg, the legs already
+   * placed are cancelled and the rest withdrawn; fills that happened in
+   * between stand. Legs already recorded stay on record: those placed as
+   * cancelled, the rest as rejected (`BATCH_ABORTED`) without being sent. In
+   * `best-effort` mode failing legs are reported (and rejected legs kept,
+   * as with {@link create}) while the others go ahead.
+   */
+  async createBatch(
+    legs: BatchLeg[],
+    mode: BatchMode = 'atomic'
+  ): Promise<BatchResult> {
+    const atomic = mode === 'atomic';
+    const results: BatchLegResult[] = legs.map((leg, index) =>
+      'order' in leg
+        ? { index, status: 'not-placed' }
+        : { index, status: 'invalid', problems: [...leg.problems] }
+    );
+    let failed = results.some(result => result.status === 'invalid');
+    const staged: (StagedOrder | null)[] = legs.map(() => null);
+
+    for (let index = 0; index < legs.length; index++) {
+      const leg = legs[index];
+      if (!('order' in leg)) continue;
+      let order: StagedOrder;
+      try {
+        const existing = this.findExisting(leg.order);
+        if (existing) {
+          results[index] = { index, status: 'existing', order: existing };
+          continue;
+        }
+        order = this.stage(leg.order);
+      } catch (error) {
+        if (!(error instanceof OmsError)) throw error;
+        const reasons = [{ code: error.code, message: error.message }];
+        results[index] = { index, status: 'rejected', reasons };
+        failed = true;
+        continue;
+      }
+      const reasons = await this.runChecks(order.entry);
+      if (reasons.length === 0) {
+        staged[index] = order;
+        continue;
+      }
+      failed = true;
+      if (atomic) {
+        this.discard(order);
+        results[index] = { index, status: 'rejected', reasons };
+      } else {
+        this.reject(order, reasons);
+        const rejected = this.snapshot(order.entry.id);
+        results[index] = {
+          index,
+          status: 'rejected',
+          order: rejected,
+          reasons,
+        };
+      }
+    }
+
+    const recorded = !(atomic && failed) && this.record !== undefined;
+    if (!(atomic && failed)) {
+      await this.persist(
+        staged.filter((leg): leg is StagedOrder => leg !== null)
+      );
+    }
+
+    const sent: number[] = [];
+    for (let index = 0; index < legs.length; index++) {
+      const leg = staged[index];
+      if (!leg) continue;
+      if (atomic && failed) {
+        // Once on record a leg cannot vanish; it is rejected unsent.
+        if (recorded) {
+          this.reject(leg, [BATCH_ABORTED]);
+          results[index] = {
+            index,
+            status: 'not-placed',
+            order: this.snapshot(leg.entry.id),
+          };
+        } else {
+          this.discard(leg);
+        }
+        continue;
+      }
+      await this.send(leg);
+      const order = this.snapshot(leg.entry.id);
+      if (order.status === 'rejected') {
+        failed = true;
+        results[index] = {
+          index,
+          status: 'rejected',
+          order,
+          reasons: order.rejectReasons,
+        };
+      } else {
+        results[index] = { index, status: 'placed', order };
+        sent.push(index);
+      }
+    }
+
+    if (atomic && failed) {
+      for (const index of sent) {
+        const id = results[index].order!.id;
+        try {
+          results[index] = {
+            index,
+            status: 'cancelled',
+            order: await this.cancel(id),
+          };
+        } catch (error) {
+          // Filled before it could be cancelled: it stays placed.
+          if (!(error instanceof OmsError)) throw error;
+          results[index] = {
+            index,
+            status: 'placed',
+            order: this.snapshot(id),
+          };
+        }
+      }
+    }
+
+    const placed = results.filter(
+      result => result.status === 'placed' || result.status === 'existing'
+    ).length;
+    return {
+      mode,
+      committed: !(atomic && failed),
+      placed,
+      failed: results.filter(
+        result => result.status === 'invalid' || result.status === 'rejected'
+      ).length,
+      legs: results,
+    };
+  }
+
+  /**
+   * Cancel/replace: the order ends `replaced` and a new order with the
+   * changes, the same client order id and any fills so far takes over.
+   * Resolves to the replacement.
+   */
+  async amend(id: string, changes: AmendOrderInput): Promise<ManagedOrder> {
+    const order = this.openOrder(id, 'amended');
+    if (
+      Object.keys(changes).every(
+        field => changes[field as keyof AmendOrderInput] === undefined
+      )
+    ) {
+      throw new OmsError(
+        'INVALID_ORDER',
+        'An amendment needs at least one change'
+      );
+    }
+
+    const candidate: ManagedOrder = {
+      ...this.snapshot(id),
+      ...definedOnly(changes),
+      status: 'new',
+    };
+    const reasons = await this.runChecks(candidate, order);
+    if (reasons.length > 0) {
+      throw new OmsError(
+        'REJECTED',
+        reasons.map(reason => reason.message).join('; '),
+        reasons
+      );
+    }
+
+    let replacementId = '';
+    await this.callBroker(() =>
+      this.withBroker(
+        () => this.broker.replace(order.brokerOrderId!, changes),
+        placed => {
+          const replacement = this.newOrder(order.accountId, order, {
+            clientOrderId: order.clientOrderId,
+            parentId: order.parentId,
+            leg: order.leg,
+            replaces: order.id,
+            lotIds: order.lotIds,
+          });
+          replacementId = replacement.id;
+          order.replacedBy = replacement.id;
+          if (order.clientOrderId !== undefined) {
+            const key = clientKey(order.accountId, order.clientOrderId);
+            this.byClientId.set(key, replacement.id);
+          }
+          this.orders.forEach(child => {
+            if (child.parentId === order.id) child.parentId = replacement.id;
+          });
+          this.apply(replacement, 'pending', this.clock());
+          this.link(replacement, placed);
+        }
+      )
+    );
+    return this.snapshot(replacementId);
+  }
+
+  /** Cancels an open order; the broker cancels linked orders with it. */
+  async cancel(id: string): Promise<ManagedOrder> {
+    const order = this.openOrder(id, 'cancelled');
+    await this.callBroker(() =>
+      this.withBroker(
+        () => this.broker.cancel(order.brokerOrderId!),
+        () => {}
+      )
+    );
+    return this.snapshot(id);
+  }
+
+  /**
+   * Cancels every open order of every account, e.g. when trading is
+   * halted. Resolves to the orders cancelled.
+   */
+  async cancelAll(): Promise<ManagedOrder[]> {
+    const cancelled: ManagedOrder[] = [];
+    for (const order of Array.from(this.orders.values())) {
+      // Cancelling one order can close others, such as bracket exits.
+      if (!isOpenStatus(order.status) || !order.brokerOrderId) continue;
+      try {
+        cancelled.push(await this.cancel(order.id));
+      } catch (error) {
+        if (!(error instanceof OmsError)) throw error;
+      }
+    }
+    return cancelled;
+  }
+
+  get(id: string): ManagedOrder | null {
+    return this.orders.has(id) ? this.snapshot(id) : null;
+  }
+
+  /** Follows cancel/replace chains to the latest order. */
+  getByClientOrderId(
+    clientOrderId: string,
+    accountId = DEFAULT_ACCOUNT_ID
+  ): ManagedOrder | null {
+    const id = this.byClientId.get(clientKey(accountId, clientOrderId));
+    return id ? this.snapshot(id) : null;
+  }
+
+  /** Matching orders, most recent first. */
+  list(query: OrderQuery = {}): ManagedOrder[] {
+    return Array.from(this.orders.values())
+      .reverse()
+      .filter(order => !query.accountId || order.accountId === query.accountId)
+      .filter(order => !query.symbol || order.symbol === query.symbol)
+      .filter(order =>
+        query.status === 'open'
+          ? isOpenStatus(order.status)
+          : !query.status || order.status === query.status
+      )
+      .slice(0, query.limit ?? DEFAULT_LIST_LIMIT)
+      .map(order => this.snapshot(order.id));
+  }
+
+  subscribe(listener: OrderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Stops following the broker. */
+  close(): void {
+    this.detach();
+  }
+
+  /**
+   * The order an earlier request made with `input`'s client order id, if
+   * any; throws if that request was for a different order.
+   */
+  private findExisting(input: CreateOrderInput): ManagedOrder | null {
+    if (input.clientOrderId === undefined) return null;
+    const key = clientKey(
+      input.accountId ?? DEFAULT_ACCOUNT_ID,
+      input.clientOrderId
+    );
+    const existing = this.byClientId.get(key);
+    if (!existing) return null;
+    if (this.requests.get(key) !== fingerprint(input)) {
+      throw new OmsError(
+        'DUPLICATE_CLIENT_ORDER_ID',
+        `clientOrderId ${input.clientOrderId} was already used for a different order`
+      );
+    }
+    return this.snapshot(existing);
+  }
+
+  /** Records a `new` order, with its bracket exits, ready to check. */
+  private stage(input: CreateOrderInput): StagedOrder {
+    const accountId = input.accountId ?? DEFAULT_ACCOUNT_ID;
+    const request: BrokerOrderRequest = {
+      symbol: input.symbol,
+      side: input.side,
+      quantity: input.quantity,
+      type: input.type ?? 'market',
+      limitPrice: input.limitPrice,
+      stopPrice: input.stopPrice,
+      trailAmount: input.trailAmount,
+      trailPercent: input.trailPercent,
+      timeInForce: input.timeInForce ?? 'day',
+    };
+    const entry = this.newOrder(accountId, request, {
+      clientOrderId: input.clientOrderId,
+      lotIds: input.lotIds,
+    });
+    const bracket =
+      input.takeProfit !== undefined || input.stopLoss !== undefined;
+    const exits = bracket ? this.newExits(entry, input) : [];
+    const key =
+      input.clientOrderId === undefined
+        ? undefined
+        : clientKey(accountId, input.clientOrderId);
+    if (key) {
+      this.byClientId.set(key, entry.id);
+      this.requests.set(key, fingerprint(input));
+    }
+    return { input, request, entry, orders: [entry, ...exits], key };
+  }
+
+  /**
+   * Hands staged orders to `record` together; if it fails they are
+   * discarded, unsent, and the error is passed on.
+   */
+  private async persist(staged: StagedOrder[]): Promise<void> {
+    if (!this.record || staged.length === 0) return;
+    try {
+      await this.record(
+        staged.reduce<ManagedOrder[]>(
+          (orders, leg) =>
+            orders.concat(leg.orders.map(order => this.snapshot(order.id))),
+          []
+        )
+      );
+    } catch (error) {
+      staged.forEach(leg => this.discard(leg));
+      throw error;
+    }
+  }
+
+  /** Forgets a staged order that was never sent, as if never made. */
+  private discard(staged: StagedOrder): void {
+    staged.orders.forEach(order => this.orders.delete(order.id));
+    if (staged.key) {
+      this.byClientId.delete(staged.key);
+      this.requests.delete(staged.key);
+    }
+  }
+
+  private reject(staged: StagedOrder, reasons: RejectReason[]): void {
+    const now = this.clock();
+    staged.orders.forEach(order => this.apply(order, 'rejected', now, reasons));
+  }
+
+  /** Sends a staged order to the broker; failures leave it `rejected`. */
+  private async send(staged: StagedOrder): Promise<void> {
+    const { input, request, orders } = staged;
+    const now = this.clock();
+    orders.forEach(order => this.apply(order, 'pending', now));
+    try {
+      await this.withBroker(
+        () =>
+          orders.length > 1
+            ? this.broker.submitBracket({
+                ...request,
+                takeProfit: input.takeProfit!,
+                stopLoss: input.stopLoss!,
+              })
+            : this.broker.submit(request).then(order => [order]),
+        placed => placed.forEach((order, i) => this.link(orders[i], order))
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const reasons = [{ code: 'BROKER_ERROR', message }];
+      orders
+        .filter(order => !order.brokerOrderId)
+        .forEach(order => this.apply(order, 'rejected', this.clock(), reasons));
+    }
+  }
+
+  private newOrder(
+    accountId: string,
+    request: BrokerOrderRequest,
+    extra: Pick<
+      ManagedOrder,
+      'clientOrderId' | 'parentId' | 'leg' | 'replaces' | 'lotIds'
+    > = {}
+  ): ManagedOrder {
+    const now = this.clock();
+    const order: ManagedOrder = {
+      id: randomUUID(),
+      accountId,
+      symbol: request.symbol,
+      side: request.side,
+      type: request.type ?? 'market',
+      quantity: request.quantity,
+      timeInForce: request.timeInForce ?? 'day',
+      status: 'new',
+      filledQuantity: 0,
+      averageFillPrice: null,
+      createdAt: now,
+      updatedAt: now,
+      fills: [],
+      history: [{ from: null, to: 'new', at: now }],
+    };
+    copyPrices(order, request);
+    (Object.keys(extra) as (keyof typeof extra)[]).forEach(field => {
+      if (extra[field] !== undefined)
+        Object.assign(order, { [field]: extra[field] });
+    });
+    this.orders.set(order.id, order);
+    return order;
+  }
+
+  private newExits(entry: ManagedOrder, input: CreateOrderInput) {
+    const side = entry.side === 'buy' ? 'sell' : 'buy';
+    const base = {
+      symbol: entry.symbol,
+      side,
+      quantity: entry.quantity,
+      timeInForce: entry.timeInForce,
+    } as const;
+    const stopLimit = input.stopLoss?.limitPrice;
+    return [
+      this.newOrder(
+        entry.accountId,
+        { ...base, type: 'limit', limitPrice: input.takeProfit?.limitPrice },
+        { parentId: entry.id, leg: 'take-profit' }
+      ),
+      this.newOrder(
+        entry.accountId,
+        {
+          ...base,
+          type: stopLimit === undefined ? 'stop' : 'stop-limit',
+          stopPrice: input.stopLoss?.stopPrice,
+          limitPrice: stopLimit,
+        },
+        { parentId: entry.id, leg: 'stop-loss' }
+      ),
+    ];
+  }
+
+  private async runChecks(
+    order: ManagedOrder,
+    replaces?: ManagedOrder
+  ): Promise<RejectReason[]> {
+    const openOrders = Array.from(this.orders.values())
+      .filter(
+        other =>
+          other.accountId === order.accountId &&
+          other.id !== order.id &&
+          other.id !== replaces?.id &&
+          isOpenStatus(other.status)
+      )
+      .map(other => this.snapshot(other.id));
+    const reasons: RejectReason[] = [];
+    for (const check of this.preTrade) {
+      reasons.push(...(await check({ order, openOrders, replaces })));
+    }
+    return reasons;
+  }
+
+  private openOrder(id: string, action: string): ManagedOrder {
+    const order = this.orders.get(id);
+    if (!order) throw new OmsError('NOT_FOUND', `Unknown order ${id}`);
+    if (!isOpenStatus(order.status) || !order.brokerOrderId) {
+      throw new OmsError(
+        'INVALID_TRANSITION',
+        `Order ${id} is ${order.status} and cannot be ${action}`
+      );
+    }
+    return order;
+  }
+
+  /** Runs a broker call with its events held back until `link` has run. */
+  private async withBroker<T>(
+    call: () => Promise<T>,
+    link: (result: T) => void
+  ): Promise<T> {
+    this.inFlight++;
+    try {
+      const result = await call();
+      link(result);
+      return result;
+    } finally {
+      if (--this.inFlight === 0) {
+        const events = this.deferred;
+        this.deferred = [];
+        events.forEach(event => this.handle(event));
+      }
+    }
+  }
+
+  /** Translates broker errors about the caller's request into OMS errors. */
+  private async callBroker(call: () => Promise<unknown>): Promise<void> {
+    try {
+      await call();
+    } catch (error) {
+      if (!(error instanceof BrokerError)) throw error;
+      throw new OmsError(
+        error.code === 'INVALID_CHANGE'
+          ? 'INVALID_ORDER'
+          : 'INVALID_TRANSITION',
+        error.message
+      );
+    }
+  }
+
+  private link(order: ManagedOrder, placed: BrokerOrder): void {
+    order.brokerOrderId = placed.id;
+    this.byBrokerId.set(placed.id, order.id);
+    syncFromBroker(order, placed);
+  }
+
+  private handle(event: BrokerEvent): void {
+    const id = this.byBrokerId.get(event.order.id);
+    // Orders placed on the broker directly are not ours to track.
+    if (!id) return;
+    const order = this.orders.get(id)!;
+    syncFromBroker(order, event.order);
+
+    const now = this.clock();
+    const status = STATUS_FROM_BROKER[event.order.status];
+    if (status !== order.status) {
+      if (!canTransition(order.status, status)) {
+        console.error(
+          `Ignoring broker update of order ${id}: ${order.status} -> ${status}`
+        );
+        return;
+      }
+      const reasons =
+        status === 'rejected'
+          ? [
+              {
+                code: 'BROKER_REJECTED',
+                message: event.order.rejectReason ?? 'Rejected by the broker',
+              },
+            ]
+          : undefined;
+      this.apply(order, status, now, reasons);
+    }
+    if (event.fill) {
+      order.fills.push({ ...event.fill });
+      order.updatedAt = now;
+      this.emit({
+        type: 'fill',
+        order: this.snapshot(id),
+        fill: { ...event.fill },
+      });
+    }
+  }
+
+  private apply(
+    order: ManagedOrder,
+    to: OrderStatus,
+    at: number,
+    reasons?: RejectReason[]
+  ): void {
+    const reason = reasons?.map(r => r.message).join('; ');
+    const record = transition(order, to, at, reason);
+    if (to === 'rejected' && reasons) {
+      order.rejectReason = reason;
+      order.rejectReasons = reasons.map(r => ({ ...r }));
+    }
+    this.emit({
+      type: 'status',
+      order: this.snapshot(order.id),
+      transition: { ...record },
+    });
+  }
+
+  private emit(event: OrderEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Order listener failed', error);
+      }
+    });
+  }
+
+  private snapshot(id: string): ManagedOrder {
+    const order = this.orders.get(id)!;
+    const copy = {
+      ...order,
+      fills: order.fills.map(fill => ({ ...fill })),
+      history: order.history.map(record => ({ ...record })),
+    };
+    if (order.rejectReasons) {
+      copy.rejectReasons = order.rejectReasons.map(reason => ({ ...reason }));
+    }
+    if (order.lotIds) copy.lotIds = order.lotIds.slice();
+    return copy;
+  }
+}
+
+function clientKey(accountId: string, clientOrderId: string): string {
+  return `${accountId}\u0000${clientOrderId}`;
+}
+
+/** A key-order-independent rendering of a request, to tell retries from reuse. */
+function fingerprint(input: CreateOrderInput): string {
+  return JSON.stringify(input, (_key, value: unknown) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return value;
+    }
+    const sorted: Record<string, unknown> = {};
+    Object.keys(value)
+      .sort()
+      .forEach(key => {
+        sorted[key] = (value as Record<string, unknown>)[key];
+      });
+    return sorted;
+  });
+}
+
+function copyPrices(order: ManagedOrder, source: BrokerOrderRequest): void {
+  const fields = [
+    'limitPrice',
+    'stopPrice',
+    'trailAmount',
+    'trailPercent',
+  ] as const;
+  fields.forEach(field => {
+    if (source[field] === undefined) delete order[field];
+    else order[field] = source[field];
+  });
+}
+
+/** Takes over what the broker may change: size, prices, fills. */
+function syncFromBroker(order: ManagedOrder, placed: BrokerOrder): void {
+  order.type = placed.type;
+  order.quantity = placed.quantity;
+  order.timeInForce = placed.timeInForce;
+  order.filledQuantity = placed.filledQuantity;
+  order.averageFillPrice = placed.averageFillPrice;
+  copyPrices(order, placed);
+}
+
+function definedOnly<T extends object>(changes: T): Partial<T> {
+  const result: Partial<T> = {};
+  (Object.keys(changes) as (keyof T)[]).forEach(key => {
+    if (changes[key] !== undefined) result[key] = changes[key];
+  });
+  return result;
+}
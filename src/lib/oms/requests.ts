@@ -0,0 +1,141 @@
+import { validateRequest } from '../broker/paper-broker';
+import { BROKER_ORDER_TYPES, TIME_IN_FORCE } from '../broker/types';
+import { Validator } from '../validation';
+import {
+  BATCH_MODES,
+  type AmendOrderInput,
+  type BatchLeg,
+  type BatchMode,
+  type CreateOrderInput,
+} from './types';
+
+const PRICE = { min: Number.MIN_VALUE };
+
+/** Legs per batch; each runs the pre-trade checks in turn. */
+export const MAX_BATCH_LEGS = 50;
+
+export interface OrderBatch {
+  mode: BatchMode;
+  legs: BatchLeg[];
+}
+
+/**
+ * Validates an order as sent to `POST /api/v1/orders`. Checks shape and
+ * the fields each order type needs; whether the order can trade is left
+ * to the broker, which rejects it otherwise.
+ */
+export function parseCreateOrder(
+  input: unknown
+): { order: CreateOrderInput; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const symbol = fields.string('symbol', true);
+  const side = fields.oneOf('side', ['buy', 'sell'] as const, true);
+  const quantity = fields.number('quantity', true, PRICE);
+  const order: CreateOrderInput = {
+    clientOrderId: fields.string('clientOrderId'),
+    symbol: symbol?.trim().toUpperCase(),
+    side,
+    quantity,
+    type: fields.oneOf('type', BROKER_ORDER_TYPES) ?? 'market',
+    limitPrice: fields.number('limitPrice', false, PRICE),
+    stopPrice: fields.number('stopPrice', false, PRICE),
+    trailAmount: fields.number('trailAmount', false, PRICE),
+    trailPercent: fields.number('trailPercent', false, PRICE),
+    timeInForce: fields.oneOf('timeInForce', TIME_IN_FORCE) ?? 'day',
+    lotIds: fields.stringArray('lotIds'),
+  };
+
+  const takeProfit = fields.object('takeProfit');
+  const stopLoss = fields.object('stopLoss');
+  if (takeProfit) {
+    order.takeProfit = {
+      limitPrice: takeProfit.number('limitPrice', true, PRICE),
+    };
+  }
+  if (stopLoss) {
+    order.stopLoss = {
+      stopPrice: stopLoss.number('stopPrice', true, PRICE),
+      limitPrice: stopLoss.number('limitPrice', false, PRICE),
+    };
+  }
+  if (fields.has('takeProfit') !== fields.has('stopLoss')) {
+    fields.fail('takeProfit', 'and stopLoss must be given together');
+  }
+
+  if (fields.valid) {
+    const problem = validateRequest(order);
+    if (problem) fields.problems.push(problem);
+  }
+  if (!fields.valid) return { problems: fields.problems };
+  return { problems: [], order: withoutUndefined(order) };
+}
+
+/**
+ * Validates a batch sent to `POST /api/v1/batch-operations`: `orders`, each
+ * as for `POST /api/v1/orders`, and a `mode` (default `atomic`). Problems
+ * with a leg are kept on that leg, so the batch can report every one;
+ * only problems with the batch itself fail the parse.
+ */
+export function parseOrderBatch(
+  input: unknown
+): { batch: OrderBatch; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const mode = fields.oneOf('mode', BATCH_MODES) ?? 'atomic';
+  const orders = fields.raw('orders');
+  if (!Array.isArray(orders) || orders.length === 0) {
+    fields.fail('orders', 'must be a non-empty array');
+  } else if (orders.length > MAX_BATCH_LEGS) {
+    fields.fail('orders', `must have at most ${MAX_BATCH_LEGS} items`);
+  }
+  if (!fields.valid) return { problems: fields.problems };
+
+  const used = new Map<string, number>();
+  const legs = (orders as unknown[]).map((order, index): BatchLeg => {
+    const parsed = parseCreateOrder(order);
+    if (!('order' in parsed)) return { problems: parsed.problems };
+    const { clientOrderId } = parsed.order;
+    if (clientOrderId === undefined) return { order: parsed.order };
+    const first = used.get(clientOrderId);
+    if (first !== undefined) {
+      return {
+        problems: [
+          `clientOrderId ${clientOrderId} is already used by order ${first}`,
+        ],
+      };
+    }
+    used.set(clientOrderId, index);
+    return { order: parsed.order };
+  });
+  return { problems: [], batch: { mode, legs } };
+}
+
+/** Validates the changes sent to `PATCH /api/v1/orders/:id`. */
+export function parseAmendOrder(
+  input: unknown
+): { changes: AmendOrderInput; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const changes: AmendOrderInput = withoutUndefined({
+    quantity: fields.number('quantity', false, PRICE),
+    limitPrice: fields.number('limitPrice', false, PRICE),
+    stopPrice: fields.number('stopPrice', false, PRICE),
+    trailAmount: fields.number('trailAmount', false, PRICE),
+    trailPercent: fields.number('trailPercent', false, PRICE),
+    timeInForce: fields.oneOf('timeInForce', TIME_IN_FORCE),
+  });
+  if (fields.valid && Object.keys(changes).length === 0) {
+    fields.fail(
+      'body',
+      'must change at least one of quantity, limitPrice, stopPrice, trailAmount, trailPercent, timeInForce'
+    );
+  }
+  if (!fields.valid) return { problems: fields.problems };
+  return { problems: [], changes };
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  const result = { ...value };
+  (Object.keys(result) as (keyof T)[]).forEach(key => {
+    if (result[key] === undefined) delete result[key];
+  });
+  return result;
+}
@@ -0,0 +1,67 @@
+import { OmsError, type ManagedOrder, type OrderStatus } from './types';
+
+/** Every status an order may move to from each status. */
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  new: ['pending', 'rejected'],
+  // A replacement can arrive already partially filled, and held bracket
+  // exits can be replaced before they go live.
+  pending: [
+    'accepted',
+    'partially_filled',
+    'filled',
+    'cancelled',
+    'rejected',
+    'expired',
+    'replaced',
+  ],
+  accepted: [
+    'partially_filled',
+    'filled',
+    'cancelled',
+    'rejected',
+    'expired',
+    'replaced',
+  ],
+  partially_filled: ['filled', 'cancelled', 'expired', 'replaced'],
+  filled: [],
+  cancelled: [],
+  rejected: [],
+  expired: [],
+  replaced: [],
+};
+
+export const OPEN_ORDER_STATUSES: readonly OrderStatus[] = [
+  'new',
+  'pending',
+  'accepted',
+  'partially_filled',
+];
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function isOpenStatus(status: OrderStatus): boolean {
+  return OPEN_ORDER_STATUSES.includes(status);
+}
+
+/** Moves `order` to `to`, recording the transition, or throws. */
+export function transition(
+  order: ManagedOrder,
+  to: OrderStatus,
+  at: number,
+  reason?: string
+) {
+  if (!canTransition(order.status, to)) {
+    throw new OmsError(
+      'INVALID_TRANSITION',
+      `Order ${order.id} cannot go from ${order.status} to ${to}`
+    );
+  }
+  const record = { from: order.status, to, at, reason };
+  if (reason === undefined) delete record.reason;
+  order.status = to;
+  order.updatedAt = at;
+  order.history.push(record);
+  return record;
+}
@@ -0,0 +1,195 @@
+import type { BrokerOrderType, Execution, TimeInForce } from '../broker/types';
+import type { OrderSide } from '../strategy/types';
+
+/**
+ * Lifecycle of an order in the OMS. `new` orders have not left the OMS,
+ * `pending` ones are with the broker (or held there, for bracket exits)
+ * and not yet working.
+ */
+export type OrderStatus =
+  | 'new'
+  | 'pending'
+  | 'accepted'
+  | 'partially_filled'
+  | 'filled'
+  | 'cancelled'
+  | 'rejected'
+  | 'expired'
+  | 'replaced';
+
+export const ORDER_STATUSES: readonly OrderStatus[] = [
+  'new',
+  'pending',
+  'accepted',
+  'partially_filled',
+  'filled',
+  'cancelled',
+  'rejected',
+  'expired',
+  'replaced',
+];
+
+export interface OrderTransition {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: number;
+  reason?: string;
+}
+
+export interface CreateOrderInput {
+  accountId?: string;
+  /** Makes creation idempotent: resubmitting the same id returns the order. */
+  clientOrderId?: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  type?: BrokerOrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  timeInForce?: TimeInForce;
+  /** Together with `stopLoss`, turns the order into a bracket entry. */
+  takeProfit?: { limitPrice: number };
+  stopLoss?: { stopPrice: number; limitPrice?: number };
+  /** Portfolio lots the order closes first, under the `specific` method. */
+  lotIds?: string[];
+}
+
+export interface AmendOrderInput {
+  quantity?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  timeInForce?: TimeInForce;
+}
+
+export interface ManagedOrder {
+  id: string;
+  accountId: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: OrderSide;
+  type: BrokerOrderType;
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  timeInForce: TimeInForce;
+  status: OrderStatus;
+  filledQuantity: number;
+  averageFillPrice: number | null;
+  createdAt: number;
+  updatedAt: number;
+  brokerOrderId?: string;
+  /** Bracket entry this exit belongs to, and which exit it is. */
+  parentId?: string;
+  leg?: 'take-profit' | 'stop-loss';
+  replaces?: string;
+  replacedBy?: string;
+  rejectReason?: string;
+  /** Why the order was rejected, in machine-readable form. */
+  rejectReasons?: RejectReason[];
+  lotIds?: string[];
+  fills: Execution[];
+  history: OrderTransition[];
+}
+
+export interface RejectReason {
+  /** E.g. `MAX_ORDER_NOTIONAL` from a risk check, or `BROKER_REJECTED`. */
+  code: string;
+  message: string;
+}
+
+export interface PreTradeRequest {
+  /** The order as it would go to the broker, still `new`. */
+  order: ManagedOrder;
+  /** The account's other open orders. */
+  openOrders: ManagedOrder[];
+  /** For an amendment, the order being replaced. */
+  replaces?: ManagedOrder;
+}
+
+/**
+ * Runs before an order (or an amendment) reaches the broker. Resolves to
+ * the reasons to reject it; none means it may go.
+ */
+export type PreTradeCheck = (
+  request: PreTradeRequest
+) => Promise<RejectReason[]>;
+
+export interface OrderQuery {
+  accountId?: string;
+  symbol?: string;
+  status?: OrderStatus | 'open';
+  /** Most recent first; defaults to 100. */
+  limit?: number;
+}
+
+export type OrderEvent =
+  | { type: 'status'; order: ManagedOrder; transition: OrderTransition }
+  | { type: 'fill'; order: ManagedOrder; fill: Execution };
+
+export type OrderListener = (event: OrderEvent) => void;
+
+/**
+ * How a batch treats legs that fail: `atomic` places every leg or none,
+ * `best-effort` places those that pass and reports the rest.
+ */
+export type BatchMode = 'atomic' | 'best-effort';
+
+export const BATCH_MODES: readonly BatchMode[] = ['atomic', 'best-effort'];
+
+/**
+ * What became of a leg: `placed` with the broker, `existing` for a client
+ * order id placed before, `invalid` or `rejected` when it failed itself,
+ * `not-placed` when it was withdrawn because another leg failed, and
+ * `cancelled` when it had reached the broker before that.
+ */
+export type BatchLegStatus =
+  'placed' | 'existing' | 'invalid' | 'rejected' | 'not-placed' | 'cancelled';
+
+/** A leg of a batch as parsed: the order, or what is wrong with it. */
+export type BatchLeg = { order: CreateOrderInput } | { problems: string[] };
+
+export interface BatchLegResult {
+  /** Position of the leg in the request. */
+  index: number;
+  status: BatchLegStatus;
+  order?: ManagedOrder;
+  /** For `invalid` legs: what is wrong with the request. */
+  problems?: string[];
+  /** For `rejected` legs: why the checks or the broker turned it down. */
+  reasons?: RejectReason[];
+}
+
+export interface BatchResult {
+  mode: BatchMode;
+  /** `false` when an atomic batch was rolled back. */
+  committed: boolean;
+  /** Legs placed or already placed. */
+  placed: number;
+  failed: number;
+  legs: BatchLegResult[];
+}
+
+export type OmsErrorCode =
+  | 'NOT_FOUND'
+  | 'INVALID_TRANSITION'
+  | 'INVALID_ORDER'
+  | 'DUPLICATE_CLIENT_ORDER_ID'
+  | 'REJECTED';
+
+export class OmsError extends Error {
+  constructor(
+    readonly code: OmsErrorCode,
+    message: string,
+    /** For `REJECTED`: why a pre-trade check turned the request down. */
+    readonly reasons: RejectReason[] = []
+  ) {
+    super(message);
+    this.name = 'OmsError';
+  }
+}
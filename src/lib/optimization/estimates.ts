@@ -0,0 +1,78 @@
+import { inferPeriodsPerYear } from '../analytics/performance';
+import type { Bar } from '../marketdata/types';
+import { OptimizationError, type ReturnEstimates } from './types';
+
+/** Fewer returns than this make covariances mostly noise. */
+export const MIN_OBSERVATIONS = 30;
+
+export interface EstimateOptions {
+  /**
+   * Pulls the covariance towards its diagonal, 0 (none) to 1 (assets
+   * treated as uncorrelated), which steadies weights on short histories.
+   */
+  shrinkage?: number;
+}
+
+/**
+ * Annualized mean returns and covariances from each symbol's bars, over
+ * the timestamps every symbol has a bar for.
+ */
+export function estimateReturns(
+  series: { symbol: string; bars: Bar[] }[],
+  options: EstimateOptions = {}
+): ReturnEstimates {
+  const shrinkage = options.shrinkage ?? 0;
+  const closes = series.map(({ bars }) => {
+    const byTime = new Map<number, number>();
+    bars.forEach(bar => byTime.set(bar.timestamp, bar.close));
+    return byTime;
+  });
+  const timestamps = series.length
+    ? Array.from(closes[0].keys())
+        .filter(timestamp => closes.every(byTime => byTime.has(timestamp)))
+        .sort((a, b) => a - b)
+    : [];
+  const observations = timestamps.length - 1;
+  if (observations < MIN_OBSERVATIONS) {
+    throw new OptimizationError(
+      'INSUFFICIENT_DATA',
+      `Need at least ${MIN_OBSERVATIONS + 1} bars common to every symbol, got ${timestamps.length}`
+    );
+  }
+
+  const periodsPerYear = inferPeriodsPerYear(
+    timestamps.map(timestamp => ({ timestamp }))
+  );
+  const returns = closes.map(byTime =>
+    timestamps
+      .slice(1)
+      .map(
+        (timestamp, i) =>
+          byTime.get(timestamp)! / byTime.get(timestamps[i])! - 1
+      )
+  );
+  const means = returns.map(
+    values => values.reduce((sum, value) => sum + value, 0) / observations
+  );
+  const covariance = returns.map((a, i) =>
+    returns.map((b, j) => {
+      const sample =
+        a.reduce(
+          (sum, value, k) => sum + (value - means[i]) * (b[k] - means[j]),
+          0
+        ) /
+        (observations - 1);
+      return (i === j ? sample : (1 - shrinkage) * sample) * periodsPerYear;
+    })
+  );
+
+  return {
+    symbols: series.map(({ symbol }) => symbol),
+    expectedReturns: means.map(value => value * periodsPerYear),
+    covariance,
+    observations,
+    periodsPerYear,
+    start: timestamps[1],
+    end: timestamps[timestamps.length - 1],
+  };
+}
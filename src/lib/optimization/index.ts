@@ -0,0 +1,123 @@
+import { getMarketDataProvider } from '../marketdata';
+import { loadBars } from '../marketdata/bars';
+import type { MarketDataProvider } from '../marketdata/provider';
+import { getPortfolio, markToMarket, type PortfolioLedger } from '../portfolio';
+import { estimateReturns } from './estimates';
+import { optimize } from './optimizer';
+import { proposeRebalance } from './rebalance';
+import type { OptimizeRequest, RebalanceRequest } from './requests';
+import type {
+  OptimizationResult,
+  RebalanceProposal,
+  ReturnEstimates,
+} from './types';
+
+export * from './types';
+export * from './requests';
+export { MIN_OBSERVATIONS, estimateReturns } from './estimates';
+export { feasibleSet, project, type FeasibleSet } from './projection';
+export { describeAllocation, optimize } from './optimizer';
+export { DEFAULT_DRIFT_THRESHOLD, proposeRebalance } from './rebalance';
+
+export interface AssetEstimate {
+  symbol: string;
+  sector: string;
+  expectedReturn: number;
+  volatility: number;
+}
+
+export interface OptimizationReport extends OptimizationResult {
+  timeframe: OptimizeRequest['timeframe'];
+  observations: number;
+  start: number;
+  end: number;
+  assets: AssetEstimate[];
+}
+
+export interface ExecuteOptimizationOptions {
+  provider?: MarketDataProvider;
+}
+
+function assets(
+  estimates: ReturnEstimates,
+  sectors: Record<string, string>
+): AssetEstimate[] {
+  return estimates.symbols.map((symbol, i) => ({
+    symbol,
+    sector: sectors[symbol] ?? '',
+    expectedReturn: estimates.expectedReturns[i],
+    volatility: Math.sqrt(estimates.covariance[i][i]),
+  }));
+}
+
+/**
+ * Estimates returns from each symbol's latest `request.lookback` bars and
+ * optimizes over them, with sector caps applied to the sectors the
+ * provider reports.
+ */
+export async function executeOptimization(
+  request: OptimizeRequest,
+  options: ExecuteOptimizationOptions = {}
+): Promise<OptimizationReport> {
+  const provider = options.provider ?? getMarketDataProvider();
+  const [series, infos] = await Promise.all([
+    Promise.all(
+      request.symbols.map(async symbol => {
+        const { bars } = await loadBars(provider, symbol, {
+          timeframe: request.timeframe,
+          limit: request.lookback + 1,
+        });
+        return { symbol, bars };
+      })
+    ),
+    Promise.all(request.symbols.map(symbol => provider.getSymbol(symbol))),
+  ]);
+  const sectors: Record<string, string> = {};
+  infos.forEach(info => {
+    if (info) sectors[info.symbol] = info.sector;
+  });
+
+  const estimates = estimateReturns(series, { shrinkage: request.shrinkage });
+  return {
+    ...optimize(estimates, { ...request.options, sectors }),
+    timeframe: request.timeframe,
+    observations: estimates.observations,
+    start: estimates.start,
+    end: estimates.end,
+    assets: assets(estimates, sectors),
+  };
+}
+
+export interface PreviewRebalanceOptions {
+  provider?: MarketDataProvider;
+  portfolio?: PortfolioLedger;
+}
+
+/**
+ * The orders that would bring the portfolio to `request.targets`, priced
+ * at the latest quotes. Nothing is submitted.
+ */
+export async function previewRebalance(
+  request: RebalanceRequest,
+  options: PreviewRebalanceOptions = {}
+): Promise<RebalanceProposal> {
+  const provider = options.provider ?? getMarketDataProvider();
+  const portfolio = options.portfolio ?? getPortfolio();
+  await markToMarket(portfolio, provider);
+  const held = new Set(portfolio.symbols());
+  const quotes = await Promise.all(
+    Object.keys(request.targets)
+      .filter(symbol => !held.has(symbol))
+      .map(symbol => provider.getQuote(symbol))
+  );
+  const prices: Record<string, number> = {};
+  quotes.forEach(quote => {
+    if (quote && quote.last > 0) prices[quote.symbol] = quote.last;
+  });
+  return proposeRebalance(
+    portfolio.snapshot(),
+    request.targets,
+    prices,
+    request.options
+  );
+}
@@ -0,0 +1,314 @@
+import { feasibleSet, project, type FeasibleSet } from './projection';
+import type {
+  Allocation,
+  OptimizationResult,
+  OptimizeOptions,
+  ReturnEstimates,
+} from './types';
+
+type Vector = number[];
+type Matrix = number[][];
+
+interface Problem {
+  value(w: Vector): number;
+  gradient(w: Vector): Vector;
+}
+
+const MAX_ITERATIONS = 5_000;
+const TOLERANCE = 1e-10;
+/** Risk aversions swept for max-Sharpe and the frontier, as powers of 10. */
+const MIN_AVERSION = -2;
+const MAX_AVERSION = 4;
+
+const dot = (a: Vector, b: Vector) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+const multiply = (m: Matrix, v: Vector) => m.map(row => dot(row, v));
+
+/**
+ * Minimizes a smooth function over the feasible set by accelerated
+ * projected gradient descent, backtracking on the step size and dropping
+ * the momentum whenever it overshoots.
+ */
+function minimize(problem: Problem, start: Vector, set: FeasibleSet): Vector {
+  let x = project(start, set);
+  let fx = problem.value(x);
+  let y = x;
+  let momentum = 1;
+  let step = 1;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const fy = problem.value(y);
+    const gradient = problem.gradient(y);
+    let next: Vector;
+    let fNext: number;
+    for (;;) {
+      next = project(
+        y.map((value, i) => value - step * gradient[i]),
+        set
+      );
+      fNext = problem.value(next);
+      const d = next.map((value, i) => value - y[i]);
+      if (
+        step < 1e-12 ||
+        fNext <= fy + dot(gradient, d) + dot(d, d) / (2 * step) + 1e-15
+      ) {
+        break;
+      }
+      step /= 2;
+    }
+    if (fNext > fx && momentum > 1) {
+      y = x;
+      momentum = 1;
+      continue;
+    }
+    const change = Math.max(...next.map((value, i) => Math.abs(value - x[i])));
+    const nextMomentum = (1 + Math.sqrt(1 + 4 * momentum * momentum)) / 2;
+    const previous = x;
+    y = next.map(
+      (value, i) =>
+        value + ((momentum - 1) / nextMomentum) * (value - previous[i])
+    );
+    x = next;
+    fx = fNext;
+    momentum = nextMomentum;
+    if (change < TOLERANCE) break;
+  }
+  return x;
+}
+
+function variance(covariance: Matrix): Problem {
+  return {
+    value: w => dot(w, multiply(covariance, w)),
+    gradient: w => multiply(covariance, w).map(value => 2 * value),
+  };
+}
+
+function meanVariance(
+  returns: Vector,
+  covariance: Matrix,
+  aversion: number
+): Problem {
+  return {
+    value: w =>
+      (aversion / 2) * dot(w, multiply(covariance, w)) - dot(returns, w),
+    gradient: w =>
+      multiply(covariance, w).map((value, i) => aversion * value - returns[i]),
+  };
+}
+
+/** Squared distance of the risk contributions from equal shares. */
+function riskParity(covariance: Matrix): Problem {
+  const parts = (w: Vector) => {
+    const marginal = multiply(covariance, w);
+    const total = dot(w, marginal);
+    const shares = w.map((value, i) => (value * marginal[i]) / total);
+    const errors = shares.map(share => share - 1 / w.length);
+    return { marginal, total, shares, errors };
+  };
+  return {
+    value: w => parts(w).errors.reduce((sum, e) => sum + e * e, 0),
+    gradient: w => {
+      const { marginal, total, shares, errors } = parts(w);
+      const weighted = multiply(
+        covariance,
+        errors.map((e, i) => e * w[i])
+      );
+      const drift = dot(errors, shares);
+      return marginal.map(
+        (m, k) => (2 / total) * (errors[k] * m + weighted[k] - 2 * m * drift)
+      );
+    },
+  };
+}
+
+/**
+ * Equal risk contributions with no caps, by cyclical coordinate descent
+ * on each weight's quadratic `w_i (Σw)_i = 1/n`, then scaled to sum to 1.
+ */
+function equalRiskContributions(covariance: Matrix): Vector {
+  const n = covariance.length;
+  const y = covariance.map((row, i) => 1 / Math.sqrt(Math.max(row[i], 1e-12)));
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      const own = Math.max(covariance[i][i], 1e-12);
+      const others = dot(covariance[i], y) - covariance[i][i] * y[i];
+      const next =
+        (-others + Math.sqrt(others * others + (4 * own) / n)) / (2 * own);
+      change = Math.max(change, Math.abs(next - y[i]) / next);
+      y[i] = next;
+    }
+    if (change < TOLERANCE) break;
+  }
+  const sum = y.reduce((total, value) => total + value, 0);
+  return y.map(value => value / sum);
+}
+
+/** Portfolio statistics for weights `w`, with negligible weights zeroed. */
+export function describeAllocation(
+  estimates: ReturnEstimates,
+  w: Vector,
+  riskFreeRate = 0
+): Allocation {
+  const cleaned = w.map(value => (Math.abs(value) < 1e-9 ? 0 : value));
+  const marginal = multiply(estimates.covariance, cleaned);
+  const portfolioVariance = Math.max(dot(cleaned, marginal), 0);
+  const volatility = Math.sqrt(portfolioVariance);
+  const expectedReturn = dot(estimates.expectedReturns, cleaned);
+  const weights: Record<string, number> = {};
+  const riskContributions: Record<string, number> = {};
+  estimates.symbols.forEach((symbol, i) => {
+    weights[symbol] = cleaned[i];
+    riskContributions[symbol] =
+      portfolioVariance > 0
+        ? (cleaned[i] * marginal[i]) / portfolioVariance
+        : 0;
+  });
+  return {
+    weights,
+    expectedReturn,
+    volatility,
+    sharpe:
+      volatility > 0 ? (expectedReturn - riskFreeRate) / volatility : null,
+    riskContributions,
+  };
+}
+
+/**
+ * Optimal weights for `estimates` under the objective and constraints.
+ * Max-Sharpe searches the efficient frontier, traced by sweeping the risk
+ * aversion of the mean-variance problem, for its best Sharpe ratio. Risk
+ * parity gets risk contributions as close to equal as the caps allow.
+ */
+export function optimize(
+  estimates: ReturnEstimates,
+  options: OptimizeOptions
+): OptimizationResult {
+  const { expectedReturns: mu, covariance, symbols } = estimates;
+  const { objective, riskFreeRate } = options;
+  const set = feasibleSet(symbols, options.constraints, options.sectors);
+  const equal = symbols.map(() => 1 / symbols.length);
+  const efficient = (aversion: number, start: Vector) =>
+    minimize(meanVariance(mu, covariance, aversion), start, set);
+  const describe = (w: Vector) =>
+    describeAllocation(estimates, w, riskFreeRate);
+
+  let weights: Vector;
+  switch (objective) {
+    case 'min-variance':
+      weights = minimize(variance(covariance), equal, set);
+      break;
+    case 'mean-variance':
+      weights = efficient(options.riskAversion, equal);
+      break;
+    case 'max-sharpe':
+      weights = maxSharpe(efficient, describe, equal);
+      break;
+    case 'risk-parity': {
+      const longOnly = feasibleSet(
+        symbols,
+        { ...options.constraints, longOnly: true },
+        options.sectors
+      );
+      const unconstrained = equalRiskContributions(covariance);
+      const feasible = project(unconstrained, longOnly);
+      weights = feasible.every(
+        (value, i) => Math.abs(value - unconstrained[i]) < 1e-9
+      )
+        ? unconstrained
+        : minimize(riskParity(covariance), feasible, longOnly);
+      break;
+    }
+  }
+
+  const frontier =
+    options.frontierPoints > 0
+      ? efficientFrontier(
+          options.frontierPoints,
+          minimize(variance(covariance), equal, set),
+          minimize(
+            { value: w => -dot(mu, w), gradient: () => mu.map(r => -r) },
+            equal,
+            set
+          ),
+          efficient,
+          w => dot(mu, w)
+        ).map(describe)
+      : [];
+
+  return { objective, allocation: describe(weights), frontier };
+}
+
+/**
+ * `points` efficient portfolios with expected returns evenly spaced from
+ * the minimum-variance portfolio's to the highest attainable. Those in
+ * between solve the mean-variance problem at the risk aversion, found by
+ * bisection, that yields their target return.
+ */
+function efficientFrontier(
+  points: number,
+  minVariance: Vector,
+  maxReturn: Vector,
+  efficient: (aversion: number, start: Vector) => Vector,
+  expectedReturn: (w: Vector) => number
+): Vector[] {
+  if (points === 1) return [minVariance];
+  const lowest = expectedReturn(minVariance);
+  const highest = expectedReturn(maxReturn);
+  const frontier = [minVariance];
+  let start = minVariance;
+  for (let k = 1; k < points - 1; k++) {
+    const target = lowest + ((highest - lowest) * k) / (points - 1);
+    let lo = MIN_AVERSION;
+    let hi = MAX_AVERSION;
+    for (let i = 0; i < 25; i++) {
+      const mid = (lo + hi) / 2;
+      start = efficient(10 ** mid, start);
+      if (expectedReturn(start) > target) lo = mid;
+      else hi = mid;
+    }
+    frontier.push(start);
+  }
+  frontier.push(maxReturn);
+  return frontier;
+}
+
+/**
+ * Sweeps risk aversion over a coarse grid for the best Sharpe ratio,
+ * then narrows in on it by golden-section search.
+ */
+function maxSharpe(
+  efficient: (aversion: number, start: Vector) => Vector,
+  describe: (w: Vector) => Allocation,
+  start: Vector
+): Vector {
+  const sharpe = (w: Vector) => describe(w).sharpe ?? -Infinity;
+  const grid: { exponent: number; weights: Vector; sharpe: number }[] = [];
+  let warm = start;
+  for (
+    let exponent = MAX_AVERSION;
+    exponent >= MIN_AVERSION;
+    exponent -= 0.25
+  ) {
+    warm = efficient(10 ** exponent, warm);
+    grid.push({ exponent, weights: warm, sharpe: sharpe(warm) });
+  }
+  const best = grid.reduce((a, b) => (b.sharpe > a.sharpe ? b : a));
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let lo = best.exponent - 0.25;
+  let hi = best.exponent + 0.25;
+  let winner = best;
+  for (let i = 0; i < 30; i++) {
+    const a = hi - ratio * (hi - lo);
+    const b = lo + ratio * (hi - lo);
+    const wa = efficient(10 ** a, winner.weights);
+    const wb = efficient(10 ** b, winner.weights);
+    const [sa, sb] = [sharpe(wa), sharpe(wb)];
+    if (sa > winner.sharpe) winner = { exponent: a, weights: wa, sharpe: sa };
+    if (sb > winner.sharpe) winner = { exponent: b, weights: wb, sharpe: sb };
+    if (sa >= sb) hi = b;
+    else lo = a;
+  }
+  return winner.weights;
+}
@@ -0,0 +1,106 @@
+import { OptimizationError, type Constraints } from './types';
+
+/**
+ * The weights the constraints allow: each within its bounds, each group's
+ * sum within its cap, all summing to 1.
+ */
+export interface FeasibleSet {
+  lower: number[];
+  upper: number[];
+  /** Disjoint groups of asset indices, e.g. sectors. */
+  groups: { members: number[]; cap: number }[];
+}
+
+const BISECTIONS = 100;
+
+const clip = (value: number, lower: number, upper: number) =>
+  Math.min(upper, Math.max(lower, value));
+
+/**
+ * Bounds and sector groups for `symbols` under `constraints`; throws
+ * `INFEASIBLE` when the caps leave no way to invest all of equity.
+ */
+export function feasibleSet(
+  symbols: string[],
+  constraints: Constraints,
+  sectors: Record<string, string>
+): FeasibleSet {
+  const upper = symbols.map(symbol =>
+    Math.min(constraints.maxWeight, constraints.assetCaps[symbol] ?? Infinity)
+  );
+  const lower = upper.map(cap => (constraints.longOnly ? 0 : -cap));
+  const groups = Object.keys(constraints.sectorCaps)
+    .map(sector => ({
+      members: symbols
+        .map((symbol, i) =>
+          sectors[symbol]?.toLowerCase() === sector ? i : -1
+        )
+        .filter(i => i >= 0),
+      cap: constraints.sectorCaps[sector],
+    }))
+    .filter(group => group.members.length > 0);
+
+  const grouped = new Set<number>();
+  groups.forEach(group => group.members.forEach(i => grouped.add(i)));
+  const room =
+    groups.reduce(
+      (sum, group) =>
+        sum +
+        Math.min(
+          group.cap,
+          group.members.reduce((total, i) => total + upper[i], 0)
+        ),
+      0
+    ) + upper.reduce((sum, cap, i) => (grouped.has(i) ? sum : sum + cap), 0);
+  if (room < 1 - 1e-9) {
+    throw new OptimizationError(
+      'INFEASIBLE',
+      `The caps allow at most ${(room * 100).toFixed(1)}% of equity to be invested`
+    );
+  }
+  return { lower, upper, groups };
+}
+
+/** Finds the root of a nonincreasing function between `low` and `high`. */
+function bisect(f: (x: number) => number, low: number, high: number): number {
+  let lo = low;
+  let hi = high;
+  for (let i = 0; i < BISECTIONS && hi - lo > 1e-15 * (1 + Math.abs(lo)); i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) > 0) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * The feasible weights closest to `v`. Each weight is `v` less a common
+ * shift, less a further shift for groups held to their cap, clipped to its
+ * bounds; both shifts are found by bisection.
+ */
+export function project(v: number[], set: FeasibleSet): number[] {
+  const { lower, upper, groups } = set;
+  const place = (shift: number) => {
+    const w = v.map((value, i) => clip(value - shift, lower[i], upper[i]));
+    groups.forEach(({ members, cap }) => {
+      const sum = (extra: number) =>
+        members.reduce(
+          (total, i) => total + clip(v[i] - shift - extra, lower[i], upper[i]),
+          0
+        );
+      if (sum(0) <= cap) return;
+      const highest = Math.max(...members.map(i => v[i] - shift - lower[i]));
+      const extra = bisect(x => sum(x) - cap, 0, Math.max(highest, 0));
+      members.forEach(i => {
+        w[i] = clip(v[i] - shift - extra, lower[i], upper[i]);
+      });
+    });
+    return w;
+  };
+  const total = (shift: number) =>
+    place(shift).reduce((sum, value) => sum + value, 0) - 1;
+
+  const low = Math.min(...v.map((value, i) => value - upper[i])) - 1;
+  const high = Math.max(...v.map((value, i) => value - lower[i])) + 1;
+  return place(bisect(total, low, high));
+}
@@ -0,0 +1,114 @@
+import type { PortfolioSnapshot } from '../portfolio/types';
+import {
+  OptimizationError,
+  type RebalanceLine,
+  type RebalanceOptions,
+  type RebalanceProposal,
+} from './types';
+
+export const DEFAULT_DRIFT_THRESHOLD = 0.02;
+
+/**
+ * The orders that move `portfolio` to the `targets` weights of its
+ * equity, leaving any weight they do not assign in cash. Positions held
+ * but not targeted are sold down to zero.
+ *
+ * Symbols within `driftThreshold` of target are left alone. Quantities
+ * round to whole lots, so weights land near rather than on target; if the
+ * rounded buys would overdraw cash, the largest are trimmed a lot at a
+ * time. `prices` covers symbols the portfolio does not hold.
+ */
+export function proposeRebalance(
+  portfolio: PortfolioSnapshot,
+  targets: Record<string, number>,
+  prices: Record<string, number>,
+  options: RebalanceOptions
+): RebalanceProposal {
+  const { equity, cash } = portfolio;
+  const held = new Map(
+    portfolio.positions.map(position => [position.symbol, position])
+  );
+  const symbols = Array.from(
+    new Set(
+      portfolio.positions
+        .filter(position => position.quantity !== 0)
+        .map(position => position.symbol)
+        .concat(Object.keys(targets))
+    )
+  ).sort();
+
+  const lines: RebalanceLine[] = symbols.map(symbol => {
+    const position = held.get(symbol);
+    const price = prices[symbol] ?? position?.marketPrice ?? 0;
+    if (!(price > 0)) {
+      throw new OptimizationError('NO_PRICE', `No price for ${symbol}`);
+    }
+    const lotSize = options.lotSizes[symbol] ?? options.lotSize;
+    const currentQuantity = position?.quantity ?? 0;
+    const currentWeight = equity > 0 ? (currentQuantity * price) / equity : 0;
+    const targetWeight = targets[symbol] ?? 0;
+    const drift = targetWeight - currentWeight;
+    const line: RebalanceLine = {
+      symbol,
+      price,
+      lotSize,
+      currentQuantity,
+      currentWeight,
+      targetWeight,
+      drift,
+      targetQuantity: currentQuantity,
+      order: null,
+    };
+    if (Math.abs(drift) < options.driftThreshold) {
+      return { ...line, skipped: 'within-threshold' };
+    }
+    const lots = Math.round((targetWeight * equity) / price / lotSize);
+    const targetQuantity = targetWeight === 0 ? 0 : lots * lotSize;
+    if (targetQuantity === currentQuantity) {
+      return { ...line, skipped: 'below-lot-size' };
+    }
+    return { ...line, targetQuantity };
+  });
+
+  const cost = (line: RebalanceLine) =>
+    (line.targetQuantity - line.currentQuantity) * line.price;
+  let projectedCash =
+    cash - lines.reduce((total, line) => total + cost(line), 0);
+  while (projectedCash < -1e-9) {
+    const trimmable = lines.filter(
+      line => line.targetQuantity - line.lotSize >= line.currentQuantity
+    );
+    if (trimmable.length === 0) break;
+    const largest = trimmable.reduce((a, b) => (cost(b) > cost(a) ? b : a));
+    largest.targetQuantity -= largest.lotSize;
+    projectedCash += largest.lotSize * largest.price;
+    if (largest.targetQuantity === largest.currentQuantity) {
+      largest.skipped = 'cash';
+    }
+  }
+
+  let traded = 0;
+  lines.forEach(line => {
+    const delta = line.targetQuantity - line.currentQuantity;
+    if (delta === 0) return;
+    line.order = {
+      side: delta > 0 ? 'buy' : 'sell',
+      quantity: Math.abs(delta),
+    };
+    traded += Math.abs(delta) * line.price;
+  });
+  const orders = lines
+    .filter(line => line.order !== null)
+    .map(line => ({ symbol: line.symbol, ...line.order! }))
+    .sort((a, b) => (a.side === b.side ? 0 : a.side === 'sell' ? -1 : 1));
+
+  return {
+    equity,
+    cash,
+    projectedCash,
+    turnover: equity > 0 ? traded / equity : 0,
+    driftThreshold: options.driftThreshold,
+    lines,
+    orders,
+  };
+}
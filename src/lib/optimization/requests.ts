@@ -0,0 +1,153 @@
+import { TIMEFRAMES } from '../marketdata/timeframes';
+import type { Timeframe } from '../marketdata/types';
+import { Validator } from '../validation';
+import { DEFAULT_DRIFT_THRESHOLD } from './rebalance';
+import {
+  OBJECTIVES,
+  type Constraints,
+  type OptimizeOptions,
+  type RebalanceOptions,
+} from './types';
+
+export interface OptimizeRequest {
+  symbols: string[];
+  timeframe: Timeframe;
+  /** Most recent bars to estimate returns from. */
+  lookback: number;
+  shrinkage: number;
+  options: Omit<OptimizeOptions, 'sectors'>;
+}
+
+export interface RebalanceRequest {
+  targets: Record<string, number>;
+  options: RebalanceOptions;
+}
+
+export const DEFAULT_OPTIMIZE_LOOKBACK = 252;
+/** Every symbol's bars are loaded and each solve is quadratic in symbols. */
+export const MAX_OPTIMIZE_SYMBOLS = 30;
+/** Each frontier point is a search of its own. */
+export const MAX_FRONTIER_POINTS = 20;
+
+/**
+ * A nested object of numbers, such as per-symbol caps, with keys passed
+ * through `normalize`. Every value is checked against `range`.
+ */
+function readNumbers(
+  fields: Validator,
+  key: string,
+  range: { min: number; max: number },
+  normalize: (key: string) => string,
+  integer = false
+): Record<string, number> | undefined {
+  const nested = fields.object(key);
+  if (!nested) return undefined;
+  const values: Record<string, number> = {};
+  Object.keys(nested.values).forEach(name => {
+    const value = integer
+      ? nested.integer(name, true, range)
+      : nested.number(name, true, range);
+    if (value !== undefined) values[normalize(name.trim())] = value;
+  });
+  return values;
+}
+
+const upper = (symbol: string) => symbol.toUpperCase();
+const lower = (name: string) => name.toLowerCase();
+
+function readConstraints(fields: Validator): Constraints {
+  const spec = fields.object('constraints');
+  return {
+    longOnly: spec?.boolean('longOnly') ?? true,
+    maxWeight: spec?.number('maxWeight', false, { min: 0.01, max: 1 }) ?? 1,
+    assetCaps:
+      (spec && readNumbers(spec, 'assetCaps', { min: 0, max: 1 }, upper)) ?? {},
+    sectorCaps:
+      (spec && readNumbers(spec, 'sectorCaps', { min: 0, max: 1 }, lower)) ??
+      {},
+  };
+}
+
+/**
+ * Validates a request to `POST /api/v1/portfolio/optimize`, filling in
+ * defaults: max-Sharpe, long-only, over the last 252 bars.
+ */
+export function parseOptimizeRequest(
+  input: unknown
+): { request: OptimizeRequest; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const symbols = fields.stringArray('symbols', true);
+  if (symbols && symbols.length > MAX_OPTIMIZE_SYMBOLS) {
+    fields.fail('symbols', `must have at most ${MAX_OPTIMIZE_SYMBOLS} items`);
+  }
+  const objective = fields.oneOf('objective', OBJECTIVES) ?? 'max-sharpe';
+  const timeframe = fields.oneOf('timeframe', TIMEFRAMES) ?? '1d';
+  const lookback =
+    fields.integer('lookback', false, { min: 60, max: 2_000 }) ??
+    DEFAULT_OPTIMIZE_LOOKBACK;
+  const riskFreeRate =
+    fields.number('riskFreeRate', false, { min: -0.1, max: 1 }) ?? 0;
+  const riskAversion =
+    fields.number('riskAversion', false, { min: 0.01, max: 1_000 }) ?? 3;
+  const shrinkage = fields.number('shrinkage', false, { min: 0, max: 1 }) ?? 0;
+  const frontierPoints =
+    fields.integer('frontierPoints', false, {
+      min: 0,
+      max: MAX_FRONTIER_POINTS,
+    }) ?? 0;
+  const constraints = readConstraints(fields);
+
+  if (!fields.valid || !symbols) return { problems: fields.problems };
+  return {
+    problems: [],
+    request: {
+      symbols: Array.from(
+        new Set(symbols.map(symbol => symbol.trim().toUpperCase()))
+      ),
+      timeframe,
+      lookback,
+      shrinkage,
+      options: {
+        objective,
+        constraints,
+        riskFreeRate,
+        riskAversion,
+        frontierPoints,
+      },
+    },
+  };
+}
+
+/**
+ * Validates a request to `POST /api/v1/portfolio/rebalance`: `targets`
+ * weights by symbol, summing to at most 1, with optional `lotSize`,
+ * per-symbol `lotSizes` and `driftThreshold`.
+ */
+export function parseRebalanceRequest(
+  input: unknown
+): { request: RebalanceRequest; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  if (!fields.has('targets')) fields.fail('targets', 'is required');
+  const targets = readNumbers(fields, 'targets', { min: -1, max: 1 }, upper);
+  if (targets) {
+    const weights = Object.keys(targets).map(symbol => targets[symbol]);
+    if (weights.length === 0) fields.fail('targets', 'must name a symbol');
+    if (weights.reduce((sum, weight) => sum + weight, 0) > 1 + 1e-6) {
+      fields.fail('targets', 'must sum to at most 1');
+    }
+  }
+  const driftThreshold =
+    fields.number('driftThreshold', false, { min: 0, max: 1 }) ??
+    DEFAULT_DRIFT_THRESHOLD;
+  const lotSize =
+    fields.integer('lotSize', false, { min: 1, max: 1_000_000 }) ?? 1;
+  const lotSizes =
+    readNumbers(fields, 'lotSizes', { min: 1, max: 1_000_000 }, upper, true) ??
+    {};
+
+  if (!fields.valid || !targets) return { problems: fields.problems };
+  return {
+    problems: [],
+    request: { targets, options: { driftThreshold, lotSize, lotSizes } },
+  };
+}
@@ -0,0 +1,128 @@
+import type { OrderSide } from '../strategy/types';
+
+/**
+ * What the optimizer aims for. `mean-variance` maximizes expected return
+ * less `riskAversion / 2` times variance; `risk-parity` equalizes each
+ * asset's share of portfolio variance.
+ */
+export type Objective =
+  'min-variance' | 'max-sharpe' | 'mean-variance' | 'risk-parity';
+
+export const OBJECTIVES: readonly Objective[] = [
+  'min-variance',
+  'max-sharpe',
+  'mean-variance',
+  'risk-parity',
+];
+
+/** Weights are fractions of equity and always sum to 1. */
+export interface Constraints {
+  /** No short positions. Risk parity is long-only regardless. */
+  longOnly: boolean;
+  /** Cap on any one asset's weight, long or short. */
+  maxWeight: number;
+  /** Tighter caps for particular symbols. */
+  assetCaps: Record<string, number>;
+  /** Caps on the summed weight of each sector, by lower-cased name. */
+  sectorCaps: Record<string, number>;
+}
+
+export interface ReturnEstimates {
+  symbols: string[];
+  /** Annualized mean of simple returns, in `symbols` order. */
+  expectedReturns: number[];
+  /** Annualized covariance of simple returns. */
+  covariance: number[][];
+  /** Return periods the estimates rest on. */
+  observations: number;
+  periodsPerYear: number;
+  /** Bars the first and last returns end on, epoch milliseconds. */
+  start: number;
+  end: number;
+}
+
+export interface Allocation {
+  weights: Record<string, number>;
+  /** Annualized. */
+  expectedReturn: number;
+  /** Annualized standard deviation of returns. */
+  volatility: number;
+  /** `null` for a riskless portfolio. */
+  sharpe: number | null;
+  /** Each asset's share of the portfolio's variance; they sum to 1. */
+  riskContributions: Record<string, number>;
+}
+
+export interface OptimizeOptions {
+  objective: Objective;
+  constraints: Constraints;
+  /** Symbol to sector, for sector caps. */
+  sectors: Record<string, string>;
+  /** Annual rate the Sharpe ratio is measured against. */
+  riskFreeRate: number;
+  riskAversion: number;
+  /** Efficient portfolios to trace, from least risky up; 0 for none. */
+  frontierPoints: number;
+}
+
+export interface OptimizationResult {
+  objective: Objective;
+  allocation: Allocation;
+  frontier: Allocation[];
+}
+
+export interface RebalanceOptions {
+  /** Only weights off target by at least this much are traded. */
+  driftThreshold: number;
+  /** Shares per lot for symbols not in `lotSizes`. */
+  lotSize: number;
+  lotSizes: Record<string, number>;
+}
+
+/**
+ * Why a symbol off target gets no order: its drift is under the
+ * threshold, the trade rounds to less than a lot, or buys were trimmed to
+ * the cash available.
+ */
+export type RebalanceSkip = 'within-threshold' | 'below-lot-size' | 'cash';
+
+export interface RebalanceLine {
+  symbol: string;
+  price: number;
+  lotSize: number;
+  currentQuantity: number;
+  currentWeight: number;
+  targetWeight: number;
+  /** Target less current weight. */
+  drift: number;
+  /** Quantity held once the order fills. */
+  targetQuantity: number;
+  order: { side: OrderSide; quantity: number } | null;
+  skipped?: RebalanceSkip;
+}
+
+export interface RebalanceProposal {
+  equity: number;
+  cash: number;
+  /** Cash left once every order fills at today's prices. */
+  projectedCash: number;
+  /** Traded value over equity. */
+  turnover: number;
+  driftThreshold: number;
+  lines: RebalanceLine[];
+  /** Market orders to submit, sells first so they fund the buys. */
+  orders: { symbol: string; side: OrderSide; quantity: number }[];
+}
+
+export type OptimizationErrorCode =
+  'INSUFFICIENT_DATA' | 'INFEASIBLE' | 'NO_PRICE';
+
+export class OptimizationError extends Error {
+  constructor(
+    readonly code: OptimizationErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'OptimizationError';
+  }
+}
@@ -0,0 +1,53 @@
+import { DEFAULT_ACCOUNT_ID } from '../oms/manager';
+import { setSingleton, singleton } from '../singleton';
+import { PortfolioLedger, type PortfolioLedgerOptions } from './ledger';
+import { COST_BASIS_METHODS, type CostBasisMethod } from './types';
+
+export * from './types';
+export { PortfolioLedger, type PortfolioLedgerOptions } from './ledger';
+export { followOrders, lotProblems, markToMarket } from './tracking';
+
+const PORTFOLIO_KEY = 'portfolio';
+
+export const DEFAULT_PORTFOLIO_CASH = 100_000;
+
+export function portfolioOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): PortfolioLedgerOptions {
+  const cash = Number(env.PORTFOLIO_INITIAL_CASH);
+  const method = env.PORTFOLIO_COST_BASIS as CostBasisMethod;
+  return {
+    initialCash: cash > 0 ? cash : DEFAULT_PORTFOLIO_CASH,
+    method: COST_BASIS_METHODS.includes(method) ? method : 'fifo',
+  };
+}
+
+function portfolios(): Map<string, PortfolioLedger> {
+  return singleton(PORTFOLIO_KEY, () => new Map<string, PortfolioLedger>());
+}
+
+/**
+ * The portfolio of `accountId`, opened on first use. The shared order
+ * manager books each account's fills into its own (see `getOrderManager`).
+ */
+export function getPortfolio(accountId = DEFAULT_ACCOUNT_ID): PortfolioLedger {
+  const ledgers = portfolios();
+  let ledger = ledgers.get(accountId);
+  if (!ledger) {
+    ledger = new PortfolioLedger(portfolioOptionsFromEnv());
+    ledgers.set(accountId, ledger);
+  }
+  return ledger;
+}
+
+/**
+ * Overrides the portfolio of `accountId`, e.g. in tests. `undefined`
+ * forgets every account's.
+ */
+export function setPortfolio(
+  ledger: PortfolioLedger | undefined,
+  accountId = DEFAULT_ACCOUNT_ID
+): void {
+  if (ledger) portfolios().set(accountId, ledger);
+  else setSingleton(PORTFOLIO_KEY, undefined);
+}
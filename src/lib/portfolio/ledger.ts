@@ -0,0 +1,353 @@
+import type { EquityPoint } from '../backtest/types';
+import {
+  PortfolioError,
+  type CostBasisMethod,
+  type Dividend,
+  type Fee,
+  type LedgerEntry,
+  type LedgerFill,
+  type Lot,
+  type PortfolioSnapshot,
+  type Position,
+  type Split,
+} from './types';
+
+export interface PortfolioLedgerOptions {
+  initialCash?: number;
+  /** Defaults to `fifo`. */
+  method?: CostBasisMethod;
+}
+
+interface Holding {
+  symbol: string;
+  /** Oldest first. */
+  lots: Lot[];
+  realizedPnl: number;
+  dividends: number;
+  /** Last fill price, the mark until a quote arrives. */
+  lastPrice: number;
+}
+
+const EPSILON = 1e-9;
+const HISTORY_LIMIT = 10_000;
+
+/**
+ * Cash and positions built up from fills, in the cost-basis method chosen
+ * at construction. Commissions and other fees are kept apart from trading
+ * P&L rather than folded into lot costs, so `realizedPnl` is the pure
+ * price difference and `fees` what it cost to trade.
+ */
+export class PortfolioLedger {
+  readonly method: CostBasisMethod;
+  private cash = 0;
+  private fees = 0;
+  private readonly holdings = new Map<string, Holding>();
+  private readonly marks = new Map<string, number>();
+  private readonly appliedFills = new Set<string>();
+  private readonly journal: LedgerEntry[] = [];
+  private readonly equityHistory: EquityPoint[] = [];
+  private lotSeq = 0;
+
+  constructor(options: PortfolioLedgerOptions = {}) {
+    this.method = options.method ?? 'fifo';
+    if (options.initialCash) this.deposit(options.initialCash, 0);
+  }
+
+  /** Adds cash; a negative amount withdraws it. */
+  deposit(amount: number, timestamp: number, description = 'Deposit'): void {
+    if (!Number.isFinite(amount) || amount === 0) {
+      throw new PortfolioError('INVALID_ENTRY', 'amount must be non-zero');
+    }
+    this.cash += amount;
+    this.record({ type: 'deposit', timestamp, cash: amount, description });
+  }
+
+  /**
+   * Books a fill: closes lots of the opposite sign in the order the
+   * cost-basis method dictates, then opens a lot with whatever is left.
+   * Returns the P&L realized, or `null` for a fill seen before.
+   */
+  applyFill(fill: LedgerFill): number | null {
+    if (this.appliedFills.has(fill.id)) return null;
+    if (!positive(fill.quantity) || !positive(fill.price)) {
+      throw new PortfolioError(
+        'INVALID_ENTRY',
+        'Fills need a positive quantity and price'
+      );
+    }
+    if (!(Number.isFinite(fill.commission) && fill.commission >= 0)) {
+      throw new PortfolioError('INVALID_ENTRY', 'commission must be >= 0');
+    }
+
+    const holding = this.holding(fill.symbol);
+    let remaining = fill.side === 'buy' ? fill.quantity : -fill.quantity;
+    let realized = 0;
+    for (const lot of this.closingOrder(holding, fill.lotIds)) {
+      if (Math.abs(remaining) <= EPSILON) break;
+      if (Math.sign(lot.quantity) === Math.sign(remaining)) continue;
+      const closed =
+        Math.sign(lot.quantity) *
+        Math.min(Math.abs(remaining), Math.abs(lot.quantity));
+      realized += closed * (fill.price - lot.price);
+      lot.quantity -= closed;
+      remaining += closed;
+    }
+    holding.lots = holding.lots.filter(lot => Math.abs(lot.quantity) > EPSILON);
+    if (Math.abs(remaining) > EPSILON) {
+      this.open(holding, remaining, fill.price, fill.timestamp);
+    }
+
+    const signed = fill.side === 'buy' ? fill.quantity : -fill.quantity;
+    const cash = -signed * fill.price - fill.commission;
+    this.cash += cash;
+    this.fees += fill.commission;
+    holding.realizedPnl += realized;
+    holding.lastPrice = fill.price;
+    this.appliedFills.add(fill.id);
+    this.record({
+      type: 'fill',
+      timestamp: fill.timestamp,
+      cash,
+      symbol: fill.symbol,
+      description: `${fill.side} ${fill.quantity} @ ${fill.price}`,
+      realizedPnl: realized,
+    });
+    return realized;
+  }
+
+  /** Scales lot sizes by the ratio and costs by its inverse. */
+  applySplit(split: Split): void {
+    if (!positive(split.ratio)) {
+      throw new PortfolioError('INVALID_ENTRY', 'ratio must be positive');
+    }
+    const holding = this.holdings.get(split.symbol);
+    if (holding) {
+      holding.lots.forEach(lot => {
+        lot.quantity *= split.ratio;
+        lot.price /= split.ratio;
+      });
+      holding.lastPrice /= split.ratio;
+    }
+    const mark = this.marks.get(split.symbol);
+    if (mark !== undefined) this.marks.set(split.symbol, mark / split.ratio);
+    this.record({
+      type: 'split',
+      timestamp: split.timestamp,
+      cash: 0,
+      symbol: split.symbol,
+      description: `${split.ratio}:1 split`,
+    });
+  }
+
+  /**
+   * Credits a cash dividend on the shares held; short positions pay it.
+   * Returns the amount booked.
+   */
+  applyDividend(dividend: Dividend): number {
+    if (!positive(dividend.amountPerShare)) {
+      throw new PortfolioError(
+        'INVALID_ENTRY',
+        'amountPerShare must be positive'
+      );
+    }
+    const holding = this.holdings.get(dividend.symbol);
+    const amount = holding ? quantityOf(holding) * dividend.amountPerShare : 0;
+    if (amount === 0) return 0;
+    holding!.dividends += amount;
+    this.cash += amount;
+    this.record({
+      type: 'dividend',
+      timestamp: dividend.timestamp,
+      cash: amount,
+      symbol: dividend.symbol,
+      description: `Dividend of ${dividend.amountPerShare} per share`,
+    });
+    return amount;
+  }
+
+  /** Charges a fee that is not a fill commission, e.g. a data fee. */
+  applyFee(fee: Fee): void {
+    if (!positive(fee.amount)) {
+      throw new PortfolioError('INVALID_ENTRY', 'amount must be positive');
+    }
+    this.cash -= fee.amount;
+    this.fees += fee.amount;
+    this.record({
+      type: 'fee',
+      timestamp: fee.timestamp,
+      cash: -fee.amount,
+      symbol: fee.symbol,
+      description: fee.description,
+    });
+  }
+
+  /** Sets the price open positions in `symbol` are valued at. */
+  mark(symbol: string, price: number): void {
+    if (!positive(price)) {
+      throw new PortfolioError('INVALID_ENTRY', 'price must be positive');
+    }
+    this.marks.set(symbol, price);
+  }
+
+  /** Symbols with an open position. */
+  symbols(): string[] {
+    return this.openHoldings().map(holding => holding.symbol);
+  }
+
+  position(symbol: string): Position | null {
+    const holding = this.holdings.get(symbol);
+    return holding ? this.toPosition(holding) : null;
+  }
+
+  /** Open positions, by symbol. */
+  positions(): Position[] {
+    return this.openHoldings().map(holding => this.toPosition(holding));
+  }
+
+  snapshot(): PortfolioSnapshot {
+    const all = Array.from(this.holdings.values()).map(holding =>
+      this.toPosition(holding)
+    );
+    const sum = (field: keyof Position) =>
+      all.reduce((total, position) => total + (position[field] as number), 0);
+    const marketValue = sum('marketValue');
+    const realizedPnl = sum('realizedPnl');
+    const unrealizedPnl = sum('unrealizedPnl');
+    const dividends = sum('dividends');
+    return {
+      method: this.method,
+      cash: this.cash,
+      marketValue,
+      equity: this.cash + marketValue,
+      realizedPnl,
+      unrealizedPnl,
+      dividends,
+      fees: this.fees,
+      netPnl: realizedPnl + unrealizedPnl + dividends - this.fees,
+      positions: this.positions(),
+    };
+  }
+
+  /**
+   * Samples equity and cash at `timestamp`, for performance analytics.
+   * A sample older than the last is ignored; one at the same time
+   * replaces it. Only the latest samples are kept.
+   */
+  recordEquity(timestamp: number): void {
+    const last = this.equityHistory[this.equityHistory.length - 1];
+    if (last && timestamp < last.timestamp) return;
+    if (last && timestamp === last.timestamp) this.equityHistory.pop();
+    const { equity, cash } = this.snapshot();
+    this.equityHistory.push({ timestamp, equity, cash });
+    if (this.equityHistory.length > HISTORY_LIMIT) this.equityHistory.shift();
+  }
+
+  /** Recorded equity samples, oldest first. */
+  history(): EquityPoint[] {
+    return this.equityHistory.map(point => ({ ...point }));
+  }
+
+  /** The journal, oldest first. */
+  entries(): LedgerEntry[] {
+    return this.journal.map(entry => ({ ...entry }));
+  }
+
+  private holding(symbol: string): Holding {
+    let holding = this.holdings.get(symbol);
+    if (!holding) {
+      holding = {
+        symbol,
+        lots: [],
+        realizedPnl: 0,
+        dividends: 0,
+        lastPrice: 0,
+      };
+      this.holdings.set(symbol, holding);
+    }
+    return holding;
+  }
+
+  private openHoldings(): Holding[] {
+    return Array.from(this.holdings.values())
+      .filter(holding => Math.abs(quantityOf(holding)) > EPSILON)
+      .sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  /** Lots in the order a fill closes them. */
+  private closingOrder(holding: Holding, lotIds?: string[]): Lot[] {
+    if (this.method === 'lifo') return holding.lots.slice().reverse();
+    if (this.method !== 'specific' || !lotIds?.length) {
+      return holding.lots.slice();
+    }
+    const chosen = lotIds.map(id => {
+      const lot = holding.lots.find(candidate => candidate.id === id);
+      if (!lot) {
+        throw new PortfolioError(
+          'UNKNOWN_LOT',
+          `No open ${holding.symbol} lot ${id}`
+        );
+      }
+      return lot;
+    });
+    return chosen.concat(holding.lots.filter(lot => !chosen.includes(lot)));
+  }
+
+  private open(
+    holding: Holding,
+    quantity: number,
+    price: number,
+    timestamp: number
+  ): void {
+    const [existing] = holding.lots;
+    if (this.method === 'average' && existing) {
+      // Same sign as `quantity`: anything opposite was closed first.
+      const total = existing.quantity + quantity;
+      existing.price =
+        (existing.quantity * existing.price + quantity * price) / total;
+      existing.quantity = total;
+      return;
+    }
+    holding.lots.push({
+      id: `lot-${++this.lotSeq}`,
+      symbol: holding.symbol,
+      quantity,
+      price,
+      openedAt: timestamp,
+    });
+  }
+
+  private toPosition(holding: Holding): Position {
+    const quantity = quantityOf(holding);
+    const costBasis = holding.lots.reduce(
+      (total, lot) => total + lot.quantity * lot.price,
+      0
+    );
+    const marketPrice = this.marks.get(holding.symbol) ?? holding.lastPrice;
+    const marketValue = quantity * marketPrice;
+    return {
+      symbol: holding.symbol,
+      quantity,
+      averageCost: quantity === 0 ? 0 : costBasis / quantity,
+      costBasis,
+      marketPrice,
+      marketValue,
+      unrealizedPnl: marketValue - costBasis,
+      realizedPnl: holding.realizedPnl,
+      dividends: holding.dividends,
+      lots: holding.lots.map(lot => ({ ...lot })),
+    };
+  }
+
+  private record(entry: LedgerEntry): void {
+    if (entry.symbol === undefined) delete entry.symbol;
+    this.journal.push(entry);
+  }
+}
+
+function quantityOf(holding: Holding): number {
+  return holding.lots.reduce((total, lot) => total + lot.quantity, 0);
+}
+
+function positive(value: number): boolean {
+  return Number.isFinite(value) && value > 0;
+}
@@ -0,0 +1,89 @@
+import type { Execution } from '../broker/types';
+import type { MarketDataProvider } from '../marketdata/provider';
+import { DEFAULT_ACCOUNT_ID, type OrderManager } from '../oms/manager';
+import type { ManagedOrder } from '../oms/types';
+import type { PortfolioLedger } from './ledger';
+
+/**
+ * Books every fill of `accountId`'s orders into the ledger: those already
+ * made, then new ones as they happen, recording equity after each. Lots an
+ * order names are closed first while they stay open; an earlier partial
+ * fill may already have closed them. Returns a function that stops.
+ */
+export function followOrders(
+  ledger: PortfolioLedger,
+  oms: OrderManager,
+  accountId = DEFAULT_ACCOUNT_ID
+): () => void {
+  const book = (fill: Execution, order: Pick<ManagedOrder, 'lotIds'>) => {
+    const open = ledger.position(fill.symbol)?.lots.map(lot => lot.id) ?? [];
+    const booked = ledger.applyFill({
+      id: fill.id,
+      symbol: fill.symbol,
+      side: fill.side,
+      quantity: fill.quantity,
+      price: fill.price,
+      commission: fill.commission,
+      timestamp: fill.timestamp,
+      lotIds: order.lotIds?.filter(id => open.includes(id)),
+    });
+    if (booked === null) return;
+    ledger.mark(fill.symbol, fill.price);
+    ledger.recordEquity(fill.timestamp);
+  };
+
+  const unsubscribe = oms.subscribe(event => {
+    if (event.type === 'fill' && event.order.accountId === accountId) {
+      book(event.fill, event.order);
+    }
+  });
+  oms
+    .list({ accountId, limit: Number.MAX_SAFE_INTEGER })
+    .reduce<{ fill: Execution; order: ManagedOrder }[]>(
+      (fills, order) =>
+        fills.concat(order.fills.map(fill => ({ fill, order }))),
+      []
+    )
+    .sort((a, b) => a.fill.timestamp - b.fill.timestamp)
+    .forEach(({ fill, order }) => book(fill, order));
+  return unsubscribe;
+}
+
+/**
+ * Problems with the lots an order names to close: naming any needs the
+ * `specific` cost-basis method, and each must be an open lot of `symbol`.
+ */
+export function lotProblems(
+  ledger: PortfolioLedger,
+  symbol: string,
+  lotIds: string[] = []
+): string[] {
+  if (lotIds.length === 0) return [];
+  if (ledger.method !== 'specific') {
+    return [`lotIds need the specific cost-basis method, not ${ledger.method}`];
+  }
+  const open = ledger.position(symbol)?.lots.map(lot => lot.id) ?? [];
+  return lotIds
+    .filter(id => !open.includes(id))
+    .map(id => `No open ${symbol} lot ${id}`);
+}
+
+/**
+ * Marks every open position to the provider's latest quote and records
+ * equity as of the newest one.
+ */
+export async function markToMarket(
+  ledger: PortfolioLedger,
+  provider: MarketDataProvider
+): Promise<void> {
+  const quotes = await Promise.all(
+    ledger.symbols().map(symbol => provider.getQuote(symbol))
+  );
+  let latest: number | null = null;
+  for (const quote of quotes) {
+    if (!quote || !(quote.last > 0)) continue;
+    ledger.mark(quote.symbol, quote.last);
+    latest = Math.max(latest ?? quote.timestamp, quote.timestamp);
+  }
+  if (latest !== null) ledger.recordEquity(latest);
+}
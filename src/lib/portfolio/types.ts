@@ -0,0 +1,111 @@
+import type { OrderSide } from '../strategy/types';
+
+/**
+ * Which lots a sale closes. `specific` closes the lots named on the fill
+ * and falls back to FIFO for any quantity they do not cover; `average`
+ * keeps one lot per position at the weighted average cost.
+ */
+export type CostBasisMethod = 'fifo' | 'lifo' | 'specific' | 'average';
+
+export const COST_BASIS_METHODS: readonly CostBasisMethod[] = [
+  'fifo',
+  'lifo',
+  'specific',
+  'average',
+];
+
+/** Shares bought (or sold short) together. Short lots have negative quantity. */
+export interface Lot {
+  id: string;
+  symbol: string;
+  quantity: number;
+  /** Cost per share, adjusted for splits. */
+  price: number;
+  openedAt: number;
+}
+
+export interface LedgerFill {
+  /** Execution id; a fill already applied is ignored. */
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  commission: number;
+  timestamp: number;
+  /** Lots to close first, under the `specific` method. */
+  lotIds?: string[];
+}
+
+export interface Split {
+  symbol: string;
+  /** New shares per old share: 2 for a 2-for-1 split, 0.1 for 1-for-10. */
+  ratio: number;
+  timestamp: number;
+}
+
+export interface Dividend {
+  symbol: string;
+  amountPerShare: number;
+  timestamp: number;
+}
+
+export interface Fee {
+  amount: number;
+  timestamp: number;
+  description: string;
+  symbol?: string;
+}
+
+export type LedgerEntryType = 'deposit' | 'fill' | 'split' | 'dividend' | 'fee';
+
+/** One line of the journal; `cash` is the change in cash it caused. */
+export interface LedgerEntry {
+  type: LedgerEntryType;
+  timestamp: number;
+  cash: number;
+  symbol?: string;
+  description: string;
+  /** P&L realized by the entry, for fills that closed lots. */
+  realizedPnl?: number;
+}
+
+export interface Position {
+  symbol: string;
+  /** Negative when short. */
+  quantity: number;
+  averageCost: number;
+  costBasis: number;
+  marketPrice: number;
+  marketValue: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  dividends: number;
+  lots: Lot[];
+}
+
+export interface PortfolioSnapshot {
+  method: CostBasisMethod;
+  cash: number;
+  marketValue: number;
+  equity: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  dividends: number;
+  fees: number;
+  /** Realized plus unrealized P&L and dividends, less fees. */
+  netPnl: number;
+  positions: Position[];
+}
+
+export type PortfolioErrorCode = 'INVALID_ENTRY' | 'UNKNOWN_LOT';
+
+export class PortfolioError extends Error {
+  constructor(
+    readonly code: PortfolioErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PortfolioError';
+  }
+}
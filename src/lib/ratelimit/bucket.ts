@@ -0,0 +1,29 @@
+import type { BucketState, RateLimitPolicy, RateLimitResult } from './types';
+
+/**
+ * Refills a bucket for the time since it was last used and takes one
+ * request from it if it can. Pure, so every store shares the arithmetic.
+ */
+export function takeToken(
+  state: BucketState | null,
+  policy: RateLimitPolicy,
+  now: number
+): { state: BucketState; result: RateLimitResult } {
+  const perMs = policy.limit / policy.windowMs;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state
+    ? Math.min(policy.limit, state.tokens + elapsed * perMs)
+    : policy.limit;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((policy.limit - tokens) / perMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / perMs),
+    },
+  };
+}
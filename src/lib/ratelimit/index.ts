@@ -0,0 +1,117 @@
+import { authSecret } from '../auth/secret';
+import { createCacheStore } from '../redis';
+import { setSingleton, singleton } from '../singleton';
+import { RateLimiter } from './limiter';
+import { CacheRateLimitStore, InMemoryRateLimitStore } from './store';
+import {
+  RATE_LIMIT_POLICIES,
+  RateLimitError,
+  type RateLimitPolicy,
+  type RateLimitPolicyName,
+  type RateLimitStore,
+} from './types';
+
+export * from './types';
+export * from './bucket';
+export * from './store';
+export * from './limiter';
+
+/** Requests per window, per caller. */
+export const DEFAULT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  default: { name: 'default', limit: 300, windowMs: 60_000 },
+  orders: { name: 'orders', limit: 60, windowMs: 60_000 },
+  marketData: { name: 'marketData', limit: 1_200, windowMs: 60_000 },
+  login: { name: 'login', limit: 10, windowMs: 60_000 },
+  probe: { name: 'probe', limit: 5, windowMs: 60_000 },
+};
+
+const ENV_NAMES: Record<RateLimitPolicyName, string> = {
+  default: 'RATE_LIMIT_DEFAULT',
+  orders: 'RATE_LIMIT_ORDERS',
+  marketData: 'RATE_LIMIT_MARKET_DATA',
+  login: 'RATE_LIMIT_LOGIN',
+  probe: 'RATE_LIMIT_PROBE',
+};
+
+/**
+ * Policies from `RATE_LIMIT_<POLICY>` variables as `limit/seconds`, e.g.
+ * `RATE_LIMIT_ORDERS=60/60`; unset or malformed ones keep the default.
+ */
+export function rateLimitPoliciesFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Record<RateLimitPolicyName, RateLimitPolicy> {
+  const policies = { ...DEFAULT_POLICIES };
+  RATE_LIMIT_POLICIES.forEach(name => {
+    const match = env[ENV_NAMES[name]]?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+    if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) return;
+    policies[name] = {
+      name,
+      limit: Number(match[1]),
+      windowMs: Number(match[2]) * 1000,
+    };
+  });
+  return policies;
+}
+
+export type RateLimitStoreFactory = (env: NodeJS.ProcessEnv) => RateLimitStore;
+
+const stores = new Map<string, RateLimitStoreFactory>();
+
+export function registerRateLimitStore(
+  name: string,
+  factory: RateLimitStoreFactory
+): void {
+  stores.set(name, factory);
+}
+
+export function createRateLimitStore(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env
+): RateLimitStore {
+  const factory = stores.get(name);
+  if (!factory) {
+    throw new RateLimitError(
+      'UNKNOWN_STORE',
+      `No rate limit store registered as "${name}"`
+    );
+  }
+  return factory(env);
+}
+
+registerRateLimitStore('memory', () => new InMemoryRateLimitStore());
+
+registerRateLimitStore(
+  'redis',
+  env => new CacheRateLimitStore(createCacheStore('redis', env))
+);
+
+const LIMITER_KEY = 'ratelimit';
+
+/**
+ * The shared rate limiter, keeping buckets in the `RATE_LIMIT_STORE`
+ * store: `memory` by default, or `redis` at `REDIS_URL` to share budgets
+ * between instances; `null` with `RATE_LIMIT_ENABLED=false`. Forwarded
+ * addresses count only with `TRUST_PROXY=true`.
+ */
+export function getRateLimiter(): RateLimiter | null {
+  return singleton(LIMITER_KEY, () => {
+    if (process.env.RATE_LIMIT_ENABLED === 'false') return null;
+    let secret: string | undefined;
+    try {
+      secret = authSecret();
+    } catch {
+      // Without a secret nobody can log in; limit everyone by IP.
+    }
+    return new RateLimiter({
+      policies: rateLimitPoliciesFromEnv(),
+      store: createRateLimitStore(process.env.RATE_LIMIT_STORE || 'memory'),
+      secret,
+      trustProxy: process.env.TRUST_PROXY === 'true',
+    });
+  });
+}
+
+/** Overrides the shared rate limiter (`null` turns limiting off). */
+export function setRateLimiter(limiter: RateLimiter | null | undefined): void {
+  setSingleton(LIMITER_KEY, limiter);
+}
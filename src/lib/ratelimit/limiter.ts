@@ -0,0 +1,123 @@
+import type { NextRequest } from 'next/server';
+import { requestToken, SESSION_COOKIE, verifyJwt } from '../auth/jwt';
+import type {
+  RateLimitPolicy,
+  RateLimitPolicyName,
+  RateLimitResult,
+  RateLimitStore,
+} from './types';
+
+export interface RateLimiterOptions {
+  policies: Record<RateLimitPolicyName, RateLimitPolicy>;
+  store: RateLimitStore;
+  /** Verifies credentials; without it every caller is keyed by IP. */
+  secret?: string;
+  /** Whether to take the address from headers set by a proxy in front. */
+  trustProxy?: boolean;
+  clock?: () => number;
+}
+
+export interface RateLimitDecision extends RateLimitResult {
+  policy: RateLimitPolicy;
+  /** Whose budget was drawn on, e.g. `token:<id>` or `ip:<address>`. */
+  subject: string;
+}
+
+/**
+ * Decides which budget a request draws on and whose: API tokens each have
+ * their own, sessions share their user's, and anonymous callers share
+ * their IP address's. Only `/api/` routes are limited.
+ */
+export class RateLimiter {
+  private readonly clock: () => number;
+
+  constructor(private readonly options: RateLimiterOptions) {
+    this.clock = options.clock ?? Date.now;
+  }
+
+  policyFor(method: string, pathname: string): RateLimitPolicy | null {
+    if (!pathname.startsWith('/api/')) return null;
+    return this.options.policies[policyName(method, pathname)];
+  }
+
+  /** Draws on the request's budget; `null` for unlimited routes. */
+  async check(request: NextRequest): Promise<RateLimitDecision | null> {
+    const policy = this.policyFor(request.method, request.nextUrl.pathname);
+    if (!policy) return null;
+    const subject = await this.subject(request);
+    const result = await this.options.store.consume(
+      `${policy.name}:${subject}`,
+      policy,
+      this.clock()
+    );
+    return { ...result, policy, subject };
+  }
+
+  private async subject(request: NextRequest): Promise<string> {
+    const token = requestToken(
+      request.headers,
+      request.cookies.get(SESSION_COOKIE)?.value
+    );
+    // Only a correctly signed token counts, or made-up ones would each get
+    // a fresh budget. Revocation is left to the auth check.
+    const claims =
+      token && this.options.secret
+        ? await verifyJwt(token, this.options.secret, this.clock())
+        : null;
+    if (claims?.typ === 'api') return `token:${claims.jti}`;
+    if (claims) return `user:${claims.sub}`;
+    return `ip:${clientIp(request, this.options.trustProxy)}`;
+  }
+}
+
+function policyName(method: string, pathname: string): RateLimitPolicyName {
+  if (pathname === '/api/v1/rate-limited') return 'probe';
+  if (pathname === '/api/v1/auth/login') return 'login';
+  if (
+    (pathname.startsWith('/api/v1/orders') && method !== 'GET') ||
+    pathname === '/api/v1/batch-operations' ||
+    pathname === '/api/v1/agent/tools/place_order/invoke'
+  ) {
+    return 'orders';
+  }
+  if (
+    pathname === '/api/v1/bars' ||
+    pathname === '/api/v1/search' ||
+    pathname === '/api/v1/stream'
+  ) {
+    return 'marketData';
+  }
+  return 'default';
+}
+
+/**
+ * The caller's address. Behind a proxy (`trustProxy`), the first
+ * `X-Forwarded-For` hop or `X-Real-IP` as the proxy set them; otherwise
+ * the connection's, since anyone can send those headers.
+ */
+export function clientIp(request: NextRequest, trustProxy = false): string {
+  const forwarded = trustProxy
+    ? request.headers.get('X-Forwarded-For')?.split(',')[0]?.trim() ||
+      request.headers.get('X-Real-IP')
+    : null;
+  return forwarded || request.ip || 'unknown';
+}
+
+/**
+ * The `RateLimit-*` headers of the IETF draft, plus `Retry-After` when
+ * the request was refused.
+ */
+export function rateLimitHeaders(
+  decision: RateLimitDecision
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(Math.ceil(decision.resetMs / 1000)),
+    'RateLimit-Policy': `${decision.policy.limit};w=${Math.round(decision.policy.windowMs / 1000)}`,
+  };
+  if (!decision.allowed) {
+    headers['Retry-After'] = String(Math.ceil(decision.retryAfterMs / 1000));
+  }
+  return headers;
+}
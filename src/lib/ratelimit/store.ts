@@ -0,0 +1,90 @@
+import type { CacheClient } from '../redis/types';
+import { takeToken } from './bucket';
+import type {
+  BucketState,
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+} from './types';
+
+/** Buckets are swept of full ones once there are this many. */
+const SWEEP_AT = 10_000;
+
+/** Buckets in this process; each instance has its own budget. */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<
+    string,
+    BucketState & { policy: RateLimitPolicy }
+  >();
+
+  async consume(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitResult> {
+    if (this.buckets.size >= SWEEP_AT) this.sweep(now);
+    const { state, result } = takeToken(
+      this.buckets.get(key) ?? null,
+      policy,
+      now
+    );
+    this.buckets.set(key, { ...state, policy });
+    return result;
+  }
+
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /** Forgets buckets that have refilled, as if never used. */
+  private sweep(now: number): void {
+    this.buckets.forEach((bucket, key) => {
+      const { policy } = bucket;
+      const refilled =
+        bucket.tokens +
+        ((now - bucket.updatedAt) * policy.limit) / policy.windowMs;
+      if (refilled >= policy.limit) this.buckets.delete(key);
+    });
+  }
+}
+
+/** Attempts at swapping a bucket before it counts as empty. */
+const MAX_SWAPS = 5;
+
+/**
+ * Buckets in a shared cache, such as Redis, so every instance draws on
+ * the same budget. Each one is read, refilled and written back only if
+ * no other request changed it meanwhile, retrying if one did; a bucket
+ * that stays contended is treated as empty. Buckets expire once they
+ * would have refilled.
+ */
+export class CacheRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly cache: CacheClient,
+    private readonly prefix = 'ratelimit:'
+  ) {}
+
+  async consume(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitResult> {
+    const cacheKey = this.prefix + key;
+    for (let attempt = 0; attempt < MAX_SWAPS; attempt++) {
+      const stored = await this.cache.get(cacheKey);
+      const { state, result } = takeToken(
+        stored ? (JSON.parse(stored) as BucketState) : null,
+        policy,
+        now
+      );
+      const swapped = await this.cache.compareAndSet(
+        cacheKey,
+        stored,
+        JSON.stringify(state),
+        { ttlMs: policy.windowMs }
+      );
+      if (swapped) return result;
+    }
+    return takeToken({ tokens: 0, updatedAt: now }, policy, now).result;
+  }
+}
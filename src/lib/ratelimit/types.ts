@@ -0,0 +1,68 @@
+/**
+ * Budgets: `default` for most API calls, `orders` for placing, changing
+ * and cancelling orders, by people or through the agent `place_order`
+ * tool, `marketData` for bars, search and the stream,
+ * `login` for login attempts and `probe` for `/api/v1/rate-limited`.
+ */
+export type RateLimitPolicyName =
+  'default' | 'orders' | 'marketData' | 'login' | 'probe';
+
+export const RATE_LIMIT_POLICIES: readonly RateLimitPolicyName[] = [
+  'default',
+  'orders',
+  'marketData',
+  'login',
+  'probe',
+];
+
+/**
+ * A token bucket holding `limit` requests, refilled at `limit` per
+ * `windowMs`: bursts up to the limit, then a steady rate.
+ */
+export interface RateLimitPolicy {
+  name: RateLimitPolicyName;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Requests left right now. */
+  remaining: number;
+  /** Until the bucket is full again. */
+  resetMs: number;
+  /** Until the next request is allowed; 0 when it is. */
+  retryAfterMs: number;
+}
+
+/** Bucket state as stored. */
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Where buckets live: in memory for one process, or a shared cache so
+ * every instance draws on the same budget. `consume` must be atomic per
+ * key.
+ */
+export interface RateLimitStore {
+  consume(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitResult>;
+}
+
+export type RateLimitErrorCode = 'UNKNOWN_STORE' | 'INVALID_POLICY';
+
+export class RateLimitError extends Error {
+  constructor(
+    readonly code: RateLimitErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
@@ -0,0 +1,121 @@
+import { setSingleton, singleton } from '../singleton';
+import { MarketCache } from './market';
+import { MemoryCache } from './memory';
+import { RedisCache } from './redis-cache';
+import {
+  CacheError,
+  type CacheClient,
+  type MessageListener,
+  type SetOptions,
+} from './types';
+
+export * from './types';
+export * from './memory';
+export * from './redis-cache';
+export * from './market';
+
+export type CacheStoreFactory = (env: NodeJS.ProcessEnv) => CacheClient;
+
+const stores = new Map<string, CacheStoreFactory>();
+
+export function registerCacheStore(
+  name: string,
+  factory: CacheStoreFactory
+): void {
+  stores.set(name, factory);
+}
+
+export function createCacheStore(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env
+): CacheClient {
+  const factory = stores.get(name);
+  if (!factory) {
+    throw new CacheError(
+      'UNKNOWN_STORE',
+      `No cache store registered as "${name}"`
+    );
+  }
+  return factory(env);
+}
+
+registerCacheStore('memory', env => {
+  const maxEntries = Number(env.CACHE_MAX_ENTRIES);
+  return new MemoryCache({
+    maxEntries: maxEntries > 0 ? maxEntries : undefined,
+  });
+});
+
+registerCacheStore('redis', env => {
+  if (!env.REDIS_URL) {
+    throw new CacheError(
+      'CONNECTION_FAILED',
+      'REDIS_URL must be set for the redis cache store'
+    );
+  }
+  return new RedisCache({ url: env.REDIS_URL });
+});
+
+const CACHE_KEY = 'cache';
+const MARKET_CACHE_KEY = 'cache.market';
+
+/**
+ * The shared cache, in the `CACHE_STORE` store: `memory` by default, which
+ * keeps it in this process; `redis` shares it between instances.
+ */
+export function getCache(): CacheClient {
+  return singleton(CACHE_KEY, () =>
+    createCacheStore(process.env.CACHE_STORE || 'memory')
+  );
+}
+
+/** Overrides the shared cache, e.g. in tests. */
+export function setCache(cache: CacheClient | undefined): void {
+  setSingleton(CACHE_KEY, cache);
+}
+
+/** Quotes, indicator snapshots and screener results in the shared cache. */
+export function getMarketCache(): MarketCache {
+  return singleton(MARKET_CACHE_KEY, () => new MarketCache(getCache()));
+}
+
+export function setMarketCache(cache: MarketCache | undefined): void {
+  setSingleton(MARKET_CACHE_KEY, cache);
+}
+
+/**
+ * The shared cache behind a stable reference. Quitting closes the
+ * connection; the next call opens a fresh one.
+ */
+export const redis: CacheClient = {
+  get name() {
+    return getCache().name;
+  },
+  ping: () => getCache().ping(),
+  get: (key: string) => getCache().get(key),
+  mget: (keys: string[]) => getCache().mget(keys),
+  set: (key: string, value: string, options?: SetOptions) =>
+    getCache().set(key, value, options),
+  compareAndSet: (
+    key: string,
+    expected: string | null,
+    value: string,
+    options?: SetOptions
+  ) => getCache().compareAndSet(key, expected, value, options),
+  del: (...keys: string[]) => getCache().del(...keys),
+  exists: (key: string) => getCache().exists(key),
+  pexpire: (key: string, ttlMs: number) => getCache().pexpire(key, ttlMs),
+  pttl: (key: string) => getCache().pttl(key),
+  keys: (pattern: string) => getCache().keys(pattern),
+  publish: (channel: string, message: string) =>
+    getCache().publish(channel, message),
+  subscribe: (channel: string, listener: MessageListener) =>
+    getCache().subscribe(channel, listener),
+  flushall: () => getCache().flushall(),
+  async quit() {
+    const cache = getCache();
+    setCache(undefined);
+    setMarketCache(undefined);
+    return cache.quit();
+  },
+};
@@ -0,0 +1,161 @@
+import { createHash } from 'node:crypto';
+import type { Quote, Timeframe } from '../marketdata/types';
+import type { StreamHub } from '../streaming/hub';
+import type { CacheClient } from './types';
+
+/** Indicator values of one symbol and timeframe as of a bar. */
+export interface IndicatorSnapshot {
+  symbol: string;
+  timeframe: Timeframe;
+  /** The bar the values were computed through. */
+  timestamp: number;
+  /** By indicator, e.g. `sma20`; `null` while warming up. */
+  values: Record<string, number | Record<string, number> | null>;
+}
+
+export interface ScreenerResults<T> {
+  query: string;
+  results: T[];
+  computedAt: number;
+}
+
+export interface MarketCacheOptions {
+  /** Defaults to a minute. */
+  quoteTtlMs?: number;
+  /** Defaults to fifteen minutes. */
+  indicatorTtlMs?: number;
+  /** Defaults to a minute. */
+  screenerTtlMs?: number;
+  clock?: () => number;
+}
+
+/** Where quote updates are published. */
+export const QUOTE_CHANNEL = 'quotes';
+
+const quoteKey = (symbol: string) => `quote:${symbol}`;
+const indicatorKey = (symbol: string, timeframe: Timeframe) =>
+  `indicators:${symbol}:${timeframe}`;
+// Queries can be long; the key only needs to tell them apart.
+const screenerKey = (query: string) =>
+  `screener:${createHash('sha256').update(query.trim()).digest('hex')}`;
+
+function parse<T>(raw: string | null): T | null {
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Typed access to what the cache holds for market data: last quotes,
+ * indicator snapshots and screener results. Each entry expires, so a
+ * stale value is never served for long after its source stops updating.
+ */
+export class MarketCache {
+  private readonly quoteTtlMs: number;
+  private readonly indicatorTtlMs: number;
+  private readonly screenerTtlMs: number;
+  private readonly clock: () => number;
+
+  constructor(
+    readonly cache: CacheClient,
+    options: MarketCacheOptions = {}
+  ) {
+    this.quoteTtlMs = options.quoteTtlMs ?? 60_000;
+    this.indicatorTtlMs = options.indicatorTtlMs ?? 15 * 60_000;
+    this.screenerTtlMs = options.screenerTtlMs ?? 60_000;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  /** Stores the quote and publishes it to {@link QUOTE_CHANNEL}. */
+  async setLastQuote(quote: Quote): Promise<void> {
+    const json = JSON.stringify(quote);
+    await this.cache.set(quoteKey(quote.symbol), json, {
+      ttlMs: this.quoteTtlMs,
+    });
+    await this.cache.publish(QUOTE_CHANNEL, json);
+  }
+
+  async lastQuote(symbol: string): Promise<Quote | null> {
+    return parse(await this.cache.get(quoteKey(symbol)));
+  }
+
+  /** The last quotes known, by symbol; symbols without one are left out. */
+  async lastQuotes(symbols: string[]): Promise<Record<string, Quote>> {
+    const values = await this.cache.mget(symbols.map(quoteKey));
+    const quotes: Record<string, Quote> = {};
+    values.forEach((raw, index) => {
+      const quote = parse<Quote>(raw);
+      if (quote) quotes[symbols[index]] = quote;
+    });
+    return quotes;
+  }
+
+  /**
+   * Calls `listener` with every quote stored from now on, by any
+   * instance sharing the cache. Resolves to a function that unsubscribes.
+   */
+  subscribeQuotes(
+    listener: (quote: Quote) => void
+  ): Promise<() => Promise<void>> {
+    return this.cache.subscribe(QUOTE_CHANNEL, message => {
+      const quote = parse<Quote>(message);
+      if (quote) listener(quote);
+    });
+  }
+
+  async setIndicatorSnapshot(snapshot: IndicatorSnapshot): Promise<void> {
+    await this.cache.set(
+      indicatorKey(snapshot.symbol, snapshot.timeframe),
+      JSON.stringify(snapshot),
+      { ttlMs: this.indicatorTtlMs }
+    );
+  }
+
+  async indicatorSnapshot(
+    symbol: string,
+    timeframe: Timeframe
+  ): Promise<IndicatorSnapshot | null> {
+    return parse(await this.cache.get(indicatorKey(symbol, timeframe)));
+  }
+
+  async setScreenerResults<T>(
+    query: string,
+    results: T[]
+  ): Promise<ScreenerResults<T>> {
+    const entry = { query, results, computedAt: this.clock() };
+    await this.cache.set(screenerKey(query), JSON.stringify(entry), {
+      ttlMs: this.screenerTtlMs,
+    });
+    return entry;
+  }
+
+  async screenerResults<T>(query: string): Promise<ScreenerResults<T> | null> {
+    return parse(await this.cache.get(screenerKey(query)));
+  }
+
+  /** Drops every cached screener result, e.g. after new bars arrive. */
+  async invalidateScreenerResults(): Promise<number> {
+    return this.cache.del(...(await this.cache.keys('screener:*')));
+  }
+}
+
+/**
+ * Stores every quote published to the hub as the symbol's last quote.
+ * Returns a function that stops.
+ */
+export function cacheQuotes(hub: StreamHub, market: MarketCache): () => void {
+  const subscription = hub.subscribe({ channels: ['quotes'] });
+  void (async () => {
+    for (;;) {
+      const event = await subscription.next();
+      if (!event) return;
+      await market
+        .setLastQuote(event.data as Quote)
+        .catch(error => console.error('Caching a quote failed', error));
+    }
+  })();
+  return () => subscription.close();
+}
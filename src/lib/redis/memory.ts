@@ -0,0 +1,202 @@
+import {
+  CacheError,
+  type CacheClient,
+  type MessageListener,
+  type SetOptions,
+} from './types';
+
+export interface MemoryCacheOptions {
+  /** Least recently used keys are evicted beyond this. Defaults to 10000. */
+  maxEntries?: number;
+  clock?: () => number;
+}
+
+interface Entry {
+  value: string;
+  expiresAt: number | null;
+}
+
+/** Turns a Redis glob (`*`, `?`) into an anchored regular expression. */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char =>
+      char === '*'
+        ? '.*'
+        : char === '?'
+          ? '.'
+          : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The cache in this process: each instance has its own copy, and
+ * messages reach only its own subscribers. Expired keys are dropped when
+ * next touched; a `Map` kept in access order evicts the least recently
+ * used key once there are too many.
+ */
+export class MemoryCache implements CacheClient {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, Entry>();
+  private readonly channels = new Map<string, Set<MessageListener>>();
+  private readonly maxEntries: number;
+  private readonly clock: () => number;
+  private closed = false;
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10_000;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async ping(): Promise<string> {
+    this.assertOpen();
+    return 'PONG';
+  }
+
+  async get(key: string): Promise<string | null> {
+    this.assertOpen();
+    const entry = this.live(key);
+    if (!entry) return null;
+    // Move it to the back: most recently used.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    return Promise.all(keys.map(key => this.get(key)));
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}) {
+    this.assertOpen();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: options.ttlMs ? this.clock() + options.ttlMs : null,
+    });
+    this.evict();
+    return 'OK' as const;
+  }
+
+  async compareAndSet(
+    key: string,
+    expected: string | null,
+    value: string,
+    options: SetOptions = {}
+  ): Promise<boolean> {
+    this.assertOpen();
+    if ((this.live(key)?.value ?? null) !== expected) return false;
+    await this.set(key, value, options);
+    return true;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    this.assertOpen();
+    return keys.filter(key => this.live(key) && this.entries.delete(key))
+      .length;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    this.assertOpen();
+    return this.live(key) !== null;
+  }
+
+  async pexpire(key: string, ttlMs: number): Promise<boolean> {
+    this.assertOpen();
+    const entry = this.live(key);
+    if (!entry) return false;
+    entry.expiresAt = this.clock() + ttlMs;
+    return true;
+  }
+
+  async pttl(key: string): Promise<number> {
+    this.assertOpen();
+    const entry = this.live(key);
+    if (!entry) return -2;
+    return entry.expiresAt === null ? -1 : entry.expiresAt - this.clock();
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    this.assertOpen();
+    const matcher = globToRegExp(pattern);
+    return Array.from(this.entries.keys()).filter(
+      key => this.live(key) && matcher.test(key)
+    );
+  }
+
+  async publish(channel: string, message: string): Promise<number> {
+    this.assertOpen();
+    const listeners = Array.from(this.channels.get(channel) ?? []);
+    // Delivered later, as from a server, so publishers never re-enter.
+    queueMicrotask(() =>
+      listeners.forEach(listener => {
+        try {
+          listener(message, channel);
+        } catch (error) {
+          console.error(`Cache subscriber to ${channel} failed`, error);
+        }
+      })
+    );
+    return listeners.length;
+  }
+
+  async subscribe(
+    channel: string,
+    listener: MessageListener
+  ): Promise<() => Promise<void>> {
+    this.assertOpen();
+    const listeners = this.channels.get(channel) ?? new Set();
+    // Wrapped so the same function can subscribe twice.
+    const subscription: MessageListener = (message, from) =>
+      listener(message, from);
+    listeners.add(subscription);
+    this.channels.set(channel, listeners);
+    return async () => {
+      listeners.delete(subscription);
+      if (listeners.size === 0) this.channels.delete(channel);
+    };
+  }
+
+  async flushall() {
+    this.assertOpen();
+    this.entries.clear();
+    return 'OK' as const;
+  }
+
+  async quit() {
+    this.closed = true;
+    this.entries.clear();
+    this.channels.clear();
+    return 'OK' as const;
+  }
+
+  /** The entry under `key`, dropping it if it has expired. */
+  private live(key: string): Entry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= this.clock()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new CacheError('CLOSED', 'The cache connection is closed');
+    }
+  }
+}
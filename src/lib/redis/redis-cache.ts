@@ -0,0 +1,201 @@
+import Redis from 'ioredis';
+import {
+  CacheError,
+  type CacheClient,
+  type MessageListener,
+  type SetOptions,
+} from './types';
+
+/**
+ * Compare-and-set as one script, which Redis runs without interleaving.
+ * ARGV: whether a value is expected, the expected value, the new value and
+ * a time to live in milliseconds (0: none).
+ */
+const COMPARE_AND_SET = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '1' then
+  if current ~= ARGV[2] then return 0 end
+elseif current then
+  return 0
+end
+if ARGV[4] == '0' then
+  redis.call('SET', KEYS[1], ARGV[3])
+else
+  redis.call('SET', KEYS[1], ARGV[3], 'PX', ARGV[4])
+end
+return 1
+`;
+
+export interface RedisCacheOptions {
+  /** E.g. `redis://localhost:6379/0`. */
+  url: string;
+}
+
+/**
+ * A Redis server, shared by every instance of the app. Subscriptions use a
+ * second connection, since a subscribed Redis connection can run nothing
+ * else; it is opened on the first subscription.
+ */
+export class RedisCache implements CacheClient {
+  readonly name = 'redis';
+  private readonly client: Redis;
+  private subscriber: Redis | null = null;
+  private readonly channels = new Map<string, Set<MessageListener>>();
+
+  constructor(options: RedisCacheOptions) {
+    this.client = new Redis(options.url, {
+      lazyConnect: true,
+      // Fail fast rather than queue commands while Redis is away.
+      maxRetriesPerRequest: 1,
+    });
+    this.client.on('error', error =>
+      console.error('Redis connection error', error)
+    );
+  }
+
+  ping(): Promise<string> {
+    return this.command(() => this.client.ping());
+  }
+
+  get(key: string): Promise<string | null> {
+    return this.command(() => this.client.get(key));
+  }
+
+  mget(keys: string[]): Promise<(string | null)[]> {
+    if (keys.length === 0) return Promise.resolve([]);
+    return this.command(() => this.client.mget(keys));
+  }
+
+  set(key: string, value: string, options: SetOptions = {}): Promise<'OK'> {
+    return this.command(() =>
+      options.ttlMs
+        ? this.client.set(key, value, 'PX', options.ttlMs)
+        : this.client.set(key, value)
+    );
+  }
+
+  async compareAndSet(
+    key: string,
+    expected: string | null,
+    value: string,
+    options: SetOptions = {}
+  ): Promise<boolean> {
+    const swapped = await this.command(() =>
+      this.client.eval(
+        COMPARE_AND_SET,
+        1,
+        key,
+        expected === null ? '0' : '1',
+        expected ?? '',
+        value,
+        options.ttlMs ?? 0
+      )
+    );
+    return swapped === 1;
+  }
+
+  del(...keys: string[]): Promise<number> {
+    if (keys.length === 0) return Promise.resolve(0);
+    return this.command(() => this.client.del(keys));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.command(() => this.client.exists(key))) > 0;
+  }
+
+  async pexpire(key: string, ttlMs: number): Promise<boolean> {
+    return (await this.command(() => this.client.pexpire(key, ttlMs))) === 1;
+  }
+
+  pttl(key: string): Promise<number> {
+    return this.command(() => this.client.pttl(key));
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const found: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.command(() =>
+        this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 500)
+      );
+      found.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+    return Array.from(new Set(found));
+  }
+
+  publish(channel: string, message: string): Promise<number> {
+    return this.command(() => this.client.publish(channel, message));
+  }
+
+  async subscribe(
+    channel: string,
+    listener: MessageListener
+  ): Promise<() => Promise<void>> {
+    const subscriber = this.subscriberConnection();
+    let listeners = this.channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(channel, listeners);
+      await this.command(() => subscriber.subscribe(channel));
+    }
+    const subscription: MessageListener = (message, from) =>
+      listener(message, from);
+    listeners.add(subscription);
+    return async () => {
+      const current = this.channels.get(channel);
+      if (!current?.delete(subscription) || current.size > 0) return;
+      this.channels.delete(channel);
+      await subscriber.unsubscribe(channel);
+    };
+  }
+
+  flushall(): Promise<'OK'> {
+    return this.command(() => this.client.flushall());
+  }
+
+  async quit(): Promise<'OK'> {
+    this.channels.clear();
+    await Promise.all(
+      [this.client, this.subscriber].map(connection =>
+        connection?.status === 'wait'
+          ? connection.disconnect()
+          : connection?.quit()
+      )
+    );
+    return 'OK';
+  }
+
+  private subscriberConnection(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate();
+      this.subscriber.on('error', error =>
+        console.error('Redis subscriber error', error)
+      );
+      this.subscriber.on('message', (channel: string, message: string) => {
+        this.channels.get(channel)?.forEach(listener => {
+          try {
+            listener(message, channel);
+          } catch (error) {
+            console.error(`Cache subscriber to ${channel} failed`, error);
+          }
+        });
+      });
+    }
+    return this.subscriber;
+  }
+
+  private async command<T>(run: () => Promise<T>): Promise<T> {
+    if (this.client.status === 'end') {
+      throw new CacheError('CLOSED', 'The cache connection is closed');
+    }
+    try {
+      return await run();
+    } catch (error) {
+      throw new CacheError(
+        'CONNECTION_FAILED',
+        `Redis command failed: ${(error as Error).message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,60 @@
+export interface SetOptions {
+  /** Expires the key after this many milliseconds. */
+  ttlMs?: number;
+}
+
+export type MessageListener = (message: string, channel: string) => void;
+
+/**
+ * The Redis commands the app relies on, so the in-process cache and a
+ * Redis server are interchangeable. Values are strings, as in Redis; the
+ * typed helpers serialize. Missing keys read as `null`.
+ */
+export interface CacheClient {
+  readonly name: string;
+  ping(): Promise<string>;
+  get(key: string): Promise<string | null>;
+  mget(keys: string[]): Promise<(string | null)[]>;
+  set(key: string, value: string, options?: SetOptions): Promise<'OK'>;
+  /**
+   * Sets the key only if it still holds `expected` (`null`: is missing),
+   * atomically; resolves to whether it did.
+   */
+  compareAndSet(
+    key: string,
+    expected: string | null,
+    value: string,
+    options?: SetOptions
+  ): Promise<boolean>;
+  /** Resolves to how many of the keys existed. */
+  del(...keys: string[]): Promise<number>;
+  exists(key: string): Promise<boolean>;
+  /** Resolves to whether the key existed. */
+  pexpire(key: string, ttlMs: number): Promise<boolean>;
+  /** Milliseconds to live; `-1` without an expiry, `-2` if missing. */
+  pttl(key: string): Promise<number>;
+  /** Keys matching a glob pattern (`*` and `?`). Scans every key. */
+  keys(pattern: string): Promise<string[]>;
+  /** Resolves to how many subscribers received the message. */
+  publish(channel: string, message: string): Promise<number>;
+  /** Resolves once subscribed, to a function that unsubscribes. */
+  subscribe(
+    channel: string,
+    listener: MessageListener
+  ): Promise<() => Promise<void>>;
+  flushall(): Promise<'OK'>;
+  /** Closes the connection; the client is unusable afterwards. */
+  quit(): Promise<'OK'>;
+}
+
+export type CacheErrorCode = 'UNKNOWN_STORE' | 'CONNECTION_FAILED' | 'CLOSED';
+
+export class CacheError extends Error {
+  constructor(
+    readonly code: CacheErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CacheError';
+  }
+}
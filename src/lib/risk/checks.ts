@@ -0,0 +1,155 @@
+import type { RiskCheck, RiskInput, RiskLimits, RiskViolation } from './types';
+
+/** Shares by which the order grows the position, long or short. */
+function addedShares({ position, quantity }: RiskInput): number {
+  return Math.max(0, Math.abs(position + quantity) - Math.abs(position));
+}
+
+function noReferencePrice(input: RiskInput): RiskViolation {
+  return {
+    code: 'NO_REFERENCE_PRICE',
+    message: `No market price for ${input.order.symbol} to check the order against`,
+  };
+}
+
+export const restrictedSymbol: RiskCheck = ({ order }, limits) =>
+  limits.restrictedSymbols?.includes(order.symbol)
+    ? {
+        code: 'RESTRICTED_SYMBOL',
+        message: `${order.symbol} is on the restricted list`,
+      }
+    : null;
+
+/** Fat-finger check: limit and stop prices near the market. */
+export const priceBand: RiskCheck = (input, limits) => {
+  const band = limits.priceBandPercent;
+  const { order, referencePrice } = input;
+  const prices = [order.limitPrice, order.stopPrice].filter(
+    (price): price is number => price !== undefined
+  );
+  if (band === undefined || prices.length === 0) return null;
+  if (referencePrice === null) return noReferencePrice(input);
+  for (const price of prices) {
+    const deviation = Math.abs(price / referencePrice - 1) * 100;
+    if (deviation > band) {
+      return {
+        code: 'PRICE_BAND',
+        message: `Price ${price} is ${deviation.toFixed(1)}% from the market price ${referencePrice}, more than the ${band}% allowed`,
+        limit: band,
+        value: deviation,
+      };
+    }
+  }
+  return null;
+};
+
+export const maxOrderNotional: RiskCheck = (input, limits) => {
+  const max = limits.maxOrderNotional;
+  if (max === undefined) return null;
+  if (input.price === null) return noReferencePrice(input);
+  const notional = Math.abs(input.quantity) * input.price;
+  return notional > max
+    ? {
+        code: 'MAX_ORDER_NOTIONAL',
+        message: `Order value ${notional.toFixed(2)} exceeds the ${max} limit`,
+        limit: max,
+        value: notional,
+      }
+    : null;
+};
+
+/** The position if this order and the open ones on its side all fill. */
+export const maxPositionSize: RiskCheck = (input, limits) => {
+  const max = limits.maxPositionQuantity;
+  if (max === undefined || addedShares(input) === 0) return null;
+  const pending = input.quantity > 0 ? input.pendingBuys : -input.pendingSells;
+  const projected = Math.abs(input.position + pending + input.quantity);
+  return projected > max
+    ? {
+        code: 'MAX_POSITION_SIZE',
+        message: `Position in ${input.order.symbol} would reach ${projected} shares, above the ${max} limit`,
+        limit: max,
+        value: projected,
+      }
+    : null;
+};
+
+export const buyingPower: RiskCheck = (input, limits) => {
+  const { account } = input;
+  const added = addedShares(input);
+  if (limits.leverage === undefined || !account || added === 0) return null;
+  if (input.price === null) return noReferencePrice(input);
+  const exposure = account.positions.reduce(
+    (total, position) => total + Math.abs(position.marketValue),
+    0
+  );
+  const available =
+    account.equity * limits.leverage - exposure - input.pendingExposure;
+  const required = added * input.price;
+  return required > available
+    ? {
+        code: 'BUYING_POWER',
+        message: `Order needs ${required.toFixed(2)} of buying power; ${Math.max(0, available).toFixed(2)} is available`,
+        limit: available,
+        value: required,
+      }
+    : null;
+};
+
+export const maxDailyLoss: RiskCheck = (input, limits) => {
+  const max = limits.maxDailyLoss;
+  const { dailyPnl } = input;
+  if (max === undefined || dailyPnl === null || addedShares(input) === 0) {
+    return null;
+  }
+  return -dailyPnl >= max
+    ? {
+        code: 'MAX_DAILY_LOSS',
+        message: `Today's loss of ${(-dailyPnl).toFixed(2)} has reached the ${max} limit; only orders that reduce positions are allowed`,
+        limit: max,
+        value: -dailyPnl,
+      }
+    : null;
+};
+
+export const concentration: RiskCheck = (input, limits) => {
+  const max = limits.maxConcentration;
+  const { account } = input;
+  if (max === undefined || !account || addedShares(input) === 0) return null;
+  if (input.price === null) return noReferencePrice(input);
+  const value = Math.abs(input.position + input.quantity) * input.price;
+  const share = account.equity > 0 ? value / account.equity : Infinity;
+  return share > max
+    ? {
+        code: 'CONCENTRATION',
+        message: `${input.order.symbol} would be ${(share * 100).toFixed(1)}% of equity, above the ${max * 100}% limit`,
+        limit: max,
+        value: share,
+      }
+    : null;
+};
+
+/** Run in this order; a request reports every violation, once per code. */
+export const RISK_CHECKS: readonly RiskCheck[] = [
+  restrictedSymbol,
+  priceBand,
+  maxOrderNotional,
+  maxPositionSize,
+  buyingPower,
+  maxDailyLoss,
+  concentration,
+];
+
+export function runRiskChecks(
+  input: RiskInput,
+  limits: RiskLimits
+): RiskViolation[] {
+  const violations: RiskViolation[] = [];
+  RISK_CHECKS.forEach(check => {
+    const violation = check(input, limits);
+    if (violation && !violations.some(v => v.code === violation.code)) {
+      violations.push(violation);
+    }
+  });
+  return violations;
+}
@@ -0,0 +1,142 @@
+import type {
+  ManagedOrder,
+  PreTradeCheck,
+  PreTradeRequest,
+} from '../oms/types';
+import type { PortfolioSnapshot } from '../portfolio/types';
+import { runRiskChecks } from './checks';
+import type {
+  KillSwitchState,
+  RiskInput,
+  RiskLimits,
+  RiskViolation,
+} from './types';
+
+export interface RiskEngineOptions {
+  /** The account's portfolio, marked to market; `null` if it has none. */
+  account: (accountId: string) => Promise<PortfolioSnapshot | null>;
+  /** Latest market price of a symbol, if known. */
+  referencePrice: (symbol: string) => Promise<number | null>;
+  clock?: () => number;
+}
+
+/**
+ * Pre-trade risk: checks each order against the configured limits before
+ * the OMS lets it reach a broker, and holds the kill switch that stops
+ * all trading. Pass {@link check} to the OMS as a pre-trade check.
+ */
+export class RiskEngine {
+  private current: RiskLimits;
+  private halt: KillSwitchState = { engaged: false };
+  /** Equity at each account's first check of the (UTC) day. */
+  private readonly baselines = new Map<
+    string,
+    { day: string; equity: number }
+  >();
+  private readonly clock: () => number;
+
+  constructor(
+    limits: RiskLimits,
+    private readonly options: RiskEngineOptions
+  ) {
+    this.current = { ...limits };
+    this.clock = options.clock ?? Date.now;
+  }
+
+  readonly check: PreTradeCheck = request => this.evaluate(request);
+
+  get limits(): RiskLimits {
+    return { ...this.current };
+  }
+
+  setLimits(limits: RiskLimits): void {
+    this.current = { ...limits };
+  }
+
+  killSwitch(): KillSwitchState {
+    return { ...this.halt };
+  }
+
+  /**
+   * Rejects every order from now on. Cancelling what is already open is
+   * up to the caller, which owns the OMS.
+   */
+  engageKillSwitch(reason: string): KillSwitchState {
+    if (!this.halt.engaged) {
+      this.halt = { engaged: true, reason, since: this.clock() };
+    }
+    return this.killSwitch();
+  }
+
+  releaseKillSwitch(): KillSwitchState {
+    this.halt = { engaged: false };
+    return this.killSwitch();
+  }
+
+  async evaluate(request: PreTradeRequest): Promise<RiskViolation[]> {
+    if (this.halt.engaged) {
+      return [
+        {
+          code: 'KILL_SWITCH',
+          message: `Trading is halted: ${this.halt.reason}`,
+        },
+      ];
+    }
+    return runRiskChecks(await this.input(request), this.current);
+  }
+
+  private async input(request: PreTradeRequest): Promise<RiskInput> {
+    const { order, openOrders } = request;
+    const [account, referencePrice] = await Promise.all([
+      this.options.account(order.accountId),
+      this.options.referencePrice(order.symbol),
+    ]);
+    const positions = new Map(
+      (account?.positions ?? []).map(p => [p.symbol, p] as const)
+    );
+    const remaining = (o: ManagedOrder) => o.quantity - o.filledQuantity;
+    const sameSymbol = openOrders.filter(o => o.symbol === order.symbol);
+    const sum = (orders: ManagedOrder[]) =>
+      orders.reduce((total, o) => total + remaining(o), 0);
+
+    // Open orders that would grow their position tie up buying power.
+    const prices = new Map<string, number | null>([
+      [order.symbol, referencePrice],
+    ]);
+    let pendingExposure = 0;
+    for (const open of openOrders) {
+      const held = positions.get(open.symbol)?.quantity ?? 0;
+      if (held !== 0 && held > 0 !== (open.side === 'buy')) continue;
+      if (!prices.has(open.symbol)) {
+        prices.set(open.symbol, await this.options.referencePrice(open.symbol));
+      }
+      const price =
+        open.limitPrice ?? open.stopPrice ?? prices.get(open.symbol) ?? 0;
+      pendingExposure += remaining(open) * price;
+    }
+
+    const signed = order.side === 'buy' ? 1 : -1;
+    return {
+      order,
+      quantity: signed * remaining(order),
+      referencePrice,
+      price: order.limitPrice ?? order.stopPrice ?? referencePrice,
+      account,
+      position: positions.get(order.symbol)?.quantity ?? 0,
+      pendingBuys: sum(sameSymbol.filter(o => o.side === 'buy')),
+      pendingSells: sum(sameSymbol.filter(o => o.side === 'sell')),
+      pendingExposure,
+      dailyPnl: account ? this.dailyPnl(order.accountId, account.equity) : null,
+    };
+  }
+
+  private dailyPnl(accountId: string, equity: number): number {
+    const day = new Date(this.clock()).toISOString().slice(0, 10);
+    const baseline = this.baselines.get(accountId);
+    if (!baseline || baseline.day !== day) {
+      this.baselines.set(accountId, { day, equity });
+      return 0;
+    }
+    return equity - baseline.equity;
+  }
+}
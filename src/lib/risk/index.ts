@@ -0,0 +1,69 @@
+import { getMarketDataProvider } from '../marketdata';
+import { getPortfolio, markToMarket } from '../portfolio';
+import { setSingleton, singleton } from '../singleton';
+import { RiskEngine } from './engine';
+import type { RiskLimits } from './types';
+
+export * from './types';
+export * from './checks';
+export { RiskEngine, type RiskEngineOptions } from './engine';
+
+const RISK_KEY = 'risk';
+
+/**
+ * Limits from `RISK_*` variables. Unset or invalid ones are not checked,
+ * except leverage, which defaults to a cash account.
+ */
+export function riskLimitsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): RiskLimits {
+  const positive = (name: string) => {
+    const value = Number(env[name]);
+    return value > 0 ? value : undefined;
+  };
+  const concentration = positive('RISK_MAX_CONCENTRATION');
+  const restricted = (env.RISK_RESTRICTED_SYMBOLS ?? '')
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(Boolean);
+  const limits: RiskLimits = {
+    maxPositionQuantity: positive('RISK_MAX_POSITION_QUANTITY'),
+    maxOrderNotional: positive('RISK_MAX_ORDER_NOTIONAL'),
+    leverage: positive('RISK_LEVERAGE') ?? 1,
+    maxDailyLoss: positive('RISK_MAX_DAILY_LOSS'),
+    maxConcentration:
+      concentration !== undefined && concentration <= 1
+        ? concentration
+        : undefined,
+    restrictedSymbols: restricted.length > 0 ? restricted : undefined,
+    priceBandPercent: positive('RISK_PRICE_BAND_PERCENT'),
+  };
+  (Object.keys(limits) as (keyof RiskLimits)[]).forEach(key => {
+    if (limits[key] === undefined) delete limits[key];
+  });
+  return limits;
+}
+
+/** The shared risk engine, checking each account against its portfolio. */
+export function getRiskEngine(): RiskEngine {
+  return singleton(
+    RISK_KEY,
+    () =>
+      new RiskEngine(riskLimitsFromEnv(), {
+        account: async accountId => {
+          const portfolio = getPortfolio(accountId);
+          await markToMarket(portfolio, getMarketDataProvider());
+          return portfolio.snapshot();
+        },
+        referencePrice: async symbol => {
+          const quote = await getMarketDataProvider().getQuote(symbol);
+          return quote && quote.last > 0 ? quote.last : null;
+        },
+      })
+  );
+}
+
+/** Overrides the shared risk engine, e.g. in tests. */
+export function setRiskEngine(engine: RiskEngine | undefined): void {
+  setSingleton(RISK_KEY, engine);
+}
@@ -0,0 +1,72 @@
+import type { ManagedOrder, RejectReason } from '../oms/types';
+import type { PortfolioSnapshot } from '../portfolio/types';
+
+/** Every limit is optional; an unset limit is not checked. */
+export interface RiskLimits {
+  /** Largest position, long or short, in shares, counting open orders. */
+  maxPositionQuantity?: number;
+  maxOrderNotional?: number;
+  /**
+   * Buying power is equity times leverage, less the gross value of
+   * positions and of open orders that add exposure. 1 is a cash account.
+   */
+  leverage?: number;
+  /** Orders that add exposure stop once the day's loss reaches this. */
+  maxDailyLoss?: number;
+  /** Largest share of equity one symbol may take, between 0 and 1. */
+  maxConcentration?: number;
+  restrictedSymbols?: string[];
+  /** How far from the reference price a limit or stop price may be. */
+  priceBandPercent?: number;
+}
+
+export type RiskCode =
+  | 'KILL_SWITCH'
+  | 'RESTRICTED_SYMBOL'
+  | 'NO_REFERENCE_PRICE'
+  | 'PRICE_BAND'
+  | 'MAX_ORDER_NOTIONAL'
+  | 'MAX_POSITION_SIZE'
+  | 'BUYING_POWER'
+  | 'MAX_DAILY_LOSS'
+  | 'CONCENTRATION';
+
+export interface RiskViolation extends RejectReason {
+  code: RiskCode;
+  /** The limit breached and the value that breached it. */
+  limit?: number;
+  value?: number;
+}
+
+/** What a check knows about the order and the account placing it. */
+export interface RiskInput {
+  order: ManagedOrder;
+  /** Shares still to trade, signed: positive buys, negative sells. */
+  quantity: number;
+  /** Latest market price of the symbol, if known. */
+  referencePrice: number | null;
+  /** The order's limit or stop price, else the reference price. */
+  price: number | null;
+  /** `null` for accounts without a portfolio ledger. */
+  account: PortfolioSnapshot | null;
+  /** Current position in the symbol, signed. */
+  position: number;
+  /** Shares of the account's other open orders in the symbol, by side. */
+  pendingBuys: number;
+  pendingSells: number;
+  /** Value of the account's other open orders that add exposure. */
+  pendingExposure: number;
+  /** Change in equity since the day's first check; `null` if unknown. */
+  dailyPnl: number | null;
+}
+
+export type RiskCheck = (
+  input: RiskInput,
+  limits: RiskLimits
+) => RiskViolation | null;
+
+export interface KillSwitchState {
+  engaged: boolean;
+  reason?: string;
+  since?: number;
+}
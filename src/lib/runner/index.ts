@@ -0,0 +1,41 @@
+import { getMarketDataProvider } from '../marketdata';
+import { getOrderManager } from '../oms';
+import { getPortfolio } from '../portfolio';
+import { setSingleton, singleton } from '../singleton';
+import { loadStrategy } from '../strategy';
+import { getMarketFeed, getStreamHub } from '../streaming';
+import { StrategyRunner } from './runner';
+
+export * from './types';
+export * from './requests';
+export * from './paper-run';
+export * from './runner';
+
+const RUNNER_KEY = 'runner';
+
+/**
+ * The shared strategy runner: runs trade through the shared order manager,
+ * in the paper account under their owner's id, on the shared market feed.
+ * Indicators warm up from the market data provider. A user may have
+ * `STRATEGY_MAX_RUNS` (default 3) going at once.
+ */
+export function getStrategyRunner(): StrategyRunner {
+  return singleton(RUNNER_KEY, () => {
+    const maxRuns = Number(process.env.STRATEGY_MAX_RUNS);
+    return new StrategyRunner({
+      load: loadStrategy,
+      oms: getOrderManager,
+      portfolio: getPortfolio,
+      hub: getStreamHub(),
+      feed: getMarketFeed(),
+      history: (symbol, query) =>
+        getMarketDataProvider().getBars(symbol, query),
+      maxRunsPerUser: maxRuns > 0 ? maxRuns : undefined,
+    });
+  });
+}
+
+/** Overrides the shared strategy runner, e.g. in tests. */
+export function setStrategyRunner(runner: StrategyRunner | undefined): void {
+  setSingleton(RUNNER_KEY, runner);
+}
@@ -0,0 +1,453 @@
+import type { Bar, BarQuery, Quote, Timeframe } from '../marketdata/types';
+import type { OrderManager } from '../oms/manager';
+import { isOpenStatus } from '../oms/state-machine';
+import type { OrderEvent } from '../oms/types';
+import type { PortfolioLedger } from '../portfolio/ledger';
+import type { Position as LedgerPosition } from '../portfolio/types';
+import { IndicatorSet } from '../strategy/indicators';
+import {
+  StrategyError,
+  type Fill,
+  type OrderRequest,
+  type Position,
+  type Strategy,
+  type StrategyContext,
+  type StrategyOrder,
+} from '../strategy/types';
+import type { StreamHub } from '../streaming/hub';
+import type { MarketFeed } from '../streaming/sources';
+import type {
+  RunLog,
+  RunStatus,
+  StrategyRun,
+  StrategyRunDetail,
+} from './types';
+
+export interface PaperRunOptions {
+  id: string;
+  userId: string;
+  /** The strategy as asked for: a built-in name or an upload's id. */
+  strategyRef: string;
+  strategy: Strategy;
+  symbols: string[];
+  oms: OrderManager;
+  /** The owner's portfolio, read afresh as it may be replaced. */
+  portfolio: () => PortfolioLedger;
+  hub: StreamHub;
+  feed: MarketFeed;
+  /** Closed bars, oldest first, to warm up indicators and history. */
+  history?: (symbol: string, query: BarQuery) => Promise<Bar[]>;
+  /** Bars of history loaded per symbol. Defaults to 250. */
+  warmupBars?: number;
+  /** The timeframe of the feed's bars. Defaults to `1m`. */
+  timeframe?: Timeframe;
+  /** Releases the strategy once the run is over, e.g. its sandbox. */
+  dispose?: () => Promise<void>;
+  clock?: () => number;
+}
+
+interface BarUpdate {
+  timeframe: Timeframe;
+  bar: Bar;
+}
+
+interface TrackedOrder {
+  order: StrategyOrder;
+  /** The order manager's id for it, once created. */
+  managedId: string | null;
+  open: boolean;
+  /** Cancelled by the strategy, whatever the order manager says next. */
+  cancelled: boolean;
+}
+
+const MAX_HISTORY = 1_000;
+const MAX_LOGS = 200;
+
+/**
+ * Runs a strategy against the live market in its owner's paper account,
+ * through the same {@link StrategyContext} as a backtest. Bars reach
+ * `onBar` once closed, as the market feed publishes them; orders go
+ * through the order manager, good till cancelled, and their fills come
+ * back to `onFill`. The feed publishes no trade prints, so `onTick` is
+ * never called.
+ *
+ * Hooks run one at a time, in the order things happened. A hook that
+ * throws fails the run; a run that ends cancels its open orders.
+ */
+export class PaperRun {
+  readonly id: string;
+  readonly userId: string;
+  private readonly strategy: Strategy;
+  private readonly symbols: string[];
+  private readonly clock: () => number;
+  private readonly startedAt: number;
+  private status: RunStatus = 'running';
+  private error: string | null = null;
+  private stoppedAt: number | null = null;
+  private time: number;
+  /** Symbol of the event being handled, the default for indicators. */
+  private currentSymbol: string;
+  private readonly prices = new Map<string, number>();
+  private readonly bars = new Map<string, Bar[]>();
+  /** The latest bar of each symbol, still forming. */
+  private readonly forming = new Map<string, Bar>();
+  private readonly orders = new Map<string, TrackedOrder>();
+  private readonly logs: RunLog[] = [];
+  private readonly indicators = new IndicatorSet();
+  private readonly context: StrategyContext;
+  private readonly detach: (() => void)[] = [];
+  private hooks: Promise<void> = Promise.resolve();
+  private sending: Promise<void> = Promise.resolve();
+  private orderSeq = 0;
+
+  constructor(private readonly options: PaperRunOptions) {
+    this.id = options.id;
+    this.userId = options.userId;
+    this.strategy = options.strategy;
+    this.symbols = [...options.symbols];
+    this.clock = options.clock ?? Date.now;
+    this.startedAt = this.clock();
+    this.time = this.startedAt;
+    this.currentSymbol = this.symbols[0] ?? '';
+    this.context = this.createContext();
+  }
+
+  /**
+   * Calls `onStart`, warms up from history and starts following the
+   * market. Rejects, with the run failed and its strategy disposed, if
+   * either throws.
+   */
+  async start(): Promise<void> {
+    try {
+      await this.strategy.onStart?.(this.context);
+      this.indicators.seal();
+      await Promise.all(this.symbols.map(symbol => this.warmUp(symbol)));
+    } catch (error) {
+      await this.end('failed', error);
+      throw error;
+    }
+
+    const { hub, feed, oms } = this.options;
+    const subscription = hub.subscribe({
+      channels: ['quotes', 'bars'],
+      symbols: this.symbols,
+    });
+    void (async () => {
+      for (;;) {
+        const event = await subscription.next();
+        if (!event) return;
+        if (event.channel === 'quotes') {
+          const quote = event.data as Quote;
+          this.prices.set(quote.symbol, quote.last);
+        } else {
+          this.onBarUpdate(event.data as BarUpdate);
+        }
+      }
+    })();
+    this.detach.push(
+      () => subscription.close(),
+      feed.watch(this.symbols),
+      oms.subscribe(event => this.onOrderEvent(event))
+    );
+  }
+
+  /**
+   * Stops once the hooks already queued have run: calls `onStop` and
+   * cancels the run's open orders.
+   */
+  stop(): Promise<void> {
+    this.hooks = this.hooks.then(async () => {
+      if (this.status !== 'running') return;
+      try {
+        await this.strategy.onStop?.(this.context);
+      } catch (error) {
+        this.log(`onStop failed: ${(error as Error).message}`);
+      }
+      await this.end('stopped');
+    });
+    return this.hooks;
+  }
+
+  /** Resolves once every hook queued so far has run. */
+  idle(): Promise<void> {
+    return this.hooks;
+  }
+
+  summary(): StrategyRun {
+    return {
+      id: this.id,
+      userId: this.userId,
+      strategy: this.options.strategyRef,
+      symbols: [...this.symbols],
+      status: this.status,
+      startedAt: this.startedAt,
+      stoppedAt: this.stoppedAt,
+      error: this.error,
+      orderCount: this.orders.size,
+    };
+  }
+
+  detail(): StrategyRunDetail {
+    return {
+      ...this.summary(),
+      openOrders: this.openOrders(),
+      logs: this.logs.map(log => ({ ...log })),
+    };
+  }
+
+  private async warmUp(symbol: string): Promise<void> {
+    if (!this.options.history) return;
+    const bars = await this.options.history(symbol, {
+      timeframe: this.options.timeframe ?? '1m',
+      limit: this.options.warmupBars ?? 250,
+    });
+    // The latest bar may still be forming; it counts once the next starts.
+    const latest = bars[bars.length - 1];
+    if (latest) this.forming.set(symbol, latest);
+    bars.slice(0, -1).forEach(bar => this.addBar(bar));
+  }
+
+  private onBarUpdate({ bar }: BarUpdate): void {
+    const previous = this.forming.get(bar.symbol);
+    this.forming.set(bar.symbol, bar);
+    this.prices.set(bar.symbol, bar.close);
+    if (!previous || bar.timestamp <= previous.timestamp) return;
+    this.call(previous.symbol, previous.timestamp, async () => {
+      this.addBar(previous);
+      await this.strategy.onBar?.(previous, this.context);
+    });
+  }
+
+  private addBar(bar: Bar): void {
+    let bars = this.bars.get(bar.symbol);
+    if (!bars) {
+      bars = [];
+      this.bars.set(bar.symbol, bars);
+    }
+    bars.push(bar);
+    if (bars.length > MAX_HISTORY) bars.shift();
+    this.prices.set(bar.symbol, bar.close);
+    this.indicators.update(bar);
+  }
+
+  private onOrderEvent(event: OrderEvent): void {
+    const { order } = event;
+    const tracked =
+      order.accountId === this.userId && order.clientOrderId
+        ? this.orders.get(order.clientOrderId)
+        : undefined;
+    if (!tracked) return;
+    tracked.managedId = order.id;
+    tracked.open = !tracked.cancelled && isOpenStatus(order.status);
+    if (event.type !== 'fill') return;
+
+    const { fill: execution } = event;
+    const fill: Fill = {
+      id: execution.id,
+      orderId: tracked.order.id,
+      symbol: execution.symbol,
+      side: execution.side,
+      quantity: execution.quantity,
+      price: execution.price,
+      commission: execution.commission,
+      // A live fill has no undisturbed price to compare against.
+      slippage: 0,
+      timestamp: execution.timestamp,
+    };
+    this.call(fill.symbol, fill.timestamp, () =>
+      this.strategy.onFill?.(fill, this.context)
+    );
+  }
+
+  /** Queues a hook call after those before it, while the run lasts. */
+  private call(
+    symbol: string,
+    time: number,
+    hook: () => void | Promise<void>
+  ): void {
+    this.hooks = this.hooks.then(async () => {
+      if (this.status !== 'running') return;
+      this.time = time;
+      this.currentSymbol = symbol;
+      try {
+        await hook();
+      } catch (error) {
+        await this.end('failed', error);
+      }
+    });
+  }
+
+  private async end(status: 'stopped' | 'failed', error?: unknown) {
+    if (this.status !== 'running') return;
+    this.status = status;
+    this.stoppedAt = this.clock();
+    if (error !== undefined) {
+      this.error = error instanceof Error ? error.message : String(error);
+    }
+    this.detach.forEach(stop => stop());
+    await this.sending;
+    await Promise.all(
+      Array.from(this.orders.values())
+        .filter(tracked => tracked.open)
+        .map(async tracked => {
+          tracked.open = false;
+          if (!tracked.managedId) return;
+          await this.options.oms.cancel(tracked.managedId).catch(error => {
+            this.log(`Cancelling ${tracked.order.id} failed: ${error.message}`);
+          });
+        })
+    );
+    await this.options.dispose?.().catch(cause => {
+      console.error(`Disposing strategy run ${this.id} failed`, cause);
+    });
+  }
+
+  private submit(request: OrderRequest): string {
+    const type = request.type ?? 'market';
+    if (!this.symbols.includes(request.symbol)) {
+      throw new StrategyError(
+        'RUNTIME_ERROR',
+        `${request.symbol} is not part of this run`
+      );
+    }
+    if (!(request.quantity > 0)) {
+      throw new StrategyError(
+        'RUNTIME_ERROR',
+        'Order quantity must be positive'
+      );
+    }
+    if (type === 'limit' && !(request.limitPrice! > 0)) {
+      throw new StrategyError(
+        'RUNTIME_ERROR',
+        'Limit orders need a positive limitPrice'
+      );
+    }
+    if (type === 'stop' && !(request.stopPrice! > 0)) {
+      throw new StrategyError(
+        'RUNTIME_ERROR',
+        'Stop orders need a positive stopPrice'
+      );
+    }
+
+    const order: StrategyOrder = {
+      id: `${this.id}:${++this.orderSeq}`,
+      symbol: request.symbol,
+      side: request.side,
+      quantity: request.quantity,
+      type,
+      limitPrice: type === 'limit' ? request.limitPrice : undefined,
+      stopPrice: type === 'stop' ? request.stopPrice : undefined,
+      submittedAt: this.time,
+    };
+    const tracked: TrackedOrder = {
+      order,
+      managedId: null,
+      open: true,
+      cancelled: false,
+    };
+    this.orders.set(order.id, tracked);
+    this.sending = this.sending.then(async () => {
+      try {
+        const { order: managed } = await this.options.oms.create({
+          accountId: this.userId,
+          clientOrderId: order.id,
+          symbol: order.symbol,
+          side: order.side,
+          quantity: order.quantity,
+          type: order.type,
+          limitPrice: order.limitPrice,
+          stopPrice: order.stopPrice,
+          timeInForce: 'gtc',
+        });
+        tracked.managedId = managed.id;
+        tracked.open = !tracked.cancelled && isOpenStatus(managed.status);
+        if (managed.status === 'rejected') {
+          this.log(`Order ${order.id} rejected: ${managed.rejectReason}`);
+        }
+        // Cancelled before it was even placed.
+        if (tracked.cancelled && isOpenStatus(managed.status)) {
+          await this.options.oms.cancel(managed.id);
+        }
+      } catch (error) {
+        tracked.open = false;
+        this.log(`Order ${order.id} failed: ${(error as Error).message}`);
+      }
+    });
+    return order.id;
+  }
+
+  private cancel(orderId: string): boolean {
+    const tracked = this.orders.get(orderId);
+    if (!tracked || !tracked.open) return false;
+    tracked.open = false;
+    tracked.cancelled = true;
+    const { managedId } = tracked;
+    if (managedId) {
+      this.sending = this.sending.then(() =>
+        this.options.oms.cancel(managedId).then(
+          () => undefined,
+          error => this.log(`Cancelling ${orderId} failed: ${error.message}`)
+        )
+      );
+    }
+    return true;
+  }
+
+  private openOrders(symbol?: string): StrategyOrder[] {
+    return Array.from(this.orders.values())
+      .filter(
+        tracked => tracked.open && (!symbol || tracked.order.symbol === symbol)
+      )
+      .map(tracked => ({ ...tracked.order }));
+  }
+
+  private log(message: string): void {
+    this.logs.push({ time: this.time, message });
+    if (this.logs.length > MAX_LOGS) this.logs.shift();
+  }
+
+  private createContext(): StrategyContext {
+    const run = this;
+    const ledger = () => this.options.portfolio();
+    const portfolio: StrategyContext['portfolio'] = {
+      get cash() {
+        return ledger().snapshot().cash;
+      },
+      get equity() {
+        return ledger().snapshot().equity;
+      },
+      position: symbol => toPosition(symbol, ledger().position(symbol)),
+      positions: () =>
+        ledger()
+          .positions()
+          .filter(position => position.quantity !== 0)
+          .map(position => toPosition(position.symbol, position)),
+    };
+
+    return {
+      mode: 'paper',
+      get time() {
+        return run.time;
+      },
+      symbols: [...this.symbols],
+      portfolio,
+      indicators: {
+        register: (name, spec) => run.indicators.register(name, spec),
+        value: (name, symbol) =>
+          run.indicators.value(name, symbol ?? run.currentSymbol),
+      },
+      price: symbol => run.prices.get(symbol),
+      history: (symbol, length) => (run.bars.get(symbol) ?? []).slice(-length),
+      openOrders: symbol => run.openOrders(symbol),
+      submitOrder: request => run.submit(request),
+      cancelOrder: orderId => run.cancel(orderId),
+      log: message => run.log(message),
+    };
+  }
+}
+
+function toPosition(symbol: string, held: LedgerPosition | null): Position {
+  return held
+    ? { symbol, quantity: held.quantity, averagePrice: held.averageCost }
+    : { symbol, quantity: 0, averagePrice: 0 };
+}
@@ -0,0 +1,27 @@
+import { Validator } from '../validation';
+import type { RunRequest } from './types';
+
+const MAX_SYMBOLS = 20;
+
+/** Validates a request to start a run, as sent to `/api/v1/strategy-runs`. */
+export function parseRunRequest(
+  input: unknown
+): { request: RunRequest; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const strategy = fields.string('strategy', true);
+  const params = fields.object('params');
+  const symbols = fields.stringArray('symbols', true);
+  const unique = Array.from(
+    new Set((symbols ?? []).map(symbol => symbol.trim().toUpperCase()))
+  );
+  if (unique.length > MAX_SYMBOLS) {
+    fields.fail('symbols', `must list at most ${MAX_SYMBOLS} symbols`);
+  }
+  if (!fields.valid || !strategy || !symbols) {
+    return { problems: fields.problems };
+  }
+  return {
+    problems: [],
+    request: { strategy, params: params?.values ?? {}, symbols: unique },
+  };
+}
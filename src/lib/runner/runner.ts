@@ -0,0 +1,132 @@
+import { randomUUID } from 'node:crypto';
+import type { Bar, BarQuery } from '../marketdata/types';
+import type { OrderManager } from '../oms/manager';
+import type { PortfolioLedger } from '../portfolio/ledger';
+import type { LoadedStrategy } from '../strategy';
+import type { StreamHub } from '../streaming/hub';
+import type { MarketFeed } from '../streaming/sources';
+import { PaperRun } from './paper-run';
+import {
+  RunnerError,
+  type RunRequest,
+  type StrategyRun,
+  type StrategyRunDetail,
+} from './types';
+
+export interface StrategyRunnerOptions {
+  /** Resolves a built-in name or one of the user's uploads. */
+  load: (
+    userId: string,
+    ref: string,
+    params: Record<string, unknown>
+  ) => Promise<LoadedStrategy>;
+  /** The order manager runs trade through, read once per run. */
+  oms: () => OrderManager;
+  portfolio: (accountId: string) => PortfolioLedger;
+  hub: StreamHub;
+  feed: MarketFeed;
+  history?: (symbol: string, query: BarQuery) => Promise<Bar[]>;
+  /** Runs a user may have going at once. Defaults to 3. */
+  maxRunsPerUser?: number;
+  /** Finished runs kept per user for inspection. Defaults to 20. */
+  keepFinished?: number;
+  clock?: () => number;
+}
+
+/**
+ * Starts, lists and stops strategies trading in their owners' paper
+ * accounts. Each user only ever sees their own runs; runs live as long
+ * as the process.
+ */
+export class StrategyRunner {
+  private readonly runs = new Map<string, PaperRun>();
+
+  constructor(private readonly options: StrategyRunnerOptions) {}
+
+  /**
+   * Loads the strategy and starts it. Rejects with the strategy's
+   * {@link StrategyError} if it cannot be loaded or its `onStart` throws,
+   * and with `TOO_MANY_RUNS` once the user has as many going as allowed.
+   */
+  async start(userId: string, request: RunRequest): Promise<StrategyRunDetail> {
+    const max = this.options.maxRunsPerUser ?? 3;
+    const running = this.owned(userId).filter(
+      run => run.summary().status === 'running'
+    );
+    if (running.length >= max) {
+      throw new RunnerError(
+        'TOO_MANY_RUNS',
+        `At most ${max} strategies may run at once; stop one first`
+      );
+    }
+
+    const loaded = await this.options.load(
+      userId,
+      request.strategy,
+      request.params
+    );
+    const run = new PaperRun({
+      id: randomUUID(),
+      userId,
+      strategyRef: request.strategy,
+      strategy: loaded.strategy,
+      symbols: request.symbols,
+      oms: this.options.oms(),
+      portfolio: () => this.options.portfolio(userId),
+      hub: this.options.hub,
+      feed: this.options.feed,
+      history: this.options.history,
+      dispose: () => loaded.dispose(),
+      clock: this.options.clock,
+    });
+    await run.start();
+    this.runs.set(run.id, run);
+    this.prune(userId);
+    return run.detail();
+  }
+
+  /** The user's runs, most recently started first. */
+  list(userId: string): StrategyRun[] {
+    return this.owned(userId)
+      .map(run => run.summary())
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /** Throws `NOT_FOUND` for unknown ids and other users' runs alike. */
+  get(userId: string, id: string): StrategyRunDetail {
+    return this.find(userId, id).detail();
+  }
+
+  /** Stops the run, if still going, and cancels its open orders. */
+  async stop(userId: string, id: string): Promise<StrategyRunDetail> {
+    const run = this.find(userId, id);
+    await run.stop();
+    return run.detail();
+  }
+
+  /** Stops every run, e.g. on shutdown. */
+  async stopAll(): Promise<void> {
+    await Promise.all(Array.from(this.runs.values()).map(run => run.stop()));
+  }
+
+  private find(userId: string, id: string): PaperRun {
+    const run = this.runs.get(id);
+    if (!run || run.userId !== userId) {
+      throw new RunnerError('NOT_FOUND', `Strategy run ${id} not found`);
+    }
+    return run;
+  }
+
+  private owned(userId: string): PaperRun[] {
+    return Array.from(this.runs.values()).filter(run => run.userId === userId);
+  }
+
+  /** Forgets the user's oldest finished runs beyond those kept. */
+  private prune(userId: string): void {
+    const keep = this.options.keepFinished ?? 20;
+    this.list(userId)
+      .filter(run => run.status !== 'running')
+      .slice(keep)
+      .forEach(run => this.runs.delete(run.id));
+  }
+}
@@ -0,0 +1,50 @@
+import type { StrategyOrder } from '../strategy/types';
+
+/** A run goes on until stopped, or until the strategy fails. */
+export type RunStatus = 'running' | 'stopped' | 'failed';
+
+export interface RunRequest {
+  /** A built-in name or an uploaded strategy id. */
+  strategy: string;
+  params: Record<string, unknown>;
+  symbols: string[];
+}
+
+export interface RunLog {
+  time: number;
+  message: string;
+}
+
+/** A strategy trading in its owner's paper account. */
+export interface StrategyRun {
+  id: string;
+  userId: string;
+  strategy: string;
+  symbols: string[];
+  status: RunStatus;
+  startedAt: number;
+  stoppedAt: number | null;
+  /** Why the run failed, if it did. */
+  error: string | null;
+  /** Orders submitted so far. */
+  orderCount: number;
+}
+
+export interface StrategyRunDetail extends StrategyRun {
+  /** The strategy's orders still working, under the ids it knows them by. */
+  openOrders: StrategyOrder[];
+  /** The latest `ctx.log` messages, oldest first. */
+  logs: RunLog[];
+}
+
+export type RunnerErrorCode = 'NOT_FOUND' | 'TOO_MANY_RUNS';
+
+export class RunnerError extends Error {
+  constructor(
+    readonly code: RunnerErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RunnerError';
+  }
+}
@@ -0,0 +1,155 @@
+import { resolveField, type ScreenerField } from './fields';
+import { formatQuery, parseQuery, queryFields } from './query';
+import {
+  ScreenerError,
+  type ComparisonOperator,
+  type Expression,
+  type FieldKind,
+  type FieldValue,
+  type Literal,
+  type Operand,
+} from './types';
+
+export interface CompiledQuery {
+  /** The query in canonical form. */
+  query: string;
+  expression: Expression;
+  fields: ScreenerField[];
+  /** Whether a symbol with these field values passes. */
+  test(values: Record<string, FieldValue>): boolean;
+}
+
+function kindOf(operand: Operand): FieldKind {
+  if (operand.type === 'field') return resolveField(operand.name).kind;
+  return typeof operand.value === 'number' ? 'number' : 'string';
+}
+
+function describe(operand: Operand): string {
+  return operand.type === 'field'
+    ? operand.name
+    : JSON.stringify(operand.value);
+}
+
+function literalKind(value: Literal): FieldKind {
+  return typeof value === 'number' ? 'number' : 'string';
+}
+
+/** Rejects comparisons between numbers and text, and ordering of text. */
+function check(expression: Expression): void {
+  switch (expression.type) {
+    case 'and':
+    case 'or':
+      check(expression.left);
+      check(expression.right);
+      return;
+    case 'not':
+      check(expression.operand);
+      return;
+    case 'compare': {
+      const { left, right, operator } = expression;
+      const kind = kindOf(left);
+      if (kind !== kindOf(right)) {
+        throw new ScreenerError(
+          'INVALID_QUERY',
+          `Cannot compare ${describe(left)} with ${describe(right)}`
+        );
+      }
+      if (kind === 'string' && operator !== '=' && operator !== '!=') {
+        throw new ScreenerError(
+          'INVALID_QUERY',
+          `Text can only be compared with = or !=, not ${operator}`
+        );
+      }
+      return;
+    }
+    case 'in': {
+      const { kind } = resolveField(expression.field);
+      const mismatch = expression.values.find(v => literalKind(v) !== kind);
+      if (mismatch !== undefined) {
+        throw new ScreenerError(
+          'INVALID_QUERY',
+          `${expression.field} is ${kind === 'number' ? 'a number' : 'text'} ` +
+            `and cannot be ${JSON.stringify(mismatch)}`
+        );
+      }
+    }
+  }
+}
+
+/** Text matches regardless of case; numbers exactly. */
+function normalize(value: FieldValue): FieldValue {
+  return typeof value === 'string' ? value.toLowerCase() : value;
+}
+
+function compare(
+  operator: ComparisonOperator,
+  left: FieldValue,
+  right: FieldValue
+): boolean {
+  // A missing value, e.g. an indicator still warming up, matches nothing.
+  if (left === null || right === null) return false;
+  const a = normalize(left)!;
+  const b = normalize(right)!;
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case '=':
+      return a === b;
+    case '!=':
+      return a !== b;
+  }
+}
+
+function evaluate(
+  expression: Expression,
+  values: Record<string, FieldValue>
+): boolean {
+  const read = (operand: Operand): FieldValue =>
+    operand.type === 'field' ? (values[operand.name] ?? null) : operand.value;
+  switch (expression.type) {
+    case 'and':
+      return (
+        evaluate(expression.left, values) && evaluate(expression.right, values)
+      );
+    case 'or':
+      return (
+        evaluate(expression.left, values) || evaluate(expression.right, values)
+      );
+    case 'not':
+      return !evaluate(expression.operand, values);
+    case 'compare':
+      return compare(
+        expression.operator,
+        read(expression.left),
+        read(expression.right)
+      );
+    case 'in': {
+      const value = normalize(values[expression.field] ?? null);
+      if (value === null) return false;
+      const found = expression.values.some(v => normalize(v) === value);
+      return found !== expression.negated;
+    }
+  }
+}
+
+/**
+ * Parses and type-checks a query into a predicate over field values. The
+ * query is only interpreted here; nothing of it reaches a database.
+ */
+export function compileQuery(source: string): CompiledQuery {
+  const expression = parseQuery(source);
+  const fields = queryFields(expression).map(resolveField);
+  check(expression);
+  return {
+    query: formatQuery(expression),
+    expression,
+    fields,
+    test: values => evaluate(expression, values),
+  };
+}
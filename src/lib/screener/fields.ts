@@ -0,0 +1,236 @@
+import { calculate, type IndicatorSpec } from '../indicators/registry';
+import {
+  FUNDAMENTAL_FIELDS,
+  type Bar,
+  type Quote,
+  type SymbolInfo,
+} from '../marketdata/types';
+import { ScreenerError, type FieldKind, type FieldValue } from './types';
+
+/** What a field is computed from, loaded once per symbol. */
+export interface SymbolData {
+  info: SymbolInfo;
+  quote: Quote | null;
+  /** Daily bars, oldest first. */
+  bars: Bar[];
+}
+
+export interface ScreenerField {
+  name: string;
+  kind: FieldKind;
+  /** Whether computing it needs bars, which are costlier to load. */
+  needsBars: boolean;
+  compute(data: SymbolData): FieldValue;
+}
+
+export interface FieldDescription {
+  name: string;
+  kind: FieldKind;
+  description: string;
+}
+
+/** Periods of parameterized fields such as `sma200`. */
+export const MAX_PERIOD = 250;
+
+const lastClose = (bars: Bar[]) =>
+  bars.length > 0 ? bars[bars.length - 1].close : null;
+
+function percentChange(bars: Bar[], period: number): number | null {
+  if (bars.length <= period) return null;
+  const from = bars[bars.length - 1 - period].close;
+  const to = bars[bars.length - 1].close;
+  return from > 0 ? ((to - from) / from) * 100 : null;
+}
+
+function lastIndicator(spec: IndicatorSpec, bars: Bar[]): number | null {
+  const values = calculate(spec, bars);
+  const value = values[values.length - 1];
+  return typeof value === 'number' ? value : null;
+}
+
+function text(
+  name: string,
+  description: string,
+  read: (info: SymbolInfo) => string
+) {
+  return {
+    field: {
+      name,
+      kind: 'string' as const,
+      needsBars: false,
+      compute: ({ info }: SymbolData) => read(info),
+    },
+    description,
+  };
+}
+
+const STATIC: { field: ScreenerField; description: string }[] = [
+  text('symbol', 'Ticker symbol', info => info.symbol),
+  text('name', 'Company or fund name', info => info.name),
+  text('exchange', 'Listing exchange', info => info.exchange),
+  text('sector', 'Sector, e.g. "Technology"', info => info.sector),
+  text('assetclass', '"equity" or "etf"', info => info.assetClass),
+  {
+    field: {
+      name: 'price',
+      kind: 'number',
+      needsBars: false,
+      compute: ({ quote }) => (quote && quote.last > 0 ? quote.last : null),
+    },
+    description: 'Last traded price',
+  },
+  {
+    field: {
+      name: 'marketcap',
+      kind: 'number',
+      needsBars: false,
+      compute: ({ info }) => info.marketCap ?? null,
+    },
+    description: 'Market capitalization',
+  },
+  {
+    field: {
+      name: 'close',
+      kind: 'number',
+      needsBars: true,
+      compute: ({ bars }) => lastClose(bars),
+    },
+    description: 'Latest daily close',
+  },
+  {
+    field: {
+      name: 'volume',
+      kind: 'number',
+      needsBars: true,
+      compute: ({ bars }) =>
+        bars.length > 0 ? bars[bars.length - 1].volume : null,
+    },
+    description: 'Latest daily volume',
+  },
+  {
+    field: {
+      name: 'change',
+      kind: 'number',
+      needsBars: true,
+      compute: ({ bars }) => percentChange(bars, 1),
+    },
+    description: 'Percent change of the latest daily close',
+  },
+  ...FUNDAMENTAL_FIELDS.map(key => ({
+    field: {
+      name: key.toLowerCase(),
+      kind: 'number' as const,
+      needsBars: false,
+      compute: ({ info }: SymbolData) => info.fundamentals?.[key] ?? null,
+    },
+    description: `Fundamental ratio ${key}`,
+  })),
+];
+
+const STATIC_FIELDS = new Map(
+  STATIC.map(({ field }) => [field.name, field] as const)
+);
+
+/** Fields taking a period of daily bars, e.g. `rsi14` or `avgvol20`. */
+const PERIODIC: Record<
+  string,
+  {
+    description: string;
+    compute: (bars: Bar[], period: number) => number | null;
+  }
+> = {
+  sma: {
+    description: 'Simple moving average of the close',
+    compute: (bars, period) => lastIndicator({ type: 'sma', period }, bars),
+  },
+  ema: {
+    description: 'Exponential moving average of the close',
+    compute: (bars, period) => lastIndicator({ type: 'ema', period }, bars),
+  },
+  wma: {
+    description: 'Weighted moving average of the close',
+    compute: (bars, period) => lastIndicator({ type: 'wma', period }, bars),
+  },
+  rsi: {
+    description: 'Relative strength index',
+    compute: (bars, period) => lastIndicator({ type: 'rsi', period }, bars),
+  },
+  atr: {
+    description: 'Average true range',
+    compute: (bars, period) => lastIndicator({ type: 'atr', period }, bars),
+  },
+  avgvol: {
+    description: 'Average daily volume',
+    compute: (bars, period) => {
+      if (bars.length < period) return null;
+      const window = bars.slice(-period);
+      return window.reduce((sum, bar) => sum + bar.volume, 0) / period;
+    },
+  },
+  high: {
+    description: 'Highest high',
+    compute: (bars, period) =>
+      bars.length < period
+        ? null
+        : Math.max(...bars.slice(-period).map(bar => bar.high)),
+  },
+  low: {
+    description: 'Lowest low',
+    compute: (bars, period) =>
+      bars.length < period
+        ? null
+        : Math.min(...bars.slice(-period).map(bar => bar.low)),
+  },
+  change: {
+    description: 'Percent change of the close',
+    compute: percentChange,
+  },
+};
+
+/**
+ * The field called `name` (case-insensitive). Throws `UNKNOWN_FIELD` for
+ * names that are not fields, and periods out of range.
+ */
+export function resolveField(name: string): ScreenerField {
+  const normalized = name.toLowerCase();
+  const known = STATIC_FIELDS.get(normalized);
+  if (known) return known;
+
+  const match = /^([a-z]+)(\d+)$/.exec(normalized);
+  const family =
+    match && Object.prototype.hasOwnProperty.call(PERIODIC, match[1])
+      ? PERIODIC[match[1]]
+      : undefined;
+  if (!match || !family) {
+    throw new ScreenerError('UNKNOWN_FIELD', `Unknown field "${name}"`);
+  }
+  const period = Number(match[2]);
+  if (period < 1 || period > MAX_PERIOD) {
+    throw new ScreenerError(
+      'UNKNOWN_FIELD',
+      `The period of "${name}" must be between 1 and ${MAX_PERIOD}`
+    );
+  }
+  return {
+    name: normalized,
+    kind: 'number',
+    needsBars: true,
+    compute: ({ bars }) => family.compute(bars, period),
+  };
+}
+
+/** Every field, for documentation; `N` stands for a period. */
+export function describeFields(): FieldDescription[] {
+  return [
+    ...STATIC.map(({ field, description }) => ({
+      name: field.name,
+      kind: field.kind,
+      description,
+    })),
+    ...Object.keys(PERIODIC).map(prefix => ({
+      name: `${prefix}N`,
+      kind: 'number' as const,
+      description: `${PERIODIC[prefix].description} over N daily bars`,
+    })),
+  ];
+}
@@ -0,0 +1,37 @@
+import { getMarketDataProvider } from '../marketdata';
+import { getMarketCache } from '../redis';
+import { setSingleton, singleton } from '../singleton';
+import { Screener } from './screener';
+import { InMemoryScreenStore, type ScreenStore } from './store';
+
+export * from './types';
+export * from './query';
+export * from './fields';
+export * from './compile';
+export * from './screener';
+export * from './store';
+export * from './requests';
+
+const SCREENER_KEY = 'screener';
+const STORE_KEY = 'screener.store';
+
+/** The shared screener over the market data provider's symbols. */
+export function getScreener(): Screener {
+  return singleton(
+    SCREENER_KEY,
+    () => new Screener(getMarketDataProvider(), { cache: getMarketCache() })
+  );
+}
+
+/** Overrides the shared screener, e.g. in tests. */
+export function setScreener(screener: Screener | undefined): void {
+  setSingleton(SCREENER_KEY, screener);
+}
+
+export function getScreenStore(): ScreenStore {
+  return singleton(STORE_KEY, () => new InMemoryScreenStore());
+}
+
+export function setScreenStore(store: ScreenStore | undefined): void {
+  setSingleton(STORE_KEY, store);
+}
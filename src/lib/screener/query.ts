@@ -0,0 +1,346 @@
+import {
+  ScreenerError,
+  type ComparisonOperator,
+  type Expression,
+  type Literal,
+  type Operand,
+} from './types';
+
+export const MAX_QUERY_LENGTH = 1_000;
+const MAX_DEPTH = 32;
+const MAX_IN_VALUES = 100;
+
+type Token =
+  | { type: 'number'; value: number; at: number }
+  | { type: 'string'; value: string; at: number }
+  | { type: 'word'; value: string; at: number }
+  | { type: 'operator'; value: ComparisonOperator; at: number }
+  | { type: 'punct'; value: '(' | ')' | ',' | '-'; at: number }
+  | { type: 'end'; at: number };
+
+const KEYWORDS = ['and', 'or', 'not', 'in'];
+
+const SUFFIXES: Record<string, number> = {
+  k: 1e3,
+  m: 1e6,
+  b: 1e9,
+  t: 1e12,
+};
+
+const OPERATORS: Record<string, ComparisonOperator> = {
+  '<=': '<=',
+  '>=': '>=',
+  '!=': '!=',
+  '<>': '!=',
+  '==': '=',
+  '<': '<',
+  '>': '>',
+  '=': '=',
+};
+
+function invalid(message: string, at: number): ScreenerError {
+  return new ScreenerError('INVALID_QUERY', `${message} at position ${at + 1}`);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const at = i;
+    const number =
+      /^(\d+(?:\.\d+)?|\.\d+)(?:e[+-]?\d+)?([kmbt](?![\w]))?/i.exec(
+        source.slice(i)
+      );
+    if (number) {
+      const suffix = number[2] ? SUFFIXES[number[2].toLowerCase()] : 1;
+      const digits = number[0].slice(0, number[0].length - (number[2] ? 1 : 0));
+      tokens.push({ type: 'number', value: Number(digits) * suffix, at });
+      i += number[0].length;
+      if (/\w/.test(source[i] ?? '')) {
+        throw invalid(`Invalid number "${number[0]}${source[i]}"`, at);
+      }
+      continue;
+    }
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (word) {
+      tokens.push({ type: 'word', value: word[0].toLowerCase(), at });
+      i += word[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw invalid('Unterminated string', at);
+      i++;
+      tokens.push({ type: 'string', value, at });
+      continue;
+    }
+    const operator = OPERATORS[source.slice(i, i + 2)] ?? OPERATORS[char];
+    if (operator) {
+      const length = OPERATORS[source.slice(i, i + 2)] ? 2 : 1;
+      tokens.push({ type: 'operator', value: operator, at });
+      i += length;
+      continue;
+    }
+    if (char === '(' || char === ')' || char === ',' || char === '-') {
+      tokens.push({ type: 'punct', value: char, at });
+      i++;
+      continue;
+    }
+    throw invalid(`Unexpected "${char}"`, at);
+  }
+  tokens.push({ type: 'end', at: source.length });
+  return tokens;
+}
+
+function describe(token: Token): string {
+  if (token.type === 'end') return 'end of query';
+  if (token.type === 'string') return JSON.stringify(token.value);
+  return `"${token.value}"`;
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.or();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw invalid(`Unexpected ${describe(next)}`, next.at);
+    }
+    return expression;
+  }
+
+  private or(): Expression {
+    let left = this.and();
+    while (this.keyword('or')) {
+      left = { type: 'or', left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Expression {
+    let left = this.unary();
+    while (this.keyword('and')) {
+      left = { type: 'and', left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): Expression {
+    if (++this.depth > MAX_DEPTH) {
+      throw invalid('Query is nested too deeply', this.peek().at);
+    }
+    let expression: Expression;
+    if (this.keyword('not')) {
+      expression = { type: 'not', operand: this.unary() };
+    } else if (this.punct('(')) {
+      expression = this.or();
+      this.expectPunct(')');
+    } else {
+      expression = this.comparison();
+    }
+    this.depth--;
+    return expression;
+  }
+
+  private comparison(): Expression {
+    const left = this.operand();
+    const negated = this.keyword('not');
+    if (negated || this.keyword('in')) {
+      if (negated && !this.keyword('in')) {
+        throw invalid(`Expected "in"`, this.peek().at);
+      }
+      if (left.type !== 'field') {
+        throw invalid('Expected a field before "in"', this.peek().at);
+      }
+      return { type: 'in', field: left.name, values: this.list(), negated };
+    }
+    const token = this.peek();
+    if (token.type !== 'operator') {
+      throw invalid(
+        `Expected a comparison, found ${describe(token)}`,
+        token.at
+      );
+    }
+    this.index++;
+    const right = this.operand();
+    if (left.type === 'literal' && right.type === 'literal') {
+      throw invalid('A comparison needs a field', token.at);
+    }
+    return { type: 'compare', operator: token.value, left, right };
+  }
+
+  private list(): Literal[] {
+    this.expectPunct('(');
+    const values: Literal[] = [];
+    do {
+      const operand = this.operand();
+      if (operand.type !== 'literal') {
+        throw invalid(
+          'Expected a number or string',
+          this.tokens[this.index - 1].at
+        );
+      }
+      values.push(operand.value);
+      if (values.length > MAX_IN_VALUES) {
+        throw invalid(
+          `At most ${MAX_IN_VALUES} values are allowed`,
+          this.peek().at
+        );
+      }
+    } while (this.punct(','));
+    this.expectPunct(')');
+    return values;
+  }
+
+  private operand(): Operand {
+    const token = this.peek();
+    if (token.type === 'punct' && token.value === '-') {
+      this.index++;
+      const number = this.peek();
+      if (number.type !== 'number') {
+        throw invalid(
+          `Expected a number, found ${describe(number)}`,
+          number.at
+        );
+      }
+      this.index++;
+      return { type: 'literal', value: -number.value };
+    }
+    if (token.type === 'number' || token.type === 'string') {
+      this.index++;
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'word' && !KEYWORDS.includes(token.value)) {
+      this.index++;
+      return { type: 'field', name: token.value };
+    }
+    throw invalid(
+      `Expected a field or value, found ${describe(token)}`,
+      token.at
+    );
+  }
+
+  private keyword(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'word' || token.value !== value) return false;
+    this.index++;
+    return true;
+  }
+
+  private punct(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'punct' || token.value !== value) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectPunct(value: string): void {
+    const token = this.peek();
+    if (!this.punct(value)) {
+      throw invalid(`Expected "${value}", found ${describe(token)}`, token.at);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+}
+
+/**
+ * Parses a screener query such as
+ * `rsi14 < 30 and sector = "Technology" and avgvol20 > 1e6`.
+ *
+ * Comparisons (`<`, `<=`, `>`, `>=`, `=`, `!=`) set a field against a
+ * value or another field, `in (...)` against a list; they combine with
+ * `and`, `or`, `not` and parentheses. Numbers may end in `k`, `m`, `b` or
+ * `t`. Queries are only ever evaluated, never spliced into SQL.
+ */
+export function parseQuery(source: string): Expression {
+  if (source.length > MAX_QUERY_LENGTH) {
+    throw new ScreenerError(
+      'INVALID_QUERY',
+      `Query must be at most ${MAX_QUERY_LENGTH} characters`
+    );
+  }
+  if (!source.trim()) {
+    throw new ScreenerError('INVALID_QUERY', 'Query is empty');
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+function formatOperand(operand: Operand): string {
+  if (operand.type === 'field') return operand.name;
+  return formatLiteral(operand.value);
+}
+
+function formatLiteral(value: Literal): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value);
+}
+
+/** The expression in a canonical form, so equal queries format equally. */
+export function formatQuery(expression: Expression): string {
+  switch (expression.type) {
+    case 'and':
+    case 'or': {
+      const side = (inner: Expression) =>
+        (inner.type === 'and' || inner.type === 'or') &&
+        inner.type !== expression.type
+          ? `(${formatQuery(inner)})`
+          : formatQuery(inner);
+      return `${side(expression.left)} ${expression.type} ${side(expression.right)}`;
+    }
+    case 'not':
+      return `not (${formatQuery(expression.operand)})`;
+    case 'compare':
+      return `${formatOperand(expression.left)} ${expression.operator} ${formatOperand(expression.right)}`;
+    case 'in':
+      return (
+        `${expression.field} ${expression.negated ? 'not in' : 'in'} ` +
+        `(${expression.values.map(formatLiteral).join(', ')})`
+      );
+  }
+}
+
+/** Every field the expression reads, in order of first use. */
+export function queryFields(expression: Expression): string[] {
+  const fields: string[] = [];
+  const add = (name: string) => {
+    if (!fields.includes(name)) fields.push(name);
+  };
+  const visit = (node: Expression): void => {
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'not':
+        visit(node.operand);
+        break;
+      case 'compare':
+        [node.left, node.right].forEach(side => {
+          if (side.type === 'field') add(side.name);
+        });
+        break;
+      case 'in':
+        add(node.field);
+        break;
+    }
+  };
+  visit(expression);
+  return fields;
+}
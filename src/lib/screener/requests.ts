@@ -0,0 +1,78 @@
+import { Validator } from '../validation';
+import { compileQuery } from './compile';
+import { parseSort } from './screener';
+import { ScreenerError, type SavedScreenInput, type SortKey } from './types';
+
+const MAX_NAME_LENGTH = 100;
+
+function readQuery(fields: Validator, required: boolean): string | undefined {
+  const query = fields.string('query', required);
+  if (query === undefined) return undefined;
+  try {
+    return compileQuery(query).query;
+  } catch (error) {
+    if (!(error instanceof ScreenerError)) throw error;
+    fields.fail('query', `is invalid: ${error.message}`);
+    return undefined;
+  }
+}
+
+function readSort(fields: Validator): SortKey[] | undefined {
+  const sort = fields.string('sort');
+  if (sort === undefined) return undefined;
+  try {
+    return parseSort(sort);
+  } catch (error) {
+    if (!(error instanceof ScreenerError)) throw error;
+    fields.fail('sort', `is invalid: ${error.message}`);
+    return undefined;
+  }
+}
+
+function readName(fields: Validator, required: boolean): string | undefined {
+  const name = fields.string('name', required)?.trim();
+  if (name && name.length > MAX_NAME_LENGTH) {
+    fields.fail('name', `must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+/**
+ * Validates a screen as sent to `POST /api/v1/screens`: a `name`, a
+ * `query`, stored in canonical form, and optionally a `sort` such as
+ * `-marketcap`.
+ */
+export function parseSavedScreen(
+  input: unknown
+): { screen: SavedScreenInput; problems: [] } | { problems: string[] } {
+  const fields = new Validator(input);
+  const name = readName(fields, true);
+  const query = readQuery(fields, true);
+  const sort = readSort(fields);
+  if (!fields.valid || !name || !query) return { problems: fields.problems };
+  return {
+    problems: [],
+    screen: sort ? { name, query, sort } : { name, query },
+  };
+}
+
+/** Validates the changes sent to `PATCH /api/v1/screens/:id`. */
+export function parseScreenChanges(
+  input: unknown
+):
+  | { changes: Partial<SavedScreenInput>; problems: [] }
+  | { problems: string[] } {
+  const fields = new Validator(input);
+  const changes: Partial<SavedScreenInput> = {};
+  const name = readName(fields, false);
+  const query = readQuery(fields, false);
+  const sort = readSort(fields);
+  if (name !== undefined) changes.name = name;
+  if (query !== undefined) changes.query = query;
+  if (sort !== undefined) changes.sort = sort;
+  if (fields.valid && Object.keys(changes).length === 0) {
+    fields.fail('body', 'must change name, query or sort');
+  }
+  if (!fields.valid) return { problems: fields.problems };
+  return { problems: [], changes };
+}
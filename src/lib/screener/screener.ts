@@ -0,0 +1,166 @@
+import type { MarketDataProvider } from '../marketdata/provider';
+import type { MarketCache } from '../redis/market';
+import { compileQuery, type CompiledQuery } from './compile';
+import { resolveField, type ScreenerField, type SymbolData } from './fields';
+import type {
+  FieldValue,
+  ScreenRequest,
+  ScreenResult,
+  ScreenerRow,
+  SortKey,
+} from './types';
+
+/** Fields every result carries. */
+export const DEFAULT_FIELDS = [
+  'symbol',
+  'name',
+  'sector',
+  'price',
+  'marketcap',
+];
+
+export const DEFAULT_SORT: SortKey[] = [
+  { field: 'marketcap', direction: 'desc' },
+];
+
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 500;
+
+export interface ScreenerOptions {
+  /** Where full result sets are cached between pages; `null` for none. */
+  cache?: MarketCache | null;
+  /** Daily bars loaded per symbol for indicator fields. Defaults to 500. */
+  lookbackBars?: number;
+  clock?: () => number;
+}
+
+/**
+ * Parses `-marketcap,symbol` style sort orders: fields in priority
+ * order, descending when prefixed with `-`.
+ */
+export function parseSort(raw: string): SortKey[] {
+  return raw
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => {
+      const descending = item.startsWith('-');
+      const field = resolveField(descending ? item.slice(1) : item).name;
+      return { field, direction: descending ? 'desc' : 'asc' };
+    });
+}
+
+function compareValues(a: FieldValue, b: FieldValue): number {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b);
+  }
+  return (a as number) - (b as number);
+}
+
+function byKeys(sort: SortKey[]) {
+  return (a: ScreenerRow, b: ScreenerRow): number => {
+    for (const { field, direction } of sort) {
+      const left = a.values[field] ?? null;
+      const right = b.values[field] ?? null;
+      if (left === right) continue;
+      // Missing values go last whichever the direction.
+      if (left === null) return 1;
+      if (right === null) return -1;
+      const order = compareValues(left, right);
+      if (order !== 0) return direction === 'desc' ? -order : order;
+    }
+    return a.symbol.localeCompare(b.symbol);
+  };
+}
+
+/**
+ * Filters the provider's symbol universe with a screener query. Each
+ * symbol's quote and daily bars are loaded only when a field needs them.
+ * The full, unsorted result set is cached for a while, so paging and
+ * re-sorting do not recompute indicators.
+ */
+export class Screener {
+  private readonly cache: MarketCache | null;
+  private readonly lookbackBars: number;
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly provider: MarketDataProvider,
+    options: ScreenerOptions = {}
+  ) {
+    this.cache = options.cache ?? null;
+    this.lookbackBars = options.lookbackBars ?? 500;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  async run(request: ScreenRequest): Promise<ScreenResult> {
+    const compiled = compileQuery(request.query);
+    const sort = request.sort ?? DEFAULT_SORT;
+    const fields = [
+      ...DEFAULT_FIELDS,
+      ...(request.fields ?? []),
+      ...compiled.fields.map(field => field.name),
+      ...sort.map(key => key.field),
+    ]
+      .map(resolveField)
+      .filter(
+        (field, index, all) =>
+          all.findIndex(other => other.name === field.name) === index
+      );
+    const names = fields.map(field => field.name);
+
+    const key = `${compiled.query} | ${names.join(',')}`;
+    let entry = this.cache
+      ? await this.cache.screenerResults<ScreenerRow>(key)
+      : null;
+    if (!entry) {
+      const rows = await this.scan(compiled, fields);
+      entry = this.cache
+        ? await this.cache.setScreenerResults(key, rows)
+        : { query: key, results: rows, computedAt: this.clock() };
+    }
+
+    const offset = request.offset ?? 0;
+    const limit = Math.min(request.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+    return {
+      query: compiled.query,
+      total: entry.results.length,
+      offset,
+      limit,
+      fields: names,
+      results: [...entry.results]
+        .sort(byKeys(sort))
+        .slice(offset, offset + limit),
+      computedAt: entry.computedAt,
+    };
+  }
+
+  private async scan(
+    compiled: CompiledQuery,
+    fields: ScreenerField[]
+  ): Promise<ScreenerRow[]> {
+    const needsBars = fields.some(field => field.needsBars);
+    const needsQuote = fields.some(field => field.name === 'price');
+    const universe = await this.provider.listSymbols();
+    const rows = await Promise.all(
+      universe.map(async (info): Promise<ScreenerRow | null> => {
+        const [quote, bars] = await Promise.all([
+          needsQuote ? this.provider.getQuote(info.symbol) : null,
+          needsBars
+            ? this.provider.getBars(info.symbol, {
+                timeframe: '1d',
+                limit: this.lookbackBars,
+              })
+            : [],
+        ]);
+        const data: SymbolData = { info, quote, bars };
+        const values: Record<string, FieldValue> = {};
+        fields.forEach(field => {
+          values[field.name] = field.compute(data);
+        });
+        return compiled.test(values) ? { symbol: info.symbol, values } : null;
+      })
+    );
+    return rows.filter((row): row is ScreenerRow => row !== null);
+  }
+}
@@ -0,0 +1,33 @@
+import type { SavedScreen } from './types';
+
+/** Users' saved screens. Lists are most recent first. */
+export interface ScreenStore {
+  save(screen: SavedScreen): Promise<void>;
+  get(id: string): Promise<SavedScreen | null>;
+  list(userId: string): Promise<SavedScreen[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class InMemoryScreenStore implements ScreenStore {
+  private readonly screens = new Map<string, SavedScreen>();
+
+  async save(screen: SavedScreen): Promise<void> {
+    this.screens.set(screen.id, { ...screen });
+  }
+
+  async get(id: string): Promise<SavedScreen | null> {
+    const screen = this.screens.get(id);
+    return screen ? { ...screen } : null;
+  }
+
+  async list(userId: string): Promise<SavedScreen[]> {
+    return Array.from(this.screens.values())
+      .filter(screen => screen.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(screen => ({ ...screen }));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.screens.delete(id);
+  }
+}
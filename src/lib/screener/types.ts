@@ -0,0 +1,80 @@
+export type Literal = number | string;
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+/** A side of a comparison: a field such as `rsi14`, or a literal. */
+export type Operand =
+  { type: 'field'; name: string } | { type: 'literal'; value: Literal };
+
+/** A parsed screener query. Field names are lower case. */
+export type Expression =
+  | { type: 'and' | 'or'; left: Expression; right: Expression }
+  | { type: 'not'; operand: Expression }
+  | {
+      type: 'compare';
+      operator: ComparisonOperator;
+      left: Operand;
+      right: Operand;
+    }
+  | { type: 'in'; field: string; values: Literal[]; negated: boolean };
+
+export type FieldKind = 'number' | 'string';
+
+export type FieldValue = Literal | null;
+
+export interface SortKey {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/** A symbol that passed the screen, with the fields asked for. */
+export interface ScreenerRow {
+  symbol: string;
+  values: Record<string, FieldValue>;
+}
+
+export interface ScreenRequest {
+  query: string;
+  /** Defaults to market cap, largest first. */
+  sort?: SortKey[];
+  /** Fields returned besides those the query and sort use. */
+  fields?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface ScreenResult {
+  /** The query as parsed, in canonical form. */
+  query: string;
+  total: number;
+  offset: number;
+  limit: number;
+  fields: string[];
+  results: ScreenerRow[];
+  computedAt: number;
+}
+
+export interface SavedScreenInput {
+  name: string;
+  query: string;
+  sort?: SortKey[];
+}
+
+export interface SavedScreen extends SavedScreenInput {
+  id: string;
+  userId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ScreenerErrorCode = 'INVALID_QUERY' | 'UNKNOWN_FIELD' | 'NOT_FOUND';
+
+export class ScreenerError extends Error {
+  constructor(
+    readonly code: ScreenerErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ScreenerError';
+  }
+}
@@ -0,0 +1,33 @@
+const registry = globalThis as typeof globalThis & {
+  __stocaiSingletons?: Map<string, unknown>;
+};
+
+function instances(): Map<string, unknown> {
+  if (!registry.__stocaiSingletons) {
+    registry.__stocaiSingletons = new Map();
+  }
+  return registry.__stocaiSingletons;
+}
+
+/**
+ * Returns the process-wide instance stored under `key`, creating it on first
+ * use. Instances live on `globalThis` so Next.js dev reloads do not fork
+ * state between route modules.
+ */
+export function singleton<T>(key: string, factory: () => T): T {
+  const store = instances();
+  if (!store.has(key)) {
+    store.set(key, factory());
+  }
+  return store.get(key) as T;
+}
+
+/** Replaces (or with `undefined`, clears) the instance stored under `key`. */
+export function setSingleton<T>(key: string, value: T | undefined): void {
+  const store = instances();
+  if (value === undefined) {
+    store.delete(key);
+  } else {
+    store.set(key, value);
+  }
+}
@@ -0,0 +1,98 @@
+import { Validator } from '../validation';
+import { StrategyError, type Strategy, type StrategyContext } from './types';
+
+export type StrategyFactory = (params: Record<string, unknown>) => Strategy;
+
+/** Buys each symbol once with an equal share of the starting cash. */
+function buyAndHold(params: Record<string, unknown>): Strategy {
+  const fields = new Validator(params, 'params');
+  const allocation = fields.number('allocation', false, { min: 0, max: 1 });
+  assertParams(fields);
+
+  const bought = new Set<string>();
+  let budget = 0;
+  const enter = (symbol: string, price: number, ctx: StrategyContext) => {
+    if (bought.has(symbol)) return;
+    bought.add(symbol);
+    const quantity = Math.floor(budget / ctx.symbols.length / price);
+    if (quantity > 0) ctx.submitOrder({ symbol, side: 'buy', quantity });
+  };
+
+  return {
+    name: 'buy-and-hold',
+    onStart(ctx) {
+      budget = ctx.portfolio.cash * (allocation ?? 1);
+    },
+    onBar: (bar, ctx) => enter(bar.symbol, bar.close, ctx),
+    onTick: (trade, ctx) => enter(trade.symbol, trade.price, ctx),
+  };
+}
+
+/**
+ * Long when the fast SMA is above the slow SMA, flat otherwise. Each entry
+ * commits `allocation` of current equity split across the traded symbols.
+ */
+function smaCross(params: Record<string, unknown>): Strategy {
+  const fields = new Validator(params, 'params');
+  const fast = fields.integer('fast', false, { min: 1 }) ?? 10;
+  const slow = fields.integer('slow', false, { min: 2 }) ?? 30;
+  const allocation =
+    fields.number('allocation', false, { min: 0, max: 1 }) ?? 1;
+  if (fast >= slow) fields.fail('fast', 'must be below slow');
+  assertParams(fields);
+
+  return {
+    name: 'sma-cross',
+    onStart(ctx) {
+      ctx.indicators.register('fast', { type: 'sma', period: fast });
+      ctx.indicators.register('slow', { type: 'sma', period: slow });
+    },
+    onBar(bar, ctx) {
+      const fastValue = ctx.indicators.value('fast');
+      const slowValue = ctx.indicators.value('slow');
+      if (typeof fastValue !== 'number' || typeof slowValue !== 'number') {
+        return;
+      }
+      if (ctx.openOrders(bar.symbol).length > 0) return;
+
+      const { portfolio } = ctx;
+      const held = portfolio.position(bar.symbol).quantity;
+      if (fastValue > slowValue && held === 0) {
+        const budget = (portfolio.equity * allocation) / ctx.symbols.length;
+        const quantity = Math.floor(
+          Math.min(budget, portfolio.cash) / bar.close
+        );
+        if (quantity > 0) {
+          ctx.submitOrder({ symbol: bar.symbol, side: 'buy', quantity });
+        }
+      } else if (fastValue < slowValue && held > 0) {
+        ctx.submitOrder({ symbol: bar.symbol, side: 'sell', quantity: held });
+      }
+    },
+  };
+}
+
+function assertParams(fields: Validator): void {
+  if (!fields.valid) {
+    throw new StrategyError('INVALID_PARAMS', fields.problems.join('; '));
+  }
+}
+
+export const BUILTIN_STRATEGIES: Record<string, StrategyFactory> = {
+  'buy-and-hold': buyAndHold,
+  'sma-cross': smaCross,
+};
+
+export function isBuiltinStrategy(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(BUILTIN_STRATEGIES, name);
+}
+
+export function createBuiltinStrategy(
+  name: string,
+  params: Record<string, unknown> = {}
+): Strategy {
+  if (!isBuiltinStrategy(name)) {
+    throw new StrategyError('NOT_FOUND', `Unknown strategy "${name}"`);
+  }
+  return BUILTIN_STRATEGIES[name](params);
+}
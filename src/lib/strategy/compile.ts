@@ -0,0 +1,34 @@
+import { StrategyError } from './types';
+
+/**
+ * Transpiles uploaded TypeScript to CommonJS for the sandbox. Only syntax is
+ * checked: strategies run against the runtime contract, not our type graph.
+ */
+export async function compileStrategySource(source: string): Promise<string> {
+  const ts = (await import('typescript')).default;
+  const output = ts.transpileModule(source, {
+    reportDiagnostics: true,
+    fileName: 'strategy.ts',
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      strict: true,
+    },
+  });
+
+  const errors = (output.diagnostics ?? []).filter(
+    diagnostic => diagnostic.category === ts.DiagnosticCategory.Error
+  );
+  if (errors.length > 0) {
+    const messages = errors.map(diagnostic => {
+      const text = ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ');
+      if (!diagnostic.file || diagnostic.start === undefined) return text;
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(
+        diagnostic.start
+      );
+      return `${line + 1}:${character + 1} ${text}`;
+    });
+    throw new StrategyError('COMPILE_FAILED', messages.join('; '));
+  }
+  return output.outputText;
+}
@@ -0,0 +1,107 @@
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import { setSingleton, singleton } from '../singleton';
+import { createBuiltinStrategy, isBuiltinStrategy } from './builtin';
+import { compileStrategySource } from './compile';
+import { SandboxedStrategy, sandboxLimitsFromEnv } from './sandbox';
+import {
+  FileStrategyStore,
+  type StrategyDefinition,
+  type StrategyStore,
+} from './store';
+import { StrategyError, type Strategy } from './types';
+
+export * from './types';
+export * from './builtin';
+export * from './store';
+export { compileStrategySource } from './compile';
+export { IndicatorSet } from './indicators';
+export {
+  DEFAULT_SANDBOX_LIMITS,
+  SandboxedStrategy,
+  sandboxLimitsFromEnv,
+  type SandboxLimits,
+} from './sandbox';
+
+const STORE_KEY = 'strategy.store';
+
+export function getStrategyStore(): StrategyStore {
+  return singleton(
+    STORE_KEY,
+    () =>
+      new FileStrategyStore(
+        path.resolve(process.env.STRATEGY_DIR || './.data/strategies')
+      )
+  );
+}
+
+export function setStrategyStore(store: StrategyStore | undefined): void {
+  setSingleton(STORE_KEY, store);
+}
+
+export interface StrategyUpload {
+  name: string;
+  description?: string;
+  source: string;
+}
+
+/**
+ * Compiles a module `userId` uploaded, checks it loads in the sandbox and
+ * stores it as theirs. Throws a {@link StrategyError} (`COMPILE_FAILED`,
+ * `RUNTIME_ERROR`, ...) if the module is unusable.
+ */
+export async function createStrategy(
+  userId: string,
+  upload: StrategyUpload,
+  store: StrategyStore = getStrategyStore()
+): Promise<StrategyDefinition> {
+  const compiled = await compileStrategySource(upload.source);
+  await SandboxedStrategy.check(compiled, sandboxLimitsFromEnv());
+
+  const definition: StrategyDefinition = {
+    id: randomUUID(),
+    userId,
+    name: upload.name,
+    description: upload.description,
+    createdAt: new Date().toISOString(),
+    source: upload.source,
+    compiled,
+  };
+  await store.save(definition);
+  return definition;
+}
+
+/** A ready-to-run strategy and the cleanup its runtime needs afterwards. */
+export interface LoadedStrategy {
+  strategy: Strategy;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Resolves `ref` to a built-in strategy (run in-process) or one of
+ * `userId`'s uploads (run in a sandbox). Callers must `dispose()` once the
+ * run is over.
+ */
+export async function loadStrategy(
+  userId: string,
+  ref: string,
+  params: Record<string, unknown>,
+  store: StrategyStore = getStrategyStore()
+): Promise<LoadedStrategy> {
+  if (isBuiltinStrategy(ref)) {
+    return {
+      strategy: createBuiltinStrategy(ref, params),
+      dispose: async () => {},
+    };
+  }
+
+  const definition = await store.get(userId, ref);
+  if (!definition) {
+    throw new StrategyError('NOT_FOUND', `Unknown strategy "${ref}"`);
+  }
+  const strategy = await SandboxedStrategy.load(definition.compiled, params, {
+    name: definition.name,
+    limits: sandboxLimitsFromEnv(),
+  });
+  return { strategy, dispose: () => strategy.dispose() };
+}
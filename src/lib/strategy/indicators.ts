@@ -0,0 +1,80 @@
+import {
+  createIndicator,
+  type IndicatorSpec,
+  type IndicatorValue,
+} from '../indicators/registry';
+import type { Indicator } from '../indicators/types';
+import type { Bar } from '../marketdata/types';
+import { StrategyError } from './types';
+
+/**
+ * Per-symbol instances of the indicators a strategy registered. Runtimes
+ * feed every bar through {@link update} before calling `onBar`.
+ */
+export class IndicatorSet {
+  private readonly specs = new Map<string, IndicatorSpec>();
+  private readonly instances = new Map<
+    string,
+    Map<string, Indicator<IndicatorValue>>
+  >();
+  private sealed = false;
+
+  register(name: string, spec: IndicatorSpec): void {
+    if (this.sealed) {
+      throw new StrategyError(
+        'RUNTIME_ERROR',
+        'Indicators can only be registered in onStart'
+      );
+    }
+    // Fail at registration rather than on the first bar.
+    createIndicator(spec);
+    this.specs.set(name, spec);
+  }
+
+  /** Stops accepting registrations once the strategy has started. */
+  seal(): void {
+    this.sealed = true;
+  }
+
+  names(): string[] {
+    return Array.from(this.specs.keys());
+  }
+
+  update(bar: Bar): void {
+    let indicators = this.instances.get(bar.symbol);
+    if (!indicators) {
+      indicators = new Map();
+      this.instances.set(bar.symbol, indicators);
+    }
+    this.specs.forEach((spec, name) => {
+      let indicator = indicators!.get(name);
+      if (!indicator) {
+        indicator = createIndicator(spec);
+        indicators!.set(name, indicator);
+      }
+      indicator.update(bar);
+    });
+  }
+
+  value(name: string, symbol: string): IndicatorValue | null {
+    if (!this.specs.has(name)) {
+      throw new StrategyError(
+        'RUNTIME_ERROR',
+        `Indicator "${name}" was never registered`
+      );
+    }
+    return this.instances.get(symbol)?.get(name)?.value ?? null;
+  }
+
+  /** Current values of every indicator for every symbol seen so far. */
+  snapshot(): Record<string, Record<string, IndicatorValue | null>> {
+    const result: Record<string, Record<string, IndicatorValue | null>> = {};
+    this.instances.forEach((indicators, symbol) => {
+      result[symbol] = {};
+      indicators.forEach((indicator, name) => {
+        result[symbol][name] = indicator.value;
+      });
+    });
+    return result;
+  }
+}
@@ -0,0 +1,299 @@
+/*
+ * Sources evaluated inside the strategy sandbox. They are plain JavaScript
+ * strings rather than compiled modules so bundlers never touch them and the
+ * code that runs in the worker is exactly what is reviewed here.
+ *
+ * Layering: the worker thread owns the memory limit and can be terminated
+ * from the host; inside it, user code runs in a `vm` context with no host
+ * objects, no `require`, no timers and no code generation from strings.
+ * Only JSON strings cross the context boundary in either direction.
+ */
+
+/**
+ * Evaluated inside the `vm` context before the strategy module. Defines the
+ * sandbox-side `StrategyContext`, which reads from a per-call state snapshot
+ * and records what the strategy asked for as a list of actions.
+ */
+export const CONTEXT_BOOTSTRAP = `(function (global) {
+  'use strict';
+  var HOOKS = ['onStart', 'onBar', 'onTick', 'onFill', 'onStop'];
+  var HISTORY_LIMIT = 1000;
+  var define = null;
+  var strategy = null;
+  var state = null;
+  var actions = [];
+  var submitted = [];
+  var cancelled = {};
+  var registered = {};
+  var history = {};
+  var starting = false;
+  var outcome = null;
+  var seq = 0;
+
+  function copy(value) {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+
+  function describe(error) {
+    return error instanceof Error
+      ? error.name + ': ' + error.message
+      : String(error);
+  }
+
+  function log(message) {
+    actions.push({ type: 'log', message: String(message) });
+  }
+
+  function format(args) {
+    return Array.prototype.map
+      .call(args, function (arg) {
+        return typeof arg === 'string' ? arg : JSON.stringify(arg);
+      })
+      .join(' ');
+  }
+
+  function write() {
+    log(format(arguments));
+  }
+
+  global.console = Object.freeze({
+    log: write, info: write, warn: write, error: write, debug: write
+  });
+
+  function openOrders() {
+    return state.openOrders.concat(submitted).filter(function (order) {
+      return !cancelled[order.id];
+    });
+  }
+
+  var portfolio = Object.freeze({
+    get cash() { return state.cash; },
+    get equity() { return state.equity; },
+    position: function (symbol) {
+      var position = state.positions[symbol];
+      return position
+        ? copy(position)
+        : { symbol: symbol, quantity: 0, averagePrice: 0 };
+    },
+    positions: function () {
+      return Object.keys(state.positions).map(function (symbol) {
+        return copy(state.positions[symbol]);
+      });
+    }
+  });
+
+  var ctx = Object.freeze({
+    get mode() { return state.mode; },
+    get time() { return state.time; },
+    get symbols() { return state.symbols.slice(); },
+    portfolio: portfolio,
+    indicators: Object.freeze({
+      register: function (name, spec) {
+        if (!starting) {
+          throw new Error('Indicators can only be registered in onStart');
+        }
+        registered[name] = true;
+        actions.push({ type: 'register', name: String(name), spec: copy(spec) });
+      },
+      value: function (name, symbol) {
+        if (!registered[name]) {
+          throw new Error('Indicator "' + name + '" was never registered');
+        }
+        var values = state.indicators[symbol === undefined ? state.symbol : symbol];
+        return values && values[name] !== undefined ? copy(values[name]) : null;
+      }
+    }),
+    price: function (symbol) {
+      return state.prices[symbol];
+    },
+    history: function (symbol, length) {
+      return copy((history[symbol] || []).slice(-length));
+    },
+    openOrders: function (symbol) {
+      return openOrders()
+        .filter(function (order) { return !symbol || order.symbol === symbol; })
+        .map(copy);
+    },
+    submitOrder: function (order) {
+      var id = 'sandbox-' + ++seq;
+      var request = copy(order);
+      actions.push({ type: 'submit', id: id, order: request });
+      submitted.push({
+        id: id,
+        symbol: request.symbol,
+        side: request.side,
+        quantity: request.quantity,
+        type: request.type || 'market',
+        limitPrice: request.limitPrice,
+        stopPrice: request.stopPrice,
+        submittedAt: state.time
+      });
+      return id;
+    },
+    cancelOrder: function (id) {
+      var open = openOrders().some(function (order) { return order.id === id; });
+      if (!open) return false;
+      cancelled[id] = true;
+      actions.push({ type: 'cancel', id: id });
+      return true;
+    },
+    log: log
+  });
+
+  global.__define = function (factory) {
+    define = factory;
+  };
+
+  /** Evaluates the module; with null params only checks what it exports. */
+  global.__start = function (paramsJson) {
+    try {
+      var module = { exports: {} };
+      define(module, module.exports);
+      var exported = module.exports;
+      var candidate =
+        exported && (exported.default || exported.strategy || exported);
+      var params = JSON.parse(paramsJson);
+      if (typeof candidate === 'function') {
+        if (params === null) return JSON.stringify({ name: null, hooks: [] });
+        candidate = candidate(params);
+      }
+      if (!candidate || typeof candidate !== 'object') {
+        return JSON.stringify({
+          code: 'COMPILE_FAILED',
+          error: 'A strategy module must export a strategy object or a factory function'
+        });
+      }
+      var hooks = HOOKS.filter(function (hook) {
+        return typeof candidate[hook] === 'function';
+      });
+      if (hooks.length === 0) {
+        return JSON.stringify({
+          code: 'COMPILE_FAILED',
+          error: 'A strategy must implement at least one of ' + HOOKS.join(', ')
+        });
+      }
+      strategy = candidate;
+      return JSON.stringify({
+        name: typeof strategy.name === 'string' ? strategy.name : null,
+        hooks: hooks
+      });
+    } catch (error) {
+      return JSON.stringify({ code: 'RUNTIME_ERROR', error: describe(error) });
+    }
+  };
+
+  global.__dispatch = function (messageJson) {
+    var message = JSON.parse(messageJson);
+    state = message.state;
+    actions = [];
+    submitted = [];
+    cancelled = {};
+    outcome = { hook: message.hook, settled: true };
+    starting = message.hook === 'onStart';
+
+    var event = message.event;
+    if (message.hook === 'onBar') {
+      var bars = history[event.symbol] || (history[event.symbol] = []);
+      bars.push(event);
+      if (bars.length > HISTORY_LIMIT) bars.shift();
+    }
+
+    try {
+      var result = event === undefined
+        ? strategy[message.hook](ctx)
+        : strategy[message.hook](copy(event), ctx);
+      if (result && typeof result.then === 'function') {
+        var current = outcome;
+        current.settled = false;
+        result.then(
+          function () { current.settled = true; },
+          function (error) {
+            current.settled = true;
+            current.error = describe(error);
+          }
+        );
+      }
+    } catch (error) {
+      outcome.error = describe(error);
+    }
+  };
+
+  /** Runs after the microtask queue drained, so async hooks have settled. */
+  global.__collect = function () {
+    starting = false;
+    if (!outcome.settled) {
+      outcome.error = outcome.hook + ' returned a promise that never settled';
+    }
+    return JSON.stringify(
+      outcome.error ? { error: outcome.error } : { actions: actions }
+    );
+  };
+})(globalThis);
+`;
+
+/**
+ * Worker entry point. Receives the compiled module through `workerData`,
+ * reports `{ type: 'ready' }` or `{ type: 'failed' }`, then answers one
+ * `{ id, hook, event, state }` message at a time.
+ */
+export const WORKER_SOURCE = `'use strict';
+const { parentPort, workerData } = require('node:worker_threads');
+const vm = require('node:vm');
+
+const { bootstrap, code, params, timeoutMs } = workerData;
+const context = vm.createContext(Object.create(null), {
+  name: 'strategy',
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: 'afterEvaluate'
+});
+
+function run(source, filename) {
+  return vm.runInContext(source, context, {
+    filename: filename || 'sandbox.js',
+    timeout: timeoutMs
+  });
+}
+
+function failure(error) {
+  if (error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+    return {
+      code: 'TIMEOUT',
+      message: 'Strategy exceeded its ' + timeoutMs + 'ms time limit'
+    };
+  }
+  const message = error instanceof Error ? error.name + ': ' + error.message : String(error);
+  return { code: 'RUNTIME_ERROR', message };
+}
+
+try {
+  run(bootstrap);
+  vm.runInContext('__define(function (module, exports) {\\n' + code + '\\n});', context, {
+    filename: 'strategy.js',
+    lineOffset: -1,
+    timeout: timeoutMs
+  });
+  const loaded = JSON.parse(run('__start(' + JSON.stringify(JSON.stringify(params)) + ')'));
+  if (loaded.error) {
+    parentPort.postMessage({ type: 'failed', code: loaded.code, message: loaded.error });
+  } else {
+    parentPort.postMessage({ type: 'ready', name: loaded.name, hooks: loaded.hooks });
+  }
+} catch (error) {
+  const { code, message } = failure(error);
+  parentPort.postMessage({ type: 'failed', code: error && error.name === 'SyntaxError' ? 'COMPILE_FAILED' : code, message });
+}
+
+parentPort.on('message', message => {
+  try {
+    run('__dispatch(' + JSON.stringify(JSON.stringify(message)) + ')');
+    const result = JSON.parse(run('__collect()'));
+    if (result.error) {
+      parentPort.postMessage({ id: message.id, error: { code: 'RUNTIME_ERROR', message: result.error } });
+    } else {
+      parentPort.postMessage({ id: message.id, actions: result.actions });
+    }
+  } catch (error) {
+    parentPort.postMessage({ id: message.id, error: failure(error) });
+  }
+});
+`;
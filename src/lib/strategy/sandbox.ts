@@ -0,0 +1,400 @@
+import { Worker } from 'node:worker_threads';
+import type { IndicatorSpec } from '../indicators/registry';
+import type { Bar, Trade } from '../marketdata/types';
+import { Validator } from '../validation';
+import { CONTEXT_BOOTSTRAP, WORKER_SOURCE } from './sandbox-runtime';
+import {
+  StrategyError,
+  type Fill,
+  type OrderRequest,
+  type Strategy,
+  type StrategyContext,
+  type StrategyErrorCode,
+} from './types';
+
+export interface SandboxLimits {
+  /** Wall-clock budget for loading the module and for each hook call. */
+  timeoutMs: number;
+  /** V8 old-generation heap size for the worker. */
+  memoryMb: number;
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 1_000,
+  memoryMb: 64,
+};
+
+export function sandboxLimitsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): SandboxLimits {
+  const read = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    timeoutMs: read(
+      env.STRATEGY_SANDBOX_TIMEOUT_MS,
+      DEFAULT_SANDBOX_LIMITS.timeoutMs
+    ),
+    memoryMb: read(
+      env.STRATEGY_SANDBOX_MEMORY_MB,
+      DEFAULT_SANDBOX_LIMITS.memoryMb
+    ),
+  };
+}
+
+type Hook = 'onStart' | 'onBar' | 'onTick' | 'onFill' | 'onStop';
+
+/** State the sandbox-side context reads from during one hook call. */
+interface SandboxState {
+  mode: StrategyContext['mode'];
+  time: number;
+  symbol?: string;
+  symbols: string[];
+  cash: number;
+  equity: number;
+  positions: Record<string, unknown>;
+  prices: Record<string, number>;
+  openOrders: unknown[];
+  indicators: Record<string, Record<string, unknown>>;
+}
+
+type SandboxAction =
+  | { type: 'register'; name: string; spec: IndicatorSpec }
+  | { type: 'submit'; id: string; order: unknown }
+  | { type: 'cancel'; id: string }
+  | { type: 'log'; message: string };
+
+type WorkerMessage =
+  | { type: 'ready'; name: string | null; hooks: Hook[] }
+  | { type: 'failed'; code: StrategyErrorCode; message: string }
+  | { id: number; actions: SandboxAction[] }
+  | { id: number; error: { code: StrategyErrorCode; message: string } };
+
+interface PendingCall {
+  resolve(actions: SandboxAction[]): void;
+  reject(error: StrategyError): void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Extra time the host grants before assuming the worker is wedged. */
+const WATCHDOG_GRACE_MS = 1_000;
+
+/**
+ * Runs an untrusted, compiled strategy module in a worker thread. Each hook
+ * call ships a snapshot of the host context to the worker and replays the
+ * orders, cancels, indicator registrations and logs it sends back, so the
+ * strategy sees the same `StrategyContext` contract as in-process code.
+ *
+ * A strategy that times out, runs out of memory or crashes is terminated;
+ * the call rejects with a {@link StrategyError} and so do all later calls.
+ */
+export class SandboxedStrategy implements Strategy {
+  private readonly pending = new Map<number, PendingCall>();
+  /** Sandbox order ids to host order ids, and back. */
+  private readonly hostIds = new Map<string, string>();
+  private readonly sandboxIds = new Map<string, string>();
+  private readonly indicatorNames: string[] = [];
+  private hooks = new Set<Hook>();
+  private failure: StrategyError | null = null;
+  private callSeq = 0;
+  private strategyName: string;
+
+  private constructor(
+    private readonly worker: Worker,
+    private readonly limits: SandboxLimits,
+    fallbackName: string
+  ) {
+    this.strategyName = fallbackName;
+  }
+
+  get name(): string {
+    return this.strategyName;
+  }
+
+  /**
+   * Starts a worker for `code` (CommonJS, as produced by
+   * `compileStrategySource`) and instantiates the strategy with `params`.
+   * The module may export a strategy object or a factory taking `params`.
+   */
+  static async load(
+    code: string,
+    params: Record<string, unknown>,
+    options: { name?: string; limits?: SandboxLimits } = {}
+  ): Promise<SandboxedStrategy> {
+    return SandboxedStrategy.start(code, params, options);
+  }
+
+  /**
+   * Evaluates `code` in a throwaway sandbox and checks its export without
+   * calling a factory, so uploads fail fast on broken modules.
+   */
+  static async check(
+    code: string,
+    limits: SandboxLimits = DEFAULT_SANDBOX_LIMITS
+  ): Promise<void> {
+    const sandbox = await SandboxedStrategy.start(code, null, { limits });
+    await sandbox.dispose();
+  }
+
+  private static start(
+    code: string,
+    params: Record<string, unknown> | null,
+    options: { name?: string; limits?: SandboxLimits }
+  ): Promise<SandboxedStrategy> {
+    const limits = options.limits ?? DEFAULT_SANDBOX_LIMITS;
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      workerData: {
+        bootstrap: CONTEXT_BOOTSTRAP,
+        code,
+        params,
+        timeoutMs: limits.timeoutMs,
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: limits.memoryMb,
+        maxYoungGenerationSizeMb: Math.max(1, Math.ceil(limits.memoryMb / 8)),
+        stackSizeMb: 4,
+      },
+    });
+    const sandbox = new SandboxedStrategy(
+      worker,
+      limits,
+      options.name ?? 'sandboxed'
+    );
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        sandbox.abort(
+          new StrategyError(
+            'TIMEOUT',
+            `Strategy did not load within ${limits.timeoutMs}ms`
+          )
+        );
+        reject(sandbox.failure);
+      }, limits.timeoutMs + WATCHDOG_GRACE_MS);
+
+      worker.once('message', (message: WorkerMessage) => {
+        clearTimeout(timer);
+        if ('type' in message && message.type === 'ready') {
+          if (message.name) sandbox.strategyName = message.name;
+          sandbox.hooks = new Set(message.hooks);
+          worker.on('message', reply => sandbox.receive(reply));
+          resolve(sandbox);
+        } else {
+          const failed = message as {
+            code: StrategyErrorCode;
+            message: string;
+          };
+          sandbox.abort(new StrategyError(failed.code, failed.message));
+          reject(sandbox.failure);
+        }
+      });
+      worker.on('error', error => {
+        clearTimeout(timer);
+        sandbox.abort(workerFailure(error));
+        reject(sandbox.failure);
+      });
+      worker.on('exit', () => {
+        clearTimeout(timer);
+        sandbox.abort(
+          new StrategyError('RUNTIME_ERROR', 'Strategy sandbox exited')
+        );
+        reject(sandbox.failure);
+      });
+    });
+  }
+
+  onStart(ctx: StrategyContext): Promise<void> {
+    return this.call('onStart', undefined, undefined, ctx);
+  }
+
+  onBar(bar: Bar, ctx: StrategyContext): Promise<void> {
+    return this.call('onBar', bar, bar.symbol, ctx);
+  }
+
+  onTick(trade: Trade, ctx: StrategyContext): Promise<void> {
+    return this.call('onTick', trade, trade.symbol, ctx);
+  }
+
+  onFill(fill: Fill, ctx: StrategyContext): Promise<void> {
+    const orderId = this.sandboxIds.get(fill.orderId) ?? fill.orderId;
+    return this.call('onFill', { ...fill, orderId }, fill.symbol, ctx);
+  }
+
+  onStop(ctx: StrategyContext): Promise<void> {
+    return this.call('onStop', undefined, undefined, ctx);
+  }
+
+  /** Terminates the worker. Safe to call more than once. */
+  async dispose(): Promise<void> {
+    this.abort(new StrategyError('RUNTIME_ERROR', 'Strategy was disposed'));
+    await this.worker.terminate();
+  }
+
+  private async call(
+    hook: Hook,
+    event: unknown,
+    symbol: string | undefined,
+    ctx: StrategyContext
+  ): Promise<void> {
+    if (this.failure) throw this.failure;
+    if (!this.hooks.has(hook)) return;
+
+    const actions = await this.request({
+      hook,
+      event,
+      state: this.snapshot(ctx, symbol),
+    });
+    this.apply(actions, ctx);
+  }
+
+  private request(message: {
+    hook: Hook;
+    event: unknown;
+    state: SandboxState;
+  }): Promise<SandboxAction[]> {
+    const id = ++this.callSeq;
+    return new Promise((resolve, reject) => {
+      // The vm timeout stops runaway code; the watchdog covers everything
+      // else, such as a worker thrashing near its heap limit.
+      const timer = setTimeout(() => {
+        this.abort(
+          new StrategyError(
+            'TIMEOUT',
+            `${message.hook} exceeded its ${this.limits.timeoutMs}ms time limit`
+          )
+        );
+        void this.worker.terminate();
+      }, this.limits.timeoutMs + WATCHDOG_GRACE_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      this.worker.postMessage({ id, ...message });
+    });
+  }
+
+  private receive(message: WorkerMessage): void {
+    if (!('id' in message)) return;
+    const call = this.pending.get(message.id);
+    if (!call) return;
+    this.pending.delete(message.id);
+    clearTimeout(call.timer);
+
+    if ('error' in message) {
+      const error = new StrategyError(
+        message.error.code,
+        message.error.message
+      );
+      // A timed-out context may be left mid-update; never reuse it.
+      if (error.code === 'TIMEOUT') this.abort(error);
+      call.reject(error);
+    } else {
+      call.resolve(message.actions);
+    }
+  }
+
+  /** Fails every pending and future call with `error`. */
+  private abort(error: StrategyError): void {
+    if (this.failure) return;
+    this.failure = error;
+    this.pending.forEach(call => {
+      clearTimeout(call.timer);
+      call.reject(error);
+    });
+    this.pending.clear();
+    this.worker.removeAllListeners('message');
+  }
+
+  private snapshot(
+    ctx: StrategyContext,
+    symbol: string | undefined
+  ): SandboxState {
+    const positions: SandboxState['positions'] = {};
+    ctx.portfolio.positions().forEach(position => {
+      positions[position.symbol] = position;
+    });
+
+    const prices: SandboxState['prices'] = {};
+    const indicators: SandboxState['indicators'] = {};
+    ctx.symbols.forEach(name => {
+      const price = ctx.price(name);
+      if (price !== undefined) prices[name] = price;
+      if (this.indicatorNames.length === 0) return;
+      indicators[name] = {};
+      this.indicatorNames.forEach(indicator => {
+        indicators[name][indicator] = ctx.indicators.value(indicator, name);
+      });
+    });
+
+    return {
+      mode: ctx.mode,
+      time: ctx.time,
+      symbol,
+      symbols: [...ctx.symbols],
+      cash: ctx.portfolio.cash,
+      equity: ctx.portfolio.equity,
+      positions,
+      prices,
+      openOrders: ctx.openOrders().map(order => ({
+        ...order,
+        id: this.sandboxIds.get(order.id) ?? order.id,
+      })),
+      indicators,
+    };
+  }
+
+  private apply(actions: SandboxAction[], ctx: StrategyContext): void {
+    for (const action of actions) {
+      switch (action.type) {
+        case 'register':
+          ctx.indicators.register(action.name, action.spec);
+          if (!this.indicatorNames.includes(action.name)) {
+            this.indicatorNames.push(action.name);
+          }
+          break;
+        case 'submit': {
+          const hostId = ctx.submitOrder(parseOrder(action.order));
+          this.hostIds.set(action.id, hostId);
+          this.sandboxIds.set(hostId, action.id);
+          break;
+        }
+        case 'cancel':
+          ctx.cancelOrder(this.hostIds.get(action.id) ?? action.id);
+          break;
+        case 'log':
+          ctx.log(action.message);
+          break;
+      }
+    }
+  }
+}
+
+/** Checks an order that crossed the sandbox boundary. */
+function parseOrder(input: unknown): OrderRequest {
+  const fields = new Validator(input, 'order');
+  const order: OrderRequest = {
+    symbol: fields.string('symbol', true),
+    side: fields.oneOf('side', ['buy', 'sell'] as const, true),
+    quantity: fields.number('quantity', true),
+    type: fields.oneOf('type', ['market', 'limit', 'stop'] as const),
+    limitPrice: fields.number('limitPrice'),
+    stopPrice: fields.number('stopPrice'),
+  };
+  if (!fields.valid) {
+    throw new StrategyError(
+      'RUNTIME_ERROR',
+      `Invalid order: ${fields.problems.join('; ')}`
+    );
+  }
+  return order;
+}
+
+function workerFailure(error: Error): StrategyError {
+  if ((error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY') {
+    return new StrategyError(
+      'OUT_OF_MEMORY',
+      'Strategy exceeded its memory limit'
+    );
+  }
+  return new StrategyError('RUNTIME_ERROR', error.message);
+}
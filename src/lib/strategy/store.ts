@@ -0,0 +1,140 @@
+import { mkdir, readFile, readdir, unlink, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/** An uploaded strategy module, kept with the source it was built from. */
+export interface StrategyDefinition {
+  id: string;
+  /** The user who uploaded it, the only one who may see or run it. */
+  userId: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  /** TypeScript or JavaScript as uploaded. */
+  source: string;
+  /** CommonJS output of `compileStrategySource`. */
+  compiled: string;
+}
+
+export interface StrategySummary {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string | null;
+  builtin: boolean;
+}
+
+/** Uploads are kept per user: other users' ids are not found. */
+export interface StrategyStore {
+  save(definition: StrategyDefinition): Promise<void>;
+  get(userId: string, id: string): Promise<StrategyDefinition | null>;
+  /** Most recent first. */
+  list(userId: string): Promise<StrategySummary[]>;
+  /** Whether there was such a strategy to remove. */
+  remove(userId: string, id: string): Promise<boolean>;
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function toStrategySummary(
+  definition: StrategyDefinition
+): StrategySummary {
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    createdAt: definition.createdAt,
+    builtin: false,
+  };
+}
+
+function newestFirst(a: StrategySummary, b: StrategySummary): number {
+  return (b.createdAt ?? '').localeCompare(a.createdAt ?? '');
+}
+
+export class InMemoryStrategyStore implements StrategyStore {
+  private readonly definitions = new Map<string, StrategyDefinition>();
+
+  async save(definition: StrategyDefinition): Promise<void> {
+    this.definitions.set(definition.id, definition);
+  }
+
+  async get(userId: string, id: string): Promise<StrategyDefinition | null> {
+    const definition = this.definitions.get(id);
+    return definition?.userId === userId ? definition : null;
+  }
+
+  async list(userId: string): Promise<StrategySummary[]> {
+    return Array.from(this.definitions.values())
+      .filter(definition => definition.userId === userId)
+      .map(toStrategySummary)
+      .sort(newestFirst);
+  }
+
+  async remove(userId: string, id: string): Promise<boolean> {
+    if (!(await this.get(userId, id))) return false;
+    return this.definitions.delete(id);
+  }
+}
+
+/** Keeps one JSON document per uploaded strategy in `dir`. */
+export class FileStrategyStore implements StrategyStore {
+  constructor(private readonly dir: string) {}
+
+  async save(definition: StrategyDefinition): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(
+      this.file(definition.id),
+      JSON.stringify(definition),
+      'utf8'
+    );
+  }
+
+  async get(userId: string, id: string): Promise<StrategyDefinition | null> {
+    const definition = await this.read(id);
+    return definition?.userId === userId ? definition : null;
+  }
+
+  async list(userId: string): Promise<StrategySummary[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const definitions = await Promise.all(
+      names
+        .filter(name => name.endsWith('.json'))
+        .map(name => this.get(userId, name.slice(0, -'.json'.length)))
+    );
+    return definitions
+      .filter((definition): definition is StrategyDefinition => !!definition)
+      .map(toStrategySummary)
+      .sort(newestFirst);
+  }
+
+  async remove(userId: string, id: string): Promise<boolean> {
+    if (!(await this.get(userId, id))) return false;
+    try {
+      await unlink(this.file(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private async read(id: string): Promise<StrategyDefinition | null> {
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await readFile(this.file(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private file(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
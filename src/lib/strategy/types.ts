@@ -0,0 +1,116 @@
+import type { IndicatorSpec, IndicatorValue } from '../indicators/registry';
+import type { Bar, Trade } from '../marketdata/types';
+
+export type ExecutionMode = 'backtest' | 'paper';
+
+export type OrderSide = 'buy' | 'sell';
+
+export type StrategyOrderType = 'market' | 'limit' | 'stop';
+
+export interface OrderRequest {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  type?: StrategyOrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+}
+
+export interface StrategyOrder {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  type: StrategyOrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  submittedAt: number;
+}
+
+export interface Fill {
+  id: string;
+  orderId: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  commission: number;
+  /** Difference between the fill price and the undisturbed price. */
+  slippage: number;
+  timestamp: number;
+}
+
+export interface Position {
+  symbol: string;
+  /** Signed: negative quantities are short positions. */
+  quantity: number;
+  averagePrice: number;
+}
+
+export interface PortfolioView {
+  readonly cash: number;
+  readonly equity: number;
+  position(symbol: string): Position;
+  /** Every non-flat position. */
+  positions(): Position[];
+}
+
+export interface IndicatorAccess {
+  /**
+   * Declares an indicator, computed for every symbol from the next bar on.
+   * Only allowed in `onStart`, so every runtime knows the full set upfront.
+   */
+  register(name: string, spec: IndicatorSpec): void;
+  /** Latest value for `symbol` (default: the symbol being processed). */
+  value(name: string, symbol?: string): IndicatorValue | null;
+}
+
+/** Everything a strategy may see or do, identical in every mode. */
+export interface StrategyContext {
+  readonly mode: ExecutionMode;
+  /** Timestamp of the event being processed. */
+  readonly time: number;
+  /** Every symbol the strategy trades. */
+  readonly symbols: readonly string[];
+  readonly portfolio: PortfolioView;
+  readonly indicators: IndicatorAccess;
+  price(symbol: string): number | undefined;
+  /** The last `length` completed bars for `symbol`, oldest first. */
+  history(symbol: string, length: number): Bar[];
+  openOrders(symbol?: string): StrategyOrder[];
+  /** Queues an order; it can fill from the next event for its symbol. */
+  submitOrder(order: OrderRequest): string;
+  cancelOrder(orderId: string): boolean;
+  log(message: string): void;
+}
+
+/**
+ * The contract every strategy implements. Hooks may be async (sandboxed
+ * strategies always are); runtimes await each one before moving on.
+ */
+export interface Strategy {
+  readonly name: string;
+  onStart?(ctx: StrategyContext): void | Promise<void>;
+  onBar?(bar: Bar, ctx: StrategyContext): void | Promise<void>;
+  onTick?(trade: Trade, ctx: StrategyContext): void | Promise<void>;
+  onFill?(fill: Fill, ctx: StrategyContext): void | Promise<void>;
+  onStop?(ctx: StrategyContext): void | Promise<void>;
+}
+
+export type StrategyErrorCode =
+  | 'INVALID_PARAMS'
+  | 'COMPILE_FAILED'
+  | 'RUNTIME_ERROR'
+  | 'TIMEOUT'
+  | 'OUT_OF_MEMORY'
+  | 'NOT_FOUND';
+
+export class StrategyError extends Error {
+  constructor(
+    readonly code: StrategyErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'StrategyError';
+  }
+}
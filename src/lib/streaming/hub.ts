@@ -0,0 +1,192 @@
+import {
+  CONFLATED_CHANNELS,
+  type StreamChannel,
+  type StreamCloseReason,
+  type StreamEvent,
+  type StreamEventInput,
+  type StreamFilter,
+  type SubscribeOptions,
+} from './types';
+
+export interface StreamHubOptions {
+  /** Events kept for clients resuming after a disconnect. */
+  replayLimit?: number;
+  /** Undelivered events a subscriber may queue before it is dropped. */
+  queueLimit?: number;
+  clock?: () => number;
+}
+
+const DEFAULT_REPLAY_LIMIT = 1_000;
+const DEFAULT_QUEUE_LIMIT = 500;
+
+/**
+ * Fans published events out to subscribers, numbering them so a client
+ * that reconnects can resume where it left off from a replay buffer.
+ *
+ * Each subscriber has its own bounded queue. A newer quote or bar drops
+ * the queued one it supersedes, so a slow client skips stale market data
+ * rather than falling behind; a client whose queue still fills up, with
+ * order events that cannot be skipped, is closed with `overflow`.
+ */
+export class StreamHub {
+  private seq = 0;
+  private readonly buffer: StreamEvent[] = [];
+  private readonly subscriptions = new Set<StreamSubscription>();
+  private readonly replayLimit: number;
+  private readonly queueLimit: number;
+  private readonly clock: () => number;
+
+  constructor(options: StreamHubOptions = {}) {
+    this.replayLimit = options.replayLimit ?? DEFAULT_REPLAY_LIMIT;
+    this.queueLimit = options.queueLimit ?? DEFAULT_QUEUE_LIMIT;
+    this.clock = options.clock ?? Date.now;
+  }
+
+  /** The sequence number of the latest event; 0 before the first. */
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+  get subscriberCount(): number {
+    return this.subscriptions.size;
+  }
+
+  publish(input: StreamEventInput): StreamEvent {
+    const event: StreamEvent = {
+      ...input,
+      seq: ++this.seq,
+      timestamp: this.clock(),
+    };
+    this.buffer.push(event);
+    if (this.buffer.length > this.replayLimit) this.buffer.shift();
+    Array.from(this.subscriptions).forEach(subscription =>
+      subscription.offer(event)
+    );
+    return event;
+  }
+
+  /**
+   * Subscribes to events matching `filter`. With `after`, buffered events
+   * since then are queued first; if some are no longer buffered, or
+   * `after` is from before a restart, the subscription reports a `gap`.
+   */
+  subscribe(
+    filter: StreamFilter = {},
+    options: SubscribeOptions = {}
+  ): StreamSubscription {
+    const subscription = new StreamSubscription(filter, this.queueLimit, () =>
+      this.subscriptions.delete(subscription)
+    );
+    const { after } = options;
+    if (after !== undefined) {
+      const oldest = this.buffer.length > 0 ? this.buffer[0].seq : this.seq + 1;
+      subscription.gap = after > this.seq || after < oldest - 1;
+      this.buffer
+        .filter(event => event.seq > after)
+        .forEach(event => subscription.offer(event, true));
+    }
+    this.subscriptions.add(subscription);
+    return subscription;
+  }
+
+  /** Closes every subscription. */
+  close(): void {
+    Array.from(this.subscriptions).forEach(subscription =>
+      subscription.close()
+    );
+  }
+}
+
+/** One client's view of a {@link StreamHub}. */
+export class StreamSubscription {
+  /** Set when resuming skipped events that were no longer buffered. */
+  gap = false;
+  private readonly queue: StreamEvent[] = [];
+  private waiting: ((event: StreamEvent | null) => void) | null = null;
+  private closedWith: StreamCloseReason | null = null;
+
+  constructor(
+    readonly filter: StreamFilter,
+    private readonly queueLimit: number,
+    private readonly detach: () => void
+  ) {}
+
+  /** Why the subscription ended, once it has. */
+  get closeReason(): StreamCloseReason | null {
+    return this.closedWith;
+  }
+
+  /** Events waiting to be read. */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Resolves to the next event, or `null` once closed and drained. */
+  next(): Promise<StreamEvent | null> {
+    const event = this.queue.shift();
+    if (event) return Promise.resolve(event);
+    if (this.closedWith) return Promise.resolve(null);
+    return new Promise(resolve => {
+      this.waiting = resolve;
+    });
+  }
+
+  close(reason: StreamCloseReason = 'closed'): void {
+    if (this.closedWith) return;
+    this.closedWith = reason;
+    this.detach();
+    // An overflowing client resumes from what it read, not what was queued.
+    if (reason === 'overflow') this.queue.length = 0;
+    this.wake(null);
+  }
+
+  /** @internal Queues `event` if it matches; `replay` ignores the limit. */
+  offer(event: StreamEvent, replay = false): void {
+    if (this.closedWith || !matches(this.filter, event)) return;
+    if (this.waiting) {
+      this.wake(event);
+      return;
+    }
+    if (CONFLATED_CHANNELS.includes(event.channel)) {
+      const stale = this.queue.findIndex(queued => supersedes(event, queued));
+      if (stale >= 0) this.queue.splice(stale, 1);
+    }
+    if (!replay && this.queue.length >= this.queueLimit) {
+      this.close('overflow');
+      return;
+    }
+    this.queue.push(event);
+  }
+
+  private wake(event: StreamEvent | null): void {
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.(event);
+  }
+}
+
+function matches(filter: StreamFilter, event: StreamEvent): boolean {
+  if (filter.channels && !filter.channels.includes(event.channel)) {
+    return false;
+  }
+  if (
+    filter.symbols &&
+    event.symbol !== undefined &&
+    !filter.symbols.includes(event.symbol)
+  ) {
+    return false;
+  }
+  return (
+    !filter.accountId ||
+    event.accountId === undefined ||
+    event.accountId === filter.accountId
+  );
+}
+
+function supersedes(event: StreamEvent, queued: StreamEvent): boolean {
+  return (
+    queued.channel === event.channel &&
+    queued.symbol === event.symbol &&
+    queued.key === event.key
+  );
+}
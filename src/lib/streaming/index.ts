@@ -0,0 +1,62 @@
+import { getMarketDataProvider } from '../marketdata';
+import { getMetrics, getMetricsRegistry, recordFeedMetrics } from '../metrics';
+import { cacheQuotes, getMarketCache } from '../redis';
+import { setSingleton, singleton } from '../singleton';
+import { StreamHub } from './hub';
+import { MarketFeed } from './sources';
+
+export * from './types';
+export * from './hub';
+export * from './sources';
+export * from './sse';
+
+const HUB_KEY = 'streaming.hub';
+const FEED_KEY = 'streaming.feed';
+
+export function streamingOptionsFromEnv(env: NodeJS.ProcessEnv = process.env) {
+  const positive = (raw: string | undefined) => {
+    const value = Number(raw);
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+  };
+  return {
+    replayLimit: positive(env.STREAM_REPLAY_LIMIT),
+    queueLimit: positive(env.STREAM_QUEUE_LIMIT),
+    intervalMs: positive(env.STREAM_POLL_INTERVAL_MS),
+  };
+}
+
+/**
+ * The shared event hub. The shared order manager publishes its events
+ * here, and the shared paper broker trades on the market data.
+ */
+export function getStreamHub(): StreamHub {
+  return singleton(HUB_KEY, () => {
+    const { replayLimit, queueLimit } = streamingOptionsFromEnv();
+    return new StreamHub({ replayLimit, queueLimit });
+  });
+}
+
+/** Overrides the shared event hub, e.g. in tests. */
+export function setStreamHub(hub: StreamHub | undefined): void {
+  setSingleton(HUB_KEY, hub);
+}
+
+/**
+ * The shared market feed, publishing quotes and bars to the shared hub and
+ * its freshness to the shared metrics. Quotes also go to the shared cache.
+ */
+export function getMarketFeed(): MarketFeed {
+  return singleton(FEED_KEY, () => {
+    const feed = new MarketFeed(getStreamHub(), getMarketDataProvider(), {
+      intervalMs: streamingOptionsFromEnv().intervalMs,
+    });
+    recordFeedMetrics(getMetricsRegistry(), getMetrics(), feed);
+    cacheQuotes(getStreamHub(), getMarketCache());
+    return feed;
+  });
+}
+
+/** Overrides the shared market feed, e.g. in tests. */
+export function setMarketFeed(feed: MarketFeed | undefined): void {
+  setSingleton(FEED_KEY, feed);
+}
@@ -0,0 +1,199 @@
+import type { MarketDataProvider } from '../marketdata/provider';
+import type { Bar, Quote, Timeframe } from '../marketdata/types';
+import type { OrderManager } from '../oms/manager';
+import type { StreamHub } from './hub';
+
+/**
+ * Publishes every order status change on `orders` and every fill on
+ * `fills`. Returns a function that stops.
+ */
+export function streamOrders(hub: StreamHub, oms: OrderManager): () => void {
+  return oms.subscribe(event => {
+    const { order } = event;
+    const scope = { symbol: order.symbol, accountId: order.accountId };
+    if (event.type === 'status') {
+      hub.publish({
+        channel: 'orders',
+        ...scope,
+        data: { order, transition: event.transition },
+      });
+    } else {
+      hub.publish({
+        channel: 'fills',
+        ...scope,
+        data: { orderId: order.id, fill: event.fill },
+      });
+    }
+  });
+}
+
+export interface MarketFeedOptions {
+  /** How often watched symbols are polled. Defaults to 1000 ms. */
+  intervalMs?: number;
+  /** Timeframe of the bars published. Defaults to `1m`. */
+  timeframe?: Timeframe;
+  clock?: () => number;
+}
+
+export interface MarketFeedStatus {
+  symbols: string[];
+  intervalMs: number;
+  /** When a poll last completed without error. */
+  lastPollAt: number | null;
+  /** Why the last poll failed, if it did. */
+  lastError: string | null;
+  /** Timestamp of the latest quote of each watched symbol. */
+  quotes: Record<string, number>;
+}
+
+interface Watched {
+  watchers: number;
+  quote?: Quote;
+  bar?: Bar;
+}
+
+/**
+ * Polls the market data provider for the symbols clients are watching and
+ * publishes each new quote on `quotes` and each new or updated bar on
+ * `bars`. It only runs while someone is watching.
+ */
+export class MarketFeed {
+  private readonly watched = new Map<string, Watched>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private inFlight: Promise<void> | null = null;
+  private lastPollAt: number | null = null;
+  private lastError: string | null = null;
+  private readonly intervalMs: number;
+  private readonly timeframe: Timeframe;
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly hub: StreamHub,
+    private readonly provider: MarketDataProvider,
+    options: MarketFeedOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 1_000;
+    this.timeframe = options.timeframe ?? '1m';
+    this.clock = options.clock ?? Date.now;
+  }
+
+  get symbols(): string[] {
+    return Array.from(this.watched.keys()).sort();
+  }
+
+  /** How fresh the feed is, for health checks and metrics. */
+  status(): MarketFeedStatus {
+    const quotes: Record<string, number> = {};
+    this.watched.forEach((entry, symbol) => {
+      if (entry.quote) quotes[symbol] = entry.quote.timestamp;
+    });
+    return {
+      symbols: this.symbols,
+      intervalMs: this.intervalMs,
+      lastPollAt: this.lastPollAt,
+      lastError: this.lastError,
+      quotes,
+    };
+  }
+
+  /**
+   * Starts publishing `symbols`, polling them right away. Returns a
+   * function that stops watching them.
+   */
+  watch(symbols: string[]): () => void {
+    const unique = symbols.filter((s, i) => symbols.indexOf(s) === i);
+    unique.forEach(symbol => {
+      const entry = this.watched.get(symbol) ?? { watchers: 0 };
+      entry.watchers += 1;
+      this.watched.set(symbol, entry);
+    });
+    if (!this.timer && this.watched.size > 0) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      // Never keep the process alive just to poll.
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+    void this.poll();
+
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      unique.forEach(symbol => {
+        const entry = this.watched.get(symbol);
+        if (entry && --entry.watchers <= 0) this.watched.delete(symbol);
+      });
+      if (this.watched.size === 0) this.stop();
+    };
+  }
+
+  /**
+   * Polls every watched symbol once, publishing what changed. A call made
+   * while a poll is running waits for that one instead.
+   */
+  poll(): Promise<void> {
+    this.inFlight ??= Promise.all(
+      Array.from(this.watched.entries()).map(([symbol, entry]) =>
+        this.pollSymbol(symbol, entry)
+      )
+    )
+      .then(() => {
+        this.lastPollAt = this.clock();
+        this.lastError = null;
+      })
+      .catch(error => {
+        this.lastError = (error as Error).message;
+        console.error('Market feed poll failed', error);
+      })
+      .finally(() => {
+        this.inFlight = null;
+      });
+    return this.inFlight;
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async pollSymbol(symbol: string, entry: Watched): Promise<void> {
+    const [quote, bars] = await Promise.all([
+      this.provider.getQuote(symbol),
+      this.provider.getBars(symbol, { timeframe: this.timeframe, limit: 1 }),
+    ]);
+    if (quote && !sameQuote(entry.quote, quote)) {
+      entry.quote = quote;
+      this.hub.publish({ channel: 'quotes', symbol, data: quote });
+    }
+    const bar = bars[bars.length - 1];
+    if (bar && !sameBar(entry.bar, bar)) {
+      entry.bar = bar;
+      this.hub.publish({
+        channel: 'bars',
+        symbol,
+        key: `${this.timeframe}:${bar.timestamp}`,
+        data: { timeframe: this.timeframe, bar },
+      });
+    }
+  }
+}
+
+function sameQuote(a: Quote | undefined, b: Quote): boolean {
+  return (
+    !!a &&
+    a.timestamp === b.timestamp &&
+    a.bid === b.bid &&
+    a.ask === b.ask &&
+    a.last === b.last
+  );
+}
+
+function sameBar(a: Bar | undefined, b: Bar): boolean {
+  return (
+    !!a &&
+    a.timestamp === b.timestamp &&
+    a.close === b.close &&
+    a.high === b.high &&
+    a.low === b.low &&
+    a.volume === b.volume
+  );
+}
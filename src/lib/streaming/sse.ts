@@ -0,0 +1,91 @@
+import type { StreamSubscription } from './hub';
+import type { StreamEvent } from './types';
+
+export interface EventStreamOptions {
+  /** Comment lines sent while idle, to keep proxies from timing out. */
+  heartbeatMs?: number;
+  /** Reconnection delay suggested to `EventSource`. */
+  retryMs?: number;
+  /** Called once the stream ends, however it ends. */
+  onClose?: () => void;
+}
+
+const encoder = new TextEncoder();
+
+/** One event in `text/event-stream` framing. */
+export function formatEvent(event: StreamEvent): string {
+  const { seq, channel, data, timestamp } = event;
+  return `id: ${seq}\nevent: ${channel}\ndata: ${JSON.stringify({
+    seq,
+    timestamp,
+    data,
+  })}\n\n`;
+}
+
+/**
+ * Serves a subscription as Server-Sent Events. Events are pulled from the
+ * subscription only as fast as the client reads them, so a slow client
+ * backs up into the subscription's queue, where stale market data is
+ * conflated; if that overflows the stream ends with an `overflow` event
+ * and `EventSource` reconnects with `Last-Event-ID` to catch up.
+ */
+export function eventStream(
+  subscription: StreamSubscription,
+  options: EventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const heartbeatMs = options.heartbeatMs ?? 15_000;
+  let next: Promise<StreamEvent | null> | null = null;
+  let finished = false;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    subscription.close();
+    options.onClose?.();
+  };
+
+  return new ReadableStream<Uint8Array>(
+    {
+      start(controller) {
+        let preamble = `retry: ${options.retryMs ?? 3_000}\n\n`;
+        if (subscription.gap) {
+          preamble += `event: reset\ndata: ${JSON.stringify({
+            reason: 'gap',
+          })}\n\n`;
+        }
+        controller.enqueue(encoder.encode(preamble));
+      },
+      async pull(controller) {
+        next ??= subscription.next();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const idle = new Promise<'idle'>(resolve => {
+          timer = setTimeout(() => resolve('idle'), heartbeatMs);
+        });
+        const result = await Promise.race([next, idle]);
+        clearTimeout(timer);
+        if (result === 'idle') {
+          controller.enqueue(encoder.encode(': ping\n\n'));
+          return;
+        }
+        next = null;
+        if (result) {
+          controller.enqueue(encoder.encode(formatEvent(result)));
+          return;
+        }
+        if (subscription.closeReason === 'overflow') {
+          controller.enqueue(
+            encoder.encode(
+              `event: overflow\ndata: ${JSON.stringify({
+                reason: 'overflow',
+              })}\n\n`
+            )
+          );
+        }
+        finish();
+        controller.close();
+      },
+      cancel: finish,
+    },
+    // Pull one event at a time so unread events wait in the subscription.
+    { highWaterMark: 1 }
+  );
+}
@@ -0,0 +1,54 @@
+export type StreamChannel = 'quotes' | 'bars' | 'orders' | 'fills';
+
+export const STREAM_CHANNELS: readonly StreamChannel[] = [
+  'quotes',
+  'bars',
+  'orders',
+  'fills',
+];
+
+export function isStreamChannel(value: unknown): value is StreamChannel {
+  return (STREAM_CHANNELS as readonly unknown[]).includes(value);
+}
+
+/** Channels whose newer events supersede older ones for the same key. */
+export const CONFLATED_CHANNELS: readonly StreamChannel[] = ['quotes', 'bars'];
+
+export interface StreamEventInput {
+  channel: StreamChannel;
+  /** Market data and orders are keyed by symbol. */
+  symbol?: string;
+  /** Order and fill events belong to an account. */
+  accountId?: string;
+  /**
+   * What a newer event replaces when a slow client falls behind, e.g. the
+   * bar's start time; events without one are only conflated by symbol.
+   */
+  key?: string;
+  data: unknown;
+}
+
+/** An event as delivered, numbered in publication order from 1. */
+export interface StreamEvent extends StreamEventInput {
+  seq: number;
+  timestamp: number;
+}
+
+export interface StreamFilter {
+  /** Defaults to every channel. */
+  channels?: StreamChannel[];
+  /** Limits market data and orders to these symbols. */
+  symbols?: string[];
+  accountId?: string;
+}
+
+export interface SubscribeOptions {
+  /** Replays buffered events after this sequence number first. */
+  after?: number;
+}
+
+/**
+ * `overflow`: the client fell too far behind and should reconnect,
+ * resuming from the last sequence number it read.
+ */
+export type StreamCloseReason = 'overflow' | 'closed';
@@ -0,0 +1,191 @@
+type Input = Record<string, unknown>;
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Reads fields off an untrusted JSON object, collecting every problem rather
+ * than stopping at the first so clients can fix a request in one pass.
+ * Getters return `undefined` for missing or invalid optional fields.
+ */
+export class Validator {
+  private readonly input: Input;
+
+  constructor(
+    input: unknown,
+    private readonly prefix = '',
+    /** Shared with nested validators so problems surface at the root. */
+    readonly problems: string[] = []
+  ) {
+    if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+      this.problems.push(`${prefix || 'body'} must be an object`);
+      this.input = {};
+    } else {
+      this.input = input as Input;
+    }
+  }
+
+  get valid(): boolean {
+    return this.problems.length === 0;
+  }
+
+  /** The object being validated, as received. */
+  get values(): Record<string, unknown> {
+    return this.input;
+  }
+
+  has(key: string): boolean {
+    return this.input[key] !== undefined && this.input[key] !== null;
+  }
+
+  raw(key: string): unknown {
+    return this.input[key];
+  }
+
+  string(key: string, required: true): string;
+  string(key: string, required?: boolean): string | undefined;
+  string(key: string, required = false): string | undefined {
+    const value = this.input[key];
+    if (typeof value === 'string' && value.trim() !== '') return value;
+    this.report(key, value, required, 'must be a non-empty string');
+    return undefined;
+  }
+
+  number(key: string, required: true, range?: NumberRange): number;
+  number(
+    key: string,
+    required?: boolean,
+    range?: NumberRange
+  ): number | undefined;
+  number(
+    key: string,
+    required = false,
+    { min = -Infinity, max = Infinity }: NumberRange = {}
+  ): number | undefined {
+    const value = this.input[key];
+    if (
+      typeof value === 'number' &&
+      Number.isFinite(value) &&
+      value >= min &&
+      value <= max
+    ) {
+      return value;
+    }
+    this.report(key, value, required, rangeMessage('a number', min, max));
+    return undefined;
+  }
+
+  integer(
+    key: string,
+    required = false,
+    { min = -Infinity, max = Infinity }: NumberRange = {}
+  ): number | undefined {
+    const value = this.input[key];
+    if (
+      Number.isInteger(value) &&
+      Number(value) >= min &&
+      Number(value) <= max
+    ) {
+      return value as number;
+    }
+    this.report(key, value, required, rangeMessage('an integer', min, max));
+    return undefined;
+  }
+
+  boolean(key: string): boolean | undefined {
+    const value = this.input[key];
+    if (typeof value === 'boolean') return value;
+    this.report(key, value, false, 'must be a boolean');
+    return undefined;
+  }
+
+  oneOf<T extends string>(
+    key: string,
+    allowed: readonly T[],
+    required: true
+  ): T;
+  oneOf<T extends string>(
+    key: string,
+    allowed: readonly T[],
+    required?: boolean
+  ): T | undefined;
+  oneOf<T extends string>(
+    key: string,
+    allowed: readonly T[],
+    required = false
+  ): T | undefined {
+    const value = this.input[key];
+    if ((allowed as readonly unknown[]).includes(value)) return value as T;
+    this.report(key, value, required, `must be one of ${allowed.join(', ')}`);
+    return undefined;
+  }
+
+  /** ISO-8601 string or epoch milliseconds. */
+  time(key: string, required = false): number | undefined {
+    const value = this.input[key];
+    const parsed =
+      typeof value === 'number'
+        ? value
+        : typeof value === 'string'
+          ? Date.parse(value)
+          : NaN;
+    if (Number.isFinite(parsed)) return parsed;
+    this.report(key, value, required, 'must be an ISO-8601 time or epoch ms');
+    return undefined;
+  }
+
+  stringArray(key: string, required = false): string[] | undefined {
+    const value = this.input[key];
+    if (
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every(item => typeof item === 'string' && item.trim() !== '')
+    ) {
+      return value as string[];
+    }
+    this.report(key, value, required, 'must be a non-empty array of strings');
+    return undefined;
+  }
+
+  /** A validator for a nested object, reporting into the same problems. */
+  object(key: string, required = false): Validator | undefined {
+    const value = this.input[key];
+    if (value === undefined || value === null) {
+      if (required) this.problems.push(`${this.path(key)} is required`);
+      return undefined;
+    }
+    const before = this.problems.length;
+    const nested = new Validator(value, this.path(key), this.problems);
+    return this.problems.length === before ? nested : undefined;
+  }
+
+  fail(key: string, message: string): void {
+    this.problems.push(`${this.path(key)} ${message}`);
+  }
+
+  private report(
+    key: string,
+    value: unknown,
+    required: boolean,
+    message: string
+  ): void {
+    if (value === undefined || value === null) {
+      if (required) this.problems.push(`${this.path(key)} is required`);
+      return;
+    }
+    this.problems.push(`${this.path(key)} ${message}`);
+  }
+
+  private path(key: string): string {
+    return this.prefix ? `${this.prefix}.${key}` : key;
+  }
+}
+
+function rangeMessage(kind: string, min: number, max: number): string {
+  if (min === -Infinity && max === Infinity) return `must be ${kind}`;
+  if (max === Infinity) return `must be ${kind} >= ${min}`;
+  if (min === -Infinity) return `must be ${kind} <= ${max}`;
+  return `must be ${kind} between ${min} and ${max}`;
+}
@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { requestToken, SESSION_COOKIE, verifyJwt } from '@/lib/auth/jwt';
+import { authSecret } from '@/lib/auth/secret';
+
+/** API routes anyone may call. */
+const PUBLIC_API = [
+  '/api/v1/auth/login',
+  '/api/v1/auth/logout',
+  '/api/v1/bars',
+  '/api/v1/rate-limited',
+  '/api/v1/search',
+];
+
+/**
+ * A first, cheap line of defence at the edge: API calls without any
+ * credential get a 401 and pages need a signed, unexpired session cookie.
+ * Whether a session or token has been revoked, and what its scopes allow,
+ * is checked by the route handlers with `requireAuth`.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname.startsWith('/api/')) {
+    if (PUBLIC_API.includes(pathname)) return NextResponse.next();
+    const token = requestToken(
+      request.headers,
+      request.cookies.get(SESSION_COOKIE)?.value
+    );
+    if (token) return NextResponse.next();
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Authentication is required' },
+      { status: 401 }
+    );
+  }
+
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value;
+  const claims = cookie ? await verifyJwt(cookie, authSecret()) : null;
+  if (claims?.typ === 'session') return NextResponse.next();
+  const login = new URL('/login', request.url);
+  login.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ['/api/v1/:path*', '/dashboard/:path*'],
+};
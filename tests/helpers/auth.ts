@@ -0,0 +1,16 @@
+import { getAuthService, userIdFor } from '@/lib/auth';
+
+/** The local provider's default user outside production. */
+export const TEST_USER = {
+  email: 'test@example.com',
+  password: 'testpassword',
+};
+
+/** The test user's trading account: each user has one under their id. */
+export const TEST_ACCOUNT = userIdFor('local', TEST_USER.email);
+
+/** Logs the test user in; the headers authenticate requests as them. */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { token } = await getAuthService().login(TEST_USER);
+  return { Authorization: `Bearer ${token}` };
+}
@@ -0,0 +1,157 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GET as getAudit } from '@/app/api/v1/agent/audit/route';
+import { GET as getTool } from '@/app/api/v1/agent/tools/[name]/route';
+import { POST as invoke } from '@/app/api/v1/agent/tools/[name]/invoke/route';
+import { GET as listTools } from '@/app/api/v1/agent/tools/route';
+import { setAuditLog, setToolRegistry } from '@/lib/agent';
+import { getAuthService } from '@/lib/auth';
+import { setPaperBroker } from '@/lib/broker';
+import { setOrderManager } from '@/lib/oms';
+import { setPortfolio } from '@/lib/portfolio';
+import { getRiskEngine, setRiskEngine } from '@/lib/risk';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1/agent';
+
+let auth: Record<string, string>;
+let readOnly: Record<string, string>;
+
+function call(name: string, body: unknown, headers = auth) {
+  return invoke(
+    new NextRequest(`${BASE}/tools/${name}/invoke`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    }),
+    { params: { name } }
+  );
+}
+
+describe('/api/v1/agent', () => {
+  const reset = () => {
+    setToolRegistry(undefined);
+    setAuditLog(undefined);
+    setRiskEngine(undefined);
+    setOrderManager(undefined);
+    setPortfolio(undefined);
+    setPaperBroker(undefined);
+  };
+  beforeAll(async () => {
+    reset();
+    auth = await authHeaders();
+    const service = getAuthService();
+    const { user } = await service.authenticate(
+      auth.Authorization.slice('Bearer '.length)
+    );
+    const { token } = await service.createApiToken(user.id, {
+      name: 'research agent',
+      scopes: ['read'],
+    });
+    readOnly = { Authorization: `Bearer ${token}` };
+  });
+  afterAll(reset);
+
+  it('describes the tools and which the caller may use', async () => {
+    const response = await listTools(
+      new NextRequest(`${BASE}/tools`, { headers: readOnly }),
+      { params: {} }
+    );
+    expect(response.status).toBe(200);
+    const { tools } = await response.json();
+    expect(
+      tools.map((tool: { name: string; allowed: boolean }) => [
+        tool.name,
+        tool.allowed,
+      ])
+    ).toEqual([
+      ['get_quote', true],
+      ['get_bars', true],
+      ['get_indicator', true],
+      ['screen_stocks', true],
+      ['get_portfolio', true],
+      ['forecast', true],
+      ['run_backtest', false],
+      ['place_order', false],
+      ['remember', false],
+      ['recall', true],
+    ]);
+
+    const tool = await getTool(
+      new NextRequest(`${BASE}/tools/get_quote`, { headers: auth }),
+      { params: { name: 'get_quote' } }
+    );
+    expect(await tool.json()).toMatchObject({
+      name: 'get_quote',
+      scope: 'read',
+      inputSchema: { type: 'object', required: ['symbol'] },
+    });
+    const missing = await getTool(
+      new NextRequest(`${BASE}/tools/nope`, { headers: auth }),
+      { params: { name: 'nope' } }
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it('invokes tools, checking scope and input', async () => {
+    const quote = await call('get_quote', { symbol: 'aapl' }, readOnly);
+    expect(quote.status).toBe(200);
+    expect(await quote.json()).toMatchObject({
+      tool: 'get_quote',
+      output: { symbol: 'AAPL' },
+    });
+
+    const denied = await call(
+      'place_order',
+      { symbol: 'AAPL', side: 'buy', quantity: 1 },
+      readOnly
+    );
+    expect(denied.status).toBe(403);
+
+    const invalid = await call('get_bars', { symbol: 'AAPL', limit: 0 });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).details).toEqual([
+      'limit must be an integer between 1 and 1000',
+    ]);
+
+    expect((await call('nope', {})).status).toBe(404);
+    expect((await call('get_quote', { symbol: 'NOPE' })).status).toBe(404);
+  });
+
+  it('puts agent orders through the risk checks', async () => {
+    getRiskEngine().setLimits({ restrictedSymbols: ['AAPL'] });
+    const response = await call('place_order', {
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+    });
+    expect(response.status).toBe(200);
+    expect((await response.json()).output).toMatchObject({
+      symbol: 'AAPL',
+      status: 'rejected',
+      rejectReasons: [{ code: 'RESTRICTED_SYMBOL' }],
+    });
+  });
+
+  it('lists the caller’s audited calls', async () => {
+    const response = await getAudit(
+      new NextRequest(`${BASE}/audit?tool=place_order`, { headers: auth }),
+      { params: {} }
+    );
+    const { entries } = await response.json();
+    expect(entries.map((entry: { outcome: string }) => entry.outcome)).toEqual([
+      'ok',
+      'denied',
+    ]);
+    expect(entries[1]).toMatchObject({
+      input: { symbol: 'AAPL', side: 'buy', quantity: 1 },
+      error: 'The place_order tool needs the trade scope',
+    });
+
+    const invalid = await getAudit(
+      new NextRequest(`${BASE}/audit?outcome=maybe`, { headers: auth }),
+      { params: {} }
+    );
+    expect(invalid.status).toBe(400);
+  });
+});
@@ -0,0 +1,174 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GET as history } from '@/app/api/v1/alerts/[id]/history/route';
+import { DELETE, GET as getAlert, PATCH } from '@/app/api/v1/alerts/[id]/route';
+import { GET, POST } from '@/app/api/v1/alerts/route';
+import { PATCH as markNotification } from '@/app/api/v1/notifications/[id]/route';
+import { GET as notifications } from '@/app/api/v1/notifications/route';
+import { getAlertEngine, setAlertEngine, setAlertStore } from '@/lib/alerts';
+import { getMarketFeed, setMarketFeed, setStreamHub } from '@/lib/streaming';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1';
+
+let auth: Record<string, string>;
+
+function request(path: string, method = 'GET', body?: unknown) {
+  return new NextRequest(`${BASE}${path}`, {
+    method,
+    headers: auth,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('/api/v1/alerts', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  const reset = () => {
+    setAlertEngine(undefined);
+    setAlertStore(undefined);
+    setMarketFeed(undefined);
+    setStreamHub(undefined);
+  };
+  beforeAll(reset);
+  afterAll(() => {
+    getMarketFeed().stop();
+    reset();
+  });
+
+  it('creates, lists, updates and deletes alerts', async () => {
+    const created = await POST(
+      request('/alerts', 'POST', {
+        name: 'Golden cross',
+        symbol: 'aapl',
+        condition: {
+          type: 'price_indicator',
+          indicator: { type: 'sma', period: 200 },
+          operator: 'crosses_above',
+        },
+        channels: [
+          { type: 'in_app' },
+          { type: 'webhook', url: 'http://127.0.0.1:9/hook', secret: 'x' },
+        ],
+      }),
+      { params: {} }
+    );
+    expect(created.status).toBe(201);
+    const alert = await created.json();
+    expect(created.headers.get('Location')).toBe(`/api/v1/alerts/${alert.id}`);
+    expect(alert).toMatchObject({
+      symbol: 'AAPL',
+      status: 'active',
+      evaluateOn: 'tick',
+      channels: [
+        { type: 'in_app' },
+        { type: 'webhook', url: 'http://127.0.0.1:9/hook' },
+      ],
+    });
+    expect(alert.channels[1].secret).toBeUndefined();
+
+    const listed = await (await GET(request('/alerts'), { params: {} })).json();
+    expect(listed.alerts.map((a: { id: string }) => a.id)).toEqual([alert.id]);
+
+    const params = { params: { id: alert.id } };
+    const patched = await PATCH(
+      request(`/alerts/${alert.id}`, 'PATCH', { status: 'disabled' }),
+      params
+    );
+    expect(await patched.json()).toMatchObject({ status: 'disabled' });
+    const fetched = await getAlert(request(`/alerts/${alert.id}`), params);
+    expect(await fetched.json()).toMatchObject({ name: 'Golden cross' });
+
+    const deleted = await DELETE(
+      request(`/alerts/${alert.id}`, 'DELETE'),
+      params
+    );
+    expect(deleted.status).toBe(204);
+    const missing = await getAlert(request(`/alerts/${alert.id}`), params);
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects invalid alerts', async () => {
+    const invalid = await POST(
+      request('/alerts', 'POST', {
+        symbol: 'AAPL',
+        condition: { type: 'indicator', operator: 'below', value: 30 },
+      }),
+      { params: {} }
+    );
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).details).toEqual([
+      'condition.indicator is required',
+    ]);
+
+    const unknown = await POST(
+      request('/alerts', 'POST', {
+        symbol: 'NOPE',
+        condition: { type: 'price', operator: 'above', value: 1 },
+      }),
+      { params: {} }
+    );
+    expect(unknown.status).toBe(400);
+  });
+
+  it('records triggers and notifies in the app', async () => {
+    const created = await POST(
+      request('/alerts', 'POST', {
+        symbol: 'MSFT',
+        condition: { type: 'price', operator: 'above', value: 1 },
+        mode: 'once',
+      }),
+      { params: {} }
+    );
+    const alert = await created.json();
+    const engine = getAlertEngine();
+    await engine.onQuote({
+      symbol: 'MSFT',
+      timestamp: 0,
+      bid: 400,
+      ask: 400.1,
+      bidSize: 1,
+      askSize: 1,
+      last: 400,
+    });
+    await engine.idle();
+
+    const params = { params: { id: alert.id } };
+    const triggers = await (
+      await history(request(`/alerts/${alert.id}/history`), params)
+    ).json();
+    expect(triggers.triggers).toEqual([
+      expect.objectContaining({
+        message: 'MSFT is above 1',
+        observed: { left: 400, right: 1 },
+        deliveries: [{ channel: 'in_app', status: 'delivered' }],
+      }),
+    ]);
+
+    const inbox = await (
+      await notifications(request('/notifications?unread=true'), {
+        params: {},
+      })
+    ).json();
+    expect(inbox.notifications).toHaveLength(1);
+    const [notification] = inbox.notifications;
+    const marked = await markNotification(
+      request(`/notifications/${notification.id}`, 'PATCH', { read: true }),
+      { params: { id: notification.id } }
+    );
+    expect(await marked.json()).toMatchObject({ readAt: expect.any(Number) });
+    const unread = await (
+      await notifications(request('/notifications?unread=true'), {
+        params: {},
+      })
+    ).json();
+    expect(unread.notifications).toEqual([]);
+
+    const bad = await markNotification(
+      request(`/notifications/${notification.id}`, 'PATCH', { read: 'yes' }),
+      { params: { id: notification.id } }
+    );
+    expect(bad.status).toBe(400);
+  });
+});
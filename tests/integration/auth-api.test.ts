@@ -0,0 +1,211 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { POST as login } from '@/app/api/v1/auth/login/route';
+import { POST as logout } from '@/app/api/v1/auth/logout/route';
+import { DELETE as revoke } from '@/app/api/v1/auth/tokens/[id]/route';
+import {
+  GET as listTokens,
+  POST as createToken,
+} from '@/app/api/v1/auth/tokens/route';
+import { POST as placeOrder } from '@/app/api/v1/orders/route';
+import { GET as getProtected } from '@/app/api/v1/protected/route';
+import { GET as getProfile } from '@/app/api/v1/user/profile/route';
+import { setAuthService } from '@/lib/auth';
+import { setPaperBroker } from '@/lib/broker';
+import { setOrderManager } from '@/lib/oms';
+import { TEST_USER } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1';
+
+function request(
+  path: string,
+  init: {
+    method?: string;
+    body?: unknown;
+    headers?: Record<string, string>;
+  } = {}
+) {
+  return new NextRequest(`${BASE}${path}`, {
+    method: init.method,
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    headers: init.headers,
+  });
+}
+
+const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+async function logIn() {
+  const response = await login(
+    request('/auth/login', { method: 'POST', body: TEST_USER }),
+    { params: {} }
+  );
+  return { response, body: await response.json() };
+}
+
+describe('/api/v1/auth', () => {
+  const reset = () => {
+    setAuthService(undefined);
+    setOrderManager(undefined);
+    setPaperBroker(undefined);
+  };
+  beforeAll(reset);
+  afterAll(reset);
+
+  it('rejects unauthenticated and badly authenticated requests', async () => {
+    const anonymous = await getProtected(request('/protected'), { params: {} });
+    expect(anonymous.status).toBe(401);
+    expect(await anonymous.json()).toMatchObject({ error: 'Unauthorized' });
+
+    const forged = await getProtected(
+      request('/protected', { headers: bearer('not.a.token') }),
+      { params: {} }
+    );
+    expect(forged.status).toBe(401);
+
+    const wrong = await login(
+      request('/auth/login', {
+        method: 'POST',
+        body: { ...TEST_USER, password: 'wrong-password' },
+      }),
+      { params: {} }
+    );
+    expect(wrong.status).toBe(401);
+    const invalid = await login(
+      request('/auth/login', { method: 'POST', body: { email: '' } }),
+      { params: {} }
+    );
+    expect(invalid.status).toBe(400);
+  });
+
+  it('logs in with a session cookie and logs out', async () => {
+    const { response, body } = await logIn();
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      token: expect.any(String),
+      tokenType: 'Bearer',
+      user: { email: TEST_USER.email, scopes: ['read', 'trade'] },
+    });
+    const cookie = response.headers.get('Set-Cookie')!;
+    expect(cookie).toContain(`stocai_session=${body.token}`);
+    expect(cookie).toMatch(/HttpOnly/i);
+    expect(cookie).toMatch(/SameSite=lax/i);
+
+    const withCookie = { Cookie: `stocai_session=${body.token}` };
+    const profile = await getProfile(
+      request('/user/profile', { headers: withCookie }),
+      { params: {} }
+    );
+    expect(await profile.json()).toMatchObject({
+      email: TEST_USER.email,
+      scopes: ['read', 'trade'],
+      authenticatedVia: 'session',
+    });
+
+    const out = await logout(
+      request('/auth/logout', { method: 'POST', headers: withCookie }),
+      { params: {} }
+    );
+    expect(out.status).toBe(204);
+    expect(out.headers.get('Set-Cookie')).toMatch(/stocai_session=;/);
+    const after = await getProfile(
+      request('/user/profile', { headers: withCookie }),
+      { params: {} }
+    );
+    expect(after.status).toBe(401);
+  });
+
+  it('issues API tokens limited to their scopes', async () => {
+    const { body: session } = await logIn();
+    const created = await createToken(
+      request('/auth/tokens', {
+        method: 'POST',
+        headers: bearer(session.token),
+        body: { name: 'read-only script', scopes: ['read'], expiresInDays: 30 },
+      }),
+      { params: {} }
+    );
+    expect(created.status).toBe(201);
+    const token = await created.json();
+    expect(token).toMatchObject({
+      name: 'read-only script',
+      scopes: ['read'],
+      token: expect.any(String),
+    });
+
+    const check = await getProtected(
+      request('/protected', { headers: bearer(token.token) }),
+      { params: {} }
+    );
+    expect(await check.json()).toMatchObject({ via: 'api', scopes: ['read'] });
+
+    // Reading is allowed, trading is not.
+    const order = await placeOrder(
+      request('/orders', {
+        method: 'POST',
+        headers: bearer(token.token),
+        body: { symbol: 'AAPL', side: 'buy', quantity: 1 },
+      }),
+      { params: {} }
+    );
+    expect(order.status).toBe(403);
+    // Nor can an API token mint more tokens.
+    const minted = await createToken(
+      request('/auth/tokens', {
+        method: 'POST',
+        headers: bearer(token.token),
+        body: { name: 'escalate', scopes: ['read', 'trade'] },
+      }),
+      { params: {} }
+    );
+    expect(minted.status).toBe(403);
+
+    const listed = await (
+      await listTokens(
+        request('/auth/tokens', { headers: bearer(session.token) }),
+        { params: {} }
+      )
+    ).json();
+    expect(listed.tokens).toEqual([
+      expect.not.objectContaining({ token: expect.anything() }),
+    ]);
+
+    const revoked = await revoke(
+      request(`/auth/tokens/${token.id}`, {
+        method: 'DELETE',
+        headers: bearer(session.token),
+      }),
+      { params: { id: token.id } }
+    );
+    expect(revoked.status).toBe(200);
+    const rejected = await getProtected(
+      request('/protected', { headers: bearer(token.token) }),
+      { params: {} }
+    );
+    expect(rejected.status).toBe(401);
+  });
+
+  it('validates token requests', async () => {
+    const { body: session } = await logIn();
+    const response = await createToken(
+      request('/auth/tokens', {
+        method: 'POST',
+        headers: bearer(session.token),
+        body: { name: 'x', scopes: ['read', 'launch'] },
+      }),
+      { params: {} }
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual([
+      'scopes has unknown scopes: launch',
+    ]);
+    const admin = await createToken(
+      request('/auth/tokens', {
+        method: 'POST',
+        headers: bearer(session.token),
+        body: { name: 'x', scopes: ['admin'] },
+      }),
+      { params: {} }
+    );
+    expect(admin.status).toBe(403);
+  });
+});
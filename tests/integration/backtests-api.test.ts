@@ -0,0 +1,145 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GET as getBacktest } from '@/app/api/v1/backtests/[id]/route';
+import { GET, POST } from '@/app/api/v1/backtests/route';
+import {
+  InMemoryBacktestStore,
+  getBacktestStore,
+  setBacktestStore,
+} from '@/lib/backtest';
+import { db } from '@/lib/database';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1/backtests';
+
+let auth: Record<string, string>;
+
+function post(body: unknown) {
+  return POST(
+    new NextRequest(BASE, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: auth,
+    }),
+    { params: {} }
+  );
+}
+
+describe('/api/v1/backtests', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  beforeAll(() => setBacktestStore(new InMemoryBacktestStore()));
+  afterAll(() => setBacktestStore(undefined));
+
+  it('runs, stores and returns a backtest', async () => {
+    const created = await post({
+      strategy: 'buy-and-hold',
+      symbols: ['AAPL'],
+      commission: { type: 'flat', amount: 1 },
+    });
+    expect(created.status).toBe(201);
+
+    const summary = await created.json();
+    expect(summary).toMatchObject({
+      id: expect.any(String),
+      strategy: 'buy-and-hold',
+      summary: { totalCommission: 1 },
+    });
+    expect(created.headers.get('Location')).toBe(
+      `/api/v1/backtests/${summary.id}`
+    );
+
+    const listed = await (
+      await GET(new NextRequest(BASE, { headers: auth }), { params: {} })
+    ).json();
+    expect(listed.backtests.map((b: { id: string }) => b.id)).toEqual([
+      summary.id,
+    ]);
+
+    const full = await getBacktest(
+      new NextRequest(`${BASE}/${summary.id}`, { headers: auth }),
+      {
+        params: { id: summary.id },
+      }
+    );
+    const record = await full.json();
+    expect(record.result.fills).toHaveLength(1);
+    expect(record.result.equityCurve.length).toBeGreaterThan(100);
+  });
+
+  it('keeps runs in the in-memory database, migrating it first', async () => {
+    process.env.BACKTEST_STORE = 'database';
+    setBacktestStore(undefined);
+    try {
+      const created = await post({
+        strategy: 'buy-and-hold',
+        symbols: ['AAPL'],
+      });
+      expect(created.status).toBe(201);
+      const { id } = await created.json();
+      const full = await getBacktest(
+        new NextRequest(`${BASE}/${id}`, { headers: auth }),
+        { params: { id } }
+      );
+      expect(full.status).toBe(200);
+    } finally {
+      delete process.env.BACKTEST_STORE;
+      setBacktestStore(new InMemoryBacktestStore());
+      await db.destroy();
+    }
+  });
+
+  it('validates requests', async () => {
+    const response = await post({ strategy: 'sma-cross', symbols: ['NOPE'] });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: 'Validation Error',
+      details: ['Unknown symbol NOPE'],
+    });
+
+    const badParams = await post({
+      strategy: 'sma-cross',
+      symbols: ['AAPL'],
+      params: { fast: 50, slow: 20 },
+    });
+    expect((await badParams.json()).details).toEqual([
+      'params.fast must be below slow',
+    ]);
+  });
+
+  it("hides other users' runs", async () => {
+    await getBacktestStore().save({
+      id: 'theirs',
+      userId: 'someone-else',
+      createdAt: new Date().toISOString(),
+      params: {},
+      result: {
+        strategy: 'sma-cross',
+        config: { symbols: ['AAPL'] },
+        summary: {},
+      } as never,
+    });
+    const listed = await (
+      await GET(new NextRequest(BASE, { headers: auth }), { params: {} })
+    ).json();
+    expect(listed.backtests.map((b: { id: string }) => b.id)).not.toContain(
+      'theirs'
+    );
+    const response = await getBacktest(
+      new NextRequest(`${BASE}/theirs`, { headers: auth }),
+      { params: { id: 'theirs' } }
+    );
+    expect(response.status).toBe(404);
+  });
+
+  it('returns 404 for unknown runs', async () => {
+    const response = await getBacktest(
+      new NextRequest(`${BASE}/missing`, { headers: auth }),
+      {
+        params: { id: 'missing' },
+      }
+    );
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { GET } from '@/app/api/v1/bars/route';
+
+function get(query: string) {
+  return GET(new NextRequest(`http://localhost/api/v1/bars?${query}`), {
+    params: {},
+  });
+}
+
+describe('GET /api/v1/bars', () => {
+  it('returns stored daily bars', async () => {
+    const response = await get('symbol=AAPL&timeframe=1d&limit=5');
+    expect(response.status).toBe(200);
+
+    const body = await response.json();
+    expect(body).toMatchObject({
+      symbol: 'AAPL',
+      timeframe: '1d',
+      source: '1d',
+    });
+    expect(body.bars).toHaveLength(5);
+  });
+
+  it('resamples minute bars into hourly bars', async () => {
+    const response = await get('symbol=aapl&timeframe=1h');
+    const body = await response.json();
+
+    expect(body.source).toBe('1m');
+    expect(body.bars).toHaveLength(7);
+    const volume = body.bars.reduce(
+      (sum: number, bar: { volume: number }) => sum + bar.volume,
+      0
+    );
+    const minutes = await (await get('symbol=AAPL&timeframe=1m')).json();
+    expect(volume).toBe(
+      minutes.bars.reduce(
+        (sum: number, bar: { volume: number }) => sum + bar.volume,
+        0
+      )
+    );
+  });
+
+  it('rejects invalid parameters', async () => {
+    const response = await get('timeframe=2h&limit=-1');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: 'Validation Error',
+      details: expect.arrayContaining(['symbol is required']),
+    });
+
+    const coarser = await get('symbol=AAPL&timeframe=1m&source=1h');
+    expect(coarser.status).toBe(400);
+  });
+
+  it('returns 404 for unknown symbols', async () => {
+    const response = await get('symbol=NOPE');
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: 'Not Found' });
+  });
+});
@@ -0,0 +1,177 @@
+import { NextRequest } from 'next/server';
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { POST } from '@/app/api/v1/batch-operations/route';
+import { setPaperBroker } from '@/lib/broker';
+import { db, getDatabase } from '@/lib/database';
+import { getOrderManager, setOrderManager } from '@/lib/oms';
+import { setPortfolio } from '@/lib/portfolio';
+import { setRiskEngine } from '@/lib/risk';
+import { TEST_ACCOUNT, authHeaders } from '../helpers/auth';
+
+let auth: Record<string, string>;
+
+function post(body: unknown) {
+  return POST(
+    new NextRequest('http://localhost/api/v1/batch-operations', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: auth,
+    }),
+    { params: {} }
+  );
+}
+
+/** A buy that rests well below the market, tying up buying power. */
+const resting = (quantity: number) => ({
+  symbol: 'AAPL',
+  side: 'buy',
+  quantity,
+  type: 'limit',
+  limitPrice: 100,
+});
+
+describe('/api/v1/batch-operations', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  const reset = () => {
+    setOrderManager(undefined);
+    setPaperBroker(undefined);
+    setPortfolio(undefined);
+    setRiskEngine(undefined);
+  };
+  beforeEach(reset);
+  afterAll(reset);
+
+  it('places every leg of a basket', async () => {
+    const response = await post({
+      orders: [
+        { symbol: 'msft', side: 'buy', quantity: 5 },
+        { symbol: 'JPM', side: 'sell', quantity: 5 },
+      ],
+    });
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result).toMatchObject({
+      mode: 'atomic',
+      committed: true,
+      placed: 2,
+      failed: 0,
+    });
+    expect(
+      result.legs.map((leg: { order: { symbol: string } }) => leg.order.symbol)
+    ).toEqual(['MSFT', 'JPM']);
+    expect(getOrderManager().list()).toHaveLength(2);
+  });
+
+  it('rolls back a basket with an invalid leg', async () => {
+    const response = await post({
+      orders: [
+        { symbol: 'AAPL', side: 'buy', quantity: 5 },
+        { symbol: 'NOPE', side: 'buy', quantity: 5 },
+        { symbol: 'AAPL', side: 'hold' },
+      ],
+    });
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body).toMatchObject({
+      error: 'Transaction Failed',
+      message: 'No orders were placed: orders[1], orders[2] failed',
+    });
+    expect(body.details).toEqual([
+      { index: 0, status: 'not-placed' },
+      { index: 1, status: 'invalid', problems: ['Unknown symbol NOPE'] },
+      {
+        index: 2,
+        status: 'invalid',
+        problems: [
+          'side must be one of buy, sell',
+          expect.stringMatching(/^quantity/),
+        ],
+      },
+    ]);
+    expect(getOrderManager().list()).toEqual([]);
+  });
+
+  it('rolls back a basket that fails the risk checks together', async () => {
+    const response = await post({ orders: [resting(600), resting(600)] });
+    expect(response.status).toBe(422);
+    const body = await response.json();
+    expect(body.error).toBe('Transaction Failed');
+    expect(body.details[0].status).toBe('not-placed');
+    expect(body.details[1]).toMatchObject({
+      status: 'rejected',
+      reasons: [{ code: expect.any(String) }],
+    });
+    expect(getOrderManager().list()).toEqual([]);
+  });
+
+  it('places what passes in best-effort mode', async () => {
+    const response = await post({
+      mode: 'best-effort',
+      orders: [resting(600), resting(600), { symbol: 'NOPE' }],
+    });
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result).toMatchObject({ committed: true, placed: 1, failed: 2 });
+    expect(result.legs.map((leg: { status: string }) => leg.status)).toEqual([
+      'placed',
+      'rejected',
+      'invalid',
+    ]);
+    expect(getOrderManager().list({ status: 'open' })).toHaveLength(1);
+  });
+
+  it('records every leg in the database before placing any', async () => {
+    process.env.ORDER_STORE = 'database';
+    try {
+      const response = await post({
+        orders: [{ symbol: 'MSFT', side: 'buy', quantity: 5 }, resting(5)],
+      });
+      expect(response.status).toBe(200);
+      const placed = (await response.json()).legs.map(
+        (leg: { order: { id: string; status: string } }) => leg.order
+      );
+      const statuses = (orders: { id: string; status: string }[]) =>
+        orders
+          .map(order => `${order.id}:${order.status}`)
+          .sort()
+          .join();
+      // Saved as placed, then followed as they change.
+      await vi.waitFor(async () => {
+        const saved = await getDatabase().orders.list({
+          accountId: TEST_ACCOUNT,
+        });
+        expect(statuses(saved)).toBe(statuses(placed));
+      });
+    } finally {
+      delete process.env.ORDER_STORE;
+      await db.destroy();
+    }
+  });
+
+  it('rejects malformed batches and anonymous callers', async () => {
+    const empty = await post({ orders: [] });
+    expect(empty.status).toBe(400);
+    expect((await empty.json()).details).toEqual([
+      'orders must be a non-empty array',
+    ]);
+
+    const anonymous = await POST(
+      new NextRequest('http://localhost/api/v1/batch-operations', {
+        method: 'POST',
+        body: JSON.stringify({ orders: [resting(1)] }),
+      }),
+      { params: {} }
+    );
+    expect(anonymous.status).toBe(401);
+  });
+});
@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/v1/forecasts/route';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1/forecasts';
+
+let auth: Record<string, string>;
+
+function post(body: unknown) {
+  return POST(
+    new NextRequest(BASE, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: auth,
+    }),
+    { params: {} }
+  );
+}
+
+describe('/api/v1/forecasts', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+
+  it('trains on local bars and reports the signal and its accuracy', async () => {
+    const response = await post({
+      symbol: 'msft',
+      horizon: 5,
+      model: { type: 'boosted-trees', trees: 20 },
+    });
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result).toMatchObject({
+      symbol: 'MSFT',
+      timeframe: '1d',
+      horizon: 5,
+      model: { type: 'boosted-trees', trees: 20, depth: 3 },
+      evaluation: {
+        samples: expect.any(Number),
+        directionalAccuracy: expect.any(Number),
+        baselineAccuracy: expect.any(Number),
+      },
+      signal: {
+        direction: expect.stringMatching(/^(up|down|flat)$/),
+        confidence: expect.any(Number),
+      },
+    });
+    expect(result.training.end).toBeLessThan(result.evaluation.start);
+  });
+
+  it('rejects bad requests', async () => {
+    const invalid = await post({ symbol: 'AAPL', model: { type: 'lstm' } });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).details).toEqual([
+      'model.type must be one of linear, ridge, autoregressive, boosted-trees',
+    ]);
+
+    expect((await post({ symbol: 'NOPE' })).status).toBe(404);
+
+    // No minute bars are stored, so there is nothing to train on.
+    const empty = await post({ symbol: 'AAPL', timeframe: '1h' });
+    expect(empty.status).toBe(422);
+    expect((await empty.json()).error).toBe('Insufficient Data');
+
+    const anonymous = await POST(
+      new NextRequest(BASE, { method: 'POST', body: '{}' }),
+      { params: {} }
+    );
+    expect(anonymous.status).toBe(401);
+  });
+});
@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GET as getHealth } from '@/app/health/route';
+import { GET as getMetrics } from '@/app/metrics/route';
+import { GET as getReady } from '@/app/ready/route';
+import { GET as getOrders } from '@/app/api/v1/orders/route';
+import { setPaperBroker } from '@/lib/broker';
+import {
+  ReadinessProbe,
+  getReadinessProbe,
+  setReadinessProbe,
+} from '@/lib/health';
+import { setMetricsRegistry } from '@/lib/metrics';
+import { setOrderManager } from '@/lib/oms';
+import { setMarketFeed, setStreamHub } from '@/lib/streaming';
+
+const BASE = 'http://localhost';
+
+const get = (handler: typeof getHealth, path: string) =>
+  handler(new NextRequest(`${BASE}${path}`), { params: {} });
+
+describe('health and metrics endpoints', () => {
+  const reset = () => {
+    setReadinessProbe(undefined);
+    setMetricsRegistry(undefined);
+    setMarketFeed(undefined);
+    setStreamHub(undefined);
+    setOrderManager(undefined);
+    setPaperBroker(undefined);
+  };
+  beforeAll(reset);
+  afterAll(reset);
+
+  it('reports liveness', async () => {
+    const response = await get(getHealth, '/health');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      status: 'healthy',
+      service: 'stocai',
+      version: expect.any(String),
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('reports readiness with each dependency', async () => {
+    const ready = await get(getReady, '/ready');
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toMatchObject({
+      status: 'ready',
+      service: 'stocai',
+      dependencies: {
+        marketData: { status: 'up', details: { provider: 'file' } },
+        marketFeed: { status: 'up' },
+        broker: { status: 'up', details: { broker: 'paper' } },
+        database: { status: 'up', details: { dialect: 'sqlite' } },
+        cache: { status: 'up', details: { store: 'memory' } },
+      },
+    });
+
+    const probe = new ReadinessProbe({ timeoutMs: 50 });
+    probe.register('ok', async () => undefined);
+    probe.register('cache', () => Promise.reject(new Error('refused')));
+    probe.register('slow', () => new Promise(() => {}));
+    setReadinessProbe(probe);
+    const failing = await get(getReady, '/ready');
+    expect(failing.status).toBe(503);
+    expect(await failing.json()).toMatchObject({
+      status: 'not_ready',
+      dependencies: {
+        ok: { status: 'up' },
+        cache: { status: 'down', message: 'refused' },
+        slow: { status: 'down', message: 'Timed out after 50 ms' },
+      },
+    });
+    setReadinessProbe(undefined);
+  });
+
+  it('exposes Prometheus metrics', async () => {
+    await getOrders(new NextRequest(`${BASE}/api/v1/orders`), { params: {} });
+    const response = await get(getMetrics, '/metrics');
+    expect(response.headers.get('Content-Type')).toContain('text/plain');
+    const text = await response.text();
+    expect(text).toContain('# HELP');
+    expect(text).toContain(
+      'http_requests_total{method="GET",route="/api/v1/orders",status="401"} 1'
+    );
+    expect(text).toContain('http_request_duration_seconds_bucket');
+    expect(text).toContain('process_cpu_seconds_total');
+    expect(text).toContain('# TYPE oms_fill_latency_seconds histogram');
+  });
+});
@@ -0,0 +1,116 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DELETE, GET, PATCH } from '@/app/api/v1/memories/[id]/route';
+import { GET as search, POST } from '@/app/api/v1/memories/route';
+import {
+  InMemoryMemoryStore,
+  setMemoryBank,
+  setMemoryStore,
+} from '@/lib/memory';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1/memories';
+
+let auth: Record<string, string>;
+
+function create(body: unknown) {
+  return POST(
+    new NextRequest(BASE, {
+      method: 'POST',
+      headers: auth,
+      body: JSON.stringify(body),
+    }),
+    { params: {} }
+  );
+}
+
+async function find(query: string) {
+  const response = await search(
+    new NextRequest(`${BASE}?${query}`, { headers: auth }),
+    { params: {} }
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+describe('/api/v1/memories', () => {
+  const reset = () => {
+    setMemoryBank(undefined);
+    setMemoryStore(undefined);
+  };
+  beforeAll(async () => {
+    reset();
+    setMemoryStore(new InMemoryMemoryStore());
+    auth = await authHeaders();
+  });
+  afterAll(reset);
+
+  it('records, searches, edits and deletes memories', async () => {
+    const created = await create({
+      kind: 'rationale',
+      text: 'Opened ahead of earnings on services margin strength',
+      symbols: ['aapl'],
+      tags: ['Earnings'],
+      orderIds: ['o-1'],
+    });
+    expect(created.status).toBe(201);
+    const memory = await created.json();
+    expect(created.headers.get('Location')).toBe(
+      `/api/v1/memories/${memory.id}`
+    );
+    expect(memory).toMatchObject({
+      source: 'user',
+      symbols: ['AAPL'],
+      tags: ['earnings'],
+    });
+    await create({ text: 'Energy looks heavy', symbols: ['XOM'] });
+
+    const ranked = await find('q=margin&symbol=aapl,msft');
+    expect(ranked.body).toMatchObject({
+      total: 1,
+      results: [{ memory: { id: memory.id }, score: expect.any(Number) }],
+    });
+    expect((await find('tag=earnings&kind=rationale')).body.total).toBe(1);
+    expect((await find('limit=1')).body).toMatchObject({
+      total: 2,
+      results: [{ memory: { symbols: ['XOM'] }, score: null }],
+    });
+    expect((await find('kind=idea&limit=0')).body.details).toEqual([
+      'limit must be an integer between 1 and 100',
+    ]);
+
+    const patched = await PATCH(
+      new NextRequest(`${BASE}/${memory.id}`, {
+        method: 'PATCH',
+        headers: auth,
+        body: JSON.stringify({ kind: 'thesis', tags: [] }),
+      }),
+      { params: { id: memory.id } }
+    );
+    expect(await patched.json()).toMatchObject({ kind: 'thesis', tags: [] });
+
+    const removed = await DELETE(
+      new NextRequest(`${BASE}/${memory.id}`, {
+        method: 'DELETE',
+        headers: auth,
+      }),
+      { params: { id: memory.id } }
+    );
+    expect(removed.status).toBe(204);
+    const missing = await GET(
+      new NextRequest(`${BASE}/${memory.id}`, { headers: auth }),
+      { params: { id: memory.id } }
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects invalid memories', async () => {
+    const response = await create({ kind: 'idea', symbols: 'AAPL' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual([
+      'kind must be one of note, thesis, rationale',
+      'text is required',
+      'symbols must be an array of non-empty strings',
+    ]);
+    expect((await find('kind=idea')).status).toBe(400);
+  });
+});
@@ -0,0 +1,191 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DELETE, GET as getOrder, PATCH } from '@/app/api/v1/orders/[id]/route';
+import { GET, POST } from '@/app/api/v1/orders/route';
+import { getAuthService, setAuthService } from '@/lib/auth';
+import { setPaperBroker } from '@/lib/broker';
+import { db, getDatabase } from '@/lib/database';
+import { getOrderManager, setOrderManager } from '@/lib/oms';
+import { TEST_ACCOUNT, authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1/orders';
+
+let auth: Record<string, string>;
+
+function post(body: unknown, headers?: Record<string, string>) {
+  return POST(
+    new NextRequest(BASE, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { ...auth, ...headers },
+    }),
+    { params: {} }
+  );
+}
+
+function onOrder(
+  handler: typeof PATCH,
+  id: string,
+  method: string,
+  body?: unknown,
+  headers = auth
+) {
+  return handler(
+    new NextRequest(`${BASE}/${id}`, {
+      headers,
+      method,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    { params: { id } }
+  );
+}
+
+describe('/api/v1/orders', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  const reset = () => {
+    setOrderManager(undefined);
+    setPaperBroker(undefined);
+  };
+  beforeAll(reset);
+  afterAll(reset);
+
+  it('fills a market order against the latest quote', async () => {
+    const created = await post({ symbol: 'aapl', side: 'buy', quantity: 10 });
+    expect(created.status).toBe(201);
+    const order = await created.json();
+    expect(order).toMatchObject({
+      id: expect.any(String),
+      symbol: 'AAPL',
+      status: 'filled',
+      filledQuantity: 10,
+    });
+    expect(created.headers.get('Location')).toBe(`/api/v1/orders/${order.id}`);
+
+    const fetched = await onOrder(getOrder, order.id, 'GET');
+    expect((await fetched.json()).fills).toHaveLength(1);
+  });
+
+  it('amends, cancels and lists orders', async () => {
+    const created = await post({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 5,
+      type: 'limit',
+      limitPrice: 1,
+    });
+    const order = await created.json();
+    expect(order.status).toBe('accepted');
+
+    const amended = await onOrder(PATCH, order.id, 'PATCH', { limitPrice: 2 });
+    expect(amended.status).toBe(200);
+    const replacement = await amended.json();
+    expect(replacement).toMatchObject({ replaces: order.id, limitPrice: 2 });
+
+    const stale = await onOrder(DELETE, order.id, 'DELETE');
+    expect(stale.status).toBe(409);
+    const cancelled = await onOrder(DELETE, replacement.id, 'DELETE');
+    expect((await cancelled.json()).status).toBe('cancelled');
+
+    const listed = await (
+      await GET(new NextRequest(`${BASE}?status=replaced`, { headers: auth }), {
+        params: {},
+      })
+    ).json();
+    expect(listed.orders.map((o: { id: string }) => o.id)).toEqual([order.id]);
+  });
+
+  it('replays requests with the same idempotency key', async () => {
+    const body = {
+      symbol: 'MSFT',
+      side: 'sell',
+      quantity: 1,
+      type: 'limit',
+      limitPrice: 9999,
+    };
+    const headers = { 'Idempotency-Key': 'retry-1' };
+    const first = await post(body, headers);
+    const second = await post(body, headers);
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(200);
+    expect((await second.json()).id).toBe((await first.json()).id);
+
+    const conflict = await post({ ...body, quantity: 2 }, headers);
+    expect(conflict.status).toBe(409);
+  });
+
+  it("keeps each user to their own account's orders", async () => {
+    const mine = await (
+      await post({
+        symbol: 'AAPL',
+        side: 'buy',
+        quantity: 1,
+        type: 'limit',
+        limitPrice: 1,
+      })
+    ).json();
+    expect(mine.accountId).toBe(TEST_ACCOUNT);
+
+    process.env.AUTH_LOCAL_USERS = 'rival@example.com:rivalpassword';
+    setAuthService(undefined);
+    const { token } = await getAuthService().login({
+      email: 'rival@example.com',
+      password: 'rivalpassword',
+    });
+    delete process.env.AUTH_LOCAL_USERS;
+    const rival = { Authorization: `Bearer ${token}` };
+
+    const listed = await (
+      await GET(new NextRequest(BASE, { headers: rival }), { params: {} })
+    ).json();
+    expect(listed.orders).toEqual([]);
+    for (const [handler, method, body] of [
+      [getOrder, 'GET', undefined],
+      [PATCH, 'PATCH', { limitPrice: 2 }],
+      [DELETE, 'DELETE', undefined],
+    ] as const) {
+      const response = await onOrder(handler, mine.id, method, body, rival);
+      expect(response.status).toBe(404);
+    }
+    expect(getOrderManager().get(mine.id)).toMatchObject({
+      status: 'accepted',
+      limitPrice: 1,
+    });
+    setAuthService(undefined);
+    auth = await authHeaders();
+  });
+
+  it('saves orders to the in-memory database, migrating it first', async () => {
+    process.env.ORDER_STORE = 'database';
+    setOrderManager(undefined);
+    try {
+      const created = await post({ symbol: 'MSFT', side: 'buy', quantity: 2 });
+      expect(created.status).toBe(201);
+      const order = await created.json();
+      await vi.waitFor(async () =>
+        expect(await getDatabase().orders.get(order.id)).toMatchObject({
+          status: 'filled',
+          filledQuantity: 2,
+        })
+      );
+    } finally {
+      delete process.env.ORDER_STORE;
+      setOrderManager(undefined);
+      await db.destroy();
+    }
+  });
+
+  it('validates requests', async () => {
+    const invalid = await post({ symbol: 'AAPL', side: 'buy', type: 'stop' });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).details).toEqual(['quantity is required']);
+
+    const unknown = await post({ symbol: 'NOPE', side: 'buy', quantity: 1 });
+    expect((await unknown.json()).details).toEqual(['Unknown symbol NOPE']);
+
+    expect((await onOrder(getOrder, 'missing', 'GET')).status).toBe(404);
+    const empty = await onOrder(PATCH, 'missing', 'PATCH', {});
+    expect(empty.status).toBe(400);
+  });
+});
@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { POST as runBacktest } from '@/app/api/v1/backtests/route';
+import { GET } from '@/app/api/v1/portfolio/performance/route';
+import {
+  InMemoryBacktestStore,
+  getBacktestStore,
+  setBacktestStore,
+} from '@/lib/backtest';
+import { setPaperBroker } from '@/lib/broker';
+import { setOrderManager } from '@/lib/oms';
+import { setPortfolio } from '@/lib/portfolio';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1';
+
+let auth: Record<string, string>;
+
+const get = (query = '') =>
+  GET(
+    new NextRequest(`${BASE}/portfolio/performance${query}`, { headers: auth }),
+    {
+      params: {},
+    }
+  );
+
+describe('/api/v1/portfolio/performance', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  const reset = () => {
+    setBacktestStore(undefined);
+    setPortfolio(undefined);
+    setOrderManager(undefined);
+    setPaperBroker(undefined);
+  };
+  beforeAll(() => {
+    reset();
+    setBacktestStore(new InMemoryBacktestStore());
+  });
+  afterAll(reset);
+
+  it('reports metrics of the live portfolio', async () => {
+    const response = await get();
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.source).toEqual({ portfolio: true });
+    expect(body.metrics).toMatchObject({
+      maxDrawdown: expect.any(Number),
+      periodsPerYear: expect.any(Number),
+    });
+  });
+
+  it('reports metrics of a backtest against a benchmark', async () => {
+    const created = await runBacktest(
+      new NextRequest(`${BASE}/backtests`, {
+        headers: auth,
+        method: 'POST',
+        body: JSON.stringify({ strategy: 'buy-and-hold', symbols: ['AAPL'] }),
+      }),
+      { params: {} }
+    );
+    const { id } = await created.json();
+
+    const response = await get(`?backtest=${id}&benchmark=msft&window=20`);
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({
+      source: { backtest: id },
+      benchmark: 'MSFT',
+      metrics: {
+        totalReturn: expect.any(Number),
+        sharpe: expect.any(Number),
+        beta: expect.any(Number),
+        alpha: expect.any(Number),
+      },
+    });
+    expect(body.rolling.length).toBe(body.metrics.periods - 19);
+    expect(body.rolling[0].beta).toEqual(expect.any(Number));
+  });
+
+  it("returns 404 for another user's backtest", async () => {
+    await getBacktestStore().save({
+      id: 'theirs',
+      userId: 'someone-else',
+      createdAt: new Date().toISOString(),
+      params: {},
+      result: { equityCurve: [], trades: [] } as never,
+    });
+    expect((await get('?backtest=theirs')).status).toBe(404);
+  });
+
+  it('validates the query', async () => {
+    expect((await get('?backtest=missing')).status).toBe(404);
+    expect((await get('?benchmark=NOPE')).status).toBe(400);
+    expect((await get('?window=1')).status).toBe(400);
+  });
+});
@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { POST as placeOrder } from '@/app/api/v1/orders/route';
+import { GET as getPortfolio } from '@/app/api/v1/portfolio/route';
+import { GET as getPositions } from '@/app/api/v1/positions/route';
+import { setPaperBroker } from '@/lib/broker';
+import { setOrderManager } from '@/lib/oms';
+import { PortfolioLedger, setPortfolio } from '@/lib/portfolio';
+import { TEST_ACCOUNT, authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1';
+
+let auth: Record<string, string>;
+
+describe('/api/v1/portfolio and /api/v1/positions', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  const reset = () => {
+    setPortfolio(undefined);
+    setOrderManager(undefined);
+    setPaperBroker(undefined);
+  };
+  beforeAll(reset);
+  afterAll(reset);
+
+  it('reports positions built from order fills', async () => {
+    const empty = await getPortfolio(
+      new NextRequest(`${BASE}/portfolio`, { headers: auth }),
+      {
+        params: {},
+      }
+    );
+    expect(await empty.json()).toMatchObject({
+      cash: 100_000,
+      equity: 100_000,
+      positions: [],
+    });
+
+    const order = await placeOrder(
+      new NextRequest(`${BASE}/orders`, {
+        headers: auth,
+        method: 'POST',
+        body: JSON.stringify({ symbol: 'AAPL', side: 'buy', quantity: 10 }),
+      }),
+      { params: {} }
+    );
+    const { averageFillPrice } = await order.json();
+
+    const portfolio = await (
+      await getPortfolio(
+        new NextRequest(`${BASE}/portfolio`, { headers: auth }),
+        { params: {} }
+      )
+    ).json();
+    expect(portfolio.cash).toBeCloseTo(100_000 - 10 * averageFillPrice);
+    expect(portfolio.equity).toBeCloseTo(
+      portfolio.cash + portfolio.marketValue
+    );
+
+    const positions = await (
+      await getPositions(
+        new NextRequest(`${BASE}/positions?symbol=aapl`, { headers: auth }),
+        {
+          params: {},
+        }
+      )
+    ).json();
+    expect(positions.positions).toEqual([
+      expect.objectContaining({
+        symbol: 'AAPL',
+        quantity: 10,
+        averageCost: averageFillPrice,
+        lots: [expect.objectContaining({ quantity: 10 })],
+      }),
+    ]);
+  });
+
+  it('uses the configured ledger', async () => {
+    setPortfolio(
+      new PortfolioLedger({ initialCash: 5, method: 'lifo' }),
+      TEST_ACCOUNT
+    );
+    const response = await getPortfolio(
+      new NextRequest(`${BASE}/portfolio`, { headers: auth }),
+      {
+        params: {},
+      }
+    );
+    expect(await response.json()).toMatchObject({ cash: 5, method: 'lifo' });
+  });
+});
@@ -0,0 +1,142 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { POST as optimize } from '@/app/api/v1/portfolio/optimize/route';
+import { POST as rebalance } from '@/app/api/v1/portfolio/rebalance/route';
+import { PortfolioLedger, setPortfolio } from '@/lib/portfolio';
+import { TEST_ACCOUNT, authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1/portfolio';
+
+let auth: Record<string, string>;
+
+function post(
+  handler: typeof optimize,
+  path: string,
+  body: unknown
+): Promise<Response> {
+  return handler(
+    new NextRequest(`${BASE}/${path}`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: auth,
+    }),
+    { params: {} }
+  );
+}
+
+describe('/api/v1/portfolio/optimize and /api/v1/portfolio/rebalance', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+    const ledger = new PortfolioLedger({ initialCash: 50_000 });
+    ledger.applyFill({
+      id: 'fill-1',
+      symbol: 'XOM',
+      side: 'buy',
+      quantity: 100,
+      price: 100,
+      commission: 0,
+      timestamp: 0,
+    });
+    setPortfolio(ledger, TEST_ACCOUNT);
+  });
+  afterAll(() => setPortfolio(undefined));
+
+  it('optimizes weights from local bars under sector caps', async () => {
+    const response = await post(optimize, 'optimize', {
+      symbols: ['aapl', 'msft', 'nvda', 'jpm', 'xom'],
+      objective: 'min-variance',
+      constraints: { maxWeight: 0.4, sectorCaps: { technology: 0.5 } },
+      frontierPoints: 3,
+    });
+    expect(response.status).toBe(200);
+    const result = await response.json();
+    expect(result).toMatchObject({
+      objective: 'min-variance',
+      timeframe: '1d',
+      observations: 252,
+      allocation: {
+        expectedReturn: expect.any(Number),
+        volatility: expect.any(Number),
+      },
+    });
+    expect(result.assets).toHaveLength(5);
+    expect(result.assets[0]).toMatchObject({
+      symbol: 'AAPL',
+      sector: 'Technology',
+    });
+    expect(result.frontier).toHaveLength(3);
+
+    const { weights } = result.allocation;
+    const total = Object.keys(weights).reduce(
+      (sum: number, symbol: string) => sum + weights[symbol],
+      0
+    );
+    expect(total).toBeCloseTo(1, 6);
+    expect(weights.AAPL + weights.MSFT + weights.NVDA).toBeLessThanOrEqual(
+      0.5 + 1e-6
+    );
+    Object.keys(weights).forEach(symbol => {
+      expect(weights[symbol]).toBeGreaterThanOrEqual(0);
+      expect(weights[symbol]).toBeLessThanOrEqual(0.4 + 1e-6);
+    });
+  });
+
+  it('reports bad, unknown and infeasible requests', async () => {
+    const invalid = await post(optimize, 'optimize', { symbols: [] });
+    expect(invalid.status).toBe(400);
+
+    const unknown = await post(optimize, 'optimize', {
+      symbols: ['AAPL', 'NOPE'],
+    });
+    expect(unknown.status).toBe(404);
+    expect((await unknown.json()).message).toBe('Unknown symbol NOPE');
+
+    const infeasible = await post(optimize, 'optimize', {
+      symbols: ['AAPL', 'MSFT'],
+      constraints: { maxWeight: 0.3 },
+    });
+    expect(infeasible.status).toBe(422);
+    expect(await infeasible.json()).toMatchObject({ error: 'Infeasible' });
+
+    const short = await post(optimize, 'optimize', {
+      symbols: ['AAPL'],
+      timeframe: '1h',
+    });
+    expect(short.status).toBe(422);
+    expect(await short.json()).toMatchObject({ error: 'Insufficient Data' });
+  });
+
+  it('previews the orders that reach target weights', async () => {
+    const response = await post(rebalance, 'rebalance', {
+      targets: { aapl: 0.3, msft: 0.3 },
+      lotSize: 5,
+    });
+    expect(response.status).toBe(200);
+    const proposal = await response.json();
+    expect(
+      proposal.lines.map((line: { symbol: string }) => line.symbol)
+    ).toEqual(['AAPL', 'MSFT', 'XOM']);
+    expect(proposal.orders[0]).toEqual({
+      symbol: 'XOM',
+      side: 'sell',
+      quantity: 100,
+    });
+    proposal.orders
+      .slice(1)
+      .forEach((order: { side: string; quantity: number }) => {
+        expect(order.side).toBe('buy');
+        expect(order.quantity % 5).toBe(0);
+      });
+    expect(proposal.projectedCash).toBeGreaterThanOrEqual(0);
+
+    const invalid = await post(rebalance, 'rebalance', {
+      targets: { AAPL: 0.8, MSFT: 0.8 },
+    });
+    expect(invalid.status).toBe(400);
+
+    const unpriced = await post(rebalance, 'rebalance', {
+      targets: { NOPE: 0.5 },
+    });
+    expect(unpriced.status).toBe(422);
+  });
+});
@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GET as getBars } from '@/app/api/v1/bars/route';
+import { POST as placeOrder } from '@/app/api/v1/orders/route';
+import { GET as probe } from '@/app/api/v1/rate-limited/route';
+import { authSecret } from '@/lib/auth';
+import { setPaperBroker } from '@/lib/broker';
+import { setOrderManager } from '@/lib/oms';
+import {
+  DEFAULT_POLICIES,
+  InMemoryRateLimitStore,
+  RateLimiter,
+  setRateLimiter,
+} from '@/lib/ratelimit';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1';
+
+describe('rate limiting', () => {
+  const reset = () => {
+    setRateLimiter(undefined);
+    setOrderManager(undefined);
+    setPaperBroker(undefined);
+  };
+  beforeAll(reset);
+  afterAll(reset);
+
+  it('answers bursts on /api/v1/rate-limited with 429', async () => {
+    const responses = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        probe(new NextRequest(`${BASE}/rate-limited`), { params: {} })
+      )
+    );
+    const statuses = responses.map(response => response.status);
+    expect(statuses.filter(status => status === 200)).toHaveLength(5);
+    expect(statuses.filter(status => status === 429)).toHaveLength(5);
+
+    const ok = responses.find(response => response.status === 200)!;
+    expect(ok.headers.get('RateLimit-Limit')).toBe('5');
+    const limited = responses.find(response => response.status === 429)!;
+    expect(limited.headers.get('Retry-After')).toBe('12');
+    expect(limited.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(await limited.json()).toMatchObject({ error: 'Too Many Requests' });
+  });
+
+  it('keeps order submission and market data budgets apart', async () => {
+    setRateLimiter(
+      new RateLimiter({
+        policies: {
+          ...DEFAULT_POLICIES,
+          orders: { name: 'orders', limit: 2, windowMs: 60_000 },
+        },
+        store: new InMemoryRateLimitStore(),
+        secret: authSecret(),
+      })
+    );
+    const headers = await authHeaders();
+    const order = () =>
+      placeOrder(
+        new NextRequest(`${BASE}/orders`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ symbol: 'AAPL', side: 'buy', quantity: 1 }),
+        }),
+        { params: {} }
+      );
+
+    expect((await order()).status).toBe(201);
+    expect((await order()).status).toBe(201);
+    expect((await order()).status).toBe(429);
+    const bars = await getBars(
+      new NextRequest(`${BASE}/bars?symbol=AAPL&timeframe=1d`, { headers }),
+      { params: {} }
+    );
+    expect(bars.status).toBe(200);
+    expect(bars.headers.get('RateLimit-Limit')).toBe(
+      String(DEFAULT_POLICIES.marketData.limit)
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { POST as placeOrder } from '@/app/api/v1/orders/route';
+import { DELETE, POST } from '@/app/api/v1/risk/kill-switch/route';
+import { GET } from '@/app/api/v1/risk/route';
+import { getAuthService, setAuthService } from '@/lib/auth';
+import { setPaperBroker } from '@/lib/broker';
+import { setOrderManager } from '@/lib/oms';
+import { setPortfolio } from '@/lib/portfolio';
+import { getRiskEngine, setRiskEngine } from '@/lib/risk';
+import { TEST_USER } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1';
+
+let auth: Record<string, string>;
+/** Bearer tokens of the test user with and without the admin scope. */
+let admin: string;
+let trader: string;
+
+function killSwitch(method: 'POST' | 'DELETE', token?: string, body?: unknown) {
+  const request = new NextRequest(`${BASE}/risk/kill-switch`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  return (method === 'POST' ? POST : DELETE)(request, { params: {} });
+}
+
+async function order(body: Record<string, unknown>) {
+  const response = await placeOrder(
+    new NextRequest(`${BASE}/orders`, {
+      headers: auth,
+      method: 'POST',
+      body: JSON.stringify({
+        symbol: 'AAPL',
+        side: 'buy',
+        quantity: 1,
+        ...body,
+      }),
+    }),
+    { params: {} }
+  );
+  return response.json();
+}
+
+describe('/api/v1/risk', () => {
+  const reset = () => {
+    setAuthService(undefined);
+    setRiskEngine(undefined);
+    setOrderManager(undefined);
+    setPortfolio(undefined);
+    setPaperBroker(undefined);
+  };
+  beforeAll(async () => {
+    reset();
+    process.env.AUTH_ADMIN_EMAILS = TEST_USER.email;
+    const { token, user } = await getAuthService().login(TEST_USER);
+    admin = token;
+    trader = (
+      await getAuthService().createApiToken(user.id, {
+        name: 'trader',
+        scopes: ['read', 'trade'],
+      })
+    ).token;
+    auth = { Authorization: `Bearer ${trader}` };
+  });
+  afterAll(() => {
+    delete process.env.AUTH_ADMIN_EMAILS;
+    reset();
+  });
+
+  it('rejects orders with machine-readable reasons', async () => {
+    getRiskEngine().setLimits({ restrictedSymbols: ['AAPL'] });
+    const rejected = await order({});
+    expect(rejected).toMatchObject({
+      status: 'rejected',
+      rejectReasons: [{ code: 'RESTRICTED_SYMBOL' }],
+    });
+
+    const limits = await (
+      await GET(new NextRequest(`${BASE}/risk`, { headers: auth }), {
+        params: {},
+      })
+    ).json();
+    expect(limits).toEqual({
+      limits: { restrictedSymbols: ['AAPL'] },
+      killSwitch: { engaged: false },
+    });
+  });
+
+  it('keeps the kill switch behind the admin scope', async () => {
+    expect((await killSwitch('POST', undefined, { reason: 'x' })).status).toBe(
+      401
+    );
+    expect((await killSwitch('POST', trader, { reason: 'x' })).status).toBe(
+      403
+    );
+    expect((await killSwitch('DELETE', trader)).status).toBe(403);
+    expect((await killSwitch('POST', admin, {})).status).toBe(400);
+  });
+
+  it('cancels open orders and blocks new ones until released', async () => {
+    getRiskEngine().setLimits({});
+    const open = await order({ type: 'limit', limitPrice: 1 });
+    expect(open.status).toBe('accepted');
+
+    const engaged = await killSwitch('POST', admin, { reason: 'Drill' });
+    expect(await engaged.json()).toMatchObject({
+      killSwitch: { engaged: true, reason: 'Drill' },
+      cancelledOrders: [open.id],
+    });
+    expect((await order({})).rejectReasons).toEqual([
+      { code: 'KILL_SWITCH', message: 'Trading is halted: Drill' },
+    ]);
+
+    const released = await killSwitch('DELETE', admin);
+    expect(await released.json()).toEqual({ killSwitch: { engaged: false } });
+    expect((await order({})).status).toBe('filled');
+  });
+});
@@ -0,0 +1,145 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GET as search } from '@/app/api/v1/search/route';
+import { GET as screen } from '@/app/api/v1/screener/route';
+import { GET as results } from '@/app/api/v1/screens/[id]/results/route';
+import {
+  DELETE,
+  GET as getScreen,
+  PATCH,
+} from '@/app/api/v1/screens/[id]/route';
+import { GET, POST } from '@/app/api/v1/screens/route';
+import { setScreenStore, setScreener } from '@/lib/screener';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1';
+
+let auth: Record<string, string>;
+
+function request(path: string, method = 'GET', body?: unknown) {
+  return new NextRequest(`${BASE}${path}`, {
+    method,
+    headers: auth,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const q = (query: string) => encodeURIComponent(query);
+
+describe('/api/v1/search', () => {
+  it('finds symbols and treats hostile input as text', async () => {
+    const found = await search(new NextRequest(`${BASE}/search?q=micro`), {
+      params: {},
+    });
+    expect(found.status).toBe(200);
+    expect((await found.json()).results).toEqual([
+      expect.objectContaining({
+        symbol: 'MSFT',
+        name: 'Microsoft Corporation',
+      }),
+    ]);
+
+    const hostile = await search(
+      new NextRequest(`${BASE}/search?q=${q("'; DROP TABLE users; --")}`),
+      { params: {} }
+    );
+    expect(hostile.status).toBe(200);
+    expect(await hostile.json()).toEqual({
+      query: "'; DROP TABLE users; --",
+      results: [],
+    });
+  });
+});
+
+describe('/api/v1/screener and /api/v1/screens', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  const reset = () => {
+    setScreener(undefined);
+    setScreenStore(undefined);
+  };
+  beforeAll(reset);
+  afterAll(reset);
+
+  it('screens symbols with sorting and paging', async () => {
+    const response = await screen(
+      request(
+        `/screener?q=${q('sector = "technology" and rsi14 > 50')}&sort=-rsi14&fields=pe&limit=1`
+      ),
+      { params: {} }
+    );
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({
+      query: 'sector = "technology" and rsi14 > 50',
+      total: 2,
+      limit: 1,
+      offset: 0,
+    });
+    expect(body.results).toEqual([
+      {
+        symbol: 'NVDA',
+        values: expect.objectContaining({ pe: 52.4, sector: 'Technology' }),
+      },
+    ]);
+  });
+
+  it('rejects malformed queries with a 400', async () => {
+    const response = await screen(
+      request(`/screener?q=${q("'; DROP TABLE users; --")}`),
+      { params: {} }
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual([
+      'Unterminated string at position 1',
+    ]);
+    const missing = await screen(request('/screener'), { params: {} });
+    expect(missing.status).toBe(400);
+  });
+
+  it('saves, runs and deletes screens', async () => {
+    const created = await POST(
+      request('/screens', 'POST', {
+        name: 'Value',
+        query: 'pe < 20 AND dividendyield > 1',
+        sort: '-dividendyield',
+      }),
+      { params: {} }
+    );
+    expect(created.status).toBe(201);
+    const saved = await created.json();
+    expect(saved).toMatchObject({ query: 'pe < 20 and dividendyield > 1' });
+
+    const params = { params: { id: saved.id } };
+    const run = await (
+      await results(request(`/screens/${saved.id}/results`), params)
+    ).json();
+    expect(run.screen.name).toBe('Value');
+    expect(run.results.map((row: { symbol: string }) => row.symbol)).toEqual([
+      'XOM',
+      'JPM',
+    ]);
+
+    const patched = await PATCH(
+      request(`/screens/${saved.id}`, 'PATCH', { name: 'Income' }),
+      params
+    );
+    expect(await patched.json()).toMatchObject({ name: 'Income' });
+    const list = await (await GET(request('/screens'), { params: {} })).json();
+    expect(list.screens).toHaveLength(1);
+
+    const invalid = await PATCH(
+      request(`/screens/${saved.id}`, 'PATCH', { query: 'pe <' }),
+      params
+    );
+    expect(invalid.status).toBe(400);
+
+    expect(
+      (await DELETE(request(`/screens/${saved.id}`, 'DELETE'), params)).status
+    ).toBe(204);
+    expect(
+      (await getScreen(request(`/screens/${saved.id}`), params)).status
+    ).toBe(404);
+  });
+});
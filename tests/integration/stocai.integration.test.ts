@@ -68,31 +68,33 @@ describe('STOCAI Service - Integration Tests', () => {
         email: 'test@example.com',
       });
 
-      // Step 3: Perform business logic operation
-      const operationResponse = await request(app)
-        .post('/api/v1/operations')
+      // Step 3: Place an order
+      const orderResponse = await request(app)
+        .post('/api/v1/orders')
         .set('Authorization', `Bearer ${token}`)
         .send({
-          type: 'test-operation',
-          data: { test: true },
+          clientOrderId: 'workflow-1',
+          symbol: 'AAPL',
+          side: 'buy',
+          quantity: 1,
         })
         .expect(201);
 
-      expect(operationResponse.body).toMatchObject({
+      expect(orderResponse.body).toMatchObject({
         id: expect.any(String),
-        status: 'completed',
+        status: 'filled',
       });
 
-      // Step 4: Verify operation was recorded
+      // Step 4: Verify the order was recorded
       const historyResponse = await request(app)
-        .get('/api/v1/user/operations')
+        .get('/api/v1/orders')
         .set('Authorization', `Bearer ${token}`)
         .expect(200);
 
-      expect(historyResponse.body.operations).toHaveLength(1);
-      expect(historyResponse.body.operations[0]).toMatchObject({
-        type: 'test-operation',
-        status: 'completed',
+      expect(historyResponse.body.orders).toHaveLength(1);
+      expect(historyResponse.body.orders[0]).toMatchObject({
+        clientOrderId: 'workflow-1',
+        status: 'filled',
       });
     });
 
@@ -0,0 +1,189 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { POST as runBacktest } from '@/app/api/v1/backtests/route';
+import { DELETE, GET as getStrategy } from '@/app/api/v1/strategies/[id]/route';
+import { GET, POST } from '@/app/api/v1/strategies/route';
+import { InMemoryBacktestStore, setBacktestStore } from '@/lib/backtest';
+import {
+  InMemoryStrategyStore,
+  compileStrategySource,
+  getStrategyStore,
+  setStrategyStore,
+} from '@/lib/strategy';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1/strategies';
+
+let auth: Record<string, string>;
+
+const BUY_ONCE = `
+export default (params: { quantity: number }) => ({
+  name: 'buy-once',
+  onBar(bar: { symbol: string }, ctx: any) {
+    if (ctx.portfolio.position(bar.symbol).quantity === 0 && !ctx.openOrders().length) {
+      ctx.submitOrder({ symbol: bar.symbol, side: 'buy', quantity: params.quantity });
+    }
+  },
+});
+`;
+
+function post(url: string, handler: typeof POST, body: unknown) {
+  return handler(
+    new NextRequest(url, {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: auth,
+    }),
+    { params: {} }
+  );
+}
+
+describe('/api/v1/strategies', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  // Loading the TypeScript compiler dominates the first upload.
+  beforeAll(() => compileStrategySource('').then(() => {}), 30_000);
+  beforeAll(() => {
+    setStrategyStore(new InMemoryStrategyStore());
+    setBacktestStore(new InMemoryBacktestStore());
+  });
+  afterAll(() => {
+    setStrategyStore(undefined);
+    setBacktestStore(undefined);
+  });
+
+  it('uploads a strategy and backtests it in the sandbox', async () => {
+    const created = await post(BASE, POST, {
+      name: 'Buy once',
+      source: BUY_ONCE,
+    });
+    expect(created.status).toBe(201);
+    const summary = await created.json();
+    expect(created.headers.get('Location')).toBe(
+      `/api/v1/strategies/${summary.id}`
+    );
+
+    const listed = await (
+      await GET(new NextRequest(BASE, { headers: auth }), { params: {} })
+    ).json();
+    expect(listed.strategies).toEqual([
+      expect.objectContaining({ id: 'buy-and-hold', builtin: true }),
+      expect.objectContaining({ id: 'sma-cross', builtin: true }),
+      expect.objectContaining({ id: summary.id, name: 'Buy once' }),
+    ]);
+
+    const detail = await getStrategy(
+      new NextRequest(`${BASE}/${summary.id}`, { headers: auth }),
+      {
+        params: { id: summary.id },
+      }
+    );
+    expect((await detail.json()).source).toBe(BUY_ONCE);
+
+    const backtest = await post(
+      'http://localhost/api/v1/backtests',
+      runBacktest,
+      {
+        strategy: summary.id,
+        params: { quantity: 7 },
+        symbols: ['AAPL'],
+        start: '2024-12-01T00:00:00Z',
+      }
+    );
+    expect(backtest.status).toBe(201);
+    expect(await backtest.json()).toMatchObject({
+      strategy: 'buy-once',
+      summary: { tradeCount: 0 },
+    });
+  });
+
+  it('rejects modules that do not compile', async () => {
+    const response = await post(BASE, POST, {
+      name: 'Broken',
+      source: 'export default {',
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).details[0]).toMatch(/'}' expected/);
+  });
+
+  it('reports strategies that fail at run time', async () => {
+    const created = await post(BASE, POST, {
+      name: 'Crashes',
+      source: `export default { onBar() { throw new RangeError('bad'); } };`,
+    });
+    const { id } = await created.json();
+
+    const response = await post(
+      'http://localhost/api/v1/backtests',
+      runBacktest,
+      {
+        strategy: id,
+        symbols: ['AAPL'],
+      }
+    );
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      error: 'Strategy Failed',
+      message: 'RangeError: bad',
+      details: ['RUNTIME_ERROR'],
+    });
+  });
+
+  it("hides other users' uploads and deletes your own", async () => {
+    await getStrategyStore().save({
+      id: 'theirs',
+      userId: 'someone-else',
+      name: 'Theirs',
+      createdAt: new Date().toISOString(),
+      source: BUY_ONCE,
+      compiled: '',
+    });
+    const params = { params: { id: 'theirs' } };
+    const request = (method = 'GET') =>
+      new NextRequest(`${BASE}/theirs`, { method, headers: auth });
+
+    expect((await getStrategy(request(), params)).status).toBe(404);
+    expect((await DELETE(request('DELETE'), params)).status).toBe(404);
+    const listed = await (
+      await GET(new NextRequest(BASE, { headers: auth }), { params: {} })
+    ).json();
+    expect(listed.strategies.map((s: { id: string }) => s.id)).not.toContain(
+      'theirs'
+    );
+    const backtest = await post(
+      'http://localhost/api/v1/backtests',
+      runBacktest,
+      { strategy: 'theirs', symbols: ['AAPL'] }
+    );
+    expect(backtest.status).toBe(400);
+
+    const created = await post(BASE, POST, {
+      name: 'Mine',
+      source: BUY_ONCE,
+    });
+    const { id } = await created.json();
+    const mine = { params: { id } };
+    const url = `${BASE}/${id}`;
+    const deleted = await DELETE(
+      new NextRequest(url, { method: 'DELETE', headers: auth }),
+      mine
+    );
+    expect(deleted.status).toBe(204);
+    const missing = await getStrategy(
+      new NextRequest(url, { headers: auth }),
+      mine
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it('returns 404 for unknown strategies', async () => {
+    const response = await getStrategy(
+      new NextRequest(`${BASE}/missing`, { headers: auth }),
+      {
+        params: { id: 'missing' },
+      }
+    );
+    expect(response.status).toBe(404);
+  });
+});
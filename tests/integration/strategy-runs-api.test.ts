@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DELETE, GET as getRun } from '@/app/api/v1/strategy-runs/[id]/route';
+import { GET, POST } from '@/app/api/v1/strategy-runs/route';
+import { setOrderManager } from '@/lib/oms';
+import { getStrategyRunner, setStrategyRunner } from '@/lib/runner';
+import { getMarketFeed, setMarketFeed, setStreamHub } from '@/lib/streaming';
+import { TEST_ACCOUNT, authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1';
+
+let auth: Record<string, string>;
+
+function request(path: string, method = 'GET', body?: unknown) {
+  return new NextRequest(`${BASE}${path}`, {
+    method,
+    headers: auth,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('/api/v1/strategy-runs', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  const reset = () => {
+    setStrategyRunner(undefined);
+    setOrderManager(undefined);
+    setMarketFeed(undefined);
+    setStreamHub(undefined);
+  };
+  beforeAll(reset);
+  afterAll(async () => {
+    await getStrategyRunner().stopAll();
+    getMarketFeed().stop();
+    reset();
+  });
+
+  it('starts, lists and stops a run', async () => {
+    const created = await POST(
+      request('/strategy-runs', 'POST', {
+        strategy: 'buy-and-hold',
+        symbols: ['aapl'],
+      }),
+      { params: {} }
+    );
+    expect(created.status).toBe(201);
+    const run = await created.json();
+    expect(run).toMatchObject({
+      strategy: 'buy-and-hold',
+      symbols: ['AAPL'],
+      userId: TEST_ACCOUNT,
+      status: 'running',
+    });
+    expect(created.headers.get('Location')).toBe(
+      `/api/v1/strategy-runs/${run.id}`
+    );
+
+    const listed = await (
+      await GET(request('/strategy-runs'), { params: {} })
+    ).json();
+    expect(listed.runs.map((r: { id: string }) => r.id)).toEqual([run.id]);
+
+    const params = { params: { id: run.id } };
+    const stopped = await DELETE(
+      request(`/strategy-runs/${run.id}`, 'DELETE'),
+      params
+    );
+    expect(await stopped.json()).toMatchObject({
+      status: 'stopped',
+      openOrders: [],
+    });
+    const fetched = await getRun(request(`/strategy-runs/${run.id}`), params);
+    expect(await fetched.json()).toMatchObject({ status: 'stopped' });
+  });
+
+  it('rejects unknown strategies, symbols and runs', async () => {
+    const unknownStrategy = await POST(
+      request('/strategy-runs', 'POST', {
+        strategy: 'no-such-strategy',
+        symbols: ['AAPL'],
+      }),
+      { params: {} }
+    );
+    expect(unknownStrategy.status).toBe(400);
+
+    const unknownSymbol = await POST(
+      request('/strategy-runs', 'POST', {
+        strategy: 'buy-and-hold',
+        symbols: ['NOPE'],
+      }),
+      { params: {} }
+    );
+    expect(unknownSymbol.status).toBe(400);
+
+    const missing = await getRun(request('/strategy-runs/nope'), {
+      params: { id: 'nope' },
+    });
+    expect(missing.status).toBe(404);
+  });
+});
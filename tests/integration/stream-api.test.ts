@@ -0,0 +1,113 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { POST as placeOrder } from '@/app/api/v1/orders/route';
+import { GET } from '@/app/api/v1/stream/route';
+import { setPaperBroker } from '@/lib/broker';
+import { setOrderManager } from '@/lib/oms';
+import { setPortfolio } from '@/lib/portfolio';
+import { setMarketFeed, setStreamHub } from '@/lib/streaming';
+import { authHeaders } from '../helpers/auth';
+
+const BASE = 'http://localhost/api/v1';
+
+let auth: Record<string, string>;
+
+async function open(query: string, headers: Record<string, string> = {}) {
+  const controller = new AbortController();
+  const response = await GET(
+    new NextRequest(`${BASE}/stream${query}`, {
+      headers: { ...auth, ...headers },
+      signal: controller.signal,
+    }),
+    { params: {} }
+  );
+  return { response, controller };
+}
+
+/** Reads frames until `count` events (not comments) have arrived. */
+async function readEvents(response: Response, count: number) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const frames: string[] = [];
+  while (frames.filter(f => f.startsWith('id:')).length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    frames.push(decoder.decode(value));
+  }
+  await reader.cancel();
+  return frames;
+}
+
+describe('/api/v1/stream', () => {
+  beforeAll(async () => {
+    auth = await authHeaders();
+  });
+  const reset = () => {
+    setMarketFeed(undefined);
+    setStreamHub(undefined);
+    setPortfolio(undefined);
+    setOrderManager(undefined);
+    setPaperBroker(undefined);
+  };
+  beforeAll(reset);
+  afterAll(reset);
+
+  it('streams quotes and bars for the symbols asked for', async () => {
+    const { response } = await open('?channels=quotes,bars&symbols=aapl');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toMatch(/text\/event-stream/);
+
+    const frames = await readEvents(response, 2);
+    expect(frames[0]).toMatch(/^retry: \d+/);
+    const events = frames.filter(f => f.startsWith('id:')).join('');
+    expect(events).toMatch(/event: quotes\ndata: {"seq":\d+,.*"AAPL"/);
+    expect(events).toMatch(/event: bars\n/);
+  });
+
+  it('streams order events and resumes after a sequence number', async () => {
+    const { response } = await open('?channels=orders,fills');
+    await placeOrder(
+      new NextRequest(`${BASE}/orders`, {
+        headers: auth,
+        method: 'POST',
+        body: JSON.stringify({ symbol: 'MSFT', side: 'buy', quantity: 1 }),
+      }),
+      { params: {} }
+    );
+    const frames = await readEvents(response, 4);
+    const ids = frames
+      .filter(f => f.startsWith('id:'))
+      .map(f => Number(/^id: (\d+)/.exec(f)![1]));
+    expect(frames.join('')).toContain('event: fills');
+
+    const resumed = await open('?channels=orders,fills', {
+      'Last-Event-ID': String(ids[1]),
+    });
+    const replayed = await readEvents(resumed.response, 2);
+    expect(
+      replayed
+        .filter(f => f.startsWith('id:'))
+        .map(f => Number(/^id: (\d+)/.exec(f)![1]))
+    ).toEqual(ids.slice(2, 4));
+
+    const stale = await open('?channels=orders', { 'Last-Event-ID': '999999' });
+    const reader = stale.response.body!.getReader();
+    expect(new TextDecoder().decode((await reader.read()).value)).toContain(
+      'event: reset'
+    );
+    stale.controller.abort();
+    await reader.cancel();
+  });
+
+  it('validates the subscription', async () => {
+    const missing = await open('?channels=quotes');
+    expect(missing.response.status).toBe(400);
+    const bad = await open('?channels=news&symbols=NOPE');
+    expect(await bad.response.json()).toMatchObject({
+      details: [
+        'channels must be among quotes, bars, orders, fills',
+        'Unknown symbol NOPE',
+      ],
+    });
+  });
+});
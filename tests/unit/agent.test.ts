@@ -0,0 +1,328 @@
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  AgentError,
+  InMemoryAuditLog,
+  ToolRegistry,
+  builtinTools,
+  validateSchema,
+  type JsonSchema,
+  type ToolContext,
+} from '@/lib/agent';
+import type { Principal, Scope } from '@/lib/auth';
+import { PaperBroker } from '@/lib/broker';
+import { FileMarketDataProvider } from '@/lib/marketdata';
+import { InMemoryMemoryStore, MemoryBank } from '@/lib/memory';
+import { OrderManager } from '@/lib/oms';
+import { PortfolioLedger } from '@/lib/portfolio';
+import { RiskEngine } from '@/lib/risk';
+import { Screener } from '@/lib/screener';
+
+const FIXTURES = path.resolve('data/marketdata');
+
+function context(scopes: Scope[]): ToolContext {
+  const principal: Principal = {
+    user: {
+      id: 'u-1',
+      email: 'agent@example.com',
+      provider: 'local',
+      scopes,
+      createdAt: 0,
+    },
+    scopes,
+    via: 'api',
+    credentialId: 'token-1',
+  };
+  return { principal };
+}
+
+describe('validateSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      symbol: { type: 'string', minLength: 1 },
+      limit: { type: 'integer', minimum: 1, maximum: 500 },
+      side: { type: 'string', enum: ['buy', 'sell'] },
+      when: { type: ['string', 'integer'] },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      nested: {
+        type: 'object',
+        properties: { price: { type: 'number', minimum: 0 } },
+        required: ['price'],
+      },
+    },
+    required: ['symbol'],
+    additionalProperties: false,
+  };
+
+  it('accepts conforming input', () => {
+    expect(
+      validateSchema(schema, {
+        symbol: 'AAPL',
+        limit: 10,
+        when: 1_700_000_000_000,
+        tags: ['a'],
+        nested: { price: 2.5 },
+      })
+    ).toEqual([]);
+  });
+
+  it('reports every problem in the usual wording', () => {
+    expect(
+      validateSchema(schema, {
+        limit: 1.5,
+        side: 'hold',
+        when: true,
+        tags: ['a', 2, 'c'],
+        nested: {},
+        extra: 1,
+      })
+    ).toEqual([
+      'symbol is required',
+      'limit must be an integer between 1 and 500',
+      'side must be one of buy, sell',
+      'when must be a string or an integer',
+      'tags must have at most 2 items',
+      'tags[1] must be a string',
+      'nested.price is required',
+      'extra is not allowed',
+    ]);
+    expect(validateSchema(schema, [])).toEqual(['input must be an object']);
+    expect(validateSchema(schema, { symbol: '', limit: 0 })).toEqual([
+      'symbol must be a non-empty string',
+      'limit must be an integer between 1 and 500',
+    ]);
+  });
+});
+
+describe('ToolRegistry', () => {
+  const echo = {
+    name: 'echo',
+    description: 'Echoes',
+    scope: 'read' as const,
+    inputSchema: {
+      type: 'object' as const,
+      properties: { text: { type: 'string' as const } },
+      required: ['text'],
+    },
+    outputSchema: { type: 'object' as const },
+    async run(input: Record<string, unknown>) {
+      if (input.text === 'boom') throw new Error('Exploded');
+      return { text: input.text };
+    },
+  };
+  const trade = { ...echo, name: 'trade', scope: 'trade' as const };
+
+  it('checks scopes and input, and audits every call', async () => {
+    let now = 1_000;
+    const audit = new InMemoryAuditLog();
+    const registry = new ToolRegistry({ audit, clock: () => (now += 5) })
+      .register(echo)
+      .register(trade);
+    expect(() => registry.register(echo)).toThrow(/already registered/);
+    expect(
+      registry.describe(['read']).map(tool => [tool.name, tool.allowed])
+    ).toEqual([
+      ['echo', true],
+      ['trade', false],
+    ]);
+
+    const reader = context(['read']);
+    await expect(
+      registry.invoke('echo', { text: 'hi' }, reader)
+    ).resolves.toMatchObject({ tool: 'echo', output: { text: 'hi' } });
+    await expect(
+      registry.invoke('trade', { text: 'hi' }, reader)
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(registry.invoke('echo', {}, reader)).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+      details: ['text is required'],
+    });
+    await expect(registry.invoke('nope', {}, reader)).rejects.toMatchObject({
+      code: 'UNKNOWN_TOOL',
+    });
+    await expect(
+      registry.invoke('echo', { text: 'boom' }, reader)
+    ).rejects.toThrow('Exploded');
+
+    const entries = await audit.list();
+    expect(
+      entries.map(entry => [entry.tool, entry.outcome, entry.error])
+    ).toEqual([
+      ['echo', 'failed', 'Exploded'],
+      ['nope', 'invalid', 'Unknown tool nope'],
+      ['echo', 'invalid', 'Invalid tool input: text is required'],
+      ['trade', 'denied', 'The trade tool needs the trade scope'],
+      ['echo', 'ok', undefined],
+    ]);
+    expect(entries[4]).toMatchObject({
+      userId: 'u-1',
+      credentialId: 'token-1',
+      input: { text: 'hi' },
+      durationMs: 5,
+    });
+    expect(await audit.list({ outcome: 'denied', limit: 5 })).toHaveLength(1);
+  });
+});
+
+describe('InMemoryAuditLog', () => {
+  const entry = (userId: string, id: string, input: unknown = {}) => ({
+    id,
+    timestamp: 1_000,
+    userId,
+    credentialId: 'token-1',
+    tool: 'echo',
+    input,
+    outcome: 'ok' as const,
+    durationMs: 1,
+  });
+
+  it("keeps each user's latest entries and bounds their input", async () => {
+    const audit = new InMemoryAuditLog({ perUser: 2, maxInputLength: 20 });
+    await audit.record(entry('u-1', 'a'));
+    await audit.record(entry('u-2', 'b'));
+    await audit.record(entry('u-1', 'c'));
+    await audit.record(entry('u-1', 'd', { text: 'x'.repeat(100) }));
+
+    expect((await audit.list()).map(e => e.id)).toEqual(['d', 'c', 'b']);
+    expect((await audit.list({ userId: 'u-2' })).map(e => e.id)).toEqual(['b']);
+    const [latest] = await audit.list({ userId: 'u-1', limit: 1 });
+    expect(latest).toMatchObject({
+      input: '{"text":"xxxxxxxxxxx',
+      inputTruncated: true,
+    });
+    expect((await audit.list({ userId: 'u-1' }))[1].input).toEqual({});
+  });
+});
+
+describe('builtinTools', () => {
+  const provider = new FileMarketDataProvider(FIXTURES);
+
+  function registry() {
+    const risk = new RiskEngine(
+      {},
+      {
+        account: async () => null,
+        referencePrice: async symbol =>
+          (await provider.getQuote(symbol))?.last ?? null,
+      }
+    );
+    const broker = new PaperBroker({
+      quoteSource: symbol => provider.getQuote(symbol),
+    });
+    const orders = new OrderManager(broker, { preTrade: [risk.check] });
+    const memory = new MemoryBank(new InMemoryMemoryStore());
+    const tools = new ToolRegistry({ audit: new InMemoryAuditLog() });
+    builtinTools({
+      marketData: () => provider,
+      screener: () => new Screener(provider),
+      portfolio: () => new PortfolioLedger({ initialCash: 10_000 }),
+      orders: () => orders,
+      memory: () => memory,
+    }).forEach(tool => tools.register(tool));
+    return { tools, risk };
+  }
+
+  it('reads market data, indicators and the screener', async () => {
+    const { tools } = registry();
+    const reader = context(['read']);
+
+    const bars = await tools.invoke(
+      'get_bars',
+      { symbol: 'msft', limit: 2 },
+      reader
+    );
+    expect(bars.output).toMatchObject({ symbol: 'MSFT', timeframe: '1d' });
+    expect((bars.output as { bars: unknown[] }).bars).toHaveLength(2);
+
+    const rsi = await tools.invoke(
+      'get_indicator',
+      { symbol: 'AAPL', indicator: { type: 'rsi', period: 14 }, limit: 1 },
+      reader
+    );
+    expect(rsi.output).toMatchObject({
+      values: [{ value: expect.closeTo(49.94, 2) }],
+    });
+
+    const screen = await tools.invoke(
+      'screen_stocks',
+      { query: 'sector = "Energy"' },
+      reader
+    );
+    expect(screen.output).toMatchObject({
+      total: 1,
+      results: [{ symbol: 'XOM' }],
+    });
+
+    await expect(
+      tools.invoke('screen_stocks', { query: 'pe <' }, reader)
+    ).rejects.toBeInstanceOf(AgentError);
+    await expect(
+      tools.invoke('get_quote', { symbol: 'NOPE' }, reader)
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('remembers and recalls for the calling user', async () => {
+    const { tools } = registry();
+    const trader = context(['read', 'trade']);
+    const saved = await tools.invoke(
+      'remember',
+      {
+        kind: 'rationale',
+        text: 'Bought the breakout above the 200-day average',
+        symbols: ['aapl'],
+        orderIds: ['o-1'],
+      },
+      trader
+    );
+    expect(saved.output).toMatchObject({
+      userId: 'u-1',
+      source: 'agent',
+      symbols: ['AAPL'],
+    });
+
+    const recalled = await tools.invoke(
+      'recall',
+      { query: 'why bought', symbols: ['AAPL'], kinds: ['rationale'] },
+      context(['read'])
+    );
+    expect(recalled.output).toMatchObject({
+      total: 1,
+      results: [{ memory: { orderIds: ['o-1'] } }],
+    });
+    await expect(
+      tools.invoke('remember', { text: 'x' }, context(['read']))
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('places orders behind the same risk checks', async () => {
+    const { tools, risk } = registry();
+    const trader = context(['read', 'trade']);
+    risk.setLimits({ restrictedSymbols: ['MSFT'] });
+
+    const filled = await tools.invoke(
+      'place_order',
+      { symbol: 'AAPL', side: 'buy', quantity: 5 },
+      trader
+    );
+    expect(filled.output).toMatchObject({ status: 'filled', quantity: 5 });
+
+    const rejected = await tools.invoke(
+      'place_order',
+      { symbol: 'MSFT', side: 'buy', quantity: 5 },
+      trader
+    );
+    expect(rejected.output).toMatchObject({
+      status: 'rejected',
+      rejectReasons: [{ code: 'RESTRICTED_SYMBOL' }],
+    });
+
+    await expect(
+      tools.invoke(
+        'place_order',
+        { symbol: 'AAPL', side: 'buy', quantity: 1, type: 'limit' },
+        trader
+      )
+    ).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+});
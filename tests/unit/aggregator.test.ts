@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BarAggregator,
+  US_EQUITY_SESSION,
+  bucketFor,
+  resampleBars,
+  sessionBounds,
+  type Bar,
+  type Trade,
+} from '@/lib/marketdata';
+
+const at = (iso: string) => Date.parse(iso);
+
+function trade(iso: string, price: number, size = 100): Trade {
+  return { symbol: 'AAPL', timestamp: at(iso), price, size };
+}
+
+describe('trading sessions', () => {
+  it('resolves session bounds across daylight saving time', () => {
+    expect(
+      sessionBounds(at('2024-12-31T18:00:00Z'), US_EQUITY_SESSION)
+    ).toEqual({
+      open: at('2024-12-31T14:30:00Z'),
+      close: at('2024-12-31T21:00:00Z'),
+    });
+    expect(
+      sessionBounds(at('2024-07-01T18:00:00Z'), US_EQUITY_SESSION)
+    ).toEqual({
+      open: at('2024-07-01T13:30:00Z'),
+      close: at('2024-07-01T20:00:00Z'),
+    });
+  });
+
+  it('aligns intraday buckets to the open and clips the last one', () => {
+    const options = { session: US_EQUITY_SESSION };
+    expect(bucketFor(at('2024-12-31T14:45:00Z'), '1h', options)).toEqual({
+      start: at('2024-12-31T14:30:00Z'),
+      end: at('2024-12-31T15:30:00Z'),
+    });
+    expect(bucketFor(at('2024-12-31T20:45:00Z'), '1h', options)).toEqual({
+      start: at('2024-12-31T20:30:00Z'),
+      end: at('2024-12-31T21:00:00Z'),
+    });
+    expect(bucketFor(at('2024-12-31T13:00:00Z'), '5m', options)).toBeNull();
+  });
+
+  it('keeps extended-hours buckets from overlapping the session', () => {
+    const bucket = bucketFor(at('2024-12-31T14:10:00Z'), '1h', {
+      session: US_EQUITY_SESSION,
+      extendedHours: true,
+    });
+    expect(bucket).toEqual({
+      start: at('2024-12-31T14:00:00Z'),
+      end: at('2024-12-31T14:30:00Z'),
+    });
+  });
+});
+
+describe('BarAggregator', () => {
+  it('rolls trades into OHLCV bars with volume-weighted price', () => {
+    const aggregator = new BarAggregator({ timeframe: '1m' });
+    expect(aggregator.push(trade('2024-12-31T14:30:05Z', 10, 100))).toEqual([]);
+    aggregator.push(trade('2024-12-31T14:30:20Z', 12, 300));
+    aggregator.push(trade('2024-12-31T14:30:40Z', 9, 100));
+    aggregator.push(trade('2024-12-31T14:30:55Z', 11, 100));
+
+    const [bar] = aggregator.push(trade('2024-12-31T14:31:01Z', 11.5));
+    expect(bar).toEqual({
+      symbol: 'AAPL',
+      timestamp: at('2024-12-31T14:30:00Z'),
+      open: 10,
+      high: 12,
+      low: 9,
+      close: 11,
+      volume: 600,
+      vwap: (10 * 100 + 12 * 300 + 9 * 100 + 11 * 100) / 600,
+      trades: 4,
+    });
+    expect(aggregator.current('AAPL')).toMatchObject({ open: 11.5 });
+  });
+
+  it('discards prints outside the session unless asked not to', () => {
+    const regular = new BarAggregator({ timeframe: '5m' });
+    regular.push(trade('2024-12-31T13:00:00Z', 10));
+    expect(regular.stats.outOfSession).toBe(1);
+
+    const extended = new BarAggregator({
+      timeframe: '5m',
+      extendedHours: true,
+    });
+    extended.push(trade('2024-12-31T13:00:00Z', 10));
+    expect(extended.flush()).toHaveLength(1);
+  });
+
+  it('places late prints within the allowed lateness in the right bar', () => {
+    const aggregator = new BarAggregator({
+      timeframe: '1m',
+      allowedLatenessMs: 10_000,
+    });
+    aggregator.push(trade('2024-12-31T14:30:10Z', 10));
+    aggregator.push(trade('2024-12-31T14:31:05Z', 11));
+    // 14:31:05 minus 10s lateness has not passed 14:31 yet: still open.
+    aggregator.push(trade('2024-12-31T14:30:50Z', 9));
+
+    const [bar] = aggregator.push(trade('2024-12-31T14:31:15Z', 12));
+    expect(bar).toMatchObject({ open: 10, low: 9, close: 9, trades: 2 });
+
+    aggregator.push(trade('2024-12-31T14:30:59Z', 1));
+    expect(aggregator.stats).toEqual({
+      accepted: 4,
+      lateDropped: 1,
+      outOfSession: 0,
+    });
+  });
+
+  it('keeps open and close in time order when prints arrive out of order', () => {
+    const aggregator = new BarAggregator({
+      timeframe: '1m',
+      allowedLatenessMs: 60_000,
+    });
+    aggregator.push(trade('2024-12-31T14:30:30Z', 10));
+    aggregator.push(trade('2024-12-31T14:30:10Z', 8));
+    aggregator.push(trade('2024-12-31T14:30:50Z', 12));
+    aggregator.push(trade('2024-12-31T14:30:40Z', 11));
+
+    const [bar] = aggregator.flush();
+    expect(bar).toMatchObject({ open: 8, close: 12, high: 12, low: 8 });
+  });
+
+  it('fills gaps inside a session but not across sessions', () => {
+    const aggregator = new BarAggregator({ timeframe: '1m', gapFill: 'fill' });
+    aggregator.push(trade('2024-12-31T14:30:00Z', 10));
+    const filled = aggregator.push(trade('2024-12-31T14:33:00Z', 11));
+    expect(filled.map(bar => [bar.timestamp, bar.close, bar.volume])).toEqual([
+      [at('2024-12-31T14:30:00Z'), 10, 100],
+      [at('2024-12-31T14:31:00Z'), 10, 0],
+      [at('2024-12-31T14:32:00Z'), 10, 0],
+    ]);
+
+    aggregator.push(trade('2024-12-31T20:59:30Z', 12));
+    const nextDay = aggregator.push(trade('2025-01-02T14:30:00Z', 13));
+    expect(nextDay[nextDay.length - 1].timestamp).toBe(
+      at('2024-12-31T20:59:00Z')
+    );
+  });
+
+  it('closes bars when the clock advances without prints', () => {
+    const aggregator = new BarAggregator({ timeframe: '5m' });
+    aggregator.push(trade('2024-12-31T14:31:00Z', 10));
+    expect(aggregator.advanceTo(at('2024-12-31T14:34:59Z'))).toEqual([]);
+    expect(aggregator.advanceTo(at('2024-12-31T14:35:00Z'))).toHaveLength(1);
+  });
+
+  it('tracks symbols independently', () => {
+    const aggregator = new BarAggregator({ timeframe: '1m' });
+    aggregator.push(trade('2024-12-31T14:30:00Z', 10));
+    aggregator.push({ ...trade('2024-12-31T14:32:00Z', 50), symbol: 'MSFT' });
+    expect(aggregator.current('AAPL')).toMatchObject({ close: 10 });
+    expect(aggregator.flush().map(bar => bar.symbol)).toEqual(['AAPL', 'MSFT']);
+  });
+});
+
+describe('resampleBars', () => {
+  function minuteBar(minute: number, close: number, volume = 100): Bar {
+    return {
+      symbol: 'AAPL',
+      timestamp: at('2024-12-31T14:30:00Z') + minute * 60_000,
+      open: close - 1,
+      high: close + 1,
+      low: close - 2,
+      close,
+      volume,
+      vwap: close,
+    };
+  }
+
+  it('rolls minute bars up into session-aligned hours', () => {
+    const minutes = Array.from({ length: 90 }, (_, i) => minuteBar(i, 100 + i));
+    const hours = resampleBars(minutes, '1h');
+
+    expect(hours).toHaveLength(2);
+    expect(hours[0]).toMatchObject({
+      timestamp: at('2024-12-31T14:30:00Z'),
+      open: 99,
+      high: 160,
+      low: 98,
+      close: 159,
+      volume: 6000,
+    });
+    expect(hours[0].vwap).toBeCloseTo(129.5);
+    expect(hours[1]).toMatchObject({ close: 189, volume: 3000 });
+  });
+
+  it('matches streaming aggregation of the same prints', () => {
+    const prints = Array.from({ length: 120 }, (_, i) =>
+      trade(
+        new Date(at('2024-12-31T14:30:00Z') + i * 15_000).toISOString(),
+        100 + Math.sin(i) * 5,
+        100 + i
+      )
+    );
+    const minutes = new BarAggregator({ timeframe: '1m' });
+    const fives = new BarAggregator({ timeframe: '5m' });
+    const minuteBars = prints
+      .flatMap(p => minutes.push(p))
+      .concat(minutes.flush());
+    const direct = prints.flatMap(p => fives.push(p)).concat(fives.flush());
+
+    const resampled = resampleBars(minuteBars, '5m');
+    expect(resampled).toHaveLength(direct.length);
+    resampled.forEach((bar, i) => {
+      expect(bar).toMatchObject({
+        open: direct[i].open,
+        high: direct[i].high,
+        low: direct[i].low,
+        close: direct[i].close,
+        volume: direct[i].volume,
+      });
+      expect(bar.vwap).toBeCloseTo(direct[i].vwap!, 10);
+    });
+  });
+
+  it('optionally fills empty intervals', () => {
+    const sparse = [minuteBar(0, 100), minuteBar(20, 110)];
+    expect(resampleBars(sparse, '5m')).toHaveLength(2);
+    const filled = resampleBars(sparse, '5m', { gapFill: 'fill' });
+    expect(filled).toHaveLength(5);
+    expect(filled[2]).toMatchObject({ close: 100, volume: 0 });
+  });
+});
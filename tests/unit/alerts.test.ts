@@ -0,0 +1,519 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  AlertEngine,
+  InAppNotifier,
+  InMemoryAlertStore,
+  SIGNATURE_HEADER,
+  WebhookNotifier,
+  followMarket,
+  isPrivateAddress,
+  parseAlertInput,
+  signPayload,
+  type AlertEngineOptions,
+  type AlertInput,
+} from '@/lib/alerts';
+import type { Bar, Quote } from '@/lib/marketdata/types';
+import { MarketFeed, StreamHub } from '@/lib/streaming';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+const quote = (symbol: string, last: number, timestamp = 0): Quote => ({
+  symbol,
+  timestamp,
+  bid: last - 0.01,
+  ask: last + 0.01,
+  bidSize: 100,
+  askSize: 100,
+  last,
+});
+
+const bar = (timestamp: number, close: number, volume = 1_000): Bar => ({
+  symbol: 'AAPL',
+  timestamp,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume,
+});
+
+function alertInput(overrides: Partial<AlertInput>): AlertInput {
+  const parsed = parseAlertInput({ symbol: 'AAPL', ...overrides });
+  if (!('alert' in parsed)) throw new Error(parsed.problems.join('; '));
+  return parsed.alert;
+}
+
+function setup(options: Partial<AlertEngineOptions> = {}) {
+  let now = 10 * DAY;
+  const store = new InMemoryAlertStore();
+  const engine = new AlertEngine({
+    store,
+    notifiers: [new InAppNotifier(store, () => now)],
+    clock: () => now,
+    ...options,
+  });
+  return {
+    store,
+    engine,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('parseAlertInput', () => {
+  it('fills in defaults and picks the evaluation from the condition', () => {
+    expect(
+      parseAlertInput({
+        symbol: 'aapl',
+        condition: { type: 'price', operator: 'above', value: 200 },
+      })
+    ).toEqual({
+      problems: [],
+      alert: {
+        symbol: 'AAPL',
+        timeframe: '1d',
+        condition: { type: 'price', operator: 'above', value: 200 },
+        evaluateOn: 'tick',
+        mode: 'recurring',
+        cooldownMs: 5 * MINUTE,
+        channels: [{ type: 'in_app' }],
+      },
+    });
+    const rsi = parseAlertInput({
+      symbol: 'AAPL',
+      condition: {
+        type: 'indicator',
+        indicator: { type: 'rsi', period: 14 },
+        operator: 'below',
+        value: 30,
+      },
+    });
+    expect(rsi).toMatchObject({ alert: { evaluateOn: 'bar_close' } });
+  });
+
+  it('reports every problem', () => {
+    const parsed = parseAlertInput({
+      condition: {
+        type: 'volume_spike',
+        multiplier: 0.5,
+      },
+      evaluateOn: 'tick',
+      channels: [
+        { type: 'webhook', url: 'ftp://example.com' },
+        { type: 'sms' },
+      ],
+    });
+    expect(parsed.problems).toEqual([
+      'symbol is required',
+      'condition.multiplier must be a number >= 1',
+      'channels[0].url must be an http(s) URL',
+      'channels[1].type must be one of in_app, webhook',
+    ]);
+    expect(
+      parseAlertInput({
+        symbol: 'AAPL',
+        condition: {
+          type: 'price_indicator',
+          indicator: { type: 'sma', period: 0 },
+          operator: 'crosses_above',
+        },
+      }).problems
+    ).toEqual([expect.stringMatching(/^condition.indicator is invalid/)]);
+  });
+});
+
+describe('AlertEngine', () => {
+  it('triggers price alerts on ticks and respects the cooldown', async () => {
+    const { engine, store, advance } = setup();
+    const alert = await engine.create(
+      'user-1',
+      alertInput({
+        condition: { type: 'price', operator: 'above', value: 200 },
+        cooldownMs: MINUTE,
+      })
+    );
+    await engine.onQuote(quote('AAPL', 199));
+    await engine.onQuote(quote('AAPL', 201));
+    await engine.onQuote(quote('AAPL', 202));
+    advance(MINUTE);
+    await engine.onQuote(quote('AAPL', 203));
+    await engine.onQuote(quote('MSFT', 500));
+    await engine.idle();
+
+    const history = await engine.triggers('user-1', alert.id);
+    expect(history.map(t => t.observed.left)).toEqual([203, 201]);
+    expect(history[0]).toMatchObject({
+      message: 'AAPL is above 200',
+      deliveries: [{ channel: 'in_app', status: 'delivered' }],
+    });
+    expect(await engine.get('user-1', alert.id)).toMatchObject({
+      triggerCount: 2,
+      status: 'active',
+    });
+    const inbox = await store.listNotifications('user-1');
+    expect(inbox).toHaveLength(2);
+    expect(inbox[0]).toMatchObject({ title: 'AAPL alert', readAt: null });
+  });
+
+  it('disarms one-shot alerts until they are re-armed', async () => {
+    const { engine } = setup();
+    const changes: string[] = [];
+    engine.subscribe(event => changes.push(event.type));
+    const alert = await engine.create(
+      'user-1',
+      alertInput({
+        condition: { type: 'price', operator: 'crosses_below', value: 100 },
+        mode: 'once',
+        cooldownMs: 0,
+      })
+    );
+    await engine.onQuote(quote('AAPL', 99));
+    await engine.onQuote(quote('AAPL', 101));
+    await engine.onQuote(quote('AAPL', 99));
+    await engine.onQuote(quote('AAPL', 101));
+    await engine.onQuote(quote('AAPL', 98));
+    expect(await engine.get('user-1', alert.id)).toMatchObject({
+      status: 'triggered',
+      triggerCount: 1,
+    });
+    expect(await engine.symbols()).toEqual([]);
+
+    await engine.update('user-1', alert.id, { status: 'active' });
+    await engine.onQuote(quote('AAPL', 97));
+    await engine.onQuote(quote('AAPL', 101));
+    await engine.onQuote(quote('AAPL', 99));
+    expect(await engine.get('user-1', alert.id)).toMatchObject({
+      status: 'triggered',
+      triggerCount: 2,
+    });
+    expect(changes).toEqual([
+      'changed',
+      'triggered',
+      'changed',
+      'changed',
+      'triggered',
+      'changed',
+    ]);
+    await expect(engine.get('user-2', alert.id)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('crosses the price over an indicator warmed up from history', async () => {
+    const history = Array.from({ length: 3 }, (_, i) => bar(i * DAY, 100));
+    const { engine } = setup({ history: async () => history });
+    const alert = await engine.create(
+      'user-1',
+      alertInput({
+        condition: {
+          type: 'price_indicator',
+          indicator: { type: 'sma', period: 3 },
+          operator: 'crosses_above',
+        },
+        cooldownMs: 0,
+      })
+    );
+    await engine.onQuote(quote('AAPL', 99));
+    await engine.onQuote(quote('AAPL', 101));
+    await engine.onQuote(quote('AAPL', 102));
+    const [trigger] = await engine.triggers('user-1', alert.id);
+    expect(trigger).toMatchObject({
+      message: 'AAPL crossed above SMA(3)',
+      observed: { left: 101, right: 100 },
+    });
+  });
+
+  it('rolls finer bars up into the alert timeframe', async () => {
+    const { engine } = setup();
+    const alert = await engine.create(
+      'user-1',
+      alertInput({
+        timeframe: '5m',
+        condition: {
+          type: 'indicator',
+          indicator: { type: 'sma', period: 2 },
+          operator: 'above',
+          value: 110,
+        },
+        cooldownMs: 0,
+      })
+    );
+    // Five-minute closes of 104, 114 and 124.
+    for (let minute = 0; minute < 15; minute++) {
+      await engine.onBar('1m', bar(minute * MINUTE, 96 + minute * 2));
+    }
+    // An incomplete bar closes when a later one starts.
+    await engine.onBar('1m', bar(15 * MINUTE, 130));
+    await engine.onBar('1m', bar(21 * MINUTE, 90));
+    const history = await engine.triggers('user-1', alert.id);
+    expect(history.map(t => t.observed.left)).toEqual([127, 119]);
+  });
+
+  it('detects volume spikes against the preceding bars', async () => {
+    const { engine } = setup();
+    const alert = await engine.create(
+      'user-1',
+      alertInput({
+        timeframe: '1m',
+        condition: { type: 'volume_spike', multiplier: 3, period: 2 },
+        cooldownMs: 0,
+      })
+    );
+    await engine.onBar('1m', bar(0, 10, 100));
+    await engine.onBar('1m', bar(MINUTE, 10, 400));
+    await engine.onBar('1m', bar(2 * MINUTE, 10, 700));
+    await engine.onBar('1m', bar(3 * MINUTE, 10, 3_000));
+    // A bar already seen is not counted twice.
+    await engine.onBar('1m', bar(3 * MINUTE, 10, 3_000));
+    const history = await engine.triggers('user-1', alert.id);
+    expect(history.map(t => t.observed)).toEqual([
+      { left: 3_000, right: 1_650 },
+    ]);
+    expect(history[0].message).toBe('AAPL volume is over 3x its 2-bar average');
+  });
+
+  it('watches the loss of long and short positions', async () => {
+    const positions: Record<string, number> = { 'user-1': 10, 'user-2': -10 };
+    const { engine } = setup({
+      position: async userId => ({
+        quantity: positions[userId],
+        averageCost: 100,
+      }),
+    });
+    const input = alertInput({
+      condition: { type: 'position_loss', percent: 5 },
+      cooldownMs: 0,
+    });
+    const long = await engine.create('user-1', input);
+    const short = await engine.create('user-2', input);
+    await engine.onQuote(quote('AAPL', 96));
+    await engine.onQuote(quote('AAPL', 94));
+    await engine.onQuote(quote('AAPL', 106));
+
+    expect(
+      (await engine.triggers('user-1', long.id)).map(t => t.observed.left)
+    ).toEqual([6]);
+    expect(
+      (await engine.triggers('user-2', short.id)).map(t => t.observed.left)
+    ).toEqual([6]);
+  });
+});
+
+describe('WebhookNotifier', () => {
+  let server: Server;
+  let url: string;
+  let status = 200;
+  const received: { headers: IncomingMessage['headers']; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.writeHead(status).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('posts signed triggers and records failed deliveries', async () => {
+    const { engine } = setup({
+      notifiers: [
+        new WebhookNotifier({ timeoutMs: 2_000, allowPrivateNetworks: true }),
+      ],
+    });
+    const alert = await engine.create(
+      'user-1',
+      alertInput({
+        condition: { type: 'price', operator: 'below', value: 50 },
+        channels: [{ type: 'webhook', url, secret: 's3cret' }],
+        cooldownMs: 0,
+      })
+    );
+    await engine.onQuote(quote('AAPL', 49));
+    await engine.idle();
+    status = 500;
+    await engine.onQuote(quote('AAPL', 48));
+    await engine.idle();
+
+    expect(received).toHaveLength(2);
+    const [{ headers, body }] = received;
+    expect(headers['content-type']).toBe('application/json');
+    expect(headers[SIGNATURE_HEADER.toLowerCase()]).toBe(
+      signPayload('s3cret', body)
+    );
+    const payload = JSON.parse(body);
+    expect(payload).toMatchObject({
+      event: 'alert.triggered',
+      alert: { id: alert.id, symbol: 'AAPL' },
+      trigger: { alertId: alert.id, observed: { left: 49, right: 50 } },
+    });
+    expect(payload.alert.channels).toBeUndefined();
+
+    const history = await engine.triggers('user-1', alert.id);
+    expect(history.map(t => t.deliveries)).toEqual([
+      [
+        {
+          channel: 'webhook',
+          status: 'failed',
+          error: 'Webhook responded 500',
+        },
+      ],
+      [{ channel: 'webhook', status: 'delivered' }],
+    ]);
+  });
+
+  it('refuses hosts on private networks', async () => {
+    const posted: string[] = [];
+    const { engine } = setup({
+      notifiers: [
+        new WebhookNotifier({
+          fetch: async input => {
+            posted.push(String(input));
+            return new Response('ok');
+          },
+          resolve: async hostname =>
+            hostname === 'hooks.example.com' ? ['93.184.216.34'] : ['10.0.0.5'],
+        }),
+      ],
+    });
+    const alert = await engine.create(
+      'user-1',
+      alertInput({
+        condition: { type: 'price', operator: 'below', value: 50 },
+        channels: [
+          { type: 'webhook', url: 'https://hooks.example.com/alerts' },
+          { type: 'webhook', url: 'http://intranet.example.com/' },
+          { type: 'webhook', url },
+        ],
+      })
+    );
+    await engine.onQuote(quote('AAPL', 49));
+    await engine.idle();
+
+    expect(posted).toEqual(['https://hooks.example.com/alerts']);
+    const [trigger] = await engine.triggers('user-1', alert.id);
+    expect(trigger.deliveries).toEqual([
+      { channel: 'webhook', status: 'delivered' },
+      {
+        channel: 'webhook',
+        status: 'failed',
+        error: 'Webhook host intranet.example.com is on a private network',
+      },
+      {
+        channel: 'webhook',
+        status: 'failed',
+        error: 'Webhook host 127.0.0.1 is on a private network',
+      },
+    ]);
+  });
+
+  it('connects only to the addresses it checked', async () => {
+    // Public when checked, loopback by the time the socket connects.
+    const answers = [['93.184.216.34'], ['127.0.0.1']];
+    const notifier = new WebhookNotifier({
+      resolve: async () => answers.shift() ?? ['127.0.0.1'],
+    });
+    const { engine } = setup({ notifiers: [notifier] });
+    const port = new URL(url).port;
+    const alert = await engine.create(
+      'user-1',
+      alertInput({
+        condition: { type: 'price', operator: 'below', value: 50 },
+        channels: [{ type: 'webhook', url: `http://rebind.test:${port}/` }],
+      })
+    );
+    const before = received.length;
+    await engine.onQuote(quote('AAPL', 49));
+    await engine.idle();
+
+    expect(received).toHaveLength(before);
+    const [trigger] = await engine.triggers('user-1', alert.id);
+    expect(trigger.deliveries).toEqual([
+      {
+        channel: 'webhook',
+        status: 'failed',
+        error: 'Webhook host rebind.test is on a private network',
+      },
+    ]);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('spots loopback, private, link-local and mapped addresses', () => {
+    [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd12::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '64:ff9b::7f00:1',
+      '2002:7f00:1::',
+      'not-an-address',
+    ].forEach(address => expect(isPrivateAddress(address)).toBe(true));
+    ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8'].forEach(
+      address => expect(isPrivateAddress(address)).toBe(false)
+    );
+  });
+});
+
+describe('followMarket', () => {
+  it('evaluates closed bars and watches alerted symbols', async () => {
+    const hub = new StreamHub();
+    const provider = {
+      getQuote: async () => null,
+      getBars: async () => [],
+    };
+    const feed = new MarketFeed(hub, provider as never, {
+      intervalMs: 60_000,
+    });
+    const { engine } = setup();
+    const stop = followMarket(engine, hub, feed);
+    const alert = await engine.create(
+      'user-1',
+      alertInput({
+        timeframe: '1m',
+        condition: { type: 'price', operator: 'above', value: 10 },
+        evaluateOn: 'bar_close',
+      })
+    );
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(feed.symbols).toEqual(['AAPL']);
+
+    const publish = (b: Bar) =>
+      hub.publish({
+        channel: 'bars',
+        symbol: 'AAPL',
+        data: { timeframe: '1m', bar: b },
+      });
+    publish(bar(0, 9));
+    publish(bar(0, 11));
+    expect(await engine.triggers('user-1', alert.id)).toEqual([]);
+    publish(bar(MINUTE, 12));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await engine.idle();
+    expect(
+      (await engine.triggers('user-1', alert.id)).map(t => t.observed.left)
+    ).toEqual([11]);
+
+    await engine.remove('user-1', alert.id);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(feed.symbols).toEqual([]);
+    stop();
+    expect(hub.subscriberCount).toBe(0);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computePerformance,
+  drawdown,
+  inferPeriodsPerYear,
+  rollingPerformance,
+  type EquitySample,
+} from '@/lib/analytics';
+
+const DAY = 86_400_000;
+
+function daily(equities: number[], cash?: number[]): EquitySample[] {
+  return equities.map((equity, i) => ({
+    timestamp: i * DAY,
+    equity,
+    ...(cash ? { cash: cash[i] } : {}),
+  }));
+}
+
+describe('performance analytics', () => {
+  it('infers the return frequency from the spacing', () => {
+    expect(inferPeriodsPerYear(daily([1, 1, 1]))).toBe(252);
+    expect(
+      inferPeriodsPerYear([0, 7, 14].map(d => ({ timestamp: d * DAY })))
+    ).toBe(52);
+    expect(
+      inferPeriodsPerYear([0, 1, 2].map(h => ({ timestamp: h * 3_600_000 })))
+    ).toBeCloseTo(252 * 6.5);
+  });
+
+  it('measures drawdown depth and duration', () => {
+    expect(drawdown(daily([100, 120, 90, 110, 130, 125]))).toEqual({
+      maxDrawdown: 0.25,
+      maxDrawdownDuration: 2 * DAY,
+    });
+  });
+
+  it('computes return and risk metrics of a curve', () => {
+    const metrics = computePerformance(daily([100, 110, 99, 108.9]), {
+      periodsPerYear: 252,
+    });
+    const returns = [0.1, -0.1, 0.1];
+    const mean = 0.1 / 3;
+    const sd = Math.sqrt(
+      returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / 2
+    );
+
+    expect(metrics.periods).toBe(3);
+    expect(metrics.totalReturn).toBeCloseTo(0.089);
+    expect(metrics.cagr).toBeCloseTo(1.089 ** (365.25 / 3) - 1, 6);
+    expect(metrics.volatility).toBeCloseTo(sd * Math.sqrt(252));
+    expect(metrics.sharpe).toBeCloseTo((mean / sd) * Math.sqrt(252));
+    expect(metrics.sortino).toBeCloseTo(
+      (mean / Math.sqrt(0.01 / 3)) * Math.sqrt(252)
+    );
+    expect(metrics.maxDrawdown).toBeCloseTo(0.1);
+    expect(metrics.calmar).toBeCloseTo(metrics.cagr! / 0.1);
+    expect(metrics.winRate).toBeCloseTo(2 / 3);
+    expect(metrics.profitFactor).toBeCloseTo(19.9 / 11);
+    expect(metrics.exposure).toBeNull();
+    expect(metrics.beta).toBeNull();
+  });
+
+  it('prefers closed trades for win rate and profit factor', () => {
+    const metrics = computePerformance(daily([100, 110, 99, 108.9]), {
+      trades: [{ pnl: 30 }, { pnl: -10 }, { pnl: -5 }, { pnl: 0 }],
+    });
+    expect(metrics.winRate).toBeCloseTo(1 / 3);
+    expect(metrics.profitFactor).toBeCloseTo(2);
+  });
+
+  it('measures exposure from cash', () => {
+    const metrics = computePerformance(daily([100, 100, 100], [100, 50, 0]));
+    expect(metrics.exposure).toBeCloseTo(0.5);
+  });
+
+  it('compares against a benchmark', () => {
+    const benchmark = [100, 102, 100.98, 103.0]
+      .map((value, i) => ({ timestamp: i * DAY, value }))
+      // An extra earlier price is ignored; alignment is at-or-before.
+      .concat([{ timestamp: -DAY, value: 1 }])
+      .sort((a, b) => a.timestamp - b.timestamp);
+    // Twice the benchmark's returns, period by period.
+    const benchReturns = [0.02, 100.98 / 102 - 1, 103.0 / 100.98 - 1];
+    const equities = [1000];
+    benchReturns.forEach(r =>
+      equities.push(equities[equities.length - 1] * (1 + 2 * r))
+    );
+
+    const metrics = computePerformance(daily(equities), {
+      benchmark,
+      periodsPerYear: 252,
+    });
+    expect(metrics.beta).toBeCloseTo(2);
+    expect(metrics.alpha).toBeCloseTo(0);
+    expect(metrics.benchmarkReturn).toBeCloseTo(0.03);
+  });
+
+  it('computes rolling windows', () => {
+    const curve = daily([100, 110, 99, 108.9, 120]);
+    const rolling = rollingPerformance(curve, 2, {
+      trades: [
+        { pnl: 5, exitTime: 1 * DAY },
+        { pnl: -3, exitTime: 3 * DAY },
+      ],
+    });
+
+    expect(rolling).toHaveLength(3);
+    expect(rolling.map(m => [m.start, m.end])).toEqual([
+      [0, 2 * DAY],
+      [DAY, 3 * DAY],
+      [2 * DAY, 4 * DAY],
+    ]);
+    expect(rolling[0].totalReturn).toBeCloseTo(-0.01);
+    expect(rolling[0].winRate).toBe(1);
+    expect(rolling[1].winRate).toBe(0);
+    expect(rolling[2].winRate).toBe(0);
+    expect(rolling.every(m => m.periodsPerYear === 252)).toBe(true);
+  });
+
+  it('matches each window measured on its own, benchmark included', () => {
+    const curve = daily([100, 104, 101, 107, 103, 110, 108, 115]);
+    // Unsorted, with gaps: each window must see the same aligned prices.
+    const benchmark = [3, 0, 6, 1, 4, 7].map(d => ({
+      timestamp: d * DAY,
+      value: 50 + d * (d % 2 ? 2 : -1),
+    }));
+    const trades = [
+      { pnl: 4, exitTime: 6 * DAY },
+      { pnl: -2, exitTime: 2 * DAY },
+      { pnl: 1 },
+    ];
+    const rolling = rollingPerformance(curve, 3, { benchmark, trades });
+
+    expect(rolling).toEqual(
+      curve.slice(3).map((point, i) =>
+        computePerformance(curve.slice(i, i + 4), {
+          benchmark,
+          periodsPerYear: 252,
+          trades: trades.filter(
+            trade =>
+              trade.exitTime !== undefined &&
+              trade.exitTime > curve[i].timestamp &&
+              trade.exitTime <= point.timestamp
+          ),
+        })
+      )
+    );
+  });
+});
@@ -0,0 +1,340 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AuthService,
+  CodaiIdentityProvider,
+  InMemoryAuthStore,
+  LocalIdentityProvider,
+  getAuthService,
+  hashPassword,
+  localUsersFromEnv,
+  requestToken,
+  signJwt,
+  userIdFor,
+  verifyJwt,
+  setAuthService,
+  verifyPassword,
+  type AuthStore,
+} from '@/lib/auth';
+import {
+  Database,
+  DatabaseAuthStore,
+  SqliteDriver,
+  getDatabase,
+  setDatabase,
+} from '@/lib/database';
+
+const SECRET = 'test-secret';
+
+function service(
+  clock = () => 1_700_000_000_000,
+  store: AuthStore = new InMemoryAuthStore()
+) {
+  const provider = new LocalIdentityProvider([
+    { email: 'Trader@Example.com', password: 'correct horse', name: 'Trader' },
+    { email: 'ops@example.com', password: 'battery staple' },
+  ]);
+  return new AuthService(provider, store, {
+    secret: SECRET,
+    sessionTtlMs: 60_000,
+    adminEmails: ['ops@example.com'],
+    clock,
+  });
+}
+
+describe('passwords and tokens', () => {
+  it('hashes passwords with a salt and verifies them', async () => {
+    const hash = await hashPassword('correct horse');
+    expect(hash).toMatch(/^scrypt\$/);
+    expect(await hashPassword('correct horse')).not.toBe(hash);
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', hash)).toBe(false);
+    expect(await verifyPassword('correct horse', 'garbage')).toBe(false);
+    await expect(hashPassword('short')).rejects.toThrow(/at least 8/);
+    expect(
+      () =>
+        new LocalIdentityProvider([
+          { email: 'a@x.io', password: 'long enough' },
+          { email: 'b@x.io', password: 'short' },
+        ])
+    ).toThrow('Local user b@x.io: Passwords must be at least 8 characters');
+  });
+
+  it('signs tokens and rejects tampered or expired ones', async () => {
+    const claims = {
+      sub: 'u1',
+      typ: 'api' as const,
+      jti: 't1',
+      scopes: ['read' as const],
+      iat: 1_000,
+      exp: 2_000,
+    };
+    const token = await signJwt(claims, SECRET);
+    expect(await verifyJwt(token, SECRET, 1_500_000)).toEqual(claims);
+    expect(await verifyJwt(token, SECRET, 2_000_000)).toBeNull();
+    expect(await verifyJwt(token, 'other-secret', 1_500_000)).toBeNull();
+    const [header, , signature] = token.split('.');
+    const forged = btoa(JSON.stringify({ ...claims, scopes: ['admin'] }))
+      .replace(/=+$/, '')
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_');
+    expect(
+      await verifyJwt(`${header}.${forged}.${signature}`, SECRET, 1_500_000)
+    ).toBeNull();
+  });
+
+  it('prefers a bearer token to the session cookie', () => {
+    const headers = new Headers({ Authorization: 'Bearer abc' });
+    expect(requestToken(headers, 'cookie')).toBe('abc');
+    expect(requestToken(new Headers(), 'cookie')).toBe('cookie');
+    expect(
+      requestToken(new Headers({ Authorization: 'Basic x' }), undefined)
+    ).toBeNull();
+  });
+
+  it('reads local users from the environment', () => {
+    expect(
+      localUsersFromEnv({
+        NODE_ENV: 'test',
+        AUTH_LOCAL_USERS: 'a@x.io:pw1:Ann Lee, b@x.io:pw2',
+      })
+    ).toEqual([
+      { email: 'a@x.io', password: 'pw1', name: 'Ann Lee' },
+      { email: 'b@x.io', password: 'pw2', name: undefined },
+    ]);
+    expect(localUsersFromEnv({ NODE_ENV: 'production' })).toEqual([]);
+  });
+});
+
+describe('AuthService', () => {
+  it('logs in, authenticates sessions and logs out', async () => {
+    const auth = service();
+    await expect(
+      auth.login({ email: 'trader@example.com', password: 'wrong' })
+    ).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+    await expect(
+      auth.login({ email: 'nobody@example.com', password: 'correct horse' })
+    ).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+
+    const { token, user } = await auth.login({
+      email: ' TRADER@example.com',
+      password: 'correct horse',
+    });
+    expect(user).toMatchObject({
+      email: 'trader@example.com',
+      name: 'Trader',
+      provider: 'local',
+      scopes: ['read', 'trade'],
+    });
+    const principal = await auth.authenticate(token);
+    expect(principal).toMatchObject({
+      via: 'session',
+      scopes: ['read', 'trade'],
+    });
+    expect(principal.user.id).toBe(user.id);
+
+    // Logging in again is the same user.
+    const again = await auth.login({
+      email: 'trader@example.com',
+      password: 'correct horse',
+    });
+    expect(again.user.id).toBe(user.id);
+    // And so it is after a restart, with nothing kept in between.
+    const restarted = await service().login({
+      email: 'trader@example.com',
+      password: 'correct horse',
+    });
+    expect(restarted.user.id).toBe(user.id);
+    expect(user.id).toBe(userIdFor('local', 'trader@example.com'));
+
+    await auth.logout(token);
+    await expect(auth.authenticate(token)).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+    await expect(auth.authenticate(again.token)).resolves.toBeDefined();
+  });
+
+  it('expires sessions', async () => {
+    let now = 1_700_000_000_000;
+    const auth = service(() => now);
+    const { token } = await auth.login({
+      email: 'trader@example.com',
+      password: 'correct horse',
+    });
+    now += 61_000;
+    await expect(auth.authenticate(token)).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+  });
+
+  it('issues scoped API tokens that can be revoked', async () => {
+    let now = 1_700_000_000_000;
+    const auth = service(() => now);
+    const { user } = await auth.login({
+      email: 'trader@example.com',
+      password: 'correct horse',
+    });
+
+    await expect(
+      auth.createApiToken(user.id, { name: 'ops', scopes: ['admin'] })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const { token, record } = await auth.createApiToken(user.id, {
+      name: 'script',
+      scopes: ['read'],
+      expiresInDays: 1,
+    });
+    now += 1_000;
+    expect(await auth.authenticate(token)).toMatchObject({
+      via: 'api',
+      scopes: ['read'],
+      credentialId: record.id,
+    });
+    expect(await auth.listApiTokens(user.id)).toEqual([
+      expect.objectContaining({ name: 'script', lastUsedAt: now }),
+    ]);
+
+    await auth.revokeApiToken(user.id, record.id);
+    await expect(auth.authenticate(token)).rejects.toMatchObject({
+      code: 'INVALID_TOKEN',
+    });
+    await expect(auth.revokeApiToken(user.id, record.id)).rejects.toMatchObject(
+      { code: 'NOT_FOUND' }
+    );
+  });
+
+  it('keeps users, sessions and API tokens in the database', async () => {
+    const database = new Database(new SqliteDriver(), { migrateFirst: true });
+    try {
+      const store = new DatabaseAuthStore(database);
+      const { token, user, session } = await service(undefined, store).login({
+        email: 'trader@example.com',
+        password: 'correct horse',
+      });
+      // Another process, or this one after a restart, sharing the database.
+      const other = service(undefined, new DatabaseAuthStore(database));
+      expect((await other.authenticate(token)).user).toEqual(user);
+
+      const { token: apiToken, record } = await other.createApiToken(user.id, {
+        name: 'script',
+        scopes: ['read'],
+      });
+      expect(await store.listTokens(user.id)).toEqual([record]);
+      await expect(other.authenticate(apiToken)).resolves.toMatchObject({
+        via: 'api',
+        credentialId: record.id,
+      });
+
+      await other.logout(token);
+      expect(await store.getSession(session.id)).toBeNull();
+      await expect(other.authenticate(token)).rejects.toMatchObject({
+        code: 'INVALID_TOKEN',
+      });
+    } finally {
+      await database.destroy();
+    }
+  });
+
+  describe('getAuthService', () => {
+    afterEach(async () => {
+      delete process.env.AUTH_STORE;
+      setAuthService(undefined);
+      setDatabase(undefined);
+    });
+
+    it('keeps users in the shared database with AUTH_STORE=database', async () => {
+      process.env.AUTH_STORE = 'database';
+      setAuthService(undefined);
+      setDatabase(new Database(new SqliteDriver(), { migrateFirst: true }));
+      const { user } = await getAuthService().login({
+        email: 'test@example.com',
+        password: 'testpassword',
+      });
+      expect(await getDatabase().users.get(user.id)).toEqual(user);
+      await getDatabase().destroy();
+    });
+  });
+
+  it('grants admin to the configured emails', async () => {
+    const auth = service();
+    const { user, token } = await auth.login({
+      email: 'ops@example.com',
+      password: 'battery staple',
+    });
+    expect(user.scopes).toEqual(['read', 'trade', 'admin']);
+    const { token: apiToken } = await auth.createApiToken(user.id, {
+      name: 'ops',
+      scopes: ['admin'],
+    });
+    expect((await auth.authenticate(apiToken)).scopes).toEqual(['admin']);
+    expect((await auth.authenticate(token)).scopes).toContain('admin');
+  });
+});
+
+describe('CodaiIdentityProvider', () => {
+  function provider(responses: Record<string, Response>) {
+    const fetch = vi.fn(async (url: string | URL | Request) => {
+      const path = new URL(String(url)).pathname;
+      return responses[path] ?? new Response('', { status: 404 });
+    });
+    return {
+      fetch,
+      provider: new CodaiIdentityProvider({
+        baseUrl: 'https://id.codai.example',
+        clientId: 'stocai',
+        fetch: fetch as unknown as typeof globalThis.fetch,
+      }),
+    };
+  }
+
+  it('exchanges credentials for the user behind them', async () => {
+    const { provider: codai, fetch } = provider({
+      '/oauth/token': Response.json({ access_token: 'at-1' }),
+      '/oauth/userinfo': Response.json({
+        sub: 'codai|42',
+        email: 'Trader@Codai.dev',
+        name: 'Trader',
+      }),
+    });
+    expect(
+      await codai.authenticate({ email: 'trader@codai.dev', password: 'pw' })
+    ).toEqual({
+      subject: 'codai|42',
+      email: 'trader@codai.dev',
+      name: 'Trader',
+    });
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    const form = new URLSearchParams(init.body as string);
+    expect(form.get('grant_type')).toBe('password');
+    expect(form.get('client_id')).toBe('stocai');
+  });
+
+  it('refuses bad credentials and reports outages', async () => {
+    const refused = provider({
+      '/oauth/token': Response.json(
+        { error: 'invalid_grant' },
+        { status: 400 }
+      ),
+    });
+    expect(
+      await refused.provider.authenticate({ email: 'a@b.c', password: 'x' })
+    ).toBeNull();
+
+    const down = provider({
+      '/oauth/token': new Response('', { status: 503 }),
+    });
+    await expect(
+      down.provider.authenticate({ email: 'a@b.c', password: 'x' })
+    ).rejects.toMatchObject({ code: 'PROVIDER_ERROR' });
+
+    // A proxy's error page, say, served with a 200.
+    const garbled = provider({
+      '/oauth/token': new Response('<html>Bad gateway</html>', {
+        status: 200,
+        headers: { 'Content-Type': 'text/html' },
+      }),
+    });
+    await expect(
+      garbled.provider.authenticate({ email: 'a@b.c', password: 'x' })
+    ).rejects.toMatchObject({ code: 'PROVIDER_ERROR' });
+  });
+});
@@ -0,0 +1,374 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  FileBacktestStore,
+  InMemoryBacktestStore,
+  executeBacktest,
+  getBacktest,
+  parseBacktestRequest,
+  runBacktest,
+  type BacktestConfig,
+  type BacktestEvent,
+} from '@/lib/backtest';
+import { FileMarketDataProvider, type Bar } from '@/lib/marketdata';
+import type { Strategy, StrategyContext } from '@/lib/strategy';
+
+const DAY = 86_400_000;
+const T0 = Date.parse('2024-01-02T14:30:00Z');
+
+function bars(closes: number[], symbol = 'TEST'): BacktestEvent[] {
+  return closes.map((close, i) => {
+    const bar: Bar = {
+      symbol,
+      timestamp: T0 + i * DAY,
+      open: close - 0.5,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1_000,
+    };
+    return { kind: 'bar', bar };
+  });
+}
+
+function config(overrides: Partial<BacktestConfig> = {}): BacktestConfig {
+  return {
+    symbols: ['TEST'],
+    mode: 'bars',
+    timeframe: '1d',
+    initialCapital: 10_000,
+    seed: 1,
+    slippage: { type: 'none' },
+    commission: { type: 'none' },
+    allowShort: false,
+    ...overrides,
+  };
+}
+
+/** Runs `script[i]` on the i-th bar. */
+function scripted(
+  script: Record<number, (ctx: StrategyContext) => void>
+): Strategy {
+  let index = 0;
+  return {
+    name: 'scripted',
+    onBar(_bar, ctx) {
+      script[index]?.(ctx);
+      index++;
+    },
+  };
+}
+
+describe('runBacktest', () => {
+  it('fills market orders at the next bar open', async () => {
+    const result = await runBacktest(
+      scripted({
+        0: ctx =>
+          ctx.submitOrder({ symbol: 'TEST', side: 'buy', quantity: 10 }),
+        2: ctx =>
+          ctx.submitOrder({ symbol: 'TEST', side: 'sell', quantity: 10 }),
+      }),
+      bars([100, 102, 105, 104]),
+      config()
+    );
+
+    expect(result.fills.map(fill => [fill.timestamp, fill.price])).toEqual([
+      [T0 + DAY, 101.5],
+      [T0 + 3 * DAY, 103.5],
+    ]);
+    expect(result.trades).toEqual([
+      expect.objectContaining({
+        side: 'long',
+        quantity: 10,
+        entryPrice: 101.5,
+        exitPrice: 103.5,
+        pnl: 20,
+      }),
+    ]);
+    expect(result.equityCurve).toHaveLength(4);
+    expect(result.summary.finalEquity).toBe(10_020);
+  });
+
+  it('fills limit and stop orders when the range reaches them', async () => {
+    const result = await runBacktest(
+      scripted({
+        0: ctx => {
+          ctx.submitOrder({
+            symbol: 'TEST',
+            side: 'buy',
+            quantity: 1,
+            type: 'limit',
+            limitPrice: 98.2,
+          });
+          ctx.submitOrder({
+            symbol: 'TEST',
+            side: 'buy',
+            quantity: 1,
+            type: 'stop',
+            stopPrice: 103,
+          });
+        },
+      }),
+      // Bar 1 opens at 98.5 and trades down to 98; bar 3 gaps up to 101.5
+      // and trades up to 103.
+      bars([100, 99, 97.5, 102]),
+      config()
+    );
+
+    expect(result.fills.map(fill => [fill.orderId, fill.price])).toEqual([
+      ['order-1', 98.2],
+      ['order-2', 103],
+    ]);
+  });
+
+  it('applies slippage and commission to cash', async () => {
+    const result = await runBacktest(
+      scripted({
+        0: ctx =>
+          ctx.submitOrder({ symbol: 'TEST', side: 'buy', quantity: 10 }),
+      }),
+      bars([100, 100]),
+      config({
+        slippage: { type: 'bps', bps: 100 },
+        commission: { type: 'per-share', rate: 0.01, minimum: 1 },
+      })
+    );
+
+    const [fill] = result.fills;
+    expect(fill.price).toBeCloseTo(99.5 * 1.01, 10);
+    expect(fill.slippage).toBeCloseTo(0.995, 10);
+    expect(fill.commission).toBe(1);
+    expect(result.equityCurve[1].cash).toBeCloseTo(
+      10_000 - 10 * 99.5 * 1.01 - 1,
+      8
+    );
+  });
+
+  it('rejects orders it cannot afford and shorts when disabled', async () => {
+    const result = await runBacktest(
+      scripted({
+        0: ctx => {
+          ctx.submitOrder({ symbol: 'TEST', side: 'buy', quantity: 1_000 });
+          ctx.submitOrder({ symbol: 'TEST', side: 'sell', quantity: 1 });
+        },
+      }),
+      bars([100, 100]),
+      config()
+    );
+
+    expect(result.fills).toEqual([]);
+    expect(result.orders.map(order => order.reason)).toEqual([
+      'insufficient cash',
+      'short selling is disabled',
+    ]);
+  });
+
+  it('tracks short round trips when shorting is allowed', async () => {
+    const result = await runBacktest(
+      scripted({
+        0: ctx =>
+          ctx.submitOrder({ symbol: 'TEST', side: 'sell', quantity: 5 }),
+        1: ctx => ctx.submitOrder({ symbol: 'TEST', side: 'buy', quantity: 5 }),
+      }),
+      bars([100, 96, 90]),
+      config({ allowShort: true })
+    );
+
+    expect(result.trades[0]).toMatchObject({
+      side: 'short',
+      entryPrice: 95.5,
+      exitPrice: 89.5,
+      pnl: 30,
+    });
+  });
+
+  it('is deterministic for a given seed', async () => {
+    const strategy = () =>
+      scripted({
+        0: ctx => ctx.submitOrder({ symbol: 'TEST', side: 'buy', quantity: 5 }),
+        1: ctx =>
+          ctx.submitOrder({ symbol: 'TEST', side: 'sell', quantity: 5 }),
+      });
+    const events = bars([100, 101, 102]);
+    const noisy = (seed: number) =>
+      config({ seed, slippage: { type: 'random-bps', maxBps: 50 } });
+
+    const first = await runBacktest(strategy(), events, noisy(7));
+    const second = await runBacktest(strategy(), events, noisy(7));
+    const other = await runBacktest(strategy(), events, noisy(8));
+    expect(second).toEqual(first);
+    expect(other.fills[0].price).not.toBe(first.fills[0].price);
+  });
+
+  it('never lets a strategy trade on the bar it is looking at', async () => {
+    const seen: number[] = [];
+    await runBacktest(
+      {
+        name: 'peek',
+        onBar(bar, ctx) {
+          ctx.submitOrder({ symbol: 'TEST', side: 'buy', quantity: 1 });
+        },
+        onFill(fill) {
+          seen.push(fill.timestamp);
+        },
+      },
+      bars([100, 101, 102]),
+      config()
+    );
+    expect(seen).toEqual([T0 + DAY, T0 + 2 * DAY]);
+  });
+
+  it("never fills at another symbol's prices from the same moment", async () => {
+    // AAA's bar is handled first each day; an order for BBB placed there
+    // must not fill at BBB's open that day, which precedes the decision.
+    const aaa = bars([100, 110, 120], 'AAA');
+    const bbb = bars([50, 60, 70], 'BBB');
+    const events = aaa.flatMap((event, i) => [event, bbb[i]]);
+    const result = await runBacktest(
+      {
+        name: 'cross',
+        onBar(bar, ctx) {
+          if (bar.symbol === 'AAA' && bar.timestamp === T0) {
+            ctx.submitOrder({ symbol: 'BBB', side: 'buy', quantity: 1 });
+          }
+        },
+      },
+      events,
+      config({ symbols: ['AAA', 'BBB'] })
+    );
+    expect(result.fills.map(fill => [fill.timestamp, fill.price])).toEqual([
+      [T0 + DAY, 59.5],
+    ]);
+  });
+});
+
+describe('parseBacktestRequest', () => {
+  it('fills in defaults', () => {
+    const parsed = parseBacktestRequest({
+      strategy: 'sma-cross',
+      symbols: ['aapl', 'AAPL'],
+    });
+    expect(parsed).toMatchObject({
+      problems: [],
+      request: {
+        strategy: 'sma-cross',
+        params: {},
+        config: {
+          symbols: ['AAPL'],
+          mode: 'bars',
+          timeframe: '1d',
+          initialCapital: 100_000,
+          slippage: { type: 'none' },
+        },
+      },
+    });
+  });
+
+  it('reports every problem', () => {
+    const parsed = parseBacktestRequest({
+      timeframe: '3m',
+      slippage: { type: 'bps' },
+    });
+    expect(parsed.problems).toEqual([
+      'strategy is required',
+      'symbols is required',
+      'timeframe must be one of 1m, 5m, 15m, 1h, 1d',
+      'slippage.bps is required',
+    ]);
+  });
+});
+
+describe('executeBacktest', () => {
+  it('runs a built-in strategy over fixture data and stores it', async () => {
+    const parsed = parseBacktestRequest({
+      strategy: 'sma-cross',
+      params: { fast: 5, slow: 20 },
+      symbols: ['AAPL', 'MSFT'],
+      start: '2024-01-01T00:00:00Z',
+    });
+    if (!('request' in parsed)) throw new Error(parsed.problems.join());
+
+    const store = new InMemoryBacktestStore();
+    const provider = new FileMarketDataProvider(
+      path.resolve('data/marketdata')
+    );
+    const record = await executeBacktest('u1', parsed.request, {
+      provider,
+      store,
+    });
+
+    expect(record.result.trades.length).toBeGreaterThan(0);
+    expect(record.result.equityCurve[0].timestamp).toBeGreaterThanOrEqual(
+      Date.parse('2024-01-01T00:00:00Z')
+    );
+    expect(await store.get(record.id)).toBe(record);
+    expect((await store.list('u1'))[0]).toMatchObject({
+      id: record.id,
+      strategy: 'sma-cross',
+      symbols: ['AAPL', 'MSFT'],
+    });
+    expect(record.userId).toBe('u1');
+    expect(await store.list('u2')).toEqual([]);
+    expect(await getBacktest('u2', record.id, store)).toBeNull();
+    expect(await getBacktest('u1', record.id, store)).toBe(record);
+  });
+});
+
+describe('FileBacktestStore', () => {
+  const record = (id: string, userId: string, createdAt: string) => ({
+    id,
+    userId,
+    createdAt,
+    params: {},
+    result: {
+      strategy: 'sma-cross',
+      config: { symbols: ['AAPL'] },
+      summary: { totalReturn: 0.1 },
+    } as never,
+  });
+
+  it("lists each user's runs from its index, rebuilt when missing", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'stocai-backtests-'));
+    try {
+      // Written as if before there was an index.
+      writeFileSync(
+        path.join(dir, 'old.json'),
+        JSON.stringify(record('old', 'u1', '2024-01-01T00:00:00.000Z'))
+      );
+      const store = new FileBacktestStore(dir);
+      await Promise.all([
+        store.save(record('new', 'u1', '2024-01-02T00:00:00.000Z')),
+        store.save(record('theirs', 'u2', '2024-01-03T00:00:00.000Z')),
+      ]);
+      expect((await store.list('u1')).map(item => item.id)).toEqual([
+        'new',
+        'old',
+      ]);
+
+      // Listings come from the index alone, not the runs.
+      rmSync(path.join(dir, 'new.json'));
+      const reopened = new FileBacktestStore(dir);
+      expect(await reopened.list('u2')).toEqual([
+        {
+          id: 'theirs',
+          createdAt: '2024-01-03T00:00:00.000Z',
+          strategy: 'sma-cross',
+          params: {},
+          symbols: ['AAPL'],
+          summary: { totalReturn: 0.1 },
+        },
+      ]);
+      expect((await reopened.list('u1', 1)).map(item => item.id)).toEqual([
+        'new',
+      ]);
+      expect(
+        JSON.parse(readFileSync(path.join(dir, '.index.json'), 'utf8'))
+      ).toHaveLength(3);
+      expect(await reopened.get('.index')).toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import type { Quote } from '@/lib/marketdata/types';
+import {
+  MarketCache,
+  MemoryCache,
+  cacheQuotes,
+  createCacheStore,
+  globToRegExp,
+  redis,
+} from '@/lib/redis';
+import { StreamHub } from '@/lib/streaming';
+
+const quote = (symbol: string, last: number): Quote => ({
+  symbol,
+  timestamp: 1_000,
+  bid: last - 0.01,
+  ask: last + 0.01,
+  bidSize: 100,
+  askSize: 100,
+  last,
+});
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('MemoryCache', () => {
+  it('expires keys after their time to live', async () => {
+    let now = 0;
+    const cache = new MemoryCache({ clock: () => now });
+    await cache.set('a', '1', { ttlMs: 100 });
+    await cache.set('b', '2');
+    expect(await cache.pttl('a')).toBe(100);
+    expect(await cache.pttl('b')).toBe(-1);
+    expect(await cache.pttl('c')).toBe(-2);
+
+    now = 100;
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.exists('b')).toBe(true);
+    expect(await cache.pexpire('b', 50)).toBe(true);
+    now = 150;
+    expect(await cache.mget(['a', 'b'])).toEqual([null, null]);
+  });
+
+  it('evicts the least recently used keys', async () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+    await cache.set('a', '1');
+    await cache.set('b', '2');
+    await cache.get('a');
+    await cache.set('c', '3');
+    expect(await cache.keys('*')).toEqual(['a', 'c']);
+    expect(cache.size).toBe(2);
+  });
+
+  it('deletes, matches and flushes keys', async () => {
+    const cache = new MemoryCache();
+    await cache.set('quote:AAPL', '1');
+    await cache.set('quote:MSFT', '2');
+    await cache.set('screener:x', '3');
+    expect(await cache.keys('quote:*')).toEqual(['quote:AAPL', 'quote:MSFT']);
+    expect(await cache.del('quote:AAPL', 'missing')).toBe(1);
+    await cache.flushall();
+    expect(await cache.keys('*')).toEqual([]);
+    await cache.quit();
+    await expect(cache.ping()).rejects.toMatchObject({ code: 'CLOSED' });
+  });
+
+  it('sets keys only while they hold the expected value', async () => {
+    const cache = new MemoryCache();
+    expect(await cache.compareAndSet('a', null, '1')).toBe(true);
+    expect(await cache.compareAndSet('a', null, '2')).toBe(false);
+    expect(await cache.compareAndSet('a', '2', '3')).toBe(false);
+    expect(await cache.compareAndSet('a', '1', '3', { ttlMs: 100 })).toBe(true);
+    expect(await cache.get('a')).toBe('3');
+    expect(await cache.pttl('a')).toBeGreaterThan(0);
+  });
+
+  it('delivers published messages to subscribers', async () => {
+    const cache = new MemoryCache();
+    const received: string[] = [];
+    const unsubscribe = await cache.subscribe('news', message =>
+      received.push(message)
+    );
+    expect(await cache.publish('news', 'one')).toBe(1);
+    expect(await cache.publish('other', 'ignored')).toBe(0);
+    await tick();
+    await unsubscribe();
+    expect(await cache.publish('news', 'two')).toBe(0);
+    await tick();
+    expect(received).toEqual(['one']);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('matches Redis glob patterns literally otherwise', () => {
+    expect(globToRegExp('a?c*').test('abc.d')).toBe(true);
+    expect(globToRegExp('a.c').test('abc')).toBe(false);
+  });
+});
+
+describe('MarketCache', () => {
+  it('keeps last quotes and fans updates out', async () => {
+    const market = new MarketCache(new MemoryCache());
+    const seen: Quote[] = [];
+    await market.subscribeQuotes(q => seen.push(q));
+    await market.setLastQuote(quote('AAPL', 190));
+    await market.setLastQuote(quote('MSFT', 410));
+    await tick();
+
+    expect(await market.lastQuote('AAPL')).toEqual(quote('AAPL', 190));
+    expect(
+      Object.keys(await market.lastQuotes(['AAPL', 'MSFT', 'NVDA']))
+    ).toEqual(['AAPL', 'MSFT']);
+    expect(seen.map(q => q.symbol)).toEqual(['AAPL', 'MSFT']);
+  });
+
+  it('caches indicator snapshots and screener results', async () => {
+    let now = 0;
+    const cache = new MemoryCache({ clock: () => now });
+    const market = new MarketCache(cache, {
+      screenerTtlMs: 1_000,
+      clock: () => now,
+    });
+    const snapshot = {
+      symbol: 'AAPL',
+      timeframe: '1d' as const,
+      timestamp: 1_000,
+      values: { sma20: 188.2, macd: { macd: 1, signal: 0.5, histogram: 0.5 } },
+    };
+    await market.setIndicatorSnapshot(snapshot);
+    expect(await market.indicatorSnapshot('AAPL', '1d')).toEqual(snapshot);
+    expect(await market.indicatorSnapshot('AAPL', '1h')).toBeNull();
+
+    await market.setScreenerResults('rsi14 < 30', [{ symbol: 'AAPL' }]);
+    expect(await market.screenerResults(' rsi14 < 30 ')).toEqual({
+      query: 'rsi14 < 30',
+      results: [{ symbol: 'AAPL' }],
+      computedAt: 0,
+    });
+    now = 1_000;
+    expect(await market.screenerResults('rsi14 < 30')).toBeNull();
+
+    await market.setScreenerResults('a', []);
+    await market.setScreenerResults('b', []);
+    expect(await market.invalidateScreenerResults()).toBe(2);
+  });
+
+  it('stores quotes published to a stream hub', async () => {
+    const hub = new StreamHub();
+    const market = new MarketCache(new MemoryCache());
+    const stop = cacheQuotes(hub, market);
+    hub.publish({ channel: 'quotes', symbol: 'AAPL', data: quote('AAPL', 1) });
+    await tick();
+    expect(await market.lastQuote('AAPL')).toMatchObject({ last: 1 });
+    stop();
+    expect(hub.subscriberCount).toBe(0);
+  });
+});
+
+describe('cache stores', () => {
+  it('needs REDIS_URL for the redis store', () => {
+    expect(() => createCacheStore('redis', {} as NodeJS.ProcessEnv)).toThrow(
+      /REDIS_URL/
+    );
+    expect(() => createCacheStore('nope')).toThrow(/No cache store/);
+  });
+
+  it('exposes the shared cache with a Redis-style interface', async () => {
+    expect(await redis.ping()).toBe('PONG');
+    await redis.set('test-key', 'test-value');
+    expect(await redis.get('test-key')).toBe('test-value');
+    expect(await redis.get('non-existent-key')).toBeNull();
+    await redis.quit();
+    // A fresh cache replaces the one closed.
+    expect(await redis.get('test-key')).toBeNull();
+    await redis.flushall();
+  });
+});
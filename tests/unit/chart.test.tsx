@@ -0,0 +1,209 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CandlestickChart } from '@/components/chart';
+import {
+  barIndexAt,
+  clampViewport,
+  linePath,
+  niceTicks,
+  zoomViewport,
+} from '@/components/chart/scale';
+import type { Bar } from '@/lib/marketdata/types';
+
+const MINUTE = 60_000;
+
+function makeBars(count: number): Bar[] {
+  return Array.from({ length: count }, (_, i) => {
+    const open = 100 + Math.sin(i / 5) * 5;
+    const close = open + (i % 2 === 0 ? 1 : -1);
+    return {
+      symbol: 'AAPL',
+      timestamp: i * MINUTE,
+      open,
+      high: Math.max(open, close) + 0.5,
+      low: Math.min(open, close) - 0.5,
+      close,
+      volume: 1_000 + i,
+    };
+  });
+}
+
+/** Makes the SVG report a box matching its 800-unit drawing width. */
+function sized(svg: Element) {
+  svg.getBoundingClientRect = () =>
+    ({ left: 0, top: 0, width: 800, height: 360 }) as DOMRect;
+  return svg;
+}
+
+describe('chart scales', () => {
+  it('zooms around an anchor and keeps the viewport in range', () => {
+    expect(zoomViewport({ end: 100, count: 100 }, 2, 100)).toEqual({
+      end: 100,
+      count: 50,
+    });
+    expect(zoomViewport({ end: 100, count: 100 }, 2, 100, 0)).toEqual({
+      end: 50,
+      count: 50,
+    });
+    expect(clampViewport({ end: 500, count: 3 }, 100)).toEqual({
+      end: 100,
+      count: 10,
+    });
+    expect(clampViewport({ end: 0, count: 500 }, 20)).toEqual({
+      end: 20,
+      count: 20,
+    });
+  });
+
+  it('builds ticks, paths and marker positions', () => {
+    expect(niceTicks(98.3, 104.9)).toEqual([100, 102, 104]);
+    expect(
+      linePath(
+        [1, null, 2, 3],
+        i => i,
+        v => v * 10
+      )
+    ).toBe('M0.00,10.00M2.00,20.00L3.00,30.00');
+    const bars = [{ timestamp: 0 }, { timestamp: 60 }, { timestamp: 120 }];
+    expect(barIndexAt(bars, 90)).toBe(1);
+    expect(barIndexAt(bars, -1)).toBe(-1);
+  });
+});
+
+describe('CandlestickChart', () => {
+  // jsdom has no PointerEvent, so pointer events would lose their position.
+  beforeAll(() => {
+    vi.stubGlobal(
+      'PointerEvent',
+      class extends MouseEvent {
+        readonly pointerId: number;
+        constructor(type: string, init: PointerEventInit = {}) {
+          super(type, init);
+          this.pointerId = init.pointerId ?? 0;
+        }
+      }
+    );
+  });
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('renders candles, volume, overlays, panes and markers', () => {
+    const bars = makeBars(60);
+    render(
+      <CandlestickChart
+        bars={bars}
+        indicators={[
+          { type: 'sma', period: 5 },
+          { type: 'bbands', period: 10 },
+          { type: 'rsi' },
+          { type: 'macd' },
+        ]}
+        markers={[
+          {
+            id: 'o1',
+            kind: 'order',
+            side: 'buy',
+            timestamp: 50 * MINUTE,
+            price: 100,
+          },
+          {
+            id: 'f1',
+            kind: 'fill',
+            side: 'sell',
+            timestamp: 55 * MINUTE + 1,
+            price: 101,
+          },
+          {
+            id: 'gone',
+            kind: 'fill',
+            side: 'buy',
+            timestamp: -MINUTE,
+            price: 1,
+          },
+        ]}
+      />
+    );
+
+    expect(screen.getAllByTestId('candle')).toHaveLength(60);
+    expect(screen.getAllByTestId('volume-bar')).toHaveLength(60);
+    // One SMA line plus three Bollinger bands.
+    expect(screen.getAllByTestId('overlay-line')).toHaveLength(4);
+    expect(screen.getByTestId('pane-rsi')).toBeInTheDocument();
+    expect(screen.getByTestId('pane-macd')).toBeInTheDocument();
+    expect(screen.getByTestId('marker-order')).toHaveTextContent(
+      'Order buy @ 100.00'
+    );
+    expect(screen.getByTestId('marker-fill')).toHaveTextContent(
+      'Filled sell @ 101.00'
+    );
+  });
+
+  it('zooms and pans', () => {
+    render(<CandlestickChart bars={makeBars(200)} initialVisibleBars={100} />);
+    const chart = screen.getByRole('img');
+    expect(screen.getAllByTestId('candle')).toHaveLength(100);
+    expect(chart.getAttribute('aria-label')).toContain('to 1970-01-01 03:19');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+    expect(screen.getAllByTestId('candle')).toHaveLength(80);
+
+    fireEvent.keyDown(chart, { key: 'ArrowLeft' });
+    expect(chart.getAttribute('aria-label')).toContain('to 1970-01-01 03:11');
+
+    fireEvent.wheel(chart, { deltaY: 100, clientX: 0 });
+    expect(screen.getAllByTestId('candle')).toHaveLength(100);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset zoom' }));
+    expect(chart.getAttribute('aria-label')).toContain('to 1970-01-01 03:19');
+  });
+
+  it('pans by dragging', () => {
+    render(<CandlestickChart bars={makeBars(200)} initialVisibleBars={100} />);
+    const chart = sized(screen.getByRole('img'));
+    // 744 units of plot for 100 bars: 74.4 units is ten bars.
+    fireEvent.pointerDown(chart, { clientX: 100, pointerId: 1 });
+    fireEvent.pointerMove(chart, { clientX: 174.4, pointerId: 1 });
+    fireEvent.pointerUp(chart, { pointerId: 1 });
+    expect(chart.getAttribute('aria-label')).toContain('to 1970-01-01 03:09');
+  });
+
+  it('shows a crosshair tooltip for the bar under the pointer', () => {
+    const bars = makeBars(20);
+    render(
+      <CandlestickChart bars={bars} indicators={[{ type: 'sma', period: 3 }]} />
+    );
+    const chart = sized(screen.getByRole('img'));
+    expect(screen.queryByTestId('chart-tooltip')).not.toBeInTheDocument();
+
+    // 744 / 20 = 37.2 units per bar; 100 falls in the third.
+    fireEvent.pointerMove(chart, { clientX: 100, clientY: 50 });
+    const tooltip = screen.getByTestId('chart-tooltip');
+    const sma = (bars[0].close + bars[1].close + bars[2].close) / 3;
+    expect(tooltip).toHaveTextContent('1970-01-01 00:02');
+    expect(tooltip).toHaveTextContent(`C ${bars[2].close.toFixed(2)}`);
+    expect(tooltip).toHaveTextContent(`SMA(3) ${sma.toFixed(2)}`);
+    expect(screen.getByTestId('crosshair')).toBeInTheDocument();
+
+    fireEvent.pointerLeave(chart);
+    expect(screen.queryByTestId('chart-tooltip')).not.toBeInTheDocument();
+  });
+
+  it('switches timeframes', () => {
+    const onTimeframeChange = vi.fn();
+    render(
+      <CandlestickChart
+        bars={makeBars(20)}
+        timeframe="1m"
+        timeframes={['1m', '5m', '1d']}
+        onTimeframeChange={onTimeframeChange}
+      />
+    );
+    expect(screen.getByRole('button', { name: '1m' })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    fireEvent.click(screen.getByRole('button', { name: '5m' }));
+    expect(onTimeframeChange).toHaveBeenCalledWith('5m');
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react';
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+  type Mock,
+} from 'vitest';
+import { navigate } from '@/components/auth/session';
+import { Dashboard } from '@/components/dashboard';
+
+vi.mock('@/components/auth/session', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/components/auth/session')>()),
+  navigate: vi.fn(),
+}));
+
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+  private readonly listeners = new Map<string, (event: MessageEvent) => void>();
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(type: string, payload: unknown) {
+    this.listeners.get(type)?.(
+      new MessageEvent(type, { data: JSON.stringify(payload) })
+    );
+  }
+}
+
+const portfolio = {
+  method: 'fifo',
+  cash: 99_000,
+  marketValue: 1_050,
+  equity: 100_050,
+  realizedPnl: 0,
+  unrealizedPnl: 50,
+  dividends: 0,
+  fees: 0,
+  netPnl: 50,
+  positions: [
+    {
+      symbol: 'AAPL',
+      quantity: 10,
+      averageCost: 100,
+      costBasis: 1_000,
+      marketPrice: 105,
+      marketValue: 1_050,
+      unrealizedPnl: 50,
+      realizedPnl: 0,
+      dividends: 0,
+      lots: [],
+    },
+  ],
+};
+
+const openOrder = {
+  id: 'ord-1',
+  accountId: 'default',
+  symbol: 'MSFT',
+  side: 'buy',
+  type: 'limit',
+  quantity: 5,
+  limitPrice: 300,
+  timeInForce: 'day',
+  status: 'accepted',
+  filledQuantity: 0,
+  averageFillPrice: null,
+  fills: [],
+  history: [],
+};
+
+function respond(body: unknown, status = 200) {
+  return Promise.resolve(new Response(JSON.stringify(body), { status }));
+}
+
+describe('Dashboard', () => {
+  let fetchMock: Mock<[string, RequestInit?], Promise<Response>>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    FakeEventSource.instances = [];
+    vi.stubGlobal('EventSource', FakeEventSource);
+    fetchMock = vi.fn((url: string, init?: RequestInit) => {
+      if (url === '/api/v1/portfolio') return respond(portfolio);
+      if (url === '/api/v1/user/profile') {
+        return respond({ id: 'u1', email: 'test@example.com', name: null });
+      }
+      if (url === '/api/v1/auth/logout') {
+        return Promise.resolve(new Response(null, { status: 204 }));
+      }
+      if (url.startsWith('/api/v1/bars?')) return respond({ bars: [] });
+      if (url.startsWith('/api/v1/orders?')) {
+        return respond({ orders: [openOrder] });
+      }
+      if (url === '/api/v1/orders' && init?.method === 'POST') {
+        return respond(
+          { ...openOrder, id: 'ord-2', symbol: 'AAPL', status: 'filled' },
+          201
+        );
+      }
+      return respond({ error: 'Not Found', message: 'nope' }, 404);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(navigate).mockClear();
+  });
+
+  it('shows the account, positions and open orders', async () => {
+    render(<Dashboard />);
+
+    expect(await screen.findByText('$100,050.00')).toBeInTheDocument();
+    expect(screen.getByTestId('positions-table')).toHaveTextContent('AAPL');
+    expect(screen.getByTestId('operations-list')).toHaveTextContent(
+      'MSFT buy 5 limit @ 300.00'
+    );
+    await waitFor(() =>
+      expect(screen.getByTestId('user-profile')).toHaveTextContent(
+        'test@example.com'
+      )
+    );
+  });
+
+  it('logs out, and sends users whose session ended to log in', async () => {
+    render(<Dashboard />);
+    await screen.findByText('$100,050.00');
+    fireEvent.click(screen.getByTestId('logout-button'));
+    await waitFor(() => expect(navigate).toHaveBeenCalledWith('/login'));
+    expect(fetchMock).toHaveBeenCalledWith('/api/v1/auth/logout', {
+      method: 'POST',
+    });
+
+    fetchMock.mockImplementation(() =>
+      respond(
+        { error: 'Unauthorized', message: 'Authentication is required' },
+        401
+      )
+    );
+    fireEvent.click(screen.getByTestId('network-dependent-action'));
+    await waitFor(() =>
+      expect(navigate).toHaveBeenCalledWith('/login?next=%2F')
+    );
+  });
+
+  it('updates quotes and activity from the event stream', async () => {
+    render(<Dashboard />);
+    await screen.findByText('$100,050.00');
+    const source = FakeEventSource.instances.at(-1)!;
+    expect(source.url).toContain('symbols=AAPL%2CMSFT%2CSPY');
+
+    act(() => {
+      source.onopen?.();
+      source.emit('quotes', {
+        seq: 1,
+        timestamp: 0,
+        data: {
+          symbol: 'MSFT',
+          timestamp: 0,
+          bid: 310,
+          ask: 310.1,
+          bidSize: 1,
+          askSize: 1,
+          last: 310.05,
+        },
+      });
+      source.emit('fills', {
+        seq: 2,
+        timestamp: 0,
+        data: {
+          orderId: 'ord-1',
+          fill: { side: 'buy', quantity: 5, symbol: 'MSFT', price: 300 },
+        },
+      });
+    });
+
+    expect(screen.getByText('Live')).toBeInTheDocument();
+    expect(screen.getByTestId('data-list')).toHaveTextContent('310.05');
+    expect(screen.getByTestId('updates-list')).toHaveTextContent(
+      'Filled buy 5 MSFT @ 300'
+    );
+    await waitFor(() =>
+      expect(
+        fetchMock.mock.calls.filter(([url]) => url === '/api/v1/portfolio')
+      ).toHaveLength(2)
+    );
+  });
+
+  it('adds symbols to a persisted watchlist and reconnects', async () => {
+    render(<Dashboard />);
+    fireEvent.click(screen.getByTestId('create-data-button'));
+    fireEvent.change(screen.getByTestId('data-name'), {
+      target: { value: 'nvda' },
+    });
+    fireEvent.click(screen.getByTestId('save-data'));
+
+    expect(screen.getByTestId('data-list')).toHaveTextContent('NVDA');
+    expect(JSON.parse(localStorage.getItem('stocai.watchlist')!)).toContain(
+      'NVDA'
+    );
+    await waitFor(() =>
+      expect(FakeEventSource.instances.at(-1)!.url).toContain('NVDA')
+    );
+    expect(FakeEventSource.instances[0].closed).toBe(true);
+  });
+
+  it('places orders from the ticket', async () => {
+    render(<Dashboard />);
+    fireEvent.click(screen.getByTestId('new-operation-button'));
+    fireEvent.change(screen.getByTestId('operation-input'), {
+      target: { value: 'aapl' },
+    });
+    fireEvent.click(screen.getByTestId('submit-operation'));
+
+    expect(await screen.findByTestId('operation-success')).toHaveTextContent(
+      'buy 5 AAPL filled'
+    );
+    const [, init] = fetchMock.mock.calls.find(
+      ([url, options]) => url === '/api/v1/orders' && options?.method === 'POST'
+    )!;
+    expect(JSON.parse(init!.body as string)).toEqual({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+      type: 'market',
+    });
+  });
+
+  it('previews a rebalance before submitting it as a batch', async () => {
+    const fallback = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation((url: string, init?: RequestInit) => {
+      if (url === '/api/v1/portfolio/optimize') {
+        return respond({
+          objective: 'min-variance',
+          allocation: {
+            weights: { AAPL: 0.4, MSFT: 0.6 },
+            expectedReturn: 0.12,
+            volatility: 0.2,
+            sharpe: 0.6,
+            riskContributions: {},
+          },
+          frontier: [],
+        });
+      }
+      if (url === '/api/v1/portfolio/rebalance') {
+        return respond({
+          equity: 100_050,
+          cash: 99_000,
+          projectedCash: 1_000,
+          turnover: 0.98,
+          driftThreshold: 0.02,
+          lines: [
+            {
+              symbol: 'AAPL',
+              currentWeight: 0.01,
+              targetWeight: 0.4,
+              drift: 0.39,
+              order: { side: 'buy', quantity: 370 },
+            },
+            {
+              symbol: 'MSFT',
+              currentWeight: 0,
+              targetWeight: 0.6,
+              drift: 0.6,
+              order: { side: 'buy', quantity: 190 },
+            },
+          ],
+          orders: [
+            { symbol: 'AAPL', side: 'buy', quantity: 370 },
+            { symbol: 'MSFT', side: 'buy', quantity: 190 },
+          ],
+        });
+      }
+      if (url === '/api/v1/batch-operations') {
+        return respond({
+          mode: 'atomic',
+          committed: true,
+          placed: 2,
+          failed: 0,
+          legs: [],
+        });
+      }
+      return fallback(url, init);
+    });
+    render(<Dashboard />);
+    fireEvent.change(screen.getByRole('combobox', { name: 'Objective' }), {
+      target: { value: 'min-variance' },
+    });
+    fireEvent.click(screen.getByTestId('rebalance-propose'));
+
+    expect(await screen.findByTestId('rebalance-table')).toHaveTextContent(
+      'MSFT0.0%60.0%60.0%buy 190'
+    );
+    const [, init] = fetchMock.mock.calls.find(
+      ([url]) => url === '/api/v1/portfolio/optimize'
+    )!;
+    expect(JSON.parse(init!.body as string)).toEqual({
+      symbols: ['AAPL', 'MSFT', 'SPY'],
+      objective: 'min-variance',
+      constraints: { maxWeight: 1 },
+    });
+    expect(
+      fetchMock.mock.calls.some(([url]) => url === '/api/v1/batch-operations')
+    ).toBe(false);
+
+    fireEvent.click(screen.getByTestId('rebalance-submit'));
+    expect(await screen.findByTestId('rebalance-status')).toHaveTextContent(
+      'Placed 2 orders'
+    );
+    const [, batch] = fetchMock.mock.calls.find(
+      ([url]) => url === '/api/v1/batch-operations'
+    )!;
+    expect(JSON.parse(batch!.body as string)).toEqual({
+      mode: 'atomic',
+      orders: [
+        { symbol: 'AAPL', side: 'buy', quantity: 370, type: 'market' },
+        { symbol: 'MSFT', side: 'buy', quantity: 190, type: 'market' },
+      ],
+    });
+  });
+
+  it('offers a retry when loading fails', async () => {
+    fetchMock.mockImplementation(() =>
+      Promise.reject(new TypeError('offline'))
+    );
+    render(<Dashboard />);
+
+    expect(await screen.findByTestId('error-message')).toHaveTextContent(
+      'offline'
+    );
+    fetchMock.mockImplementation((url: string) =>
+      url === '/api/v1/portfolio' ? respond(portfolio) : respond({ orders: [] })
+    );
+    fireEvent.click(screen.getByTestId('retry-button'));
+    await waitFor(() =>
+      expect(screen.queryByTestId('error-message')).not.toBeInTheDocument()
+    );
+  });
+});
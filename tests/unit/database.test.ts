@@ -0,0 +1,376 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { User } from '@/lib/auth';
+import { getBacktestStore, setBacktestStore } from '@/lib/backtest';
+import { PaperBroker } from '@/lib/broker';
+import { DEFAULT_ACCOUNT_ID, OrderManager, type ManagedOrder } from '@/lib/oms';
+import { PortfolioLedger, followOrders } from '@/lib/portfolio';
+import {
+  Database,
+  DatabaseError,
+  OrderJournal,
+  SEED_USER_ID,
+  SqliteDriver,
+  db,
+  getDatabase,
+  numberedPlaceholders,
+  sqlMigration,
+} from '@/lib/database';
+
+describe('Database', () => {
+  let database: Database;
+
+  beforeEach(async () => {
+    database = new Database(new SqliteDriver(), { clock: () => 1_000 });
+    await database.migrate.latest();
+  });
+
+  afterEach(() => database.destroy());
+
+  it('applies migrations in a batch and rolls the last batch back', async () => {
+    expect(await database.migrate.latest()).toEqual({
+      batch: 0,
+      migrations: [],
+    });
+    const extra = new Database(new SqliteDriver(), {
+      migrations: [
+        sqlMigration(
+          1,
+          'one',
+          ['CREATE TABLE one (id text)'],
+          ['DROP TABLE one']
+        ),
+        sqlMigration(
+          2,
+          'two',
+          ['CREATE TABLE two (id text)'],
+          ['DROP TABLE two']
+        ),
+        sqlMigration(3, 'broken', ['CREATE TABLE nope ('], []),
+      ],
+    });
+    // A failing migration takes its whole batch with it.
+    await expect(extra.migrate.latest()).rejects.toMatchObject({
+      code: 'MIGRATION_FAILED',
+    });
+    expect((await extra.migrate.status()).map(m => m.batch)).toEqual([
+      null,
+      null,
+      null,
+    ]);
+    await extra.destroy();
+
+    const status = await database.migrate.status();
+    expect(status.map(m => m.name)).toEqual([
+      'users_and_accounts',
+      'orders_and_fills',
+      'positions',
+      'bars',
+      'backtest_results',
+      'backtest_owners',
+      'sessions_and_api_tokens',
+    ]);
+    expect(status.every(m => m.batch === 1 && m.appliedAt === 1_000)).toBe(
+      true
+    );
+
+    expect(await database.migrate.rollback()).toEqual({
+      batch: 1,
+      migrations: [
+        'sessions_and_api_tokens',
+        'backtest_owners',
+        'backtest_results',
+        'bars',
+        'positions',
+        'orders_and_fills',
+        'users_and_accounts',
+      ],
+    });
+    await expect(database.raw('SELECT * FROM users')).rejects.toBeInstanceOf(
+      DatabaseError
+    );
+  });
+
+  it('migrates before its first query when asked to', async () => {
+    const fresh = new Database(new SqliteDriver(), { migrateFirst: true });
+    const [first, second] = await Promise.all([
+      fresh.users.get('nobody'),
+      fresh.orders.list(),
+    ]);
+    expect(first).toBeNull();
+    expect(second).toEqual([]);
+    expect((await fresh.migrate.status()).every(m => m.batch === 1)).toBe(true);
+    await fresh.destroy();
+  });
+
+  it('runs raw queries and reports failures as database errors', async () => {
+    const result = await database.raw('SELECT 1 as test, ? as name', ['x']);
+    expect(result.rows).toEqual([{ test: 1, name: 'x' }]);
+    await expect(
+      database.raw('SELECT * FROM non_existent_table')
+    ).rejects.toMatchObject({ code: 'QUERY_FAILED' });
+  });
+
+  it('seeds data the repositories read back', async () => {
+    expect(await database.seed.run()).toHaveLength(3);
+    // Seeds can run again without clashing.
+    await database.seed.run();
+
+    expect(await database.users.findByEmail('test@example.com')).toMatchObject({
+      id: SEED_USER_ID,
+      scopes: ['read', 'trade'],
+    });
+    expect(await database.accounts.listByUser(SEED_USER_ID)).toEqual([
+      expect.objectContaining({ id: DEFAULT_ACCOUNT_ID, cash: 100_000 }),
+    ]);
+    const [order] = await database.orders.list({ status: 'filled' });
+    expect(order).toMatchObject({ id: 'seed-order-1', filledQuantity: 10 });
+    expect(order.fills).toHaveLength(1);
+    expect(order.history.map(t => t.to)).toEqual([
+      'new',
+      'pending',
+      'accepted',
+      'filled',
+    ]);
+    expect(order).not.toHaveProperty('limitPrice');
+    expect(await database.orders.list({ status: 'open' })).toEqual([]);
+    expect(await database.positions.list(DEFAULT_ACCOUNT_ID)).toEqual([
+      expect.objectContaining({ symbol: 'AAPL', quantity: 10 }),
+    ]);
+
+    const bars = await database.bars.range('AAPL', '1d', { limit: 2 });
+    expect(bars.map(bar => bar.close)).toEqual([181.18, 185.56]);
+    expect(bars[0]).not.toHaveProperty('vwap');
+  });
+
+  it('updates orders in place and keeps fills once', async () => {
+    await database.seed.run();
+    const order = (await database.orders.get('seed-order-1')) as ManagedOrder;
+    await database.orders.save({ ...order, status: 'filled', updatedAt: 5 });
+    expect(await database.orders.get('seed-order-1')).toMatchObject({
+      updatedAt: 5,
+      fills: [expect.objectContaining({ id: 'seed-fill-1' })],
+    });
+    expect(
+      await database.orders.findByClientOrderId(DEFAULT_ACCOUNT_ID, 'seed-1')
+    ).toMatchObject({ id: 'seed-order-1' });
+  });
+
+  it('rolls a transaction back when its work throws', async () => {
+    await database.seed.run();
+    await expect(
+      database.transaction(async tx => {
+        await tx.positions.delete(DEFAULT_ACCOUNT_ID, 'AAPL');
+        expect(await tx.positions.list(DEFAULT_ACCOUNT_ID)).toEqual([]);
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+    expect(await database.positions.list(DEFAULT_ACCOUNT_ID)).toHaveLength(1);
+  });
+
+  it('stores backtest results as a backtest store', async () => {
+    const result = {
+      strategy: 'sma-crossover',
+      config: { symbols: ['AAPL'] },
+      summary: { totalReturn: 0.1 },
+    };
+    await database.backtestResults.save({
+      id: 'run-1',
+      userId: 'u1',
+      createdAt: '2024-01-02T00:00:00.000Z',
+      params: { fast: 5 },
+      result: result as never,
+    });
+    expect(await database.backtestResults.list('u2')).toEqual([]);
+    expect(await database.backtestResults.list('u1')).toEqual([
+      {
+        id: 'run-1',
+        createdAt: '2024-01-02T00:00:00.000Z',
+        strategy: 'sma-crossover',
+        params: { fast: 5 },
+        symbols: ['AAPL'],
+        summary: { totalReturn: 0.1 },
+      },
+    ]);
+    expect(await database.backtestResults.get('run-1')).toMatchObject({
+      userId: 'u1',
+      result,
+    });
+    expect(await database.backtestResults.get('missing')).toBeNull();
+  });
+});
+
+describe('OrderJournal', () => {
+  const T0 = Date.parse('2024-12-31T15:00:00Z');
+  const owner: User = {
+    id: 'u-1',
+    email: 'owner@example.com',
+    provider: 'local',
+    scopes: ['read', 'trade'],
+    createdAt: 0,
+  };
+  let database: Database;
+
+  beforeEach(async () => {
+    database = new Database(new SqliteDriver());
+    await database.migrate.latest();
+  });
+
+  afterEach(() => database.destroy());
+
+  it('saves orders, fills, positions and cash as they change', async () => {
+    const broker = new PaperBroker({ clock: () => T0 });
+    const oms = new OrderManager(broker, { clock: () => T0 });
+    const ledger = new PortfolioLedger({ initialCash: 10_000 });
+    followOrders(ledger, oms, 'u-1');
+    const journal = new OrderJournal(database, {
+      owner: async accountId => (accountId === 'u-1' ? owner : null),
+      portfolio: () => ledger,
+      clock: () => T0,
+    });
+    journal.follow(oms);
+
+    broker.process({
+      kind: 'quote',
+      quote: {
+        symbol: 'AAPL',
+        timestamp: T0,
+        bid: 99,
+        ask: 100,
+        bidSize: 100,
+        askSize: 100,
+        last: 99.5,
+      },
+    });
+    const { order } = await oms.create({
+      accountId: 'u-1',
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+    });
+    await journal.idle();
+
+    expect(await database.users.get('u-1')).toMatchObject({
+      email: 'owner@example.com',
+    });
+    expect(await database.orders.get(order.id)).toMatchObject({
+      accountId: 'u-1',
+      status: 'filled',
+      fills: [expect.objectContaining({ quantity: 10, price: 100 })],
+    });
+    expect(await database.positions.list('u-1')).toEqual([
+      expect.objectContaining({
+        symbol: 'AAPL',
+        quantity: 10,
+        averageCost: 100,
+      }),
+    ]);
+    expect(await database.accounts.get('u-1')).toMatchObject({
+      userId: 'u-1',
+      cash: 9_000,
+    });
+
+    // Nobody owns this account, so nothing of it is saved.
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const orphan = await oms.create({
+      accountId: 'nobody',
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+    });
+    await journal.idle();
+    expect(await database.orders.get(orphan.order.id)).toBeNull();
+    expect(errors).toHaveBeenCalled();
+    errors.mockRestore();
+  });
+
+  it('records new orders all together or not at all', async () => {
+    const journal = new OrderJournal(database, {
+      owner: async accountId => (accountId === 'u-1' ? owner : null),
+      portfolio: () => new PortfolioLedger(),
+    });
+    const order = (id: string, accountId = 'u-1'): ManagedOrder => ({
+      id,
+      accountId,
+      symbol: 'AAPL',
+      side: 'buy',
+      type: 'market',
+      quantity: 1,
+      timeInForce: 'day',
+      status: 'new',
+      filledQuantity: 0,
+      averageFillPrice: null,
+      createdAt: T0,
+      updatedAt: T0,
+      fills: [],
+      history: [{ from: null, to: 'new', at: T0 }],
+    });
+
+    await journal.record([order('o-1'), order('o-2')]);
+    expect(await database.orders.list({ accountId: 'u-1' })).toHaveLength(2);
+
+    await expect(
+      journal.record([order('o-3'), order('o-4', 'nobody')])
+    ).rejects.toThrow('Account nobody has no known owner');
+    expect(await database.orders.get('o-3')).toBeNull();
+  });
+});
+
+describe('SqliteDriver', () => {
+  it('keeps the database in a file across connections', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'stocai-db-'));
+    const file = path.join(dir, 'test.sqlite');
+    try {
+      const first = new Database(new SqliteDriver({ file }));
+      await first.migrate.latest();
+      await first.seed.run();
+      await first.destroy();
+      await expect(first.raw('SELECT 1')).rejects.toMatchObject({
+        code: 'CLOSED',
+      });
+
+      const second = new Database(new SqliteDriver({ file }));
+      expect(await second.users.get(SEED_USER_ID)).not.toBeNull();
+      await second.destroy();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('db', () => {
+  it('opens a fresh database after being destroyed', async () => {
+    await db.migrate.latest();
+    await db.seed.run();
+    expect((await db.raw('SELECT 1 as test')).rows[0].test).toBe(1);
+    await db.migrate.rollback();
+    await db.destroy();
+    expect(await db.migrate.status()).toEqual(
+      expect.arrayContaining([expect.objectContaining({ batch: null })])
+    );
+    await db.destroy();
+  });
+});
+
+describe('getBacktestStore', () => {
+  afterEach(() => {
+    delete process.env.BACKTEST_STORE;
+    setBacktestStore(undefined);
+  });
+
+  it('keeps backtests in the database with BACKTEST_STORE=database', () => {
+    process.env.BACKTEST_STORE = 'database';
+    setBacktestStore(undefined);
+    expect(getBacktestStore()).toBe(getDatabase().backtestResults);
+  });
+});
+
+describe('numberedPlaceholders', () => {
+  it('numbers placeholders outside quoted text', () => {
+    expect(
+      numberedPlaceholders("SELECT * FROM t WHERE a = ? AND b = '?' AND c = ?")
+    ).toBe("SELECT * FROM t WHERE a = $1 AND b = '?' AND c = $2");
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, expect, it } from 'vitest';
+import { seededRandom } from '@/lib/backtest';
+import {
+  AutoRegressive,
+  FEATURE_NAMES,
+  GradientBoostedTrees,
+  RidgeRegression,
+  WARMUP_BARS,
+  buildSamples,
+  leastSquares,
+  normalCdf,
+  parseForecastRequest,
+  runForecast,
+} from '@/lib/forecasting';
+import type { Bar } from '@/lib/marketdata';
+
+const DAY = 86_400_000;
+const T0 = Date.parse('2024-01-02T14:30:00Z');
+
+/** Daily bars whose log returns are `returns`, starting at 100. */
+function barsFrom(returns: number[]): Bar[] {
+  let close = 100;
+  return returns.map((change, i) => {
+    close *= Math.exp(change);
+    return {
+      symbol: 'TEST',
+      timestamp: T0 + i * DAY,
+      open: close,
+      high: close * 1.01,
+      low: close * 0.99,
+      close,
+      volume: 1_000 + (i % 7) * 100,
+    };
+  });
+}
+
+/** Returns that reverse most of the previous one: AR(1) with φ = -0.7. */
+function meanReverting(count: number, seed = 7): number[] {
+  const random = seededRandom(seed);
+  const returns = [0];
+  for (let i = 1; i < count; i++) {
+    returns.push(-0.7 * returns[i - 1] + (random() - 0.5) * 0.02);
+  }
+  return returns;
+}
+
+describe('linear algebra', () => {
+  it('solves least squares and the normal distribution', () => {
+    const rows = [
+      [1, 0],
+      [0, 1],
+      [1, 1],
+      [2, 1],
+    ];
+    const weights = leastSquares(
+      rows,
+      rows.map(([a, b]) => 3 * a - 2 * b)
+    );
+    expect(weights[0]).toBeCloseTo(3, 10);
+    expect(weights[1]).toBeCloseTo(-2, 10);
+    // A duplicated column gets no pivot rather than an error.
+    expect(
+      leastSquares(
+        [
+          [1, 1],
+          [2, 2],
+        ],
+        [1, 2]
+      )
+    ).toEqual([1, 0]);
+
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 4);
+  });
+});
+
+describe('RidgeRegression', () => {
+  const rows = Array.from({ length: 20 }, (_, i) => [i, (i * 7) % 5]);
+  const targets = rows.map(([a, b]) => 1 + 2 * a - 3 * b);
+
+  it('is ordinary least squares without a penalty', () => {
+    const model = new RidgeRegression(0);
+    model.fit(rows, targets);
+    expect(model.predict([30, 2])).toBeCloseTo(55, 6);
+  });
+
+  it('shrinks towards the mean as the penalty grows', () => {
+    const weak = new RidgeRegression(1);
+    const strong = new RidgeRegression(1e6);
+    weak.fit(rows, targets);
+    strong.fit(rows, targets);
+    const mean = targets.reduce((sum, y) => sum + y, 0) / targets.length;
+    expect(Math.abs(strong.predict([30, 2]) - mean)).toBeLessThan(0.1);
+    expect(Math.abs(weak.coefficients[0])).toBeGreaterThan(
+      Math.abs(strong.coefficients[0]) * 100
+    );
+  });
+});
+
+describe('AutoRegressive', () => {
+  it('integrates differenced forecasts back into prices', () => {
+    // A constant drift: every first difference is 0.01.
+    const trend = Array.from({ length: 40 }, (_, i) => 4 + 0.01 * i);
+    const drift = new AutoRegressive(2, 1);
+    drift.fit(trend);
+    expect(drift.forecast(trend, 3)).toBeCloseTo(0.03, 8);
+
+    // Accelerating: every second difference is 0.001.
+    const curve = Array.from({ length: 40 }, (_, i) => 0.0005 * i * i);
+    const acceleration = new AutoRegressive(1, 2);
+    acceleration.fit(curve);
+    const last = curve[curve.length - 1];
+    expect(acceleration.forecast(curve, 2)).toBeCloseTo(
+      0.0005 * 41 * 41 - last,
+      8
+    );
+  });
+
+  it('recovers the coefficient of an AR(1) process', () => {
+    const returns = meanReverting(400);
+    const logPrices = returns.map((_, i) =>
+      returns.slice(0, i + 1).reduce((sum, r) => sum + r, 0)
+    );
+    const model = new AutoRegressive(1, 1);
+    model.fit(logPrices);
+    // After a shock large enough to swamp the intercept, the forecast
+    // reverses the shock by the fitted coefficient.
+    const shocked = [...logPrices, logPrices[logPrices.length - 1] + 0.1];
+    const coefficient = model.forecast(shocked, 1) / 0.1;
+    expect(Math.abs(coefficient + 0.7)).toBeLessThan(0.1);
+    expect(() => new AutoRegressive(5).fit(logPrices.slice(0, 8))).toThrow(
+      /needs more than 11 prices/
+    );
+  });
+});
+
+describe('GradientBoostedTrees', () => {
+  it('fits a step that a line cannot', () => {
+    const random = seededRandom(3);
+    const rows = Array.from({ length: 200 }, () => [random(), random()]);
+    const targets = rows.map(([x]) => (x > 0.5 ? 1 : -1));
+    const model = new GradientBoostedTrees({ trees: 50, learningRate: 0.3 });
+    model.fit(rows, targets);
+    expect(model.predict([0.9, 0.5])).toBeCloseTo(1, 1);
+    expect(model.predict([0.1, 0.5])).toBeCloseTo(-1, 1);
+  });
+});
+
+describe('buildSamples', () => {
+  it('starts once every feature has warmed up and labels the future', () => {
+    const bars = barsFrom(meanReverting(80));
+    const samples = buildSamples(bars, 3);
+    expect(samples[0].index).toBe(WARMUP_BARS - 1);
+    expect(samples).toHaveLength(80 - WARMUP_BARS + 1);
+    expect(samples[0].features).toHaveLength(FEATURE_NAMES.length);
+    samples.forEach(sample =>
+      sample.features.forEach(value =>
+        expect(Number.isFinite(value)).toBe(true)
+      )
+    );
+    expect(samples.slice(-3).map(sample => sample.target)).toEqual([
+      null,
+      null,
+      null,
+    ]);
+    const fourth = samples[samples.length - 4];
+    expect(fourth.target).toBeCloseTo(
+      Math.log(bars[79].close / bars[76].close),
+      12
+    );
+  });
+});
+
+describe('runForecast', () => {
+  const bars = barsFrom(meanReverting(320));
+
+  it('beats the baseline out of sample on a predictable series', () => {
+    (['ridge', 'autoregressive', 'boosted-trees'] as const).forEach(type => {
+      const result = runForecast(bars, { model: { type } });
+      const { evaluation } = result;
+      expect(evaluation.directionalAccuracy, type).toBeGreaterThan(0.7);
+      expect(evaluation.directionalAccuracy, type).toBeGreaterThan(
+        evaluation.baselineAccuracy
+      );
+      expect(evaluation.signalAccuracy, type).toBeGreaterThan(0.7);
+      // The last return was up, so the model expects a pullback.
+      const lastReturn = Math.log(bars[319].close / bars[318].close);
+      expect(Math.sign(result.signal.expectedReturn), type).toBe(
+        -Math.sign(lastReturn)
+      );
+      expect(result.signal.confidence).toBeGreaterThanOrEqual(0.5);
+    });
+  });
+
+  it('keeps test prices out of training', () => {
+    const result = runForecast(bars, {
+      model: { type: 'linear' },
+      horizon: 5,
+      testFraction: 0.2,
+    });
+    expect(result.model).toEqual({ type: 'linear' });
+    expect(result.evaluation.samples).toBe(53);
+    expect(result.training.samples).toBe(266 - 53 - 4);
+    expect(result.training.end + 5 * DAY).toBeLessThanOrEqual(
+      result.evaluation.start
+    );
+    expect(result.signal.timestamp).toBe(bars[319].timestamp);
+  });
+
+  it('refuses to forecast from too little history', () => {
+    expect(() =>
+      runForecast(bars.slice(0, 80), { model: { type: 'ridge' } })
+    ).toThrow(/at least 30 and 10 are needed/);
+  });
+});
+
+describe('parseForecastRequest', () => {
+  it('fills in defaults and reports every problem', () => {
+    expect(parseForecastRequest({ symbol: 'aapl' })).toEqual({
+      problems: [],
+      request: {
+        symbol: 'AAPL',
+        timeframe: '1d',
+        lookback: 500,
+        options: {
+          model: { type: 'ridge', lambda: 1 },
+          horizon: 1,
+          testFraction: 0.25,
+          threshold: 0.55,
+        },
+      },
+    });
+    expect(
+      parseForecastRequest({
+        horizon: 0,
+        model: { type: 'boosted-trees', depth: 9 },
+      }).problems
+    ).toEqual([
+      'symbol is required',
+      'horizon must be an integer between 1 and 20',
+      'model.depth must be an integer between 1 and 5',
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ATR,
+  BollingerBands,
+  EMA,
+  INDICATOR_TYPES,
+  IndicatorError,
+  MACD,
+  OBV,
+  RSI,
+  SMA,
+  Stochastic,
+  VWAP,
+  WMA,
+  calculate,
+  createIndicator,
+  runBatch,
+  type Candle,
+  type IndicatorSpec,
+} from '@/lib/indicators';
+
+// Closing prices from Wilder's RSI worked example (as used by StockCharts).
+const CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89,
+  46.03, 45.61, 46.28, 46.28, 46.0, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25,
+  45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.55, 43.42, 42.66, 43.13,
+];
+
+// [open, high, low, close, volume]
+const OHLCV: number[][] = [
+  [50.0, 50.44, 48.94, 49.24, 34730],
+  [49.24, 49.7, 48.73, 49.21, 47220],
+  [49.21, 50.52, 49.02, 50.31, 39370],
+  [50.31, 50.98, 49.89, 50.27, 36170],
+  [50.27, 51.63, 50.15, 51.44, 47920],
+  [51.44, 52.15, 50.9, 51.56, 12620],
+  [51.56, 52.33, 50.52, 50.55, 41950],
+  [50.55, 51.24, 48.77, 49.15, 39440],
+  [49.15, 50.81, 48.52, 50.5, 27480],
+  [50.5, 51.14, 49.86, 50.22, 48320],
+  [50.22, 50.51, 49.11, 49.14, 30270],
+  [49.14, 49.91, 47.96, 48.31, 35660],
+  [48.31, 49.8, 47.64, 49.46, 33510],
+  [49.46, 49.93, 48.58, 49.05, 47030],
+  [49.05, 49.78, 48.57, 48.59, 21450],
+  [48.59, 50.7, 48.46, 50.16, 45250],
+  [50.16, 50.59, 49.21, 49.67, 14260],
+  [49.67, 50.55, 49.0, 50.38, 33490],
+  [50.38, 50.48, 49.32, 49.71, 36160],
+  [49.71, 51.35, 49.07, 51.28, 26810],
+  [51.28, 52.58, 50.94, 52.56, 27000],
+  [52.56, 53.81, 52.07, 53.77, 11840],
+  [53.77, 54.24, 53.0, 53.44, 47760],
+  [53.44, 55.38, 52.64, 54.98, 22680],
+  [54.98, 55.07, 53.07, 53.5, 48860],
+  [53.5, 53.83, 52.12, 52.61, 16390],
+  [52.61, 54.03, 52.34, 53.25, 24750],
+  [53.25, 55.44, 52.95, 54.72, 28850],
+  [54.72, 56.23, 54.03, 55.92, 37890],
+  [55.92, 56.65, 55.17, 56.15, 30760],
+  [56.15, 56.66, 54.92, 55.49, 48350],
+  [55.49, 56.27, 54.5, 54.92, 32460],
+  [54.92, 55.55, 53.68, 54.47, 22890],
+  [54.47, 54.96, 52.52, 53.03, 12460],
+  [53.03, 53.76, 52.75, 53.49, 47570],
+  [53.49, 54.06, 52.49, 53.08, 10900],
+  [53.08, 54.17, 53.06, 53.41, 25120],
+  [53.41, 53.78, 52.22, 52.69, 23100],
+  [52.69, 52.84, 51.13, 51.74, 44560],
+  [51.74, 52.33, 51.44, 52.09, 41630],
+];
+
+const CANDLES: Candle[] = OHLCV.map(([open, high, low, close, volume]) => ({
+  open,
+  high,
+  low,
+  close,
+  volume,
+}));
+
+describe('moving averages', () => {
+  it('computes SMA', () => {
+    const values = runBatch(new SMA(5), CLOSES);
+    expect(values.slice(0, 4)).toEqual([null, null, null, null]);
+    expect(values[4]).toBeCloseTo(44.104, 10);
+    expect(values[7]).toBeCloseTo(44.658, 10);
+  });
+
+  it('seeds EMA with the SMA of the first period', () => {
+    const values = runBatch(new EMA(10), CLOSES);
+    expect(values[8]).toBeNull();
+    expect(values[9]).toBeCloseTo(44.779, 10);
+    expect(values[11]).toBeCloseTo(45.171727, 6);
+  });
+
+  it('computes WMA with linear weights', () => {
+    const values = runBatch(new WMA(5), CLOSES);
+    expect(values[4]).toBeCloseTo(44.070667, 6);
+    expect(values[6]).toBeCloseTo(44.612, 10);
+  });
+});
+
+describe('oscillators', () => {
+  it('matches the reference RSI(14) values', () => {
+    const values = runBatch(new RSI(14), CLOSES);
+    expect(values[13]).toBeNull();
+    const expected = [
+      70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34,
+      54.67, 50.39, 40.02, 41.49, 41.9, 45.31, 37.26, 33.01, 37.74,
+    ];
+    expected.forEach((value, i) => {
+      expect(values[14 + i]).toBeCloseTo(value, 2);
+    });
+  });
+
+  it('computes MACD once the signal line is seeded', () => {
+    const values = runBatch(new MACD(), CANDLES);
+    expect(values[32]).toBeNull();
+    expect(values[33]).not.toBeNull();
+    const last = values[values.length - 1]!;
+    expect(last.macd).toBeCloseTo(0.498923, 6);
+    expect(last.signal).toBeCloseTo(1.010638, 6);
+    expect(last.histogram).toBeCloseTo(last.macd - last.signal, 12);
+  });
+
+  it('computes the slow stochastic', () => {
+    const values = runBatch(new Stochastic(14, 3, 3), CANDLES);
+    expect(values[16]).toBeNull();
+    expect(values[17]).not.toBeNull();
+    const last = values[values.length - 1]!;
+    expect(last.k).toBeCloseTo(13.648554, 6);
+    expect(last.d).toBeCloseTo(17.228901, 6);
+  });
+});
+
+describe('volatility', () => {
+  it('computes Bollinger Bands with population deviation', () => {
+    const values = runBatch(new BollingerBands(20, 2), CLOSES);
+    expect(values[18]).toBeNull();
+    expect(values[19]!.upper).toBeCloseTo(47.115328, 6);
+    expect(values[19]!.middle).toBeCloseTo(45.409, 10);
+    expect(values[19]!.lower).toBeCloseTo(43.702672, 6);
+    expect(values[32]!.upper).toBeCloseTo(47.620294, 6);
+  });
+
+  it('computes ATR with Wilder smoothing', () => {
+    const values = runBatch(new ATR(14), CANDLES);
+    expect(values[12]).toBeNull();
+    expect(values[13]).toBeCloseTo(1.607143, 6);
+    expect(values[values.length - 1]).toBeCloseTo(1.638994, 6);
+  });
+});
+
+describe('volume', () => {
+  it('accumulates on-balance volume from zero', () => {
+    const values = runBatch(new OBV(), CANDLES);
+    expect(values[0]).toBe(0);
+    expect(values[1]).toBe(-47220);
+    expect(values[values.length - 1]).toBe(-141120);
+  });
+
+  it('computes a running VWAP without a session', () => {
+    const values = runBatch(new VWAP(null), CANDLES);
+    expect(values[values.length - 1]).toBeCloseTo(51.706894, 6);
+  });
+
+  it('restarts VWAP at each session open', () => {
+    const vwap = new VWAP();
+    const day1 = Date.parse('2024-12-30T14:30:00Z');
+    const day2 = Date.parse('2024-12-31T14:30:00Z');
+    vwap.update({ timestamp: day1, high: 10, low: 10, close: 10, volume: 100 });
+    vwap.update({
+      timestamp: day1 + 60_000,
+      high: 20,
+      low: 20,
+      close: 20,
+      volume: 100,
+    });
+    expect(vwap.value).toBe(15);
+    vwap.update({ timestamp: day2, high: 30, low: 30, close: 30, volume: 50 });
+    expect(vwap.value).toBe(30);
+  });
+});
+
+describe('common interface', () => {
+  const specs: IndicatorSpec[] = [
+    { type: 'sma', period: 10 },
+    { type: 'ema', period: 10, source: 'hlc3' },
+    { type: 'wma', period: 10 },
+    { type: 'rsi' },
+    { type: 'macd', fast: 5, slow: 10, signal: 3 },
+    { type: 'bbands' },
+    { type: 'atr' },
+    { type: 'stoch' },
+    { type: 'obv' },
+    { type: 'vwap', anchor: 'none' },
+  ];
+
+  it('covers every indicator type', () => {
+    expect(specs.map(spec => spec.type).sort()).toEqual(
+      [...INDICATOR_TYPES].sort()
+    );
+  });
+
+  it('gives identical results in streaming and batch mode', () => {
+    for (const spec of specs) {
+      const streaming = createIndicator(spec);
+      const live = CANDLES.map(candle => streaming.update(candle));
+      expect(calculate(spec, CANDLES)).toEqual(live);
+      expect(streaming.value).toEqual(live[live.length - 1]);
+      expect(streaming.isReady).toBe(true);
+    }
+  });
+
+  it('starts over after reset', () => {
+    const rsi = new RSI();
+    const first = runBatch(rsi, CLOSES);
+    rsi.reset();
+    expect(rsi.isReady).toBe(false);
+    expect(runBatch(rsi, CLOSES)).toEqual(first);
+  });
+
+  it('validates parameters', () => {
+    expect(() => new SMA(0)).toThrow(IndicatorError);
+    expect(() =>
+      createIndicator({ type: 'nope' } as unknown as IndicatorSpec)
+    ).toThrow(IndicatorError);
+  });
+});
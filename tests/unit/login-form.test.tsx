@@ -0,0 +1,73 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LoginForm, safeNext } from '@/components/auth';
+import { navigate } from '@/components/auth/session';
+
+vi.mock('@/components/auth/session', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/components/auth/session')>()),
+  navigate: vi.fn(),
+}));
+
+function fill(email: string, password: string) {
+  fireEvent.change(screen.getByTestId('email-input'), {
+    target: { value: email },
+  });
+  fireEvent.change(screen.getByTestId('password-input'), {
+    target: { value: password },
+  });
+  fireEvent.click(screen.getByTestId('login-button'));
+}
+
+describe('LoginForm', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(navigate).mockClear();
+  });
+
+  it('validates fields before calling the API', () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    render(<LoginForm next="/dashboard" />);
+    fill('not-an-email', '');
+
+    expect(screen.getByTestId('email-error')).toHaveTextContent(
+      'Enter a valid email'
+    );
+    expect(screen.getByTestId('password-error')).toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('logs in and goes on, or says why not', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('{}', { status: 401 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    render(<LoginForm next="/dashboard#orders" />);
+
+    fill('test@example.com', 'wrong');
+    expect(await screen.findByTestId('login-error')).toHaveTextContent(
+      'Invalid email or password'
+    );
+    fill('test@example.com', 'testpassword');
+    await waitFor(() =>
+      expect(navigate).toHaveBeenCalledWith('/dashboard#orders')
+    );
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      email: 'test@example.com',
+      password: 'testpassword',
+    });
+  });
+
+  it('only returns to paths on this site', () => {
+    expect(safeNext('/dashboard?x=1')).toBe('/dashboard?x=1');
+    expect(safeNext('//evil.example')).toBe('/dashboard');
+    expect(safeNext('https://evil.example')).toBe('/dashboard');
+    expect(safeNext(undefined)).toBe('/dashboard');
+    // Browsers resolve all of these to another host.
+    expect(safeNext('/\\evil.example')).toBe('/dashboard');
+    expect(safeNext('/\t/evil.example')).toBe('/dashboard');
+    expect(safeNext('/\n/evil.example')).toBe('/dashboard');
+    expect(safeNext('/portfolio#lots')).toBe('/portfolio#lots');
+  });
+});
@@ -0,0 +1,152 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  FileMarketDataProvider,
+  MarketDataError,
+  createMarketDataProvider,
+  getMarketDataProvider,
+  marketDataConfigFromEnv,
+  registerMarketDataProvider,
+  setMarketDataProvider,
+  type MarketDataProvider,
+} from '@/lib/marketdata';
+
+const FIXTURES = path.resolve('data/marketdata');
+
+describe('FileMarketDataProvider', () => {
+  const provider = new FileMarketDataProvider(FIXTURES);
+
+  it('lists and looks up symbols', async () => {
+    const symbols = await provider.listSymbols();
+    expect(symbols.map(info => info.symbol)).toContain('AAPL');
+
+    const aapl = await provider.getSymbol('aapl');
+    expect(aapl).toMatchObject({ symbol: 'AAPL', sector: 'Technology' });
+    expect(await provider.getSymbol('../etc/passwd')).toBeNull();
+  });
+
+  it('ranks exact symbol matches before name matches', async () => {
+    const results = await provider.searchSymbols('corp');
+    expect(results.map(info => info.symbol)).toEqual(['MSFT', 'NVDA', 'XOM']);
+    expect((await provider.searchSymbols('msft'))[0].symbol).toBe('MSFT');
+  });
+
+  it('returns bars sorted and sliced by time range', async () => {
+    const start = Date.parse('2024-12-02T00:00:00Z');
+    const end = Date.parse('2024-12-07T00:00:00Z');
+    const bars = await provider.getBars('AAPL', {
+      timeframe: '1d',
+      start,
+      end,
+    });
+
+    expect(bars).toHaveLength(5);
+    expect(bars[0].timestamp).toBeGreaterThanOrEqual(start);
+    expect(bars[4].timestamp).toBeLessThan(end);
+    for (let i = 1; i < bars.length; i++) {
+      expect(bars[i].timestamp).toBeGreaterThan(bars[i - 1].timestamp);
+    }
+  });
+
+  it('keeps the most recent records when a limit is given', async () => {
+    const all = await provider.getBars('AAPL', { timeframe: '1m' });
+    const last = await provider.getBars('AAPL', { timeframe: '1m', limit: 3 });
+    expect(last).toEqual(all.slice(-3));
+  });
+
+  it('returns no data for unknown timeframes and symbols', async () => {
+    expect(await provider.getBars('AAPL', { timeframe: '15m' })).toEqual([]);
+    expect(await provider.getTrades('ZZZZ')).toEqual([]);
+    expect(await provider.getQuote('ZZZZ')).toBeNull();
+  });
+
+  it('reads trades and quotes', async () => {
+    const trades = await provider.getTrades('AAPL', { limit: 10 });
+    expect(trades).toHaveLength(10);
+    expect(trades[0]).toMatchObject({
+      symbol: 'AAPL',
+      price: expect.any(Number),
+      size: expect.any(Number),
+    });
+
+    const quote = await provider.getQuote('AAPL');
+    expect(quote).not.toBeNull();
+    expect(quote!.bid).toBeLessThanOrEqual(quote!.ask);
+  });
+
+  describe('with custom fixtures', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(os.tmpdir(), 'stocai-md-'));
+      await mkdir(path.join(dir, 'bars', '1d'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('falls back to the last bar when no quote is recorded', async () => {
+      await writeFile(
+        path.join(dir, 'bars', '1d', 'TEST.jsonl'),
+        '{"time":"2024-01-02T14:30:00Z","open":1,"high":2,"low":1,"close":1.5,"volume":10}\n'
+      );
+      const quote = await new FileMarketDataProvider(dir).getQuote('TEST');
+      expect(quote).toMatchObject({ bid: 1.5, ask: 1.5, last: 1.5 });
+    });
+
+    it('reports malformed lines with their location', async () => {
+      await writeFile(
+        path.join(dir, 'bars', '1d', 'BAD.jsonl'),
+        '{"time":"2024-01-02T14:30:00Z"}\nnot json\n'
+      );
+      const pending = new FileMarketDataProvider(dir).getBars('BAD', {
+        timeframe: '1d',
+      });
+      await expect(pending).rejects.toBeInstanceOf(MarketDataError);
+      await expect(pending).rejects.toThrow('BAD.jsonl:2');
+    });
+  });
+});
+
+describe('provider registry', () => {
+  afterEach(() => {
+    setMarketDataProvider(undefined);
+  });
+
+  it('reads its configuration from the environment', () => {
+    const config = marketDataConfigFromEnv({
+      NODE_ENV: 'test',
+      MARKET_DATA_PROVIDER: 'file',
+      MARKET_DATA_DIR: 'fixtures',
+    });
+    expect(config).toEqual({
+      provider: 'file',
+      dataDir: path.resolve('fixtures'),
+    });
+  });
+
+  it('creates registered providers by name', () => {
+    const stub = { name: 'stub' } as MarketDataProvider;
+    registerMarketDataProvider('stub', () => stub);
+    expect(
+      createMarketDataProvider({ provider: 'stub', dataDir: FIXTURES })
+    ).toBe(stub);
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() =>
+      createMarketDataProvider({ provider: 'nope', dataDir: FIXTURES })
+    ).toThrow(MarketDataError);
+  });
+
+  it('lets callers swap the shared provider', () => {
+    const stub = { name: 'stub' } as MarketDataProvider;
+    setMarketDataProvider(stub);
+    expect(getMarketDataProvider()).toBe(stub);
+    setMarketDataProvider(undefined);
+    expect(getMarketDataProvider().name).toBe('file');
+  });
+});
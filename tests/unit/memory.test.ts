@@ -0,0 +1,231 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  FileMemoryStore,
+  InMemoryMemoryStore,
+  MemoryBank,
+  bm25Scores,
+  parseMemory,
+  parseMemoryChanges,
+  tokenize,
+  type MemoryInput,
+} from '@/lib/memory';
+
+const DAY = 86_400_000;
+const T0 = Date.parse('2025-01-06T00:00:00Z');
+
+function note(text: string, extra: Partial<MemoryInput> = {}): MemoryInput {
+  return {
+    kind: 'note',
+    text,
+    tags: [],
+    symbols: [],
+    orderIds: [],
+    backtestIds: [],
+    ...extra,
+  };
+}
+
+describe('bm25', () => {
+  it('tokenizes words, dropping stopwords and inflections', () => {
+    expect(
+      tokenize('Opened the AAPL position on earnings; rising 3.5%')
+    ).toEqual(['open', 'aapl', 'position', 'earn', 'ris', '3', '5']);
+    expect(tokenize('earning earned earnings')).toEqual([
+      'earn',
+      'earn',
+      'earn',
+    ]);
+  });
+
+  it('ranks rarer and denser matches higher', () => {
+    const scores = bm25Scores('margin expansion', [
+      'Margin expansion from services, margin guidance raised',
+      'Services margin steady',
+      'Bought on the dip after the selloff',
+      'Margin expansion story intact but the chart, the flows, the macro and sentiment all look tired now',
+    ]);
+    expect(scores[2]).toBe(0);
+    expect(scores[0]).toBeGreaterThan(scores[3]);
+    expect(scores[3]).toBeGreaterThan(scores[1]);
+    expect(bm25Scores('the and', ['the and'])).toEqual([0]);
+  });
+});
+
+describe('MemoryBank', () => {
+  async function seeded() {
+    let now = T0;
+    const bank = new MemoryBank(new InMemoryMemoryStore(), {
+      clock: () => now,
+    });
+    const add = async (
+      input: MemoryInput,
+      source: 'user' | 'agent' = 'user'
+    ) => {
+      const memory = await bank.add('u-1', input, source);
+      now += DAY;
+      return memory;
+    };
+    const thesis = await add(
+      note('Services margin expansion should carry earnings through 2025', {
+        kind: 'thesis',
+        symbols: ['AAPL'],
+        tags: ['long-term'],
+      })
+    );
+    const rationale = await add(
+      note('Opened on the pullback to the 50-day average ahead of earnings', {
+        kind: 'rationale',
+        symbols: ['AAPL'],
+        orderIds: ['o-1'],
+        tags: ['swing', 'earnings'],
+      }),
+      'agent'
+    );
+    const energy = await add(
+      note('Refining margins are rolling over', {
+        symbols: ['XOM'],
+        backtestIds: ['bt-1'],
+      })
+    );
+    await bank.add('u-2', note('Earnings earnings earnings'), 'user');
+    return { bank, thesis, rationale, energy };
+  }
+
+  it('ranks by relevance within the filters', async () => {
+    const { bank, thesis, rationale, energy } = await seeded();
+
+    const byText = await bank.search('u-1', { text: 'earnings margin' });
+    expect(byText.results.map(match => match.memory.id)).toEqual([
+      thesis.id,
+      rationale.id,
+      energy.id,
+    ]);
+    expect(byText.results[0].score).toBeGreaterThan(byText.results[1].score!);
+
+    const why = await bank.search('u-1', {
+      text: 'why opened',
+      symbols: ['AAPL'],
+      kinds: ['rationale'],
+    });
+    expect(why.results).toEqual([
+      { memory: rationale, score: expect.any(Number) },
+    ]);
+    expect(why.results[0].memory.source).toBe('agent');
+  });
+
+  it('filters on links, tags and time, newest first', async () => {
+    const { bank, thesis, rationale, energy } = await seeded();
+    const ids = async (query: Parameters<MemoryBank['search']>[1]) =>
+      (await bank.search('u-1', query)).results.map(match => match.memory.id);
+
+    expect(await ids({})).toEqual([energy.id, rationale.id, thesis.id]);
+    expect(await ids({ symbols: ['AAPL', 'MSFT'] })).toEqual([
+      rationale.id,
+      thesis.id,
+    ]);
+    expect(await ids({ tags: ['swing', 'earnings'] })).toEqual([rationale.id]);
+    expect(await ids({ tags: ['swing', 'long-term'] })).toEqual([]);
+    expect(await ids({ orderId: 'o-1' })).toEqual([rationale.id]);
+    expect(await ids({ backtestId: 'bt-1' })).toEqual([energy.id]);
+    expect(await ids({ start: T0 + DAY, end: T0 + 2 * DAY })).toEqual([
+      rationale.id,
+    ]);
+    expect(await bank.search('u-1', { limit: 1, offset: 1 })).toMatchObject({
+      total: 3,
+      offset: 1,
+      limit: 1,
+      results: [{ memory: { id: rationale.id }, score: null }],
+    });
+  });
+
+  it('keeps each user to their own memories', async () => {
+    const { bank, thesis } = await seeded();
+    await expect(bank.get('u-2', thesis.id)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+    await expect(bank.remove('u-2', thesis.id)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+
+    const updated = await bank.update('u-1', thesis.id, { tags: [] });
+    expect(updated).toMatchObject({ tags: [], createdAt: T0 });
+    expect(updated.updatedAt).toBeGreaterThan(T0);
+    await bank.remove('u-1', thesis.id);
+    expect((await bank.search('u-1')).total).toBe(2);
+  });
+});
+
+describe('FileMemoryStore', () => {
+  it('keeps memories across instances', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'stocai-memory-'));
+    try {
+      const bank = new MemoryBank(new FileMemoryStore(dir));
+      const saved = await bank.add(
+        'u-1',
+        note('Trimmed into strength', { symbols: ['NVDA'] }),
+        'user'
+      );
+      await bank.add('u-2', note('Trimmed too'), 'user');
+      const reopened = new MemoryBank(new FileMemoryStore(dir));
+      expect(await reopened.get('u-1', saved.id)).toEqual(saved);
+      await expect(reopened.get('u-2', saved.id)).rejects.toThrow(
+        `Memory ${saved.id} not found`
+      );
+      expect((await reopened.search('u-1', { text: 'trim' })).total).toBe(1);
+      await reopened.remove('u-1', saved.id);
+      expect(await new FileMemoryStore(dir).list('u-1')).toEqual([]);
+      expect(await new FileMemoryStore(dir).get('u-1', '../etc')).toBeNull();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('parseMemory', () => {
+  it('normalizes tags, symbols and links', () => {
+    expect(
+      parseMemory({
+        kind: 'thesis',
+        title: ' Services ',
+        text: '  Margins expand ',
+        tags: ['Long-Term', 'long-term', 'AI'],
+        symbols: ['aapl', 'AAPL'],
+        orderIds: ['o-1'],
+      })
+    ).toEqual({
+      problems: [],
+      memory: {
+        kind: 'thesis',
+        title: 'Services',
+        text: 'Margins expand',
+        tags: ['long-term', 'ai'],
+        symbols: ['AAPL'],
+        orderIds: ['o-1'],
+        backtestIds: [],
+      },
+    });
+  });
+
+  it('reports every problem', () => {
+    expect(parseMemory({ kind: 'idea', tags: 'a', symbols: [''] })).toEqual({
+      problems: [
+        'kind must be one of note, thesis, rationale',
+        'text is required',
+        'tags must be an array of non-empty strings',
+        'symbols must be an array of non-empty strings',
+      ],
+    });
+    expect(parseMemoryChanges({})).toEqual({
+      problems: [
+        'body must change kind, title, text, tags, symbols, orderIds or backtestIds',
+      ],
+    });
+    expect(parseMemoryChanges({ symbols: [] })).toEqual({
+      problems: [],
+      changes: { symbols: [] },
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { PaperBroker } from '@/lib/broker';
+import { ReadinessProbe, marketFeedCheck } from '@/lib/health';
+import {
+  MetricsRegistry,
+  appMetrics,
+  recordFeedMetrics,
+  recordOrderMetrics,
+} from '@/lib/metrics';
+import { OrderManager } from '@/lib/oms';
+import { MarketFeed, StreamHub } from '@/lib/streaming';
+import type { MarketDataProvider } from '@/lib/marketdata/provider';
+
+const T0 = Date.parse('2024-12-31T15:00:00Z');
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and histograms in the text format', async () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter({
+      name: 'requests_total',
+      help: 'Requests.',
+      labelNames: ['path'],
+    });
+    requests.inc({ path: '/a' });
+    requests.inc({ path: '/a' }, 2);
+    requests.inc({ path: 'say "hi"\n' });
+    registry.gauge({ name: 'temperature', help: 'Degrees.' }).set({}, -1.5);
+    const latency = registry.histogram({
+      name: 'latency_seconds',
+      help: 'Latency.',
+      buckets: [0.1, 1],
+    });
+    latency.observe({}, 0.05);
+    latency.observe({}, 0.5);
+    latency.observe({}, 5);
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP latency_seconds Latency.',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{le="0.1"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 3',
+        'latency_seconds_sum 5.55',
+        'latency_seconds_count 3',
+        '# HELP requests_total Requests.',
+        '# TYPE requests_total counter',
+        'requests_total{path="/a"} 3',
+        'requests_total{path="say \\"hi\\"\\n"} 1',
+        '# HELP temperature Degrees.',
+        '# TYPE temperature gauge',
+        'temperature -1.5',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('checks names, labels and types', () => {
+    const registry = new MetricsRegistry();
+    expect(() => registry.counter({ name: 'bad-name', help: '' })).toThrow(
+      /Invalid metric name/
+    );
+    const counter = registry.counter({
+      name: 'things_total',
+      help: 'Things.',
+      labelNames: ['kind'],
+    });
+    expect(registry.counter({ name: 'things_total', help: '' })).toBe(counter);
+    expect(() => registry.gauge({ name: 'things_total', help: '' })).toThrow(
+      /already a counter/
+    );
+    expect(() => counter.inc({ other: 'x' })).toThrow(/takes labels \[kind\]/);
+    expect(() => counter.inc({ kind: 'x' }, -1)).toThrow(/only go up/);
+  });
+});
+
+describe('application metrics', () => {
+  it('tracks orders by status and fill latency', async () => {
+    let now = T0;
+    const broker = new PaperBroker({ clock: () => now });
+    const oms = new OrderManager(broker, { clock: () => now });
+    const metrics = appMetrics(new MetricsRegistry());
+    recordOrderMetrics(metrics, oms);
+
+    await oms.create({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+      type: 'limit',
+      limitPrice: 100,
+    });
+    await oms.create({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+      type: 'limit',
+      limitPrice: 90,
+    });
+    expect(metrics.orders.get({ status: 'accepted' })).toBe(2);
+
+    now += 2_000;
+    broker.process({
+      kind: 'quote',
+      quote: {
+        symbol: 'AAPL',
+        timestamp: now,
+        bid: 99,
+        ask: 99,
+        bidSize: 100,
+        askSize: 100,
+        last: 99,
+      },
+    });
+    expect(metrics.orders.get({ status: 'accepted' })).toBe(1);
+    expect(metrics.orders.get({ status: 'filled' })).toBe(1);
+    expect(metrics.fillLatency.count()).toBe(1);
+  });
+
+  it('reports feed lag and freshness', async () => {
+    let now = T0;
+    const provider = {
+      name: 'fake',
+      getQuote: async (symbol: string) => ({
+        symbol,
+        timestamp: T0 - 3_000,
+        bid: 1,
+        ask: 1,
+        bidSize: 1,
+        askSize: 1,
+        last: 1,
+      }),
+      getBars: async () => [],
+    } as unknown as MarketDataProvider;
+    const feed = new MarketFeed(new StreamHub(), provider, {
+      intervalMs: 1_000,
+      clock: () => now,
+    });
+    const registry = new MetricsRegistry();
+    const metrics = appMetrics(registry);
+    recordFeedMetrics(registry, metrics, feed, () => now);
+    const probe = new ReadinessProbe();
+    probe.register(
+      'feed',
+      marketFeedCheck(feed, undefined, () => now)
+    );
+
+    expect((await probe.run()).status).toBe('ready');
+    const stop = feed.watch(['AAPL']);
+    await feed.poll();
+    await registry.render();
+    expect(metrics.feedLag.get({ symbol: 'AAPL' })).toBe(3);
+    expect((await probe.run()).status).toBe('ready');
+
+    now += 10_000;
+    const stale = await probe.run();
+    expect(stale.status).toBe('not_ready');
+    expect(stale.dependencies.feed.message).toMatch(/Last polled 10000 ms/);
+
+    stop();
+    await registry.render();
+    expect(metrics.feedLag.get({ symbol: 'AAPL' })).toBeUndefined();
+  });
+});
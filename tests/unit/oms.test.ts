@@ -0,0 +1,478 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PaperBroker, type MarketEvent } from '@/lib/broker';
+import {
+  OmsError,
+  OrderManager,
+  canTransition,
+  parseAmendOrder,
+  parseCreateOrder,
+  parseOrderBatch,
+  type ManagedOrder,
+  type OrderEvent,
+  type PreTradeCheck,
+} from '@/lib/oms';
+
+// 10:00 New York time.
+const T0 = Date.parse('2024-12-31T15:00:00Z');
+const MINUTE = 60_000;
+
+function quote(minute: number, bid: number, ask: number, size = 100) {
+  const event: MarketEvent = {
+    kind: 'quote',
+    quote: {
+      symbol: 'AAPL',
+      timestamp: T0 + minute * MINUTE,
+      bid,
+      ask,
+      bidSize: size,
+      askSize: size,
+      last: (bid + ask) / 2,
+    },
+  };
+  return event;
+}
+
+describe('order state machine', () => {
+  it('only allows lifecycle transitions', () => {
+    expect(canTransition('new', 'pending')).toBe(true);
+    expect(canTransition('accepted', 'partially_filled')).toBe(true);
+    expect(canTransition('partially_filled', 'replaced')).toBe(true);
+    expect(canTransition('new', 'filled')).toBe(false);
+    expect(canTransition('filled', 'cancelled')).toBe(false);
+    expect(canTransition('cancelled', 'accepted')).toBe(false);
+  });
+});
+
+describe('OrderManager', () => {
+  let broker: PaperBroker;
+  let oms: OrderManager;
+  let events: OrderEvent[];
+
+  beforeEach(() => {
+    broker = new PaperBroker({ clock: () => T0 });
+    oms = new OrderManager(broker, { clock: () => T0 });
+    events = [];
+    oms.subscribe(event => events.push(event));
+  });
+
+  it('walks an order through partial and full fills', async () => {
+    broker.process(quote(0, 99, 100, 40));
+    const { order, created } = await oms.create({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 100,
+    });
+    expect(created).toBe(true);
+    expect(order).toMatchObject({
+      status: 'partially_filled',
+      filledQuantity: 40,
+      averageFillPrice: 100,
+    });
+
+    broker.process(quote(1, 100, 101, 100));
+    const filled = oms.get(order.id)!;
+    expect(filled.status).toBe('filled');
+    expect(filled.averageFillPrice).toBeCloseTo(100.6);
+    expect(filled.history.map(h => h.to)).toEqual([
+      'new',
+      'pending',
+      'accepted',
+      'partially_filled',
+      'filled',
+    ]);
+    expect(events.filter(e => e.type === 'fill')).toHaveLength(2);
+  });
+
+  it('records broker rejections with their reason', async () => {
+    const { order } = await oms.create({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+      type: 'stop',
+      stopPrice: 105,
+      timeInForce: 'ioc',
+    });
+    expect(order.status).toBe('rejected');
+    expect(order.rejectReason).toMatch(/IOC and FOK/);
+  });
+
+  it('is idempotent on clientOrderId', async () => {
+    const input = {
+      clientOrderId: 'abc',
+      symbol: 'AAPL',
+      side: 'buy' as const,
+      quantity: 10,
+      type: 'limit' as const,
+      limitPrice: 90,
+    };
+    const first = await oms.create(input);
+    const again = await oms.create({ ...input });
+    expect(again.created).toBe(false);
+    expect(again.order.id).toBe(first.order.id);
+    expect(oms.list()).toHaveLength(1);
+
+    await expect(oms.create({ ...input, quantity: 20 })).rejects.toMatchObject({
+      code: 'DUPLICATE_CLIENT_ORDER_ID',
+    });
+    // Other accounts have their own ids.
+    const other = await oms.create({ ...input, accountId: 'other' });
+    expect(other.created).toBe(true);
+  });
+
+  it('amends by cancel/replace, keeping fills and the client id', async () => {
+    broker.process(quote(0, 99, 100, 30));
+    const { order } = await oms.create({
+      clientOrderId: 'limit-1',
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 100,
+      type: 'limit',
+      limitPrice: 100,
+    });
+    expect(order.status).toBe('partially_filled');
+
+    const replacement = await oms.amend(order.id, { limitPrice: 99 });
+    expect(replacement).toMatchObject({
+      replaces: order.id,
+      limitPrice: 99,
+      status: 'partially_filled',
+      filledQuantity: 30,
+      clientOrderId: 'limit-1',
+    });
+    expect(oms.get(order.id)).toMatchObject({
+      status: 'replaced',
+      replacedBy: replacement.id,
+    });
+    expect(oms.getByClientOrderId('limit-1')!.id).toBe(replacement.id);
+
+    await expect(oms.amend(order.id, { limitPrice: 98 })).rejects.toThrow(
+      OmsError
+    );
+    await expect(
+      oms.amend(replacement.id, { quantity: 10 })
+    ).rejects.toMatchObject({ code: 'INVALID_ORDER' });
+  });
+
+  it('cancels open orders and refuses to cancel finished ones', async () => {
+    const { order } = await oms.create({
+      symbol: 'AAPL',
+      side: 'sell',
+      quantity: 10,
+      type: 'limit',
+      limitPrice: 120,
+    });
+    expect(order.status).toBe('accepted');
+    expect((await oms.cancel(order.id)).status).toBe('cancelled');
+    await expect(oms.cancel(order.id)).rejects.toMatchObject({
+      code: 'INVALID_TRANSITION',
+    });
+    await expect(oms.cancel('missing')).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('tracks bracket exits from held to live', async () => {
+    const { order } = await oms.create({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+      type: 'limit',
+      limitPrice: 100,
+      takeProfit: { limitPrice: 110 },
+      stopLoss: { stopPrice: 95 },
+    });
+    const exits = () => oms.list().filter(o => o.parentId === order.id);
+    expect(exits().map(o => [o.leg, o.status])).toEqual([
+      ['stop-loss', 'pending'],
+      ['take-profit', 'pending'],
+    ]);
+
+    broker.process(quote(1, 99, 100));
+    expect(oms.get(order.id)!.status).toBe('filled');
+    expect(exits().every(o => o.status === 'accepted')).toBe(true);
+
+    broker.process(quote(2, 110, 111));
+    expect(exits().map(o => [o.leg, o.status])).toEqual([
+      ['stop-loss', 'cancelled'],
+      ['take-profit', 'filled'],
+    ]);
+  });
+
+  it('ignores orders placed on the broker directly', async () => {
+    await broker.submit({ symbol: 'AAPL', side: 'buy', quantity: 1 });
+    expect(oms.list()).toEqual([]);
+    expect(events).toEqual([]);
+  });
+});
+
+describe('OrderManager batches', () => {
+  let broker: PaperBroker;
+  let oms: OrderManager;
+  let events: OrderEvent[];
+
+  // At most 100 shares on order at once, counting the order itself.
+  const maxOpen: PreTradeCheck = async ({ order, openOrders }) =>
+    openOrders.reduce((total, open) => total + open.quantity, order.quantity) >
+    100
+      ? [{ code: 'MAX_OPEN', message: 'Too many shares on order' }]
+      : [];
+
+  const limit = (quantity: number) => ({
+    order: {
+      symbol: 'AAPL',
+      side: 'buy' as const,
+      quantity,
+      type: 'limit' as const,
+      limitPrice: 90,
+    },
+  });
+
+  beforeEach(() => {
+    broker = new PaperBroker({ clock: () => T0 });
+    broker.process(quote(0, 99, 100));
+    oms = new OrderManager(broker, { clock: () => T0, preTrade: [maxOpen] });
+    events = [];
+    oms.subscribe(event => events.push(event));
+  });
+
+  it('checks legs together and places all or none', async () => {
+    const result = await oms.createBatch([limit(60), limit(60)]);
+    expect(result).toMatchObject({
+      mode: 'atomic',
+      committed: false,
+      placed: 0,
+      failed: 1,
+      legs: [
+        { index: 0, status: 'not-placed' },
+        {
+          index: 1,
+          status: 'rejected',
+          reasons: [{ code: 'MAX_OPEN', message: 'Too many shares on order' }],
+        },
+      ],
+    });
+    expect(oms.list()).toEqual([]);
+    expect(events).toEqual([]);
+
+    const committed = await oms.createBatch([limit(60), limit(40)]);
+    expect(committed).toMatchObject({ committed: true, placed: 2, failed: 0 });
+    expect(committed.legs.map(leg => leg.order?.status)).toEqual([
+      'accepted',
+      'accepted',
+    ]);
+  });
+
+  it('places what it can in best-effort mode', async () => {
+    const result = await oms.createBatch(
+      [limit(60), { problems: ['quantity is required'] }, limit(60)],
+      'best-effort'
+    );
+    expect(result).toMatchObject({ committed: true, placed: 1, failed: 2 });
+    expect(result.legs.map(leg => leg.status)).toEqual([
+      'placed',
+      'invalid',
+      'rejected',
+    ]);
+    expect(result.legs[1].problems).toEqual(['quantity is required']);
+    expect(oms.list().map(order => order.status)).toEqual([
+      'rejected',
+      'accepted',
+    ]);
+  });
+
+  it('cancels placed legs when the broker rejects a later one', async () => {
+    const result = await oms.createBatch([
+      limit(10),
+      {
+        order: {
+          symbol: 'AAPL',
+          side: 'buy',
+          quantity: 10,
+          type: 'stop',
+          stopPrice: 105,
+          timeInForce: 'ioc',
+        },
+      },
+      limit(10),
+    ]);
+    expect(result.committed).toBe(false);
+    expect(result.legs.map(leg => leg.status)).toEqual([
+      'cancelled',
+      'rejected',
+      'not-placed',
+    ]);
+    expect(result.legs[1].reasons?.[0].code).toBe('BROKER_REJECTED');
+    expect(oms.list({ status: 'open' })).toEqual([]);
+  });
+
+  it('records the legs together before sending any', async () => {
+    const recorded: ManagedOrder[][] = [];
+    const eventsAtRecord: number[] = [];
+    oms = new OrderManager(broker, {
+      clock: () => T0,
+      record: async orders => {
+        recorded.push(orders);
+        eventsAtRecord.push(events.length);
+      },
+    });
+    events = [];
+    oms.subscribe(event => events.push(event));
+
+    const result = await oms.createBatch([limit(10), limit(20)]);
+    expect(result.committed).toBe(true);
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0].map(order => [order.quantity, order.status])).toEqual([
+      [10, 'new'],
+      [20, 'new'],
+    ]);
+    expect(eventsAtRecord).toEqual([0]);
+  });
+
+  it('sends nothing when the legs cannot be recorded', async () => {
+    oms = new OrderManager(broker, {
+      clock: () => T0,
+      record: async () => {
+        throw new Error('database is down');
+      },
+    });
+    await expect(oms.createBatch([limit(10), limit(20)])).rejects.toThrow(
+      'database is down'
+    );
+    await expect(
+      oms.create({ symbol: 'AAPL', side: 'buy', quantity: 1 })
+    ).rejects.toThrow('database is down');
+    expect(oms.list()).toEqual([]);
+    expect(await broker.listOrders()).toEqual([]);
+  });
+
+  it('rejects recorded legs left unsent by a broker rejection', async () => {
+    oms = new OrderManager(broker, { clock: () => T0, record: async () => {} });
+    const result = await oms.createBatch([
+      limit(10),
+      {
+        order: {
+          symbol: 'AAPL',
+          side: 'buy',
+          quantity: 10,
+          type: 'stop',
+          stopPrice: 105,
+          timeInForce: 'ioc',
+        },
+      },
+      limit(10),
+    ]);
+    expect(result.legs.map(leg => leg.order?.status)).toEqual([
+      'cancelled',
+      'rejected',
+      'rejected',
+    ]);
+    expect(result.legs[2]).toMatchObject({
+      status: 'not-placed',
+      order: { rejectReasons: [{ code: 'BATCH_ABORTED' }] },
+    });
+  });
+
+  it('honours client order ids across batches', async () => {
+    const leg = { order: { ...limit(10).order, clientOrderId: 'leg-1' } };
+    const first = await oms.createBatch([leg]);
+    const again = await oms.createBatch([leg, limit(10)]);
+    expect(again.legs[0]).toMatchObject({
+      status: 'existing',
+      order: { id: first.legs[0].order!.id },
+    });
+    expect(again.placed).toBe(2);
+
+    const clash = await oms.createBatch([
+      limit(10),
+      { order: { ...leg.order, quantity: 20 } },
+    ]);
+    expect(clash.legs[1]).toMatchObject({
+      status: 'rejected',
+      reasons: [{ code: 'DUPLICATE_CLIENT_ORDER_ID' }],
+    });
+    expect(oms.list()).toHaveLength(2);
+  });
+});
+
+describe('order requests', () => {
+  it('applies defaults and normalises the symbol', () => {
+    const parsed = parseCreateOrder({
+      symbol: ' aapl ',
+      side: 'buy',
+      quantity: 5,
+    });
+    expect(parsed).toEqual({
+      problems: [],
+      order: {
+        symbol: 'AAPL',
+        side: 'buy',
+        quantity: 5,
+        type: 'market',
+        timeInForce: 'day',
+      },
+    });
+  });
+
+  it('reports every problem', () => {
+    expect(
+      parseCreateOrder({ side: 'hold', quantity: -1, takeProfit: {} }).problems
+    ).toEqual([
+      'symbol is required',
+      'side must be one of buy, sell',
+      expect.stringMatching(/^quantity must be/),
+      'takeProfit.limitPrice is required',
+      'takeProfit and stopLoss must be given together',
+    ]);
+    expect(
+      parseCreateOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        quantity: 1,
+        type: 'limit',
+      }).problems
+    ).toEqual(['limit orders need a positive limitPrice']);
+    expect(parseAmendOrder({}).problems).toEqual([
+      expect.stringMatching(/^body must change at least one/),
+    ]);
+  });
+
+  it('parses batches, keeping problems on their legs', () => {
+    const order = { symbol: 'aapl', side: 'buy', quantity: 1 };
+    const parsed = parseOrderBatch({
+      orders: [
+        { ...order, clientOrderId: 'a' },
+        { side: 'buy' },
+        { ...order, clientOrderId: 'a' },
+      ],
+    });
+    expect(parsed).toEqual({
+      problems: [],
+      batch: {
+        mode: 'atomic',
+        legs: [
+          {
+            order: {
+              clientOrderId: 'a',
+              symbol: 'AAPL',
+              side: 'buy',
+              quantity: 1,
+              type: 'market',
+              timeInForce: 'day',
+            },
+          },
+          {
+            problems: [
+              'symbol is required',
+              expect.stringMatching(/^quantity/),
+            ],
+          },
+          { problems: ['clientOrderId a is already used by order 0'] },
+        ],
+      },
+    });
+    expect(parseOrderBatch({ orders: [], mode: 'yolo' }).problems).toEqual([
+      'mode must be one of atomic, best-effort',
+      'orders must be a non-empty array',
+    ]);
+  });
+});
@@ -0,0 +1,344 @@
+import { describe, expect, it } from 'vitest';
+import { seededRandom } from '@/lib/backtest';
+import type { Bar } from '@/lib/marketdata';
+import {
+  OptimizationError,
+  estimateReturns,
+  feasibleSet,
+  optimize,
+  parseOptimizeRequest,
+  parseRebalanceRequest,
+  project,
+  proposeRebalance,
+  type Constraints,
+  type OptimizeOptions,
+  type ReturnEstimates,
+} from '@/lib/optimization';
+import type { PortfolioSnapshot, Position } from '@/lib/portfolio';
+
+const DAY = 86_400_000;
+const T0 = Date.parse('2024-01-02T14:30:00Z');
+
+const open: Constraints = {
+  longOnly: true,
+  maxWeight: 1,
+  assetCaps: {},
+  sectorCaps: {},
+};
+
+/** Three uncorrelated assets: A steady, B middling, C volatile but rewarding. */
+const estimates: ReturnEstimates = {
+  symbols: ['A', 'B', 'C'],
+  expectedReturns: [0.04, 0.08, 0.2],
+  covariance: [
+    [0.01, 0, 0],
+    [0, 0.04, 0],
+    [0, 0, 0.16],
+  ],
+  observations: 252,
+  periodsPerYear: 252,
+  start: 0,
+  end: 0,
+};
+
+function options(overrides: Partial<OptimizeOptions> = {}): OptimizeOptions {
+  return {
+    objective: 'min-variance',
+    constraints: open,
+    sectors: {},
+    riskFreeRate: 0,
+    riskAversion: 3,
+    frontierPoints: 0,
+    ...overrides,
+  };
+}
+
+const sum = (weights: Record<string, number>) =>
+  Object.keys(weights).reduce((total, key) => total + weights[key], 0);
+
+/** Daily bars whose closes follow `returns` from 100. */
+function bars(returns: number[], offset = 0): Bar[] {
+  let close = 100;
+  return returns.map((change, i) => {
+    close *= 1 + change;
+    return {
+      symbol: 'TEST',
+      timestamp: T0 + (i + offset) * DAY,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1_000,
+    };
+  });
+}
+
+function position(symbol: string, quantity: number, price: number): Position {
+  return {
+    symbol,
+    quantity,
+    averageCost: price,
+    costBasis: quantity * price,
+    marketPrice: price,
+    marketValue: quantity * price,
+    unrealizedPnl: 0,
+    realizedPnl: 0,
+    dividends: 0,
+    lots: [],
+  };
+}
+
+function snapshot(cash: number, positions: Position[]): PortfolioSnapshot {
+  const marketValue = positions.reduce((t, p) => t + p.marketValue, 0);
+  return {
+    method: 'fifo',
+    cash,
+    marketValue,
+    equity: cash + marketValue,
+    realizedPnl: 0,
+    unrealizedPnl: 0,
+    dividends: 0,
+    fees: 0,
+    netPnl: 0,
+    positions,
+  };
+}
+
+describe('estimateReturns', () => {
+  it('annualizes returns over the bars every symbol shares', () => {
+    const random = seededRandom(3);
+    const noise = Array.from({ length: 120 }, () => (random() - 0.5) * 0.02);
+    const result = estimateReturns(
+      [
+        { symbol: 'X', bars: bars(noise) },
+        // Starts a day later, so one bar of X has no partner.
+        { symbol: 'Y', bars: bars(noise.map(r => -r).slice(1), 1) },
+      ],
+      { shrinkage: 0.5 }
+    );
+    expect(result.symbols).toEqual(['X', 'Y']);
+    expect(result.observations).toBe(118);
+    expect(result.periodsPerYear).toBe(252);
+    expect(result.covariance[0][1]).toBeLessThan(0);
+    // Shrinkage halves the covariance of perfectly opposed assets.
+    expect(result.covariance[0][1] / result.covariance[0][0]).toBeCloseTo(
+      -0.5,
+      1
+    );
+  });
+
+  it('needs a month of common history', () => {
+    expect(() =>
+      estimateReturns([{ symbol: 'X', bars: bars(Array(20).fill(0.01)) }])
+    ).toThrow(OptimizationError);
+  });
+});
+
+describe('project', () => {
+  it('finds the closest weights within bounds and sector caps', () => {
+    const set = feasibleSet(
+      ['A', 'B', 'C'],
+      { ...open, maxWeight: 0.6, sectorCaps: { tech: 0.5 } },
+      { A: 'Tech', B: 'Tech', C: 'Energy' }
+    );
+    const w = project([0.7, 0.5, -0.2], set);
+    expect(w.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 9);
+    expect(w[0] + w[1]).toBeCloseTo(0.5, 9);
+    expect(w[0]).toBeCloseTo(0.35, 6);
+    expect(w[2]).toBeCloseTo(0.5, 6);
+  });
+
+  it('rejects caps that cannot hold the whole portfolio', () => {
+    expect(() =>
+      feasibleSet(['A', 'B'], { ...open, maxWeight: 0.4 }, {})
+    ).toThrow('The caps allow at most 80.0% of equity to be invested');
+  });
+});
+
+describe('optimize', () => {
+  it('finds the minimum-variance portfolio', () => {
+    const { allocation } = optimize(estimates, options());
+    // Inverse-variance weights for uncorrelated assets: 16:4:1.
+    expect(allocation.weights.A).toBeCloseTo(16 / 21, 5);
+    expect(allocation.weights.B).toBeCloseTo(4 / 21, 5);
+    expect(allocation.weights.C).toBeCloseTo(1 / 21, 5);
+    expect(allocation.volatility).toBeCloseTo(Math.sqrt(0.16 / 21), 6);
+  });
+
+  it('maximizes the Sharpe ratio', () => {
+    const { allocation } = optimize(
+      estimates,
+      options({ objective: 'max-sharpe' })
+    );
+    // Tangency weights are proportional to μ/σ²: 4, 2 and 1.25.
+    expect(allocation.weights.A).toBeCloseTo(4 / 7.25, 3);
+    expect(allocation.weights.C).toBeCloseTo(1.25 / 7.25, 3);
+    expect(allocation.sharpe).toBeCloseTo(Math.sqrt(0.16 + 0.16 + 0.25), 4);
+  });
+
+  it('equalizes risk contributions, within caps', () => {
+    const free = optimize(estimates, options({ objective: 'risk-parity' }));
+    ['A', 'B', 'C'].forEach(symbol =>
+      expect(free.allocation.riskContributions[symbol]).toBeCloseTo(1 / 3, 6)
+    );
+
+    const capped = optimize(
+      estimates,
+      options({
+        objective: 'risk-parity',
+        constraints: { ...open, assetCaps: { A: 0.4 } },
+      })
+    );
+    // A is pinned at its cap, short of its share; the rest is split to
+    // keep B and C as near a third each as they can get.
+    expect(capped.allocation.weights.A).toBeCloseTo(0.4, 6);
+    expect(capped.allocation.weights.B).toBeCloseTo(0.4035, 3);
+    expect(capped.allocation.riskContributions.A).toBeLessThan(1 / 3);
+  });
+
+  it('respects per-asset and sector caps', () => {
+    const { allocation } = optimize(
+      estimates,
+      options({
+        objective: 'mean-variance',
+        riskAversion: 1,
+        constraints: { ...open, maxWeight: 0.5, sectorCaps: { growth: 0.6 } },
+        sectors: { A: 'Value', B: 'Growth', C: 'Growth' },
+      })
+    );
+    expect(sum(allocation.weights)).toBeCloseTo(1, 6);
+    expect(allocation.weights.A).toBeLessThanOrEqual(0.5 + 1e-9);
+    expect(allocation.weights.B + allocation.weights.C).toBeLessThanOrEqual(
+      0.6 + 1e-9
+    );
+  });
+
+  it('traces the efficient frontier with evenly spaced returns', () => {
+    const { frontier } = optimize(estimates, options({ frontierPoints: 5 }));
+    expect(frontier).toHaveLength(5);
+    expect(frontier[4].weights.C).toBeCloseTo(1, 6);
+    const steps = frontier
+      .slice(1)
+      .map((point, i) => point.expectedReturn - frontier[i].expectedReturn);
+    steps.forEach(step => expect(step).toBeCloseTo(steps[0], 4));
+    frontier
+      .slice(1)
+      .forEach((point, i) =>
+        expect(point.volatility).toBeGreaterThan(frontier[i].volatility)
+      );
+  });
+});
+
+describe('proposeRebalance', () => {
+  const rebalance = {
+    driftThreshold: 0.02,
+    lotSize: 1,
+    lotSizes: {} as Record<string, number>,
+  };
+
+  it('trades to target in whole lots, sells first', () => {
+    const proposal = proposeRebalance(
+      snapshot(5_000, [position('A', 50, 100), position('OLD', 10, 50)]),
+      { A: 0.3, B: 0.5 },
+      { B: 40 },
+      { ...rebalance, lotSizes: { B: 25 } }
+    );
+    expect(proposal.equity).toBe(10_500);
+    expect(proposal.orders).toEqual([
+      { symbol: 'A', side: 'sell', quantity: 18 },
+      { symbol: 'OLD', side: 'sell', quantity: 10 },
+      { symbol: 'B', side: 'buy', quantity: 125 },
+    ]);
+    expect(proposal.projectedCash).toBeCloseTo(5_000 + 1_800 + 500 - 5_000);
+    expect(proposal.turnover).toBeCloseTo(7_300 / 10_500);
+  });
+
+  it('leaves symbols within the drift threshold or under a lot alone', () => {
+    const proposal = proposeRebalance(
+      snapshot(5_000, [position('A', 50, 100)]),
+      { A: 0.51, B: 0.04 },
+      { B: 300 },
+      { ...rebalance, lotSize: 10 }
+    );
+    expect(proposal.orders).toEqual([]);
+    expect(proposal.lines.map(line => line.skipped)).toEqual([
+      'within-threshold',
+      'below-lot-size',
+    ]);
+  });
+
+  it('trims buys that would overdraw cash', () => {
+    const proposal = proposeRebalance(
+      snapshot(1_000, []),
+      { A: 0.5, B: 0.5 },
+      { A: 300, B: 200 },
+      rebalance
+    );
+    // Two A and three B would need 1,200; the dearer buy gives a share.
+    expect(proposal.orders).toEqual([
+      { symbol: 'A', side: 'buy', quantity: 1 },
+      { symbol: 'B', side: 'buy', quantity: 3 },
+    ]);
+    expect(proposal.projectedCash).toBeCloseTo(100);
+  });
+
+  it('needs a price for every symbol', () => {
+    expect(() =>
+      proposeRebalance(snapshot(1_000, []), { A: 1 }, {}, rebalance)
+    ).toThrow('No price for A');
+  });
+});
+
+describe('requests', () => {
+  it('parses optimization requests with defaults', () => {
+    expect(
+      parseOptimizeRequest({
+        symbols: ['aapl', 'msft', 'AAPL'],
+        constraints: { assetCaps: { aapl: 0.3 }, sectorCaps: { Tech: 0.6 } },
+      })
+    ).toEqual({
+      problems: [],
+      request: {
+        symbols: ['AAPL', 'MSFT'],
+        timeframe: '1d',
+        lookback: 252,
+        shrinkage: 0,
+        options: {
+          objective: 'max-sharpe',
+          constraints: {
+            longOnly: true,
+            maxWeight: 1,
+            assetCaps: { AAPL: 0.3 },
+            sectorCaps: { tech: 0.6 },
+          },
+          riskFreeRate: 0,
+          riskAversion: 3,
+          frontierPoints: 0,
+        },
+      },
+    });
+    expect(
+      parseOptimizeRequest({ symbols: ['A'], objective: 'moon', lookback: 10 })
+        .problems
+    ).toEqual([
+      'objective must be one of min-variance, max-sharpe, mean-variance, risk-parity',
+      'lookback must be an integer between 60 and 2000',
+    ]);
+  });
+
+  it('parses rebalance requests', () => {
+    expect(
+      parseRebalanceRequest({ targets: { aapl: 0.5 }, lotSizes: { aapl: 10 } })
+    ).toEqual({
+      problems: [],
+      request: {
+        targets: { AAPL: 0.5 },
+        options: { driftThreshold: 0.02, lotSize: 1, lotSizes: { AAPL: 10 } },
+      },
+    });
+    expect(
+      parseRebalanceRequest({ targets: { A: 0.7, B: 0.7 } }).problems
+    ).toEqual(['targets must sum to at most 1']);
+    expect(parseRebalanceRequest({}).problems).toEqual(['targets is required']);
+  });
+});
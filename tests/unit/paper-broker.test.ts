@@ -0,0 +1,520 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  BrokerError,
+  PaperBroker,
+  followMarket,
+  type BrokerEvent,
+  type MarketEvent,
+} from '@/lib/broker';
+import type { Quote } from '@/lib/marketdata/types';
+import { MarketFeed, StreamHub } from '@/lib/streaming';
+
+// 10:00 New York time.
+const T0 = Date.parse('2024-12-31T15:00:00Z');
+const MINUTE = 60_000;
+
+function quote(
+  minute: number,
+  bid: number,
+  ask: number,
+  size = 100
+): MarketEvent {
+  return {
+    kind: 'quote',
+    quote: {
+      symbol: 'AAPL',
+      timestamp: T0 + minute * MINUTE,
+      bid,
+      ask,
+      bidSize: size,
+      askSize: size,
+      last: (bid + ask) / 2,
+    },
+  };
+}
+
+function trade(minute: number, price: number, size = 100): MarketEvent {
+  return {
+    kind: 'trade',
+    trade: { symbol: 'AAPL', timestamp: T0 + minute * MINUTE, price, size },
+  };
+}
+
+function bar(
+  minute: number,
+  open: number,
+  high: number,
+  low: number,
+  close: number
+): MarketEvent {
+  return {
+    kind: 'bar',
+    bar: {
+      symbol: 'AAPL',
+      timestamp: T0 + minute * MINUTE,
+      open,
+      high,
+      low,
+      close,
+      volume: 10_000,
+    },
+  };
+}
+
+describe('PaperBroker', () => {
+  let broker: PaperBroker;
+  let events: BrokerEvent[];
+
+  beforeEach(() => {
+    broker = new PaperBroker({ clock: () => T0 });
+    events = [];
+    broker.subscribe(event => events.push(event));
+  });
+
+  async function status(id: string) {
+    return (await broker.getOrder(id))!.status;
+  }
+
+  it('fills market orders against the quote, partially when it is thin', async () => {
+    broker.process(quote(0, 99.9, 100.1, 60));
+    const order = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 100,
+    });
+    expect(order).toMatchObject({
+      status: 'partially_filled',
+      filledQuantity: 60,
+      averageFillPrice: 100.1,
+    });
+
+    broker.process(trade(1, 100.3, 25));
+    broker.process(trade(2, 100.4, 500));
+    expect(await broker.getOrder(order.id)).toMatchObject({
+      status: 'filled',
+      filledQuantity: 100,
+    });
+    const fills = await broker.listExecutions(order.id);
+    expect(fills.map(fill => [fill.quantity, fill.price])).toEqual([
+      [60, 100.1],
+      [25, 100.3],
+      [15, 100.4],
+    ]);
+    expect(events.map(event => event.type)).toEqual([
+      'accepted',
+      'fill',
+      'fill',
+      'fill',
+    ]);
+  });
+
+  it('gives every new order the full size of the last quote', async () => {
+    broker.process(quote(0, 99.9, 100.1, 200));
+    const orders = [];
+    for (let i = 0; i < 3; i++) {
+      orders.push(
+        await broker.submit({ symbol: 'AAPL', side: 'buy', quantity: 150 })
+      );
+    }
+    expect(orders.map(order => [order.status, order.filledQuantity])).toEqual([
+      ['filled', 150],
+      ['filled', 150],
+      ['filled', 150],
+    ]);
+  });
+
+  it('caps fills at the participation rate', async () => {
+    broker = new PaperBroker({ participationRate: 0.1 });
+    const order = await broker.submit({
+      symbol: 'AAPL',
+      side: 'sell',
+      quantity: 50,
+    });
+    broker.process(trade(0, 100, 300));
+    expect(await broker.getOrder(order.id)).toMatchObject({
+      filledQuantity: 30,
+      status: 'partially_filled',
+    });
+  });
+
+  it('rests limit orders until the market reaches them', async () => {
+    const order = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+      type: 'limit',
+      limitPrice: 98,
+    });
+    broker.process(bar(0, 100, 101, 98.5, 99));
+    expect(await status(order.id)).toBe('accepted');
+    broker.process(bar(1, 99, 99.5, 97, 97.5));
+    expect(await broker.getOrder(order.id)).toMatchObject({
+      status: 'filled',
+      averageFillPrice: 98,
+    });
+  });
+
+  it('triggers stop-limit orders and then respects the limit', async () => {
+    const order = await broker.submit({
+      symbol: 'AAPL',
+      side: 'sell',
+      quantity: 10,
+      type: 'stop-limit',
+      stopPrice: 95,
+      limitPrice: 94.5,
+    });
+    broker.process(trade(0, 96));
+    broker.process(trade(1, 94.9));
+    expect(await broker.getOrder(order.id)).toMatchObject({
+      triggered: true,
+      status: 'filled',
+      averageFillPrice: 94.9,
+    });
+
+    const gapped = await broker.submit({
+      symbol: 'AAPL',
+      side: 'sell',
+      quantity: 10,
+      type: 'stop-limit',
+      stopPrice: 93,
+      limitPrice: 92.5,
+    });
+    broker.process(trade(2, 92));
+    expect(await broker.getOrder(gapped.id)).toMatchObject({
+      triggered: true,
+      status: 'accepted',
+    });
+    broker.process(trade(3, 92.6));
+    expect(await status(gapped.id)).toBe('filled');
+  });
+
+  it('moves trailing stops with the market', async () => {
+    broker.process(trade(0, 100));
+    const order = await broker.submit({
+      symbol: 'AAPL',
+      side: 'sell',
+      quantity: 5,
+      type: 'trailing-stop',
+      trailPercent: 2,
+    });
+    expect(order.trailingStop).toBe(98);
+
+    broker.process(trade(1, 105));
+    broker.process(trade(2, 103.5));
+    expect((await broker.getOrder(order.id))!.trailingStop).toBeCloseTo(102.9);
+    broker.process(trade(3, 102.8));
+    expect(await broker.getOrder(order.id)).toMatchObject({
+      status: 'filled',
+      averageFillPrice: 102.8,
+    });
+  });
+
+  it('gives IOC and FOK orders a single look at the market', async () => {
+    broker.process(quote(0, 99.9, 100.1, 40));
+    const ioc = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 100,
+      timeInForce: 'ioc',
+    });
+    expect(ioc).toMatchObject({ status: 'cancelled', filledQuantity: 40 });
+
+    const fok = await broker.submit({
+      symbol: 'AAPL',
+      side: 'sell',
+      quantity: 100,
+      timeInForce: 'fok',
+    });
+    expect(fok).toMatchObject({ status: 'cancelled', filledQuantity: 0 });
+
+    // Without a quote they wait for the next event.
+    broker = new PaperBroker();
+    const waiting = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 100,
+      type: 'limit',
+      limitPrice: 100,
+      timeInForce: 'fok',
+    });
+    expect(waiting.status).toBe('accepted');
+    broker.process(trade(0, 99.5, 100));
+    expect(await status(waiting.id)).toBe('filled');
+  });
+
+  it('expires day orders at the close but keeps GTC orders', async () => {
+    const day = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+      type: 'limit',
+      limitPrice: 1,
+    });
+    const gtc = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+      type: 'limit',
+      limitPrice: 1,
+      timeInForce: 'gtc',
+    });
+    expect(day.expiresAt).toBe(Date.parse('2024-12-31T21:00:00Z'));
+
+    broker.advanceTo(Date.parse('2024-12-31T21:00:00Z'));
+    expect(await status(day.id)).toBe('expired');
+    expect(await status(gtc.id)).toBe('accepted');
+  });
+
+  it('only fills a bar range for orders placed before the bar', async () => {
+    broker.process(trade(0, 100));
+    broker.advanceTo(T0 + 2 * MINUTE);
+    const order = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+      type: 'limit',
+      limitPrice: 98,
+    });
+    broker.process(bar(1, 99, 99.5, 97, 97.5));
+    expect(await status(order.id)).toBe('accepted');
+    broker.process(bar(2, 99, 99.5, 97, 97.5));
+    expect(await status(order.id)).toBe('filled');
+  });
+
+  it('keeps time by the clock when live, however old the data', async () => {
+    let now = T0 + 60 * MINUTE;
+    broker = new PaperBroker({ clock: () => now, live: true });
+    broker.process(quote(0, 99.9, 100.1));
+    const day = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+      type: 'limit',
+      limitPrice: 1,
+    });
+    expect(day.createdAt).toBe(now);
+    now += MINUTE;
+    const filled = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+    });
+    expect(filled.updatedAt).toBe(now);
+    expect((await broker.listExecutions(filled.id))[0].timestamp).toBe(now);
+
+    now = Date.parse('2024-12-31T21:00:00Z');
+    broker.advanceTo(now);
+    expect(await status(day.id)).toBe('expired');
+  });
+
+  it('cancels the other OCO legs on the first fill', async () => {
+    const [target, stop] = await broker.submitOco([
+      {
+        symbol: 'AAPL',
+        side: 'sell',
+        quantity: 10,
+        type: 'limit',
+        limitPrice: 105,
+      },
+      {
+        symbol: 'AAPL',
+        side: 'sell',
+        quantity: 10,
+        type: 'stop',
+        stopPrice: 95,
+      },
+    ]);
+    broker.process(trade(0, 105.5, 4));
+    expect(await status(target.id)).toBe('partially_filled');
+    expect(await status(stop.id)).toBe('cancelled');
+
+    await broker.cancel(target.id);
+    await expect(broker.cancel(target.id)).rejects.toMatchObject({
+      code: 'NOT_OPEN',
+    });
+  });
+
+  it('activates bracket exits for the filled quantity', async () => {
+    const [entry, takeProfit, stopLoss] = await broker.submitBracket({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+      type: 'limit',
+      limitPrice: 100,
+      timeInForce: 'gtc',
+      takeProfit: { limitPrice: 110 },
+      stopLoss: { stopPrice: 95 },
+    });
+    expect([entry.status, takeProfit.status, stopLoss.status]).toEqual([
+      'accepted',
+      'held',
+      'held',
+    ]);
+
+    broker.process(trade(0, 99.5, 10));
+    expect(await status(entry.id)).toBe('filled');
+    expect(await status(takeProfit.id)).toBe('accepted');
+
+    // A partial take-profit shrinks the stop to what is still held.
+    broker.process(trade(1, 110, 4));
+    expect(await broker.getOrder(stopLoss.id)).toMatchObject({
+      status: 'accepted',
+      quantity: 6,
+    });
+    broker.process(trade(2, 110, 10));
+    expect(await status(takeProfit.id)).toBe('filled');
+    expect(await status(stopLoss.id)).toBe('cancelled');
+  });
+
+  it('cancels bracket exits with an unfilled entry', async () => {
+    const [entry, takeProfit, stopLoss] = await broker.submitBracket({
+      symbol: 'AAPL',
+      side: 'sell',
+      quantity: 10,
+      type: 'limit',
+      limitPrice: 100,
+      takeProfit: { limitPrice: 90 },
+      stopLoss: { stopPrice: 105, limitPrice: 106 },
+    });
+    expect(stopLoss.type).toBe('stop-limit');
+    await broker.cancel(entry.id);
+    expect(await status(takeProfit.id)).toBe('cancelled');
+    expect(await status(stopLoss.id)).toBe('cancelled');
+  });
+
+  it('replaces orders, carrying fills and client ids over', async () => {
+    const order = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+      type: 'limit',
+      limitPrice: 99,
+      clientOrderId: 'client-1',
+    });
+    broker.process(trade(0, 98.5, 4));
+
+    const replacement = await broker.replace(order.id, {
+      quantity: 20,
+      limitPrice: 101,
+    });
+    expect(replacement).toMatchObject({
+      replaces: order.id,
+      filledQuantity: 4,
+      status: 'partially_filled',
+      limitPrice: 101,
+    });
+    expect(await broker.getOrder(order.id)).toMatchObject({
+      status: 'replaced',
+      replacedBy: replacement.id,
+    });
+    expect((await broker.getOrderByClientId('client-1'))!.id).toBe(
+      replacement.id
+    );
+
+    await expect(
+      broker.replace(replacement.id, { quantity: 3 })
+    ).rejects.toThrow('quantity must exceed the 4 already filled');
+    await expect(broker.replace('nope', {})).rejects.toBeInstanceOf(
+      BrokerError
+    );
+  });
+
+  it('rejects invalid orders with a reason', async () => {
+    const results = await Promise.all([
+      broker.submit({ symbol: 'AAPL', side: 'buy', quantity: 0 }),
+      broker.submit({
+        symbol: 'AAPL',
+        side: 'buy',
+        quantity: 1,
+        type: 'limit',
+      }),
+      broker.submit({
+        symbol: 'AAPL',
+        side: 'sell',
+        quantity: 1,
+        type: 'stop',
+        stopPrice: 90,
+        timeInForce: 'ioc',
+      }),
+      broker.submit({
+        symbol: 'AAPL',
+        side: 'sell',
+        quantity: 1,
+        type: 'trailing-stop',
+        trailAmount: 1,
+        trailPercent: 1,
+      }),
+    ]);
+    expect(results.map(order => [order.status, order.rejectReason])).toEqual([
+      ['rejected', 'quantity must be positive'],
+      ['rejected', 'limit orders need a positive limitPrice'],
+      [
+        'rejected',
+        'IOC and FOK are only supported for market and limit orders',
+      ],
+      [
+        'rejected',
+        'trailing-stop orders need exactly one of trailAmount and trailPercent',
+      ],
+    ]);
+
+    await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+      clientOrderId: 'a',
+    });
+    const duplicate = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+      clientOrderId: 'a',
+    });
+    expect(duplicate.rejectReason).toBe('Duplicate clientOrderId a');
+  });
+});
+
+describe('followMarket', () => {
+  it('matches orders on later quotes from the feed it watches', async () => {
+    let last = 101;
+    const provider = {
+      getQuote: async (): Promise<Quote> => ({
+        symbol: 'AAPL',
+        timestamp: T0,
+        bid: last - 0.1,
+        ask: last + 0.1,
+        bidSize: 100,
+        askSize: 100,
+        last,
+      }),
+      getBars: async () => [],
+    };
+    const hub = new StreamHub();
+    const feed = new MarketFeed(hub, provider as never, {
+      intervalMs: 60_000,
+    });
+    const broker = new PaperBroker({ clock: () => T0 });
+    const stop = followMarket(broker, hub, feed, { clock: () => T0 });
+
+    const order = await broker.submit({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 10,
+      type: 'limit',
+      limitPrice: 100,
+    });
+    await vi.waitFor(() => expect(feed.symbols).toEqual(['AAPL']));
+    expect((await broker.getOrder(order.id))!.status).toBe('accepted');
+
+    last = 99.5;
+    await feed.poll();
+    await vi.waitFor(async () =>
+      expect(await broker.getOrder(order.id)).toMatchObject({
+        status: 'filled',
+        averageFillPrice: 99.6,
+      })
+    );
+    await vi.waitFor(() => expect(feed.symbols).toEqual([]));
+    stop();
+  });
+});
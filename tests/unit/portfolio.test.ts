@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest';
+import { PaperBroker } from '@/lib/broker';
+import { OrderManager } from '@/lib/oms';
+import {
+  PortfolioError,
+  PortfolioLedger,
+  followOrders,
+  lotProblems,
+  type CostBasisMethod,
+  type LedgerFill,
+} from '@/lib/portfolio';
+
+let seq = 0;
+
+function fill(
+  side: 'buy' | 'sell',
+  quantity: number,
+  price: number,
+  extra: Partial<LedgerFill> = {}
+): LedgerFill {
+  seq += 1;
+  return {
+    id: `fill-${seq}`,
+    symbol: 'AAPL',
+    side,
+    quantity,
+    price,
+    commission: 0,
+    timestamp: seq,
+    ...extra,
+  };
+}
+
+/** Buys 10 @ 100 and 10 @ 120, then sells 10 @ 130. */
+function realizedWith(method: CostBasisMethod, lotIds?: string[]) {
+  const ledger = new PortfolioLedger({ method });
+  ledger.applyFill(fill('buy', 10, 100));
+  ledger.applyFill(fill('buy', 10, 120));
+  const realized = ledger.applyFill(fill('sell', 10, 130, { lotIds }));
+  return { realized, position: ledger.position('AAPL')! };
+}
+
+describe('PortfolioLedger', () => {
+  it('closes lots in the order of the cost-basis method', () => {
+    expect(realizedWith('fifo')).toMatchObject({
+      realized: 300,
+      position: { quantity: 10, averageCost: 120 },
+    });
+    expect(realizedWith('lifo')).toMatchObject({
+      realized: 100,
+      position: { quantity: 10, averageCost: 100 },
+    });
+    expect(realizedWith('average')).toMatchObject({
+      realized: 200,
+      position: { quantity: 10, averageCost: 110 },
+    });
+    expect(realizedWith('average').position.lots).toHaveLength(1);
+    // Without lot ids, specific identification falls back to FIFO.
+    expect(realizedWith('specific').realized).toBe(300);
+
+    const ledger = new PortfolioLedger({ method: 'specific' });
+    ledger.applyFill(fill('buy', 10, 100));
+    ledger.applyFill(fill('buy', 10, 120));
+    const [, second] = ledger.position('AAPL')!.lots;
+    expect(
+      ledger.applyFill(fill('sell', 10, 130, { lotIds: [second.id] }))
+    ).toBe(100);
+    expect(() =>
+      ledger.applyFill(fill('sell', 1, 130, { lotIds: ['lot-missing'] }))
+    ).toThrow(PortfolioError);
+  });
+
+  it('tracks cash, fees and P&L marked to the latest price', () => {
+    const ledger = new PortfolioLedger({ initialCash: 10_000 });
+    ledger.applyFill(fill('buy', 50, 100, { commission: 5 }));
+    ledger.mark('AAPL', 110);
+    ledger.applyFee({ amount: 10, timestamp: seq, description: 'Data fee' });
+
+    const snapshot = ledger.snapshot();
+    expect(snapshot).toMatchObject({
+      cash: 10_000 - 5_000 - 5 - 10,
+      marketValue: 5_500,
+      equity: 10_485,
+      unrealizedPnl: 500,
+      realizedPnl: 0,
+      fees: 15,
+      netPnl: 485,
+    });
+    expect(snapshot.positions).toHaveLength(1);
+    expect(ledger.entries().map(entry => entry.type)).toEqual([
+      'deposit',
+      'fill',
+      'fee',
+    ]);
+  });
+
+  it('flips from long to short and covers with a profit', () => {
+    const ledger = new PortfolioLedger();
+    ledger.applyFill(fill('buy', 10, 100));
+    expect(ledger.applyFill(fill('sell', 15, 110))).toBe(100);
+    expect(ledger.position('AAPL')).toMatchObject({
+      quantity: -5,
+      averageCost: 110,
+    });
+    expect(ledger.applyFill(fill('buy', 5, 90))).toBe(100);
+    expect(ledger.positions()).toEqual([]);
+    expect(ledger.snapshot().realizedPnl).toBe(200);
+  });
+
+  it('adjusts lots for splits and books dividends', () => {
+    const ledger = new PortfolioLedger();
+    ledger.applyFill(fill('buy', 10, 100));
+    ledger.mark('AAPL', 120);
+    ledger.applySplit({ symbol: 'AAPL', ratio: 4, timestamp: seq });
+    expect(ledger.position('AAPL')).toMatchObject({
+      quantity: 40,
+      averageCost: 25,
+      marketPrice: 30,
+      unrealizedPnl: 200,
+    });
+
+    expect(
+      ledger.applyDividend({
+        symbol: 'AAPL',
+        amountPerShare: 0.5,
+        timestamp: seq,
+      })
+    ).toBe(20);
+    expect(
+      ledger.applyDividend({
+        symbol: 'MSFT',
+        amountPerShare: 1,
+        timestamp: seq,
+      })
+    ).toBe(0);
+    expect(ledger.snapshot()).toMatchObject({ cash: -980, dividends: 20 });
+  });
+
+  it('ignores fills it has already booked and rejects bad ones', () => {
+    const ledger = new PortfolioLedger();
+    const once = fill('buy', 1, 100);
+    expect(ledger.applyFill(once)).toBe(0);
+    expect(ledger.applyFill(once)).toBeNull();
+    expect(ledger.position('AAPL')!.quantity).toBe(1);
+    expect(() => ledger.applyFill(fill('buy', 0, 100))).toThrow(
+      /positive quantity/
+    );
+  });
+  it('records an equity history', () => {
+    const ledger = new PortfolioLedger({ initialCash: 1_000 });
+    ledger.recordEquity(10);
+    ledger.applyFill(fill('buy', 5, 100));
+    ledger.mark('AAPL', 110);
+    ledger.recordEquity(20);
+    ledger.recordEquity(5);
+    ledger.mark('AAPL', 120);
+    ledger.recordEquity(20);
+    expect(ledger.history()).toEqual([
+      { timestamp: 10, equity: 1_000, cash: 1_000 },
+      { timestamp: 20, equity: 1_100, cash: 500 },
+    ]);
+  });
+});
+
+describe('followOrders', () => {
+  it('books past and future fills of the account', async () => {
+    const broker = new PaperBroker({ clock: () => 0 });
+    const oms = new OrderManager(broker);
+    const quote = {
+      symbol: 'AAPL',
+      timestamp: Date.parse('2024-12-31T15:00:00Z'),
+      bid: 99,
+      ask: 100,
+      bidSize: 100,
+      askSize: 100,
+      last: 99.5,
+    };
+    broker.process({ kind: 'quote', quote });
+    await oms.create({ symbol: 'AAPL', side: 'buy', quantity: 10 });
+
+    const ledger = new PortfolioLedger({ initialCash: 1_000 });
+    followOrders(ledger, oms);
+    expect(ledger.position('AAPL')!.quantity).toBe(10);
+
+    await oms.create({ symbol: 'AAPL', side: 'sell', quantity: 4 });
+    await oms.create({
+      accountId: 'other',
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 1,
+    });
+    expect(ledger.position('AAPL')).toMatchObject({
+      quantity: 6,
+      realizedPnl: -4,
+    });
+  });
+
+  it('closes the lots an order names under the specific method', async () => {
+    const broker = new PaperBroker({ clock: () => 0 });
+    const oms = new OrderManager(broker);
+    const quote = (last: number) => ({
+      symbol: 'AAPL',
+      timestamp: Date.parse('2024-12-31T15:00:00Z'),
+      bid: last,
+      ask: last,
+      bidSize: 100,
+      askSize: 100,
+      last,
+    });
+    const ledger = new PortfolioLedger({ method: 'specific' });
+    followOrders(ledger, oms);
+
+    broker.process({ kind: 'quote', quote: quote(100) });
+    await oms.create({ symbol: 'AAPL', side: 'buy', quantity: 10 });
+    broker.process({ kind: 'quote', quote: quote(120) });
+    await oms.create({ symbol: 'AAPL', side: 'buy', quantity: 10 });
+    const [, newer] = ledger.position('AAPL')!.lots;
+
+    expect(lotProblems(ledger, 'AAPL', [newer.id, 'lot-x'])).toEqual([
+      'No open AAPL lot lot-x',
+    ]);
+    expect(lotProblems(new PortfolioLedger(), 'AAPL', ['lot-1'])).toEqual([
+      'lotIds need the specific cost-basis method, not fifo',
+    ]);
+
+    broker.process({ kind: 'quote', quote: quote(130) });
+    const { order } = await oms.create({
+      symbol: 'AAPL',
+      side: 'sell',
+      quantity: 10,
+      lotIds: [newer.id],
+    });
+    expect(order.lotIds).toEqual([newer.id]);
+    expect(ledger.position('AAPL')).toMatchObject({
+      quantity: 10,
+      averageCost: 100,
+      realizedPnl: 100,
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { signJwt } from '@/lib/auth';
+import { MemoryCache } from '@/lib/redis';
+import {
+  CacheRateLimitStore,
+  DEFAULT_POLICIES,
+  InMemoryRateLimitStore,
+  RateLimiter,
+  createRateLimitStore,
+  rateLimitHeaders,
+  rateLimitPoliciesFromEnv,
+  takeToken,
+  type RateLimitPolicy,
+} from '@/lib/ratelimit';
+
+const POLICY: RateLimitPolicy = { name: 'default', limit: 3, windowMs: 3_000 };
+
+describe('takeToken', () => {
+  it('allows bursts up to the limit, then refills steadily', () => {
+    let state = null;
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      const taken = takeToken(state, POLICY, 0);
+      state = taken.state;
+      results.push(taken.result);
+    }
+    expect(results.map(r => r.allowed)).toEqual([true, true, true, false]);
+    expect(results[2]).toMatchObject({ remaining: 0, resetMs: 3_000 });
+    expect(results[3]).toMatchObject({ allowed: false, retryAfterMs: 1_000 });
+
+    // One request's worth comes back per second, never above the limit.
+    expect(takeToken(state, POLICY, 1_000).result).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    expect(takeToken(state, POLICY, 60_000).result.remaining).toBe(2);
+  });
+});
+
+describe('CacheRateLimitStore', () => {
+  it('shares buckets between stores on the same cache', async () => {
+    const cache = new MemoryCache();
+    const one = new CacheRateLimitStore(cache);
+    const two = new CacheRateLimitStore(cache);
+    const allowed = [];
+    for (let i = 0; i < 4; i++) {
+      const store = i % 2 === 0 ? one : two;
+      allowed.push((await store.consume('ip:x', POLICY, 0)).allowed);
+    }
+    expect(allowed).toEqual([true, true, true, false]);
+    // The cache expires on the wall clock, so a millisecond may have gone.
+    const ttl = await cache.pttl('ratelimit:ip:x');
+    expect(ttl).toBeGreaterThan(POLICY.windowMs - 1_000);
+    expect(ttl).toBeLessThanOrEqual(POLICY.windowMs);
+  });
+
+  it('counts a bucket that keeps changing underneath it as empty', async () => {
+    const cache = new MemoryCache();
+    cache.compareAndSet = async () => false;
+    const result = await new CacheRateLimitStore(cache).consume(
+      'ip:x',
+      POLICY,
+      0
+    );
+    expect(result).toMatchObject({ allowed: false, retryAfterMs: 1_000 });
+  });
+
+  it('needs REDIS_URL for the redis store', () => {
+    expect(() =>
+      createRateLimitStore('redis', {} as NodeJS.ProcessEnv)
+    ).toThrow(/REDIS_URL/);
+  });
+});
+
+describe('RateLimiter', () => {
+  const secret = 'test-secret';
+  const policies = {
+    ...DEFAULT_POLICIES,
+    default: POLICY,
+    orders: { name: 'orders' as const, limit: 1, windowMs: 60_000 },
+  };
+  const limiter = (trustProxy = true) =>
+    new RateLimiter({
+      policies,
+      store: new InMemoryRateLimitStore(),
+      secret,
+      trustProxy,
+      clock: () => 1_000_000,
+    });
+  const request = (
+    path: string,
+    init: {
+      method?: string;
+      headers?: Record<string, string>;
+      ip?: string;
+    } = {}
+  ) => new NextRequest(`http://localhost${path}`, init);
+
+  it('picks a budget by route', () => {
+    const rl = limiter();
+    expect(rl.policyFor('POST', '/api/v1/orders')?.name).toBe('orders');
+    expect(rl.policyFor('DELETE', '/api/v1/orders/o-1')?.name).toBe('orders');
+    expect(rl.policyFor('POST', '/api/v1/batch-operations')?.name).toBe(
+      'orders'
+    );
+    expect(
+      rl.policyFor('POST', '/api/v1/agent/tools/place_order/invoke')?.name
+    ).toBe('orders');
+    expect(rl.policyFor('GET', '/api/v1/orders')?.name).toBe('default');
+    expect(rl.policyFor('GET', '/api/v1/bars')?.name).toBe('marketData');
+    expect(rl.policyFor('GET', '/api/v1/search')?.name).toBe('marketData');
+    expect(rl.policyFor('POST', '/api/v1/auth/login')?.name).toBe('login');
+    expect(rl.policyFor('GET', '/health')).toBeNull();
+  });
+
+  it('keys budgets by API token, user or IP', async () => {
+    const rl = limiter();
+    const token = (typ: 'api' | 'session', jti: string) =>
+      signJwt({ sub: 'u1', typ, jti, scopes: ['read'], iat: 0 }, secret);
+    const bearer = async (typ: 'api' | 'session', jti: string) => ({
+      Authorization: `Bearer ${await token(typ, jti)}`,
+    });
+
+    const order = async (headers: Record<string, string>) =>
+      rl.check(request('/api/v1/orders', { method: 'POST', headers }));
+
+    expect(await order(await bearer('api', 't1'))).toMatchObject({
+      allowed: true,
+      subject: 'token:t1',
+    });
+    expect((await order(await bearer('api', 't1')))!.allowed).toBe(false);
+    // Another token, and the user's sessions, have their own budgets.
+    expect((await order(await bearer('api', 't2')))!.allowed).toBe(true);
+    expect(await order(await bearer('session', 's1'))).toMatchObject({
+      allowed: true,
+      subject: 'user:u1',
+    });
+    expect((await order(await bearer('session', 's2')))!.allowed).toBe(false);
+
+    // Forged tokens fall back to the address.
+    expect(
+      await order({
+        Authorization: 'Bearer forged.token.here',
+        'X-Forwarded-For': '203.0.113.7, 10.0.0.1',
+      })
+    ).toMatchObject({ subject: 'ip:203.0.113.7' });
+  });
+
+  it('ignores forwarded addresses unless behind a trusted proxy', async () => {
+    const spoofed = {
+      ip: '192.0.2.9',
+      headers: { 'X-Forwarded-For': '203.0.113.7', 'X-Real-IP': '203.0.113.8' },
+    };
+    expect(
+      await limiter(false).check(request('/api/v1/quotes', spoofed))
+    ).toMatchObject({ subject: 'ip:192.0.2.9' });
+    expect(
+      await limiter(true).check(request('/api/v1/quotes', spoofed))
+    ).toMatchObject({ subject: 'ip:203.0.113.7' });
+    expect(
+      await limiter(true).check(
+        request('/api/v1/quotes', { headers: { 'X-Real-IP': '203.0.113.8' } })
+      )
+    ).toMatchObject({ subject: 'ip:203.0.113.8' });
+    expect(await limiter(false).check(request('/api/v1/quotes'))).toMatchObject(
+      { subject: 'ip:unknown' }
+    );
+  });
+
+  it('describes the decision in headers', async () => {
+    const rl = limiter();
+    const headers = { 'X-Forwarded-For': '198.51.100.1' };
+    let decision;
+    for (let i = 0; i < 4; i++) {
+      decision = await rl.check(request('/api/v1/portfolio', { headers }));
+    }
+    expect(rateLimitHeaders(decision!)).toEqual({
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '3',
+      'RateLimit-Policy': '3;w=3',
+      'Retry-After': '1',
+    });
+  });
+
+  it('reads policies from the environment', () => {
+    const policies = rateLimitPoliciesFromEnv({
+      NODE_ENV: 'test',
+      RATE_LIMIT_ORDERS: '10/1',
+      RATE_LIMIT_DEFAULT: 'lots',
+    });
+    expect(policies.orders).toEqual({
+      name: 'orders',
+      limit: 10,
+      windowMs: 1_000,
+    });
+    expect(policies.default).toEqual(DEFAULT_POLICIES.default);
+  });
+});
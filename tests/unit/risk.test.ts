@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PaperBroker } from '@/lib/broker';
+import { OrderManager, type CreateOrderInput } from '@/lib/oms';
+import { PortfolioLedger, followOrders } from '@/lib/portfolio';
+import { RiskEngine, type RiskLimits } from '@/lib/risk';
+
+const T0 = Date.parse('2024-12-31T15:00:00Z');
+const PRICE = 100;
+
+function setup(limits: RiskLimits, cash = 100_000) {
+  const broker = new PaperBroker({ clock: () => T0 });
+  const ledger = new PortfolioLedger({ initialCash: cash });
+  let now = T0;
+  const risk = new RiskEngine(limits, {
+    account: async accountId => {
+      if (accountId !== 'default') return null;
+      ledger.symbols().forEach(symbol => ledger.mark(symbol, price.value));
+      return ledger.snapshot();
+    },
+    referencePrice: async symbol => (symbol === 'AAPL' ? price.value : null),
+    clock: () => now,
+  });
+  const oms = new OrderManager(broker, { preTrade: [risk.check] });
+  followOrders(ledger, oms);
+  const price = { value: PRICE };
+  const market = (value: number) => {
+    price.value = value;
+    broker.process({
+      kind: 'quote',
+      quote: {
+        symbol: 'AAPL',
+        timestamp: now,
+        bid: value,
+        ask: value,
+        bidSize: 10_000,
+        askSize: 10_000,
+        last: value,
+      },
+    });
+  };
+  market(PRICE);
+  const place = async (input: Partial<CreateOrderInput>) =>
+    (
+      await oms.create({
+        symbol: 'AAPL',
+        side: 'buy',
+        quantity: 10,
+        ...input,
+      })
+    ).order;
+  return {
+    oms,
+    risk,
+    ledger,
+    market,
+    place,
+    nextDay: () => (now += 86_400_000),
+  };
+}
+
+const codes = (order: { rejectReasons?: { code: string }[] }) =>
+  (order.rejectReasons ?? []).map(reason => reason.code);
+
+describe('RiskEngine', () => {
+  it('rejects restricted symbols and fat-finger prices', async () => {
+    const { place } = setup({
+      restrictedSymbols: ['GME'],
+      priceBandPercent: 10,
+    });
+    expect(codes(await place({ symbol: 'GME' }))).toEqual([
+      'RESTRICTED_SYMBOL',
+    ]);
+    const fat = await place({ type: 'limit', limitPrice: 1_000 });
+    expect(fat.status).toBe('rejected');
+    expect(fat.rejectReasons).toEqual([
+      expect.objectContaining({ code: 'PRICE_BAND', limit: 10, value: 900 }),
+    ]);
+    expect((await place({ type: 'limit', limitPrice: 95 })).status).toBe(
+      'accepted'
+    );
+    // Without a market price the band cannot be checked.
+    expect(
+      codes(await place({ symbol: 'MSFT', type: 'limit', limitPrice: 5 }))
+    ).toEqual(['NO_REFERENCE_PRICE']);
+  });
+
+  it('limits order value and position size, counting open orders', async () => {
+    const { place } = setup({
+      maxOrderNotional: 5_000,
+      maxPositionQuantity: 60,
+    });
+    expect(codes(await place({ quantity: 51 }))).toEqual([
+      'MAX_ORDER_NOTIONAL',
+    ]);
+    expect((await place({ quantity: 40 })).status).toBe('filled');
+    await place({ quantity: 15, type: 'limit', limitPrice: 90 });
+    expect(codes(await place({ quantity: 10 }))).toEqual(['MAX_POSITION_SIZE']);
+    // Reducing the position is always allowed.
+    expect((await place({ side: 'sell', quantity: 40 })).status).toBe('filled');
+  });
+
+  it('enforces buying power with leverage', async () => {
+    const { place } = setup({ leverage: 2 }, 10_000);
+    expect((await place({ quantity: 150 })).status).toBe('filled');
+    const over = await place({ quantity: 60 });
+    expect(over.rejectReasons).toEqual([
+      expect.objectContaining({
+        code: 'BUYING_POWER',
+        value: 6_000,
+        limit: 5_000,
+      }),
+    ]);
+  });
+
+  it('stops adding exposure after the daily loss limit', async () => {
+    const { place, market, nextDay } = setup({ maxDailyLoss: 500 });
+    await place({ quantity: 100 });
+    market(94);
+    expect(codes(await place({ quantity: 1 }))).toEqual(['MAX_DAILY_LOSS']);
+    expect((await place({ side: 'sell', quantity: 50 })).status).toBe('filled');
+    nextDay();
+    expect((await place({ quantity: 1 })).status).toBe('filled');
+  });
+
+  it('limits concentration in one symbol', async () => {
+    const { place } = setup({ maxConcentration: 0.25 });
+    expect((await place({ quantity: 250 })).status).toBe('filled');
+    expect(codes(await place({ quantity: 1 }))).toEqual(['CONCENTRATION']);
+  });
+
+  it('checks amendments before they reach the broker', async () => {
+    const { oms, place } = setup({ maxOrderNotional: 5_000 });
+    const order = await place({ type: 'limit', limitPrice: 90 });
+    await expect(oms.amend(order.id, { quantity: 100 })).rejects.toMatchObject({
+      code: 'REJECTED',
+      reasons: [expect.objectContaining({ code: 'MAX_ORDER_NOTIONAL' })],
+    });
+    expect(oms.get(order.id)!.status).toBe('accepted');
+  });
+
+  it('halts trading with the kill switch', async () => {
+    const { oms, risk, place } = setup({});
+    const open = await place({ type: 'limit', limitPrice: 90 });
+    const other = await place({
+      accountId: 'other',
+      type: 'limit',
+      limitPrice: 90,
+    });
+
+    risk.engageKillSwitch('Runaway strategy');
+    const cancelled = await oms.cancelAll();
+    expect(cancelled.map(order => order.id).sort()).toEqual(
+      [open.id, other.id].sort()
+    );
+    const blocked = await place({});
+    expect(blocked.rejectReasons).toEqual([
+      { code: 'KILL_SWITCH', message: 'Trading is halted: Runaway strategy' },
+    ]);
+
+    expect(risk.releaseKillSwitch()).toEqual({ engaged: false });
+    expect((await place({})).status).toBe('filled');
+  });
+});
@@ -0,0 +1,175 @@
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { FileMarketDataProvider } from '@/lib/marketdata';
+import { MarketCache, MemoryCache } from '@/lib/redis';
+import {
+  Screener,
+  compileQuery,
+  formatQuery,
+  parseQuery,
+  parseSavedScreen,
+  parseSort,
+} from '@/lib/screener';
+
+const FIXTURES = path.resolve('data/marketdata');
+
+describe('parseQuery', () => {
+  it('binds and tighter than or and formats canonically', () => {
+    const expression = parseQuery(
+      'RSI14 < 30 AND sector = "Tech" or not avgvol20 > 1.5m'
+    );
+    expect(expression).toMatchObject({
+      type: 'or',
+      left: { type: 'and' },
+      right: { type: 'not' },
+    });
+    expect(formatQuery(expression)).toBe(
+      '(rsi14 < 30 and sector = "Tech") or not (avgvol20 > 1500000)'
+    );
+    expect(
+      formatQuery(
+        parseQuery('exchange not in (\'NYSE\', "NASDAQ") and pe <> -1')
+      )
+    ).toBe('exchange not in ("NYSE", "NASDAQ") and pe != -1');
+  });
+
+  it('points at the position of syntax errors', () => {
+    const cases: [string, string][] = [
+      ['', 'Query is empty'],
+      [
+        'rsi14 <',
+        'Expected a field or value, found end of query at position 8',
+      ],
+      ['rsi14 < 30 and', 'Expected a field or value, found end of query'],
+      ['(pe < 10', 'Expected ")", found end of query at position 9'],
+      ['pe < 10x', 'Invalid number "10x" at position 6'],
+      ['sector = "Tech', 'Unterminated string at position 10'],
+      ["'; DROP TABLE users; --", 'Unterminated string at position 1'],
+      ['pe; 1', 'Unexpected ";" at position 3'],
+      ['1 < 2', 'A comparison needs a field at position 3'],
+      ['pe', 'Expected a comparison, found end of query at position 3'],
+    ];
+    cases.forEach(([query, message]) =>
+      expect(() => parseQuery(query), query).toThrow(message)
+    );
+    expect(() =>
+      parseQuery(`${'('.repeat(40)}pe < 1${')'.repeat(40)}`)
+    ).toThrow(/nested too deeply/);
+    expect(() => parseQuery('x'.repeat(1_001))).toThrow(/at most 1000/);
+  });
+});
+
+describe('compileQuery', () => {
+  it('checks fields and types', () => {
+    expect(() => compileQuery('foo > 1')).toThrow('Unknown field "foo"');
+    expect(() => compileQuery('sma999 > 1')).toThrow(/between 1 and 250/);
+    expect(() => compileQuery('constructor1 > 1')).toThrow(/Unknown field/);
+    expect(() => compileQuery('sector > "A"')).toThrow(/only be compared/);
+    expect(() => compileQuery('pe = "high"')).toThrow(
+      'Cannot compare pe with "high"'
+    );
+    expect(() => compileQuery('sector in ("Energy", 1)')).toThrow(
+      'sector is text and cannot be 1'
+    );
+  });
+
+  it('matches text regardless of case and misses missing values', () => {
+    const { test, fields } = compileQuery(
+      'sector = "TECHNOLOGY" and (pe < 40 or price > sma50)'
+    );
+    expect(fields.map(field => field.name)).toEqual([
+      'sector',
+      'pe',
+      'price',
+      'sma50',
+    ]);
+    const row = { sector: 'Technology', pe: 50, price: 10, sma50: 9 };
+    expect(test(row)).toBe(true);
+    expect(test({ ...row, sma50: null })).toBe(false);
+    expect(test({ ...row, pe: 30, sma50: null })).toBe(true);
+    expect(compileQuery('pe not in (1, 2)').test({ pe: null })).toBe(false);
+  });
+});
+
+describe('Screener', () => {
+  const provider = new FileMarketDataProvider(FIXTURES);
+
+  it('filters the universe on fundamentals and indicators', async () => {
+    const screener = new Screener(provider);
+    const result = await screener.run({
+      query: 'price > sma200 and avgvol20 > 10m and pe < 40',
+      fields: ['rsi14'],
+    });
+    expect(result.query).toBe(
+      'price > sma200 and avgvol20 > 10000000 and pe < 40'
+    );
+    expect(result.results.map(row => row.symbol)).toEqual([
+      'AAPL',
+      'MSFT',
+      'SPY',
+    ]);
+    expect(result.fields).toEqual([
+      'symbol',
+      'name',
+      'sector',
+      'price',
+      'marketcap',
+      'rsi14',
+      'sma200',
+      'avgvol20',
+      'pe',
+    ]);
+    expect(result.results[0].values).toMatchObject({
+      symbol: 'AAPL',
+      price: 236.5,
+      pe: 35.2,
+      rsi14: expect.closeTo(49.94, 2),
+    });
+  });
+
+  it('sorts, pages and caches the result set', async () => {
+    let now = 0;
+    const cache = new MarketCache(new MemoryCache({ clock: () => now }), {
+      clock: () => now,
+    });
+    const screener = new Screener(provider, { cache });
+    const request = {
+      query: 'marketcap > 0',
+      sort: parseSort('sector,-pe'),
+      limit: 2,
+      offset: 1,
+    };
+    const page = await screener.run(request);
+    expect(page).toMatchObject({ total: 6, offset: 1, limit: 2 });
+    expect(page.results.map(row => row.symbol)).toEqual(['JPM', 'SPY']);
+
+    now = 30_000;
+    const again = await screener.run({ ...request, offset: 3 });
+    expect(again.computedAt).toBe(0);
+    expect(again.results.map(row => row.symbol)).toEqual(['NVDA', 'MSFT']);
+    expect(() => parseSort('-nope')).toThrow(/Unknown field/);
+  });
+});
+
+describe('parseSavedScreen', () => {
+  it('stores queries in canonical form', () => {
+    expect(
+      parseSavedScreen({
+        name: ' Oversold ',
+        query: 'RSI14<30',
+        sort: '-rsi14',
+      })
+    ).toEqual({
+      problems: [],
+      screen: {
+        name: 'Oversold',
+        query: 'rsi14 < 30',
+        sort: [{ field: 'rsi14', direction: 'desc' }],
+      },
+    });
+    expect(parseSavedScreen({ query: 'rsi14 <' }).problems).toEqual([
+      'name is required',
+      'query is invalid: Expected a field or value, found end of query at position 8',
+    ]);
+  });
+});
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PaperBroker, followMarket } from '@/lib/broker';
+import type { Bar, Quote } from '@/lib/marketdata/types';
+import { OrderManager } from '@/lib/oms';
+import { PortfolioLedger, followOrders } from '@/lib/portfolio';
+import { RunnerError, StrategyRunner } from '@/lib/runner';
+import type { Fill, Strategy, StrategyContext } from '@/lib/strategy';
+import { MarketFeed, StreamHub } from '@/lib/streaming';
+
+const T0 = Date.parse('2024-12-31T15:00:00Z');
+const MINUTE = 60_000;
+
+function bar(timestamp: number, close: number): Bar {
+  return {
+    symbol: 'AAPL',
+    timestamp,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1_000,
+  };
+}
+
+describe('StrategyRunner', () => {
+  let price: number;
+  let latest: Bar;
+  let hub: StreamHub;
+  let feed: MarketFeed;
+  let oms: OrderManager;
+  let ledger: PortfolioLedger;
+  let runner: StrategyRunner;
+  let stopMarket: () => void;
+
+  function useStrategy(hooks: Omit<Strategy, 'name'>): void {
+    runner = new StrategyRunner({
+      load: async () => ({
+        strategy: { name: 'test', ...hooks },
+        dispose: async () => {},
+      }),
+      oms: () => oms,
+      portfolio: () => ledger,
+      hub,
+      feed,
+      history: async () => [bar(T0 - 2 * MINUTE, 100), bar(T0 - MINUTE, 100)],
+      maxRunsPerUser: 1,
+      clock: () => T0,
+    });
+  }
+
+  async function start() {
+    const run = await runner.start('u1', {
+      strategy: 'test',
+      params: {},
+      symbols: ['AAPL'],
+    });
+    // Lets the poll watching starts finish, so ticks are polled afresh.
+    await feed.poll();
+    return run;
+  }
+
+  async function tick(close: number, timestamp = latest.timestamp) {
+    price = close;
+    latest = bar(timestamp, close);
+    await feed.poll();
+  }
+
+  beforeEach(() => {
+    price = 100;
+    latest = bar(T0 - MINUTE, 100);
+    const provider = {
+      getQuote: async (): Promise<Quote> => ({
+        symbol: 'AAPL',
+        timestamp: latest.timestamp,
+        bid: price - 0.1,
+        ask: price + 0.1,
+        bidSize: 100,
+        askSize: 100,
+        last: price,
+      }),
+      getBars: async () => [latest],
+    };
+    hub = new StreamHub();
+    feed = new MarketFeed(hub, provider as never, { intervalMs: 60_000 });
+    const broker = new PaperBroker({ clock: () => T0 });
+    stopMarket = followMarket(broker, hub, feed, { clock: () => T0 });
+    oms = new OrderManager(broker);
+    ledger = new PortfolioLedger({ initialCash: 10_000 });
+    followOrders(ledger, oms, 'u1');
+  });
+
+  afterEach(async () => {
+    await runner.stopAll();
+    stopMarket();
+    feed.stop();
+  });
+
+  it('trades on closed bars through the order manager and reports fills', async () => {
+    const fills: Fill[] = [];
+    const seen: number[] = [];
+    useStrategy({
+      onStart: ctx =>
+        ctx.indicators.register('sma', { type: 'sma', period: 2 }),
+      onBar: (closed, ctx) => {
+        seen.push(closed.timestamp);
+        if (ctx.portfolio.position('AAPL').quantity === 0) {
+          ctx.submitOrder({ symbol: 'AAPL', side: 'buy', quantity: 5 });
+        }
+      },
+      onFill: (fill, ctx) => {
+        fills.push(fill);
+        ctx.log(`bought at ${ctx.indicators.value('sma')}`);
+      },
+    });
+    const run = await start();
+    expect(run).toMatchObject({ status: 'running', userId: 'u1' });
+    expect(feed.symbols).toEqual(['AAPL']);
+
+    await tick(101);
+    // Only once the next bar starts is the last one closed.
+    await tick(102, T0);
+    await vi.waitFor(() => expect(fills).toHaveLength(1));
+
+    expect(seen).toEqual([T0 - MINUTE]);
+    expect(fills[0]).toMatchObject({
+      orderId: `${run.id}:1`,
+      side: 'buy',
+      quantity: 5,
+    });
+    expect(ledger.position('AAPL')?.quantity).toBe(5);
+    const order = oms.list({ accountId: 'u1' })[0];
+    expect(order).toMatchObject({
+      clientOrderId: `${run.id}:1`,
+      timeInForce: 'gtc',
+      status: 'filled',
+    });
+    expect(runner.get('u1', run.id)).toMatchObject({
+      orderCount: 1,
+      openOrders: [],
+      logs: [{ message: 'bought at 100.5' }],
+    });
+  });
+
+  it('cancels open orders when stopped', async () => {
+    let ctx!: StrategyContext;
+    useStrategy({
+      onStart: context => {
+        ctx = context;
+      },
+    });
+    const run = await start();
+    ctx.submitOrder({
+      symbol: 'AAPL',
+      side: 'buy',
+      quantity: 5,
+      type: 'limit',
+      limitPrice: 50,
+    });
+    await vi.waitFor(async () =>
+      expect(oms.list({ accountId: 'u1' })[0]?.status).toBe('accepted')
+    );
+    expect(runner.get('u1', run.id).openOrders).toHaveLength(1);
+
+    const stopped = await runner.stop('u1', run.id);
+    expect(stopped).toMatchObject({ status: 'stopped', openOrders: [] });
+    expect(oms.list({ accountId: 'u1' })[0].status).toBe('cancelled');
+  });
+
+  it('fails the run when a hook throws', async () => {
+    useStrategy({
+      onBar: () => {
+        throw new Error('boom');
+      },
+    });
+    const run = await start();
+    await tick(101, T0);
+    await vi.waitFor(() =>
+      expect(runner.get('u1', run.id)).toMatchObject({
+        status: 'failed',
+        error: 'boom',
+      })
+    );
+  });
+
+  it('keeps runs to their owner and limits how many go at once', async () => {
+    useStrategy({});
+    const request = { strategy: 'test', params: {}, symbols: ['AAPL'] };
+    const run = await runner.start('u1', request);
+
+    expect(() => runner.get('u2', run.id)).toThrow(RunnerError);
+    await expect(runner.stop('u2', run.id)).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+    expect(runner.list('u2')).toEqual([]);
+    await expect(runner.start('u1', request)).rejects.toMatchObject({
+      code: 'TOO_MANY_RUNS',
+    });
+
+    await runner.stop('u1', run.id);
+    await expect(runner.start('u1', request)).resolves.toMatchObject({
+      status: 'running',
+    });
+    expect(runner.list('u1')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,279 @@
+import path from 'node:path';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import {
+  loadBacktestEvents,
+  runBacktest,
+  type BacktestConfig,
+} from '@/lib/backtest';
+import { FileMarketDataProvider } from '@/lib/marketdata';
+import {
+  InMemoryStrategyStore,
+  SandboxedStrategy,
+  StrategyError,
+  compileStrategySource,
+  createStrategy,
+  loadStrategy,
+  type Strategy,
+} from '@/lib/strategy';
+
+const MEAN_REVERSION = `
+import type { Strategy } from 'stocai';
+
+interface Params { period: number; band: number }
+
+export default function meanReversion({ period, band }: Params) {
+  const submitted: string[] = [];
+  const strategy = {
+    name: 'mean-reversion',
+    onStart(ctx: any) {
+      ctx.indicators.register('bands', { type: 'bbands', period, multiplier: band });
+    },
+    onBar(bar: any, ctx: any) {
+      const bands = ctx.indicators.value('bands');
+      if (!bands || ctx.openOrders(bar.symbol).length > 0) return;
+      const held = ctx.portfolio.position(bar.symbol).quantity;
+      if (bar.close < bands.lower && held === 0) {
+        const quantity = Math.floor(ctx.portfolio.cash / 2 / bar.close);
+        submitted.push(ctx.submitOrder({ symbol: bar.symbol, side: 'buy', quantity }));
+      } else if (bar.close > bands.middle && held > 0) {
+        submitted.push(ctx.submitOrder({ symbol: bar.symbol, side: 'sell', quantity: held }));
+      }
+    },
+    async onFill(fill: any, ctx: any) {
+      const known = submitted.includes(fill.orderId);
+      ctx.log(fill.side + ' ' + known + ' ' + ctx.history(fill.symbol, 3).length);
+    },
+    onStop(ctx: any) {
+      ctx.log('positions ' + ctx.portfolio.positions().length);
+    },
+  } satisfies Partial<Strategy>;
+  return strategy;
+}
+`;
+
+const config: BacktestConfig = {
+  symbols: ['AAPL', 'XOM'],
+  mode: 'bars',
+  timeframe: '1d',
+  start: Date.parse('2024-01-01T00:00:00Z'),
+  initialCapital: 100_000,
+  seed: 1,
+  slippage: { type: 'random-bps', maxBps: 5 },
+  commission: { type: 'per-share', rate: 0.005, minimum: 1 },
+  allowShort: false,
+};
+
+/** Evaluates compiled strategy code in-process, outside any sandbox. */
+function inProcess(compiled: string, params: Record<string, unknown>) {
+  const module = { exports: {} as { default: (p: unknown) => Strategy } };
+  new Function('module', 'exports', compiled)(module, module.exports);
+  return module.exports.default(params);
+}
+
+const sandboxes: SandboxedStrategy[] = [];
+async function sandbox(
+  source: string,
+  limits = { timeoutMs: 200, memoryMb: 32 }
+) {
+  const compiled = await compileStrategySource(source);
+  const strategy = await SandboxedStrategy.load(compiled, {}, { limits });
+  sandboxes.push(strategy);
+  return strategy;
+}
+
+// Loading the TypeScript compiler dominates the first compile.
+beforeAll(() => compileStrategySource('').then(() => {}), 30_000);
+
+afterEach(async () => {
+  await Promise.all(sandboxes.splice(0).map(strategy => strategy.dispose()));
+});
+
+describe('SandboxedStrategy', () => {
+  it('produces the same run as the strategy in-process', async () => {
+    const provider = new FileMarketDataProvider(
+      path.resolve('data/marketdata')
+    );
+    const events = await loadBacktestEvents(provider, config);
+    const compiled = await compileStrategySource(MEAN_REVERSION);
+    const params = { period: 20, band: 2 };
+
+    const direct = await runBacktest(
+      inProcess(compiled, params),
+      events,
+      config
+    );
+    const sandboxed = await SandboxedStrategy.load(compiled, params);
+    sandboxes.push(sandboxed);
+    const isolated = await runBacktest(sandboxed, events, config);
+
+    expect(direct.fills.length).toBeGreaterThan(2);
+    expect(isolated.strategy).toBe('mean-reversion');
+    expect(isolated.fills).toEqual(direct.fills);
+    expect(isolated.summary).toEqual(direct.summary);
+    // Fills carry the order ids the strategy got back from submitOrder.
+    expect(isolated.logs).toEqual(direct.logs);
+  });
+
+  it('gives strategies no access to the host', async () => {
+    const strategy = await sandbox(`
+      export default {
+        name: 'probe',
+        onStart(ctx: any) {
+          const g = globalThis as any;
+          const probes: Record<string, () => unknown> = {
+            process: () => typeof g.process,
+            require: () => typeof g.require,
+            timers: () => typeof g.setTimeout,
+            eval: () => eval('1'),
+            fn: () => new Function('return 1')(),
+            escape: () => g.constructor.constructor('return process')(),
+          };
+          for (const [name, probe] of Object.entries(probes)) {
+            try {
+              ctx.log(name + ': ' + String(probe()));
+            } catch (error) {
+              ctx.log(name + ': blocked');
+            }
+          }
+        },
+      };
+    `);
+    const logs: string[] = [];
+    await strategy.onStart(context({ log: message => logs.push(message) }));
+    expect(logs).toEqual([
+      'process: undefined',
+      'require: undefined',
+      'timers: undefined',
+      'eval: blocked',
+      'fn: blocked',
+      'escape: blocked',
+    ]);
+  });
+
+  it('terminates strategies that exceed their time limit', async () => {
+    const strategy = await sandbox(
+      `export default { name: 'spin', onStart() { for (;;) {} } };`
+    );
+    const error = await strategy.onStart(context()).catch(e => e);
+    expect(error).toBeInstanceOf(StrategyError);
+    expect(error.code).toBe('TIMEOUT');
+    await expect(strategy.onStop(context())).rejects.toBe(error);
+  });
+
+  it('terminates strategies that exceed their memory limit', async () => {
+    const strategy = await sandbox(
+      `export default {
+        name: 'hog',
+        onStart() {
+          const hoard: number[][] = [];
+          for (;;) hoard.push(new Array(100_000).fill(1));
+        },
+      };`,
+      { timeoutMs: 10_000, memoryMb: 16 }
+    );
+    const error = await strategy.onStart(context()).catch(e => e);
+    expect(error).toMatchObject({ code: 'OUT_OF_MEMORY' });
+  });
+
+  it('reports errors thrown by the strategy', async () => {
+    const strategy = await sandbox(
+      `export default {\n  name: 'broken',\n  onStart() {\n    throw new Error('boom');\n  },\n};`
+    );
+    await expect(strategy.onStart(context())).rejects.toMatchObject({
+      code: 'RUNTIME_ERROR',
+      message: 'Error: boom',
+    });
+  });
+});
+
+describe('compileStrategySource', () => {
+  it('rejects syntax errors with their position', async () => {
+    await expect(
+      compileStrategySource('export const = 1;')
+    ).rejects.toMatchObject({
+      code: 'COMPILE_FAILED',
+      message: expect.stringMatching(/^1:14 /),
+    });
+  });
+});
+
+describe('createStrategy / loadStrategy', () => {
+  it('stores uploads and resolves them alongside built-ins', async () => {
+    const store = new InMemoryStrategyStore();
+    const definition = await createStrategy(
+      'u1',
+      { name: 'Mean reversion', source: MEAN_REVERSION },
+      store
+    );
+    expect((await store.list('u1'))[0]).toMatchObject({
+      id: definition.id,
+      name: 'Mean reversion',
+      builtin: false,
+    });
+
+    const uploaded = await loadStrategy(
+      'u1',
+      definition.id,
+      { period: 10, band: 1 },
+      store
+    );
+    expect(uploaded.strategy).toBeInstanceOf(SandboxedStrategy);
+    await uploaded.dispose();
+
+    const builtin = await loadStrategy('u2', 'sma-cross', {}, store);
+    expect(builtin.strategy.name).toBe('sma-cross');
+    await expect(
+      loadStrategy('u1', 'missing', {}, store)
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('keeps uploads to the user who made them', async () => {
+    const store = new InMemoryStrategyStore();
+    const definition = await createStrategy(
+      'u1',
+      { name: 'Mean reversion', source: MEAN_REVERSION },
+      store
+    );
+
+    expect(await store.list('u2')).toEqual([]);
+    expect(await store.get('u2', definition.id)).toBeNull();
+    await expect(
+      loadStrategy('u2', definition.id, {}, store)
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(await store.remove('u2', definition.id)).toBe(false);
+
+    expect(await store.remove('u1', definition.id)).toBe(true);
+    expect(await store.list('u1')).toEqual([]);
+  });
+
+  it('rejects modules without a strategy export', async () => {
+    await expect(
+      createStrategy(
+        'u1',
+        { name: 'empty', source: 'export const answer = 42;' },
+        new InMemoryStrategyStore()
+      )
+    ).rejects.toMatchObject({ code: 'COMPILE_FAILED' });
+  });
+});
+
+function context(overrides: { log?: (message: string) => void } = {}) {
+  return {
+    mode: 'backtest' as const,
+    time: 0,
+    symbols: [],
+    portfolio: {
+      cash: 0,
+      equity: 0,
+      position: (symbol: string) => ({ symbol, quantity: 0, averagePrice: 0 }),
+      positions: () => [],
+    },
+    indicators: { register: () => {}, value: () => null },
+    price: () => undefined,
+    history: () => [],
+    openOrders: () => [],
+    submitOrder: () => 'order-1',
+    cancelOrder: () => false,
+    log: overrides.log ?? (() => {}),
+  };
+}
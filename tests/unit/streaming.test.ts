@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { PaperBroker } from '@/lib/broker';
+import type { Quote } from '@/lib/marketdata';
+import type { MarketDataProvider } from '@/lib/marketdata/provider';
+import { OrderManager, type ManagedOrder } from '@/lib/oms';
+import {
+  eventStream,
+  MarketFeed,
+  streamOrders,
+  StreamHub,
+  type StreamEvent,
+} from '@/lib/streaming';
+
+const quote = (symbol: string, last: number): Quote => ({
+  symbol,
+  timestamp: last,
+  bid: last - 0.01,
+  ask: last + 0.01,
+  bidSize: 100,
+  askSize: 100,
+  last,
+});
+
+/** The order's status on `orders` events, nothing on other channels. */
+const orderStatus = (event: StreamEvent) =>
+  event.channel === 'orders'
+    ? (event.data as { order: ManagedOrder }).order.status
+    : undefined;
+
+/** The last price on `quotes` events, nothing on other channels. */
+const lastPrice = (event: StreamEvent) =>
+  event.channel === 'quotes' ? (event.data as Quote).last : undefined;
+
+async function drain(
+  subscription: ReturnType<StreamHub['subscribe']>
+): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  while (subscription.pending > 0) events.push((await subscription.next())!);
+  return events;
+}
+
+describe('StreamHub', () => {
+  it('delivers matching events in sequence', async () => {
+    const hub = new StreamHub({ clock: () => 42 });
+    const sub = hub.subscribe({ channels: ['quotes'], symbols: ['AAPL'] });
+    const waiting = sub.next();
+    hub.publish({ channel: 'quotes', symbol: 'AAPL', data: 1 });
+    hub.publish({ channel: 'quotes', symbol: 'MSFT', data: 2 });
+    hub.publish({ channel: 'orders', symbol: 'AAPL', data: 3 });
+    hub.publish({ channel: 'quotes', symbol: 'AAPL', data: 4 });
+
+    expect(await waiting).toMatchObject({ seq: 1, data: 1, timestamp: 42 });
+    expect((await drain(sub)).map(e => e.seq)).toEqual([4]);
+    sub.close();
+    expect(await sub.next()).toBeNull();
+    expect(hub.subscriberCount).toBe(0);
+  });
+
+  it('replays missed events on resume and reports gaps', async () => {
+    const hub = new StreamHub({ replayLimit: 3 });
+    for (let i = 1; i <= 5; i++) {
+      hub.publish({ channel: 'fills', accountId: 'a', data: i });
+    }
+
+    const resumed = hub.subscribe({ accountId: 'a' }, { after: 3 });
+    expect(resumed.gap).toBe(false);
+    expect((await drain(resumed)).map(e => e.seq)).toEqual([4, 5]);
+
+    const late = hub.subscribe({}, { after: 1 });
+    expect(late.gap).toBe(true);
+    expect((await drain(late)).map(e => e.seq)).toEqual([3, 4, 5]);
+
+    expect(hub.subscribe({}, { after: 99 }).gap).toBe(true);
+    expect(hub.subscribe({ accountId: 'b' }, { after: 0 }).pending).toBe(0);
+  });
+
+  it('conflates market data for slow clients and drops overflowing ones', async () => {
+    const hub = new StreamHub({ queueLimit: 3 });
+    const slow = hub.subscribe();
+    for (let i = 0; i < 10; i++) {
+      hub.publish({ channel: 'quotes', symbol: 'AAPL', data: i });
+      hub.publish({ channel: 'quotes', symbol: 'MSFT', data: i });
+    }
+    hub.publish({ channel: 'bars', symbol: 'AAPL', key: '1', data: 'a' });
+    const events = await drain(slow);
+    expect(events.map(e => [e.symbol, e.data])).toEqual([
+      ['AAPL', 9],
+      ['MSFT', 9],
+      ['AAPL', 'a'],
+    ]);
+
+    const stuck = hub.subscribe({ channels: ['orders'] });
+    for (let i = 0; i < 4; i++) hub.publish({ channel: 'orders', data: i });
+    expect(stuck.closeReason).toBe('overflow');
+    expect(await stuck.next()).toBeNull();
+  });
+});
+
+describe('stream sources', () => {
+  it('publishes order status changes and fills', async () => {
+    const broker = new PaperBroker();
+    broker.process({ kind: 'quote', quote: quote('AAPL', 100) });
+    const oms = new OrderManager(broker);
+    const hub = new StreamHub();
+    const sub = hub.subscribe({ channels: ['orders', 'fills'] });
+    streamOrders(hub, oms);
+
+    await oms.create({ symbol: 'AAPL', side: 'buy', quantity: 5 });
+    const events = await drain(sub);
+    expect(events.map(e => e.channel)).toEqual([
+      'orders',
+      'orders',
+      'orders',
+      'fills',
+    ]);
+    expect(events.map(orderStatus)).toEqual([
+      'pending',
+      'accepted',
+      'filled',
+      undefined,
+    ]);
+    expect(events[3]).toMatchObject({
+      symbol: 'AAPL',
+      accountId: 'default',
+      data: { fill: { quantity: 5 } },
+    });
+  });
+
+  it('polls watched symbols for new quotes and bars', async () => {
+    let last = 100;
+    const provider = {
+      getQuote: async (symbol: string) => quote(symbol, last),
+      getBars: async (symbol: string) => [
+        {
+          symbol,
+          timestamp: 0,
+          open: 1,
+          high: last,
+          low: 1,
+          close: last,
+          volume: 10,
+        },
+      ],
+    } as unknown as MarketDataProvider;
+    const hub = new StreamHub();
+    const sub = hub.subscribe();
+    const feed = new MarketFeed(hub, provider, { intervalMs: 60_000 });
+
+    const unwatch = feed.watch(['AAPL']);
+    await feed.poll();
+    await feed.poll();
+    last = 101;
+    await feed.poll();
+    // Four events published, but the unread older two were superseded.
+    expect(hub.lastSeq).toBe(4);
+    expect(
+      (await drain(sub)).map(e => [e.channel, e.key, lastPrice(e)])
+    ).toEqual([
+      ['quotes', undefined, 101],
+      ['bars', '1m:0', undefined],
+    ]);
+    unwatch();
+    expect(feed.symbols).toEqual([]);
+  });
+});
+
+describe('eventStream', () => {
+  it('frames events as Server-Sent Events', async () => {
+    const hub = new StreamHub({ clock: () => 7 });
+    hub.publish({ channel: 'orders', data: { id: 'x' } });
+    let closed = false;
+    const stream = eventStream(hub.subscribe({}, { after: 0 }), {
+      retryMs: 500,
+      onClose: () => (closed = true),
+    });
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    const read = async () => decoder.decode((await reader.read()).value);
+
+    expect(await read()).toBe('retry: 500\n\n');
+    expect(await read()).toBe(
+      'id: 1\nevent: orders\ndata: {"seq":1,"timestamp":7,"data":{"id":"x"}}\n\n'
+    );
+    await reader.cancel();
+    expect(closed).toBe(true);
+    expect(hub.subscriberCount).toBe(0);
+  });
+});